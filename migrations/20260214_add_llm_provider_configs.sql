@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS llm_provider_configs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  provider VARCHAR(50) NOT NULL CHECK (provider IN ('openai', 'azure-openai', 'anthropic', 'local', 'mock')),
+  api_key TEXT,
+  endpoint VARCHAR(500),
+  api_version VARCHAR(50),
+  default_model VARCHAR(255),
+  is_default BOOLEAN DEFAULT false,
+  timeout_ms INTEGER CHECK (timeout_ms IS NULL OR timeout_ms > 0),
+  max_retries INTEGER CHECK (max_retries IS NULL OR max_retries >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (tenant_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_provider_configs_tenant ON llm_provider_configs(tenant_id);
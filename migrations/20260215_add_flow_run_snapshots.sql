@@ -0,0 +1,13 @@
+-- Migration: Persist bpmn-engine state so runs survive a runtime-service restart
+
+CREATE TABLE IF NOT EXISTS flow_run_snapshots (
+  run_id UUID PRIMARY KEY REFERENCES flow_runs(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+  bpmn_xml TEXT NOT NULL,
+  engine_state JSONB,
+  runner_state JSONB,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flow_run_snapshots_tenant ON flow_run_snapshots(tenant_id);
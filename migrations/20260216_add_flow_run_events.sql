@@ -0,0 +1,13 @@
+-- Migration: Persisted run event log (sequence id doubles as the SSE event id)
+
+CREATE TABLE IF NOT EXISTS flow_run_events (
+  id BIGSERIAL PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  run_id UUID NOT NULL REFERENCES flow_runs(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  data JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flow_run_events_run ON flow_run_events(run_id, id);
+CREATE INDEX IF NOT EXISTS idx_flow_run_events_tenant ON flow_run_events(tenant_id, id);
@@ -0,0 +1,41 @@
+-- Migration: Token, cost and latency accounting for runtime LLM calls
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  run_id UUID REFERENCES flow_runs(id) ON DELETE CASCADE,
+  step_id UUID REFERENCES flow_steps(id) ON DELETE SET NULL,
+  foundation_id UUID,
+  agent_id UUID,
+  agent_name VARCHAR(255),
+  element_id VARCHAR(255),
+  call_type VARCHAR(20) NOT NULL CHECK (call_type IN ('agent', 'routing', 'image_prompt', 'image')),
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INTEGER DEFAULT 0,
+  completion_tokens INTEGER DEFAULT 0,
+  images INTEGER DEFAULT 0,
+  latency_ms INTEGER DEFAULT 0,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_tenant ON llm_usage(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_run ON llm_usage(run_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_foundation ON llm_usage(tenant_id, foundation_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_agent ON llm_usage(tenant_id, agent_id);
+
+-- Per-step rollup (agent calls and their images)
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS provider VARCHAR(50);
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS model VARCHAR(255);
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER DEFAULT 0;
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS completion_tokens INTEGER DEFAULT 0;
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS latency_ms INTEGER DEFAULT 0;
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) DEFAULT 0;
+
+-- Per-run rollup (every call, including gateway routing)
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER DEFAULT 0;
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS completion_tokens INTEGER DEFAULT 0;
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS llm_calls INTEGER DEFAULT 0;
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS llm_latency_ms BIGINT DEFAULT 0;
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) DEFAULT 0;
@@ -0,0 +1,25 @@
+-- Migration: Per-tenant and per-foundation run budgets (spend guardrails)
+
+CREATE TABLE IF NOT EXISTS run_budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  -- NULL = tenant-wide budget
+  foundation_id UUID,
+  max_tokens_per_run INTEGER CHECK (max_tokens_per_run > 0),
+  max_cost_per_run_usd NUMERIC(12, 6) CHECK (max_cost_per_run_usd > 0),
+  max_wall_clock_seconds INTEGER CHECK (max_wall_clock_seconds > 0),
+  max_concurrent_runs INTEGER CHECK (max_concurrent_runs > 0),
+  max_monthly_cost_usd NUMERIC(12, 2) CHECK (max_monthly_cost_usd > 0),
+  updated_by VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_run_budgets_tenant ON run_budgets(tenant_id) WHERE foundation_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_run_budgets_foundation ON run_budgets(tenant_id, foundation_id) WHERE foundation_id IS NOT NULL;
+
+-- Time spent paused for approval is excluded from a run's wall-clock budget
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP;
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS paused_ms BIGINT NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_flow_runs_tenant_status ON flow_runs(tenant_id, status);
@@ -0,0 +1,9 @@
+-- Migration: Agent tool calls logged as sub-steps of the calling flow step
+
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS parent_step_id UUID REFERENCES flow_steps(id) ON DELETE CASCADE;
+
+ALTER TABLE flow_steps DROP CONSTRAINT IF EXISTS flow_steps_step_type_check;
+ALTER TABLE flow_steps ADD CONSTRAINT flow_steps_step_type_check
+  CHECK (step_type IN ('agent', 'human', 'gateway', 'start', 'end', 'tool'));
+
+CREATE INDEX IF NOT EXISTS idx_flow_steps_parent ON flow_steps(parent_step_id);
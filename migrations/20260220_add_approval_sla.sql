@@ -0,0 +1,50 @@
+-- Migration: Approval SLAs, escalation chains, out-of-office delegation and approval history
+
+-- Who an approval is currently with: a user, or anyone holding a role
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS assigned_role VARCHAR(50);
+-- Set when the assignee was out of office and the approval went to their delegate
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS delegated_from UUID REFERENCES users(id) ON DELETE SET NULL;
+-- Index into the foundation's escalation chain (0 = first assignee)
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP;
+-- Outcome applied to the run when the approval expired: approved, rejected or failed
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS timeout_outcome VARCHAR(20)
+  CHECK (timeout_outcome IN ('approved', 'rejected', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_approvals_pending_expiry ON approval_requests(expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_approvals_assignee ON approval_requests(tenant_id, assigned_to) WHERE status = 'pending';
+
+-- Every transition of an approval request, oldest first
+CREATE TABLE IF NOT EXISTS approval_request_history (
+  id BIGSERIAL PRIMARY KEY,
+  approval_id UUID NOT NULL REFERENCES approval_requests(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+  action VARCHAR(20) NOT NULL
+    CHECK (action IN ('requested', 'assigned', 'delegated', 'escalated', 'expired', 'approved', 'rejected', 'cancelled')),
+  -- User email, or 'system' for the scheduler
+  actor VARCHAR(255) NOT NULL,
+  assigned_to UUID,
+  assigned_role VARCHAR(50),
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_history_approval ON approval_request_history(approval_id, id);
+CREATE INDEX IF NOT EXISTS idx_approval_history_tenant ON approval_request_history(tenant_id, action);
+
+-- Out-of-office delegation: approvals assigned to user_id go to delegate_id while active
+CREATE TABLE IF NOT EXISTS approval_delegations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK (user_id <> delegate_id),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_user ON approval_delegations(tenant_id, user_id, ends_at);
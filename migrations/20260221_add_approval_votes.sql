@@ -0,0 +1,28 @@
+-- Migration: Multi-reviewer approvals (quorum, sequential sign-off, four-eyes)
+
+-- Review policy the request is resolved by; NULL = first decision wins
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS review_policy JSONB;
+-- Who asked for the approval (for runs: who started the run), excluded from voting by four-eyes policies
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS started_by UUID;
+
+-- One vote per reviewer per request
+CREATE TABLE IF NOT EXISTS approval_votes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  approval_id UUID NOT NULL REFERENCES approval_requests(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_email VARCHAR(255),
+  user_role VARCHAR(50),
+  vote VARCHAR(20) NOT NULL CHECK (vote IN ('approved', 'rejected')),
+  comment TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (approval_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_votes_approval ON approval_votes(approval_id, created_at);
+
+ALTER TABLE approval_request_history DROP CONSTRAINT IF EXISTS approval_request_history_action_check;
+ALTER TABLE approval_request_history ADD CONSTRAINT approval_request_history_action_check
+  CHECK (action IN ('requested', 'assigned', 'delegated', 'escalated', 'voted', 'expired', 'approved', 'rejected', 'cancelled'));
@@ -0,0 +1,9 @@
+-- Migration: Human task forms — data reviewers supply when approving a HITL step
+
+-- JSON Schema of the form (from the task's `Form: { ... }` contract), with titles and defaults for rendering
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS form_schema JSONB;
+-- Validated values the request was approved with, handed to the run
+ALTER TABLE approval_requests ADD COLUMN IF NOT EXISTS form_data JSONB;
+
+-- Form values as of each approving vote: the previous approver's values with this vote's changes
+ALTER TABLE approval_votes ADD COLUMN IF NOT EXISTS form_data JSONB;
@@ -0,0 +1,23 @@
+-- Migration: Integration credentials per tenant, optionally overridden per agent
+
+CREATE TABLE IF NOT EXISTS integration_credentials (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  -- NULL: the tenant's default for the integration
+  agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
+  integration VARCHAR(100) NOT NULL,
+  -- Non-secret settings (instance, username, domain, ...); returned by the API
+  config JSONB NOT NULL DEFAULT '{}',
+  -- Passwords and tokens; never returned by the API
+  secrets JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'untested' CHECK (status IN ('untested', 'connected', 'failed')),
+  last_verified_at TIMESTAMP,
+  last_error TEXT,
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_integration_credentials_scope
+  ON integration_credentials(tenant_id, integration, COALESCE(agent_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_integration_credentials_agent ON integration_credentials(agent_id) WHERE agent_id IS NOT NULL;
@@ -0,0 +1,51 @@
+-- Migration: Encrypted credential vault
+-- Secret values are encrypted with a per-secret data key, wrapped under a tenant key derived
+-- from a master key outside the database (integration-service VAULT_KEY_FILE). Integration
+-- config refers to secrets as {"secretRef": "<id>"}.
+
+CREATE TABLE IF NOT EXISTS vault_secrets (
+  id UUID PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  integration VARCHAR(100),
+  -- AES-256-GCM ciphertext of the value, and of its data key under the tenant key
+  ciphertext TEXT NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  -- Master key the data key is wrapped under
+  key_id VARCHAR(100) NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  rotate_after_days INTEGER CHECK (rotate_after_days > 0),
+  rotated_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  last_used_for VARCHAR(255),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_secrets_tenant ON vault_secrets(tenant_id, name);
+CREATE INDEX IF NOT EXISTS idx_vault_secrets_key ON vault_secrets(key_id);
+
+-- Every create, rotation, decrypt, rewrap and delete; kept after the secret is deleted
+CREATE TABLE IF NOT EXISTS vault_audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  secret_id UUID NOT NULL,
+  secret_name VARCHAR(255),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('created', 'rotated', 'decrypted', 'rewrapped', 'deleted')),
+  -- User id, agent:<id> for tool calls, or system
+  actor VARCHAR(255) NOT NULL,
+  purpose VARCHAR(255),
+  agent_id UUID,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_audit_secret ON vault_audit_log(secret_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vault_audit_tenant ON vault_audit_log(tenant_id, created_at DESC);
+
+-- Secret fields now hold vault references; existing plaintext values are sealed by
+-- integration-service on startup
+COMMENT ON COLUMN integration_credentials.secrets IS 'Secret fields as vault references: {"password": {"secretRef": "<id>"}}';
+COMMENT ON COLUMN agent_integrations.config_api_key IS 'Deprecated: API keys are stored in the vault and referenced from config.apiKey';
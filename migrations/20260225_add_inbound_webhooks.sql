@@ -0,0 +1,72 @@
+-- Migration: Inbound webhooks
+-- External systems (Jira, GitHub, ServiceNow, Slack, or any signed POST) call
+-- integration-service at /webhooks/<tenantId>/<endpointId>. Each endpoint either starts a run
+-- of a foundation or delivers a message to a run waiting at a message catch event.
+
+-- Message catch events waiting for their message
+CREATE TABLE IF NOT EXISTS run_message_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  run_id UUID NOT NULL REFERENCES flow_runs(id) ON DELETE CASCADE,
+  step_id UUID NOT NULL REFERENCES flow_steps(id) ON DELETE CASCADE,
+  foundation_id UUID,
+  element_id VARCHAR(255) NOT NULL,
+  message_name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'delivered', 'cancelled')),
+  payload JSONB,
+  -- User id, or webhook:<endpointId>
+  source VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  delivered_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_message_subscriptions_waiting
+  ON run_message_subscriptions(tenant_id, message_name) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_run_message_subscriptions_run ON run_message_subscriptions(run_id);
+
+ALTER TABLE flow_steps DROP CONSTRAINT IF EXISTS flow_steps_status_check;
+ALTER TABLE flow_steps ADD CONSTRAINT flow_steps_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'waiting_approval', 'waiting_message', 'skipped'));
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('jira', 'github', 'servicenow', 'slack', 'generic')),
+  foundation_id UUID NOT NULL REFERENCES foundations(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL DEFAULT 'start_run' CHECK (action IN ('start_run', 'deliver_message')),
+  -- deliver_message: message the run waits for; defaults to <source>.<event>
+  message_name VARCHAR(255),
+  -- Events that trigger the endpoint (e.g. pull_request.opened, jira:issue_created); empty = all
+  events TEXT[] NOT NULL DEFAULT '{}',
+  -- Run input built from the payload: {"issueKey": "issue.key", "title": "{{issue.fields.summary}}"}
+  input_mapping JSONB NOT NULL DEFAULT '{}',
+  -- deliver_message: payload path holding the run to signal ({"runId": "..."}); otherwise the
+  -- message goes to the one run of the foundation waiting for it
+  correlation JSONB NOT NULL DEFAULT '{}',
+  -- Signing secret as a vault reference: {"secretRef": "<id>"}
+  secret JSONB,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID NOT NULL,
+  last_received_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_tenant ON webhook_endpoints(tenant_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+  -- The sender's delivery id (X-GitHub-Delivery, Slack event_id, ...); retries are deduplicated on it
+  delivery_id VARCHAR(255) NOT NULL,
+  event VARCHAR(255),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('accepted', 'ignored', 'failed')),
+  run_id UUID,
+  error TEXT,
+  received_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (endpoint_id, delivery_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, received_at DESC);
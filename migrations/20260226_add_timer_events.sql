@@ -0,0 +1,40 @@
+-- Migration: Timer catch events and message correlation
+-- Intermediate catch events with a timerEventDefinition pause the run until their timer is due;
+-- runtime-service's timer scheduler fires them from run_timers, so waits survive restarts.
+-- Message catch events can wait for a correlation key (e.g. the run's business key), so a
+-- message reaches the one run it belongs to.
+
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS business_key VARCHAR(255);
+CREATE INDEX IF NOT EXISTS idx_flow_runs_business_key ON flow_runs(tenant_id, business_key)
+  WHERE business_key IS NOT NULL;
+
+ALTER TABLE run_message_subscriptions ADD COLUMN IF NOT EXISTS correlation_key VARCHAR(255);
+DROP INDEX IF EXISTS idx_run_message_subscriptions_waiting;
+CREATE INDEX IF NOT EXISTS idx_run_message_subscriptions_waiting
+  ON run_message_subscriptions(tenant_id, message_name, correlation_key) WHERE status = 'waiting';
+
+CREATE TABLE IF NOT EXISTS run_timers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  run_id UUID NOT NULL REFERENCES flow_runs(id) ON DELETE CASCADE,
+  step_id UUID NOT NULL REFERENCES flow_steps(id) ON DELETE CASCADE,
+  element_id VARCHAR(255) NOT NULL,
+  timer_type VARCHAR(20) NOT NULL CHECK (timer_type IN ('duration', 'date', 'cycle')),
+  -- The ISO 8601 value the due time was computed from (variables resolved)
+  timer_value VARCHAR(255) NOT NULL,
+  due_at TIMESTAMP NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'fired', 'cancelled', 'failed')),
+  fired_at TIMESTAMP,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_timers_due ON run_timers(due_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_run_timers_run ON run_timers(run_id);
+
+ALTER TABLE flow_steps DROP CONSTRAINT IF EXISTS flow_steps_status_check;
+ALTER TABLE flow_steps ADD CONSTRAINT flow_steps_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'waiting_approval', 'waiting_message', 'waiting_timer', 'skipped'));
+
+COMMENT ON COLUMN webhook_endpoints.correlation IS
+  'Payload paths for runId, correlationKey (deliver_message) and businessKey (start_run)';
@@ -0,0 +1,32 @@
+-- Migration: Scheduled runs
+-- Foundations can be run on cron schedules. runtime-service's run scheduler (one leader
+-- instance, elected with a Postgres advisory lock) starts a run when a schedule comes due.
+
+CREATE TABLE IF NOT EXISTS run_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  foundation_id UUID NOT NULL REFERENCES foundations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  -- Five-field cron expression or macro (@daily, @hourly, ...)
+  cron_expression VARCHAR(255) NOT NULL,
+  -- IANA timezone the expression is evaluated in
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  -- Input of each run; string values may use {{scheduledAt}} and {{date}}
+  input_template JSONB NOT NULL DEFAULT '{}',
+  -- When the schedule comes due while its previous run is still active
+  overlap_policy VARCHAR(10) NOT NULL DEFAULT 'skip' CHECK (overlap_policy IN ('skip', 'queue', 'allow')),
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  next_run_at TIMESTAMP,
+  -- Occurrence waiting for the previous run to finish (overlap_policy 'queue')
+  queued_at TIMESTAMP,
+  last_run_at TIMESTAMP,
+  last_run_id UUID REFERENCES flow_runs(id) ON DELETE SET NULL,
+  last_skipped_at TIMESTAMP,
+  last_error TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_schedules_tenant ON run_schedules(tenant_id, foundation_id);
+CREATE INDEX IF NOT EXISTS idx_run_schedules_due ON run_schedules(next_run_at) WHERE status = 'active';
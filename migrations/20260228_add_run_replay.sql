@@ -0,0 +1,12 @@
+-- Migration: Run replay
+-- A replay is a new run of a finished run's foundation that reuses the parent run's recorded
+-- step outputs up to a chosen step, then executes live from there.
+
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS parent_run_id UUID REFERENCES flow_runs(id) ON DELETE SET NULL;
+-- The parent run's step the replay re-executed from, and the edited input it was given
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS replay_from_step_id UUID;
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS replay_step_input JSONB;
+CREATE INDEX IF NOT EXISTS idx_flow_runs_parent ON flow_runs(parent_run_id) WHERE parent_run_id IS NOT NULL;
+
+-- Steps of a replay copied from the parent run point at the row they were copied from
+ALTER TABLE flow_steps ADD COLUMN IF NOT EXISTS replayed_from_step_id UUID REFERENCES flow_steps(id) ON DELETE SET NULL;
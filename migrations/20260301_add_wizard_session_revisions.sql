@@ -0,0 +1,45 @@
+-- Migration: Wizard session revisions and branches
+-- Every result a wizard step produces is kept as an immutable revision of that step (the
+-- session's step_data / analysis_result only hold the latest), so earlier AI proposals can
+-- be compared with later ones. A branch is a copy of a session up to a step, usually with
+-- a different custom prompt.
+
+CREATE TABLE IF NOT EXISTS wizard_session_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  session_id UUID NOT NULL REFERENCES wizard_sessions(id) ON DELETE CASCADE,
+  -- step_data key ('step1' ... 'step6') or 'analysis' for analysis_result
+  step VARCHAR(20) NOT NULL,
+  -- 1-based, per session and step
+  revision INTEGER NOT NULL,
+  -- What produced it: the step itself, 'optimize-agents', 'identify-agents', 'branch', ...
+  source VARCHAR(50) NOT NULL,
+  data JSONB NOT NULL,
+  -- The session's custom prompt when the revision was made
+  custom_prompt TEXT,
+  -- Revision of the parent session a branch's revision was copied from (no foreign key:
+  -- revisions are never updated, and the parent session may be deleted)
+  parent_revision_id UUID,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (session_id, step, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wizard_session_revisions_session ON wizard_session_revisions(session_id, step, revision DESC);
+
+CREATE OR REPLACE FUNCTION reject_wizard_session_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'wizard session revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS wizard_session_revisions_immutable ON wizard_session_revisions;
+CREATE TRIGGER wizard_session_revisions_immutable
+  BEFORE UPDATE ON wizard_session_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_wizard_session_revision_update();
+
+ALTER TABLE wizard_sessions ADD COLUMN IF NOT EXISTS parent_session_id UUID REFERENCES wizard_sessions(id) ON DELETE SET NULL;
+-- Last step copied from the parent session
+ALTER TABLE wizard_sessions ADD COLUMN IF NOT EXISTS branched_at_step INTEGER;
+CREATE INDEX IF NOT EXISTS idx_wizard_sessions_parent ON wizard_sessions(parent_session_id) WHERE parent_session_id IS NOT NULL;
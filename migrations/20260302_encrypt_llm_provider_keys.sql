@@ -0,0 +1,10 @@
+-- Migration: Encrypted LLM provider API keys
+-- Provider API keys are stored AES-256-GCM encrypted under a per-tenant key derived from the
+-- credential vault's master key (VAULT_KEY_FILE). runtime-service encrypts keys still in
+-- the plaintext api_key column on startup and clears it.
+
+ALTER TABLE llm_provider_configs ADD COLUMN IF NOT EXISTS api_key_ciphertext TEXT;
+-- Master key the API key is encrypted under
+ALTER TABLE llm_provider_configs ADD COLUMN IF NOT EXISTS api_key_key_id VARCHAR(100);
+
+COMMENT ON COLUMN llm_provider_configs.api_key IS 'Deprecated: API keys are stored encrypted in api_key_ciphertext';
@@ -0,0 +1,13 @@
+-- Migration: Run ownership leases
+-- Each unfinished run is owned by the runtime instance executing it, which renews its lease
+-- on a heartbeat. Other instances only recover runs whose lease has expired, so a replica
+-- starting up no longer takes over runs another replica is still executing.
+
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS owner_instance VARCHAR(100);
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP;
+
+COMMENT ON COLUMN flow_runs.owner_instance IS 'Runtime instance executing the run (hostname:uuid, new on every start)';
+COMMENT ON COLUMN flow_runs.lease_expires_at IS 'When other instances may claim the run if its owner has not renewed the lease';
+
+CREATE INDEX IF NOT EXISTS idx_flow_runs_lease ON flow_runs(lease_expires_at) WHERE status IN ('running', 'paused');
+CREATE INDEX IF NOT EXISTS idx_flow_runs_owner ON flow_runs(owner_instance) WHERE status IN ('running', 'paused');
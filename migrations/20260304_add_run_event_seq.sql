@@ -0,0 +1,24 @@
+-- Migration: Per-run event sequence numbers
+-- Each run numbers its events from 1 (flow_run_events.seq). The next number comes from
+-- flow_runs.last_event_seq, incremented in the statement that inserts the event, so the
+-- run's row lock orders its events by commit and a run's stream can replay from
+-- Last-Event-ID without skipping an event that committed late.
+
+ALTER TABLE flow_runs ADD COLUMN IF NOT EXISTS last_event_seq BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE flow_run_events ADD COLUMN IF NOT EXISTS seq BIGINT;
+
+UPDATE flow_run_events e SET seq = numbered.seq
+FROM (SELECT id, ROW_NUMBER() OVER (PARTITION BY run_id ORDER BY id) AS seq FROM flow_run_events) numbered
+WHERE e.id = numbered.id AND e.seq IS NULL;
+
+UPDATE flow_runs r SET last_event_seq = counts.seq
+FROM (SELECT run_id, MAX(seq) AS seq FROM flow_run_events GROUP BY run_id) counts
+WHERE r.id = counts.run_id AND r.last_event_seq < counts.seq;
+
+ALTER TABLE flow_run_events ALTER COLUMN seq SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_flow_run_events_run_seq ON flow_run_events(run_id, seq);
+-- Replaced by the seq index: runs now page their events by seq
+DROP INDEX IF EXISTS idx_flow_run_events_run;
+
+COMMENT ON COLUMN flow_run_events.seq IS 'Position in the run''s event log, from 1; the SSE event id of the run''s stream';
+COMMENT ON COLUMN flow_runs.last_event_seq IS 'seq of the run''s latest event';
@@ -0,0 +1,11 @@
+-- Migration: Delegated review votes
+-- A request delegated to a colleague (out of office) is voted on by the delegate for the
+-- reviewer it was delegated from, so quorum and sequential reviews with a reviewer list
+-- can still complete. One vote per reviewer, whether cast by them or their delegate.
+
+ALTER TABLE approval_votes ADD COLUMN IF NOT EXISTS on_behalf_of UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE approval_votes DROP CONSTRAINT IF EXISTS approval_votes_approval_id_user_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_votes_reviewer ON approval_votes(approval_id, COALESCE(on_behalf_of, user_id));
+
+COMMENT ON COLUMN approval_votes.on_behalf_of IS 'Reviewer the vote was cast for by their delegate; NULL when the reviewer voted';
@@ -4,11 +4,21 @@ import cors from 'cors';
 import morgan from 'morgan';
 import { Pool } from 'pg';
 import jwt from 'jsonwebtoken';
+import {
+  ApprovalVote,
+  evaluateReviewPolicy,
+  mergeFormVotes,
+  reviewVoteRefusal,
+  validateReviewPolicy,
+  votingAs,
+} from './review-policy';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 const SERVICE_NAME = 'agent-service';
 const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+const RUNTIME_SERVICE_URL = process.env.RUNTIME_SERVICE_URL || 'http://localhost:3007';
+const INTEGRATION_SERVICE_URL = process.env.INTEGRATION_SERVICE_URL || 'http://localhost:3004';
 
 interface AuthTokenPayload {
   userId: string;
@@ -310,7 +320,7 @@ app.get('/api/agents/:id', async (req: Request, res: Response) => {
       createdAt: agent.created_at,
       updatedAt: agent.updated_at,
       capabilities: capsResult.rows,
-      integrations: intResult.rows,
+      integrations: redactSecrets(intResult.rows),
       interactions: interResult.rows,
       skills: skillsResult.rows,
     });
@@ -766,6 +776,61 @@ app.get('/api/agents/:id/integrations/suggest', async (req: Request, res: Respon
   }
 });
 
+// Integration config fields holding secrets (password, apiToken, clientSecret, api_key, pat, ...).
+// Their values live in integration-service's credential vault; config keeps { secretRef } references.
+const SECRET_FIELD_PATTERN = /(password|passphrase|secret|token|api_?key|private_?key|^pat)$/i;
+
+function isSecretRef(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && typeof (value as any).secretRef === 'string' && Object.keys(value).length === 1;
+}
+
+/**
+ * Copy of `value` with secret fields that are not vault references replaced by a marker,
+ * for responses and exports built from config that may predate the vault.
+ */
+function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(redactSecrets) as T;
+  if (!value || typeof value !== 'object' || value instanceof Date) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+    key,
+    SECRET_FIELD_PATTERN.test(key) && entry !== null && entry !== '' && !isSecretRef(entry) ? '[redacted]' : redactSecrets(entry),
+  ])) as T;
+}
+
+class VaultUnavailableError extends Error {}
+
+/**
+ * Move plaintext secrets of an agent integration config into the vault (integration-service
+ * POST /api/vault/seal), returning the config with references. `current` is the stored
+ * config: secrets it already references are rotated. Throws VaultUnavailableError rather
+ * than letting plaintext be stored.
+ */
+async function sealIntegrationSecrets(
+  config: Record<string, any>,
+  current: Record<string, any>,
+  label: { name: string; integration?: string },
+  authorization?: string
+): Promise<Record<string, any>> {
+  const hasPlaintext = Object.entries(config).some(([key, value]) => SECRET_FIELD_PATTERN.test(key) && value && !isSecretRef(value));
+  if (!hasPlaintext) return config;
+
+  try {
+    const response = await fetch(`${INTEGRATION_SERVICE_URL}/api/vault/seal`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(authorization && { Authorization: authorization }) },
+      body: JSON.stringify({ values: config, current, ...label }),
+      signal: AbortSignal.timeout(10000),
+    });
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok) throw new VaultUnavailableError(body.message || `HTTP ${response.status}`);
+    return body.values;
+  } catch (error: any) {
+    if (error instanceof VaultUnavailableError) throw error;
+    throw new VaultUnavailableError(`Could not reach the credential vault: ${error.message}`);
+  }
+}
+
 // POST /api/agents/:id/integrations - Add integration to agent
 app.post('/api/agents/:id/integrations', async (req: Request, res: Response) => {
   try {
@@ -788,6 +853,14 @@ app.post('/api/agents/:id/integrations', async (req: Request, res: Response) =>
       [integration_name]
     );
     
+    // The API key and secret config fields are stored in the vault, referenced from config
+    const sealedConfig = await sealIntegrationSecrets(
+      { ...(config || {}), ...(config_api_key && { apiKey: config_api_key }) },
+      {},
+      { name: `${integration_name} (agent ${id})`, integration: integration_name },
+      req.headers.authorization
+    );
+
     const result = await pool.query(`
       INSERT INTO agent_integrations (
         agent_id, integration_name, integration_type, 
@@ -802,13 +875,17 @@ app.post('/api/agents/:id/integrations', async (req: Request, res: Response) =>
       catalog.rows[0]?.type || 'Custom',
       config_endpoint || null,
       config_auth_type || 'API Key',
-      config_api_key || null,
-      JSON.stringify(config || {}),
+      null,
+      JSON.stringify(sealedConfig),
       is_configured || false
     ]);
     
-    res.json(result.rows[0]);
+    res.json(redactSecrets(result.rows[0]));
   } catch (error) {
+    if (error instanceof VaultUnavailableError) {
+      console.error(`[${SERVICE_NAME}] Add integration error: ${error.message}`);
+      return res.status(503).json({ error: 'Service Unavailable', message: `Secrets could not be stored: ${error.message}` });
+    }
     console.error(`[${SERVICE_NAME}] Add integration error:`, error);
     res.status(500).json({ error: 'Failed to add integration' });
   }
@@ -830,24 +907,47 @@ app.put('/api/agents/:id/integrations/:integrationId', async (req: Request, res:
       return res.status(404).json({ error: 'Agent not found' });
     }
     
+    const current = await pool.query(
+      'SELECT integration_name, integration_type, config FROM agent_integrations WHERE id = $1 AND agent_id = $2',
+      [integrationId, id]
+    );
+    if (current.rows.length === 0) {
+      return res.status(404).json({ error: 'Integration not found' });
+    }
+
+    // A new API key or secret rotates the vault secret the config already references
+    const integration = current.rows[0].integration_name || current.rows[0].integration_type;
+    const sealedConfig = config || config_api_key
+      ? await sealIntegrationSecrets(
+          { ...(config || current.rows[0].config || {}), ...(config_api_key && { apiKey: config_api_key }) },
+          current.rows[0].config || {},
+          { name: `${integration} (agent ${id})`, integration },
+          req.headers.authorization
+        )
+      : null;
+
     const result = await pool.query(`
       UPDATE agent_integrations 
       SET config_endpoint = COALESCE($1, config_endpoint),
           config_auth_type = COALESCE($2, config_auth_type),
-          config_api_key = COALESCE($3, config_api_key),
-          config = COALESCE($4, config),
-          is_configured = COALESCE($5, is_configured),
+          config_api_key = CASE WHEN $3::jsonb IS NULL THEN config_api_key END,
+          config = COALESCE($3, config),
+          is_configured = COALESCE($4, is_configured),
           updated_at = NOW()
-      WHERE id = $6 AND agent_id = $7
+      WHERE id = $5 AND agent_id = $6
       RETURNING *
-    `, [config_endpoint, config_auth_type, config_api_key, JSON.stringify(config || {}), is_configured, integrationId, id]);
+    `, [config_endpoint, config_auth_type, sealedConfig && JSON.stringify(sealedConfig), is_configured, integrationId, id]);
     
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Integration not found' });
     }
     
-    res.json(result.rows[0]);
+    res.json(redactSecrets(result.rows[0]));
   } catch (error) {
+    if (error instanceof VaultUnavailableError) {
+      console.error(`[${SERVICE_NAME}] Update integration error: ${error.message}`);
+      return res.status(503).json({ error: 'Service Unavailable', message: `Secrets could not be stored: ${error.message}` });
+    }
     console.error(`[${SERVICE_NAME}] Update integration error:`, error);
     res.status(500).json({ error: 'Failed to update integration' });
   }
@@ -1066,7 +1166,7 @@ app.get('/api/agents/:id/integrations', async (req: Request, res: Response) => {
       [id]
     );
 
-    res.json(result.rows);
+    res.json(redactSecrets(result.rows));
   } catch (error) {
     console.error(`[${SERVICE_NAME}] Get agent integrations error:`, error);
     res.status(500).json({ error: 'Internal Server Error', message: 'Failed to get integrations' });
@@ -1922,7 +2022,8 @@ app.get('/api/agents/design/export', async (req: Request, res: Response) => {
       schemaVersion: 'flowgrid.design-export.v1',
       exportedAt: new Date().toISOString(),
       tenantId,
-      agents: agentsResult.rows,
+      // Vault references survive the export; any plaintext secret in config does not
+      agents: redactSecrets(agentsResult.rows),
       relationships: interactionsResult.rows.map((row) => ({
         id: row.id,
         sourceAgentId: row.source_agent_id,
@@ -1931,7 +2032,7 @@ app.get('/api/agents/design/export', async (req: Request, res: Response) => {
         targetAgentName: row.target_name,
         messageType: row.message_type,
         description: row.description,
-        config: row.config,
+        config: redactSecrets(row.config),
         isActive: row.is_active,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
@@ -2583,20 +2684,59 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 // Approval Requests API (HITL - Human In The Loop)
 // ============================================================================
 
-// GET /api/approvals/stats - Counts by status for badge display
+/**
+ * Append a transition to an approval's history. SLA transitions (assignment on request,
+ * escalation, expiry) are written by runtime-service's approval scheduler.
+ */
+async function recordApprovalHistory(
+  approvalId: string,
+  tenantId: string,
+  action: 'requested' | 'delegated' | 'voted' | 'approved' | 'rejected',
+  actor: string,
+  details: Record<string, any> = {},
+  assignee: { assignedTo?: string | null; assignedRole?: string | null } = {}
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO approval_request_history (approval_id, tenant_id, action, actor, assigned_to, assigned_role, details)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [approvalId, tenantId, action, actor, assignee.assignedTo || null, assignee.assignedRole || null, JSON.stringify(details)]
+  );
+}
+
+// GET /api/approvals/stats - Counts by status for badge display, plus SLA state and transitions
 app.get('/api/approvals/stats', async (req: Request, res: Response) => {
   try {
     const tenantId = req.tenantId;
     if (!tenantId) return res.status(401).json({ error: 'Unauthorized' });
 
-    const result = await pool.query(
-      `SELECT status, COUNT(*)::int as count FROM approval_requests WHERE tenant_id = $1 GROUP BY status`,
-      [tenantId]
-    );
+    const [result, pendingResult, transitionResult] = await Promise.all([
+      pool.query(
+        `SELECT status, COUNT(*)::int as count FROM approval_requests WHERE tenant_id = $1 GROUP BY status`,
+        [tenantId]
+      ),
+      pool.query(
+        `SELECT COUNT(*) FILTER (WHERE escalation_level > 0)::int AS escalated,
+                COUNT(*) FILTER (WHERE delegated_from IS NOT NULL)::int AS delegated,
+                COUNT(*) FILTER (WHERE expires_at <= NOW() + INTERVAL '1 hour')::int AS due_within_hour
+         FROM approval_requests WHERE tenant_id = $1 AND status = 'pending'`,
+        [tenantId]
+      ),
+      pool.query(
+        `SELECT action, COUNT(*)::int as count FROM approval_request_history WHERE tenant_id = $1 GROUP BY action`,
+        [tenantId]
+      ),
+    ]);
 
-    const stats: Record<string, number> = { pending: 0, approved: 0, rejected: 0, expired: 0, cancelled: 0 };
+    const stats: Record<string, any> = { pending: 0, approved: 0, rejected: 0, expired: 0, cancelled: 0 };
     result.rows.forEach((r: any) => { stats[r.status] = r.count; });
 
+    const pending = pendingResult.rows[0];
+    stats.pendingEscalated = pending.escalated;
+    stats.pendingDelegated = pending.delegated;
+    stats.dueWithinHour = pending.due_within_hour;
+    // Transitions recorded in approval history, by action (requested, escalated, delegated, expired, ...)
+    stats.transitions = Object.fromEntries(transitionResult.rows.map((r: any) => [r.action, r.count]));
+
     res.json(stats);
   } catch (error) {
     console.error(`[${SERVICE_NAME}] Approval stats error:`, error);
@@ -2615,6 +2755,8 @@ app.get('/api/approvals', async (req: Request, res: Response) => {
     const status = req.query.status as string;
     const agent_id = req.query.agent_id as string;
     const foundation_id = req.query.foundation_id as string;
+    // assigned=me: requests assigned to the caller or to the caller's role
+    const assignedToMe = req.query.assigned === 'me';
 
     let query = `SELECT * FROM approval_requests WHERE tenant_id = $1`;
     const params: any[] = [tenantId];
@@ -2623,6 +2765,7 @@ app.get('/api/approvals', async (req: Request, res: Response) => {
     if (status) { query += ` AND status = $${idx++}`; params.push(status); }
     if (agent_id) { query += ` AND agent_id = $${idx++}`; params.push(agent_id); }
     if (foundation_id) { query += ` AND foundation_id = $${idx++}`; params.push(foundation_id); }
+    if (assignedToMe) { query += ` AND (assigned_to = $${idx++} OR assigned_role = $${idx++})`; params.push(req.user?.userId, req.user?.role); }
 
     query += ` ORDER BY CASE WHEN status = 'pending' THEN 0 ELSE 1 END, requested_at DESC LIMIT $${idx++} OFFSET $${idx++}`;
     params.push(limit, offset);
@@ -2636,6 +2779,7 @@ app.get('/api/approvals', async (req: Request, res: Response) => {
     if (status) { countQuery += ` AND status = $${ci++}`; countParams.push(status); }
     if (agent_id) { countQuery += ` AND agent_id = $${ci++}`; countParams.push(agent_id); }
     if (foundation_id) { countQuery += ` AND foundation_id = $${ci++}`; countParams.push(foundation_id); }
+    if (assignedToMe) { countQuery += ` AND (assigned_to = $${ci++} OR assigned_role = $${ci++})`; countParams.push(req.user?.userId, req.user?.role); }
 
     const countResult = await pool.query(countQuery, countParams);
 
@@ -2646,6 +2790,167 @@ app.get('/api/approvals', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/approvals/delegations - Out-of-office delegations (own; all in tenant for admins)
+app.get('/api/approvals/delegations', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    if (!tenantId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const all = req.user?.role === 'admin' && req.query.all === 'true';
+    const result = await pool.query(
+      `SELECT d.*, u.email AS user_email, du.email AS delegate_email,
+              (d.starts_at <= NOW() AND d.ends_at > NOW()) AS active
+       FROM approval_delegations d
+       JOIN users u ON u.id = d.user_id
+       JOIN users du ON du.id = d.delegate_id
+       WHERE d.tenant_id = $1 AND d.ends_at > NOW() ${all ? '' : 'AND d.user_id = $2'}
+       ORDER BY d.starts_at ASC`,
+      all ? [tenantId] : [tenantId, req.user?.userId]
+    );
+
+    res.json({ data: result.rows });
+  } catch (error) {
+    console.error(`[${SERVICE_NAME}] List delegations error:`, error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to list delegations' });
+  }
+});
+
+// POST /api/approvals/delegations - Hand your approvals to a colleague while out of office
+app.post('/api/approvals/delegations', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    if (!tenantId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { delegate_id, starts_at, ends_at, reason } = req.body;
+    // Admins may set up a delegation on someone else's behalf
+    const userId = req.user?.role === 'admin' && req.body.user_id ? req.body.user_id : req.user?.userId;
+    const startsAt = starts_at ? new Date(starts_at) : new Date();
+    const endsAt = new Date(ends_at);
+
+    if (!delegate_id || !ends_at) {
+      return res.status(400).json({ error: 'Bad Request', message: 'delegate_id and ends_at are required' });
+    }
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      return res.status(400).json({ error: 'Bad Request', message: 'ends_at must be a valid date after starts_at' });
+    }
+    if (delegate_id === userId) {
+      return res.status(400).json({ error: 'Bad Request', message: 'Cannot delegate to yourself' });
+    }
+    const delegate = await pool.query(
+      `SELECT id, email FROM users WHERE id = $1 AND tenant_id = $2 AND is_active = true`,
+      [delegate_id, tenantId]
+    );
+    if (delegate.rows.length === 0) {
+      return res.status(400).json({ error: 'Bad Request', message: 'Delegate must be an active user in your tenant' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO approval_delegations (tenant_id, user_id, delegate_id, starts_at, ends_at, reason)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [tenantId, userId, delegate_id, startsAt, endsAt, reason || null]
+    );
+
+    // Already out of office: move pending approvals over now (new ones are routed by the scheduler)
+    let reassigned = 0;
+    if (startsAt <= new Date()) {
+      const moved = await pool.query(
+        `UPDATE approval_requests SET assigned_to = $1, delegated_from = $2, updated_at = NOW()
+         WHERE tenant_id = $3 AND assigned_to = $2 AND status = 'pending'
+         RETURNING id`,
+        [delegate_id, userId, tenantId]
+      );
+      for (const row of moved.rows) {
+        await recordApprovalHistory(row.id, tenantId, 'delegated', req.user?.email || 'unknown',
+          { from: userId, reason: 'out_of_office', delegationId: result.rows[0].id }, { assignedTo: delegate_id });
+      }
+      reassigned = moved.rows.length;
+    }
+
+    console.log(`[${SERVICE_NAME}] Delegation ${result.rows[0].id}: ${userId} → ${delegate.rows[0].email} (${reassigned} approvals reassigned)`);
+    res.status(201).json({ ...result.rows[0], reassigned });
+  } catch (error) {
+    console.error(`[${SERVICE_NAME}] Create delegation error:`, error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to create delegation' });
+  }
+});
+
+// DELETE /api/approvals/delegations/:id - End a delegation (approvals already moved stay with the delegate)
+app.delete('/api/approvals/delegations/:id', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    const isAdmin = req.user?.role === 'admin';
+
+    const result = await pool.query(
+      `DELETE FROM approval_delegations WHERE id = $1 AND tenant_id = $2 ${isAdmin ? '' : 'AND user_id = $3'} RETURNING id`,
+      isAdmin ? [req.params.id, tenantId] : [req.params.id, tenantId, req.user?.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Not Found', message: 'Delegation not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`[${SERVICE_NAME}] Delete delegation error:`, error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to delete delegation' });
+  }
+});
+
+// GET /api/approvals/:id/history - Transitions of an approval request, oldest first
+app.get('/api/approvals/:id/history', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+
+    const result = await pool.query(
+      `SELECT h.* FROM approval_request_history h
+       JOIN approval_requests a ON a.id = h.approval_id
+       WHERE h.approval_id = $1 AND a.tenant_id = $2
+       ORDER BY h.id ASC`,
+      [req.params.id, tenantId]
+    );
+
+    res.json({ data: result.rows });
+  } catch (error) {
+    console.error(`[${SERVICE_NAME}] Approval history error:`, error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to get approval history' });
+  }
+});
+
+// GET /api/approvals/:id/votes - Reviewers' votes and where the request stands under its review policy
+app.get('/api/approvals/:id/votes', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+
+    const approvalResult = await pool.query(
+      `SELECT id, status, review_policy, requested_by, assigned_to, delegated_from FROM approval_requests WHERE id = $1 AND tenant_id = $2`,
+      [req.params.id, tenantId]
+    );
+    if (approvalResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Not Found', message: 'Approval request not found' });
+    }
+    const approval = approvalResult.rows[0];
+
+    const votes = await pool.query<ApprovalVote>(
+      `SELECT * FROM approval_votes WHERE approval_id = $1 ORDER BY created_at ASC`,
+      [approval.id]
+    );
+
+    // Whether the caller may vote now, and if not, why
+    const refusal = approval.status === 'pending' ? reviewVoteRefusal(approval, votes.rows, req.user!)?.message || null : 'Already decided';
+    res.json({
+      data: votes.rows,
+      policy: approval.review_policy,
+      resolution: evaluateReviewPolicy(approval.review_policy, votes.rows),
+      canVote: !refusal,
+      refusal,
+    });
+  } catch (error) {
+    console.error(`[${SERVICE_NAME}] Approval votes error:`, error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to get approval votes' });
+  }
+});
+
 // GET /api/approvals/:id - Single approval detail
 app.get('/api/approvals/:id', async (req: Request, res: Response) => {
   try {
@@ -2674,19 +2979,36 @@ app.post('/api/approvals', async (req: Request, res: Response) => {
     const tenantId = req.tenantId;
     if (!tenantId) return res.status(401).json({ error: 'Unauthorized' });
 
-    const { title, description, agent_id, agent_name, flow_instance_id, foundation_id, context, urgency, expires_at } = req.body;
+    const { title, description, agent_id, agent_name, flow_instance_id, foundation_id, context, urgency, expires_at, review_policy, form_schema } = req.body;
 
     if (!title) {
       return res.status(400).json({ error: 'Bad Request', message: 'title is required' });
     }
+    const policyError = review_policy ? validateReviewPolicy(review_policy) : null;
+    if (policyError) {
+      return res.status(400).json({ error: 'Bad Request', message: policyError });
+    }
+    if (form_schema && (form_schema.type !== 'object' || typeof form_schema.properties !== 'object')) {
+      return res.status(400).json({ error: 'Bad Request', message: "form_schema must be an object schema with 'properties'" });
+    }
 
     const result = await pool.query(
-      `INSERT INTO approval_requests (tenant_id, title, description, agent_id, agent_name, flow_instance_id, foundation_id, context, urgency, expires_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `INSERT INTO approval_requests
+         (tenant_id, title, description, agent_id, agent_name, flow_instance_id, foundation_id, context, urgency, expires_at,
+          review_policy, form_schema, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
        RETURNING *`,
-      [tenantId, title, description || null, agent_id || null, agent_name || null, flow_instance_id || null, foundation_id || null, context || '{}', urgency || 'normal', expires_at || null]
+      [
+        tenantId, title, description || null, agent_id || null, agent_name || null, flow_instance_id || null, foundation_id || null,
+        context || '{}', urgency || 'normal', expires_at || null, review_policy ? JSON.stringify(review_policy) : null,
+        form_schema ? JSON.stringify(form_schema) : null, req.user?.userId || null,
+      ]
     );
 
+    await recordApprovalHistory(result.rows[0].id, tenantId, 'requested', req.user?.email || 'unknown', {
+      urgency: result.rows[0].urgency, expiresAt: result.rows[0].expires_at,
+    });
+
     console.log(`[${SERVICE_NAME}] Created approval request: ${result.rows[0].id}`);
     res.status(201).json(result.rows[0]);
   } catch (error) {
@@ -2695,36 +3017,129 @@ app.post('/api/approvals', async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/approvals/:id/decide - Approve or reject
+/**
+ * Tell runtime-service an approval raised by a flow run was decided, so the paused step
+ * continues (or is sent to rework). A failure is logged, not returned: the decision is
+ * stored, and resuming the run later applies it.
+ */
+async function notifyRuntimeOfDecision(approvalId: string, authorization?: string): Promise<void> {
+  try {
+    const response = await fetch(`${RUNTIME_SERVICE_URL}/api/runtime/approvals/${approvalId}/decision`, {
+      method: 'POST',
+      headers: authorization ? { Authorization: authorization } : {},
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => ({}));
+      console.error(`[${SERVICE_NAME}] Runtime did not apply approval ${approvalId}: ${body.error || `HTTP ${response.status}`}`);
+    }
+  } catch (error: any) {
+    console.error(`[${SERVICE_NAME}] Could not reach runtime-service for approval ${approvalId}:`, error.message);
+  }
+}
+
+// POST /api/approvals/:id/decide - Vote to approve or reject. The request resolves when its
+// review policy is satisfied; without a policy the first vote decides.
 app.post('/api/approvals/:id/decide', async (req: Request, res: Response) => {
+  const client = await pool.connect();
   try {
     const tenantId = req.tenantId;
-    const userId = req.user?.userId;
-    const userEmail = req.user?.email;
+    const user = req.user!;
     const { id } = req.params;
-    const { decision, comment } = req.body;
+    const { decision, comment, form_data } = req.body;
 
     if (!decision || !['approved', 'rejected'].includes(decision)) {
       return res.status(400).json({ error: 'Bad Request', message: "decision must be 'approved' or 'rejected'" });
     }
+    if (form_data !== undefined && (typeof form_data !== 'object' || form_data === null || Array.isArray(form_data))) {
+      return res.status(400).json({ error: 'Bad Request', message: 'form_data must be an object' });
+    }
 
-    const result = await pool.query(
-      `UPDATE approval_requests 
-       SET status = $1, decided_by = $2, decided_by_name = $3, decided_at = NOW(), decision_comment = $4, updated_at = NOW()
-       WHERE id = $5 AND tenant_id = $6 AND status = 'pending'
+    await client.query('BEGIN');
+
+    // Lock the request so concurrent votes are evaluated one after another
+    const approvalResult = await client.query(
+      `SELECT * FROM approval_requests WHERE id = $1 AND tenant_id = $2 AND status = 'pending' FOR UPDATE`,
+      [id, tenantId]
+    );
+    if (approvalResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Not Found', message: 'Approval request not found or already decided' });
+    }
+    let approval = approvalResult.rows[0];
+
+    const votes = (await client.query<ApprovalVote>(
+      `SELECT * FROM approval_votes WHERE approval_id = $1 ORDER BY created_at ASC`,
+      [id]
+    )).rows;
+    const refusal = reviewVoteRefusal(approval, votes, user);
+    if (refusal) {
+      await client.query('ROLLBACK');
+      return res.status(refusal.status).json({ error: refusal.status === 403 ? 'Forbidden' : 'Conflict', message: refusal.message });
+    }
+
+    // Approving a request with a form: the values submitted so far, this vote's last, must fill it
+    let formData: Record<string, any> | null = null;
+    if (decision === 'approved' && approval.form_schema) {
+      const { value, errors } = mergeFormVotes(approval.form_schema, votes, form_data);
+      if (errors.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'Bad Request', message: `Invalid form data: ${errors.join('; ')}`, errors });
+      }
+      formData = value;
+    }
+
+    // A delegate's vote counts for the reviewer the request was delegated from
+    const reviewer = votingAs(approval, votes, user);
+    const voteResult = await client.query<ApprovalVote>(
+      `INSERT INTO approval_votes (approval_id, tenant_id, user_id, on_behalf_of, user_email, user_role, vote, comment, form_data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
        RETURNING *`,
-      [decision, userId, userEmail, comment || null, id, tenantId]
+      [
+        id, tenantId, user.userId, reviewer === user.userId ? null : reviewer, user.email, user.role, decision, comment || null,
+        formData ? JSON.stringify(formData) : null,
+      ]
     );
+    votes.push(voteResult.rows[0]);
+
+    const resolution = evaluateReviewPolicy(approval.review_policy, votes);
+    if (resolution.status !== 'pending') {
+      const updated = await client.query(
+        `UPDATE approval_requests
+         SET status = $1, decided_by = $2, decided_by_name = $3, decided_at = NOW(), decision_comment = $4,
+             form_data = $5, updated_at = NOW()
+         WHERE id = $6
+         RETURNING *`,
+        [resolution.status, user.userId, user.email, comment || null, resolution.status === 'approved' && formData ? JSON.stringify(formData) : null, id]
+      );
+      approval = updated.rows[0];
+    }
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Not Found', message: 'Approval request not found or already decided' });
+    await client.query('COMMIT');
+
+    const assignee = { assignedTo: approval.assigned_to, assignedRole: approval.assigned_role };
+    await recordApprovalHistory(id, tenantId!, 'voted', user.email || 'unknown', {
+      vote: decision, comment: comment || null, approvals: resolution.approvals, rejections: resolution.rejections, required: resolution.required,
+    }, assignee);
+    if (resolution.status !== 'pending') {
+      await recordApprovalHistory(id, tenantId!, resolution.status, user.email || 'unknown', { comment: comment || null }, assignee);
+      console.log(`[${SERVICE_NAME}] Approval ${id} ${resolution.status} (${resolution.approvals} approved, ${resolution.rejections} rejected)`);
+
+      // Approvals raised by a flow run: hand the decision to runtime-service so the run continues
+      if (approval.flow_instance_id) {
+        await notifyRuntimeOfDecision(id, req.headers.authorization);
+      }
+    } else {
+      console.log(`[${SERVICE_NAME}] Approval ${id}: ${user.email} voted ${decision} (${resolution.approvals}/${resolution.required} approvals)`);
     }
 
-    console.log(`[${SERVICE_NAME}] Approval ${id} ${decision} by ${userEmail}`);
-    res.json(result.rows[0]);
+    res.json({ ...approval, votes, resolution });
   } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
     console.error(`[${SERVICE_NAME}] Decide approval error:`, error);
     res.status(500).json({ error: 'Internal Server Error', message: 'Failed to decide approval' });
+  } finally {
+    client.release();
   }
 });
 
@@ -0,0 +1,222 @@
+/**
+ * Review policies — how many reviewers, and which, must vote before an approval request
+ * resolves. Set per request (`review_policy`); flow runs take it from the BPMN task or its
+ * agent (see runtime-service engine/review-policy.ts). No policy: the first vote decides.
+ *
+ * Requests handed to a delegate (out of office) are voted on by the delegate for the
+ * reviewer they were delegated from; the vote records both (`on_behalf_of`).
+ */
+
+export interface ReviewPolicy {
+  mode: 'single' | 'quorum' | 'sequential';
+  // quorum: approvals needed (N of M)
+  required?: number;
+  // User IDs allowed to vote; for sequential reviews, the sign-off order
+  reviewers?: string[];
+  // Roles allowed to vote (UserRole)
+  roles?: string[];
+  // The requester may not vote on their own request
+  fourEyes?: boolean;
+}
+
+// A row of approval_votes
+export interface ApprovalVote {
+  id: string;
+  approval_id: string;
+  tenant_id: string;
+  user_id: string;
+  // Votes cast by a delegate: the reviewer the request was delegated from
+  on_behalf_of: string | null;
+  user_email: string | null;
+  user_role: string | null;
+  vote: 'approved' | 'rejected';
+  comment: string | null;
+  // Approving votes on a request with a form: the values submitted
+  form_data: Record<string, any> | null;
+  created_at: Date;
+}
+
+// What the policy reads of a vote
+export type CastVote = Pick<ApprovalVote, 'user_id' | 'vote'> & Partial<Pick<ApprovalVote, 'on_behalf_of' | 'form_data'>>;
+
+// The user casting a vote
+export interface Voter {
+  userId: string;
+  role: string;
+}
+
+export interface ReviewResolution {
+  status: 'pending' | 'approved' | 'rejected';
+  approvals: number;
+  rejections: number;
+  required: number;
+  // Sequential reviews: whose turn it is
+  nextReviewer: string | null;
+}
+
+const REVIEW_MODES = ['single', 'quorum', 'sequential'];
+const USER_ROLES = ['admin', 'user', 'viewer'];
+
+export function validateReviewPolicy(policy: any): string | null {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) return 'review_policy must be an object';
+  if (!REVIEW_MODES.includes(policy.mode)) return `review_policy.mode must be one of: ${REVIEW_MODES.join(', ')}`;
+  if (policy.reviewers !== undefined && (!Array.isArray(policy.reviewers)
+    || policy.reviewers.some((r: any) => typeof r !== 'string' || !r)
+    || new Set(policy.reviewers).size !== policy.reviewers.length)) {
+    return 'review_policy.reviewers must be a list of distinct user IDs';
+  }
+  if (policy.roles !== undefined && (!Array.isArray(policy.roles) || policy.roles.length === 0
+    || policy.roles.some((r: any) => !USER_ROLES.includes(r)))) {
+    return `review_policy.roles must be a non-empty list of: ${USER_ROLES.join(', ')}`;
+  }
+  if (policy.fourEyes !== undefined && typeof policy.fourEyes !== 'boolean') return 'review_policy.fourEyes must be a boolean';
+  if (policy.mode === 'quorum') {
+    if (!Number.isInteger(policy.required) || policy.required < 1) return 'review_policy.required must be a positive integer';
+    if (policy.reviewers && policy.required > policy.reviewers.length) return 'review_policy.required cannot exceed the number of reviewers';
+  }
+  if (policy.mode === 'sequential' && !policy.reviewers?.length) return 'review_policy.reviewers are required for sequential reviews';
+  return null;
+}
+
+// The reviewer a vote counts for
+export function votedFor(vote: CastVote): string {
+  return vote.on_behalf_of || vote.user_id;
+}
+
+/**
+ * Resolve a request from its votes (oldest first).
+ *   single      the first vote decides
+ *   quorum      approved at `required` approvals; rejected once the remaining reviewers
+ *               can no longer reach it (without a reviewer list: at `required` rejections)
+ *   sequential  any rejection rejects; approved when every reviewer has signed off
+ */
+export function evaluateReviewPolicy(policy: ReviewPolicy | null, votes: CastVote[]): ReviewResolution {
+  const approvals = votes.filter(v => v.vote === 'approved').length;
+  const rejections = votes.length - approvals;
+  const mode = policy?.mode || 'single';
+  const required = mode === 'quorum' ? policy!.required! : mode === 'sequential' ? policy!.reviewers!.length : 1;
+  const resolution = (status: ReviewResolution['status'], nextReviewer: string | null = null): ReviewResolution =>
+    ({ status, approvals, rejections, required, nextReviewer });
+
+  if (mode === 'single') {
+    return resolution(votes.length === 0 ? 'pending' : votes[0].vote === 'approved' ? 'approved' : 'rejected');
+  }
+  if (mode === 'quorum') {
+    if (approvals >= required) return resolution('approved');
+    const outstanding = policy!.reviewers ? policy!.reviewers.length - votes.length : Infinity;
+    const blocked = policy!.reviewers ? approvals + outstanding < required : rejections >= required;
+    return resolution(blocked ? 'rejected' : 'pending');
+  }
+  if (rejections > 0) return resolution('rejected');
+  const voted = new Set(votes.map(votedFor));
+  const next = policy!.reviewers!.find(r => !voted.has(r)) || null;
+  return resolution(next ? 'pending' : 'approved', next);
+}
+
+/**
+ * Check form values against an approval's form schema — the JSON Schema subset runtime-service
+ * compiles from a task's `Form: { ... }` contract (type, properties, required, items, enum).
+ * Undeclared fields are dropped and scalars sent as strings coerced ("42" → 42), as a form
+ * would post them. Returns the cleaned values and one message per problem.
+ */
+export function validateFormValues(values: any, schema: any, path = ''): { value: any; errors: string[] } {
+  const label = path || 'form';
+  let value = values;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if ((schema.type === 'number' || schema.type === 'integer') && trimmed !== '' && !isNaN(Number(trimmed))) value = Number(trimmed);
+    if (schema.type === 'boolean' && /^(true|false)$/i.test(trimmed)) value = trimmed.toLowerCase() === 'true';
+  }
+
+  const typeOk: Record<string, (v: any) => boolean> = {
+    string: v => typeof v === 'string',
+    number: v => typeof v === 'number' && Number.isFinite(v),
+    integer: v => Number.isInteger(v),
+    boolean: v => typeof v === 'boolean',
+    array: v => Array.isArray(v),
+    object: v => typeof v === 'object' && v !== null && !Array.isArray(v),
+  };
+  if (schema.type && typeOk[schema.type] && !typeOk[schema.type](value)) {
+    return { value, errors: [`${label} must be of type ${schema.type}`] };
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of: ${schema.enum.map((v: any) => JSON.stringify(v)).join(', ')}`);
+  }
+  if (schema.type === 'object' && schema.properties) {
+    const cleaned: Record<string, any> = {};
+    for (const [key, prop] of Object.entries<any>(schema.properties)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (value[key] === undefined || value[key] === null || value[key] === '') {
+        if (schema.required?.includes(key)) errors.push(`${fieldPath} is required`);
+        continue;
+      }
+      const result = validateFormValues(value[key], prop, fieldPath);
+      cleaned[key] = result.value;
+      errors.push(...result.errors);
+    }
+    value = cleaned;
+  }
+  if (schema.type === 'array' && schema.items) {
+    value = value.map((item: any, i: number) => {
+      const result = validateFormValues(item, schema.items, `${label}[${i}]`);
+      errors.push(...result.errors);
+      return result.value;
+    });
+  }
+  return { value, errors };
+}
+
+/**
+ * Form values of an approving vote: the values submitted by the latest earlier approving
+ * vote, overridden by this vote's, checked against the form schema as a whole.
+ */
+export function mergeFormVotes(schema: any, votes: CastVote[], submitted: Record<string, any> = {}): { value: any; errors: string[] } {
+  const previous = votes.filter(v => v.vote === 'approved' && v.form_data).pop()?.form_data;
+  return validateFormValues({ ...previous, ...submitted }, schema);
+}
+
+/**
+ * The reviewer a user votes as: themselves, or — on a request delegated to them — the
+ * reviewer on the policy's list it was delegated from. A delegate who is a reviewer too
+ * votes as themselves first, unless it is the delegating reviewer's turn.
+ */
+export function votingAs(approval: any, votes: CastVote[], user: Voter): string {
+  const policy: ReviewPolicy | null = approval.review_policy;
+  const delegator: string | null = approval.assigned_to === user.userId ? approval.delegated_from : null;
+  if (!policy?.reviewers || !delegator || !policy.reviewers.includes(delegator)) return user.userId;
+
+  const hasVoted = (reviewer: string) => votes.some(v => votedFor(v) === reviewer);
+  if (!policy.reviewers.includes(user.userId) || hasVoted(user.userId)) return delegator;
+  if (hasVoted(delegator)) return user.userId;
+  if (policy.mode === 'sequential' && evaluateReviewPolicy(policy, votes).nextReviewer === delegator) return delegator;
+  return user.userId;
+}
+
+/**
+ * Why a user may not vote on a request now, as an HTTP status and message; null if they may.
+ */
+export function reviewVoteRefusal(approval: any, votes: CastVote[], user: Voter): { status: number; message: string } | null {
+  const policy: ReviewPolicy | null = approval.review_policy;
+  const reviewer = votingAs(approval, votes, user);
+  if (votes.some(v => votedFor(v) === reviewer)) {
+    return { status: 409, message: 'You have already voted on this approval request' };
+  }
+  if (!policy) return null;
+  if (policy.fourEyes && approval.requested_by === user.userId) {
+    return { status: 403, message: 'The requester cannot approve their own request' };
+  }
+  if (policy.roles && !policy.roles.includes(user.role)) {
+    return { status: 403, message: `Only ${policy.roles.join(' or ')} users can review this request` };
+  }
+  if (policy.reviewers && !policy.reviewers.includes(reviewer)) {
+    return { status: 403, message: 'You are not a reviewer of this request' };
+  }
+  if (policy.mode === 'sequential') {
+    const { nextReviewer } = evaluateReviewPolicy(policy, votes);
+    if (nextReviewer !== reviewer) {
+      return { status: 409, message: 'Waiting for an earlier reviewer to sign off' };
+    }
+  }
+  return null;
+}
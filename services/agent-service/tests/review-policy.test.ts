@@ -0,0 +1,179 @@
+/**
+ * Review Policy Tests
+ *
+ * Resolving multi-reviewer approvals from their votes, who may vote when, delegated
+ * votes, and form values collected across approving votes.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  CastVote,
+  ReviewPolicy,
+  evaluateReviewPolicy,
+  mergeFormVotes,
+  reviewVoteRefusal,
+  validateFormValues,
+  validateReviewPolicy,
+  votingAs,
+} from '../src/review-policy';
+
+const approve = (user_id: string, fields: Partial<CastVote> = {}): CastVote => ({ user_id, vote: 'approved', ...fields });
+const reject = (user_id: string): CastVote => ({ user_id, vote: 'rejected' });
+const user = (userId: string, role = 'user') => ({ userId, role });
+
+describe('review policies', () => {
+  it('validates policies', () => {
+    expect(validateReviewPolicy({ mode: 'quorum', required: 2, reviewers: ['a', 'b', 'c'] })).toBeNull();
+    expect(validateReviewPolicy({ mode: 'quorum', required: 4, reviewers: ['a', 'b', 'c'] }))
+      .toBe('review_policy.required cannot exceed the number of reviewers');
+    expect(validateReviewPolicy({ mode: 'sequential' })).toBe('review_policy.reviewers are required for sequential reviews');
+    expect(validateReviewPolicy({ mode: 'single', reviewers: ['a', 'a'] })).toBe('review_policy.reviewers must be a list of distinct user IDs');
+    expect(validateReviewPolicy({ mode: 'single', roles: ['owner'] })).toMatch(/^review_policy.roles must be/);
+  });
+
+  describe('evaluateReviewPolicy', () => {
+    it('lets the first vote decide without a policy', () => {
+      expect(evaluateReviewPolicy(null, []).status).toBe('pending');
+      expect(evaluateReviewPolicy(null, [reject('a')])).toEqual({ status: 'rejected', approvals: 0, rejections: 1, required: 1, nextReviewer: null });
+    });
+
+    it('approves a quorum at N of M approvals', () => {
+      const policy: ReviewPolicy = { mode: 'quorum', required: 2, reviewers: ['a', 'b', 'c'] };
+
+      expect(evaluateReviewPolicy(policy, [approve('a')]).status).toBe('pending');
+      expect(evaluateReviewPolicy(policy, [approve('a'), reject('b')]).status).toBe('pending');
+      expect(evaluateReviewPolicy(policy, [approve('a'), reject('b'), approve('c')]))
+        .toEqual({ status: 'approved', approvals: 2, rejections: 1, required: 2, nextReviewer: null });
+    });
+
+    it('rejects a quorum as soon as the outstanding reviewers can no longer reach it', () => {
+      const policy: ReviewPolicy = { mode: 'quorum', required: 2, reviewers: ['a', 'b', 'c'] };
+
+      expect(evaluateReviewPolicy(policy, [reject('a')]).status).toBe('pending');
+      expect(evaluateReviewPolicy(policy, [reject('a'), reject('b')]).status).toBe('rejected');
+    });
+
+    it('rejects a quorum without a reviewer list at `required` rejections', () => {
+      const policy: ReviewPolicy = { mode: 'quorum', required: 2 };
+
+      expect(evaluateReviewPolicy(policy, [reject('a'), approve('b')]).status).toBe('pending');
+      expect(evaluateReviewPolicy(policy, [reject('a'), approve('b'), reject('c')]).status).toBe('rejected');
+      expect(evaluateReviewPolicy(policy, [reject('a'), approve('b'), approve('c')]).status).toBe('approved');
+    });
+
+    it('walks sequential reviews in order, rejecting on any rejection', () => {
+      const policy: ReviewPolicy = { mode: 'sequential', reviewers: ['a', 'b', 'c'] };
+
+      expect(evaluateReviewPolicy(policy, []).nextReviewer).toBe('a');
+      expect(evaluateReviewPolicy(policy, [approve('a')])).toEqual(expect.objectContaining({ status: 'pending', nextReviewer: 'b', required: 3 }));
+      expect(evaluateReviewPolicy(policy, [approve('a'), reject('b')]).status).toBe('rejected');
+      expect(evaluateReviewPolicy(policy, [approve('a'), approve('b'), approve('c')]).status).toBe('approved');
+    });
+
+    it('counts a delegate\'s vote for the reviewer it was cast for', () => {
+      const policy: ReviewPolicy = { mode: 'sequential', reviewers: ['a', 'b'] };
+
+      expect(evaluateReviewPolicy(policy, [approve('d', { on_behalf_of: 'a' })]).nextReviewer).toBe('b');
+    });
+  });
+
+  describe('reviewVoteRefusal', () => {
+    it('refuses a second vote with 409', () => {
+      expect(reviewVoteRefusal({ review_policy: null }, [approve('a')], user('a')))
+        .toEqual({ status: 409, message: 'You have already voted on this approval request' });
+      expect(reviewVoteRefusal({ review_policy: null }, [approve('a')], user('b'))).toBeNull();
+    });
+
+    it('keeps the requester off a four-eyes review', () => {
+      const approval = { review_policy: { mode: 'single', fourEyes: true }, requested_by: 'a' };
+
+      expect(reviewVoteRefusal(approval, [], user('a'))).toEqual({ status: 403, message: 'The requester cannot approve their own request' });
+      expect(reviewVoteRefusal(approval, [], user('b'))).toBeNull();
+    });
+
+    it('limits voting to the policy\'s roles and reviewers', () => {
+      const approval = { review_policy: { mode: 'quorum', required: 1, reviewers: ['a', 'b'], roles: ['admin'] } };
+
+      expect(reviewVoteRefusal(approval, [], user('a'))).toEqual({ status: 403, message: 'Only admin users can review this request' });
+      expect(reviewVoteRefusal(approval, [], user('c', 'admin'))).toEqual({ status: 403, message: 'You are not a reviewer of this request' });
+      expect(reviewVoteRefusal(approval, [], user('a', 'admin'))).toBeNull();
+    });
+
+    it('holds sequential reviewers until their turn', () => {
+      const approval = { review_policy: { mode: 'sequential', reviewers: ['a', 'b'] } };
+
+      expect(reviewVoteRefusal(approval, [], user('b'))).toEqual({ status: 409, message: 'Waiting for an earlier reviewer to sign off' });
+      expect(reviewVoteRefusal(approval, [approve('a')], user('b'))).toBeNull();
+    });
+  });
+
+  describe('delegation', () => {
+    // Reviewer b is out of office; their requests are assigned to d
+    const delegated = (policy: ReviewPolicy) => ({ review_policy: policy, assigned_to: 'd', delegated_from: 'b' });
+
+    it('lets a delegate vote for the reviewer of a quorum review', () => {
+      const approval = delegated({ mode: 'quorum', required: 2, reviewers: ['a', 'b', 'c'] });
+
+      expect(votingAs(approval, [approve('a')], user('d'))).toBe('b');
+      expect(reviewVoteRefusal(approval, [approve('a')], user('d'))).toBeNull();
+      expect(evaluateReviewPolicy(approval.review_policy, [approve('a'), approve('d', { on_behalf_of: 'b' })]).status).toBe('approved');
+      expect(reviewVoteRefusal(approval, [approve('d', { on_behalf_of: 'b' })], user('d')))
+        .toEqual({ status: 409, message: 'You have already voted on this approval request' });
+    });
+
+    it('lets a delegate sign off in the delegating reviewer\'s turn', () => {
+      const approval = delegated({ mode: 'sequential', reviewers: ['a', 'b', 'c'] });
+
+      expect(reviewVoteRefusal(approval, [], user('d'))).toEqual({ status: 409, message: 'Waiting for an earlier reviewer to sign off' });
+      expect(reviewVoteRefusal(approval, [approve('a')], user('d'))).toBeNull();
+      expect(evaluateReviewPolicy(approval.review_policy, [approve('a'), approve('d', { on_behalf_of: 'b' })]).nextReviewer).toBe('c');
+    });
+
+    it('has a delegate who is a reviewer too vote in whichever turn comes first', () => {
+      const approval = { review_policy: { mode: 'sequential', reviewers: ['a', 'b', 'c'] } as ReviewPolicy, assigned_to: 'c', delegated_from: 'b' };
+
+      expect(votingAs(approval, [approve('a')], user('c'))).toBe('b');
+      const votes = [approve('a'), approve('c', { on_behalf_of: 'b' })];
+      expect(votingAs(approval, votes, user('c'))).toBe('c');
+      expect(reviewVoteRefusal(approval, votes, user('c'))).toBeNull();
+    });
+
+    it('ignores a delegation from someone who is not a reviewer', () => {
+      const approval = { review_policy: { mode: 'quorum', required: 1, reviewers: ['a'] }, assigned_to: 'd', delegated_from: 'x' };
+
+      expect(votingAs(approval, [], user('d'))).toBe('d');
+      expect(reviewVoteRefusal(approval, [], user('d'))).toEqual({ status: 403, message: 'You are not a reviewer of this request' });
+    });
+  });
+
+  describe('forms', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        amount: { type: 'number' },
+        approved: { type: 'boolean' },
+        reason: { type: 'string', enum: ['budget', 'risk'] },
+      },
+      required: ['amount', 'reason'],
+    };
+
+    it('coerces posted strings, drops undeclared fields and reports each problem', () => {
+      expect(validateFormValues({ amount: '42', approved: 'TRUE', reason: 'risk', extra: 1 }, schema))
+        .toEqual({ value: { amount: 42, approved: true, reason: 'risk' }, errors: [] });
+      expect(validateFormValues({ amount: 'lots', reason: 'other' }, schema).errors)
+        .toEqual(['amount must be of type number', 'reason must be one of: "budget", "risk"']);
+      expect(validateFormValues({ approved: false }, schema).errors).toEqual(['amount is required', 'reason is required']);
+    });
+
+    it('fills a form across approving votes, later values winning', () => {
+      const votes = [
+        approve('a', { form_data: { amount: 100, reason: 'budget' } }),
+        reject('b'),
+        approve('c', { form_data: { amount: 250, reason: 'budget' } }),
+      ];
+
+      expect(mergeFormVotes(schema, votes, { reason: 'risk' })).toEqual({ value: { amount: 250, reason: 'risk' }, errors: [] });
+      expect(mergeFormVotes(schema, [], { amount: 5 }).errors).toEqual(['reason is required']);
+    });
+  });
+});
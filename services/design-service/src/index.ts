@@ -420,6 +420,17 @@ Return an improved agent configuration as JSON:
   }
 });
 
+// Integration config fields holding secrets or vault references to them; never sent to the model
+const SECRET_FIELD_PATTERN = /(password|passphrase|secret|token|api_?key|private_?key|^pat)$/i;
+
+function withoutSecrets(value: any): any {
+  if (Array.isArray(value)) return value.map(withoutSecrets);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !SECRET_FIELD_PATTERN.test(key)).map(([key, entry]) => [key, withoutSecrets(entry)])
+  );
+}
+
 // Generate agent code
 app.post('/api/design/generate-code/:agentId', async (req: Request, res: Response) => {
   try {
@@ -455,7 +466,7 @@ Agent Name: ${agent.name}
 Type/Pattern: ${agent.type}
 Description: ${agent.description || 'No description provided'}
 Capabilities: ${JSON.stringify(agent.capabilities)}
-Integrations: ${JSON.stringify(agent.integrations)}
+Integrations: ${JSON.stringify(withoutSecrets(agent.integrations))}
 Config: ${JSON.stringify(config)}
 
 Agentic Pattern: ${config.pattern || agent.type}
@@ -0,0 +1,180 @@
+/**
+ * Integration Credentials
+ *
+ * Connection settings for catalog integrations, stored per tenant with optional per-agent
+ * overrides (`integration_credentials`). An agent's own credentials win over the tenant's.
+ * Fields named like secrets (password, apiToken, ...) are kept apart from the rest of the
+ * config, sealed in the credential vault, and stored as references.
+ */
+
+import { Pool } from 'pg';
+import { CredentialVault, SecretUsage, isSecretField, isSecretRef } from '../vault/vault';
+
+const NO_AGENT = '00000000-0000-0000-0000-000000000000';
+
+export interface StoredCredentials {
+  id: string;
+  integration: string;
+  agentId: string | null;
+  config: Record<string, any>;
+  // Vault references by field
+  secrets: Record<string, { secretRef: string }>;
+}
+
+/**
+ * Separate secret fields from the rest of a credentials payload.
+ */
+export function splitSecrets(values: Record<string, any>): { config: Record<string, any>; secrets: Record<string, any> } {
+  const config: Record<string, any> = {};
+  const secrets: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (isSecretField(key)) secrets[key] = isSecretRef(value) ? value : String(value);
+    else config[key] = value;
+  }
+  return { config, secrets };
+}
+
+/**
+ * Credentials row as returned by the API: which vault secrets are referenced, not their values.
+ */
+export function describeCredentials(row: any) {
+  return {
+    id: row.id,
+    integration: row.integration,
+    agentId: row.agent_id,
+    scope: row.agent_id ? 'agent' : 'tenant',
+    config: row.config,
+    secretFields: Object.keys(row.secrets || {}),
+    secretRefs: row.secrets || {},
+    status: row.status,
+    lastVerifiedAt: row.last_verified_at,
+    lastError: row.last_error,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The credentials an agent uses for an integration: its own, else the tenant's. Without
+ * an agent, the tenant's.
+ */
+export async function resolveCredentials(
+  pool: Pool,
+  tenantId: string,
+  integration: string,
+  agentId?: string | null
+): Promise<StoredCredentials | null> {
+  const result = await pool.query(
+    `SELECT * FROM integration_credentials
+     WHERE tenant_id = $1 AND integration = $2 AND (agent_id IS NULL OR agent_id = $3)
+     ORDER BY agent_id NULLS LAST
+     LIMIT 1`,
+    [tenantId, integration, agentId || NO_AGENT]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return { id: row.id, integration: row.integration, agentId: row.agent_id, config: row.config, secrets: row.secrets };
+}
+
+/**
+ * Stored credentials with their secrets decrypted, for building a connector client. Each
+ * decrypt is audited under `usage`.
+ */
+export async function revealCredentials(
+  vault: CredentialVault,
+  tenantId: string,
+  credentials: StoredCredentials,
+  usage: SecretUsage
+): Promise<Record<string, any>> {
+  return { ...credentials.config, ...await vault.resolveRefs(tenantId, credentials.secrets, usage) };
+}
+
+/**
+ * Create or replace credentials for a scope. New secret values are sealed in the vault
+ * (rotating the scope's existing secret for that field); secrets left out of `values` keep
+ * their stored reference.
+ */
+export async function saveCredentials(
+  pool: Pool,
+  vault: CredentialVault,
+  tenantId: string,
+  integration: string,
+  agentId: string | null,
+  values: Record<string, any>,
+  userId?: string
+): Promise<any> {
+  const existing = await pool.query(
+    `SELECT secrets FROM integration_credentials
+     WHERE tenant_id = $1 AND integration = $2 AND agent_id IS NOT DISTINCT FROM $3`,
+    [tenantId, integration, agentId]
+  );
+  const { config, secrets: plainSecrets } = splitSecrets(values);
+  const secrets = await vault.sealFields(
+    tenantId, plainSecrets, existing.rows[0]?.secrets || {},
+    { name: `${integration} (${agentId ? `agent ${agentId}` : 'tenant'})`, integration }, userId
+  );
+  const result = await pool.query(
+    `INSERT INTO integration_credentials (tenant_id, agent_id, integration, config, secrets, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (tenant_id, integration, COALESCE(agent_id, '${NO_AGENT}'::uuid)) DO UPDATE SET
+       config = EXCLUDED.config,
+       secrets = integration_credentials.secrets || EXCLUDED.secrets,
+       status = 'untested',
+       last_error = NULL,
+       updated_at = NOW()
+     RETURNING *`,
+    [tenantId, agentId, integration, JSON.stringify(config), JSON.stringify(secrets), userId || null]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Record the outcome of a connection test against stored credentials.
+ */
+export async function markVerified(pool: Pool, id: string, error?: string): Promise<void> {
+  await pool.query(
+    `UPDATE integration_credentials
+     SET status = $2, last_error = $3, last_verified_at = NOW(), updated_at = NOW()
+     WHERE id = $1`,
+    [id, error ? 'failed' : 'connected', error || null]
+  );
+}
+
+/**
+ * Seal plaintext secrets left from before the vault: secret fields of
+ * integration_credentials and agent_integrations config, and agent_integrations.config_api_key
+ * (moved to config.apiKey). Returns the number of rows changed.
+ */
+export async function sealPlaintextSecrets(pool: Pool, vault: CredentialVault): Promise<number> {
+  const hasPlaintext = (values: Record<string, any> | null) =>
+    Object.entries(values || {}).some(([key, value]) => isSecretField(key) && value && !isSecretRef(value));
+  let sealed = 0;
+
+  const credentials = await pool.query('SELECT id, tenant_id, agent_id, integration, secrets FROM integration_credentials');
+  for (const row of credentials.rows.filter(r => hasPlaintext(r.secrets))) {
+    const secrets = await vault.sealFields(
+      row.tenant_id, row.secrets, {},
+      { name: `${row.integration} (${row.agent_id ? `agent ${row.agent_id}` : 'tenant'})`, integration: row.integration }
+    );
+    await pool.query('UPDATE integration_credentials SET secrets = $2, updated_at = NOW() WHERE id = $1', [row.id, JSON.stringify(secrets)]);
+    sealed++;
+  }
+
+  const integrations = await pool.query(
+    `SELECT ai.id, ai.agent_id, ai.integration_type, ai.integration_name, ai.config, ai.config_api_key, a.tenant_id
+     FROM agent_integrations ai JOIN agents a ON a.id = ai.agent_id`
+  );
+  for (const row of integrations.rows.filter(r => r.config_api_key || hasPlaintext(r.config))) {
+    const integration = row.integration_name || row.integration_type;
+    const config = await vault.sealFields(
+      row.tenant_id, { ...row.config, ...(row.config_api_key && { apiKey: row.config_api_key }) }, {},
+      { name: `${integration} (agent ${row.agent_id})`, integration }
+    );
+    await pool.query(
+      'UPDATE agent_integrations SET config = $2, config_api_key = NULL, updated_at = NOW() WHERE id = $1',
+      [row.id, JSON.stringify(config)]
+    );
+    sealed++;
+  }
+  return sealed;
+}
@@ -0,0 +1,68 @@
+/**
+ * Connector errors, reported with catalog-level codes so callers (the API, agent tools)
+ * handle every integration's failures the same way, whatever the upstream API returned.
+ */
+
+export type IntegrationErrorCode =
+  | 'not_configured'
+  | 'invalid_request'
+  | 'auth_failed'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'timeout'
+  | 'unavailable'
+  | 'upstream_error';
+
+// Listed in the catalog; `status` is what integration-service answers with
+export const INTEGRATION_ERROR_CODES: Record<IntegrationErrorCode, { status: number; description: string }> = {
+  not_configured: { status: 409, description: 'No credentials are stored for this integration' },
+  invalid_request: { status: 400, description: 'The integration rejected the request as invalid' },
+  auth_failed: { status: 502, description: 'The stored credentials were rejected' },
+  forbidden: { status: 502, description: 'The credentials lack permission for this operation' },
+  not_found: { status: 404, description: 'The record does not exist' },
+  rate_limited: { status: 429, description: 'The integration is throttling requests; retry later' },
+  timeout: { status: 504, description: 'The integration did not answer in time' },
+  unavailable: { status: 503, description: 'The integration could not be reached or is down' },
+  upstream_error: { status: 502, description: 'The integration failed to process the request' },
+};
+
+export class IntegrationError extends Error {
+  constructor(
+    public integration: string,
+    public code: IntegrationErrorCode,
+    message: string,
+    public upstreamStatus?: number
+  ) {
+    super(message);
+    this.name = 'IntegrationError';
+  }
+
+  get status(): number {
+    return INTEGRATION_ERROR_CODES[this.code].status;
+  }
+
+  toJSON() {
+    return {
+      error: 'Integration Error',
+      code: this.code,
+      integration: this.integration,
+      message: this.message,
+      ...(this.upstreamStatus && { upstreamStatus: this.upstreamStatus }),
+    };
+  }
+}
+
+/**
+ * Code for an HTTP error answered by an integration's API.
+ */
+export function errorCodeForStatus(status: number): IntegrationErrorCode {
+  if (status === 400 || status === 422) return 'invalid_request';
+  if (status === 401) return 'auth_failed';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status === 502 || status === 503) return 'unavailable';
+  if (status === 504) return 'timeout';
+  return 'upstream_error';
+}
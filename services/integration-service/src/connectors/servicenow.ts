@@ -0,0 +1,268 @@
+/**
+ * ServiceNow Connector
+ *
+ * Client for the ServiceNow Table API (/api/now/table/{table}) covering the record types
+ * the catalog advertises: incidents, changes, problems, CMDB configuration items and
+ * knowledge articles. Records are returned as ServiceNow sends them (snake_case fields,
+ * reference fields as sys_id strings).
+ *
+ * Lists are paged with sysparm_limit/sysparm_offset; the total comes from X-Total-Count
+ * and the next page from the Link header. Throttled (429) and unavailable (503) answers
+ * are retried, honouring Retry-After. Failures are thrown as IntegrationErrors with
+ * catalog-level codes.
+ */
+
+import { IntegrationError, errorCodeForStatus } from './errors';
+
+const INTEGRATION = 'servicenow';
+const DEFAULT_TIMEOUT_MS = Number(process.env.SERVICENOW_TIMEOUT_MS) || 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const MAX_RETRY_DELAY_MS = 10000;
+export const MAX_PAGE_SIZE = 100;
+
+export const SERVICENOW_TABLES = {
+  incidents: 'incident',
+  changes: 'change_request',
+  problems: 'problem',
+  cmdb: 'cmdb_ci',
+  knowledge: 'kb_knowledge',
+} as const;
+
+export type ServiceNowRecordType = keyof typeof SERVICENOW_TABLES;
+
+// Record numbers (INC0010023, CHG0030001, PRB0040002) can be used wherever a sys_id is accepted
+const NUMBER_PATTERN = /^[A-Z]{2,5}\d{5,}$/;
+
+export interface ServiceNowCredentials {
+  // Instance name ("dev12345"), host ("dev12345.service-now.com") or base URL
+  instance: string;
+  username: string;
+  password: string;
+}
+
+export interface ListOptions {
+  // Encoded query, e.g. "active=true^priority=1"
+  query?: string;
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page {
+  records: Record<string, any>[];
+  limit: number;
+  offset: number;
+  // X-Total-Count; null when the instance does not send it
+  total: number | null;
+  nextOffset: number | null;
+}
+
+type Fields = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Base URL of an instance from its name, host or URL.
+ */
+export function instanceUrl(instance: string): string {
+  const trimmed = instance.trim().replace(/\/+$/, '');
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  return trimmed.includes('.') ? `https://${trimmed}` : `https://${trimmed}.service-now.com`;
+}
+
+/**
+ * Encoded query from equality filters (undefined values skipped), ANDed with `raw`.
+ */
+export function encodedQuery(filters: Fields, raw?: string): string {
+  const parts = Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([field, value]) => `${field}=${String(value).replace(/\^/g, '^^')}`);
+  if (raw) parts.push(raw);
+  return parts.join('^');
+}
+
+/**
+ * API-style field names (shortDescription, assignmentGroup) to ServiceNow columns
+ * (short_description, assignment_group). Names already in snake_case pass through.
+ */
+export function toServiceNowFields(values: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    fields[key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()] = value;
+  }
+  return fields;
+}
+
+export class ServiceNowClient {
+  readonly baseUrl: string;
+  private authorization: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+
+  constructor(credentials: ServiceNowCredentials, options: { timeoutMs?: number; maxRetries?: number } = {}) {
+    if (!credentials.instance || !credentials.username || !credentials.password) {
+      throw new IntegrationError(INTEGRATION, 'not_configured', 'instance, username, and password are required');
+    }
+    this.baseUrl = instanceUrl(credentials.instance);
+    this.authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Check the credentials by reading one incident (needs the itil role or equivalent).
+   */
+  async testConnection(): Promise<{ instance: string }> {
+    await this.list(SERVICENOW_TABLES.incidents, { limit: 1, fields: ['sys_id'] });
+    return { instance: this.baseUrl };
+  }
+
+  async list(table: string, options: ListOptions = {}): Promise<Page> {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const { body, headers } = await this.request('GET', `/api/now/table/${table}`, {
+      sysparm_query: options.query,
+      sysparm_fields: options.fields?.join(','),
+      sysparm_limit: String(limit),
+      sysparm_offset: String(offset),
+      sysparm_exclude_reference_link: 'true',
+    });
+
+    const records: Record<string, any>[] = Array.isArray(body?.result) ? body.result : [];
+    const totalHeader = headers.get('x-total-count');
+    const total = totalHeader !== null && totalHeader !== '' ? Number(totalHeader) : null;
+    const hasNext = /rel="next"/.test(headers.get('link') || '')
+      || (total !== null ? offset + records.length < total : records.length === limit);
+    return { records, limit, offset, total, nextOffset: hasNext && records.length > 0 ? offset + records.length : null };
+  }
+
+  /**
+   * Every record matching the query, following pages up to `maxRecords`.
+   */
+  async listAll(table: string, options: Omit<ListOptions, 'limit' | 'offset'> & { maxRecords?: number } = {}): Promise<Record<string, any>[]> {
+    const maxRecords = options.maxRecords ?? 1000;
+    const records: Record<string, any>[] = [];
+    let offset: number | null = 0;
+    while (offset !== null && records.length < maxRecords) {
+      const page: Page = await this.list(table, { ...options, offset, limit: Math.min(MAX_PAGE_SIZE, maxRecords - records.length) });
+      records.push(...page.records);
+      offset = page.nextOffset;
+    }
+    return records;
+  }
+
+  /**
+   * One record by sys_id or record number.
+   */
+  async get(table: string, id: string, fields?: string[]): Promise<Record<string, any>> {
+    if (NUMBER_PATTERN.test(id)) {
+      const page = await this.list(table, { query: encodedQuery({ number: id }), fields, limit: 1 });
+      if (page.records.length === 0) {
+        throw new IntegrationError(INTEGRATION, 'not_found', `No ${table} record with number ${id}`, 404);
+      }
+      return page.records[0];
+    }
+    const { body } = await this.request('GET', `/api/now/table/${table}/${encodeURIComponent(id)}`, {
+      sysparm_fields: fields?.join(','),
+      sysparm_exclude_reference_link: 'true',
+    });
+    return body.result;
+  }
+
+  async create(table: string, fields: Record<string, any>): Promise<Record<string, any>> {
+    const { body } = await this.request('POST', `/api/now/table/${table}`, { sysparm_exclude_reference_link: 'true' }, fields);
+    return body.result;
+  }
+
+  async update(table: string, id: string, fields: Record<string, any>): Promise<Record<string, any>> {
+    const sysId = NUMBER_PATTERN.test(id) ? (await this.get(table, id, ['sys_id'])).sys_id : id;
+    const { body } = await this.request(
+      'PATCH', `/api/now/table/${table}/${encodeURIComponent(sysId)}`, { sysparm_exclude_reference_link: 'true' }, fields
+    );
+    return body.result;
+  }
+
+  /**
+   * Configuration items by name (contains), IP address or serial number. `className`
+   * narrows the search to a CI class table such as cmdb_ci_server.
+   */
+  async lookupConfigurationItems(
+    criteria: { name?: string; ipAddress?: string; serialNumber?: string; className?: string },
+    options: Omit<ListOptions, 'query'> = {}
+  ): Promise<Page> {
+    const table = criteria.className || SERVICENOW_TABLES.cmdb;
+    if (!/^cmdb_ci(_\w+)?$/.test(table)) {
+      throw new IntegrationError(INTEGRATION, 'invalid_request', `${table} is not a CMDB configuration item class`);
+    }
+    const query = encodedQuery(
+      { ip_address: criteria.ipAddress, serial_number: criteria.serialNumber },
+      criteria.name ? `nameLIKE${criteria.name.replace(/\^/g, '^^')}` : undefined
+    );
+    return this.list(table, { ...options, query });
+  }
+
+  /**
+   * Published knowledge articles whose title or text contains `text`.
+   */
+  async searchKnowledge(text: string, options: Omit<ListOptions, 'query'> = {}): Promise<Page> {
+    const term = text.replace(/\^/g, '^^');
+    return this.list(SERVICENOW_TABLES.knowledge, {
+      fields: ['sys_id', 'number', 'short_description', 'text', 'kb_category', 'sys_updated_on'],
+      ...options,
+      query: `workflow_state=published^short_descriptionLIKE${term}^ORtextLIKE${term}`,
+    });
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    params: Record<string, string | undefined>,
+    body?: Record<string, any>
+  ): Promise<{ body: any; headers: Headers }> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') url.searchParams.set(key, value);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            Authorization: this.authorization,
+            Accept: 'application/json',
+            ...(body && { 'Content-Type': 'application/json' }),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (err: any) {
+        if (err.name === 'TimeoutError') {
+          throw new IntegrationError(INTEGRATION, 'timeout', `ServiceNow did not answer within ${this.timeoutMs}ms`);
+        }
+        throw new IntegrationError(INTEGRATION, 'unavailable', `Could not reach ${this.baseUrl}: ${err.cause?.code || err.message}`);
+      }
+
+      if ((response.status === 429 || response.status === 503) && attempt < this.maxRetries) {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        const delay = Number.isFinite(retryAfter) && response.headers.has('retry-after') ? retryAfter * 1000 : 500 * 2 ** attempt;
+        await new Promise(resolve => setTimeout(resolve, Math.min(delay, MAX_RETRY_DELAY_MS)));
+        continue;
+      }
+
+      const payload: any = await response.json().catch(() => null);
+      if (!response.ok) {
+        // Table API errors: { error: { message, detail }, status: 'failure' }
+        const detail = [payload?.error?.message, payload?.error?.detail].filter(Boolean).join(': ');
+        throw new IntegrationError(
+          INTEGRATION, errorCodeForStatus(response.status), detail || `ServiceNow answered HTTP ${response.status}`, response.status
+        );
+      }
+      // Hibernating developer instances answer 200 with an HTML wake-up page
+      if (!payload || !('result' in payload)) {
+        throw new IntegrationError(INTEGRATION, 'unavailable', 'ServiceNow answered without a Table API result (is the instance awake?)', response.status);
+      }
+      return { body: payload, headers: response.headers };
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Local Key Provider
+ *
+ * Stand-in for a KMS: master keys live in a JSON key file (VAULT_KEY_FILE) shaped
+ * `{ "activeKeyId": "...", "keys": { "<id>": "<base64 32 bytes>" } }`. Keys are never
+ * used directly — each tenant gets its own key-encryption key derived with HKDF, so a
+ * data key wrapped for one tenant cannot be unwrapped in another tenant's context.
+ *
+ * Rotating the master key means adding a key to the file and pointing activeKeyId at it;
+ * older keys stay in the file until every data key has been rewrapped
+ * (POST /api/vault/rewrap).
+ *
+ * Outside production a missing key file is generated on first start.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { hkdfSync, randomBytes } from 'crypto';
+
+export const DEFAULT_KEY_FILE = process.env.VAULT_KEY_FILE || path.resolve('.vault', 'master.key');
+const KEY_BYTES = 32;
+
+interface KeyFile {
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+export class LocalKeyProvider {
+  private keys = new Map<string, Buffer>();
+  readonly activeKeyId: string;
+
+  constructor(readonly keyFile = DEFAULT_KEY_FILE) {
+    const contents = LocalKeyProvider.load(keyFile);
+    for (const [id, encoded] of Object.entries(contents.keys)) {
+      const key = Buffer.from(encoded, 'base64');
+      if (key.length !== KEY_BYTES) throw new Error(`Vault key ${id} in ${keyFile} is not ${KEY_BYTES} bytes`);
+      this.keys.set(id, key);
+    }
+    if (!this.keys.has(contents.activeKeyId)) {
+      throw new Error(`Vault key file ${keyFile} has no key for activeKeyId ${contents.activeKeyId}`);
+    }
+    this.activeKeyId = contents.activeKeyId;
+  }
+
+  hasKey(keyId: string): boolean {
+    return this.keys.has(keyId);
+  }
+
+  /**
+   * Key-encryption key for a tenant under a master key (the active one by default).
+   */
+  tenantKey(tenantId: string, keyId = this.activeKeyId): Buffer {
+    const master = this.keys.get(keyId);
+    if (!master) throw new Error(`Vault key ${keyId} is not in ${this.keyFile}`);
+    return Buffer.from(hkdfSync('sha256', master, Buffer.from(tenantId), Buffer.from('flowgrid-vault-kek'), KEY_BYTES));
+  }
+
+  private static load(keyFile: string): KeyFile {
+    if (fs.existsSync(keyFile)) {
+      const parsed = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+      if (!parsed?.activeKeyId || !parsed.keys || typeof parsed.keys !== 'object') {
+        throw new Error(`Vault key file ${keyFile} must have activeKeyId and keys`);
+      }
+      return parsed;
+    }
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`Vault key file ${keyFile} not found (set VAULT_KEY_FILE)`);
+    }
+
+    const keyId = `local-${new Date().toISOString().substring(0, 10)}`;
+    const generated: KeyFile = { activeKeyId: keyId, keys: { [keyId]: randomBytes(KEY_BYTES).toString('base64') } };
+    fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(keyFile, JSON.stringify(generated, null, 2), { mode: 0o600, flag: 'wx' });
+    console.warn(`[vault] Generated a new master key at ${keyFile}; back it up — secrets cannot be decrypted without it`);
+    return generated;
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Credential Vault
+ *
+ * Per-tenant secret store with envelope encryption. Each secret is encrypted with its own
+ * data key (AES-256-GCM); the data key is wrapped with the tenant's key-encryption key from
+ * the key provider. Both are bound to `tenantId:secretId` as additional authenticated data,
+ * so ciphertext copied to another row or tenant does not decrypt.
+ *
+ * Integration config refers to secrets as `{ "secretRef": "<id>" }`. Secret values leave
+ * the vault only through reveal(), which records an audit entry and last-used details
+ * before decrypting — there is no API that returns them.
+ */
+
+import { Pool } from 'pg';
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from 'crypto';
+import { LocalKeyProvider } from './keys';
+
+// Field names that hold secrets in integration config (password, apiToken, clientSecret, api_key, pat, ...)
+const SECRET_FIELD_PATTERN = /(password|passphrase|secret|token|api_?key|private_?key|^pat)$/i;
+
+export interface SecretRef {
+  secretRef: string;
+}
+
+export interface SecretUsage {
+  // User id, or `agent:<id>` for tool calls
+  actor: string;
+  // What the value is needed for, e.g. "servicenow.test" or a tool name
+  purpose: string;
+  agentId?: string | null;
+}
+
+export type VaultErrorCode = 'invalid_request' | 'not_found' | 'in_use';
+
+const VAULT_ERROR_STATUS: Record<VaultErrorCode, number> = { invalid_request: 400, not_found: 404, in_use: 409 };
+
+export class VaultError extends Error {
+  constructor(public code: VaultErrorCode, message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+
+  get status(): number {
+    return VAULT_ERROR_STATUS[this.code];
+  }
+
+  toJSON() {
+    return { error: 'Vault Error', code: this.code, message: this.message };
+  }
+}
+
+export function isSecretField(key: string): boolean {
+  return SECRET_FIELD_PATTERN.test(key);
+}
+
+export function isSecretRef(value: unknown): value is SecretRef {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && typeof (value as SecretRef).secretRef === 'string' && Object.keys(value).length === 1;
+}
+
+/**
+ * Copy of `value` with secret fields that are not vault references replaced by a marker.
+ * For responses built from config that may predate the vault.
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(redactSecrets) as T;
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+    key,
+    isSecretField(key) && entry !== null && entry !== '' && !isSecretRef(entry) ? '[redacted]' : redactSecrets(entry),
+  ])) as T;
+}
+
+/**
+ * Secret metadata as returned by the API.
+ */
+export function describeSecret(row: any) {
+  const rotatedAt = row.rotated_at || row.created_at;
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    integration: row.integration,
+    version: row.version,
+    keyId: row.key_id,
+    rotateAfterDays: row.rotate_after_days,
+    rotationDue: row.rotate_after_days
+      ? new Date(rotatedAt).getTime() + row.rotate_after_days * 86400000 < Date.now()
+      : false,
+    rotatedAt: row.rotated_at,
+    lastUsedAt: row.last_used_at,
+    lastUsedFor: row.last_used_for,
+    useCount: row.use_count,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// AES-256-GCM under `key`; packed as "v1.<iv>.<tag>.<ciphertext>" (base64 parts)
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64')).join('.');
+}
+
+function decrypt(key: Buffer, packed: string, aad: string): Buffer {
+  const [version, iv, tag, ciphertext] = packed.split('.');
+  if (version !== 'v1' || !ciphertext) throw new Error('Unrecognized vault ciphertext');
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+export class CredentialVault {
+  constructor(private pool: Pool, private keys: LocalKeyProvider) {}
+
+  async create(
+    tenantId: string,
+    input: { name: string; value: string; description?: string; integration?: string; rotateAfterDays?: number },
+    actor?: string
+  ): Promise<any> {
+    if (!input.name || typeof input.name !== 'string') throw new VaultError('invalid_request', 'name is required');
+    this.checkValue(input.value);
+    if (input.rotateAfterDays !== undefined && !(Number.isInteger(input.rotateAfterDays) && input.rotateAfterDays > 0)) {
+      throw new VaultError('invalid_request', 'rotateAfterDays must be a positive integer');
+    }
+
+    const id = randomUUID();
+    const sealed = this.seal(tenantId, id, input.value);
+    const result = await this.pool.query(
+      `WITH created AS (
+         INSERT INTO vault_secrets (id, tenant_id, name, description, integration, ciphertext, wrapped_key, key_id, rotate_after_days, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *
+       ), audit AS (
+         INSERT INTO vault_audit_log (tenant_id, secret_id, secret_name, action, actor)
+         SELECT tenant_id, id, name, 'created', $11 FROM created
+       )
+       SELECT * FROM created`,
+      [id, tenantId, input.name, input.description || null, input.integration || null, sealed.ciphertext, sealed.wrappedKey,
+        sealed.keyId, input.rotateAfterDays || null, actor || null, actor || 'system']
+    );
+    return describeSecret(result.rows[0]);
+  }
+
+  /**
+   * Replace a secret's value. The new value gets a new data key; references keep working.
+   */
+  async rotate(tenantId: string, id: string, value: string, actor?: string): Promise<any> {
+    this.checkValue(value);
+    const sealed = this.seal(tenantId, id, value);
+    const result = await this.pool.query(
+      `WITH rotated AS (
+         UPDATE vault_secrets
+         SET ciphertext = $3, wrapped_key = $4, key_id = $5, version = version + 1, rotated_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING *
+       ), audit AS (
+         INSERT INTO vault_audit_log (tenant_id, secret_id, secret_name, action, actor)
+         SELECT tenant_id, id, name, 'rotated', $6 FROM rotated
+       )
+       SELECT * FROM rotated`,
+      [id, tenantId, sealed.ciphertext, sealed.wrappedKey, sealed.keyId, actor || 'system']
+    );
+    if (result.rows.length === 0) throw new VaultError('not_found', `Secret ${id} not found`);
+    return describeSecret(result.rows[0]);
+  }
+
+  /**
+   * Decrypt a secret for use. The audit entry and last-used update are written in the
+   * same statement that reads the ciphertext, so no value is decrypted unaudited.
+   */
+  async reveal(tenantId: string, id: string, usage: SecretUsage): Promise<string> {
+    const result = await this.pool.query(
+      `WITH used AS (
+         UPDATE vault_secrets
+         SET last_used_at = NOW(), last_used_for = $3, use_count = use_count + 1
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING *
+       ), audit AS (
+         INSERT INTO vault_audit_log (tenant_id, secret_id, secret_name, action, actor, purpose, agent_id)
+         SELECT tenant_id, id, name, 'decrypted', $4, $3, $5 FROM used
+       )
+       SELECT * FROM used`,
+      [id, tenantId, usage.purpose, usage.actor, usage.agentId || null]
+    );
+    if (result.rows.length === 0) throw new VaultError('not_found', `Secret ${id} not found`);
+    return this.open(result.rows[0]);
+  }
+
+  /**
+   * `values` with every secret reference replaced by its decrypted value.
+   */
+  async resolveRefs(tenantId: string, values: Record<string, any>, usage: SecretUsage): Promise<Record<string, any>> {
+    const resolved: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+      resolved[key] = isSecretRef(value) ? await this.reveal(tenantId, value.secretRef, usage) : value;
+    }
+    return resolved;
+  }
+
+  /**
+   * Move plaintext secret fields of `values` into the vault, leaving references. A field
+   * that already has a reference in `current` rotates that secret instead of creating one;
+   * references passed in `values` must point at secrets of the tenant.
+   */
+  async sealFields(
+    tenantId: string,
+    values: Record<string, any>,
+    current: Record<string, any>,
+    label: { name: string; integration?: string },
+    actor?: string
+  ): Promise<Record<string, any>> {
+    const sealed: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (!isSecretField(key) || value === null || value === undefined || value === '') {
+        sealed[key] = value;
+      } else if (isSecretRef(value)) {
+        await this.get(tenantId, value.secretRef);
+        sealed[key] = value;
+      } else if (isSecretRef(current?.[key])) {
+        await this.rotate(tenantId, current[key].secretRef, String(value), actor);
+        sealed[key] = current[key];
+      } else {
+        const secret = await this.create(tenantId, { name: `${label.name} ${key}`, value: String(value), integration: label.integration }, actor);
+        sealed[key] = { secretRef: secret.id };
+      }
+    }
+    return sealed;
+  }
+
+  async list(tenantId: string, filters: { integration?: string } = {}): Promise<any[]> {
+    const params: any[] = [tenantId];
+    let query = 'SELECT * FROM vault_secrets WHERE tenant_id = $1';
+    if (filters.integration) { params.push(filters.integration); query += ` AND integration = $${params.length}`; }
+    const result = await this.pool.query(`${query} ORDER BY name`, params);
+    return result.rows.map(describeSecret);
+  }
+
+  async get(tenantId: string, id: string): Promise<any> {
+    const result = await this.pool.query('SELECT * FROM vault_secrets WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
+    if (result.rows.length === 0) throw new VaultError('not_found', `Secret ${id} not found`);
+    return describeSecret(result.rows[0]);
+  }
+
+  /**
+   * Delete a secret that no stored credentials, agent integration or webhook refers to.
+   */
+  async delete(tenantId: string, id: string, actor?: string): Promise<void> {
+    // $3 matches any object in the document whose secretRef is this secret, however nested
+    const references = await this.pool.query(
+      `SELECT 1 FROM integration_credentials WHERE tenant_id = $1 AND jsonb_path_exists(secrets, $3, $2)
+       UNION ALL
+       SELECT 1 FROM agent_integrations ai JOIN agents a ON a.id = ai.agent_id
+       WHERE a.tenant_id = $1 AND jsonb_path_exists(ai.config, $3, $2)
+       UNION ALL
+       SELECT 1 FROM webhook_endpoints WHERE tenant_id = $1 AND jsonb_path_exists(secret, $3, $2)
+       LIMIT 1`,
+      [tenantId, JSON.stringify({ id }), '$.** ? (@.secretRef == $id)']
+    );
+    if (references.rows.length > 0) {
+      throw new VaultError('in_use', `Secret ${id} is referenced by integration config or a webhook`);
+    }
+
+    const result = await this.pool.query(
+      `WITH deleted AS (
+         DELETE FROM vault_secrets WHERE id = $1 AND tenant_id = $2 RETURNING tenant_id, id, name
+       ), audit AS (
+         INSERT INTO vault_audit_log (tenant_id, secret_id, secret_name, action, actor)
+         SELECT tenant_id, id, name, 'deleted', $3 FROM deleted
+       )
+       SELECT * FROM deleted`,
+      [id, tenantId, actor || 'system']
+    );
+    if (result.rows.length === 0) throw new VaultError('not_found', `Secret ${id} not found`);
+  }
+
+  /**
+   * Rewrap the tenant's data keys that are still under an older master key with the
+   * active one. Secret values are not re-encrypted.
+   */
+  async rewrap(tenantId: string, actor?: string): Promise<number> {
+    const stale = await this.pool.query(
+      'SELECT id, tenant_id, wrapped_key, key_id FROM vault_secrets WHERE tenant_id = $1 AND key_id <> $2',
+      [tenantId, this.keys.activeKeyId]
+    );
+    for (const row of stale.rows) {
+      const aad = `${row.tenant_id}:${row.id}`;
+      const dataKey = decrypt(this.keys.tenantKey(row.tenant_id, row.key_id), row.wrapped_key, aad);
+      await this.pool.query(
+        `WITH rewrapped AS (
+           UPDATE vault_secrets SET wrapped_key = $3, key_id = $4, updated_at = NOW()
+           WHERE id = $1 AND tenant_id = $2 AND key_id = $5
+           RETURNING tenant_id, id, name
+         )
+         INSERT INTO vault_audit_log (tenant_id, secret_id, secret_name, action, actor, purpose)
+         SELECT tenant_id, id, name, 'rewrapped', $6, $7 FROM rewrapped`,
+        [row.id, tenantId, encrypt(this.keys.tenantKey(tenantId), dataKey, aad), this.keys.activeKeyId, row.key_id,
+          actor || 'system', `${row.key_id} -> ${this.keys.activeKeyId}`]
+      );
+    }
+    return stale.rows.length;
+  }
+
+  async auditTrail(tenantId: string, filters: { secretId?: string; limit?: number } = {}): Promise<any[]> {
+    const params: any[] = [tenantId];
+    let query = 'SELECT * FROM vault_audit_log WHERE tenant_id = $1';
+    if (filters.secretId) { params.push(filters.secretId); query += ` AND secret_id = $${params.length}`; }
+    params.push(Math.min(filters.limit || 100, 1000));
+    const result = await this.pool.query(`${query} ORDER BY created_at DESC LIMIT $${params.length}`, params);
+    return result.rows.map(row => ({
+      id: row.id,
+      secretId: row.secret_id,
+      secretName: row.secret_name,
+      action: row.action,
+      actor: row.actor,
+      purpose: row.purpose,
+      agentId: row.agent_id,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private checkValue(value: unknown) {
+    if (typeof value !== 'string' || value === '') throw new VaultError('invalid_request', 'value must be a non-empty string');
+  }
+
+  private seal(tenantId: string, id: string, value: string) {
+    const aad = `${tenantId}:${id}`;
+    const dataKey = randomBytes(32);
+    return {
+      ciphertext: encrypt(dataKey, Buffer.from(value, 'utf8'), aad),
+      wrappedKey: encrypt(this.keys.tenantKey(tenantId), dataKey, aad),
+      keyId: this.keys.activeKeyId,
+    };
+  }
+
+  private open(row: any): string {
+    const aad = `${row.tenant_id}:${row.id}`;
+    const dataKey = decrypt(this.keys.tenantKey(row.tenant_id, row.key_id), row.wrapped_key, aad);
+    return decrypt(dataKey, row.ciphertext, aad).toString('utf8');
+  }
+}
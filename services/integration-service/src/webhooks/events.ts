@@ -0,0 +1,165 @@
+/**
+ * Webhook Events
+ *
+ * Works out what a delivery is (event name and the sender's delivery id) and maps its
+ * payload onto a foundation's run input.
+ *
+ * Event names:
+ *   - GitHub:  X-GitHub-Event plus the payload's action, e.g. `pull_request.opened`
+ *   - Jira:    the payload's webhookEvent, e.g. `jira:issue_created`
+ *   - Slack:   the Events API event type, e.g. `app_mention`
+ *   - ServiceNow and generic: the payload's `event`, else the X-Flowgrid-Event header
+ *
+ * Input mappings take each input field from a payload path (`issue.key`) or a template
+ * (`{{issue.key}}: {{issue.fields.summary}}`). Nested objects are mapped field by field;
+ * other values are copied as they are.
+ */
+
+import { createHash } from 'crypto';
+import { WebhookHeaders, WebhookSource, header } from './signatures';
+
+export interface WebhookDelivery {
+  event: string;
+  // The sender's id for the delivery; retries of the same delivery share it
+  deliveryId: string;
+  // Slack url_verification: echo this back instead of triggering the endpoint
+  challenge?: string;
+  // GitHub ping sent when the webhook is created
+  ping?: boolean;
+}
+
+export type InputMapping = Record<string, any>;
+
+// Used when an endpoint has no input mapping of its own
+export const DEFAULT_INPUT_MAPPINGS: Record<WebhookSource, InputMapping> = {
+  github: {
+    repository: 'repository.full_name',
+    sender: 'sender.login',
+    number: 'pull_request.number',
+    title: 'pull_request.title',
+    url: 'pull_request.html_url',
+  },
+  jira: {
+    issueKey: 'issue.key',
+    summary: 'issue.fields.summary',
+    issueType: 'issue.fields.issuetype.name',
+    status: 'issue.fields.status.name',
+    user: 'user.displayName',
+  },
+  servicenow: {
+    number: 'number',
+    sysId: 'sys_id',
+    shortDescription: 'short_description',
+    state: 'state',
+    priority: 'priority',
+  },
+  slack: {
+    channel: 'event.channel',
+    user: 'event.user',
+    text: 'event.text',
+  },
+  generic: {},
+};
+
+/**
+ * The event name and delivery id of a request.
+ */
+export function describeDelivery(
+  source: WebhookSource,
+  headers: WebhookHeaders,
+  body: any,
+  rawBody: Buffer
+): WebhookDelivery {
+  const bodyHash = createHash('sha256').update(rawBody).digest('hex');
+
+  switch (source) {
+    case 'github': {
+      const type = header(headers, 'x-github-event') || 'unknown';
+      return {
+        event: body?.action ? `${type}.${body.action}` : type,
+        deliveryId: header(headers, 'x-github-delivery') || bodyHash,
+        ping: type === 'ping',
+      };
+    }
+    case 'jira':
+      return {
+        event: body?.webhookEvent || 'unknown',
+        deliveryId: header(headers, 'x-atlassian-webhook-identifier') || bodyHash,
+      };
+    case 'slack':
+      if (body?.type === 'url_verification') {
+        return { event: 'url_verification', deliveryId: bodyHash, challenge: String(body.challenge ?? '') };
+      }
+      return { event: body?.event?.type || body?.type || 'unknown', deliveryId: body?.event_id || bodyHash };
+    default: {
+      // A ServiceNow business rule posting a record: one delivery per record update
+      const recordVersion = body?.sys_id && body?.sys_updated_on ? `${body.sys_id}:${body.sys_updated_on}` : undefined;
+      return {
+        event: body?.event || header(headers, 'x-flowgrid-event') || 'unknown',
+        deliveryId: header(headers, 'x-flowgrid-delivery') || recordVersion || bodyHash,
+      };
+    }
+  }
+}
+
+/**
+ * Whether an endpoint subscribed to `events` handles `event`. No events means all of them;
+ * `pull_request` also matches `pull_request.opened`.
+ */
+export function matchesEvent(events: string[], event: string): boolean {
+  return events.length === 0 || events.some(e => e === event || event.startsWith(`${e}.`));
+}
+
+/**
+ * The value at a dotted path (`issue.fields.summary`, `labels.0`), or undefined.
+ */
+export function valueAt(payload: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), payload);
+}
+
+function mapValue(spec: any, payload: any): any {
+  if (typeof spec === 'string') {
+    const whole = spec.match(/^\{\{\s*([^}]+?)\s*\}\}$/);
+    if (whole) return valueAt(payload, whole[1]);
+    if (spec.includes('{{')) {
+      return spec.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path) => {
+        const value = valueAt(payload, path);
+        if (value === undefined || value === null) return '';
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+    }
+    return valueAt(payload, spec);
+  }
+  if (spec && typeof spec === 'object' && !Array.isArray(spec)) {
+    return mapInput(spec, payload);
+  }
+  return spec;
+}
+
+/**
+ * Build run input from a payload. Fields whose path is missing from the payload are left out.
+ */
+export function mapInput(mapping: InputMapping, payload: any): Record<string, any> {
+  const input: Record<string, any> = {};
+  for (const [key, spec] of Object.entries(mapping)) {
+    const value = mapValue(spec, payload);
+    if (value !== undefined) input[key] = value;
+  }
+  return input;
+}
+
+/**
+ * Validate an endpoint's input mapping. Returns an error message, or null when valid.
+ */
+export function validateInputMapping(mapping: unknown): string | null {
+  if (mapping === undefined || mapping === null) return null;
+  if (typeof mapping !== 'object' || Array.isArray(mapping)) return 'inputMapping must be an object';
+  for (const [key, spec] of Object.entries(mapping)) {
+    if (typeof spec === 'string' && spec.trim() === '') return `inputMapping.${key} must not be empty`;
+    if (spec && typeof spec === 'object' && !Array.isArray(spec)) {
+      const error = validateInputMapping(spec);
+      if (error) return error.replace('inputMapping', `inputMapping.${key}`);
+    }
+  }
+  return null;
+}
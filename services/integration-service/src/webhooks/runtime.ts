@@ -0,0 +1,91 @@
+/**
+ * Webhook Triggers
+ *
+ * An accepted delivery starts a run of the endpoint's foundation, or is delivered as a
+ * message to the run waiting for it, through runtime-service:
+ *
+ *   POST /api/runtime/foundations/:foundationId/run   { input, businessKey }
+ *   POST /api/runtime/messages                        { messageName, runId, correlationKey, ... }
+ *
+ * Deliveries arrive outside any user request, so calls are authenticated with a short-lived
+ * service token (role `service`) acting for the user who set the endpoint up.
+ */
+
+import jwt from 'jsonwebtoken';
+import { WebhookSource } from './signatures';
+import { DEFAULT_INPUT_MAPPINGS, InputMapping, WebhookDelivery, mapInput, valueAt } from './events';
+
+const RUNTIME_SERVICE_URL = process.env.RUNTIME_SERVICE_URL || 'http://localhost:3007';
+const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+const RUNTIME_TIMEOUT_MS = 10000;
+
+// The columns of webhook_endpoints a trigger reads
+export interface WebhookEndpoint {
+  id: string;
+  tenant_id: string;
+  foundation_id: string;
+  created_by: string;
+  source: WebhookSource;
+  action: 'start_run' | 'deliver_message';
+  message_name: string | null;
+  input_mapping: InputMapping | null;
+  // Payload paths holding the run id, correlation key or business key
+  correlation: Record<string, string> | null;
+}
+
+export class RuntimeTriggerClient {
+  constructor(private baseUrl = RUNTIME_SERVICE_URL) {}
+
+  /**
+   * Start a run, or deliver a message, for an accepted delivery. Returns the run it went to.
+   */
+  async trigger(endpoint: WebhookEndpoint, delivery: WebhookDelivery, payload: any): Promise<string | undefined> {
+    const mapping = Object.keys(endpoint.input_mapping || {}).length > 0
+      ? endpoint.input_mapping!
+      : DEFAULT_INPUT_MAPPINGS[endpoint.source];
+    const input = {
+      ...mapInput(mapping, payload),
+      webhook: { endpointId: endpoint.id, source: endpoint.source, event: delivery.event, deliveryId: delivery.deliveryId },
+    };
+
+    const correlated = (key: string): string | undefined => {
+      const value = endpoint.correlation?.[key] ? valueAt(payload, endpoint.correlation[key]) : undefined;
+      return value === undefined || value === null || value === '' ? undefined : String(value);
+    };
+
+    if (endpoint.action === 'deliver_message') {
+      const result = await this.post(endpoint, '/messages', {
+        messageName: endpoint.message_name || `${endpoint.source}.${delivery.event}`,
+        foundationId: endpoint.foundation_id,
+        runId: correlated('runId'),
+        correlationKey: correlated('correlationKey'),
+        payload: { ...input, payload },
+        source: `webhook:${endpoint.id}`,
+      });
+      return result.runId;
+    }
+
+    const run = await this.post(endpoint, `/foundations/${endpoint.foundation_id}/run`, {
+      input: { ...input, payload },
+      businessKey: correlated('businessKey'),
+    });
+    return run.runId;
+  }
+
+  private async post(endpoint: WebhookEndpoint, path: string, body: Record<string, any>): Promise<any> {
+    const token = jwt.sign(
+      { userId: endpoint.created_by, email: `webhook-${endpoint.id}@flowgrid.local`, tenantId: endpoint.tenant_id, role: 'service', type: 'access' },
+      JWT_SECRET,
+      { expiresIn: '5m' }
+    );
+    const response = await fetch(`${this.baseUrl}/api/runtime${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(RUNTIME_TIMEOUT_MS),
+    });
+    const result: any = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || `runtime-service returned HTTP ${response.status}`);
+    return result;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Webhook Signing Secrets
+ *
+ * Every delivery is checked against its endpoint's signing secret, decrypted from the vault.
+ * Anyone who knows an endpoint's URL can post to it, so decrypted secrets are kept in memory
+ * for a short while: a flood of forged deliveries costs one vault read (and audit row) per
+ * endpoint per TTL instead of one each. Updating or deleting an endpoint drops its entry; a
+ * secret rotated elsewhere (in the vault, or Slack credentials) applies once the entry expires.
+ */
+
+export const SIGNING_SECRET_TTL_MS = 60 * 1000;
+
+export class SigningSecretCache {
+  // Reads in flight are shared, so concurrent deliveries decrypt once
+  private entries = new Map<string, { expiresAt: number; secret: Promise<string | null> }>();
+
+  constructor(private ttlMs = SIGNING_SECRET_TTL_MS) {}
+
+  /**
+   * The endpoint's signing secret; `reveal` reads it when none is cached. A failed read
+   * isn't cached.
+   */
+  get(endpointId: string, reveal: () => Promise<string | null>): Promise<string | null> {
+    const cached = this.entries.get(endpointId);
+    if (cached && cached.expiresAt > Date.now()) return cached.secret;
+
+    const secret = reveal();
+    this.entries.set(endpointId, { expiresAt: Date.now() + this.ttlMs, secret });
+    secret.catch(() => {
+      if (this.entries.get(endpointId)?.secret === secret) this.entries.delete(endpointId);
+    });
+    return secret;
+  }
+
+  invalidate(endpointId: string): void {
+    this.entries.delete(endpointId);
+  }
+}
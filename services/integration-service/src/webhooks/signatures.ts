@@ -0,0 +1,93 @@
+/**
+ * Webhook Signatures
+ *
+ * Each source signs the raw request body with a shared secret:
+ *   - GitHub:  X-Hub-Signature-256: sha256=<hex HMAC-SHA256 of the body>
+ *   - Jira:    X-Hub-Signature: sha256=<hex HMAC-SHA256 of the body>
+ *   - Slack:   X-Slack-Signature: v0=<hex HMAC-SHA256 of "v0:<timestamp>:<body>">, with
+ *              X-Slack-Request-Timestamp no older than five minutes
+ *   - ServiceNow and generic senders: X-Flowgrid-Signature: sha256=<hex HMAC-SHA256 of the body>
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SOURCES = ['jira', 'github', 'servicenow', 'slack', 'generic'] as const;
+export type WebhookSource = typeof WEBHOOK_SOURCES[number];
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+// Slack rejects requests signed more than five minutes ago to stop replays
+export const SLACK_MAX_AGE_SECONDS = 5 * 60;
+
+const SIGNATURE_HEADERS: Record<Exclude<WebhookSource, 'slack'>, string> = {
+  github: 'x-hub-signature-256',
+  jira: 'x-hub-signature',
+  servicenow: 'x-flowgrid-signature',
+  generic: 'x-flowgrid-signature',
+};
+
+export function isWebhookSource(value: unknown): value is WebhookSource {
+  return typeof value === 'string' && (WEBHOOK_SOURCES as readonly string[]).includes(value);
+}
+
+export function header(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function hmacHex(secret: string, payload: Buffer | string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * The signature header a sender would attach to `rawBody` — for tests and for documenting
+ * generic senders.
+ */
+export function signWebhook(
+  source: WebhookSource,
+  secret: string,
+  rawBody: Buffer | string,
+  timestamp = Math.floor(Date.now() / 1000)
+): WebhookHeaders {
+  if (source === 'slack') {
+    return {
+      'x-slack-request-timestamp': String(timestamp),
+      'x-slack-signature': `v0=${hmacHex(secret, `v0:${timestamp}:${rawBody}`)}`,
+    };
+  }
+  return { [SIGNATURE_HEADERS[source]]: `sha256=${hmacHex(secret, rawBody)}` };
+}
+
+/**
+ * Check a request's signature against the endpoint's secret. Returns the reason it was
+ * rejected, or null when the signature is valid.
+ */
+export function verifySignature(
+  source: WebhookSource,
+  headers: WebhookHeaders,
+  rawBody: Buffer,
+  secret: string,
+  now = Date.now()
+): string | null {
+  if (source === 'slack') {
+    const timestamp = header(headers, 'x-slack-request-timestamp');
+    const signature = header(headers, 'x-slack-signature');
+    if (!timestamp || !signature) return 'Missing X-Slack-Signature or X-Slack-Request-Timestamp';
+    if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > SLACK_MAX_AGE_SECONDS) {
+      return 'Request timestamp is outside the allowed window';
+    }
+    const expected = `v0=${hmacHex(secret, Buffer.concat([Buffer.from(`v0:${timestamp}:`), rawBody]))}`;
+    return safeEqual(signature, expected) ? null : 'Signature does not match';
+  }
+
+  const name = SIGNATURE_HEADERS[source];
+  const signature = header(headers, name);
+  if (!signature) return `Missing ${name} header`;
+  return safeEqual(signature, `sha256=${hmacHex(secret, rawBody)}`) ? null : 'Signature does not match';
+}
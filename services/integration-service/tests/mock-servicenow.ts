@@ -0,0 +1,177 @@
+/**
+ * Mock ServiceNow Table API
+ *
+ * In-memory stand-in for /api/now/table/{table} used by the connector contract tests.
+ * Mirrors the parts of the real API the connector relies on: basic auth, encoded
+ * queries (field=value, fieldLIKEvalue, ^OR, ORDERBY), sysparm_limit/sysparm_offset
+ * paging with X-Total-Count and Link headers, record numbers, and the Table API error
+ * body `{ error: { message, detail }, status: 'failure' }`.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+
+const NUMBER_PREFIXES: Record<string, string> = {
+  incident: 'INC', change_request: 'CHG', problem: 'PRB', kb_knowledge: 'KB',
+};
+// Tables the mock serves; cmdb_ci also answers for records of its class tables
+const TABLES = ['incident', 'change_request', 'problem', 'cmdb_ci', 'cmdb_ci_server', 'cmdb_ci_appl', 'kb_knowledge'];
+
+export interface ForcedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: any;
+  // Raw body instead of JSON (e.g. an HTML page)
+  raw?: string;
+  // Wait before answering
+  delayMs?: number;
+}
+
+export interface MockServiceNow {
+  url: string;
+  username: string;
+  password: string;
+  tables: Record<string, Record<string, any>[]>;
+  requests: { method: string; path: string; query: Record<string, string> }[];
+  // Answer the next requests with these responses, in order, instead of serving them
+  forceResponses(...responses: ForcedResponse[]): void;
+  seed(table: string, records: Record<string, any>[]): Record<string, any>[];
+  close(): Promise<void>;
+}
+
+export async function startMockServiceNow(options: { username?: string; password?: string } = {}): Promise<MockServiceNow> {
+  const username = options.username || 'flowgrid.integration';
+  const password = options.password || 'mock-password';
+  const tables: Record<string, Record<string, any>[]> = Object.fromEntries(TABLES.map(t => [t, []]));
+  const requests: MockServiceNow['requests'] = [];
+  const forced: ForcedResponse[] = [];
+  const counters: Record<string, number> = {};
+
+  const newRecord = (table: string, fields: Record<string, any>) => {
+    const now = new Date().toISOString().replace('T', ' ').substring(0, 19);
+    const prefix = NUMBER_PREFIXES[table];
+    counters[table] = (counters[table] || 10000) + 1;
+    const record = {
+      sys_id: randomBytes(16).toString('hex'),
+      ...(prefix && { number: `${prefix}00${counters[table]}` }),
+      sys_class_name: table,
+      sys_created_on: now,
+      sys_updated_on: now,
+      ...fields,
+    };
+    tables[table].push(record);
+    // CI class tables extend cmdb_ci: their records are also cmdb_ci records
+    if (table.startsWith('cmdb_ci_')) tables.cmdb_ci.push(record);
+    return record;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://mock');
+    const query = Object.fromEntries(url.searchParams.entries());
+    requests.push({ method: req.method || 'GET', path: url.pathname, query });
+
+    const send = (status: number, body: any, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+    const fail = (status: number, message: string, detail?: string) =>
+      send(status, { error: { message, detail: detail || null }, status: 'failure' });
+
+    const next = forced.shift();
+    if (next) {
+      if (next.delayMs) await new Promise(r => setTimeout(r, next.delayMs));
+      if (res.destroyed) return;
+      if (next.raw !== undefined) {
+        res.writeHead(next.status, { 'Content-Type': 'text/html', ...next.headers });
+        return res.end(next.raw);
+      }
+      return send(next.status, next.body ?? { error: { message: `HTTP ${next.status}` }, status: 'failure' }, next.headers);
+    }
+
+    const expected = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      return fail(401, 'User Not Authenticated', 'Required to provide Auth information');
+    }
+
+    const match = url.pathname.match(/^\/api\/now\/table\/([\w]+)(?:\/([\w]+))?$/);
+    if (!match) return fail(400, 'Requested URI does not represent any resource');
+    const [, table, sysId] = match;
+    if (!tables[table]) return fail(400, 'Invalid table', `Invalid table ${table}`);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+
+    const project = (record: Record<string, any>) => {
+      if (!query.sysparm_fields) return record;
+      return Object.fromEntries(query.sysparm_fields.split(',').map(f => [f, record[f] ?? '']));
+    };
+
+    if (req.method === 'GET' && !sysId) {
+      const matched = tables[table].filter(matcher(query.sysparm_query || ''));
+      const limit = Number(query.sysparm_limit || 10000);
+      const offset = Number(query.sysparm_offset || 0);
+      const page = matched.slice(offset, offset + limit);
+      const headers: Record<string, string> = { 'X-Total-Count': String(matched.length) };
+      if (offset + limit < matched.length) {
+        headers.Link = `<${url.origin}${url.pathname}?sysparm_offset=${offset + limit}&sysparm_limit=${limit}>;rel="next"`;
+      }
+      return send(200, { result: page.map(project) }, headers);
+    }
+
+    const record = sysId ? tables[table].find(r => r.sys_id === sysId) : undefined;
+    if (req.method === 'GET') {
+      if (!record) return fail(404, 'No Record found', "Record doesn't exist or ACL restricts the record retrieval");
+      return send(200, { result: project(record) });
+    }
+    if (req.method === 'POST' && !sysId) {
+      return send(201, { result: newRecord(table, { state: '1', ...body }) });
+    }
+    if (req.method === 'PATCH' || req.method === 'PUT') {
+      if (!record) return fail(404, 'No Record found', "Record doesn't exist or ACL restricts the record retrieval");
+      Object.assign(record, body, { sys_updated_on: new Date().toISOString().replace('T', ' ').substring(0, 19) });
+      return send(200, { result: record });
+    }
+    fail(405, 'Method not Supported');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    username,
+    password,
+    tables,
+    requests,
+    forceResponses: (...responses) => { forced.push(...responses); },
+    seed: (table, records) => records.map(r => newRecord(table, r)),
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/**
+ * Filter for an encoded query: `^` separates AND terms, `^OR` joins a term to the previous
+ * one, and ORDERBY terms are ignored.
+ */
+function matcher(encoded: string): (record: Record<string, any>) => boolean {
+  const groups: string[][] = [];
+  for (const term of encoded.replace(/\^\^/g, '\u0000').split('^').filter(Boolean)) {
+    const text = term.replace(/\u0000/g, '^');
+    if (text.startsWith('ORDERBY')) continue;
+    if (text.startsWith('OR') && groups.length > 0) groups[groups.length - 1].push(text.substring(2));
+    else groups.push([text]);
+  }
+  const test = (record: Record<string, any>, term: string) => {
+    const like = term.match(/^(\w+)LIKE(.*)$/);
+    if (like) return String(record[like[1]] ?? '').toLowerCase().includes(like[2].toLowerCase());
+    const eq = term.match(/^(\w+)=(.*)$/);
+    if (eq) return String(record[eq[1]] ?? '') === eq[2];
+    return true;
+  };
+  return record => groups.every(group => group.some(term => test(record, term)));
+}
@@ -0,0 +1,256 @@
+/**
+ * ServiceNow Connector Contract Tests
+ *
+ * Runs the Table API client against a local mock ServiceNow (mock-servicenow.ts), so the
+ * request/response contract — paging, record numbers, field mapping and error codes —
+ * is verified offline.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { startMockServiceNow, MockServiceNow } from './mock-servicenow';
+import { ServiceNowClient, SERVICENOW_TABLES, encodedQuery, instanceUrl, toServiceNowFields } from '../src/connectors/servicenow';
+import { IntegrationError } from '../src/connectors/errors';
+
+async function expectIntegrationError(promise: Promise<unknown>, code: string): Promise<IntegrationError> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(IntegrationError);
+  expect((error as IntegrationError).code).toBe(code);
+  return error as IntegrationError;
+}
+
+describe('ServiceNow connector', () => {
+  let mock: MockServiceNow;
+  let client: ServiceNowClient;
+
+  beforeAll(async () => {
+    mock = await startMockServiceNow();
+    client = new ServiceNowClient({ instance: mock.url, username: mock.username, password: mock.password }, { timeoutMs: 2000 });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    for (const records of Object.values(mock.tables)) records.length = 0;
+    mock.requests.length = 0;
+  });
+
+  describe('configuration', () => {
+    it('resolves instance names, hosts and URLs', () => {
+      expect(instanceUrl('dev12345')).toBe('https://dev12345.service-now.com');
+      expect(instanceUrl('acme.service-now.com')).toBe('https://acme.service-now.com');
+      expect(instanceUrl('http://127.0.0.1:8080/')).toBe('http://127.0.0.1:8080');
+    });
+
+    it('requires instance, username and password', () => {
+      expect(() => new ServiceNowClient({ instance: 'dev1', username: 'u', password: '' }))
+        .toThrow(expect.objectContaining({ code: 'not_configured' }));
+    });
+
+    it('maps API field names to ServiceNow columns', () => {
+      expect(toServiceNowFields({ shortDescription: 'Disk full', cmdbCi: 'abc', work_notes: 'x', skipped: undefined }))
+        .toEqual({ short_description: 'Disk full', cmdb_ci: 'abc', work_notes: 'x' });
+    });
+
+    it('builds encoded queries, escaping carets', () => {
+      expect(encodedQuery({ active: true, priority: '1', state: undefined }, 'ORDERBYnumber')).toBe('active=true^priority=1^ORDERBYnumber');
+      expect(encodedQuery({ short_description: 'a^b' })).toBe('short_description=a^^b');
+    });
+  });
+
+  describe('connection test', () => {
+    it('succeeds with valid credentials', async () => {
+      await expect(client.testConnection()).resolves.toEqual({ instance: mock.url });
+      expect(mock.requests[0]).toMatchObject({ method: 'GET', path: '/api/now/table/incident', query: { sysparm_limit: '1' } });
+    });
+
+    it('reports rejected credentials as auth_failed', async () => {
+      const wrong = new ServiceNowClient({ instance: mock.url, username: mock.username, password: 'wrong' });
+      const error = await expectIntegrationError(wrong.testConnection(), 'auth_failed');
+      expect(error.upstreamStatus).toBe(401);
+      expect(error.message).toContain('User Not Authenticated');
+    });
+
+    it('reports an unreachable instance as unavailable', async () => {
+      const unreachable = new ServiceNowClient({ instance: 'http://127.0.0.1:1', username: 'u', password: 'p' }, { maxRetries: 0 });
+      await expectIntegrationError(unreachable.testConnection(), 'unavailable');
+    });
+
+    it('reports a slow instance as timeout', async () => {
+      const impatient = new ServiceNowClient({ instance: mock.url, username: mock.username, password: mock.password }, { timeoutMs: 100 });
+      mock.forceResponses({ status: 200, body: { result: [] }, delayMs: 500 });
+      await expectIntegrationError(impatient.testConnection(), 'timeout');
+    });
+
+    it('reports a hibernating instance (HTML page) as unavailable', async () => {
+      mock.forceResponses({ status: 200, raw: '<html><body>Your instance is hibernating</body></html>' });
+      await expectIntegrationError(client.testConnection(), 'unavailable');
+    });
+  });
+
+  describe('incidents', () => {
+    it('creates an incident and reads it back by sys_id and by number', async () => {
+      const created = await client.create(SERVICENOW_TABLES.incidents, toServiceNowFields({ shortDescription: 'Email down', priority: '2' }));
+      expect(created).toMatchObject({ short_description: 'Email down', priority: '2', state: '1' });
+      expect(created.number).toMatch(/^INC\d+$/);
+      expect(mock.requests[0]).toMatchObject({ method: 'POST', path: '/api/now/table/incident' });
+
+      await expect(client.get(SERVICENOW_TABLES.incidents, created.sys_id)).resolves.toMatchObject({ number: created.number });
+      await expect(client.get(SERVICENOW_TABLES.incidents, created.number)).resolves.toMatchObject({ sys_id: created.sys_id });
+      expect(mock.requests[2].query.sysparm_query).toBe(`number=${created.number}`);
+    });
+
+    it('updates an incident by number', async () => {
+      const [incident] = mock.seed('incident', [{ short_description: 'VPN flaky', state: '1' }]);
+      const updated = await client.update(SERVICENOW_TABLES.incidents, incident.number, { state: '6', close_notes: 'Rebooted gateway' });
+      expect(updated).toMatchObject({ sys_id: incident.sys_id, state: '6', close_notes: 'Rebooted gateway' });
+      expect(mock.requests.map(r => r.method)).toEqual(['GET', 'PATCH']);
+    });
+
+    it('reports missing records as not_found', async () => {
+      const error = await expectIntegrationError(client.get(SERVICENOW_TABLES.incidents, 'a'.repeat(32)), 'not_found');
+      expect(error.message).toContain('No Record found');
+      await expectIntegrationError(client.get(SERVICENOW_TABLES.incidents, 'INC0099999'), 'not_found');
+      await expectIntegrationError(client.update(SERVICENOW_TABLES.incidents, 'b'.repeat(32), { state: '2' }), 'not_found');
+    });
+
+    it('filters with encoded queries', async () => {
+      mock.seed('incident', [
+        { short_description: 'Disk full on db01', priority: '1', active: 'true' },
+        { short_description: 'Printer jam', priority: '4', active: 'true' },
+        { short_description: 'Disk failure', priority: '1', active: 'false' },
+      ]);
+      const page = await client.list(SERVICENOW_TABLES.incidents, { query: encodedQuery({ active: true, priority: '1' }, 'short_descriptionLIKEdisk') });
+      expect(page.records.map(r => r.short_description)).toEqual(['Disk full on db01']);
+      expect(page.total).toBe(1);
+      expect(page.nextOffset).toBeNull();
+    });
+  });
+
+  describe('pagination', () => {
+    beforeEach(() => {
+      mock.seed('incident', Array.from({ length: 25 }, (_, i) => ({ short_description: `Incident ${i + 1}` })));
+    });
+
+    it('pages with limit and offset, reporting total and next offset', async () => {
+      const first = await client.list(SERVICENOW_TABLES.incidents, { limit: 10 });
+      expect(first).toMatchObject({ limit: 10, offset: 0, total: 25, nextOffset: 10 });
+      expect(first.records).toHaveLength(10);
+
+      const last = await client.list(SERVICENOW_TABLES.incidents, { limit: 10, offset: 20 });
+      expect(last).toMatchObject({ offset: 20, total: 25, nextOffset: null });
+      expect(last.records.map(r => r.short_description)).toEqual(
+        ['Incident 21', 'Incident 22', 'Incident 23', 'Incident 24', 'Incident 25']
+      );
+    });
+
+    it('caps the page size', async () => {
+      await client.list(SERVICENOW_TABLES.incidents, { limit: 5000 });
+      expect(mock.requests[0].query.sysparm_limit).toBe('100');
+    });
+
+    it('follows pages to collect every record', async () => {
+      const all = await client.listAll(SERVICENOW_TABLES.incidents, { fields: ['sys_id', 'number'] });
+      expect(all).toHaveLength(25);
+      expect(new Set(all.map(r => r.sys_id)).size).toBe(25);
+      expect(Object.keys(all[0]).sort()).toEqual(['number', 'sys_id']);
+    });
+
+    it('stops at maxRecords', async () => {
+      await expect(client.listAll(SERVICENOW_TABLES.incidents, { maxRecords: 12 })).resolves.toHaveLength(12);
+    });
+  });
+
+  describe('changes and problems', () => {
+    it('creates and reads change requests', async () => {
+      const change = await client.create(SERVICENOW_TABLES.changes, toServiceNowFields({
+        shortDescription: 'Patch db01', type: 'normal', implementationPlan: 'Apply patch', backoutPlan: 'Restore snapshot',
+      }));
+      expect(change.number).toMatch(/^CHG\d+$/);
+      expect(change).toMatchObject({ implementation_plan: 'Apply patch', backout_plan: 'Restore snapshot' });
+      await expect(client.get(SERVICENOW_TABLES.changes, change.number)).resolves.toMatchObject({ sys_id: change.sys_id });
+    });
+
+    it('creates and reads problems', async () => {
+      const problem = await client.create(SERVICENOW_TABLES.problems, toServiceNowFields({ shortDescription: 'Recurring disk alerts' }));
+      expect(problem.number).toMatch(/^PRB\d+$/);
+      await expect(client.get(SERVICENOW_TABLES.problems, problem.sys_id)).resolves.toMatchObject({ short_description: 'Recurring disk alerts' });
+    });
+  });
+
+  describe('CMDB lookups', () => {
+    beforeEach(() => {
+      mock.seed('cmdb_ci_server', [
+        { name: 'db01.prod', ip_address: '10.0.0.11', serial_number: 'SN-001' },
+        { name: 'db02.prod', ip_address: '10.0.0.12', serial_number: 'SN-002' },
+      ]);
+      mock.seed('cmdb_ci_appl', [{ name: 'Billing DB' }]);
+    });
+
+    it('finds configuration items by name across classes', async () => {
+      const page = await client.lookupConfigurationItems({ name: 'db' });
+      expect(page.records.map(r => r.name).sort()).toEqual(['Billing DB', 'db01.prod', 'db02.prod']);
+      expect(mock.requests[0].path).toBe('/api/now/table/cmdb_ci');
+    });
+
+    it('narrows by class, IP address and serial number', async () => {
+      const byIp = await client.lookupConfigurationItems({ className: 'cmdb_ci_server', ipAddress: '10.0.0.12' });
+      expect(byIp.records.map(r => r.name)).toEqual(['db02.prod']);
+      expect(mock.requests[0].path).toBe('/api/now/table/cmdb_ci_server');
+
+      const bySerial = await client.lookupConfigurationItems({ serialNumber: 'SN-001' });
+      expect(bySerial.records.map(r => r.name)).toEqual(['db01.prod']);
+    });
+
+    it('rejects tables that are not CI classes', async () => {
+      await expectIntegrationError(client.lookupConfigurationItems({ className: 'sys_user' }), 'invalid_request');
+      expect(mock.requests).toHaveLength(0);
+    });
+  });
+
+  describe('knowledge', () => {
+    it('searches published articles by title or text', async () => {
+      mock.seed('kb_knowledge', [
+        { short_description: 'Reset your VPN token', text: 'Steps...', workflow_state: 'published' },
+        { short_description: 'Printer setup', text: 'Also covers VPN printers', workflow_state: 'published' },
+        { short_description: 'VPN draft', text: '', workflow_state: 'draft' },
+      ]);
+      const page = await client.searchKnowledge('vpn');
+      expect(page.records.map(r => r.short_description).sort()).toEqual(['Printer setup', 'Reset your VPN token']);
+    });
+  });
+
+  describe('error mapping and retries', () => {
+    it('retries throttled requests after Retry-After', async () => {
+      mock.forceResponses({ status: 429, headers: { 'Retry-After': '0' } });
+      await expect(client.list(SERVICENOW_TABLES.incidents)).resolves.toMatchObject({ records: [] });
+      expect(mock.requests).toHaveLength(2);
+    });
+
+    it('gives up on persistent throttling with rate_limited', async () => {
+      mock.forceResponses(
+        { status: 429, headers: { 'Retry-After': '0' } },
+        { status: 429, headers: { 'Retry-After': '0' } },
+        { status: 429, headers: { 'Retry-After': '0' } }
+      );
+      await expectIntegrationError(client.list(SERVICENOW_TABLES.incidents), 'rate_limited');
+      expect(mock.requests).toHaveLength(3);
+    });
+
+    it.each([
+      [400, 'invalid_request'],
+      [403, 'forbidden'],
+      [500, 'upstream_error'],
+    ])('maps HTTP %i to %s', async (status: number, code: string) => {
+      mock.forceResponses({ status, body: { error: { message: 'Operation Failed', detail: 'ACL Exception' }, status: 'failure' } });
+      const error = await expectIntegrationError(client.create(SERVICENOW_TABLES.incidents, { short_description: 'x' }), code);
+      expect(error.message).toBe('Operation Failed: ACL Exception');
+      expect(error.upstreamStatus).toBe(status);
+    });
+
+    it('maps unknown tables to invalid_request', async () => {
+      await expectIntegrationError(client.list('no_such_table'), 'invalid_request');
+    });
+  });
+});
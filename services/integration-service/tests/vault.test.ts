@@ -0,0 +1,238 @@
+/**
+ * Credential Vault Tests
+ *
+ * Envelope encryption against a temporary key file and an in-memory vault_secrets table:
+ * round-trips, the tenantId:secretId binding, value rotation, master key rewrapping and
+ * the reference check on delete.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { LocalKeyProvider } from '../src/vault/keys';
+import { CredentialVault, VaultError } from '../src/vault/vault';
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const OTHER_TENANT_ID = '22222222-2222-2222-2222-222222222222';
+const USAGE = { actor: 'user-1', purpose: 'servicenow.test' };
+
+function hasRef(document: unknown, id: string): boolean {
+  if (!document || typeof document !== 'object') return false;
+  if ((document as any).secretRef === id) return true;
+  return Object.values(document).some(entry => hasRef(entry, id));
+}
+
+/**
+ * A pool that keeps vault_secrets and the audit log in memory. `references` stands in for
+ * the config documents (credentials, agent integrations, webhooks) the delete check queries.
+ */
+function vaultPool() {
+  const secrets: any[] = [];
+  const audit: Array<{ secretId: string; action: string; actor: string }> = [];
+  const references: unknown[] = [];
+  const queries: Array<{ sql: string; params: any[] }> = [];
+  const find = (id: string, tenantId: string) => secrets.find(s => s.id === id && s.tenant_id === tenantId);
+  const log = (row: any, action: string, actor: string) => audit.push({ secretId: row.id, action, actor });
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    queries.push({ sql, params });
+    if (/INSERT INTO vault_secrets/.test(sql)) {
+      const [id, tenantId, name, description, integration, ciphertext, wrappedKey, keyId, rotateAfterDays, createdBy, actor] = params;
+      const row = {
+        id, tenant_id: tenantId, name, description, integration, ciphertext, wrapped_key: wrappedKey, key_id: keyId,
+        rotate_after_days: rotateAfterDays, created_by: createdBy, version: 1, use_count: 0, created_at: new Date(),
+      };
+      secrets.push(row);
+      log(row, 'created', actor);
+      return { rows: [row] };
+    }
+    if (/SET ciphertext = \$3/.test(sql)) {
+      const row = find(params[0], params[1]);
+      if (!row) return { rows: [] };
+      Object.assign(row, { ciphertext: params[2], wrapped_key: params[3], key_id: params[4], version: row.version + 1, rotated_at: new Date() });
+      log(row, 'rotated', params[5]);
+      return { rows: [row] };
+    }
+    if (/SET last_used_at/.test(sql)) {
+      const row = find(params[0], params[1]);
+      if (!row) return { rows: [] };
+      Object.assign(row, { last_used_for: params[2], use_count: row.use_count + 1 });
+      log(row, 'decrypted', params[3]);
+      return { rows: [{ ...row }] };
+    }
+    if (/key_id <> \$2/.test(sql)) {
+      return { rows: secrets.filter(s => s.tenant_id === params[0] && s.key_id !== params[1]) };
+    }
+    if (/SET wrapped_key = \$3/.test(sql)) {
+      const row = find(params[0], params[1]);
+      if (row?.key_id === params[4]) {
+        Object.assign(row, { wrapped_key: params[2], key_id: params[3] });
+        log(row, 'rewrapped', params[5]);
+      }
+      return { rows: [] };
+    }
+    if (/jsonb_path_exists/.test(sql)) {
+      const { id } = JSON.parse(params[1]);
+      return { rows: references.some(document => hasRef(document, id)) ? [{ '?column?': 1 }] : [] };
+    }
+    if (/DELETE FROM vault_secrets/.test(sql)) {
+      const row = find(params[0], params[1]);
+      if (!row) return { rows: [] };
+      secrets.splice(secrets.indexOf(row), 1);
+      log(row, 'deleted', params[2]);
+      return { rows: [row] };
+    }
+    if (/SELECT \* FROM vault_secrets WHERE id = \$1/.test(sql)) {
+      const row = find(params[0], params[1]);
+      return { rows: row ? [row] : [] };
+    }
+    return { rows: [] };
+  });
+
+  const pool = { query } as unknown as Pool;
+  const ran = (pattern: RegExp) => queries.filter(q => pattern.test(q.sql));
+  return { pool, secrets, audit, references, ran };
+}
+
+describe('credential vault', () => {
+  let dir: string;
+  let keyFile: string;
+
+  function writeKeys(activeKeyId: string, keys: Record<string, string>) {
+    fs.writeFileSync(keyFile, JSON.stringify({ activeKeyId, keys }));
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-test-'));
+    keyFile = path.join(dir, 'master.key');
+    writeKeys('key-1', { 'key-1': randomBytes(32).toString('base64') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('key provider', () => {
+    it('derives a different key-encryption key per tenant and master key', () => {
+      const contents = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+      writeKeys('key-2', { ...contents.keys, 'key-2': randomBytes(32).toString('base64') });
+      const keys = new LocalKeyProvider(keyFile);
+
+      expect(keys.activeKeyId).toBe('key-2');
+      expect(keys.tenantKey(TENANT_ID)).toHaveLength(32);
+      expect(keys.tenantKey(TENANT_ID).equals(new LocalKeyProvider(keyFile).tenantKey(TENANT_ID))).toBe(true);
+      expect(keys.tenantKey(TENANT_ID).equals(keys.tenantKey(OTHER_TENANT_ID))).toBe(false);
+      expect(keys.tenantKey(TENANT_ID).equals(keys.tenantKey(TENANT_ID, 'key-1'))).toBe(false);
+      expect(() => keys.tenantKey(TENANT_ID, 'key-0')).toThrow('Vault key key-0 is not in');
+    });
+
+    it('rejects key files without the active key or with short keys', () => {
+      writeKeys('key-2', { 'key-1': randomBytes(32).toString('base64') });
+      expect(() => new LocalKeyProvider(keyFile)).toThrow('has no key for activeKeyId key-2');
+
+      writeKeys('key-1', { 'key-1': randomBytes(16).toString('base64') });
+      expect(() => new LocalKeyProvider(keyFile)).toThrow('is not 32 bytes');
+    });
+  });
+
+  it('reveals what it sealed, without storing the value in the clear', async () => {
+    const { pool, secrets, audit } = vaultPool();
+    const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+
+    const secret = await vault.create(TENANT_ID, { name: 'ServiceNow password', value: 'hunter2' }, 'user-1');
+
+    expect(secret).toEqual(expect.objectContaining({ name: 'ServiceNow password', version: 1, keyId: 'key-1' }));
+    expect(secret).not.toHaveProperty('ciphertext');
+    expect(secrets[0].ciphertext).toMatch(/^v1\./);
+    expect(JSON.stringify(secrets[0])).not.toContain('hunter2');
+    await expect(vault.reveal(TENANT_ID, secret.id, USAGE)).resolves.toBe('hunter2');
+    expect(audit.map(entry => entry.action)).toEqual(['created', 'decrypted']);
+  });
+
+  it('does not decrypt ciphertext moved to another tenant or another secret', async () => {
+    const { pool, secrets } = vaultPool();
+    const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+    const first = await vault.create(TENANT_ID, { name: 'Jira token', value: 'token-1' });
+    const second = await vault.create(TENANT_ID, { name: 'GitHub token', value: 'token-2' });
+
+    // Copy the first secret's ciphertext into another tenant, and into the second secret's row
+    secrets.push({ ...secrets[0], tenant_id: OTHER_TENANT_ID });
+    Object.assign(secrets[1], { ciphertext: secrets[0].ciphertext, wrapped_key: secrets[0].wrapped_key });
+
+    await expect(vault.reveal(OTHER_TENANT_ID, first.id, USAGE)).rejects.toThrow('unable to authenticate data');
+    await expect(vault.reveal(TENANT_ID, second.id, USAGE)).rejects.toThrow('unable to authenticate data');
+    await expect(vault.reveal(TENANT_ID, first.id, USAGE)).resolves.toBe('token-1');
+  });
+
+  it('reports unknown secrets and rejects empty values', async () => {
+    const { pool } = vaultPool();
+    const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+
+    await expect(vault.reveal(TENANT_ID, 'missing', USAGE)).rejects.toEqual(new VaultError('not_found', 'Secret missing not found'));
+    await expect(vault.create(TENANT_ID, { name: 'Empty', value: '' })).rejects.toEqual(expect.objectContaining({ code: 'invalid_request', status: 400 }));
+  });
+
+  it('rotates a value under the same id', async () => {
+    const { pool } = vaultPool();
+    const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+    const secret = await vault.create(TENANT_ID, { name: 'Slack token', value: 'old' });
+
+    const rotated = await vault.rotate(TENANT_ID, secret.id, 'new', 'user-1');
+
+    expect(rotated).toEqual(expect.objectContaining({ id: secret.id, version: 2 }));
+    await expect(vault.reveal(TENANT_ID, secret.id, USAGE)).resolves.toBe('new');
+  });
+
+  it('keeps secrets readable across a master key rotation and rewraps them onto the new key', async () => {
+    const { pool, secrets, audit } = vaultPool();
+    const secret = await new CredentialVault(pool, new LocalKeyProvider(keyFile)).create(TENANT_ID, { name: 'Jira token', value: 'sealed-under-key-1' });
+    const { ciphertext } = secrets[0];
+
+    const key2 = randomBytes(32).toString('base64');
+    writeKeys('key-2', { ...JSON.parse(fs.readFileSync(keyFile, 'utf8')).keys, 'key-2': key2 });
+    const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+
+    await expect(vault.reveal(TENANT_ID, secret.id, USAGE)).resolves.toBe('sealed-under-key-1');
+    await expect(vault.rewrap(TENANT_ID, 'admin-1')).resolves.toBe(1);
+    expect(secrets[0]).toEqual(expect.objectContaining({ key_id: 'key-2', ciphertext }));
+    expect(audit.filter(entry => entry.action === 'rewrapped')).toEqual([{ secretId: secret.id, action: 'rewrapped', actor: 'admin-1' }]);
+
+    // Once rewrapped, the old master key can be dropped from the file
+    writeKeys('key-2', { 'key-2': key2 });
+    const withoutOldKey = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+    await expect(withoutOldKey.reveal(TENANT_ID, secret.id, USAGE)).resolves.toBe('sealed-under-key-1');
+    await expect(withoutOldKey.rewrap(TENANT_ID)).resolves.toBe(0);
+  });
+
+  describe('delete', () => {
+    it('is refused while config still refers to the secret', async () => {
+      const { pool, secrets, references, ran } = vaultPool();
+      const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+      const secret = await vault.create(TENANT_ID, { name: 'ServiceNow password', value: 'hunter2' });
+      references.push({ instance: 'dev1', auth: { password: { secretRef: secret.id } } });
+
+      const error = await vault.delete(TENANT_ID, secret.id).then(() => null, (err: unknown) => err);
+
+      expect(error).toEqual(new VaultError('in_use', `Secret ${secret.id} is referenced by integration config or a webhook`));
+      expect((error as VaultError).status).toBe(409);
+      expect(secrets).toHaveLength(1);
+      expect(ran(/jsonb_path_exists/)[0].params).toEqual([TENANT_ID, JSON.stringify({ id: secret.id }), '$.** ? (@.secretRef == $id)']);
+    });
+
+    it('removes an unreferenced secret and audits it', async () => {
+      const { pool, secrets, audit, references } = vaultPool();
+      const vault = new CredentialVault(pool, new LocalKeyProvider(keyFile));
+      const secret = await vault.create(TENANT_ID, { name: 'Old token', value: 'x' });
+      references.push({ password: { secretRef: 'another-secret' } });
+
+      await vault.delete(TENANT_ID, secret.id, 'user-1');
+
+      expect(secrets).toHaveLength(0);
+      expect(audit[audit.length - 1]).toEqual({ secretId: secret.id, action: 'deleted', actor: 'user-1' });
+      await expect(vault.delete(TENANT_ID, secret.id)).rejects.toEqual(expect.objectContaining({ code: 'not_found' }));
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Inbound Webhook Tests
+ *
+ * Signature checks for each source, how deliveries are named, deduplicated and mapped
+ * onto run input, the signing secret cache, and the runtime-service calls that accepted
+ * deliveries make.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { SLACK_MAX_AGE_SECONDS, WebhookSource, signWebhook, verifySignature } from '../src/webhooks/signatures';
+import { describeDelivery, mapInput, matchesEvent, validateInputMapping, valueAt } from '../src/webhooks/events';
+import { SigningSecretCache } from '../src/webhooks/secrets';
+import { RuntimeTriggerClient, WebhookEndpoint } from '../src/webhooks/runtime';
+
+const SECRET = 'whsec_test';
+const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+const TENANT_ID = '7c0e1a52-0000-4000-8000-000000000001';
+
+function body(payload: unknown): Buffer {
+  return Buffer.from(JSON.stringify(payload));
+}
+
+describe('webhook signatures', () => {
+  const raw = body({ hello: 'world' });
+
+  it.each(['github', 'jira', 'servicenow', 'generic', 'slack'] as WebhookSource[])('accepts a valid %s signature', (source: WebhookSource) => {
+    expect(verifySignature(source, signWebhook(source, SECRET, raw), raw, SECRET)).toBeNull();
+  });
+
+  it('uses each source\'s signature header', () => {
+    expect(Object.keys(signWebhook('github', SECRET, raw))).toEqual(['x-hub-signature-256']);
+    expect(Object.keys(signWebhook('jira', SECRET, raw))).toEqual(['x-hub-signature']);
+    expect(Object.keys(signWebhook('generic', SECRET, raw))).toEqual(['x-flowgrid-signature']);
+    expect(signWebhook('github', SECRET, raw)['x-hub-signature-256']).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+
+  it('rejects a wrong secret, a tampered body and a missing header', () => {
+    const headers = signWebhook('github', SECRET, raw);
+    expect(verifySignature('github', headers, raw, 'other')).toBe('Signature does not match');
+    expect(verifySignature('github', headers, body({ hello: 'there' }), SECRET)).toBe('Signature does not match');
+    expect(verifySignature('github', {}, raw, SECRET)).toBe('Missing x-hub-signature-256 header');
+  });
+
+  it('rejects Slack requests outside the timestamp window', () => {
+    const now = Date.now();
+    const stale = Math.floor(now / 1000) - SLACK_MAX_AGE_SECONDS - 1;
+    const headers = signWebhook('slack', SECRET, raw, stale);
+    expect(verifySignature('slack', headers, raw, SECRET, now)).toBe('Request timestamp is outside the allowed window');
+    expect(verifySignature('slack', {}, raw, SECRET, now)).toMatch(/^Missing/);
+  });
+});
+
+describe('webhook deliveries', () => {
+  it('names GitHub events by type and action', () => {
+    const payload = { action: 'opened', pull_request: { number: 7 } };
+    const delivery = describeDelivery('github', { 'x-github-event': 'pull_request', 'x-github-delivery': 'abc' }, payload, body(payload));
+    expect(delivery).toEqual({ event: 'pull_request.opened', deliveryId: 'abc', ping: false });
+    expect(describeDelivery('github', { 'x-github-event': 'ping' }, {}, body({})).ping).toBe(true);
+  });
+
+  it('reads Jira and ServiceNow events from the payload', () => {
+    const issue = { webhookEvent: 'jira:issue_created', issue: { key: 'OPS-1' } };
+    expect(describeDelivery('jira', { 'x-atlassian-webhook-identifier': '42' }, issue, body(issue)))
+      .toEqual({ event: 'jira:issue_created', deliveryId: '42' });
+
+    const incident = { event: 'incident.updated', sys_id: 'a1', sys_updated_on: '2026-02-25 10:00:00' };
+    expect(describeDelivery('servicenow', {}, incident, body(incident)))
+      .toEqual({ event: 'incident.updated', deliveryId: 'a1:2026-02-25 10:00:00' });
+  });
+
+  it('answers Slack url_verification and dedupes on event_id', () => {
+    const challenge = { type: 'url_verification', challenge: 'xyz' };
+    expect(describeDelivery('slack', {}, challenge, body(challenge)).challenge).toBe('xyz');
+
+    const event = { type: 'event_callback', event_id: 'Ev1', event: { type: 'app_mention', text: 'hi' } };
+    expect(describeDelivery('slack', {}, event, body(event))).toEqual({ event: 'app_mention', deliveryId: 'Ev1' });
+  });
+
+  it('falls back to a hash of the body for the delivery id', () => {
+    const payload = { event: 'build.finished' };
+    const first = describeDelivery('generic', {}, payload, body(payload));
+    expect(first.deliveryId).toMatch(/^[0-9a-f]{64}$/);
+    expect(describeDelivery('generic', {}, payload, body(payload)).deliveryId).toBe(first.deliveryId);
+  });
+
+  it('matches subscribed events by name or prefix', () => {
+    expect(matchesEvent([], 'anything')).toBe(true);
+    expect(matchesEvent(['pull_request'], 'pull_request.opened')).toBe(true);
+    expect(matchesEvent(['pull_request.closed'], 'pull_request.opened')).toBe(false);
+    expect(matchesEvent(['jira:issue_created'], 'jira:issue_created')).toBe(true);
+  });
+});
+
+describe('webhook input mapping', () => {
+  const payload = { issue: { key: 'OPS-1', fields: { summary: 'Disk full', labels: ['infra', 'p1'] } } };
+
+  it('reads values at dotted paths', () => {
+    expect(valueAt(payload, 'issue.fields.labels.1')).toBe('p1');
+    expect(valueAt(payload, 'issue.missing.deeper')).toBeUndefined();
+  });
+
+  it('maps paths, templates, nested objects and constants', () => {
+    expect(mapInput({
+      key: 'issue.key',
+      title: '{{issue.key}}: {{ issue.fields.summary }}',
+      labels: '{{issue.fields.labels}}',
+      meta: { summary: 'issue.fields.summary' },
+      priority: 2,
+      missing: 'issue.assignee',
+    }, payload)).toEqual({
+      key: 'OPS-1',
+      title: 'OPS-1: Disk full',
+      labels: ['infra', 'p1'],
+      meta: { summary: 'Disk full' },
+      priority: 2,
+    });
+  });
+
+  it('validates mappings', () => {
+    expect(validateInputMapping(undefined)).toBeNull();
+    expect(validateInputMapping(['issue.key'])).toBe('inputMapping must be an object');
+    expect(validateInputMapping({ meta: { key: ' ' } })).toBe('inputMapping.meta.key must not be empty');
+  });
+});
+
+describe('webhook signing secret cache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('decrypts an endpoint\'s secret once per TTL, however many deliveries arrive', async () => {
+    const cache = new SigningSecretCache(60000);
+    const reveal = jest.fn(async () => SECRET);
+
+    const secrets = await Promise.all([1, 2, 3].map(() => cache.get('endpoint-1', reveal)));
+    await cache.get('endpoint-1', reveal);
+    expect(secrets).toEqual([SECRET, SECRET, SECRET]);
+    expect(reveal).toHaveBeenCalledTimes(1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60001);
+    await cache.get('endpoint-1', reveal);
+    expect(reveal).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the secret again after the endpoint changes or a read fails', async () => {
+    const cache = new SigningSecretCache();
+    const reveal = jest.fn(async () => SECRET);
+
+    await cache.get('endpoint-1', reveal);
+    cache.invalidate('endpoint-1');
+    await cache.get('endpoint-1', reveal);
+    expect(reveal).toHaveBeenCalledTimes(2);
+
+    await expect(cache.get('endpoint-2', async () => { throw new Error('vault unavailable'); })).rejects.toThrow('vault unavailable');
+    await expect(cache.get('endpoint-2', reveal)).resolves.toBe(SECRET);
+  });
+});
+
+describe('webhook triggers', () => {
+  let server: http.Server;
+  let client: RuntimeTriggerClient;
+  const requests: { url: string; claims: any; body: any }[] = [];
+
+  // Stands in for runtime-service: its auth check (an access token with a tenant), then
+  // the run or message it would create
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const reply = (status: number, json: any) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(json));
+        };
+        let claims: any;
+        try {
+          claims = jwt.verify((req.headers.authorization || '').replace('Bearer ', ''), JWT_SECRET);
+        } catch {
+          return reply(401, { error: 'Unauthorized' });
+        }
+        if (claims.type !== 'access' || !claims.tenantId) return reply(401, { error: 'Unauthorized' });
+        const json = JSON.parse(body);
+        requests.push({ url: req.url!, claims, body: json });
+        if (req.url === '/api/runtime/messages') {
+          if (json.correlationKey === undefined) return reply(404, { error: `No run is waiting for message "${json.messageName}"` });
+          return reply(200, { delivered: true, runId: 'run-waiting' });
+        }
+        reply(201, { runId: 'run-new', status: 'running' });
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    client = new RuntimeTriggerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const endpoint = (fields: Partial<WebhookEndpoint> = {}): WebhookEndpoint => ({
+    id: 'endpoint-1', tenant_id: TENANT_ID, foundation_id: 'foundation-1', created_by: 'user-1', source: 'github',
+    action: 'start_run', message_name: null, input_mapping: null, correlation: null, ...fields,
+  });
+
+  it('starts a run for a verified delivery, acting for the endpoint\'s creator', async () => {
+    const payload = { action: 'opened', pull_request: { number: 7, title: 'Fix it' }, repository: { full_name: 'acme/app' } };
+    const raw = body(payload);
+    const headers = { ...signWebhook('github', SECRET, raw), 'x-github-event': 'pull_request', 'x-github-delivery': 'd-1' };
+    expect(verifySignature('github', headers, raw, SECRET)).toBeNull();
+
+    const runId = await client.trigger(endpoint({ correlation: { businessKey: 'pull_request.number' } }), describeDelivery('github', headers, payload, raw), payload);
+
+    expect(runId).toBe('run-new');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/api/runtime/foundations/foundation-1/run');
+    expect(requests[0].claims).toEqual(expect.objectContaining({ userId: 'user-1', tenantId: TENANT_ID, role: 'service' }));
+    expect(requests[0].body).toEqual({
+      input: expect.objectContaining({
+        repository: 'acme/app', number: 7, title: 'Fix it',
+        webhook: { endpointId: 'endpoint-1', source: 'github', event: 'pull_request.opened', deliveryId: 'd-1' },
+        payload,
+      }),
+      businessKey: '7',
+    });
+  });
+
+  it('delivers a message to the run waiting for it', async () => {
+    const payload = { event: 'build.finished', build: { ref: 'order-42' } };
+    const raw = body(payload);
+
+    const runId = await client.trigger(
+      endpoint({ source: 'generic', action: 'deliver_message', correlation: { correlationKey: 'build.ref' } }),
+      describeDelivery('generic', {}, payload, raw),
+      payload
+    );
+
+    expect(runId).toBe('run-waiting');
+    expect(requests[0].url).toBe('/api/runtime/messages');
+    expect(requests[0].body).toEqual(expect.objectContaining({
+      messageName: 'generic.build.finished', foundationId: 'foundation-1', correlationKey: 'order-42', source: 'webhook:endpoint-1',
+    }));
+  });
+
+  it('fails the delivery with runtime-service\'s error', async () => {
+    const payload = { event: 'build.finished' };
+
+    await expect(client.trigger(endpoint({ source: 'generic', action: 'deliver_message' }), describeDelivery('generic', {}, payload, body(payload)), payload))
+      .rejects.toThrow('No run is waiting for message "generic.build.finished"');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Auth
+ *
+ * Requests carry an access token signed with the platform's JWT secret. Tokens issued by
+ * auth-service carry the user's role (admin, user, viewer); other platform services call
+ * with a service token (role `service`), e.g. integration-service starting runs and
+ * delivering messages for webhooks on behalf of the user who set the webhook up. Service
+ * tokens may use every route a user can; admin routes remain admin-only.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+
+export const TOKEN_ROLES = ['admin', 'user', 'viewer', 'service'] as const;
+export type TokenRole = typeof TOKEN_ROLES[number];
+
+export interface AuthTokenPayload {
+  userId: string;
+  email: string;
+  tenantId: string;
+  role: TokenRole;
+  type: 'access' | 'refresh';
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthTokenPayload;
+      tenantId?: string;
+    }
+  }
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized', message: 'No token provided' });
+  }
+
+  try {
+    const decoded = jwt.verify(authHeader.substring(7), JWT_SECRET) as AuthTokenPayload;
+    if (decoded.type !== 'access' || !decoded.tenantId || !TOKEN_ROLES.includes(decoded.role)) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Invalid token' });
+    }
+    req.user = decoded;
+    req.tenantId = decoded.tenantId;
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Unauthorized', message: 'Invalid token' });
+  }
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ error: 'Forbidden', message: 'Admin access required' });
+  }
+  next();
+}
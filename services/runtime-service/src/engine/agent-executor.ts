@@ -1,7 +1,13 @@
-import OpenAI from 'openai';
+import { LLMClient, LLMCallUsage, ChatMessage, ToolCall, ToolDefinition, completionUsage, imageUsage } from '../providers';
+import { TaskDataContract, extractStructuredOutput, validateStructuredOutput } from './data-contracts';
+import { ContractViolation, exampleFromSchema, describeSchemaFields } from './contract-schema';
+import { BudgetExceededError } from './budgets';
 
-const openai = new OpenAI();
-const DEFAULT_MODEL = 'gpt-4o';
+/**
+ * Called before every provider call with the calls already made for the step (not yet in
+ * the run's recorded usage). Throws BudgetExceededError to stop before the call.
+ */
+export type SpendCheck = (pending: LLMCallUsage[]) => Promise<void>;
 
 // --- DALL-E Image Generation Support ---
 
@@ -28,21 +34,19 @@ interface GeneratedImage {
   theme: string;
 }
 
-async function generateImages(themes: { theme: string; prompt: string }[]): Promise<GeneratedImage[]> {
+async function generateImages(
+  llm: LLMClient, themes: { theme: string; prompt: string }[], usage: LLMCallUsage[], checkSpend?: SpendCheck
+): Promise<GeneratedImage[]> {
   const limited = themes.slice(0, MAX_IMAGES_PER_TASK);
   const results: GeneratedImage[] = [];
 
   for (const { theme, prompt } of limited) {
+    await checkSpend?.(usage);
     try {
       console.log(`[agent-executor] Generating DALL-E image for theme: "${theme}"`);
-      const response = await openai.images.generate({
-        model: 'dall-e-3',
-        prompt,
-        n: 1,
-        size: '1024x1024',
-        quality: 'standard',
-      });
-      const url = response.data?.[0]?.url;
+      const image = await llm.generateImage(prompt);
+      if (image) usage.push(imageUsage(llm.providerName, image));
+      const url = image?.url;
       if (url) {
         results.push({ url, prompt, theme });
         console.log(`[agent-executor] Image generated for "${theme}"`);
@@ -56,25 +60,23 @@ async function generateImages(themes: { theme: string; prompt: string }[]): Prom
   return results;
 }
 
-async function createDallePrompts(textOutput: string, scopedContext?: ScopedContext): Promise<{ theme: string; prompt: string }[]> {
+async function createDallePrompts(
+  llm: LLMClient, textOutput: string, usage: LLMCallUsage[], scopedContext?: ScopedContext, checkSpend?: SpendCheck
+): Promise<{ theme: string; prompt: string }[]> {
   const taskContext = scopedContext
     ? `Task: ${scopedContext.taskName}\nOriginal request: ${scopedContext.originalRequest}\nAgent output:\n${textOutput.substring(0, 2000)}`
     : textOutput.substring(0, 2000);
 
+  await checkSpend?.(usage);
   try {
-    const response = await openai.chat.completions.create({
-      model: DEFAULT_MODEL,
-      max_tokens: 1000,
-      messages: [
-        {
-          role: 'system',
-          content: `You are a DALL-E prompt engineer. Given a creative task output, extract the distinct design themes/concepts and create detailed DALL-E 3 prompts for each. Return JSON array only, max ${MAX_IMAGES_PER_TASK} items: [{"theme": "short name", "prompt": "detailed DALL-E prompt"}]. No markdown, just JSON.`
-        },
-        { role: 'user', content: taskContext }
-      ]
+    const response = await llm.complete({
+      maxTokens: 1000,
+      system: `You are a DALL-E prompt engineer. Given a creative task output, extract the distinct design themes/concepts and create detailed DALL-E 3 prompts for each. Return JSON array only, max ${MAX_IMAGES_PER_TASK} items: [{"theme": "short name", "prompt": "detailed DALL-E prompt"}]. No markdown, just JSON.`,
+      messages: [{ role: 'user', content: taskContext }],
     });
+    usage.push(completionUsage('image_prompt', response));
 
-    const raw = response.choices[0]?.message?.content?.trim() || '[]';
+    const raw = response.text.trim() || '[]';
     // Strip markdown fences if present
     const cleaned = raw.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
     return JSON.parse(cleaned);
@@ -84,46 +86,58 @@ async function createDallePrompts(textOutput: string, scopedContext?: ScopedCont
   }
 }
 
+export interface GatewayRoute {
+  flowId: string;
+  reason: string;
+  usage?: LLMCallUsage;
+}
+
 /**
  * Lightweight AI gateway router — picks the right outgoing path from an exclusive gateway.
+ * A BudgetExceededError from `checkSpend` is thrown; other failures fall back to the last path.
  */
 export async function routeGateway(
+  llm: LLMClient,
   gatewayName: string,
   outgoingFlows: { id: string; name: string; condition?: string }[],
-  context: string
-): Promise<string> {
+  context: string,
+  checkSpend?: SpendCheck
+): Promise<GatewayRoute> {
   const flowOptions = outgoingFlows
     .map((f, i) => `${i + 1}. "${f.name || f.id}"${f.condition ? ` (condition: ${f.condition})` : ''}`)
     .join('\n');
 
+  await checkSpend?.([]);
   try {
-    const response = await openai.chat.completions.create({
-      model: DEFAULT_MODEL,
-      max_tokens: 50,
+    const response = await llm.complete({
+      maxTokens: 50,
+      system: 'You are a workflow routing engine. Given a gateway decision point, the available paths, and the current context, pick the most logical path. Respond with ONLY the number (1, 2, etc.) of the best path. Nothing else.',
       messages: [
-        { role: 'system', content: 'You are a workflow routing engine. Given a gateway decision point, the available paths, and the current context, pick the most logical path. Respond with ONLY the number (1, 2, etc.) of the best path. Nothing else.' },
         { role: 'user', content: `Gateway: "${gatewayName}"\n\nAvailable paths:\n${flowOptions}\n\nCurrent context (recent agent output):\n${context.substring(0, 1500)}\n\nWhich path? Reply with just the number.` }
       ]
     });
 
-    const answer = response.choices[0]?.message?.content?.trim() || '';
+    const usage = completionUsage('routing', response);
+    const answer = response.text.trim();
     const pathIndex = parseInt(answer) - 1;
     if (pathIndex >= 0 && pathIndex < outgoingFlows.length) {
-      console.log(`[gateway-router] "${gatewayName}" → path ${pathIndex + 1}: "${outgoingFlows[pathIndex].name || outgoingFlows[pathIndex].id}"`);
-      return outgoingFlows[pathIndex].id;
+      const chosen = outgoingFlows[pathIndex];
+      console.log(`[gateway-router] "${gatewayName}" → path ${pathIndex + 1}: "${chosen.name || chosen.id}"`);
+      return { flowId: chosen.id, reason: `Model chose path ${pathIndex + 1} ("${chosen.name || chosen.id}")`, usage };
     }
 
     console.log(`[gateway-router] "${gatewayName}" → couldn't parse "${answer}", using last path`);
-    return outgoingFlows[outgoingFlows.length - 1].id;
+    return { flowId: outgoingFlows[outgoingFlows.length - 1].id, reason: `Model reply "${answer.substring(0, 50)}" not understood; used last path`, usage };
   } catch (err: any) {
     console.error(`[gateway-router] Error routing "${gatewayName}":`, err.message);
-    return outgoingFlows[outgoingFlows.length - 1].id;
+    return { flowId: outgoingFlows[outgoingFlows.length - 1].id, reason: `Routing call failed (${err.message}); used last path` };
   }
 }
 
 export interface AgentConfig {
   name: string;
   system_prompt?: string;
+  provider?: string;
   model?: string;
   purpose?: string;
 }
@@ -132,8 +146,32 @@ export interface ExecutionResult {
   success: boolean;
   output: string;
   error?: string;
+  // One entry per LLM call made (agent completion, DALL-E prompts, images)
+  usage: LLMCallUsage[];
+  // Set when the task has an output contract: the validated output, and what still
+  // violates the contract after the repair prompts (empty when valid)
+  structuredOutput?: Record<string, any>;
+  contractErrors?: ContractViolation[];
+  repairAttempts?: number;
+  // Set when `checkSpend` stopped the execution before a provider call
+  budgetExceeded?: BudgetExceededError;
 }
 
+/**
+ * Tools offered to the model. `invoke` returns the text handed back to the model
+ * (a failed call is reported as text too, so the model can recover).
+ */
+export interface AgentToolset {
+  definitions: ToolDefinition[];
+  invoke: (call: ToolCall) => Promise<string>;
+}
+
+// Rounds of tool calls per agent execution before the model must answer in text
+const MAX_TOOL_ROUNDS = 5;
+
+// Follow-up prompts asking the model to fix output that violates the task's contract
+const MAX_REPAIR_ATTEMPTS = 2;
+
 export interface ScopedContext {
   taskName: string;
   skillName?: string;
@@ -142,30 +180,46 @@ export interface ScopedContext {
   flowSummary: string;
   originalRequest: string;
   outputKeys?: string[];
+  contract?: TaskDataContract;
 }
 
-export async function executeAgent(agent: AgentConfig, input: any, scopedContext?: ScopedContext): Promise<ExecutionResult> {
+function outputTemplate(contract: TaskDataContract): string {
+  return `\`\`\`json\n${JSON.stringify(exampleFromSchema(contract.outputSchema), null, 2)}\n\`\`\``;
+}
+
+export async function executeAgent(
+  llm: LLMClient,
+  agent: AgentConfig,
+  input: any,
+  scopedContext?: ScopedContext,
+  onDelta?: (text: string) => void,
+  tools?: AgentToolset,
+  checkSpend?: SpendCheck
+): Promise<ExecutionResult> {
   const systemPrompt = agent.system_prompt || agent.purpose || `You are ${agent.name}. Process the input and provide your output.`;
 
   let userContent: string;
 
   if (scopedContext) {
-    const { taskName, skillName, scopedInput, flowSummary, originalRequest, outputKeys } = scopedContext;
+    const { taskName, skillName, scopedInput, flowSummary, originalRequest, outputKeys, contract } = scopedContext;
     const inputFields = { ...scopedInput };
     delete inputFields._currentTask;
     delete inputFields._flowSummary;
     delete inputFields.originalRequest;
-    delete inputFields._missingInputs;
+    delete inputFields._inputErrors;
 
     const inputText = Object.keys(inputFields).length > 0
       ? JSON.stringify(inputFields, null, 2)
       : '(No specific input fields from previous steps)';
 
-    const missingNote = scopedInput._missingInputs
-      ? `\nNote: These expected inputs were not found in previous outputs: ${(scopedInput._missingInputs as string[]).join(', ')}`
+    const inputErrors: ContractViolation[] = scopedInput._inputErrors || [];
+    const missingNote = inputErrors.length > 0
+      ? `\nNote: These expected inputs are missing or invalid:\n${inputErrors.map(e => `- ${e.message}`).join('\n')}`
       : '';
 
-    const outputFormat = outputKeys && outputKeys.length > 0
+    const outputFormat = contract && contract.outputKeys.length > 0
+      ? `\nEXPECTED OUTPUT FORMAT:\nEnd your response with a JSON block containing these fields:\n${describeSchemaFields(contract.outputSchema).join('\n')}\n${outputTemplate(contract)}`
+      : outputKeys && outputKeys.length > 0
       ? `\nEXPECTED OUTPUT FORMAT:\nPlease structure your response to include these fields: ${outputKeys.join(', ')}\nInclude a JSON block at the end with these exact keys.\n\`\`\`json\n{${outputKeys.map(k => `"${k}": "..."`).join(', ')}}\n\`\`\``
       : `\nIMPORTANT: At the end of your response, include a JSON block with key decision variables, e.g.:\n\`\`\`json\n{"validationStatus": "valid", "conceptQuality": "acceptable"}\n\`\`\``;
 
@@ -194,52 +248,82 @@ Input:
 ${inputText}`;
   }
 
-  const maxRetries = 3;
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await openai.chat.completions.create({
-        model: agent.model || DEFAULT_MODEL,
-        max_tokens: 4096,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userContent }
-        ]
-      });
-
-      const output = response.choices[0]?.message?.content || '';
-
-      // For creative tasks, generate images via DALL-E
-      if (isCreativeTask(scopedContext, agent.name)) {
-        console.log(`[agent-executor] Creative task detected: "${scopedContext?.taskName || agent.name}" — generating images`);
-        try {
-          const themes = await createDallePrompts(output, scopedContext);
-          if (themes.length > 0) {
-            const images = await generateImages(themes);
-            if (images.length > 0) {
-              // Embed image data in the output as a JSON appendix
-              const imagePayload = { response: output, images };
-              const imageBlock = `\n\n---IMAGES---\n${JSON.stringify(imagePayload)}`;
-              return { success: true, output: output + imageBlock };
-            }
+  // Retries and timeouts are applied per provider by the LLM client
+  const usage: LLMCallUsage[] = [];
+  try {
+    const messages: ChatMessage[] = [{ role: 'user', content: userContent }];
+    const request = { maxTokens: 4096, system: systemPrompt, messages, onDelta, tools: tools?.definitions };
+    await checkSpend?.(usage);
+    let response = await llm.complete(request);
+    usage.push(completionUsage('agent', response));
+
+    // Tool loop: run the requested calls, hand the results back, until the model answers
+    for (let round = 1; tools && response.toolCalls?.length && round <= MAX_TOOL_ROUNDS + 1; round++) {
+      messages.push({ role: 'assistant', content: response.text, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        const content = round <= MAX_TOOL_ROUNDS
+          ? await tools.invoke(call)
+          : 'Tool call limit reached. Give your final answer without calling more tools.';
+        messages.push({ role: 'tool', toolCallId: call.id, content });
+      }
+      await checkSpend?.(usage);
+      response = await llm.complete(request);
+      usage.push(completionUsage('agent', response));
+    }
+
+    let output = response.text;
+
+    // Output contract: validate, and ask the model to repair violations before giving up
+    const contract = scopedContext?.contract;
+    let structuredOutput: Record<string, any> | undefined;
+    let contractErrors: ContractViolation[] | undefined;
+    let repairAttempts = 0;
+    if (contract && contract.outputKeys.length > 0) {
+      ({ output: structuredOutput, errors: contractErrors } = validateStructuredOutput(extractStructuredOutput(output, contract), contract));
+      while (contractErrors.length > 0 && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+        repairAttempts++;
+        console.log(`[agent-executor] Output of "${scopedContext!.taskName}" violates its contract (${contractErrors.length} errors) — repair attempt ${repairAttempts}`);
+        messages.push({ role: 'assistant', content: response.text });
+        messages.push({
+          role: 'user',
+          content: `Your output does not match the task's output contract:\n${contractErrors.map(e => `- ${e.message}`).join('\n')}\n\nReply with only the corrected JSON block:\n${outputTemplate(contract)}`,
+        });
+        await checkSpend?.(usage);
+        response = await llm.complete(request);
+        usage.push(completionUsage('agent', response));
+        // Later JSON blocks override earlier ones when the output is parsed
+        output = `${output}\n\n${response.text}`;
+        ({ output: structuredOutput, errors: contractErrors } = validateStructuredOutput(extractStructuredOutput(output, contract), contract));
+      }
+    }
+    const contractResult = contract && contract.outputKeys.length > 0 ? { structuredOutput, contractErrors, repairAttempts } : {};
+
+    // For creative tasks, generate images via DALL-E (only providers with an image model)
+    if (llm.supportsImages && isCreativeTask(scopedContext, agent.name)) {
+      console.log(`[agent-executor] Creative task detected: "${scopedContext?.taskName || agent.name}" — generating images`);
+      try {
+        const themes = await createDallePrompts(llm, output, usage, scopedContext, checkSpend);
+        if (themes.length > 0) {
+          const images = await generateImages(llm, themes, usage, checkSpend);
+          if (images.length > 0) {
+            // Embed image data in the output as a JSON appendix
+            const imagePayload = { response: output, images };
+            const imageBlock = `\n\n---IMAGES---\n${JSON.stringify(imagePayload)}`;
+            return { success: true, output: output + imageBlock, usage, ...contractResult };
           }
-        } catch (imgErr: any) {
-          console.error('[agent-executor] Image generation failed, returning text only:', imgErr.message);
         }
+      } catch (imgErr: any) {
+        if (imgErr instanceof BudgetExceededError) throw imgErr;
+        console.error('[agent-executor] Image generation failed, returning text only:', imgErr.message);
       }
+    }
 
-      return { success: true, output };
-    } catch (error: any) {
-      const status = error?.status || error?.statusCode;
-      const isRetryable = status === 429 || status === 529 || status === 503;
-      if (isRetryable && attempt < maxRetries) {
-        const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-        console.warn(`[agent-executor] ${agent.name} attempt ${attempt}/${maxRetries} failed (${status}) — retrying in ${delay}ms`);
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      console.error(`[agent-executor] Error executing agent ${agent.name}:`, error.message);
-      return { success: false, output: '', error: error.message };
+    return { success: true, output, usage, ...contractResult };
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return { success: false, output: '', error: error.message, usage, budgetExceeded: error };
     }
+    console.error(`[agent-executor] Error executing agent ${agent.name} via ${llm.providerName}/${llm.model}:`, error.message);
+    return { success: false, output: '', error: error.message, usage };
   }
-  return { success: false, output: '', error: 'Max retries exceeded' };
 }
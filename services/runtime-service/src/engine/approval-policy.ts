@@ -0,0 +1,126 @@
+/**
+ * Approval policies — how long a review may take, who it escalates to, and what
+ * happens to the run when nobody decides in time.
+ *
+ * Policies live in the foundation's metadata as `metadata.approvalPolicy`:
+ *   slaMinutes    time to decide, per urgency; sets the request's expires_at
+ *   escalation    chain of assignees (user → role → admin). Entry 0 receives the request,
+ *                 entry N takes over once `afterMinutes` have passed since it was requested
+ *   onTimeout     what the run does when the request expires: approve, reject or fail
+ */
+
+export type ApprovalUrgency = 'low' | 'normal' | 'high' | 'critical';
+export type ApprovalTimeoutAction = 'approve' | 'reject' | 'fail';
+
+export type EscalationTarget =
+  | { type: 'user'; userId: string }
+  | { type: 'role'; role: string }
+  | { type: 'admin' };
+
+export type EscalationLevel = EscalationTarget & { afterMinutes?: number };
+
+export interface ApprovalPolicy {
+  slaMinutes: Record<ApprovalUrgency, number>;
+  escalation: EscalationLevel[];
+  onTimeout: ApprovalTimeoutAction;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  slaMinutes: { low: 7 * 24 * 60, normal: 3 * 24 * 60, high: 24 * 60, critical: 4 * 60 },
+  escalation: [],
+  onTimeout: 'reject',
+};
+
+const URGENCIES: ApprovalUrgency[] = ['low', 'normal', 'high', 'critical'];
+const TIMEOUT_ACTIONS: ApprovalTimeoutAction[] = ['approve', 'reject', 'fail'];
+const MAX_ESCALATION_LEVELS = 10;
+
+/**
+ * Read the effective approval policy from a foundation's metadata column.
+ */
+export function approvalPolicyFromMetadata(metadata: any): ApprovalPolicy {
+  const configured = metadata?.approvalPolicy || {};
+  return {
+    slaMinutes: { ...DEFAULT_APPROVAL_POLICY.slaMinutes, ...configured.slaMinutes },
+    escalation: configured.escalation || DEFAULT_APPROVAL_POLICY.escalation,
+    onTimeout: configured.onTimeout || DEFAULT_APPROVAL_POLICY.onTimeout,
+  };
+}
+
+/**
+ * When a request of the given urgency expires.
+ */
+export function approvalDeadline(policy: ApprovalPolicy, urgency: string, requestedAt: Date): Date {
+  const minutes = policy.slaMinutes[urgency as ApprovalUrgency] ?? policy.slaMinutes.normal;
+  return new Date(requestedAt.getTime() + minutes * 60000);
+}
+
+/**
+ * Escalation level a request should be at: the last chain entry whose `afterMinutes`
+ * have passed since the request was made.
+ */
+export function dueEscalationLevel(policy: ApprovalPolicy, requestedAt: Date, now = new Date()): number {
+  const elapsedMinutes = (now.getTime() - requestedAt.getTime()) / 60000;
+  let level = 0;
+  policy.escalation.forEach((entry, i) => {
+    if (i > 0 && elapsedMinutes >= (entry.afterMinutes || 0)) level = i;
+  });
+  return level;
+}
+
+/**
+ * Status recorded as the request's timeout_outcome for a timeout action.
+ */
+export function timeoutOutcome(action: ApprovalTimeoutAction): 'approved' | 'rejected' | 'failed' {
+  return action === 'approve' ? 'approved' : action === 'reject' ? 'rejected' : 'failed';
+}
+
+/**
+ * Validate a policy from an API request. Returns an error message, or null if valid.
+ */
+export function validateApprovalPolicy(policy: any): string | null {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return 'Policy must be an object';
+  }
+
+  if (policy.slaMinutes !== undefined) {
+    if (!policy.slaMinutes || typeof policy.slaMinutes !== 'object' || Array.isArray(policy.slaMinutes)) {
+      return 'slaMinutes must be an object keyed by urgency';
+    }
+    for (const [urgency, minutes] of Object.entries(policy.slaMinutes)) {
+      if (!URGENCIES.includes(urgency as ApprovalUrgency)) {
+        return `slaMinutes: unknown urgency "${urgency}". Expected: ${URGENCIES.join(', ')}`;
+      }
+      if (!Number.isInteger(minutes) || (minutes as number) < 1) {
+        return `slaMinutes.${urgency} must be a positive integer`;
+      }
+    }
+  }
+
+  if (policy.escalation !== undefined) {
+    if (!Array.isArray(policy.escalation) || policy.escalation.length > MAX_ESCALATION_LEVELS) {
+      return `escalation must be an array of at most ${MAX_ESCALATION_LEVELS} levels`;
+    }
+    let previous = 0;
+    for (const [i, entry] of policy.escalation.entries()) {
+      if (!entry || typeof entry !== 'object') return `escalation[${i}] must be an object`;
+      if (entry.type === 'user') {
+        if (typeof entry.userId !== 'string' || !entry.userId) return `escalation[${i}].userId is required for type 'user'`;
+      } else if (entry.type === 'role') {
+        if (typeof entry.role !== 'string' || !entry.role) return `escalation[${i}].role is required for type 'role'`;
+      } else if (entry.type !== 'admin') {
+        return `escalation[${i}].type must be one of: user, role, admin`;
+      }
+      if (i === 0) continue;
+      if (!Number.isInteger(entry.afterMinutes) || entry.afterMinutes <= previous) {
+        return `escalation[${i}].afterMinutes must be an integer greater than the previous level's`;
+      }
+      previous = entry.afterMinutes;
+    }
+  }
+
+  if (policy.onTimeout !== undefined && !TIMEOUT_ACTIONS.includes(policy.onTimeout)) {
+    return `onTimeout must be one of: ${TIMEOUT_ACTIONS.join(', ')}`;
+  }
+  return null;
+}
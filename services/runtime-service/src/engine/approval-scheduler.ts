@@ -0,0 +1,224 @@
+/**
+ * Approval Scheduler
+ *
+ * Enforces approval policies (see approval-policy.ts) on pending approval requests:
+ * assigns new requests to the first level of the foundation's escalation chain, moves
+ * requests up the chain as they wait, and expires requests past their SLA, handing the
+ * policy's timeout outcome to the paused run. Users with an active out-of-office
+ * delegation (`approval_delegations`) are passed over for their delegate. Every
+ * transition is written to `approval_request_history`.
+ *
+ * Transitions are conditional updates on the request's status and level, so runtime
+ * instances ticking at the same time don't apply one twice.
+ */
+
+import { Pool } from 'pg';
+import {
+  ApprovalPolicy, EscalationTarget,
+  approvalPolicyFromMetadata, approvalDeadline, dueEscalationLevel, timeoutOutcome,
+} from './approval-policy';
+
+const TICK_INTERVAL_MS = Number(process.env.APPROVAL_SCHEDULER_INTERVAL_MS) || 60000;
+const TICK_BATCH_SIZE = 100;
+// Delegations can chain (A → B → C); stop following after this many hops
+const MAX_DELEGATION_HOPS = 5;
+
+export type ApprovalHistoryAction =
+  'requested' | 'assigned' | 'delegated' | 'escalated' | 'voted' | 'expired' | 'approved' | 'rejected' | 'cancelled';
+
+interface Assignment {
+  assignedTo: string | null;
+  assignedRole: string | null;
+  // The out-of-office user the request was meant for
+  delegatedFrom: string | null;
+}
+
+export class ApprovalScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * `onExpired` applies an expired request's timeout outcome to the run waiting on it.
+   */
+  constructor(
+    private pool: Pool,
+    private onExpired: (approvalId: string, tenantId: string) => Promise<boolean>
+  ) {}
+
+  start(intervalMs = TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error('[approval-scheduler] Tick failed:', err.message));
+    }, intervalMs);
+    this.timer.unref();
+    console.log(`[approval-scheduler] Checking approval SLAs every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Set the deadline and first assignee of a request raised by a run.
+   * Failures are logged; the request stays pending and unassigned.
+   */
+  async onRequested(approval: any, policy: ApprovalPolicy): Promise<void> {
+    try {
+      const expiresAt = approval.expires_at || approvalDeadline(policy, approval.urgency, new Date(approval.requested_at || Date.now()));
+      const first = policy.escalation[0];
+      const assignment = first ? await this.resolve(approval.tenant_id, first) : { assignedTo: null, assignedRole: null, delegatedFrom: null };
+      await this.pool.query(
+        `UPDATE approval_requests
+         SET expires_at = $2, assigned_to = $3, assigned_role = $4, delegated_from = $5, updated_at = NOW()
+         WHERE id = $1`,
+        [approval.id, expiresAt, assignment.assignedTo, assignment.assignedRole, assignment.delegatedFrom]
+      );
+      approval.expires_at = expiresAt;
+      await this.record(approval, 'requested', assignment, { urgency: approval.urgency, expiresAt });
+      if (assignment.delegatedFrom) {
+        await this.record(approval, 'delegated', assignment, { from: assignment.delegatedFrom, reason: 'out_of_office' });
+      }
+    } catch (err: any) {
+      console.error(`[approval-scheduler] Failed to assign approval ${approval.id}:`, err.message);
+    }
+  }
+
+  /**
+   * One pass: expire overdue requests, then escalate the rest.
+   */
+  async tick(): Promise<{ expired: number; escalated: number }> {
+    const summary = { expired: 0, escalated: 0 };
+    if (this.ticking) return summary;
+    this.ticking = true;
+    try {
+      summary.expired = await this.expireOverdue();
+      summary.escalated = await this.escalateWaiting();
+      if (summary.expired || summary.escalated) {
+        console.log(`[approval-scheduler] Expired ${summary.expired}, escalated ${summary.escalated} approval requests`);
+      }
+    } finally {
+      this.ticking = false;
+    }
+    return summary;
+  }
+
+  private async expireOverdue(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT a.*, f.metadata AS foundation_metadata
+       FROM approval_requests a LEFT JOIN foundations f ON f.id = a.foundation_id
+       WHERE a.status = 'pending' AND a.expires_at <= NOW()
+       ORDER BY a.expires_at ASC
+       LIMIT $1`,
+      [TICK_BATCH_SIZE]
+    );
+
+    let expired = 0;
+    for (const approval of result.rows) {
+      const policy = approvalPolicyFromMetadata(approval.foundation_metadata);
+      const outcome = timeoutOutcome(policy.onTimeout);
+      const updated = await this.pool.query(
+        `UPDATE approval_requests
+         SET status = 'expired', timeout_outcome = $2, decided_by_name = 'system', decided_at = NOW(),
+             decision_comment = $3, updated_at = NOW()
+         WHERE id = $1 AND status = 'pending'
+         RETURNING id`,
+        [approval.id, outcome, `No decision before ${new Date(approval.expires_at).toISOString()}; applied ${policy.onTimeout}`]
+      );
+      if (updated.rows.length === 0) continue;
+      expired++;
+      await this.record(approval, 'expired', this.current(approval), {
+        expiresAt: approval.expires_at, onTimeout: policy.onTimeout, outcome,
+      });
+
+      if (approval.flow_instance_id) {
+        try {
+          await this.onExpired(approval.id, approval.tenant_id);
+        } catch (err: any) {
+          console.error(`[approval-scheduler] Failed to apply timeout of approval ${approval.id} to run ${approval.flow_instance_id}:`, err.message);
+        }
+      }
+    }
+    return expired;
+  }
+
+  private async escalateWaiting(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT a.*, f.metadata AS foundation_metadata
+       FROM approval_requests a JOIN foundations f ON f.id = a.foundation_id
+       WHERE a.status = 'pending'
+         AND jsonb_array_length(COALESCE(f.metadata->'approvalPolicy'->'escalation', '[]'::jsonb)) > a.escalation_level + 1
+       ORDER BY a.requested_at ASC
+       LIMIT $1`,
+      [TICK_BATCH_SIZE]
+    );
+
+    let escalated = 0;
+    for (const approval of result.rows) {
+      const policy = approvalPolicyFromMetadata(approval.foundation_metadata);
+      const level = dueEscalationLevel(policy, new Date(approval.requested_at));
+      if (level <= approval.escalation_level) continue;
+
+      const target = policy.escalation[level];
+      const assignment = await this.resolve(approval.tenant_id, target);
+      const updated = await this.pool.query(
+        `UPDATE approval_requests
+         SET escalation_level = $2, assigned_to = $3, assigned_role = $4, delegated_from = $5,
+             escalated_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND status = 'pending' AND escalation_level < $2
+         RETURNING id`,
+        [approval.id, level, assignment.assignedTo, assignment.assignedRole, assignment.delegatedFrom]
+      );
+      if (updated.rows.length === 0) continue;
+      escalated++;
+      await this.record(approval, 'escalated', assignment, {
+        fromLevel: approval.escalation_level, toLevel: level, target, previous: this.current(approval),
+      });
+      if (assignment.delegatedFrom) {
+        await this.record(approval, 'delegated', assignment, { from: assignment.delegatedFrom, reason: 'out_of_office' });
+      }
+    }
+    return escalated;
+  }
+
+  private async resolve(tenantId: string, target: EscalationTarget): Promise<Assignment> {
+    if (target.type === 'role') return { assignedTo: null, assignedRole: target.role, delegatedFrom: null };
+    if (target.type === 'admin') return { assignedTo: null, assignedRole: 'admin', delegatedFrom: null };
+    const delegate = await this.delegateFor(tenantId, target.userId);
+    return { assignedTo: delegate || target.userId, assignedRole: null, delegatedFrom: delegate ? target.userId : null };
+  }
+
+  /**
+   * The user currently covering for `userId`, following chained delegations; null when
+   * the user is not out of office.
+   */
+  private async delegateFor(tenantId: string, userId: string): Promise<string | null> {
+    const seen = new Set([userId]);
+    let current = userId;
+    for (let hop = 0; hop < MAX_DELEGATION_HOPS; hop++) {
+      const result = await this.pool.query(
+        `SELECT delegate_id FROM approval_delegations
+         WHERE tenant_id = $1 AND user_id = $2 AND starts_at <= NOW() AND ends_at > NOW()
+         ORDER BY created_at DESC LIMIT 1`,
+        [tenantId, current]
+      );
+      const next = result.rows[0]?.delegate_id;
+      if (!next || seen.has(next)) break;
+      seen.add(next);
+      current = next;
+    }
+    return current === userId ? null : current;
+  }
+
+  private current(approval: any): Assignment {
+    return { assignedTo: approval.assigned_to || null, assignedRole: approval.assigned_role || null, delegatedFrom: approval.delegated_from || null };
+  }
+
+  private async record(approval: any, action: ApprovalHistoryAction, assignment: Assignment, details: Record<string, any>): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO approval_request_history (approval_id, tenant_id, action, actor, assigned_to, assigned_role, details)
+       VALUES ($1, $2, $3, 'system', $4, $5, $6)`,
+      [approval.id, approval.tenant_id, action, assignment.assignedTo, assignment.assignedRole, JSON.stringify(details)]
+    );
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Static BPMN checks run before a foundation is deployed (and by the wizard after it
+ * generates a BPMN), so problems that would otherwise surface mid-run are reported up
+ * front:
+ *
+ * - Errors block deploy: tasks of the executable process that no agent runs, message
+ *   flows and participants that point at missing elements or processes, decision
+ *   gateways with a single outgoing flow, nodes that can't be reached from a start event.
+ * - Warnings don't: participants named after no agent, agent tasks without a data
+ *   contract, dead ends, gateway flows the router has nothing to decide on.
+ *
+ * The checks read the BPMN the way FlowRunner does (bpmn: prefixed elements). Which
+ * process runs and which agent runs each task come from the runner itself
+ * (FlowRunner.validateBpmn), so the validator can't disagree with it.
+ */
+
+export interface BpmnIssue {
+  code: string;
+  message: string;
+  elementId?: string;
+}
+
+export interface BpmnValidationResult {
+  valid: boolean;
+  errors: BpmnIssue[];
+  warnings: BpmnIssue[];
+}
+
+export interface BpmnValidationContext {
+  // Names of the agents that can run tasks
+  agentNames: string[];
+  // Agent name of every task the runner mapped, by task ID
+  taskAgents: Record<string, string>;
+  // Process the runner would execute; null when it found none
+  processId: string | null;
+  orchestratorName?: string;
+  // Data contracts the runner parsed, by task ID
+  contractTaskIds: Set<string>;
+}
+
+interface FlowNode {
+  id: string;
+  name: string;
+  type: string;
+  attrs: string;
+}
+
+interface SequenceFlow {
+  id: string;
+  name: string;
+  sourceRef: string;
+  targetRef: string;
+  condition?: string;
+}
+
+const FLOW_NODE_TYPES = [
+  'task', 'serviceTask', 'userTask', 'sendTask', 'receiveTask', 'manualTask', 'scriptTask', 'businessRuleTask',
+  'callActivity', 'subProcess',
+  'startEvent', 'endEvent', 'intermediateCatchEvent', 'intermediateThrowEvent', 'boundaryEvent',
+  'exclusiveGateway', 'inclusiveGateway', 'parallelGateway', 'eventBasedGateway', 'complexGateway',
+];
+
+// Task types FlowRunner hands to an agent
+const AGENT_TASK_TYPES = new Set(['serviceTask', 'task', 'sendTask']);
+
+// Gateways that pick a path; with a single outgoing flow there is nothing to pick
+const DECISION_GATEWAY_TYPES = new Set(['exclusiveGateway', 'inclusiveGateway']);
+
+// Same rule FlowRunner uses to find the human pools of a collaboration
+const HUMAN_PARTICIPANT = /human|reviewer|approver|stakeholder|client|manager/i;
+
+function attribute(attrs: string, name: string): string | undefined {
+  return attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+function label(node: FlowNode): string {
+  return node.name ? `"${node.name}" (${node.id})` : node.id;
+}
+
+/**
+ * Whether a participant or lane name matches an agent the way FlowRunner matches them:
+ * case-insensitive, with or without an " Agent" suffix.
+ */
+function matchesAgentName(name: string, agentNames: string[]): boolean {
+  const short = (value: string) => value.replace(/\s+agent$/i, '').toLowerCase();
+  return agentNames.some(agentName => agentName.toLowerCase() === name.toLowerCase() || short(agentName) === short(name));
+}
+
+function parseFlowNodes(xml: string): FlowNode[] {
+  const nodes: FlowNode[] = [];
+  const nodeRegex = new RegExp(`<bpmn:(${FLOW_NODE_TYPES.join('|')})\\b([^>]*?)\\/?>`, 'g');
+  let m;
+  while ((m = nodeRegex.exec(xml)) !== null) {
+    const id = attribute(m[2], 'id');
+    if (id) nodes.push({ id, name: attribute(m[2], 'name') || '', type: m[1], attrs: m[2] });
+  }
+  return nodes;
+}
+
+function parseSequenceFlows(xml: string): SequenceFlow[] {
+  const flows: SequenceFlow[] = [];
+  const flowRegex = /<bpmn:sequenceFlow\b([^>]*?)(?:\/>|>([\s\S]*?)<\/bpmn:sequenceFlow>)/g;
+  let m;
+  while ((m = flowRegex.exec(xml)) !== null) {
+    const condition = m[2]?.match(/<bpmn:conditionExpression[^>]*>([\s\S]*?)<\/bpmn:conditionExpression>/)?.[1].trim();
+    flows.push({
+      id: attribute(m[1], 'id') || '',
+      name: attribute(m[1], 'name') || '',
+      sourceRef: attribute(m[1], 'sourceRef') || '',
+      targetRef: attribute(m[1], 'targetRef') || '',
+      condition: condition || undefined,
+    });
+  }
+  return flows;
+}
+
+/**
+ * Check a BPMN document. `context` says which process the runner would execute and
+ * which agent it would give each task.
+ */
+export function validateBpmn(bpmnXml: string, context: BpmnValidationContext): BpmnValidationResult {
+  const errors: BpmnIssue[] = [];
+  const warnings: BpmnIssue[] = [];
+  const error = (code: string, message: string, elementId?: string) => errors.push({ code, message, elementId });
+  const warning = (code: string, message: string, elementId?: string) => warnings.push({ code, message, elementId });
+
+  if (!/<bpmn:definitions\b/.test(bpmnXml)) {
+    error('not_bpmn', 'Not a BPMN document: no <bpmn:definitions> element (elements must use the bpmn: prefix)');
+    return { valid: false, errors, warnings };
+  }
+
+  // Element IDs across the whole document
+  const ids = new Map<string, number>();
+  const idRegex = /<bpmn:\w+\b[^>]*?\bid="([^"]+)"/g;
+  let m;
+  while ((m = idRegex.exec(bpmnXml)) !== null) {
+    ids.set(m[1], (ids.get(m[1]) || 0) + 1);
+  }
+  for (const [id, count] of ids) {
+    if (count > 1) error('duplicate_id', `ID "${id}" is used by ${count} elements`, id);
+  }
+
+  const processes = new Map<string, string>();
+  const processRegex = /<bpmn:process\s+id="([^"]+)"[^>]*>([\s\S]*?)<\/bpmn:process>/g;
+  while ((m = processRegex.exec(bpmnXml)) !== null) {
+    processes.set(m[1], m[2]);
+  }
+  const selfClosingProcessRegex = /<bpmn:process\s+id="([^"]+)"[^>]*\/>/g;
+  while ((m = selfClosingProcessRegex.exec(bpmnXml)) !== null) {
+    processes.set(m[1], '');
+  }
+
+  // Participants: their process must exist, and a pool of agent tasks should be named after an agent
+  const participantRegex = /<bpmn:participant\b([^>]*?)\/?>/g;
+  let orchestratorParticipant = false;
+  while ((m = participantRegex.exec(bpmnXml)) !== null) {
+    const id = attribute(m[1], 'id') || '';
+    const name = attribute(m[1], 'name') || '';
+    const processRef = attribute(m[1], 'processRef');
+    if (!processRef) continue;
+    if (context.orchestratorName && matchesAgentName(name, [context.orchestratorName])) orchestratorParticipant = true;
+
+    const processBody = processes.get(processRef);
+    if (processBody === undefined) {
+      error('missing_process', `Participant "${name || id}" refers to process ${processRef}, which does not exist`, id);
+      continue;
+    }
+    if (HUMAN_PARTICIPANT.test(name) || matchesAgentName(name, context.agentNames)) continue;
+    const unmappedTasks = parseFlowNodes(processBody)
+      .filter(node => AGENT_TASK_TYPES.has(node.type) && !context.taskAgents[node.id]);
+    if (unmappedTasks.length) {
+      warning('unmatched_participant',
+        `Participant "${name}" matches no agent, so ${unmappedTasks.length} of its task(s) have no agent. Name it after an agent (with or without "Agent").`, id);
+    }
+  }
+  if (context.orchestratorName && !orchestratorParticipant && context.processId) {
+    warning('orchestrator_participant_missing',
+      `No participant is named after the orchestrator "${context.orchestratorName}"; the runner falls back to process ${context.processId}`);
+  }
+
+  // Message flows must connect elements that exist
+  const messageFlowRegex = /<bpmn:messageFlow\b([^>]*?)\/?>/g;
+  while ((m = messageFlowRegex.exec(bpmnXml)) !== null) {
+    const id = attribute(m[1], 'id') || '';
+    for (const ref of ['sourceRef', 'targetRef']) {
+      const target = attribute(m[1], ref);
+      if (!target || !ids.has(target)) {
+        error('missing_message_flow_ref', `Message flow ${id} has ${ref} "${target || ''}", which does not exist`, id);
+      }
+    }
+  }
+
+  if (!context.processId || processes.get(context.processId) === undefined) {
+    error('no_executable_process', 'No process to execute: the BPMN has no orchestrator or other non-human process');
+    return { valid: false, errors, warnings };
+  }
+
+  // The executable process
+  const processBody = processes.get(context.processId)!;
+  const nodes = parseFlowNodes(processBody);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const flows = parseSequenceFlows(processBody);
+  const outgoing = new Map<string, SequenceFlow[]>();
+  const incoming = new Map<string, SequenceFlow[]>();
+  for (const flow of flows) {
+    if (!nodesById.has(flow.sourceRef) || !nodesById.has(flow.targetRef)) {
+      error('missing_sequence_flow_ref', `Sequence flow ${flow.id} connects ${flow.sourceRef || '?'} → ${flow.targetRef || '?'}, which is not a node of the process`, flow.id);
+      continue;
+    }
+    outgoing.set(flow.sourceRef, [...(outgoing.get(flow.sourceRef) || []), flow]);
+    incoming.set(flow.targetRef, [...(incoming.get(flow.targetRef) || []), flow]);
+  }
+
+  // Nodes inside a subprocess, by subprocess ID
+  const children = new Map<string, FlowNode[]>();
+  const parentOf = new Map<string, string>();
+  const subProcessRegex = /<bpmn:subProcess\s+([^>]*?)(?<!\/)>([\s\S]*?)<\/bpmn:subProcess>/g;
+  while ((m = subProcessRegex.exec(processBody)) !== null) {
+    const subProcessId = attribute(m[1], 'id');
+    if (!subProcessId) continue;
+    const inner = parseFlowNodes(m[2]);
+    children.set(subProcessId, inner);
+    inner.forEach(node => parentOf.set(node.id, subProcessId));
+  }
+
+  // Reachability from the start events. Entering a subprocess reaches its start events
+  // (or, without any, its nodes with no incoming flow); boundary events are reached with
+  // the activity they are attached to. Event subprocesses are started by their trigger.
+  const reached = new Set<string>();
+  const visit = (id: string) => {
+    if (reached.has(id)) return;
+    reached.add(id);
+    for (const flow of outgoing.get(id) || []) visit(flow.targetRef);
+    const inner = children.get(id) || [];
+    const innerStarts = inner.filter(node => node.type === 'startEvent');
+    (innerStarts.length ? innerStarts : inner.filter(node => !incoming.has(node.id) && node.type !== 'boundaryEvent'))
+      .forEach(node => visit(node.id));
+    for (const node of nodes) {
+      if (node.type === 'boundaryEvent' && attribute(node.attrs, 'attachedToRef') === id) visit(node.id);
+    }
+  };
+  const startEvents = nodes.filter(node => node.type === 'startEvent' && !parentOf.has(node.id));
+  if (!startEvents.length) error('no_start_event', `Process ${context.processId} has no start event`);
+  if (!nodes.some(node => node.type === 'endEvent')) warning('no_end_event', `Process ${context.processId} has no end event`);
+
+  startEvents.forEach(node => visit(node.id));
+  nodes.filter(node => node.type === 'subProcess' && /\btriggeredByEvent="true"/.test(node.attrs)).forEach(node => visit(node.id));
+  if (startEvents.length) {
+    for (const node of nodes) {
+      if (!reached.has(node.id)) error('unreachable_node', `${label(node)} can't be reached from a start event`, node.id);
+    }
+  }
+
+  for (const node of nodes) {
+    const out = outgoing.get(node.id) || [];
+    const inCount = (incoming.get(node.id) || []).length;
+
+    if (node.type.endsWith('Gateway')) {
+      if (!out.length) {
+        error('gateway_without_outgoing', `Gateway ${label(node)} has no outgoing flow`, node.id);
+      } else if (out.length === 1 && inCount <= 1) {
+        const message = `Gateway ${label(node)} has only one outgoing flow`;
+        if (DECISION_GATEWAY_TYPES.has(node.type)) error('single_outgoing_gateway', `${message}; there is no path to decide between`, node.id);
+        else warning('single_outgoing_gateway', message, node.id);
+      }
+      if (node.type === 'exclusiveGateway' && out.length > 1) {
+        const defaultFlow = attribute(node.attrs, 'default');
+        for (const flow of out) {
+          if (!flow.condition && !flow.name && flow.id !== defaultFlow) {
+            warning('unlabelled_gateway_flow', `Flow ${flow.id} out of gateway ${label(node)} has no condition or name to route on`, flow.id);
+          }
+        }
+      }
+    } else if (node.type !== 'endEvent' && !out.length && !parentOf.has(node.id) && !/\btriggeredByEvent="true"/.test(node.attrs)) {
+      // Inside a subprocess a node without outgoing flow simply completes the subprocess
+      warning('dead_end', `${label(node)} has no outgoing flow; the path ends without an end event`, node.id);
+    }
+
+    if (AGENT_TASK_TYPES.has(node.type)) {
+      if (!context.taskAgents[node.id]) {
+        error('unmapped_task',
+          `Task ${label(node)} has no agent: its participant or lane is not named after one of the foundation's agents`, node.id);
+      } else if (!context.contractTaskIds.has(node.id)) {
+        warning('missing_data_contract',
+          `Task ${label(node)} has no data contract (Input/Output in its documentation), so it gets the whole flow state`, node.id);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
@@ -0,0 +1,303 @@
+/**
+ * Run Budgets
+ *
+ * Spend guardrails configured per tenant and per foundation (`run_budgets`). When both
+ * set the same limit, the stricter one applies. Limits:
+ *
+ *   maxTokensPerRun     prompt + completion tokens used by one run
+ *   maxCostPerRunUsd    estimated LLM cost of one run
+ *   maxWallClockSeconds active time of one run (time paused for approval is excluded)
+ *   maxConcurrentRuns   runs executing at once (paused runs don't count)
+ *   maxMonthlyCostUsd   estimated LLM cost in the current calendar month
+ *
+ * Checked when a run starts (admitRun) and before every provider call a run makes (checkRun);
+ * the wall-clock limit also when the run's active time is due to run out (wallClockRemaining),
+ * so runs stuck in a tool call or a loop of non-LLM steps are stopped too. A breach raises
+ * BudgetExceededError; at start the run is refused, mid-run the run is failed.
+ *
+ * Limits that can't be read fail closed: the last limits read are used, and with none a new
+ * run is refused (BudgetUnavailableError).
+ *
+ * Admission counts running runs and inserts the new one in one transaction, under a
+ * per-tenant advisory lock, so concurrent starts can't all pass the concurrency check.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { LLMCallUsage } from '../providers';
+
+export interface RunBudget {
+  maxTokensPerRun?: number | null;
+  maxCostPerRunUsd?: number | null;
+  maxWallClockSeconds?: number | null;
+  maxConcurrentRuns?: number | null;
+  maxMonthlyCostUsd?: number | null;
+}
+
+export type BudgetLimit = keyof RunBudget;
+export type BudgetScope = 'tenant' | 'foundation';
+
+export const BUDGET_LIMITS: BudgetLimit[] = [
+  'maxTokensPerRun', 'maxCostPerRunUsd', 'maxWallClockSeconds', 'maxConcurrentRuns', 'maxMonthlyCostUsd',
+];
+
+const LIMIT_LABELS: Record<BudgetLimit, string> = {
+  maxTokensPerRun: 'max tokens per run',
+  maxCostPerRunUsd: 'max cost per run (USD)',
+  maxWallClockSeconds: 'max wall-clock seconds per run',
+  maxConcurrentRuns: 'max concurrent runs',
+  maxMonthlyCostUsd: 'max monthly cost (USD)',
+};
+
+const COLUMNS: Record<BudgetLimit, string> = {
+  maxTokensPerRun: 'max_tokens_per_run',
+  maxCostPerRunUsd: 'max_cost_per_run_usd',
+  maxWallClockSeconds: 'max_wall_clock_seconds',
+  maxConcurrentRuns: 'max_concurrent_runs',
+  maxMonthlyCostUsd: 'max_monthly_cost_usd',
+};
+
+const BUDGET_CACHE_TTL_MS = 30000;
+// Active seconds of a run, less the time it has spent paused so far and is paused now
+const ACTIVE_SECONDS = `EXTRACT(EPOCH FROM (NOW() - started_at)) - COALESCE(paused_ms, 0) / 1000.0
+              - COALESCE(EXTRACT(EPOCH FROM (NOW() - paused_at)), 0)`;
+const ADMISSION_LOCK = 'flowgrid:run-admission';
+
+export class BudgetExceededError extends Error {
+  code = 'budget_exceeded';
+
+  constructor(
+    public limit: BudgetLimit,
+    public scope: BudgetScope,
+    public limitValue: number,
+    public actual: number
+  ) {
+    super(`Budget exceeded: ${scope} ${LIMIT_LABELS[limit]} is ${limitValue} (reached ${Math.round(actual * 1e4) / 1e4})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class BudgetUnavailableError extends Error {
+  code = 'budget_unavailable';
+
+  constructor(cause: string) {
+    super(`Run budgets could not be read: ${cause}`);
+    this.name = 'BudgetUnavailableError';
+  }
+}
+
+/**
+ * Validate a budget body from the API. Limits must be positive numbers or null (unset).
+ * Returns an error message, or null when valid.
+ */
+export function validateBudget(body: any): string | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Budget must be an object';
+  for (const key of Object.keys(body)) {
+    if (!BUDGET_LIMITS.includes(key as BudgetLimit)) {
+      return `Unknown limit "${key}". Expected: ${BUDGET_LIMITS.join(', ')}`;
+    }
+    const value = body[key];
+    if (value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return `${key} must be a positive number or null`;
+    }
+    if (['maxTokensPerRun', 'maxWallClockSeconds', 'maxConcurrentRuns'].includes(key) && !Number.isInteger(value)) {
+      return `${key} must be an integer`;
+    }
+  }
+  return null;
+}
+
+export function budgetFromRow(row: any): RunBudget {
+  const budget: RunBudget = {};
+  for (const limit of BUDGET_LIMITS) {
+    const value = row?.[COLUMNS[limit]];
+    budget[limit] = value === null || value === undefined ? null : Number(value);
+  }
+  return budget;
+}
+
+export function budgetColumns(): string[] {
+  return BUDGET_LIMITS.map(limit => COLUMNS[limit]);
+}
+
+export class BudgetGuard {
+  private cache = new Map<string, { expiresAt: number; budgets: Record<BudgetScope, RunBudget> }>();
+
+  constructor(private pool: Pool) {}
+
+  /**
+   * Start a run unless the tenant or foundation is at its concurrency or monthly limit.
+   * `create` inserts the run on the given connection, inside the admission transaction.
+   */
+  async admitRun<T>(tenantId: string, foundationId: string, create: (db: PoolClient) => Promise<T>): Promise<T> {
+    const budgets = await this.load(tenantId, foundationId);
+    await this.checkMonthly(tenantId, foundationId, budgets);
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      if (budgets.tenant.maxConcurrentRuns || budgets.foundation.maxConcurrentRuns) {
+        // Held until commit, so the next start of this tenant counts the run inserted here
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${ADMISSION_LOCK}:${tenantId}`]);
+      }
+      for (const scope of ['tenant', 'foundation'] as BudgetScope[]) {
+        const limit = budgets[scope].maxConcurrentRuns;
+        if (!limit) continue;
+        const params = scope === 'tenant' ? [tenantId] : [tenantId, foundationId];
+        const result = await client.query(
+          `SELECT COUNT(*)::int AS count FROM flow_runs
+           WHERE tenant_id = $1 AND status = 'running'${scope === 'foundation' ? ' AND foundation_id = $2' : ''}`,
+          params
+        );
+        if (result.rows[0].count >= limit) {
+          throw new BudgetExceededError('maxConcurrentRuns', scope, limit, result.rows[0].count);
+        }
+      }
+      const created = await create(client);
+      await client.query('COMMIT');
+      return created;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Check a running run against its per-run limits and the monthly caps before a provider
+   * call. `pending` are calls the current step has made but not yet recorded.
+   */
+  async checkRun(runId: string, tenantId: string, foundationId: string, pending: LLMCallUsage[] = []): Promise<void> {
+    const budgets = await this.load(tenantId, foundationId);
+    const effective = this.effective(budgets);
+    if (!effective.maxTokensPerRun && !effective.maxCostPerRunUsd && !effective.maxWallClockSeconds
+        && !budgets.tenant.maxMonthlyCostUsd && !budgets.foundation.maxMonthlyCostUsd) {
+      return;
+    }
+
+    const result = await this.pool.query(
+      `SELECT COALESCE(prompt_tokens, 0) + COALESCE(completion_tokens, 0) AS tokens,
+              COALESCE(cost_usd, 0)::float AS cost,
+              ${ACTIVE_SECONDS} AS active_seconds
+       FROM flow_runs WHERE id = $1`,
+      [runId]
+    );
+    const run = result.rows[0];
+    const pendingTokens = pending.reduce((sum, call) => sum + call.promptTokens + call.completionTokens, 0);
+    const pendingCost = pending.reduce((sum, call) => sum + (call.costUsd || 0), 0);
+    if (run) {
+      const usage: Partial<Record<BudgetLimit, number>> = {
+        maxTokensPerRun: Number(run.tokens) + pendingTokens,
+        maxCostPerRunUsd: Number(run.cost) + pendingCost,
+        maxWallClockSeconds: Number(run.active_seconds),
+      };
+      for (const limit of ['maxTokensPerRun', 'maxCostPerRunUsd', 'maxWallClockSeconds'] as BudgetLimit[]) {
+        const entry = effective[limit];
+        if (entry && usage[limit]! >= entry.value) {
+          throw new BudgetExceededError(limit, entry.scope, entry.value, usage[limit]!);
+        }
+      }
+    }
+
+    await this.checkMonthly(tenantId, foundationId, budgets, pendingCost);
+  }
+
+  /**
+   * Active seconds a run has left under its wall-clock limit, or null when none applies.
+   * Throws BudgetExceededError once the limit is reached.
+   */
+  async wallClockRemaining(runId: string, tenantId: string, foundationId: string): Promise<number | null> {
+    const entry = this.effective(await this.load(tenantId, foundationId)).maxWallClockSeconds;
+    if (!entry) return null;
+
+    const result = await this.pool.query(`SELECT ${ACTIVE_SECONDS} AS active_seconds FROM flow_runs WHERE id = $1`, [runId]);
+    if (!result.rows[0]) return null;
+    const active = Number(result.rows[0].active_seconds);
+    if (active >= entry.value) {
+      throw new BudgetExceededError('maxWallClockSeconds', entry.scope, entry.value, active);
+    }
+    return entry.value - active;
+  }
+
+  /**
+   * Current month's spend and running runs, for the budget API.
+   */
+  async currentUsage(tenantId: string): Promise<{ monthlyCostUsd: number; runningRuns: number }> {
+    const [cost, running] = await Promise.all([
+      this.pool.query(
+        `SELECT COALESCE(SUM(cost_usd), 0)::float AS cost FROM llm_usage
+         WHERE tenant_id = $1 AND created_at >= DATE_TRUNC('month', NOW())`,
+        [tenantId]
+      ),
+      this.pool.query(`SELECT COUNT(*)::int AS count FROM flow_runs WHERE tenant_id = $1 AND status = 'running'`, [tenantId]),
+    ]);
+    return { monthlyCostUsd: cost.rows[0].cost, runningRuns: running.rows[0].count };
+  }
+
+  invalidate(tenantId: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${tenantId}:`)) this.cache.delete(key);
+    }
+  }
+
+  private async checkMonthly(tenantId: string, foundationId: string, budgets: Record<BudgetScope, RunBudget>, pendingCost = 0): Promise<void> {
+    for (const scope of ['tenant', 'foundation'] as BudgetScope[]) {
+      const limit = budgets[scope].maxMonthlyCostUsd;
+      if (!limit) continue;
+      const params = scope === 'tenant' ? [tenantId] : [tenantId, foundationId];
+      const result = await this.pool.query(
+        `SELECT COALESCE(SUM(cost_usd), 0)::float AS cost FROM llm_usage
+         WHERE tenant_id = $1 AND created_at >= DATE_TRUNC('month', NOW())${scope === 'foundation' ? ' AND foundation_id = $2' : ''}`,
+        params
+      );
+      const cost = result.rows[0].cost + pendingCost;
+      if (cost >= limit) {
+        throw new BudgetExceededError('maxMonthlyCostUsd', scope, limit, cost);
+      }
+    }
+  }
+
+  /**
+   * Stricter of the tenant and foundation value for each per-run limit.
+   */
+  private effective(budgets: Record<BudgetScope, RunBudget>): Partial<Record<BudgetLimit, { value: number; scope: BudgetScope }>> {
+    const result: Partial<Record<BudgetLimit, { value: number; scope: BudgetScope }>> = {};
+    for (const limit of BUDGET_LIMITS) {
+      for (const scope of ['tenant', 'foundation'] as BudgetScope[]) {
+        const value = budgets[scope][limit];
+        if (value && (!result[limit] || value < result[limit]!.value)) {
+          result[limit] = { value, scope };
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Budgets of a tenant and foundation, cached briefly. When they can't be read the last ones
+   * read are kept in force; with none, BudgetUnavailableError.
+   */
+  private async load(tenantId: string, foundationId: string): Promise<Record<BudgetScope, RunBudget>> {
+    const key = `${tenantId}:${foundationId}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.budgets;
+
+    const budgets: Record<BudgetScope, RunBudget> = { tenant: {}, foundation: {} };
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM run_budgets WHERE tenant_id = $1 AND (foundation_id IS NULL OR foundation_id = $2)`,
+        [tenantId, foundationId]
+      );
+      for (const row of result.rows) {
+        budgets[row.foundation_id ? 'foundation' : 'tenant'] = budgetFromRow(row);
+      }
+    } catch (err: any) {
+      if (!cached) throw new BudgetUnavailableError(err.message);
+      console.error('[budgets] Failed to load run budgets, enforcing the last ones read:', err.message);
+      return cached.budgets;
+    }
+    this.cache.set(key, { expiresAt: Date.now() + BUDGET_CACHE_TTL_MS, budgets });
+    return budgets;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Contract Schemas
+ *
+ * Compiles the field lists in task documentation into JSON Schema and validates data
+ * against it. Syntax (inside `Input: { ... }` / `Output: { ... }`):
+ *
+ *   name: string               required field
+ *   name?: number              optional field
+ *   tags: string[]             array of strings (also `array<string>`)
+ *   budget: { amount: number, currency?: string }   nested object
+ *   status: "approved" | "rejected"                 enum
+ *
+ * Types: string, number, integer, boolean, object, array, any. Common synonyms (text,
+ * list, int, float, bool, date, ...) map onto these; unknown type names accept any value.
+ * String synonyms that say what the text is (date, email, url, file, ...) are kept as `format`.
+ * Only the schema subset produced here is validated: type, properties, required, items, enum.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: any[];
+  format?: string;
+  description?: string;
+  // Presentation only (human task forms)
+  title?: string;
+  default?: any;
+}
+
+export interface ContractViolation {
+  // JSON-pointer-like path, e.g. "budget.amount" or "tags[2]"
+  path: string;
+  code: 'missing' | 'type' | 'enum';
+  message: string;
+}
+
+const TYPE_ALIASES: Record<string, JsonSchemaType | null> = {
+  string: 'string', text: 'string', str: 'string', date: 'string', datetime: 'string',
+  email: 'string', url: 'string', uri: 'string', id: 'string', uuid: 'string', markdown: 'string', file: 'string',
+  number: 'number', float: 'number', double: 'number', decimal: 'number',
+  integer: 'integer', int: 'integer',
+  boolean: 'boolean', bool: 'boolean',
+  object: 'object', map: 'object', json: 'object', record: 'object',
+  array: 'array', list: 'array',
+  any: null, unknown: null,
+};
+
+// String aliases kept as the schema's `format` (`file`: a URL or document ID of an uploaded file)
+const STRING_FORMATS: Record<string, string> = {
+  date: 'date', datetime: 'date-time', email: 'email', url: 'uri', uri: 'uri', uuid: 'uuid', markdown: 'markdown', file: 'file',
+};
+
+export class ContractSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ContractSyntaxError';
+  }
+}
+
+/**
+ * Extract the balanced `{ ... }` following `label:` in a documentation block.
+ */
+export function extractFieldBlock(doc: string, label: string): string | null {
+  const match = new RegExp(`${label}:\\s*\\{`, 'i').exec(doc);
+  if (!match) return null;
+  const start = match.index + match[0].length - 1;
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < doc.length; i++) {
+    const ch = doc[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return doc.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Compile a `{ name: type, ... }` field block to an object schema.
+ */
+export function compileFieldBlock(block: string): JsonSchema {
+  const parser = new FieldParser(block);
+  const schema = parser.parseObject();
+  parser.expectEnd();
+  return schema;
+}
+
+/**
+ * Validate a value against a schema. Scalars given as strings are coerced in place
+ * where unambiguous ("42" → 42, "true" → true) before checking.
+ */
+export function validateAgainstSchema(value: any, schema: JsonSchema, path = ''): { value: any; errors: ContractViolation[] } {
+  const errors: ContractViolation[] = [];
+  const coerced = coerce(value, schema);
+  const label = path || 'value';
+
+  if (schema.type && !matchesType(coerced, schema.type)) {
+    errors.push({ path: label, code: 'type', message: `${label} must be ${article(schema.type)}, got ${describe(coerced)}` });
+    return { value: coerced, errors };
+  }
+  if (schema.enum && !schema.enum.includes(coerced)) {
+    errors.push({ path: label, code: 'enum', message: `${label} must be one of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    for (const key of schema.required || []) {
+      if (coerced[key] === undefined || coerced[key] === null) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        errors.push({ path: fieldPath, code: 'missing', message: `${fieldPath} is required` });
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties)) {
+      if (coerced[key] === undefined || coerced[key] === null) continue;
+      const result = validateAgainstSchema(coerced[key], propSchema, path ? `${path}.${key}` : key);
+      coerced[key] = result.value;
+      errors.push(...result.errors);
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    coerced.forEach((item: any, i: number) => {
+      const result = validateAgainstSchema(item, schema.items!, `${label}[${i}]`);
+      coerced[i] = result.value;
+      errors.push(...result.errors);
+    });
+  }
+
+  return { value: coerced, errors };
+}
+
+/**
+ * Example value shaped like the schema — used as the JSON template in agent prompts.
+ * Strings are "..." placeholders; enums show their first value.
+ */
+export function exampleFromSchema(schema: JsonSchema): any {
+  if (schema.enum?.length) return schema.enum[0];
+  switch (schema.type) {
+    case 'object': {
+      const example: Record<string, any> = {};
+      for (const [key, prop] of Object.entries(schema.properties || {})) example[key] = exampleFromSchema(prop);
+      return example;
+    }
+    case 'array': return [];
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    default: return '...';
+  }
+}
+
+/**
+ * One line per field, e.g. `- budget.amount (number, required)`, for agent prompts.
+ */
+export function describeSchemaFields(schema: JsonSchema, prefix = ''): string[] {
+  const lines: string[] = [];
+  for (const [key, prop] of Object.entries(schema.properties || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const type = prop.enum
+      ? `one of ${prop.enum.map(v => JSON.stringify(v)).join(' | ')}`
+      : prop.type === 'array' && prop.items?.type ? `array of ${prop.items.type}` : prop.type || 'any';
+    lines.push(`- ${path} (${type}, ${schema.required?.includes(key) ? 'required' : 'optional'})`);
+    if (prop.type === 'object') lines.push(...describeSchemaFields(prop, path));
+  }
+  return lines;
+}
+
+function coerce(value: any, schema: JsonSchema): any {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if ((schema.type === 'number' || schema.type === 'integer') && trimmed !== '' && !isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  if (schema.type === 'boolean' && /^(true|false)$/i.test(trimmed)) {
+    return trimmed.toLowerCase() === 'true';
+  }
+  return value;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+function describe(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value).substring(0, 40)}`;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Recursive-descent parser for the field-block syntax.
+ */
+class FieldParser {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  parseObject(): JsonSchema {
+    this.expect('{');
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    this.skipSpace();
+    while (this.peek() !== '}') {
+      const name = this.parseName();
+      this.skipSpace();
+      const optional = this.peek() === '?';
+      if (optional) this.pos++;
+      this.expect(':');
+      properties[name] = this.parseType();
+      if (!optional) required.push(name);
+      this.skipSpace();
+      if (this.peek() === ',' || this.peek() === ';') {
+        this.pos++;
+        this.skipSpace();
+      } else if (this.peek() !== '}') {
+        throw new ContractSyntaxError(`Expected "," or "}" after field "${name}"`, this.pos);
+      }
+    }
+    this.pos++;
+    return { type: 'object', properties, required };
+  }
+
+  expectEnd(): void {
+    this.skipSpace();
+    if (this.pos < this.text.length) throw new ContractSyntaxError('Unexpected text after "}"', this.pos);
+  }
+
+  private parseType(): JsonSchema {
+    this.skipSpace();
+    let schema: JsonSchema;
+    const ch = this.peek();
+    if (ch === '{') {
+      schema = this.parseObject();
+    } else if (ch === '"' || ch === "'") {
+      schema = this.parseEnum();
+    } else {
+      const name = this.parseName().toLowerCase();
+      this.skipSpace();
+      if (name === 'array' && this.peek() === '<') {
+        this.pos++;
+        const items = this.parseType();
+        this.expect('>');
+        schema = { type: 'array', items };
+      } else {
+        const type = TYPE_ALIASES[name];
+        schema = type ? { type, ...(STRING_FORMATS[name] && { format: STRING_FORMATS[name] }) } : type === null ? {} : { description: name };
+      }
+    }
+    this.skipSpace();
+    while (this.text.startsWith('[]', this.pos)) {
+      this.pos += 2;
+      schema = { type: 'array', items: schema };
+      this.skipSpace();
+    }
+    return schema;
+  }
+
+  private parseEnum(): JsonSchema {
+    const values: string[] = [];
+    for (;;) {
+      this.skipSpace();
+      const quote = this.peek();
+      if (quote !== '"' && quote !== "'") throw new ContractSyntaxError('Expected a quoted enum value', this.pos);
+      const end = this.text.indexOf(quote, this.pos + 1);
+      if (end === -1) throw new ContractSyntaxError('Unterminated string', this.pos);
+      values.push(this.text.substring(this.pos + 1, end));
+      this.pos = end + 1;
+      this.skipSpace();
+      if (this.peek() !== '|') break;
+      this.pos++;
+    }
+    return { type: 'string', enum: values };
+  }
+
+  private parseName(): string {
+    const match = /^[A-Za-z_$][\w$-]*/.exec(this.text.substring(this.pos));
+    if (!match) throw new ContractSyntaxError('Expected a field name or type', this.pos);
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private expect(ch: string): void {
+    this.skipSpace();
+    if (this.peek() !== ch) throw new ContractSyntaxError(`Expected "${ch}"`, this.pos);
+    this.pos++;
+  }
+
+  private peek(): string {
+    return this.text[this.pos];
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+}
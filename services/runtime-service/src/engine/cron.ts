@@ -0,0 +1,203 @@
+/**
+ * Cron expressions for run schedules (see run-scheduler.ts).
+ *
+ * Five fields — minute, hour, day of month, month, day of week — each `*`, a value, a
+ * range (`1-5`), a list (`1,15`) or a step (`*\/15`, `8-18/2`). Months and weekdays may be
+ * named (`JAN`, `MON-FRI`); Sunday is 0 or 7. When both day fields are restricted a day
+ * matching either one matches, as in Vixie cron. The macros @yearly, @monthly, @weekly,
+ * @daily (@midnight) and @hourly are accepted.
+ *
+ * Expressions are evaluated on the wall clock of an IANA timezone. A time skipped by a
+ * daylight-saving change doesn't fire that day; a time repeated by one fires once.
+ */
+
+/**
+ * Thrown when a cron expression cannot be parsed, or never fires.
+ */
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 = Sunday
+  daysOfWeek: Set<number>;
+  // Whether the day-of-month / day-of-week field was restricted (not `*`)
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// How far ahead to look for the next occurrence (e.g. `0 0 29 2 *` fires only in leap years)
+const SEARCH_YEARS = 5;
+const MINUTE_MS = 60 * 1000;
+
+function parseField(field: string, label: string, min: number, max: number, names?: string[]): Set<number> {
+  const value = (text: string): number => {
+    if (/^\d+$/.test(text)) return Number(text);
+    const index = names ? names.indexOf(text.toUpperCase()) : -1;
+    if (index === -1) throw new CronExpressionError(`Invalid ${label} "${text}"`);
+    return index + min;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(`Invalid step in ${label} field "${field}"`);
+    }
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = min;
+      high = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      low = value(from);
+      high = value(to);
+    } else {
+      low = value(range);
+      high = stepText === undefined ? low : max;
+    }
+    if (low < min || high > max || low > high) {
+      throw new CronExpressionError(`${label} field "${field}" must be within ${min}-${max}`);
+    }
+    for (let v = low; v <= high; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or macro.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = String(expression ?? '').trim();
+  const fields = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronExpressionError(`"${trimmed}" must have five fields: minute hour day-of-month month day-of-week`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 'day-of-week', 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 'day-of-month', 1, 31),
+    months: parseField(month, 'month', 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    dayOfMonthRestricted: !dayOfMonth.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeek.startsWith('*'),
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The wall-clock time in `timezone` at `date`, as a Date whose UTC fields hold it.
+ */
+function wallClock(date: Date, timezone: string): Date {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/**
+ * The instant a wall-clock time in `timezone` happens at, or null when a daylight-saving
+ * change skips it.
+ */
+function fromWallClock(local: Date, timezone: string): Date | null {
+  const firstGuess = local.getTime() - (wallClock(local, timezone).getTime() - local.getTime());
+  const instant = local.getTime() - (wallClock(new Date(firstGuess), timezone).getTime() - firstGuess);
+  return wallClock(new Date(instant), timezone).getTime() === local.getTime() ? new Date(instant) : null;
+}
+
+function dayMatches(cron: CronSchedule, day: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(day.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(day.getUTCDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  if (cron.dayOfMonthRestricted) return dayOfMonth;
+  if (cron.dayOfWeekRestricted) return dayOfWeek;
+  return true;
+}
+
+/**
+ * The first time after `from` that `expression` fires in `timezone`.
+ */
+export function nextCronOccurrence(expression: string, timezone = 'UTC', from = new Date()): Date {
+  const cron = parseCron(expression);
+  if (!isValidTimezone(timezone)) throw new CronExpressionError(`Unknown timezone "${timezone}"`);
+
+  // Walk the wall clock, skipping whole months, days and hours that can't match
+  const start = wallClock(from, timezone);
+  let t = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate(), start.getUTCHours(), start.getUTCMinutes()) + MINUTE_MS;
+  const limit = Date.UTC(start.getUTCFullYear() + SEARCH_YEARS, start.getUTCMonth(), start.getUTCDate());
+  while (t < limit) {
+    const local = new Date(t);
+    const [year, month, day, hour] = [local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), local.getUTCHours()];
+    if (!cron.months.has(month + 1)) {
+      t = Date.UTC(year, month + 1, 1);
+    } else if (!dayMatches(cron, local)) {
+      t = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.has(hour)) {
+      t = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.has(local.getUTCMinutes())) {
+      t += MINUTE_MS;
+    } else {
+      const instant = fromWallClock(local, timezone);
+      if (instant && instant.getTime() > from.getTime()) return instant;
+      t += MINUTE_MS;
+    }
+  }
+  throw new CronExpressionError(`"${expression}" does not fire in the next ${SEARCH_YEARS} years`);
+}
+
+/**
+ * The next `count` times `expression` fires after `from`.
+ */
+export function nextCronOccurrences(expression: string, timezone = 'UTC', count = 5, from = new Date()): Date[] {
+  const occurrences: Date[] = [];
+  let after = from;
+  for (let i = 0; i < count; i++) {
+    after = nextCronOccurrence(expression, timezone, after);
+    occurrences.push(after);
+  }
+  return occurrences;
+}
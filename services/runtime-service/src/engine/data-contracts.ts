@@ -1,11 +1,19 @@
 /**
  * Parse BPMN documentation blocks to extract task data contracts.
- * Each task's <bpmn:documentation> may contain structured Input/Output specs.
+ * Each task's <bpmn:documentation> may contain structured Input/Output specs,
+ * compiled to JSON Schema (see contract-schema.ts for the field syntax).
+ * Human tasks may also declare a Form: the data the reviewer supplies when approving,
+ * e.g. `Form: { budget: number, vendor: "Acme" | "Globex", quote?: file }`.
  */
 
+import { JsonSchema, ContractViolation, ContractSyntaxError, extractFieldBlock, compileFieldBlock, validateAgainstSchema } from './contract-schema';
+
 export interface TaskDataContract {
   inputKeys: string[];
   outputKeys: string[];
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+  formSchema?: JsonSchema;
   agentName: string;
   skillName: string;
 }
@@ -14,11 +22,16 @@ export interface FlowState {
   originalRequest: string;
   flowSummary: string;
   taskOutputs: Record<string, Record<string, any>>;
+  // Per-iteration outputs of multi-instance tasks, indexed by loop index until the task completes
+  instanceOutputs?: Record<string, Record<string, any>[]>;
 }
 
+const EMPTY_SCHEMA: JsonSchema = { type: 'object', properties: {}, required: [] };
+
 /**
  * Parse Input/Output field names from a documentation line like:
  * Input: { designBrief: object, brandGuidelines: object }
+ * Fallback for blocks the schema compiler rejects: every field required, any type.
  */
 function parseFieldKeys(line: string): string[] {
   const match = line.match(/\{([^}]+)\}/);
@@ -26,10 +39,31 @@ function parseFieldKeys(line: string): string[] {
   // Extract field names before the colon in "fieldName: type"
   return match[1]
     .split(',')
-    .map(f => f.trim().split(/\s*:/)[0].trim())
+    .map(f => f.trim().split(/\s*\??:/)[0].trim())
     .filter(f => f.length > 0);
 }
 
+function compileContractBlock(taskId: string, label: string, block: string | null): JsonSchema {
+  if (!block) return EMPTY_SCHEMA;
+  try {
+    return compileFieldBlock(block);
+  } catch (err: any) {
+    if (!(err instanceof ContractSyntaxError)) throw err;
+    console.warn(`[data-contracts] Task ${taskId}: ${label} contract "${block}" is not valid (${err.message}); checking field names only`);
+    const keys = parseFieldKeys(block);
+    return { type: 'object', properties: Object.fromEntries(keys.map(k => [k, {}])), required: keys };
+  }
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
 /**
  * Parse all task data contracts from BPMN XML.
  * Looks for <bpmn:documentation> blocks within tasks containing structured specs.
@@ -37,24 +71,33 @@ function parseFieldKeys(line: string): string[] {
 export function parseTaskDataContracts(bpmnXml: string): Map<string, TaskDataContract> {
   const contracts = new Map<string, TaskDataContract>();
 
-  // Match tasks (serviceTask, task, sendTask, userTask) that have documentation blocks
-  const taskRegex = /<bpmn:(?:serviceTask|task|sendTask|userTask)\s+id="([^"]+)"[^>]*>[\s\S]*?<bpmn:documentation>([\s\S]*?)<\/bpmn:documentation>[\s\S]*?<\/bpmn:(?:serviceTask|task|sendTask|userTask)>/g;
+  // Match tasks (serviceTask, task, sendTask, userTask) with a body, then their documentation
+  // blocks (self-closing tasks have neither, and must not pick up the next task's)
+  const taskRegex = /<bpmn:(serviceTask|task|sendTask|userTask)\s+id="([^"]+)"[^>]*(?<!\/)>([\s\S]*?)<\/bpmn:\1>/g;
   let m;
   while ((m = taskRegex.exec(bpmnXml)) !== null) {
-    const taskId = m[1];
-    const doc = m[2].trim();
+    const docMatch = m[3].match(/<bpmn:documentation>([\s\S]*?)<\/bpmn:documentation>/);
+    if (!docMatch) continue;
+    const taskId = m[2];
+    const doc = unescapeXml(docMatch[1].trim());
 
     // Parse structured lines
     const agentMatch = doc.match(/Agent:\s*(.+)/i);
     const skillMatch = doc.match(/Skill:\s*(.+)/i);
-    const inputMatch = doc.match(/Input:\s*(\{[^}]+\})/i);
-    const outputMatch = doc.match(/Output:\s*(\{[^}]+\})/i);
+    const inputBlock = extractFieldBlock(doc, 'Input');
+    const outputBlock = extractFieldBlock(doc, 'Output');
+    const formBlock = extractFieldBlock(doc, 'Form');
 
-    // Only create contract if we have at least input or output spec
-    if (inputMatch || outputMatch) {
+    // Only create contract if we have at least input, output or form spec
+    if (inputBlock || outputBlock || formBlock) {
+      const inputSchema = compileContractBlock(taskId, 'Input', inputBlock);
+      const outputSchema = compileContractBlock(taskId, 'Output', outputBlock);
       contracts.set(taskId, {
-        inputKeys: inputMatch ? parseFieldKeys(inputMatch[0]) : [],
-        outputKeys: outputMatch ? parseFieldKeys(outputMatch[0]) : [],
+        inputKeys: Object.keys(inputSchema.properties || {}),
+        outputKeys: Object.keys(outputSchema.properties || {}),
+        inputSchema,
+        outputSchema,
+        ...(formBlock && { formSchema: compileContractBlock(taskId, 'Form', formBlock) }),
         agentName: agentMatch ? agentMatch[1].trim() : '',
         skillName: skillMatch ? skillMatch[1].trim() : '',
       });
@@ -68,17 +111,20 @@ export function parseTaskDataContracts(bpmnXml: string): Map<string, TaskDataCon
 /**
  * Build scoped input for a task based on its data contract.
  * Only passes fields the task declared it needs, plus flow context.
+ * Required inputs that are missing or mistyped are listed in `_inputErrors`.
  */
 export function buildScopedInput(
   taskId: string,
   taskName: string,
   contract: TaskDataContract | undefined,
-  flowState: FlowState
+  flowState: FlowState,
+  instanceInput?: Record<string, any>
 ): any {
   if (!contract || contract.inputKeys.length === 0) {
     // No contract — fall back to passing everything (backward compatible)
     return {
       ...flowState.taskOutputs,
+      ...instanceInput,
       _currentTask: taskName,
       _flowSummary: flowState.flowSummary,
       originalRequest: flowState.originalRequest,
@@ -86,30 +132,23 @@ export function buildScopedInput(
   }
 
   const scopedInput: Record<string, any> = {};
-  const missingKeys: string[] = [];
 
-  // Search all previous task outputs for the requested input keys
+  // Search previous task outputs for the requested input keys, later outputs first
+  // (the same precedence as buildConditionScope)
+  const previousOutputs = Object.values(flowState.taskOutputs).reverse();
   for (const key of contract.inputKeys) {
-    let found = false;
-    // Search through all task outputs
-    for (const [, outputs] of Object.entries(flowState.taskOutputs)) {
-      if (outputs && key in outputs) {
-        scopedInput[key] = outputs[key];
-        found = true;
-        break;
-      }
-    }
-    if (!found) {
-      missingKeys.push(key);
-    }
+    const outputs = previousOutputs.find(candidate => candidate && key in candidate);
+    if (outputs) scopedInput[key] = outputs[key];
   }
 
-  if (missingKeys.length > 0) {
-    scopedInput._missingInputs = missingKeys;
+  const { errors } = validateAgainstSchema({ ...scopedInput, ...instanceInput }, contract.inputSchema);
+  if (errors.length > 0) {
+    scopedInput._inputErrors = errors;
   }
 
   return {
     ...scopedInput,
+    ...instanceInput,
     _currentTask: taskName,
     _flowSummary: flowState.flowSummary,
     originalRequest: flowState.originalRequest,
@@ -164,6 +203,133 @@ export function extractStructuredOutput(agentOutput: string, contract: TaskDataC
   return result;
 }
 
+/**
+ * Validate structured output against the task's output contract.
+ * Returns the output with scalar fields coerced to their declared types.
+ */
+export function validateStructuredOutput(output: Record<string, any>, contract: TaskDataContract | undefined): { output: Record<string, any>; errors: ContractViolation[] } {
+  if (!contract || contract.outputKeys.length === 0) return { output, errors: [] };
+  const { value, errors } = validateAgainstSchema(output, contract.outputSchema);
+  return { output: value, errors };
+}
+
+/**
+ * The task's form schema, ready to render: each field gets a title, and a default taken from
+ * the first source with a valid value for it (e.g. the agent's proposal, then earlier task outputs).
+ */
+export function buildTaskForm(contract: TaskDataContract | undefined, sources: Record<string, any>[]): JsonSchema | null {
+  if (!contract?.formSchema) return null;
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, field] of Object.entries(contract.formSchema.properties || {})) {
+    let value: any;
+    for (const source of sources) {
+      if (source?.[key] === undefined || source[key] === null) continue;
+      const result = validateAgainstSchema(source[key], field);
+      if (result.errors.length === 0) {
+        value = result.value;
+        break;
+      }
+    }
+    properties[key] = { ...field, title: field.title || fieldTitle(key), ...(value !== undefined && { default: value }) };
+  }
+  return { ...contract.formSchema, properties };
+}
+
+/**
+ * Validate values submitted for a task form. Fields the form does not declare are dropped;
+ * declared scalars are coerced to their types.
+ */
+export function validateFormSubmission(values: Record<string, any>, formSchema: JsonSchema): { values: Record<string, any>; errors: ContractViolation[] } {
+  const declared: Record<string, any> = {};
+  for (const key of Object.keys(formSchema.properties || {})) {
+    if (values?.[key] !== undefined) declared[key] = values[key];
+  }
+  const { value, errors } = validateAgainstSchema(declared, formSchema);
+  return { values: value, errors };
+}
+
+// "vendorName" / "vendor_name" → "Vendor name"
+function fieldTitle(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Record the structured output of one multi-instance iteration.
+ * Iterations may complete in any order; the loop index fixes their position.
+ */
+export function recordInstanceOutput(flowState: FlowState, taskId: string, index: number, output: Record<string, any>): void {
+  if (!flowState.instanceOutputs) flowState.instanceOutputs = {};
+  if (!flowState.instanceOutputs[taskId]) flowState.instanceOutputs[taskId] = [];
+  flowState.instanceOutputs[taskId][index] = output;
+}
+
+/**
+ * Merge all iterations of a multi-instance task into a single task output.
+ * Each declared field becomes an array ordered by loop index, so downstream
+ * tasks see the same shape regardless of which iteration finished first.
+ */
+export function mergeInstanceOutputs(flowState: FlowState, taskId: string): Record<string, any> {
+  const instances = flowState.instanceOutputs?.[taskId] || [];
+  const merged: Record<string, any> = {};
+
+  const keys = new Set<string>();
+  for (const instance of instances) {
+    for (const key of Object.keys(instance || {})) {
+      if (key !== '_raw') keys.add(key);
+    }
+  }
+  for (const key of [...keys].sort()) {
+    merged[key] = instances.map(instance => instance?.[key]);
+  }
+
+  merged._instances = instances.length;
+  merged._raw = instances
+    .map((instance, i) => `[${i + 1}] ${instance?._raw || ''}`)
+    .join('\n\n');
+
+  flowState.taskOutputs[taskId] = merged;
+  delete flowState.instanceOutputs?.[taskId];
+  return merged;
+}
+
+/**
+ * Merge parallel branch outputs at a join gateway.
+ * Branch tasks write taskOutputs in completion order, which varies between runs.
+ * Re-inserting them in branch order (BPMN document order of the fork's outgoing
+ * flows) makes key lookup in buildScopedInput and buildConditionScope deterministic:
+ * on conflicting keys the later branch wins. Returns the task IDs merged, in order.
+ */
+export function mergeBranchOutputs(flowState: FlowState, branches: string[][]): string[] {
+  const merged: string[] = [];
+  for (const branch of branches) {
+    for (const taskId of branch) {
+      if (!(taskId in flowState.taskOutputs)) continue;
+      const output = flowState.taskOutputs[taskId];
+      delete flowState.taskOutputs[taskId];
+      flowState.taskOutputs[taskId] = output;
+      merged.push(taskId);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the variable scope for gateway condition expressions from structured task outputs.
+ * Later task outputs override earlier ones, and the task that just completed wins over all,
+ * so a loop re-running a task routes on its newest result. Raw LLM text is excluded.
+ */
+export function buildConditionScope(flowState: FlowState, latestOutput?: Record<string, any>): Record<string, any> {
+  const scope: Record<string, any> = {};
+  for (const outputs of [...Object.values(flowState.taskOutputs), latestOutput || {}]) {
+    for (const [key, value] of Object.entries(outputs || {})) {
+      if (key === '_raw') continue;
+      scope[key] = value;
+    }
+  }
+  return scope;
+}
+
 /**
  * Update the flow summary string (kept under ~500 chars).
  */
@@ -0,0 +1,283 @@
+/**
+ * Run Event Log
+ *
+ * Every runtime event (step updates, streamed agent output, gateway decisions, approval
+ * pauses, run completion) is appended to `flow_run_events`. Each event gets the next
+ * sequence number of its run (`seq`), allocated under the run's row lock in the statement
+ * that inserts it, so a run's events commit in `seq` order and no gaps appear behind a
+ * reader. A run's stream uses `seq` as the SSE event id: a reconnecting client sends
+ * `Last-Event-ID` and replays everything it missed.
+ *
+ * The tenant-wide stream spans runs and uses the BIGSERIAL `id` instead. Events of
+ * different runs can commit out of `id` order, so a replay of that stream may miss an
+ * event written concurrently with the last one the client saw; follow a run's own stream
+ * where every event matters.
+ *
+ * Fan-out across runtime instances uses Postgres LISTEN/NOTIFY on the `flow_run_events`
+ * channel. Events are emitted locally as soon as they're stored; notifications from
+ * this instance are ignored. Payloads over the NOTIFY size limit are sent as a
+ * reference and fetched by id on the receiving side.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+
+export type RunEventType =
+  | 'run.started'
+  | 'run.recovered'
+  | 'step.update'
+  | 'agent.output'
+  | 'gateway.decision'
+  | 'approval.requested'
+  | 'approval.decided'
+  | 'message.waiting'
+  | 'message.received'
+  | 'timer.scheduled'
+  | 'timer.fired'
+  | 'run.complete'
+  | 'run.error';
+
+export interface RunEvent {
+  id: number;
+  // Position in the run's event log, from 1
+  seq: number;
+  tenantId: string;
+  runId: string;
+  type: RunEventType;
+  data: Record<string, any>;
+  createdAt: string;
+}
+
+export interface EventFilter {
+  tenantId: string;
+  runId?: string;
+}
+
+const CHANNEL = 'flow_run_events';
+const MAX_NOTIFY_BYTES = 7500;
+const REPLAY_BATCH_SIZE = 500;
+const RECONNECT_DELAY_MS = 5000;
+
+// Streamed agent output is batched into one event per interval (or per N characters)
+const DELTA_FLUSH_MS = 250;
+const DELTA_FLUSH_CHARS = 400;
+
+export class RunEventLog extends EventEmitter {
+  private instanceId = randomUUID();
+  private listenClient: PoolClient | null = null;
+  private stopped = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(private pool: Pool) {
+    super();
+    this.setMaxListeners(0); // one listener per open SSE connection
+  }
+
+  /**
+   * Persist an event and publish it to local subscribers and other instances.
+   * Never throws — a failed write is logged and yields null, so a broken log can't stop a run.
+   */
+  async append(tenantId: string, runId: string, type: RunEventType, data: Record<string, any> = {}): Promise<RunEvent | null> {
+    let event: RunEvent;
+    try {
+      // The run row stays locked until the statement commits, so seq order is commit order
+      const result = await this.pool.query(
+        `WITH next AS (
+           UPDATE flow_runs SET last_event_seq = last_event_seq + 1 WHERE id = $2 RETURNING last_event_seq
+         )
+         INSERT INTO flow_run_events (tenant_id, run_id, seq, event_type, data)
+         SELECT $1, $2, last_event_seq, $3, $4 FROM next
+         RETURNING id, seq, created_at`,
+        [tenantId, runId, type, JSON.stringify(data)]
+      );
+      if (!result.rows[0]) throw new Error('run not found');
+      event = {
+        id: Number(result.rows[0].id),
+        seq: Number(result.rows[0].seq),
+        tenantId,
+        runId,
+        type,
+        data,
+        createdAt: new Date(result.rows[0].created_at).toISOString(),
+      };
+    } catch (err: any) {
+      console.error(`[event-log] Failed to persist ${type} for run ${runId}:`, err.message);
+      return null;
+    }
+
+    this.emit('event', event);
+
+    try {
+      const full = JSON.stringify({ origin: this.instanceId, event });
+      const payload = Buffer.byteLength(full) <= MAX_NOTIFY_BYTES
+        ? full
+        : JSON.stringify({ origin: this.instanceId, ref: event.id });
+      await this.pool.query(`SELECT pg_notify($1, $2)`, [CHANNEL, payload]);
+    } catch (err: any) {
+      console.error(`[event-log] Failed to notify ${type} for run ${runId}:`, err.message);
+    }
+    return event;
+  }
+
+  /**
+   * Batch streamed text for one step into `agent.output` events.
+   * Call `flush()` once the agent call has finished.
+   */
+  createOutputStream(tenantId: string, runId: string, stepId: string | undefined, stepKey: string): { push: (text: string) => void; flush: () => Promise<void> } {
+    let buffer = '';
+    let chunk = 0;
+    let timer: NodeJS.Timeout | null = null;
+    let pending: Promise<any> = Promise.resolve();
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (buffer) {
+        const delta = buffer;
+        buffer = '';
+        const index = chunk++;
+        pending = pending.then(() => this.append(tenantId, runId, 'agent.output', { stepId, stepKey, chunk: index, delta }));
+      }
+      return pending;
+    };
+
+    return {
+      push: (text: string) => {
+        buffer += text;
+        if (buffer.length >= DELTA_FLUSH_CHARS) {
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(flush, DELTA_FLUSH_MS);
+        }
+      },
+      flush: async () => {
+        await flush();
+      },
+    };
+  }
+
+  /**
+   * Events after `cursor` (see eventCursor) matching the filter, oldest first.
+   */
+  async replay(filter: EventFilter, cursor: number, limit = REPLAY_BATCH_SIZE): Promise<RunEvent[]> {
+    const result = filter.runId
+      ? await this.pool.query(
+        `SELECT * FROM flow_run_events WHERE tenant_id = $1 AND run_id = $2 AND seq > $3 ORDER BY seq ASC LIMIT $4`,
+        [filter.tenantId, filter.runId, cursor, limit]
+      )
+      : await this.pool.query(
+        `SELECT * FROM flow_run_events WHERE tenant_id = $1 AND id > $2 ORDER BY id ASC LIMIT $3`,
+        [filter.tenantId, cursor, limit]
+      );
+    return result.rows.map(toRunEvent);
+  }
+
+  /**
+   * Cursor of the latest event recorded for the filter (0 when there are none).
+   */
+  async latestCursor(filter: EventFilter): Promise<number> {
+    const result = filter.runId
+      ? await this.pool.query(
+        `SELECT COALESCE(MAX(seq), 0) AS cursor FROM flow_run_events WHERE tenant_id = $1 AND run_id = $2`,
+        [filter.tenantId, filter.runId]
+      )
+      : await this.pool.query(
+        `SELECT COALESCE(MAX(id), 0) AS cursor FROM flow_run_events WHERE tenant_id = $1`,
+        [filter.tenantId]
+      );
+    return Number(result.rows[0].cursor);
+  }
+
+  /**
+   * Start receiving events published by other runtime instances.
+   */
+  async listen(): Promise<void> {
+    this.stopped = false;
+    try {
+      const client = await this.pool.connect();
+      this.listenClient = client;
+      client.on('notification', msg => {
+        if (msg.channel === CHANNEL && msg.payload) {
+          this.handleNotification(msg.payload).catch(err =>
+            console.error('[event-log] Failed to handle notification:', err.message));
+        }
+      });
+      client.on('error', err => {
+        console.error('[event-log] LISTEN connection error:', err.message);
+        this.reconnect(client);
+      });
+      client.on('end', () => this.reconnect(client));
+      await client.query(`LISTEN ${CHANNEL}`);
+      console.log(`[event-log] Listening for run events on "${CHANNEL}"`);
+    } catch (err: any) {
+      console.error('[event-log] Could not start LISTEN:', err.message);
+      this.reconnect(this.listenClient);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    const client = this.listenClient;
+    this.listenClient = null;
+    if (client) {
+      try {
+        await client.query(`UNLISTEN ${CHANNEL}`);
+      } catch { /* connection may already be gone */ }
+      client.release();
+    }
+  }
+
+  private reconnect(client: PoolClient | null): void {
+    if (client && this.listenClient === client) {
+      this.listenClient = null;
+      client.release(true);
+    }
+    if (this.stopped || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped && !this.listenClient) this.listen();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async handleNotification(payload: string): Promise<void> {
+    const message = JSON.parse(payload);
+    if (message.origin === this.instanceId) return;
+
+    let event: RunEvent | undefined = message.event;
+    if (!event && message.ref) {
+      const result = await this.pool.query(`SELECT * FROM flow_run_events WHERE id = $1`, [message.ref]);
+      if (result.rows[0]) event = toRunEvent(result.rows[0]);
+    }
+    if (event) this.emit('event', event);
+  }
+}
+
+/**
+ * Does an event belong to a subscriber's stream?
+ */
+export function matchesFilter(event: RunEvent, filter: EventFilter): boolean {
+  return event.tenantId === filter.tenantId && (!filter.runId || event.runId === filter.runId);
+}
+
+/**
+ * An event's position in a subscriber's stream: its run's `seq` for one run, its `id` across runs.
+ */
+export function eventCursor(event: RunEvent, filter: EventFilter): number {
+  return filter.runId ? event.seq : event.id;
+}
+
+function toRunEvent(row: any): RunEvent {
+  return {
+    id: Number(row.id),
+    seq: Number(row.seq),
+    tenantId: row.tenant_id,
+    runId: row.run_id,
+    type: row.event_type,
+    data: row.data || {},
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
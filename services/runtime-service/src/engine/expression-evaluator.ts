@@ -0,0 +1,326 @@
+/**
+ * Sandboxed evaluator for BPMN condition expressions like
+ * ${validationStatus == 'valid' && score >= 7}.
+ *
+ * Expressions are tokenized and parsed by hand — nothing is passed to eval()
+ * or Function(), and only own properties of the scope are reachable. Anything
+ * the evaluator cannot decide (unknown variable, unsupported syntax, non-boolean
+ * result) is reported as an error so the caller can fall back to LLM routing.
+ *
+ * Supported: string/number/boolean/null literals, dotted and bracket paths,
+ * == === != !== < <= > >= (and JUEL eq ne lt le gt ge), && || ! (and/or/not),
+ * unary minus, `empty x` and parentheses. && and || short-circuit: the side that
+ * is not needed is still parsed but never evaluated, so `x != null && x.y > 1`
+ * does not fail when x is missing.
+ */
+
+export type EvaluationResult =
+  | { ok: true; value: boolean }
+  | { ok: false; error: string };
+
+class EvaluationError extends Error {}
+
+type Token =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'ident'; value: string }
+  | { kind: 'op'; value: string };
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '-', '(', ')', '.', '[', ']'];
+const WORD_OPERATORS = new Map<string, string>([
+  ['and', '&&'], ['or', '||'], ['not', '!'],
+  ['eq', '=='], ['ne', '!='], ['lt', '<'], ['le', '<='], ['gt', '>'], ['ge', '>='],
+]);
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) throw new EvaluationError('unterminated string literal');
+      i++;
+      tokens.push({ kind: 'string', value });
+      continue;
+    }
+
+    const numMatch = input.slice(i).match(/^\d+(?:\.\d+)?/);
+    if (numMatch) {
+      tokens.push({ kind: 'number', value: Number(numMatch[0]) });
+      i += numMatch[0].length;
+      continue;
+    }
+
+    const identMatch = input.slice(i).match(/^[A-Za-z_$][\w$]*/);
+    if (identMatch) {
+      const word = identMatch[0];
+      const op = WORD_OPERATORS.get(word);
+      tokens.push(op ? { kind: 'op', value: op } : { kind: 'ident', value: word });
+      i += word.length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => input.startsWith(o, i));
+    if (!op) throw new EvaluationError(`unsupported character "${ch}"`);
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+  return tokens;
+}
+
+function toNumber(value: any): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+/**
+ * Equality is deliberately lenient because agent outputs are loosely typed:
+ * numeric strings compare as numbers, everything else case-insensitively as strings
+ * (so "Valid" == 'valid' and "true" == true).
+ */
+function looseEquals(a: any, b: any): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a === null || a === undefined) && (b === null || b === undefined);
+  }
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== undefined && nb !== undefined) return na === nb;
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return String(a).toLowerCase() === String(b).toLowerCase();
+}
+
+function truthy(value: any): boolean {
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (lower === 'false' || lower === 'no' || lower === '') return false;
+    return true;
+  }
+  return Boolean(value);
+}
+
+function isEmpty(value: any): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function ownProperty(target: any, key: string | number): any {
+  if (target === null || target === undefined || typeof target !== 'object') return undefined;
+  return Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+}
+
+class Parser {
+  private pos = 0;
+  /** > 0 while parsing an operand that short-circuiting made irrelevant */
+  private skipping = 0;
+
+  constructor(private tokens: Token[], private scope: Record<string, any>) {}
+
+  parse(): any {
+    const value = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new EvaluationError(`unexpected token "${this.tokens[this.pos].value}"`);
+    }
+    return value;
+  }
+
+  private peekOp(...ops: string[]): string | undefined {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'op' && ops.includes(token.value) ? token.value : undefined;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.peekOp(op)) throw new EvaluationError(`expected "${op}"`);
+    this.pos++;
+  }
+
+  /**
+   * Parse an operand without evaluating it: unknown variables and type errors are
+   * ignored, syntax errors are not.
+   */
+  private skip(parse: () => any): void {
+    this.skipping++;
+    try {
+      parse();
+    } finally {
+      this.skipping--;
+    }
+  }
+
+  private parseOr(): any {
+    let left = this.parseAnd();
+    while (this.peekOp('||')) {
+      this.pos++;
+      if (truthy(left)) {
+        this.skip(() => this.parseAnd());
+        left = true;
+      } else {
+        left = truthy(this.parseAnd());
+      }
+    }
+    return left;
+  }
+
+  private parseAnd(): any {
+    let left = this.parseNot();
+    while (this.peekOp('&&')) {
+      this.pos++;
+      if (!truthy(left)) {
+        this.skip(() => this.parseNot());
+        left = false;
+      } else {
+        left = truthy(this.parseNot());
+      }
+    }
+    return left;
+  }
+
+  private parseNot(): any {
+    if (this.peekOp('!')) {
+      this.pos++;
+      return !truthy(this.parseNot());
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): any {
+    const left = this.parseUnary();
+    const op = this.peekOp('===', '!==', '==', '!=', '<=', '>=', '<', '>');
+    if (!op) return left;
+    this.pos++;
+    const right = this.parseUnary();
+
+    switch (op) {
+      case '==':
+      case '===':
+        return looseEquals(left, right);
+      case '!=':
+      case '!==':
+        return !looseEquals(left, right);
+    }
+
+    const nl = toNumber(left);
+    const nr = toNumber(right);
+    if (nl === undefined || nr === undefined) {
+      if (this.skipping) return false;
+      throw new EvaluationError(`cannot compare non-numeric values with "${op}"`);
+    }
+    switch (op) {
+      case '<': return nl < nr;
+      case '<=': return nl <= nr;
+      case '>': return nl > nr;
+      default: return nl >= nr;
+    }
+  }
+
+  private parseUnary(): any {
+    if (!this.peekOp('-')) return this.parsePrimary();
+    this.pos++;
+    const value = toNumber(this.parseUnary());
+    if (value === undefined) {
+      if (this.skipping) return 0;
+      throw new EvaluationError('unary "-" needs a numeric operand');
+    }
+    return -value;
+  }
+
+  private parsePrimary(): any {
+    const token = this.tokens[this.pos];
+    if (!token) throw new EvaluationError('unexpected end of expression');
+
+    if (token.kind === 'op' && token.value === '(') {
+      this.pos++;
+      const value = this.parseOr();
+      this.expectOp(')');
+      return value;
+    }
+    if (token.kind === 'string' || token.kind === 'number') {
+      this.pos++;
+      return token.value;
+    }
+    if (token.kind === 'ident') {
+      this.pos++;
+      switch (token.value) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'null':
+        case 'undefined': return null;
+        case 'empty': return isEmpty(this.parsePrimary());
+      }
+      return this.parsePath(token.value);
+    }
+    throw new EvaluationError(`unexpected token "${token.value}"`);
+  }
+
+  private parsePath(root: string): any {
+    const known = Object.prototype.hasOwnProperty.call(this.scope, root);
+    if (!known && !this.skipping) {
+      throw new EvaluationError(`unknown variable "${root}"`);
+    }
+    let value = known ? this.scope[root] : undefined;
+    for (;;) {
+      if (this.peekOp('.')) {
+        this.pos++;
+        const next = this.tokens[this.pos++];
+        if (next?.kind !== 'ident') throw new EvaluationError('expected property name after "."');
+        value = ownProperty(value, next.value);
+      } else if (this.peekOp('[')) {
+        this.pos++;
+        const key = this.tokens[this.pos++];
+        if (key?.kind !== 'string' && key?.kind !== 'number') throw new EvaluationError('expected literal index');
+        this.expectOp(']');
+        value = ownProperty(value, key.value);
+      } else {
+        return value;
+      }
+    }
+  }
+}
+
+/**
+ * Strip the ${...} / #{...} wrapper and common XML escaping from a condition body.
+ */
+export function unwrapExpression(expression: string): string {
+  let body = expression.trim()
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .trim();
+  const wrapped = body.match(/^[$#]\{([\s\S]*)\}$/);
+  if (wrapped) body = wrapped[1];
+  return body
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Evaluate a condition expression against a variable scope.
+ * Never throws — failures are returned as { ok: false, error }.
+ */
+export function evaluateCondition(expression: string, scope: Record<string, any>): EvaluationResult {
+  try {
+    const body = unwrapExpression(expression);
+    if (!body) return { ok: false, error: 'empty expression' };
+    const value = new Parser(tokenize(body), scope).parse();
+    if (typeof value === 'boolean') return { ok: true, value };
+    if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+      return { ok: true, value: value.trim().toLowerCase() === 'true' };
+    }
+    return { ok: false, error: `expression did not evaluate to a boolean (got ${JSON.stringify(value)})` };
+  } catch (err: any) {
+    if (err instanceof EvaluationError) return { ok: false, error: err.message };
+    return { ok: false, error: `evaluation failed: ${err.message}` };
+  }
+}
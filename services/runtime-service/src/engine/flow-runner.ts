@@ -1,9 +1,45 @@
 const { Engine } = require('bpmn-engine');
+const camundaModdle = require('camunda-bpmn-moddle/resources/camunda.json');
 import { EventEmitter } from 'events';
 import { Pool } from 'pg';
-import { StateManager, FlowRun } from './state-manager';
-import { executeAgent, AgentConfig, routeGateway, ScopedContext } from './agent-executor';
-import { parseTaskDataContracts, buildScopedInput, extractStructuredOutput, updateFlowSummary, FlowState, TaskDataContract } from './data-contracts';
+import { StateManager, FlowRun, FlowStep, RunTimer, UsageContext } from './state-manager';
+import { executeAgent, AgentConfig, AgentToolset, routeGateway, GatewayRoute, ScopedContext, SpendCheck } from './agent-executor';
+import { parseTaskDataContracts, buildScopedInput, extractStructuredOutput, updateFlowSummary, recordInstanceOutput, mergeInstanceOutputs, mergeBranchOutputs, buildConditionScope, buildTaskForm, validateFormSubmission, FlowState, TaskDataContract } from './data-contracts';
+import { JsonSchema } from './contract-schema';
+import { evaluateCondition } from './expression-evaluator';
+import { resolveLoopPolicy, loopPolicyConfigFromMetadata, LoopPolicyConfig, LoopPolicyOutcome } from './loop-policy';
+import { RunnerState, RunSnapshot, resolveRecoveryPolicy } from './run-snapshot';
+import { RunEventLog, RunEventType } from './event-log';
+import { BudgetGuard, BudgetExceededError } from './budgets';
+import { IntegrationToolClient } from './integration-tools';
+import { ApprovalPolicy, approvalPolicyFromMetadata } from './approval-policy';
+import { ReviewPolicy, parseReviewPolicies, validateReviewPolicy } from './review-policy';
+import { ApprovalScheduler } from './approval-scheduler';
+import {
+  DeliveredMessage, MessageCatchEvent, MessageCorrelationError, messageOutput, parseMessageCatchEvents, resolveCorrelationKey,
+} from './message-events';
+import {
+  TimerDefinition, parseTimerCatchEvents, replaceTimerDefinitions, resolveTimerValue, timerDueAt,
+} from './timer-events';
+import { TimerScheduler } from './timer-scheduler';
+import { RunScheduler } from './run-scheduler';
+import { RunLeases } from './run-leases';
+import { ReplayError, ReplayPlan, replayStartStep } from './run-replay';
+import { BpmnValidationResult, validateBpmn } from './bpmn-validator';
+import { ProviderRegistry, LLMCallUsage, ToolCall } from '../providers';
+
+// Tool results handed back to the model are truncated to this many characters
+const MAX_TOOL_RESULT_CHARS = 8000;
+
+// A run stays paused while any of its steps is in one of these
+const WAITING_STEP_STATUSES = ['waiting_approval', 'waiting_message', 'waiting_timer'];
+
+// Wall-clock checks: never sooner apart than this, and retried after this when one fails
+const MIN_WALL_CLOCK_CHECK_MS = 1000;
+const WALL_CLOCK_RETRY_MS = 30000;
+
+// How long a released step may take to show up as waiting in the engine
+const STEP_WAIT_TIMEOUT_MS = 30000;
 
 export interface FoundationAgent {
   id: string;
@@ -15,20 +51,311 @@ interface TaskAgentMapping {
   [taskId: string]: FoundationAgent;
 }
 
+interface GatewayFlow {
+  id: string;
+  name: string;
+  targetRef: string;
+  condition?: string;
+  isDefault?: boolean;
+}
+
+interface ConditionEvaluation {
+  flowId: string;
+  condition: string;
+  result?: boolean;
+  error?: string;
+}
+
+/**
+ * How an exclusive gateway path was chosen — recorded on the gateway's flow_steps row
+ * so audits can tell a rule decision ('condition' / 'default' / 'loop_policy') from a model guess ('llm').
+ */
+interface GatewayDecision {
+  flowId: string;
+  mode: 'condition' | 'default' | 'llm' | 'loop_policy';
+  reason: string;
+  conditions?: ConditionEvaluation[];
+  decidedAt: string;
+  // Set when the LLM router was consulted
+  usage?: LLMCallUsage;
+}
+
+/**
+ * A parallel fork/join pair. Branches are listed in BPMN document order of the
+ * fork's outgoing flows, each holding the element IDs reachable before the join.
+ */
+export interface ParallelRegion {
+  forkId: string;
+  joinId: string;
+  branches: string[][];
+}
+
+/**
+ * Resolve a variable path such as `items` or `order.lines` in a bpmn-engine expression
+ * context: the first segment is looked up in the environment variables, then the context.
+ */
+function resolveVariablePath(context: any, path: string): any {
+  const [root, ...rest] = path.split('.');
+  let value = context?.environment?.variables?.[root] ?? context?.variables?.[root] ?? context?.[root];
+  for (const part of rest) {
+    value = value?.[part];
+  }
+  return value;
+}
+
+interface MultiInstanceSpec {
+  isSequential: boolean;
+  elementVariable?: string;
+}
+
+interface ExecutableProcess {
+  xml: string;
+  // ID of the extracted process; null when the full BPMN is run as is
+  processId: string | null;
+  humanTaskIds: Set<string>;
+  gatewayFlows: Map<string, GatewayFlow[]>;
+  dataContracts: Map<string, TaskDataContract>;
+  parallelRegions: Map<string, ParallelRegion>;
+  multiInstanceTasks: Map<string, MultiInstanceSpec>;
+  // Message each message catch event waits for, by event ID
+  messageEvents: Map<string, MessageCatchEvent>;
+  // Timer of each timer catch event, by event ID
+  timerEvents: Map<string, TimerDefinition>;
+}
+
+/**
+ * Everything executeFlow needs besides the run itself. Built from the foundation
+ * at start, and rebuilt from the snapshot's BPMN when a run is recovered.
+ */
+interface PreparedFlow {
+  foundationId: string;
+  bpmnXml: string;
+  executable: ExecutableProcess;
+  agents: FoundationAgent[];
+  taskAgentMap: TaskAgentMapping;
+  loopPolicies: LoopPolicyConfig;
+  approvalPolicy: ApprovalPolicy;
+  // Who must sign off a task's approval request, by task ID
+  reviewPolicies: Map<string, ReviewPolicy>;
+  orchestrator: FoundationAgent;
+}
+
+/**
+ * State handed to executeFlow when a run is rebuilt from its snapshot after a restart.
+ */
+interface RecoveredRun {
+  snapshot: RunSnapshot;
+  // Latest flow_steps row per step key, so re-emitted waits reuse their rows
+  stepStates: Map<string, string>;
+  // Steps already waiting for approval — their re-emitted waits must not request it again
+  awaitingApproval: Set<string>;
+  // Steps already waiting for a message — their re-emitted waits must not subscribe again
+  awaitingMessage: Set<string>;
+  // Steps already waiting for a timer — their re-emitted waits must not schedule it again
+  awaitingTimer: Set<string>;
+}
+
+/**
+ * A reviewer's decision on an approval request, applied to the step waiting on it.
+ */
+export interface ApprovalDecision {
+  approvalId: string;
+  decision: 'approved' | 'rejected';
+  comment: string | null;
+  decidedBy: string | null;
+  decidedAt: string;
+  // Nobody decided before the deadline; `decision` is the policy's timeout outcome
+  expired?: boolean;
+  // Values the reviewers filled into the task's form
+  formData?: Record<string, any>;
+  // Reviewers' individual votes, for requests resolved by a review policy
+  votes?: Array<{ userId: string; email: string | null; vote: 'approved' | 'rejected'; comment: string | null; at: string }>;
+}
+
+// Registered by executeFlow for each live run; releases the step waiting on the approval
+type ApprovalHandler = (step: FlowStep, decision: ApprovalDecision) => Promise<void>;
+
+// Registered by executeFlow for each live run; releases the catch event waiting for the message
+type MessageHandler = (step: FlowStep, message: DeliveredMessage) => Promise<void>;
+
+// Registered by executeFlow for each live run; releases the catch event waiting for the timer
+type TimerHandler = (step: FlowStep, timer: RunTimer) => Promise<void>;
+
+/**
+ * Engine activities paused at a step until an approval, message or timer releases them, by
+ * step ID. A release can arrive before activity.wait has registered its activity (a recovered
+ * engine re-emits its waits while resuming), so `take` waits for the registration.
+ */
+class StepWaits {
+  private activities = new Map<string, any>();
+  private takers = new Map<string, (api: any) => void>();
+
+  set(stepId: string, api: any): void {
+    const take = this.takers.get(stepId);
+    if (take) {
+      this.takers.delete(stepId);
+      take(api);
+    } else {
+      this.activities.set(stepId, api);
+    }
+  }
+
+  delete(stepId: string): void {
+    this.activities.delete(stepId);
+  }
+
+  /**
+   * Remove and return the activity waiting at a step, once it is registered. Fails if none is
+   * within STEP_WAIT_TIMEOUT_MS.
+   */
+  take(step: FlowStep): Promise<any> {
+    const api = this.activities.get(step.id);
+    if (api) {
+      this.activities.delete(step.id);
+      return Promise.resolve(api);
+    }
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.takers.delete(step.id);
+        reject(new Error(`Step "${step.step_name || step.step_key}" is not waiting in the engine`));
+      }, STEP_WAIT_TIMEOUT_MS);
+      timeout.unref();
+      this.takers.set(step.id, registered => {
+        clearTimeout(timeout);
+        resolve(registered);
+      });
+    });
+  }
+}
+
 export class FlowRunner extends EventEmitter {
   private stateManager: StateManager;
   private activeEngines: Map<string, any> = new Map();
-
-  // Max times a single task can execute before we force the "positive" gateway path
-  private static MAX_TASK_ITERATIONS = 3;
-
-  constructor(private pool: Pool) {
+  private approvalHandlers: Map<string, ApprovalHandler> = new Map();
+  private messageHandlers: Map<string, MessageHandler> = new Map();
+  private timerHandlers: Map<string, TimerHandler> = new Map();
+  // Live runs with a wall-clock limit: the check due when their active time runs out
+  private wallClockChecks: Map<string, NodeJS.Timeout> = new Map();
+  private providers: ProviderRegistry;
+  private events: RunEventLog;
+  private budgets: BudgetGuard;
+  private tools: Pick<IntegrationToolClient, 'listTools' | 'invoke'>;
+  private approvals: ApprovalScheduler;
+  private timers: TimerScheduler;
+  private schedules: RunScheduler;
+  private leases: RunLeases;
+
+  constructor(private pool: Pool, tools: Pick<IntegrationToolClient, 'listTools' | 'invoke'> = new IntegrationToolClient()) {
     super();
     this.stateManager = new StateManager(pool);
+    this.providers = new ProviderRegistry(pool);
+    this.events = new RunEventLog(pool);
+    this.budgets = new BudgetGuard(pool);
+    this.tools = tools;
+    this.approvals = new ApprovalScheduler(pool, (approvalId, tenantId) => this.applyApprovalDecision(approvalId, tenantId));
+    this.timers = new TimerScheduler(pool, timer => this.fireTimer(timer));
+    this.schedules = new RunScheduler(pool, (schedule, input) =>
+      this.startRun(schedule.tenantId, schedule.foundationId, input, undefined, schedule.createdBy)
+    );
+    this.leases = new RunLeases(
+      pool,
+      () => [...this.activeEngines.keys()],
+      runIds => runIds.forEach(runId => this.releaseRun(runId)),
+      async () => { await this.reconcileRuns(); }
+    );
+  }
+
+  getProviderRegistry(): ProviderRegistry {
+    return this.providers;
+  }
+
+  getEventLog(): RunEventLog {
+    return this.events;
+  }
+
+  getBudgetGuard(): BudgetGuard {
+    return this.budgets;
+  }
+
+  getApprovalScheduler(): ApprovalScheduler {
+    return this.approvals;
+  }
+
+  getTimerScheduler(): TimerScheduler {
+    return this.timers;
+  }
+
+  getRunScheduler(): RunScheduler {
+    return this.schedules;
+  }
+
+  getRunLeases(): RunLeases {
+    return this.leases;
+  }
+
+  /**
+   * Integration tools for an agent step. Each call is logged as a `tool` sub-step of the step.
+   * Returns undefined when the agent has no tools.
+   */
+  private async agentTools(tenantId: string, runId: string, stepId: string | undefined, stepKey: string, agent: FoundationAgent): Promise<AgentToolset | undefined> {
+    if (!agent.id || !stepId) return undefined;
+    const definitions = await this.tools.listTools(tenantId, agent.id);
+    if (definitions.length === 0) return undefined;
+    console.log(`[flow-runner] "${agent.name}" can call: ${definitions.map(t => t.name).join(', ')}`);
+
+    return {
+      definitions: definitions.map(({ name, description, parameters }) => ({ name, description, parameters })),
+      invoke: async (call: ToolCall) => {
+        let toolStepId: string | undefined;
+        try {
+          const step = await this.stateManager.createToolStep(runId, stepId, `${stepKey}/${call.name}`, call.name, call.arguments, agent.id, agent.name);
+          toolStepId = step.id;
+          await this.publish(tenantId, runId, 'step.update', { step, parentStepId: stepId });
+        } catch (err: any) {
+          console.error(`[flow-runner] Error logging tool call ${call.name}:`, err.message);
+        }
+
+        try {
+          const { integration, result } = await this.tools.invoke(tenantId, agent.id, call);
+          console.log(`[flow-runner] 🔧 ${call.name} completed for "${agent.name}"`);
+          if (toolStepId) {
+            await this.stateManager.updateStepStatus(toolStepId, 'completed', { integration, result });
+            await this.publish(tenantId, runId, 'step.update', { stepId: toolStepId, parentStepId: stepId, status: 'completed' });
+          }
+          return JSON.stringify(result ?? null).substring(0, MAX_TOOL_RESULT_CHARS);
+        } catch (err: any) {
+          console.error(`[flow-runner] 🔧 ${call.name} failed for "${agent.name}":`, err.message);
+          if (toolStepId) {
+            await this.stateManager.updateStepStatus(toolStepId, 'failed', undefined, err.message);
+            await this.publish(tenantId, runId, 'step.update', { stepId: toolStepId, parentStepId: stepId, status: 'failed', error: err.message });
+          }
+          return `Error: ${err.message}`;
+        }
+      },
+    };
+  }
+
+  /**
+   * Record LLM usage for a run. Accounting failures are logged, never fatal to the run.
+   */
+  private async recordUsage(context: UsageContext, calls: LLMCallUsage[]): Promise<void> {
+    try {
+      await this.stateManager.recordUsage(context, calls);
+    } catch (err: any) {
+      console.error(`[flow-runner] Failed to record LLM usage for run ${context.runId}:`, err.message);
+    }
+  }
+
+  /**
+   * Emit a runner event in-process and append it to the persisted run event log.
+   */
+  private async publish(tenantId: string, runId: string, type: RunEventType, data: Record<string, any> = {}): Promise<void> {
+    this.emit(type, { runId, ...data });
+    await this.events.append(tenantId, runId, type, data);
   }
 
   /**
-   * Parse BPMN XML to build task→agent mapping via participant/process structure
+   * Parse BPMN XML to build task→agent mapping via participant/process structure and lanes
    */
   private buildTaskAgentMap(bpmnXml: string, agents: FoundationAgent[]): TaskAgentMapping {
     const mapping: TaskAgentMapping = {};
@@ -77,6 +404,29 @@ export class FlowRunner extends EventEmitter {
       }
     }
 
+    // Lanes within a process are agents too (imported models): a task in a leaf lane
+    // named after an agent goes to that agent instead of the participant's
+    const taskIds = new Set<string>();
+    const allTasksRegex = /<bpmn:(?:serviceTask|task|sendTask)\s+id="([^"]+)"\s+name="([^"]+)"/g;
+    while ((m = allTasksRegex.exec(bpmnXml)) !== null) {
+      taskIds.add(m[1]);
+    }
+    const laneRegex = /<bpmn:lane\s+id="[^"]+"\s+name="([^"]+)"[^>]*>((?:(?!<bpmn:lane\b)[\s\S])*?)<\/bpmn:lane>/g;
+    while ((m = laneRegex.exec(bpmnXml)) !== null) {
+      const laneName = m[1];
+      const agent = agentLookup.get(laneName.toLowerCase())
+        || agentLookup.get(laneName.replace(/\s+agent$/i, '').toLowerCase());
+      if (!agent) continue;
+
+      const refRegex = /<bpmn:flowNodeRef>\s*([^<\s]+)\s*<\/bpmn:flowNodeRef>/g;
+      let rm;
+      while ((rm = refRegex.exec(m[2])) !== null) {
+        if (!taskIds.has(rm[1])) continue;
+        mapping[rm[1]] = agent;
+        console.log(`[flow-runner] Mapped task ${rm[1]} in lane "${laneName}" → agent "${agent.name}"`);
+      }
+    }
+
     return mapping;
   }
 
@@ -89,15 +439,16 @@ export class FlowRunner extends EventEmitter {
    * Parse gateway outgoing flows from BPMN XML.
    * Returns map of gatewayId → [{ id, name, targetRef, condition }]
    */
-  private parseGatewayFlows(processXml: string): Map<string, { id: string; name: string; targetRef: string; condition?: string }[]> {
-    const gatewayFlows = new Map<string, { id: string; name: string; targetRef: string; condition?: string }[]>();
+  private parseGatewayFlows(processXml: string): Map<string, GatewayFlow[]> {
+    const gatewayFlows = new Map<string, GatewayFlow[]>();
 
     // Find all exclusive gateways
-    const gwRegex = /<bpmn:exclusiveGateway\s+id="([^"]+)"[^>]*(?:name="([^"]*)")?/g;
+    const gwRegex = /<bpmn:exclusiveGateway\s+id="([^"]+)"([^>]*)>/g;
     let gm;
     while ((gm = gwRegex.exec(processXml)) !== null) {
       const gwId = gm[1];
-      const flows: { id: string; name: string; targetRef: string; condition?: string }[] = [];
+      const defaultFlowId = gm[2].match(/default="([^"]+)"/)?.[1];
+      const flows: GatewayFlow[] = [];
 
       // Find all sequence flows FROM this gateway
       const flowRegex = new RegExp(`<bpmn:sequenceFlow\\s+id="([^"]+)"\\s+(?:name="([^"]*)"\\s+)?sourceRef="${gwId}"\\s+targetRef="([^"]+)"[^>]*>([\\s\\S]*?)</bpmn:sequenceFlow>|<bpmn:sequenceFlow\\s+id="([^"]+)"\\s+(?:name="([^"]*)"\\s+)?sourceRef="${gwId}"\\s+targetRef="([^"]+)"[^/]*/?>`, 'g');
@@ -115,7 +466,7 @@ export class FlowRunner extends EventEmitter {
           condition = condMatch[1].trim();
         }
 
-        flows.push({ id: flowId, name: flowName, targetRef, condition });
+        flows.push({ id: flowId, name: flowName, targetRef, condition, isDefault: flowId === defaultFlowId });
       }
 
       if (flows.length > 0) {
@@ -126,7 +477,93 @@ export class FlowRunner extends EventEmitter {
     return gatewayFlows;
   }
 
-  private extractExecutableProcess(bpmnXml: string, orchestratorAgent: FoundationAgent): { xml: string, humanTaskIds: Set<string>, gatewayFlows: Map<string, { id: string; name: string; targetRef: string; condition?: string }[]>, dataContracts: Map<string, TaskDataContract> } {
+  /**
+   * Parse parallel gateway fork/join pairs from BPMN XML.
+   * Returns map of joinGatewayId → region, so outputs can be merged when the join fires.
+   */
+  private parseParallelRegions(processXml: string): Map<string, ParallelRegion> {
+    const regions = new Map<string, ParallelRegion>();
+
+    // Collect sequence flows regardless of attribute order
+    const outgoing = new Map<string, string[]>();
+    const incomingCount = new Map<string, number>();
+    const seqFlowRegex = /<bpmn:sequenceFlow\s+([^>]*?)\/?>/g;
+    let sm;
+    while ((sm = seqFlowRegex.exec(processXml)) !== null) {
+      const source = sm[1].match(/sourceRef="([^"]+)"/)?.[1];
+      const target = sm[1].match(/targetRef="([^"]+)"/)?.[1];
+      if (!source || !target) continue;
+      outgoing.set(source, [...(outgoing.get(source) || []), target]);
+      incomingCount.set(target, (incomingCount.get(target) || 0) + 1);
+    }
+
+    const parallelGatewayIds = new Set<string>();
+    const pgRegex = /<bpmn:parallelGateway\s+id="([^"]+)"/g;
+    let pm;
+    while ((pm = pgRegex.exec(processXml)) !== null) {
+      parallelGatewayIds.add(pm[1]);
+    }
+
+    const isFork = (id: string) => parallelGatewayIds.has(id) && (outgoing.get(id)?.length || 0) > 1;
+    const isJoin = (id: string) => parallelGatewayIds.has(id) && (incomingCount.get(id) || 0) > 1;
+
+    for (const forkId of parallelGatewayIds) {
+      if (!isFork(forkId)) continue;
+
+      let joinId: string | null = null;
+      const branches: string[][] = [];
+
+      for (const branchStart of outgoing.get(forkId)!) {
+        const branch: string[] = [];
+        const visited = new Set<string>();
+        // Walk the branch; nested fork/join pairs are passed through by tracking depth
+        const walk = (nodeId: string, depth: number) => {
+          if (visited.has(nodeId)) return;
+          visited.add(nodeId);
+          let nextDepth = depth;
+          if (isJoin(nodeId)) {
+            if (depth === 0) {
+              joinId = joinId || nodeId;
+              return;
+            }
+            nextDepth--;
+          }
+          if (isFork(nodeId)) nextDepth++;
+          branch.push(nodeId);
+          for (const next of outgoing.get(nodeId) || []) walk(next, nextDepth);
+        };
+        walk(branchStart, 0);
+        branches.push(branch);
+      }
+
+      if (joinId) {
+        regions.set(joinId, { forkId, joinId, branches });
+        console.log(`[flow-runner] Parallel region ${forkId} → ${joinId} with ${branches.length} branches`);
+      }
+    }
+
+    return regions;
+  }
+
+  /**
+   * Find tasks with multiInstanceLoopCharacteristics (parallel or sequential).
+   */
+  private parseMultiInstanceTasks(processXml: string): Map<string, MultiInstanceSpec> {
+    const tasks = new Map<string, MultiInstanceSpec>();
+    const taskRegex = /<bpmn:(serviceTask|task|sendTask|userTask)\s+id="([^"]+)"[^>]*(?<!\/)>([\s\S]*?)<\/bpmn:\1>/g;
+    let m;
+    while ((m = taskRegex.exec(processXml)) !== null) {
+      const loopMatch = m[3].match(/<bpmn:multiInstanceLoopCharacteristics\b([^>]*)/);
+      if (!loopMatch) continue;
+      tasks.set(m[2], {
+        isSequential: /isSequential="true"/.test(loopMatch[1]),
+        elementVariable: loopMatch[1].match(/camunda:elementVariable="([^"]+)"/)?.[1],
+      });
+    }
+    return tasks;
+  }
+
+  private extractExecutableProcess(bpmnXml: string, orchestratorAgent: FoundationAgent): ExecutableProcess {
     // Find orchestrator participant's processRef
     const participantRegex = /<bpmn:participant\s+id="[^"]+"\s+name="([^"]+)"\s+processRef="([^"]+)"/g;
     let orchestratorProcessId: string | null = null;
@@ -213,6 +650,25 @@ export class FlowRunner extends EventEmitter {
     // Parse gateway outgoing flows before conversion
     const gatewayFlows = this.parseGatewayFlows(procMatch[1]);
 
+    // Parallel fork/join regions and multi-instance tasks run concurrently via bpmn-engine
+    const parallelRegions = this.parseParallelRegions(procMatch[1]);
+    const multiInstanceTasks = this.parseMultiInstanceTasks(procMatch[1]);
+    if (multiInstanceTasks.size > 0) {
+      console.log(`[flow-runner] Multi-instance tasks: ${[...multiInstanceTasks.keys()].join(', ')}`);
+    }
+
+    // Message catch events pause the run until their message is delivered
+    const messageEvents = parseMessageCatchEvents(procMatch[1], bpmnXml);
+    if (messageEvents.size > 0) {
+      console.log(`[flow-runner] Message catch events: ${[...messageEvents].map(([id, e]) => `${id} ("${e.messageName}")`).join(', ')}`);
+    }
+
+    // Timer catch events pause the run until the TimerScheduler fires them
+    const timerEvents = parseTimerCatchEvents(procMatch[1]);
+    if (timerEvents.size > 0) {
+      console.log(`[flow-runner] Timer catch events: ${[...timerEvents].map(([id, t]) => `${id} (${t.type} ${t.value})`).join(', ')}`);
+    }
+
     // Parse data contracts from full BPMN (documentation blocks may be in any process)
     const dataContracts = parseTaskDataContracts(bpmnXml);
     console.log(`[flow-runner] Parsed ${dataContracts.size} task data contracts`);
@@ -223,9 +679,11 @@ export class FlowRunner extends EventEmitter {
       .replace(/<bpmn:serviceTask/g, '<bpmn:userTask')
       .replace(/<\/bpmn:serviceTask>/g, '</bpmn:userTask>')
       .replace(/#\{/g, '${');
+    processBody = replaceTimerDefinitions(processBody, timerEvents);
 
-    // Replace condition expressions with simple variable checks for AI routing.
-    // The route variable will be set BEFORE gateway evaluation by the preceding task handler.
+    // Replace condition expressions with simple route-variable checks.
+    // The original conditions are evaluated by decideGatewayRoute (falling back to AI routing),
+    // and the route variable is set BEFORE gateway evaluation by the preceding task handler.
     for (const [gwId, flows] of gatewayFlows.entries()) {
       for (const flow of flows) {
         // Remove existing conditions from flows coming out of this gateway
@@ -238,21 +696,82 @@ export class FlowRunner extends EventEmitter {
     }
 
     // Build a minimal executable BPMN with just this process
-    console.log(`[flow-runner] Parsed ${gatewayFlows.size} exclusive gateways with AI-routable conditions`);
+    console.log(`[flow-runner] Parsed ${gatewayFlows.size} exclusive gateways with routable conditions`);
 
     const xml = `<?xml version="1.0" encoding="UTF-8"?>
 <definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL" 
              xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL"
              xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+             xmlns:camunda="http://camunda.org/schema/1.0/bpmn"
              id="Definitions_1" targetNamespace="http://flowgrid.io/bpmn">
   <process id="${orchestratorProcessId}" isExecutable="true">
     ${processBody}
   </process>
 </definitions>`;
-    return { xml, humanTaskIds, gatewayFlows, dataContracts };
+    return { xml, processId: orchestratorProcessId, humanTaskIds, gatewayFlows, dataContracts, parallelRegions, multiInstanceTasks, messageEvents, timerEvents };
   }
 
-  async startRun(tenantId: string, foundationId: string, inputData: any, orchestratorId?: string): Promise<FlowRun> {
+  /**
+   * bpmn-engine options shared by new and recovered engines (the source is added for new runs).
+   */
+  private engineOptions(runId: string): any {
+    return {
+      name: `run-${runId}`,
+      moddleOptions: { camunda: camundaModdle },
+      expressions: {
+        resolveExpression(expression: string, context: any, expressionFnContext?: any): any {
+          // Handle ${} wrapper
+          const match = expression.match(/^\$\{(.+)\}$/);
+          if (!match) return expression;
+          const inner = match[1].trim();
+
+          // Handle comparison expressions: varName == 'value' or varName === 'value'
+          const compMatch = inner.match(/^(\w+(?:\.\w+)*)\s*={2,3}\s*['"]([^'"]+)['"]\s*$/);
+          if (compMatch) {
+            const varPath = compMatch[1];
+            const expectedValue = compMatch[2];
+            const actual = resolveVariablePath(context, varPath);
+            const result = String(actual).toLowerCase() === expectedValue.toLowerCase();
+            console.log(`[flow-runner] Expression: ${inner} → ${varPath}="${actual}" == "${expectedValue}" → ${result}`);
+            return result;
+          }
+
+          // Handle != comparisons
+          const neqMatch = inner.match(/^(\w+(?:\.\w+)*)\s*!=\s*['"]([^'"]+)['"]\s*$/);
+          if (neqMatch) {
+            const varPath = neqMatch[1];
+            const expectedValue = neqMatch[2];
+            const actual = resolveVariablePath(context, varPath);
+            return String(actual).toLowerCase() !== expectedValue.toLowerCase();
+          }
+
+          // Handle plain variables: ${varName} or ${order.lines} (flags, multi-instance collections)
+          if (/^\w+(?:\.\w+)*$/.test(inner)) {
+            return resolveVariablePath(context, inner);
+          }
+
+          // Fallback: try to resolve as-is
+          console.log(`[flow-runner] Unhandled expression: ${expression}`);
+          return undefined;
+        },
+        isExpression(text: string): boolean {
+          if (!text) return false;
+          return /^\$\{.+\}$/.test(text);
+        },
+        hasExpression(text: string): boolean {
+          if (!text) return false;
+          return /\$\{.+?\}/.test(text);
+        },
+      },
+    };
+  }
+
+  /**
+   * Load the foundation's agents and orchestrator and build the executable process.
+   * `bpmnXml` overrides the orchestrator's current BPMN (used when recovering a run,
+   * so it continues on the process it started with).
+   */
+  private async prepareFlow(tenantId: string, foundationId: string, orchestratorId?: string, bpmnXml?: string): Promise<PreparedFlow> {
     // Load foundation
     const foundationResult = await this.pool.query(
       `SELECT * FROM foundations WHERE id = $1 AND tenant_id = $2`,
@@ -277,144 +796,472 @@ export class FlowRunner extends EventEmitter {
       throw new Error('No orchestrator with BPMN found in this foundation');
     }
 
-    const fullBpmnXml = orchestrator.config.bpmnXml;
+    const fullBpmnXml = bpmnXml || orchestrator.config.bpmnXml;
+    const loopPolicies = loopPolicyConfigFromMetadata(foundationResult.rows[0].metadata);
+    const approvalPolicy = approvalPolicyFromMetadata(foundationResult.rows[0].metadata);
 
     // Build task→agent mapping from full BPMN
     const taskAgentMap = this.buildTaskAgentMap(fullBpmnXml, agents);
     console.log(`[flow-runner] Task mappings: ${Object.keys(taskAgentMap).length} tasks mapped`);
 
+    // Review policies on the BPMN task win over one configured on the task's agent
+    const reviewPolicies = parseReviewPolicies(fullBpmnXml);
+    for (const [taskId, agent] of Object.entries(taskAgentMap)) {
+      const agentPolicy = agent.config?.reviewPolicy;
+      if (!agentPolicy || reviewPolicies.has(taskId)) continue;
+      const error = validateReviewPolicy(agentPolicy);
+      if (error) {
+        console.warn(`[flow-runner] Ignoring review policy of agent "${agent.name}": ${error}`);
+        continue;
+      }
+      reviewPolicies.set(taskId, agentPolicy);
+    }
+
     // Extract executable single-process BPMN
-    let executableBpmn: string;
-    let humanTaskIds = new Set<string>();
-    let gatewayFlows = new Map<string, { id: string; name: string; targetRef: string; condition?: string }[]>();
-    let dataContracts = new Map<string, TaskDataContract>();
+    let executable: ExecutableProcess;
     try {
-      const extracted = this.extractExecutableProcess(fullBpmnXml, orchestrator);
-      executableBpmn = extracted.xml;
-      humanTaskIds = extracted.humanTaskIds;
-      gatewayFlows = extracted.gatewayFlows;
-      dataContracts = extracted.dataContracts;
+      executable = this.extractExecutableProcess(fullBpmnXml, orchestrator);
     } catch (err: any) {
       console.log(`[flow-runner] Could not extract process, using full BPMN: ${err.message}`);
-      executableBpmn = fullBpmnXml;
+      const timerEvents = parseTimerCatchEvents(fullBpmnXml);
+      executable = {
+        xml: replaceTimerDefinitions(fullBpmnXml, timerEvents),
+        processId: null,
+        humanTaskIds: new Set(),
+        gatewayFlows: new Map(),
+        dataContracts: new Map(),
+        parallelRegions: new Map(),
+        multiInstanceTasks: new Map(),
+        messageEvents: parseMessageCatchEvents(fullBpmnXml, fullBpmnXml),
+        timerEvents,
+      };
     }
 
-    // Create run record
-    const run = await this.stateManager.createRun(tenantId, foundationId, inputData, orchestrator.id);
+    return { foundationId, bpmnXml: fullBpmnXml, executable, agents, taskAgentMap, loopPolicies, approvalPolicy, reviewPolicies, orchestrator };
+  }
+
+  /**
+   * Check a BPMN before it is deployed: the static checks of bpmn-validator, run against
+   * the process and task→agent mapping this runner would use, plus whether bpmn-engine
+   * can load the executable process. Without an orchestrator the first non-human process
+   * is checked, as at run time.
+   */
+  async validateBpmn(bpmnXml: string, agents: FoundationAgent[], orchestrator?: FoundationAgent): Promise<BpmnValidationResult> {
+    const taskAgentMap = this.buildTaskAgentMap(bpmnXml, agents);
+    let executable: ExecutableProcess | null = null;
+    try {
+      executable = this.extractExecutableProcess(bpmnXml, orchestrator || { id: '', name: '', config: {} });
+    } catch (err: any) {
+      console.log(`[flow-runner] Validation: ${err.message}`);
+    }
 
-    // Execute asynchronously
-    this.executeFlow(run, executableBpmn, agents, taskAgentMap, humanTaskIds, gatewayFlows, dataContracts, tenantId, inputData).catch(err => {
-      console.error(`[flow-runner] Run ${run.id} failed:`, err.message);
+    const result = validateBpmn(bpmnXml, {
+      agentNames: agents.map(agent => agent.name),
+      taskAgents: Object.fromEntries(Object.entries(taskAgentMap).map(([taskId, agent]) => [taskId, agent.name])),
+      processId: executable?.processId ?? null,
+      orchestratorName: orchestrator?.name,
+      contractTaskIds: new Set(executable?.dataContracts.keys() || []),
     });
 
+    if (executable) {
+      try {
+        await Engine({ ...this.engineOptions('validation'), source: executable.xml }).getDefinitions();
+      } catch (err: any) {
+        result.errors.push({ code: 'engine_load_failed', message: `The process can't be loaded for execution: ${err.message}` });
+        result.valid = false;
+      }
+    }
+    return result;
+  }
+
+  async startRun(
+    tenantId: string, foundationId: string, inputData: any, orchestratorId?: string, startedBy?: string, businessKey?: string
+  ): Promise<FlowRun> {
+    const prepared = await this.prepareFlow(tenantId, foundationId, orchestratorId);
+
+    // Create the run record, refused when the tenant or foundation is at its concurrency or monthly spend limit
+    const run = await this.budgets.admitRun(tenantId, foundationId, db => this.stateManager.createRun(
+      tenantId, foundationId, inputData, this.leases.owner, prepared.orchestrator.id, startedBy, businessKey, db
+    ));
+    await this.launchRun(run, prepared);
     return run;
   }
 
+  /**
+   * Replay a finished run: a new run of its foundation, with the current agent configuration,
+   * that reuses the parent's recorded step outputs up to `fromStepId` (default: its first
+   * failed step) and executes live from there. `stepInput` is merged into that step's input.
+   */
+  async replayRun(
+    runId: string, tenantId: string, options: { fromStepId?: string; stepInput?: Record<string, any> } = {}, startedBy?: string
+  ): Promise<FlowRun> {
+    const parent = await this.stateManager.getRun(runId, tenantId);
+    if (!parent) throw new ReplayError('Run not found');
+    if (parent.status === 'running' || parent.status === 'paused') {
+      throw new ReplayError(`Run is still ${parent.status}; only finished runs can be replayed`);
+    }
+    const parentSteps = await this.stateManager.getSteps(parent.id);
+    const fromStep = replayStartStep(parentSteps, options.fromStepId);
+
+    const prepared = await this.prepareFlow(tenantId, parent.foundation_id);
+    const run = await this.budgets.admitRun(tenantId, parent.foundation_id, db => this.stateManager.createRun(
+      tenantId, parent.foundation_id, parent.input_data, this.leases.owner, prepared.orchestrator.id, startedBy,
+      parent.business_key || undefined, db
+    ));
+    await this.stateManager.setReplaySource(run.id, parent.id, fromStep.id, options.stepInput);
+    console.log(`[flow-runner] Replaying run ${parent.id} as ${run.id} from "${fromStep.step_name || fromStep.step_key}"`);
+    await this.launchRun(run, prepared, new ReplayPlan(parent.id, fromStep, parentSteps, options.stepInput));
+    return { ...run, parent_run_id: parent.id, replay_from_step_id: fromStep.id, replay_step_input: options.stepInput || null };
+  }
+
+  /**
+   * Snapshot a newly created run and execute it in the background.
+   */
+  private async launchRun(run: FlowRun, prepared: PreparedFlow, replay?: ReplayPlan): Promise<void> {
+    try {
+      await this.stateManager.createSnapshot(run.id, run.tenant_id, prepared.bpmnXml);
+    } catch (err: any) {
+      console.error(`[flow-runner] Could not create snapshot for run ${run.id} — it will not survive a restart:`, err.message);
+    }
+
+    await this.publish(run.tenant_id, run.id, 'run.started', {
+      foundationId: run.foundation_id,
+      orchestratorId: prepared.orchestrator.id,
+      ...(replay && { replayOf: replay.parentRunId, fromStepId: replay.fromStep.id }),
+    });
+
+    // Execute asynchronously
+    this.executeFlow(run.id, prepared, run.tenant_id, run.input_data, undefined, replay).catch(err => {
+      console.error(`[flow-runner] Run ${run.id} failed:`, err.message);
+    });
+  }
+
   private async executeFlow(
-    run: FlowRun, 
-    bpmnXml: string, 
-    agents: FoundationAgent[], 
-    taskAgentMap: TaskAgentMapping,
-    humanTaskIds: Set<string>,
-    gatewayFlows: Map<string, { id: string; name: string; targetRef: string; condition?: string }[]>,
-    dataContracts: Map<string, TaskDataContract>,
+    runId: string,
+    prepared: PreparedFlow,
     tenantId: string, 
-    inputData: any
+    inputData: any,
+    recovered?: RecoveredRun,
+    replay?: ReplayPlan
   ): Promise<void> {
-    const runId = run.id;
-    let lastOutput: any = inputData;
-    const stepStates = new Map<string, string>();
-    const taskIterations = new Map<string, number>(); // track how many times each task has executed
+    const { executable, taskAgentMap, loopPolicies } = prepared;
+    const { xml: bpmnXml, humanTaskIds, gatewayFlows, dataContracts, parallelRegions, multiInstanceTasks, messageEvents, timerEvents } = executable;
+    const restored = recovered?.snapshot.runner_state;
+    let lastOutput: any = restored ? restored.lastOutput : inputData;
+    const stepStates = recovered?.stepStates || new Map<string, string>();
+    const awaitingApproval = recovered?.awaitingApproval || new Set<string>();
+    const awaitingMessage = recovered?.awaitingMessage || new Set<string>();
+    const awaitingTimer = recovered?.awaitingTimer || new Set<string>();
+    const taskIterations = new Map<string, number>(Object.entries(restored?.taskIterations || {})); // track how many times each task has executed
+    const countedSteps = new Map<string, string>(Object.entries(restored?.countedSteps || {})); // step row last counted per task
 
     // Initialize structured flow state for smart context passing
-    const flowState: FlowState = {
+    const flowState: FlowState = restored?.flowState || {
       originalRequest: inputData?.request || inputData?.input?.request || JSON.stringify(inputData).substring(0, 500),
       flowSummary: '',
       taskOutputs: {},
     };
 
     try {
-      const engine: any = Engine({
-        name: `run-${runId}`,
-        source: bpmnXml,
-        expressions: {
-          resolveExpression(expression: string, context: any, expressionFnContext?: any): any {
-            // Handle ${} wrapper
-            const match = expression.match(/^\$\{(.+)\}$/);
-            if (!match) return expression;
-            const inner = match[1].trim();
-
-            // Handle comparison expressions: varName == 'value' or varName === 'value'
-            const compMatch = inner.match(/^(\w+(?:\.\w+)*)\s*={2,3}\s*['"]([^'"]+)['"]\s*$/);
-            if (compMatch) {
-              const varPath = compMatch[1];
-              const expectedValue = compMatch[2];
-              // Resolve variable from environment.variables or context
-              let actual: any;
-              const parts = varPath.split('.');
-              if (parts.length === 1) {
-                // Simple variable: look in environment.variables first, then context
-                actual = context?.environment?.variables?.[parts[0]] 
-                  ?? context?.variables?.[parts[0]]
-                  ?? context?.[parts[0]];
-              } else {
-                // Dotted path: traverse
-                actual = context;
-                for (const p of parts) {
-                  actual = actual?.[p];
-                }
-              }
-              const result = String(actual).toLowerCase() === expectedValue.toLowerCase();
-              console.log(`[flow-runner] Expression: ${inner} → ${varPath}="${actual}" == "${expectedValue}" → ${result}`);
-              return result;
-            }
+      const engine: any = recovered
+        ? Engine(this.engineOptions(runId)).recover(recovered.snapshot.engine_state)
+        : Engine({ ...this.engineOptions(runId), source: bpmnXml });
 
-            // Handle != comparisons
-            const neqMatch = inner.match(/^(\w+(?:\.\w+)*)\s*!=\s*['"]([^'"]+)['"]\s*$/);
-            if (neqMatch) {
-              const varPath = neqMatch[1];
-              const expectedValue = neqMatch[2];
-              let actual: any;
-              const parts = varPath.split('.');
-              if (parts.length === 1) {
-                actual = context?.environment?.variables?.[parts[0]] 
-                  ?? context?.variables?.[parts[0]]
-                  ?? context?.[parts[0]];
-              } else {
-                actual = context;
-                for (const p of parts) {
-                  actual = actual?.[p];
-                }
-              }
-              return String(actual).toLowerCase() !== expectedValue.toLowerCase();
-            }
+      this.activeEngines.set(runId, engine);
 
-            // Handle simple boolean: ${varName}
-            if (/^\w+$/.test(inner)) {
-              const val = context?.environment?.variables?.[inner]
-                ?? context?.variables?.[inner]
-                ?? context?.[inner];
-              return val;
+      const listener = new EventEmitter();
+      const completedByWait = new Set<string>();
+      // Settles when activity.start has finished with the element's step row. The engine emits
+      // activity.end (and activity.wait) without waiting for the start handler, so events and
+      // gateways would otherwise end before their row exists.
+      const stepsStarted = new Map<string, Promise<void>>();
+      // latest pre-routing decision per gateway
+      const gatewayDecisions = new Map<string, GatewayDecision>(Object.entries(restored?.gatewayDecisions || {}));
+
+      // A breached budget fails the step, any other steps still running, and the run
+      const stopOverBudget = async (err: BudgetExceededError, stepId?: string) => {
+        console.log(`[flow-runner] 💸 ${err.message} — failing run ${runId}`);
+        const budget = { limit: err.limit, scope: err.scope, limitValue: err.limitValue, actual: err.actual };
+        if (stepId) {
+          await this.stateManager.updateStepStatus(stepId, 'failed', { budget }, err.message);
+          await this.publish(tenantId, runId, 'step.update', { stepId, status: 'failed', error: err.message });
+        }
+        await this.stateManager.failInterruptedSteps(runId, err.message);
+        await this.failRun(runId, tenantId, err.message, { code: err.code, budget });
+      };
+
+      // Before every provider call; only a breach stops the call, a failed check is logged
+      const checkSpend: SpendCheck = async pending => {
+        try {
+          await this.budgets.checkRun(runId, tenantId, prepared.foundationId, pending);
+        } catch (err: any) {
+          if (err instanceof BudgetExceededError) throw err;
+          console.error(`[flow-runner] Budget check failed for run ${runId}, continuing:`, err.message);
+        }
+      };
+
+      // Before every agent task
+      const withinBudget = async (stepId?: string): Promise<boolean> => {
+        try {
+          await checkSpend([]);
+          return true;
+        } catch (err: any) {
+          await stopOverBudget(err, stepId);
+          return false;
+        }
+      };
+
+      // Wall-clock limit: checked again when the run's active time is due to run out, so a run
+      // waiting on a tool call or stepping through tasks without provider calls is stopped too
+      const watchWallClock = async () => {
+        if (this.activeEngines.get(runId) !== engine) return;
+        let delayMs = WALL_CLOCK_RETRY_MS;
+        try {
+          const remaining = await this.budgets.wallClockRemaining(runId, tenantId, prepared.foundationId);
+          if (remaining === null) return;
+          delayMs = Math.max(remaining * 1000, MIN_WALL_CLOCK_CHECK_MS);
+        } catch (err: any) {
+          if (err instanceof BudgetExceededError) {
+            if (this.activeEngines.get(runId) === engine) await stopOverBudget(err);
+            return;
+          }
+          console.error(`[flow-runner] Wall-clock check failed for run ${runId}, retrying:`, err.message);
+        }
+        if (this.activeEngines.get(runId) !== engine) return;
+        const check = setTimeout(watchWallClock, delayMs);
+        check.unref();
+        this.wallClockChecks.set(runId, check);
+      };
+
+      // Persist engine + runner state after each step; writes are chained so they land in order
+      let snapshotChain: Promise<void> = Promise.resolve();
+      const saveSnapshot = () => {
+        snapshotChain = snapshotChain.then(async () => {
+          if (this.activeEngines.get(runId) !== engine) return;
+          try {
+            const runnerState: RunnerState = {
+              lastOutput,
+              flowState,
+              taskIterations: Object.fromEntries(taskIterations),
+              countedSteps: Object.fromEntries(countedSteps),
+              gatewayDecisions: Object.fromEntries(gatewayDecisions),
+            };
+            await this.stateManager.saveSnapshot(runId, await engine.getState(), runnerState);
+          } catch (err: any) {
+            console.error(`[flow-runner] Failed to save snapshot for run ${runId}:`, err.message);
+          }
+        });
+        return snapshotChain;
+      };
+
+
+      // Pre-route ALL gateways with latest context (re-routes on every task for loops)
+      // Use flow summary + latest task output for concise, relevant context
+      // Returns false when the run was failed over budget before a routing call
+      const routeGateways = async (api: any, latestTaskOutput?: Record<string, any>): Promise<boolean> => {
+        const contextParts = [
+          `Flow summary: ${flowState.flowSummary || 'Flow just started.'}`,
+          `Original request: ${flowState.originalRequest}`,
+          latestTaskOutput ? `Latest output: ${JSON.stringify(latestTaskOutput).substring(0, 800)}` : '',
+        ];
+        const context = contextParts.filter(Boolean).join('\n').substring(0, 2000);
+        const conditionScope = buildConditionScope(flowState, latestTaskOutput);
+        
+        for (const [gwId, flows] of gatewayFlows.entries()) {
+          if (flows.length > 0) {
+            const gwNameMatch = bpmnXml.match(new RegExp(`<bpmn:exclusiveGateway\\s+id="${gwId}"[^>]*name="([^"]+)"`));
+            const gatewayName = gwNameMatch ? gwNameMatch[1] : gwId;
+            
+            // A replay takes the parent run's route until it passes its starting step
+            const recordedRoute: GatewayDecision | undefined = replay?.recordedRoute(gwId);
+            console.log(`[flow-runner] 🤖 ${recordedRoute ? 'Replaying route of' : 'Pre-routing'} gateway "${gatewayName}"`);
+            let decision: GatewayDecision;
+            try {
+              decision = recordedRoute || await this.decideGatewayRoute(tenantId, gatewayName, flows, conditionScope, context, checkSpend);
+            } catch (err: any) {
+              if (!(err instanceof BudgetExceededError)) throw err;
+              await stopOverBudget(err);
+              return false;
             }
+            gatewayDecisions.set(gwId, decision);
+            if (decision.usage) {
+              await this.recordUsage({ tenantId, runId, foundationId: prepared.foundationId, elementId: gwId }, [decision.usage]);
+            }
+            api.environment.variables[`_route_${gwId}`] = decision.flowId;
+            console.log(`[flow-runner] 🤖 Routed "${gatewayName}" → "${decision.flowId}" (${decision.mode}: ${decision.reason})`);
+          }
+        }
+        return true;
+      };
 
-            // Fallback: try to resolve as-is
-            console.log(`[flow-runner] Unhandled expression: ${expression}`);
-            return undefined;
-          },
-          isExpression(text: string): boolean {
-            if (!text) return false;
-            return /^\$\{.+\}$/.test(text);
-          },
-          hasExpression(text: string): boolean {
-            if (!text) return false;
-            return /\$\{.+?\}/.test(text);
-          },
-        },
+      // Tasks paused for approval, by step ID, so a reviewer's decision can release them
+      const approvalWaits = new StepWaits();
+
+      // A reviewer's decision releases the waiting task. The decision and comment become the
+      // task's output and flow variables, so the gateway after it can send a rejection to rework.
+      this.approvalHandlers.set(runId, async (step: FlowStep, decision: ApprovalDecision) => {
+        const api = await approvalWaits.take(step);
+        awaitingApproval.delete(step.id);
+
+        const elementId = api.id;
+        const elementName = api.name || api.id;
+        const approved = decision.decision === 'approved';
+        const approval = { ...decision, approved };
+        const outputData = { ...(step.output_data || {}), approval };
+        console.log(`[flow-runner] 🙋 "${elementName}" ${decision.decision} by ${decision.decidedBy || 'unknown reviewer'}`);
+        await this.publish(tenantId, runId, 'approval.decided', { stepId: step.id, ...approval });
+
+        // Rejecting a loop escalation ends the run (approving already granted a new round)
+        // and so does rejecting a task with no gateway after it to route the rework
+        const reworkGateway = [...gatewayFlows.keys()].some(gwId => this.flowsInto(bpmnXml, elementId, gwId));
+        if (!approved && (step.output_data?.loopPolicy || !reworkGateway)) {
+          const error = decision.expired
+            ? `"${elementName}" expired without a decision and was rejected by policy`
+            : `"${elementName}" was rejected${decision.comment ? `: ${decision.comment}` : ''}`;
+          await this.stateManager.updateStepStatus(step.id, 'failed', outputData, error);
+          await this.publish(tenantId, runId, 'step.update', { stepId: step.id, status: 'failed', error });
+          await this.failRun(runId, tenantId, error, {
+            code: decision.expired ? 'approval_expired' : 'approval_rejected', approvalId: decision.approvalId,
+          });
+          return;
+        }
+
+        // Form values become the task's output for downstream agents (checked again here,
+        // agent-service validated them when they were submitted)
+        const formSchema = dataContracts.get(elementId)?.formSchema;
+        const form = approved && formSchema ? validateFormSubmission(decision.formData || {}, formSchema) : null;
+        if (form?.errors.length) {
+          console.warn(`[flow-runner] ⚠️ "${elementName}" form: ${form.errors.map(e => e.message).join('; ')}`);
+        }
+
+        const decisionOutput = { approvalDecision: decision.decision, approved, approvalComment: decision.comment || '' };
+        const taskOutput = {
+          ...(flowState.taskOutputs[elementId] || {}),
+          ...form?.values,
+          ...(form?.errors.length && { _formErrors: form.errors }),
+          ...decisionOutput,
+        };
+        flowState.taskOutputs[elementId] = taskOutput;
+        flowState.flowSummary = updateFlowSummary(flowState.flowSummary, elementName, { ...form?.values, ...decisionOutput });
+        lastOutput = { ...lastOutput, ...form?.values, _approval: approval };
+        Object.assign(api.environment.variables, decisionOutput);
+
+        completedByWait.add(step.id);
+        await this.stateManager.updateStepStatus(step.id, 'completed', form ? { ...outputData, formData: form.values } : outputData);
+        await this.publish(tenantId, runId, 'step.update', { stepId: step.id, status: 'completed', approval });
+
+        if (!(await routeGateways(api, taskOutput))) return;
+        api.signal();
+        saveSnapshot();
       });
 
-      this.activeEngines.set(runId, engine);
+      // Catch events waiting for a message, by step ID
+      const messageWaits = new StepWaits();
 
-      const listener = new EventEmitter();
+      // A delivered message releases the waiting catch event. Its payload becomes the event's
+      // output, so downstream tasks and gateway conditions can use it.
+      this.messageHandlers.set(runId, async (step: FlowStep, message: DeliveredMessage) => {
+        const api = await messageWaits.take(step);
+        awaitingMessage.delete(step.id);
+
+        const elementId = api.id;
+        const elementName = api.name || api.id;
+        const output = messageOutput(message.payload);
+        console.log(`[flow-runner] 📨 "${elementName}" received message "${message.name}" from ${message.source}`);
+
+        flowState.taskOutputs[elementId] = output;
+        flowState.flowSummary = updateFlowSummary(flowState.flowSummary, elementName, output);
+        lastOutput = { ...lastOutput, _message: { name: message.name, payload: message.payload } };
+
+        completedByWait.add(step.id);
+        await this.stateManager.updateStepStatus(step.id, 'completed', { message });
+        await this.publish(tenantId, runId, 'message.received', { stepId: step.id, elementId, messageName: message.name, source: message.source });
+        await this.publish(tenantId, runId, 'step.update', { stepId: step.id, status: 'completed' });
+
+        if (!(await routeGateways(api, output))) return;
+        api.signal();
+        saveSnapshot();
+      });
+
+      // Catch events waiting for a timer, by step ID
+      const timerWaits = new StepWaits();
+
+      // A fired timer releases the waiting catch event; when it fired is its output
+      this.timerHandlers.set(runId, async (step: FlowStep, timer: RunTimer) => {
+        const api = await timerWaits.take(step);
+        awaitingTimer.delete(step.id);
+
+        const elementId = api.id;
+        const elementName = api.name || api.id;
+        const output = { timer: { type: timer.timer_type, value: timer.timer_value, dueAt: timer.due_at, firedAt: new Date().toISOString() } };
+        console.log(`[flow-runner] ⏰ "${elementName}" timer fired (${timer.timer_type} ${timer.timer_value})`);
+
+        flowState.taskOutputs[elementId] = output;
+        flowState.flowSummary = updateFlowSummary(flowState.flowSummary, elementName, output);
+
+        completedByWait.add(step.id);
+        await this.stateManager.updateStepStatus(step.id, 'completed', output);
+        await this.publish(tenantId, runId, 'timer.fired', { stepId: step.id, elementId, dueAt: timer.due_at });
+        await this.publish(tenantId, runId, 'step.update', { stepId: step.id, status: 'completed' });
+
+        if (!(await routeGateways(api, output))) return;
+        api.signal();
+        saveSnapshot();
+      });
+
+      // Replay a step from the parent run's recorded row: its output feeds the flow state and
+      // variables the way the live step's did, without calling the agent or waiting again
+      const replayRecordedStep = async (api: any, stepId: string, stepKey: string, instanceIndex: number | undefined, recorded: FlowStep) => {
+        const elementId = api.id;
+        const elementName = api.name || api.id;
+        const output = recorded.output_data || {};
+        console.log(`[flow-runner] ⏪ "${elementName}" replayed from step ${recorded.id} (${recorded.status})`);
+
+        let taskOutput: Record<string, any> = {};
+        if (typeof output.response === 'string') {
+          lastOutput = { ...lastOutput, [stepKey]: output.response, _lastOutput: output.response };
+          if (!output.approval) {
+            taskOutput = extractStructuredOutput(output.response, dataContracts.get(elementId));
+            Object.assign(api.environment.variables, this.extractDecisionVariables(output.response));
+          }
+        }
+        if (output.approval) {
+          const decisionOutput = {
+            approvalDecision: output.approval.decision, approved: output.approval.approved, approvalComment: output.approval.comment || '',
+          };
+          taskOutput = { ...output.formData, ...decisionOutput };
+          lastOutput = { ...lastOutput, ...output.formData, _approval: output.approval };
+          Object.assign(api.environment.variables, decisionOutput);
+        } else if (output.message) {
+          taskOutput = messageOutput(output.message.payload);
+          lastOutput = { ...lastOutput, _message: { name: output.message.name, payload: output.message.payload } };
+        } else if (output.timer) {
+          taskOutput = output;
+        }
+
+        // Loop iterations count as they did in the parent run (an approved escalation starts a new round)
+        if (instanceIndex === undefined) {
+          taskIterations.set(elementId, output.loopPolicy ? 0 : (taskIterations.get(elementId) || 0) + 1);
+          countedSteps.set(elementId, stepId);
+        }
+        if (recorded.status === 'completed' && Object.keys(taskOutput).length > 0) {
+          if (instanceIndex !== undefined) {
+            recordInstanceOutput(flowState, elementId, instanceIndex, taskOutput);
+          } else {
+            flowState.taskOutputs[elementId] = taskOutput;
+            flowState.flowSummary = updateFlowSummary(flowState.flowSummary, elementName, taskOutput);
+            Object.assign(api.environment.variables, this.flattenForEnvironment(taskOutput));
+          }
+        }
+
+        completedByWait.add(stepId);
+        await this.stateManager.replayStep(stepId, recorded);
+        await this.publish(tenantId, runId, 'step.update', { stepId, status: recorded.status, replayedFrom: recorded.id });
+
+        if (!(await routeGateways(api, taskOutput))) return;
+        api.signal();
+        saveSnapshot();
+      };
 
       listener.on('activity.start', async (api: any) => {
         const elementType = api.type;
@@ -429,6 +1276,19 @@ export class FlowRunner extends EventEmitter {
 
         const matchedAgent = taskAgentMap[elementId];
 
+        // A task re-entered through a loop gets a new row; forget the previous one so
+        // activity.wait waits for the new row instead of reusing the old
+        stepStates.delete(elementId);
+        let started!: () => void;
+        stepsStarted.set(elementId, new Promise<void>(resolve => { started = resolve; }));
+
+        // A new multi-instance activation gets fresh per-iteration step rows
+        if (multiInstanceTasks.has(elementId)) {
+          for (const key of [...stepStates.keys()]) {
+            if (key.startsWith(`${elementId}#`)) stepStates.delete(key);
+          }
+        }
+
         try {
           const step = await this.stateManager.createStep(
             runId, elementId, elementName, stepType,
@@ -437,20 +1297,52 @@ export class FlowRunner extends EventEmitter {
           stepStates.set(elementId, step.id);
           await this.stateManager.updateStepStatus(step.id, 'running');
           await this.stateManager.updateStepInput(step.id, lastOutput);
-          this.emit('step.update', { runId, step: { ...step, status: 'running' } });
+          await this.publish(tenantId, runId, 'step.update', { step: { ...step, status: 'running' } });
+
+          // Parallel join: all branches have arrived, merge their outputs in branch order
+          const region = parallelRegions.get(elementId);
+          if (region) {
+            const mergedTasks = mergeBranchOutputs(flowState, region.branches);
+            console.log(`[flow-runner] Joined ${region.branches.length} branches at "${elementName}": [${mergedTasks}]`);
+            await this.stateManager.updateStepStatus(step.id, 'completed', { forkId: region.forkId, branches: region.branches.length, mergedTasks });
+            completedByWait.add(step.id);
+            await this.publish(tenantId, runId, 'step.update', { stepId: step.id, status: 'completed' });
+          }
+
+          // Exclusive gateway: record which mode chose the path and why
+          const decision = gatewayDecisions.get(elementId);
+          if (decision) {
+            const recordedGateway = replay?.takeGateway(elementId);
+            if (recordedGateway) await this.stateManager.replayStep(step.id, recordedGateway);
+            else await this.stateManager.updateStepStatus(step.id, 'completed', { routing: decision });
+            completedByWait.add(step.id);
+            await this.publish(tenantId, runId, 'gateway.decision', { stepId: step.id, gatewayId: elementId, gatewayName: elementName, decision });
+            await this.publish(tenantId, runId, 'step.update', { stepId: step.id, status: 'completed', routing: decision });
+          }
         } catch (err: any) {
           console.error(`[flow-runner] Error creating step for ${elementId}:`, err.message);
+        } finally {
+          started();
         }
       });
 
-      const completedByWait = new Set<string>();
-
       listener.on('activity.end', async (api: any) => {
         const elementId = api.id;
+        await stepsStarted.get(elementId);
         const stepId = stepStates.get(elementId);
+
+        // Multi-instance task finished all iterations — merge outputs in loop-index order
+        let outputData: Record<string, any> | undefined;
+        if (multiInstanceTasks.has(elementId) && flowState.instanceOutputs?.[elementId]) {
+          const merged = mergeInstanceOutputs(flowState, elementId);
+          flowState.flowSummary = updateFlowSummary(flowState.flowSummary, api.name || elementId, merged);
+          Object.assign(api.environment.variables, this.flattenForEnvironment(merged));
+          outputData = { instances: merged._instances };
+        }
+
         if (stepId && !completedByWait.has(stepId)) {
-          await this.stateManager.updateStepStatus(stepId, 'completed');
-          this.emit('step.update', { runId, stepId, status: 'completed' });
+          await this.stateManager.updateStepStatus(stepId, 'completed', outputData);
+          await this.publish(tenantId, runId, 'step.update', { stepId, status: 'completed' });
         }
         completedByWait.delete(stepId || '');
       });
@@ -458,22 +1350,136 @@ export class FlowRunner extends EventEmitter {
       listener.on('activity.wait', async (api: any) => {
         const elementId = api.id;
         const elementName = api.name || api.id;
-        // Wait for activity.start to finish creating the step (race condition)
+        await stepsStarted.get(elementId);
+        // The run may have failed while the step was starting: nothing is left to release it
+        if (this.activeEngines.get(runId) !== engine) return;
         let stepId = stepStates.get(elementId);
-        if (!stepId) {
-          for (let i = 0; i < 20; i++) {
-            await new Promise(r => setTimeout(r, 100));
-            stepId = stepStates.get(elementId);
-            if (stepId) break;
+        const isHumanTask = humanTaskIds.has(elementId);
+
+        // Multi-instance iteration: each instance gets its own flow_steps row and loop item
+        const instanceIndex: number | undefined = api.content?.isMultiInstance ? api.content.index : undefined;
+        const stepKey = instanceIndex === undefined ? elementId : `${elementId}#${instanceIndex}`;
+        let instanceInput: Record<string, any> | undefined;
+        if (instanceIndex !== undefined) {
+          const elementVariable = multiInstanceTasks.get(elementId)?.elementVariable || 'item';
+          instanceInput = { _instanceIndex: instanceIndex };
+          if (api.content[elementVariable] !== undefined) {
+            instanceInput[elementVariable] = api.content[elementVariable];
+          }
+          const instanceAgent = taskAgentMap[elementId];
+          // After recovery the interrupted iteration already has a row
+          stepId = stepStates.get(stepKey);
+          if (!stepId) {
+            try {
+              const step = await this.stateManager.createStep(
+                runId, stepKey, `${elementName} [${instanceIndex + 1}]`, 'agent',
+                instanceAgent?.id || undefined, instanceAgent?.name || undefined
+              );
+              stepId = step.id;
+              stepStates.set(stepKey, step.id);
+              await this.stateManager.updateStepStatus(step.id, 'running');
+              await this.stateManager.updateStepInput(step.id, { ...lastOutput, ...instanceInput });
+              await this.publish(tenantId, runId, 'step.update', { step: { ...step, status: 'running' } });
+            } catch (err: any) {
+              console.error(`[flow-runner] Error creating instance step for ${stepKey}:`, err.message);
+            }
           }
         }
-        const isHumanTask = humanTaskIds.has(elementId);
 
-        // Handle IntermediateCatchEvent (e.g., signal/message catch) — auto-signal to continue
+        // Replay: steps before the replay's starting step take their outcome from the parent run
+        const recordedStep = stepId ? replay?.takeStep(stepKey) : undefined;
+        if (recordedStep && stepId) {
+          await replayRecordedStep(api, stepId, stepKey, instanceIndex, recordedStep);
+          return;
+        }
+        // ...and the starting step may be given edited input
+        const editedInput = replay?.takeStepInput(stepKey);
+        if (editedInput) {
+          instanceInput = { ...instanceInput, ...editedInput };
+          if (stepId) await this.stateManager.updateStepInput(stepId, { ...lastOutput, ...instanceInput });
+        }
+
+        // Recovered run: this task already asked for approval before the restart — keep waiting
+        if (stepId && awaitingApproval.has(stepId)) {
+          console.log(`[flow-runner] "${elementName}" is still waiting for approval (recovered run)`);
+          approvalWaits.set(stepId, api);
+          return;
+        }
+
+        // Recovered run: this catch event was already waiting for its message — keep waiting
+        if (stepId && awaitingMessage.has(stepId)) {
+          console.log(`[flow-runner] "${elementName}" is still waiting for a message (recovered run)`);
+          messageWaits.set(stepId, api);
+          return;
+        }
+
+        // Recovered run: this catch event's timer is already scheduled — keep waiting
+        if (stepId && awaitingTimer.has(stepId)) {
+          console.log(`[flow-runner] "${elementName}" is still waiting for its timer (recovered run)`);
+          timerWaits.set(stepId, api);
+          return;
+        }
+
+        // Timer catch event (its timer definition was replaced by a plain wait): schedule the
+        // timer and pause until the TimerScheduler fires it
+        const timerDefinition = timerEvents.get(elementId);
+        if (timerDefinition && stepId) {
+          completedByWait.add(stepId);
+          timerWaits.set(stepId, api);
+          let timer: RunTimer;
+          try {
+            const value = resolveTimerValue(timerDefinition.value, { ...inputData, ...buildConditionScope(flowState) });
+            const dueAt = timerDueAt({ type: timerDefinition.type, value });
+            timer = await this.stateManager.createRunTimer(tenantId, runId, stepId, elementId, timerDefinition.type, value, dueAt);
+          } catch (err: any) {
+            // An invalid timer value (TimerDefinitionError) or a failed insert: the run cannot wait
+            timerWaits.delete(stepId);
+            console.error(`[flow-runner] Could not schedule the timer of "${elementName}": ${err.message}`);
+            await this.stateManager.updateStepStatus(stepId, 'failed', undefined, err.message);
+            await this.failRun(runId, tenantId, `Could not schedule the timer of "${elementName}": ${err.message}`, { stepId });
+            return;
+          }
+          console.log(`[flow-runner] ⏳ "${elementName}" waiting until ${timer.due_at.toISOString()}`);
+          awaitingTimer.add(stepId);
+          await this.stateManager.updateRunStatus(runId, 'paused');
+          await this.publish(tenantId, runId, 'timer.scheduled', { stepId, elementId, dueAt: timer.due_at });
+          await this.publish(tenantId, runId, 'step.update', { stepId, status: 'waiting_timer', dueAt: timer.due_at });
+          this.timers.track(timer);
+          saveSnapshot();
+          return;
+        }
+
+        // Message catch event (the wait comes from its bpmn:MessageEventDefinition): pause
+        // until the message is delivered
+        const messageEvent = messageEvents.get(elementId);
+        if (messageEvent && stepId) {
+          const { messageName } = messageEvent;
+          console.log(`[flow-runner] 📭 "${elementName}" waiting for message "${messageName}"`);
+          completedByWait.add(stepId);
+          messageWaits.set(stepId, api);
+          try {
+            const run = await this.stateManager.getRunById(runId);
+            const correlationKey = resolveCorrelationKey(messageEvent, { ...inputData, ...buildConditionScope(flowState) }, run?.business_key);
+            await this.stateManager.createMessageSubscription(tenantId, runId, stepId, prepared.foundationId, elementId, messageName, correlationKey);
+            awaitingMessage.add(stepId);
+            await this.stateManager.updateRunStatus(runId, 'paused');
+            await this.publish(tenantId, runId, 'message.waiting', { stepId, elementId, messageName, correlationKey });
+            await this.publish(tenantId, runId, 'step.update', { stepId, status: 'waiting_message', messageName });
+          } catch (err: any) {
+            console.error(`[flow-runner] Error subscribing to message "${messageName}":`, err.message);
+            messageWaits.delete(stepId);
+            api.signal();
+          }
+          saveSnapshot();
+          return;
+        }
+
+        // Other catch events (signal, conditional) are not awaited yet — auto-signal to continue
         if (api.type === 'bpmn:IntermediateCatchEvent') {
           console.log(`[flow-runner] IntermediateCatchEvent "${elementName}" — auto-signaling to continue`);
           if (stepId) await this.stateManager.updateStepStatus(stepId, 'completed', { note: 'Auto-signaled catch event' });
           api.signal();
+          saveSnapshot();
           return;
         }
 
@@ -485,17 +1491,32 @@ export class FlowRunner extends EventEmitter {
           let agentOutput = '';
           const matchedAgent = taskAgentMap[elementId];
           if (matchedAgent) {
+            if (!(await withinBudget(stepId))) return;
             try {
               const agentConfig: any = {
                 name: matchedAgent.name,
                 system_prompt: matchedAgent.config?.systemPrompt || matchedAgent.config?.purpose,
+                provider: matchedAgent.config?.provider,
                 model: matchedAgent.config?.model,
                 purpose: matchedAgent.config?.purpose,
               };
-              const result = await executeAgent(agentConfig, {
+              const llm = await this.providers.resolve(tenantId, { provider: agentConfig.provider, model: agentConfig.model });
+              const tools = await this.agentTools(tenantId, runId, stepId, elementId, matchedAgent);
+              const output = this.events.createOutputStream(tenantId, runId, stepId, elementId);
+              const result = await executeAgent(llm, agentConfig, {
                 ...lastOutput,
+                ...instanceInput,
                 _currentTask: elementName,
-              });
+              }, undefined, output.push, tools, checkSpend);
+              await output.flush();
+              await this.recordUsage(
+                { tenantId, runId, foundationId: prepared.foundationId, stepId, elementId, agentId: matchedAgent.id, agentName: matchedAgent.name },
+                result.usage
+              );
+              if (result.budgetExceeded) {
+                await stopOverBudget(result.budgetExceeded, stepId);
+                return;
+              }
               if (result.success) {
                 agentOutput = result.output;
                 lastOutput = { ...lastOutput, [elementId]: result.output, _lastOutput: result.output };
@@ -504,80 +1525,133 @@ export class FlowRunner extends EventEmitter {
               console.error(`[flow-runner] Agent error before HITL pause:`, err.message);
             }
           }
+          // Fields the reviewer fills in, prefilled from the agent's proposal and earlier task outputs
+          const formSchema = buildTaskForm(dataContracts.get(elementId), [
+            agentOutput ? extractStructuredOutput(agentOutput, dataContracts.get(elementId)) : null,
+            ...Object.values(flowState.taskOutputs).reverse(),
+            inputData,
+          ]);
           // Now create approval with the agent's analysis as context
           try {
-            const approvalResult = await this.pool.query(
-              `INSERT INTO approval_requests (tenant_id, title, description, context, urgency)
-               VALUES ($1, $2, $3, $4, 'normal')
-               RETURNING *`,
-              [tenantId, `Review needed: ${elementName}`, 
-               agentOutput || `Flow run is waiting for human review at step "${elementName}"`,
-               JSON.stringify({ runId, stepId: elementId, agentAnalysis: agentOutput, input: lastOutput })]
-            );
-            const approval = approvalResult.rows[0];
-            await this.stateManager.setStepApproval(stepId, approval.id);
-            await this.stateManager.updateStepStatus(stepId, 'waiting_approval', { response: agentOutput });
             completedByWait.add(stepId);
-            await this.stateManager.updateRunStatus(runId, 'paused');
-            this.emit('step.update', { runId, stepId, status: 'waiting_approval', approvalId: approval.id });
+            await this.requestApproval(runId, tenantId, stepId, prepared.approvalPolicy, {
+              title: `Review needed: ${elementName}`,
+              description: agentOutput || `Flow run is waiting for human review at step "${elementName}"`,
+              context: { runId, stepId: elementId, agentAnalysis: agentOutput, input: lastOutput },
+              outputData: { response: agentOutput },
+              reviewPolicy: prepared.reviewPolicies.get(elementId),
+              formSchema,
+            });
+            awaitingApproval.add(stepId);
+            approvalWaits.set(stepId, api);
           } catch (err: any) {
             console.error(`[flow-runner] Error creating approval:`, err.message);
             api.signal();
           }
+          saveSnapshot();
           return;
         }
 
-        // Track iterations for loop detection
-        const iterations = (taskIterations.get(elementId) || 0) + 1;
-        taskIterations.set(elementId, iterations);
+        // Track iterations for loop detection. A multi-instance activation counts once, against
+        // the activation's own step row whichever instance waits first, and a wait re-emitted
+        // after recovery doesn't count again for the same step row
+        let iterations = taskIterations.get(elementId) || 0;
+        const countedStepId = instanceIndex === undefined ? stepId : stepStates.get(elementId);
+        if (!(countedStepId && countedSteps.get(elementId) === countedStepId)) {
+          iterations++;
+          taskIterations.set(elementId, iterations);
+          if (countedStepId) countedSteps.set(elementId, countedStepId);
+        }
         console.log(`[flow-runner] Task "${elementName}" iteration #${iterations}`);
 
-        // If we've hit max iterations, force positive path by setting all gateway variables to positive values
-        if (iterations >= FlowRunner.MAX_TASK_ITERATIONS) {
-          console.log(`[flow-runner] ⚠️ Task "${elementName}" hit max iterations (${FlowRunner.MAX_TASK_ITERATIONS}), forcing positive gateway path`);
-          // Set common validation/quality variables to their "positive" values
-          const forceVars: Record<string, string> = {
-            validationStatus: 'valid',
-            conceptQuality: 'acceptable',
-            approvalStatus: 'approved',
-            briefValid: 'true',
-            isValid: 'true',
-            status: 'valid',
-            result: 'approved',
+        // Loop policy: once a task has used up its iterations, apply the configured outcome
+        const { policy: loopPolicy, source: policySource } = resolveLoopPolicy(elementId, loopPolicies);
+        if (iterations > loopPolicy.maxIterations) {
+          const executed = iterations - 1;
+          const outcome: LoopPolicyOutcome = {
+            taskId: elementId,
+            iterations: executed,
+            policy: loopPolicy,
+            source: policySource,
+            action: loopPolicy.onExhausted,
+            detail: '',
+            at: new Date().toISOString(),
           };
-          Object.assign(api.environment.variables, forceVars);
-          // Force gateway routes to the last (happy) path
-          for (const [gwId, flows] of gatewayFlows.entries()) {
-            if (flows.length > 0) {
-              const happyPath = flows[flows.length - 1].id;
-              api.environment.variables[`_route_${gwId}`] = happyPath;
-              console.log(`[flow-runner] Forced gateway "${gwId}" → happy path "${happyPath}"`);
+          console.log(`[flow-runner] ⚠️ Task "${elementName}" exhausted loop policy (${executed}/${loopPolicy.maxIterations}) → ${loopPolicy.onExhausted}`);
+
+          if (loopPolicy.onExhausted === 'take_flow') {
+            const target = this.findGatewayFlow(gatewayFlows, loopPolicy.flow || '');
+            if (target) {
+              outcome.detail = `Routed gateway "${target.gatewayId}" to flow "${target.flow.name || target.flow.id}"`;
+              api.environment.variables[`_route_${target.gatewayId}`] = target.flow.id;
+              gatewayDecisions.set(target.gatewayId, {
+                flowId: target.flow.id,
+                mode: 'loop_policy',
+                reason: `Loop policy of "${elementName}" exhausted after ${executed} iterations`,
+                decidedAt: outcome.at,
+              });
+              if (stepId) {
+                await this.stateManager.updateStepStatus(stepId, 'completed', { loopPolicy: outcome });
+                completedByWait.add(stepId);
+              }
+              api.signal();
+              saveSnapshot();
+              return;
             }
+            outcome.detail = `Flow "${loopPolicy.flow}" not found on any gateway; run failed instead`;
           }
-          console.log(`[flow-runner] Forced environment variables:`, JSON.stringify(forceVars));
-          if (stepId) await this.stateManager.updateStepStatus(stepId, 'completed', { note: `Forced after ${iterations} iterations` });
-          api.signal();
+
+          if (loopPolicy.onExhausted === 'escalate' && stepId) {
+            outcome.detail = 'Escalated to human approval; approving grants the task a new round of iterations';
+            taskIterations.set(elementId, 0);
+            try {
+              completedByWait.add(stepId);
+              await this.requestApproval(runId, tenantId, stepId, prepared.approvalPolicy, {
+                title: `Loop limit reached: ${elementName}`,
+                description: `"${elementName}" ran ${executed} times without leaving its loop. Approve to let it try again, or cancel the run.`,
+                context: { runId, stepId: elementId, loopPolicy: outcome, flowSummary: flowState.flowSummary },
+                outputData: { loopPolicy: outcome },
+                urgency: 'high',
+              });
+              awaitingApproval.add(stepId);
+              approvalWaits.set(stepId, api);
+              saveSnapshot();
+              return;
+            } catch (err: any) {
+              console.error(`[flow-runner] Error escalating loop for "${elementName}":`, err.message);
+              outcome.detail = `Escalation failed (${err.message}); run failed instead`;
+            }
+          }
+
+          const error = `Loop limit reached: "${elementName}" ran ${executed} times (max ${loopPolicy.maxIterations})`;
+          if (!outcome.detail) outcome.detail = 'Run failed';
+          if (stepId) await this.stateManager.updateStepStatus(stepId, 'failed', { loopPolicy: outcome }, error);
+          await this.failRun(runId, tenantId, error);
           return;
         }
 
         // Converted service task → execute agent LLM call
+        let latestTaskOutput: Record<string, any> | undefined = flowState.taskOutputs[elementId];
         const matchedAgent = taskAgentMap[elementId];
         if (matchedAgent && matchedAgent.config) {
+          if (!(await withinBudget(stepId))) return;
           try {
             const agentConfig: AgentConfig = {
               name: matchedAgent.name,
               system_prompt: matchedAgent.config?.system_prompt || matchedAgent.config?.systemPrompt,
+              provider: matchedAgent.config?.provider,
               model: matchedAgent.config?.model,
               purpose: matchedAgent.config?.purpose || matchedAgent.config?.detailedPurpose,
             };
-            console.log(`[flow-runner] Executing "${elementName}" via "${matchedAgent.name}"`);
+            const llm = await this.providers.resolve(tenantId, { provider: agentConfig.provider, model: agentConfig.model });
+            console.log(`[flow-runner] Executing "${elementName}" via "${matchedAgent.name}" (${llm.providerName}/${llm.model})`);
 
             // Build scoped context if data contract exists for this task
             const contract = dataContracts.get(elementId);
             let scopedContext: ScopedContext | undefined;
 
-            if (contract && contract.inputKeys.length > 0) {
-              const scopedInput = buildScopedInput(elementId, elementName, contract, flowState);
+            if (contract && (contract.inputKeys.length > 0 || contract.outputKeys.length > 0)) {
+              const scopedInput = buildScopedInput(elementId, elementName, contract, flowState, instanceInput);
               scopedContext = {
                 taskName: elementName,
                 skillName: contract.skillName,
@@ -586,22 +1660,60 @@ export class FlowRunner extends EventEmitter {
                 flowSummary: flowState.flowSummary,
                 originalRequest: flowState.originalRequest,
                 outputKeys: contract.outputKeys,
+                contract,
               };
               console.log(`[flow-runner] Using scoped context for "${elementName}" — input keys: [${contract.inputKeys}], output keys: [${contract.outputKeys}]`);
+
+              // Missing or mistyped inputs don't stop the task; they are reported on the step
+              if (scopedInput._inputErrors && stepId) {
+                console.log(`[flow-runner] ⚠️ "${elementName}" input contract: ${scopedInput._inputErrors.map((e: any) => e.message).join('; ')}`);
+                await this.stateManager.updateStepInput(stepId, { ...lastOutput, ...instanceInput, _inputErrors: scopedInput._inputErrors });
+                await this.publish(tenantId, runId, 'step.update', { stepId, status: 'running', inputErrors: scopedInput._inputErrors });
+              }
             }
 
+            const tools = await this.agentTools(tenantId, runId, stepId, stepKey, matchedAgent);
+            const output = this.events.createOutputStream(tenantId, runId, stepId, stepKey);
             const result = await executeAgent(
+              llm,
               agentConfig,
               scopedContext ? undefined : {
                 ...lastOutput,
+                ...instanceInput,
                 _currentTask: elementName,
                 _agentRole: matchedAgent.config?.pattern,
               },
-              scopedContext
+              scopedContext,
+              output.push,
+              tools,
+              checkSpend
             );
+            await output.flush();
+            await this.recordUsage(
+              { tenantId, runId, foundationId: prepared.foundationId, stepId, elementId, agentId: matchedAgent.id, agentName: matchedAgent.name },
+              result.usage
+            );
+            if (result.budgetExceeded) {
+              await stopOverBudget(result.budgetExceeded, stepId);
+              return;
+            }
+
+            // Output still violates the task's contract after the repair prompts: fail the step and the run
+            if (result.success && result.contractErrors?.length) {
+              const error = `Output of "${elementName}" violates its data contract: ${result.contractErrors.map(e => e.message).join('; ')}`;
+              console.log(`[flow-runner] ❌ ${error} (after ${result.repairAttempts} repair attempts)`);
+              if (stepId) {
+                await this.stateManager.updateStepStatus(stepId, 'failed', {
+                  response: result.output, contractErrors: result.contractErrors, repairAttempts: result.repairAttempts,
+                }, error);
+                await this.publish(tenantId, runId, 'step.update', { stepId, status: 'failed', error, contractErrors: result.contractErrors });
+              }
+              await this.failRun(runId, tenantId, error, { code: 'contract_violation', contractErrors: result.contractErrors });
+              return;
+            }
 
             if (result.success) {
-              lastOutput = { ...lastOutput, [elementId]: result.output, _lastOutput: result.output };
+              lastOutput = { ...lastOutput, [stepKey]: result.output, _lastOutput: result.output };
               if (stepId) {
                 // Parse out DALL-E images if present
               let outputData: Record<string, any> = { response: result.output };
@@ -619,56 +1731,54 @@ export class FlowRunner extends EventEmitter {
               console.log(`[flow-runner] Saving output for "${elementName}" stepId=${stepId} outputLen=${JSON.stringify(outputData).length}`);
               await this.stateManager.updateStepStatus(stepId, 'completed', outputData);
                 completedByWait.add(stepId);
+                await this.publish(tenantId, runId, 'step.update', { stepId, status: 'completed' });
               }
 
               // Extract structured output and store in flow state
-              const structuredOutput = extractStructuredOutput(result.output, contract);
-              flowState.taskOutputs[elementId] = structuredOutput;
-              flowState.flowSummary = updateFlowSummary(flowState.flowSummary, elementName, structuredOutput);
+              const structuredOutput = result.structuredOutput
+                ? { ...result.structuredOutput, _raw: result.output }
+                : extractStructuredOutput(result.output, contract);
+              latestTaskOutput = structuredOutput;
+              if (instanceIndex !== undefined) {
+                // Merged into taskOutputs once every iteration has completed (activity.end)
+                recordInstanceOutput(flowState, elementId, instanceIndex, structuredOutput);
+              } else {
+                flowState.taskOutputs[elementId] = structuredOutput;
+                flowState.flowSummary = updateFlowSummary(flowState.flowSummary, elementName, structuredOutput);
+              }
               console.log(`[flow-runner] Flow summary: "${flowState.flowSummary.substring(0, 200)}"`);
 
-              // Extract decision variables from agent output and set in environment
-              const extractedVars = this.extractDecisionVariables(result.output);
+              // Extract decision variables from agent output and set in environment (a single task's
+              // structured output too; iterations are exposed once merged)
+              const extractedVars = {
+                ...this.extractDecisionVariables(result.output),
+                ...(instanceIndex === undefined && this.flattenForEnvironment(structuredOutput)),
+              };
               if (Object.keys(extractedVars).length > 0) {
                 Object.assign(api.environment.variables, extractedVars);
                 console.log(`[flow-runner] Set environment variables from agent output:`, JSON.stringify(extractedVars));
               }
-            } else {
-              if (stepId) await this.stateManager.updateStepStatus(stepId, 'failed', undefined, result.error);
+            } else if (stepId) {
+              await this.stateManager.updateStepStatus(stepId, 'failed', undefined, result.error);
+              await this.publish(tenantId, runId, 'step.update', { stepId, status: 'failed', error: result.error });
             }
           } catch (err: any) {
             console.error(`[flow-runner] Agent error for ${elementId}:`, err.message);
-            if (stepId) await this.stateManager.updateStepStatus(stepId, 'failed', undefined, err.message);
+            if (stepId) {
+              await this.stateManager.updateStepStatus(stepId, 'failed', undefined, err.message);
+              await this.publish(tenantId, runId, 'step.update', { stepId, status: 'failed', error: err.message });
+            }
           }
         } else {
           console.log(`[flow-runner] No agent for "${elementName}" — pass through`);
           if (stepId) await this.stateManager.updateStepStatus(stepId, 'completed', { note: 'Pass-through' });
         }
 
-        // Pre-route ALL gateways with latest context (re-routes on every task for loops)
-        // Use flow summary + latest task output for concise, relevant context
-        const latestTaskOutput = flowState.taskOutputs[elementId];
-        const contextParts = [
-          `Flow summary: ${flowState.flowSummary || 'Flow just started.'}`,
-          `Original request: ${flowState.originalRequest}`,
-          latestTaskOutput ? `Latest output: ${JSON.stringify(latestTaskOutput).substring(0, 800)}` : '',
-        ];
-        const context = contextParts.filter(Boolean).join('\n').substring(0, 2000);
-        
-        for (const [gwId, flows] of gatewayFlows.entries()) {
-          if (flows.length > 0) {
-            const gwNameMatch = bpmnXml.match(new RegExp(`<bpmn:exclusiveGateway\\s+id="${gwId}"[^>]*name="([^"]+)"`));
-            const gatewayName = gwNameMatch ? gwNameMatch[1] : gwId;
-            
-            console.log(`[flow-runner] 🤖 Pre-routing gateway "${gatewayName}"`);
-            const chosenFlowId = await routeGateway(gatewayName, flows, context);
-            api.environment.variables[`_route_${gwId}`] = chosenFlowId;
-            console.log(`[flow-runner] 🤖 Routed "${gatewayName}" → "${chosenFlowId}"`);
-          }
-        }
+        if (!(await routeGateways(api, latestTaskOutput))) return;
 
         // Signal to continue the flow
         api.signal();
+        saveSnapshot();
       });
 
       console.log(`[flow-runner] Human tasks: ${[...humanTaskIds].join(', ') || 'none'}`);
@@ -676,34 +1786,222 @@ export class FlowRunner extends EventEmitter {
       // Register engine-level events before executing
       engine.on('end', async () => {
         await this.stateManager.updateRunStatus(runId, 'completed', lastOutput);
-        this.activeEngines.delete(runId);
-        this.emit('run.complete', { runId });
+        this.forgetRun(runId);
+        await snapshotChain;
+        await this.stateManager.deleteSnapshot(runId).catch((err: any) =>
+          console.error(`[flow-runner] Failed to delete snapshot for run ${runId}:`, err.message));
+        await this.publish(tenantId, runId, 'run.complete');
         console.log(`[flow-runner] Run ${runId} completed`);
       });
 
+      // Failed like any other failed run, so no message or timer resumes it later
       engine.on('error', async (err: any) => {
         console.error(`[flow-runner] Engine error for run ${runId}:`, err.message);
-        await this.stateManager.updateRunStatus(runId, 'failed', undefined, err.message);
-        this.activeEngines.delete(runId);
-        this.emit('run.error', { runId, error: err.message });
+        if (this.activeEngines.get(runId) !== engine) return;
+        await this.stateManager.failInterruptedSteps(runId, err.message);
+        await this.failRun(runId, tenantId, err.message);
       });
 
       listener.on('activity.enter', (api: any) => {
         console.log(`[flow-runner] ENTER: ${api.type} "${api.name || api.id}" (${api.id})`);
       });
 
-      // Execute
-      console.log(`[flow-runner] Starting engine execution...`);
-      const execution = await engine.execute({ listener });
-      console.log(`[flow-runner] Engine execution started, state: ${execution?.state || 'unknown'}`);
+      await watchWallClock();
+      if (this.activeEngines.get(runId) !== engine) return;
+
+      // Execute (or continue a recovered run from its snapshot)
+      if (recovered) {
+        console.log(`[flow-runner] Resuming recovered engine for run ${runId}...`);
+        const execution = await engine.resume({ listener });
+        console.log(`[flow-runner] Recovered engine resumed, state: ${execution?.state || 'unknown'}`);
+      } else {
+        console.log(`[flow-runner] Starting engine execution...`);
+        // Run input fields are variables from the start, e.g. for camunda:collection="${items}"
+        const execution = await engine.execute({ listener, variables: this.flattenForEnvironment(inputData) });
+        console.log(`[flow-runner] Engine execution started, state: ${execution?.state || 'unknown'}`);
+      }
 
     } catch (err: any) {
       console.error(`[flow-runner] Failed to start engine for run ${runId}:`, err.message);
-      await this.stateManager.updateRunStatus(runId, 'failed', undefined, err.message);
-      this.activeEngines.delete(runId);
+      await this.failRun(runId, tenantId, err.message);
+    }
+  }
+
+  /**
+   * Create an approval request for a step and pause the run until it is decided.
+   * The foundation's approval policy sets its deadline and first assignee; the task's
+   * review policy, if any, decides how many reviewers must vote before it resolves, and its
+   * form schema what data they supply when approving.
+   * The user who started the run is recorded as the requester.
+   */
+  private async requestApproval(
+    runId: string,
+    tenantId: string,
+    stepId: string,
+    policy: ApprovalPolicy,
+    request: {
+      title: string; description: string; context: any; outputData: any; urgency?: string;
+      reviewPolicy?: ReviewPolicy; formSchema?: JsonSchema | null;
+    }
+  ): Promise<any> {
+    const approvalResult = await this.pool.query(
+      `INSERT INTO approval_requests
+         (tenant_id, title, description, context, urgency, review_policy, form_schema, flow_instance_id, foundation_id, requested_by)
+       SELECT $1, $2, $3, $4, $5, $6, $7, $8, r.foundation_id, r.started_by
+       FROM (SELECT foundation_id, started_by FROM flow_runs WHERE id = $9) r
+       RETURNING *`,
+      [
+        tenantId, request.title, request.description, JSON.stringify(request.context), request.urgency || 'normal',
+        request.reviewPolicy ? JSON.stringify(request.reviewPolicy) : null,
+        request.formSchema ? JSON.stringify(request.formSchema) : null, runId, runId,
+      ]
+    );
+    const approval = approvalResult.rows[0];
+    await this.approvals.onRequested(approval, policy);
+    await this.stateManager.setStepApproval(stepId, approval.id);
+    await this.stateManager.updateStepStatus(stepId, 'waiting_approval', request.outputData);
+    await this.stateManager.updateRunStatus(runId, 'paused');
+    await this.publish(tenantId, runId, 'approval.requested', {
+      stepId, approvalId: approval.id, title: request.title, urgency: approval.urgency, expiresAt: approval.expires_at,
+    });
+    await this.publish(tenantId, runId, 'step.update', { stepId, status: 'waiting_approval', approvalId: approval.id });
+    return approval;
+  }
+
+  /**
+   * Stop a run's engine and mark the run failed.
+   */
+  private async failRun(runId: string, tenantId: string, error: string, details: Record<string, any> = {}): Promise<void> {
+    const engine = this.activeEngines.get(runId);
+    this.forgetRun(runId);
+    await this.stateManager.cancelMessageSubscriptions(runId);
+    await this.stateManager.cancelRunTimers(runId);
+    await this.stateManager.updateRunStatus(runId, 'failed', undefined, error);
+    await this.publish(tenantId, runId, 'run.error', { error, ...details });
+    try {
+      engine?.stop();
+    } catch (err: any) {
+      console.error(`[flow-runner] Error stopping engine for run ${runId}:`, err.message);
+    }
+  }
+
+  /**
+   * Drop a run's engine, handlers and wall-clock check.
+   */
+  private forgetRun(runId: string): void {
+    this.activeEngines.delete(runId);
+    this.approvalHandlers.delete(runId);
+    this.messageHandlers.delete(runId);
+    this.timerHandlers.delete(runId);
+    clearTimeout(this.wallClockChecks.get(runId));
+    this.wallClockChecks.delete(runId);
+  }
+
+  /**
+   * Stop executing a run another instance has taken over, leaving its state to the new owner.
+   */
+  private releaseRun(runId: string): void {
+    const engine = this.activeEngines.get(runId);
+    this.forgetRun(runId);
+    try {
+      engine?.stop();
+    } catch (err: any) {
+      console.error(`[flow-runner] Error stopping engine for run ${runId}:`, err.message);
     }
   }
 
+  /**
+   * Find a gateway outgoing flow by sequence flow ID or name.
+   */
+  private findGatewayFlow(gatewayFlows: Map<string, GatewayFlow[]>, flowRef: string): { gatewayId: string; flow: GatewayFlow } | null {
+    const ref = flowRef.trim().toLowerCase();
+    if (!ref) return null;
+    for (const [gatewayId, flows] of gatewayFlows.entries()) {
+      const flow = flows.find(f => f.id.toLowerCase() === ref || f.name.toLowerCase() === ref);
+      if (flow) return { gatewayId, flow };
+    }
+    return null;
+  }
+
+  /**
+   * Whether a sequence flow leads directly from one element to another.
+   */
+  private flowsInto(processXml: string, sourceId: string, targetId: string): boolean {
+    return new RegExp(`<bpmn:sequenceFlow\\b(?=[^>]*sourceRef="${sourceId}")(?=[^>]*targetRef="${targetId}")`).test(processXml);
+  }
+
+  /**
+   * Decide an exclusive gateway's outgoing path.
+   * Condition expressions are evaluated deterministically (in flow order, as BPMN does)
+   * against structured task outputs; the LLM router is only consulted when no flow has
+   * a condition, a condition can't be evaluated, or nothing matches and there's no default.
+   */
+  private async decideGatewayRoute(
+    tenantId: string,
+    gatewayName: string,
+    flows: GatewayFlow[],
+    scope: Record<string, any>,
+    context: string,
+    checkSpend?: SpendCheck
+  ): Promise<GatewayDecision> {
+    const conditioned = flows.filter(f => f.condition && !f.isDefault);
+    const evaluations: ConditionEvaluation[] = [];
+    let fallbackReason: string | null = null;
+
+    for (const flow of conditioned) {
+      const result = evaluateCondition(flow.condition!, scope);
+      if (!result.ok) {
+        evaluations.push({ flowId: flow.id, condition: flow.condition!, error: result.error });
+        fallbackReason = `Condition on "${flow.name || flow.id}" could not be evaluated: ${result.error}`;
+        break;
+      }
+      evaluations.push({ flowId: flow.id, condition: flow.condition!, result: result.value });
+      if (result.value) {
+        return {
+          flowId: flow.id,
+          mode: 'condition',
+          reason: `Condition ${flow.condition} evaluated to true`,
+          conditions: evaluations,
+          decidedAt: new Date().toISOString(),
+        };
+      }
+    }
+
+    if (conditioned.length === 0) {
+      fallbackReason = 'No condition expressions on outgoing flows';
+    } else if (!fallbackReason) {
+      const defaultFlow = flows.find(f => f.isDefault) || flows.find(f => !f.condition);
+      if (defaultFlow) {
+        return {
+          flowId: defaultFlow.id,
+          mode: 'default',
+          reason: `No condition matched; took default flow "${defaultFlow.name || defaultFlow.id}"`,
+          conditions: evaluations,
+          decidedAt: new Date().toISOString(),
+        };
+      }
+      fallbackReason = 'No condition matched and gateway has no default flow';
+    }
+
+    let route: GatewayRoute;
+    try {
+      const llm = await this.providers.resolve(tenantId);
+      route = await routeGateway(llm, gatewayName, flows, context, checkSpend);
+    } catch (err: any) {
+      if (err instanceof BudgetExceededError) throw err;
+      console.error(`[flow-runner] No LLM provider for routing "${gatewayName}":`, err.message);
+      route = { flowId: flows[flows.length - 1].id, reason: `Routing provider unavailable (${err.message}); used last path` };
+    }
+    return {
+      flowId: route.flowId,
+      mode: 'llm',
+      reason: `${fallbackReason}. ${route.reason}`,
+      conditions: evaluations.length > 0 ? evaluations : undefined,
+      decidedAt: new Date().toISOString(),
+      usage: route.usage,
+    };
+  }
+
   /**
    * Extract decision-relevant variables from agent LLM output.
    * Looks for common patterns like "validationStatus: valid", JSON objects, etc.
@@ -755,37 +2053,304 @@ export class FlowRunner extends EventEmitter {
 
   /**
    * Flatten a JSON object for bpmn-engine environment variables.
-   * Only takes top-level string/boolean/number values.
+   * Takes top-level scalars, arrays and objects (so `${items}` can be a multi-instance
+   * collection and `${order.lines}` a path into one); internal `_` fields are skipped.
    */
   private flattenForEnvironment(obj: any): Record<string, any> {
     const result: Record<string, any> = {};
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return result;
     for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'number') {
+      if (key.startsWith('_') || value === null || value === undefined) continue;
+      if (['string', 'boolean', 'number', 'object'].includes(typeof value)) {
         result[key] = value;
       }
     }
     return result;
   }
 
-  async resumeRun(runId: string, tenantId: string): Promise<void> {
-    const engine = this.activeEngines.get(runId);
-    if (!engine) {
-      throw new Error('Run engine not found (may have been restarted). Cannot resume.');
+  /**
+   * Apply a decided approval request to the step waiting on it and continue the run,
+   * rebuilding the engine from its snapshot if the service restarted since the pause.
+   * An expired request applies its timeout outcome instead.
+   * Returns false when there is nothing to apply: the approval is still pending, or its
+   * step is not (or no longer) waiting on it.
+   */
+  async applyApprovalDecision(approvalId: string, tenantId: string): Promise<boolean> {
+    const approvalResult = await this.pool.query(
+      `SELECT * FROM approval_requests WHERE id = $1 AND tenant_id = $2`,
+      [approvalId, tenantId]
+    );
+    const approval = approvalResult.rows[0];
+    if (!approval) {
+      throw new Error('Approval request not found');
+    }
+    if (!['approved', 'rejected', 'expired'].includes(approval.status)) return false;
+
+    const step = await this.stateManager.getStepByApproval(approvalId);
+    if (!step || step.status !== 'waiting_approval') return false;
+    const run = await this.stateManager.getRun(step.run_id, tenantId);
+    if (!run || (run.status !== 'paused' && run.status !== 'running')) return false;
+
+    const expired = approval.status === 'expired';
+    const votes = approval.review_policy
+      ? (await this.pool.query(
+          `SELECT user_id, user_email, vote, comment, created_at FROM approval_votes WHERE approval_id = $1 ORDER BY created_at`,
+          [approvalId]
+        )).rows.map(v => ({
+          userId: v.user_id, email: v.user_email, vote: v.vote, comment: v.comment, at: new Date(v.created_at).toISOString(),
+        }))
+      : [];
+    const decision: ApprovalDecision = {
+      approvalId,
+      decision: expired ? approval.timeout_outcome : approval.status,
+      comment: approval.decision_comment || null,
+      decidedBy: approval.decided_by_name || approval.decided_by || null,
+      decidedAt: new Date(approval.decided_at || Date.now()).toISOString(),
+      ...(expired && { expired }),
+      ...(approval.form_data && { formData: approval.form_data }),
+      ...(votes.length > 0 && { votes }),
+    };
+
+    // Timed out with the 'fail' policy: no need to rebuild the engine just to stop it
+    if (expired && approval.timeout_outcome === 'failed') {
+      const error = `Approval "${approval.title}" expired without a decision`;
+      await this.stateManager.updateStepStatus(step.id, 'failed', { ...(step.output_data || {}), approval: decision }, error);
+      await this.publish(tenantId, run.id, 'approval.decided', { stepId: step.id, ...decision });
+      await this.publish(tenantId, run.id, 'step.update', { stepId: step.id, status: 'failed', error });
+      await this.failRun(run.id, tenantId, error, { code: 'approval_expired', approvalId });
+      return true;
+    }
+
+    if (!this.activeEngines.has(run.id) && !(await this.recoverRun(run))) {
+      throw new Error('Run engine not found and no snapshot to recover from. Cannot resume.');
+    }
+    const handler = this.approvalHandlers.get(run.id);
+    if (!handler) {
+      throw new Error('Run is not accepting approval decisions');
     }
 
+    // The run stays paused while other steps are still waiting for review or a message
+    const stillWaiting = (await this.stateManager.getSteps(run.id))
+      .some(s => WAITING_STEP_STATUSES.includes(s.status) && s.id !== step.id);
+    if (!stillWaiting) await this.stateManager.updateRunStatus(run.id, 'running');
+
+    await handler(step, decision);
+    return true;
+  }
+
+  /**
+   * Deliver a message to the catch event waiting for it, continuing that run. `target`
+   * narrows the search to a foundation, a run or a correlation key; the message must match
+   * exactly one waiting catch event (MessageCorrelationError otherwise).
+   * Returns null when nothing is waiting for the message.
+   */
+  async deliverMessage(
+    tenantId: string,
+    messageName: string,
+    target: { foundationId?: string; runId?: string; correlationKey?: string },
+    payload: any,
+    source: string
+  ): Promise<{ runId: string; stepId: string; elementId: string } | null> {
+    const subscriptions = await this.stateManager.findMessageSubscriptions(tenantId, messageName, target);
+    if (subscriptions.length === 0) return null;
+    if (subscriptions.length > 1) {
+      throw new MessageCorrelationError(
+        `${subscriptions.length} catch events are waiting for message "${messageName}"; pass a runId or correlationKey to choose one`
+      );
+    }
+
+    const [subscription] = subscriptions;
+    const run = await this.stateManager.getRun(subscription.run_id, tenantId);
+    if (!run || (run.status !== 'paused' && run.status !== 'running')) {
+      await this.stateManager.cancelMessageSubscriptions(subscription.run_id);
+      return null;
+    }
+    if (!this.activeEngines.has(run.id) && !(await this.recoverRun(run))) {
+      throw new Error('Run engine not found and no snapshot to recover from. Cannot deliver the message.');
+    }
+    const handler = this.messageHandlers.get(run.id);
+    if (!handler) {
+      throw new Error('Run is not accepting messages');
+    }
+
+    // Claimed atomically, so a message delivered twice (or by two replicas) continues the run once
+    const message: DeliveredMessage = { name: messageName, payload, source, receivedAt: new Date().toISOString() };
+    if (!(await this.stateManager.claimMessageSubscription(subscription.id, payload, source))) return null;
+
+    const steps = await this.stateManager.getSteps(run.id);
+    const step = steps.find(s => s.id === subscription.step_id);
+    if (!step) throw new Error('Waiting step not found');
+    const stillWaiting = steps.some(s => WAITING_STEP_STATUSES.includes(s.status) && s.id !== step.id);
+    if (!stillWaiting) await this.stateManager.updateRunStatus(run.id, 'running');
+
+    await handler(step, message);
+    return { runId: run.id, stepId: step.id, elementId: subscription.element_id };
+  }
+
+  /**
+   * Release the catch event waiting for a due timer (called by the TimerScheduler once it
+   * has claimed the timer). Returns false when the run is no longer waiting for it.
+   */
+  async fireTimer(timer: RunTimer): Promise<boolean> {
+    const run = await this.stateManager.getRun(timer.run_id, timer.tenant_id);
+    if (!run || (run.status !== 'paused' && run.status !== 'running')) return false;
+
+    const steps = await this.stateManager.getSteps(run.id);
+    const step = steps.find(s => s.id === timer.step_id);
+    if (!step || step.status !== 'waiting_timer') return false;
+
+    if (!this.activeEngines.has(run.id) && !(await this.recoverRun(run))) {
+      throw new Error('Run engine not found and no snapshot to recover from. Cannot fire the timer.');
+    }
+    const handler = this.timerHandlers.get(run.id);
+    if (!handler) {
+      throw new Error('Run is not waiting for timers');
+    }
+
+    const stillWaiting = steps.some(s => WAITING_STEP_STATUSES.includes(s.status) && s.id !== step.id);
+    if (!stillWaiting) await this.stateManager.updateRunStatus(run.id, 'running');
+
+    await handler(step, timer);
+    return true;
+  }
+
+  /**
+   * Apply every decision already made on a paused run's approval requests.
+   * Decisions normally arrive from agent-service as they are made; this picks up any that didn't.
+   */
+  async resumeRun(runId: string, tenantId: string): Promise<void> {
     const run = await this.stateManager.getRun(runId, tenantId);
     if (!run || run.status !== 'paused') {
       throw new Error('Run is not in paused state');
     }
 
-    const execution = engine.execution;
-    if (execution) {
-      const waiting = execution.getPostponed();
-      if (waiting && waiting.length > 0) {
-        waiting.forEach((activity: any) => activity.signal());
-        await this.stateManager.updateRunStatus(runId, 'running');
+    const decided = await this.stateManager.getDecidedApprovalSteps(runId);
+    if (decided.length === 0) {
+      throw new Error('Run is waiting for approval decisions that have not been made yet');
+    }
+    for (const step of decided) {
+      await this.applyApprovalDecision(step.approval_id!, tenantId);
+    }
+  }
+
+  /**
+   * Rebuild a run's engine from its latest snapshot and continue it. Tasks that were
+   * waiting when the snapshot was taken emit activity.wait again: interrupted agent
+   * tasks re-execute, tasks waiting for approval keep waiting. A run that had not
+   * finished its first step yet is started over from the snapshot's BPMN.
+   * Returns false when the run has no snapshot.
+   */
+  private async recoverRun(run: FlowRun): Promise<boolean> {
+    const snapshot = await this.stateManager.getSnapshot(run.id);
+    if (!snapshot) return false;
+    await this.stateManager.claimRun(run.id, this.leases.owner);
+
+    const prepared = await this.prepareFlow(run.tenant_id, run.foundation_id, run.orchestrator_id, snapshot.bpmn_xml);
+
+    if (!snapshot.engine_state) {
+      console.log(`[flow-runner] Run ${run.id} has no engine state yet — starting it over`);
+      await this.stateManager.failInterruptedSteps(run.id, 'Interrupted by runtime-service restart');
+      const replay = run.parent_run_id ? await this.replayPlanFor(run, []) : undefined;
+      await this.executeFlow(run.id, prepared, run.tenant_id, run.input_data, undefined, replay);
+      return this.activeEngines.has(run.id);
+    }
+
+    // Tool calls cut off by the restart are not retried; the agent step re-executes
+    await this.stateManager.failInterruptedSteps(run.id, 'Interrupted by runtime-service restart', 'tool');
+
+    const stepStates = new Map<string, string>();
+    const awaitingApproval = new Set<string>();
+    const awaitingMessage = new Set<string>();
+    const awaitingTimer = new Set<string>();
+    const steps = await this.stateManager.getSteps(run.id);
+    for (const step of steps) {
+      stepStates.set(step.step_key, step.id);
+      if (step.status === 'waiting_approval') awaitingApproval.add(step.id);
+      if (step.status === 'waiting_message') awaitingMessage.add(step.id);
+      if (step.status === 'waiting_timer') awaitingTimer.add(step.id);
+    }
+
+    console.log(`[flow-runner] Recovering run ${run.id} from snapshot of ${new Date(snapshot.updated_at).toISOString()}`);
+    await this.publish(run.tenant_id, run.id, 'run.recovered', { snapshotAt: new Date(snapshot.updated_at).toISOString() });
+    const replay = run.parent_run_id ? await this.replayPlanFor(run, steps) : undefined;
+    await this.executeFlow(
+      run.id, prepared, run.tenant_id, run.input_data, { snapshot, stepStates, awaitingApproval, awaitingMessage, awaitingTimer }, replay
+    );
+    return this.activeEngines.has(run.id);
+  }
+
+  /**
+   * The rest of a recovered replay's plan: parent steps its `steps` haven't copied yet.
+   */
+  private async replayPlanFor(run: FlowRun, steps: FlowStep[]): Promise<ReplayPlan | undefined> {
+    const parentSteps = await this.stateManager.getSteps(run.parent_run_id!);
+    const fromStep = parentSteps.find(s => s.id === run.replay_from_step_id);
+    if (!fromStep) {
+      console.warn(`[flow-runner] Replay ${run.id} lost its starting step; continuing without replaying`);
+      return undefined;
+    }
+    const consumed = new Set(steps.map(s => s.replayed_from_step_id).filter((id): id is string => !!id));
+    // A starting step cut off mid-execution runs again, with its edited input
+    const stepInputUsed = steps.some(s => s.step_key === fromStep.step_key && !s.replayed_from_step_id && s.status !== 'running');
+    return new ReplayPlan(run.parent_run_id!, fromStep, parentSteps, run.replay_step_input, consumed, stepInputUsed);
+  }
+
+  /**
+   * Reconciler for runs left `running` or `paused` by a stopped runtime instance: claims the
+   * unfinished runs whose owner's lease has expired (see run-leases.ts) and
+   *
+   * - paused:  kept as-is when a snapshot exists (rebuilt when an approval is decided), failed otherwise
+   * - running: recovered from the latest snapshot, or failed, per the foundation's recovery policy
+   *
+   * Runs on every lease heartbeat.
+   */
+  async reconcileRuns(): Promise<{ recovered: number; paused: number; failed: number }> {
+    const summary = { recovered: 0, paused: 0, failed: 0 };
+    const runs = await this.stateManager.claimOrphanedRuns(this.leases.owner);
+    if (runs.length === 0) return summary;
+
+    for (const run of runs) {
+      if (this.activeEngines.has(run.id)) continue;
+      let reason: string;
+      try {
+        if (run.status === 'paused') {
+          const snapshot = await this.stateManager.getSnapshot(run.id);
+          if (snapshot?.engine_state) {
+            // Decisions made while the service was down are applied now; otherwise the run
+            // stays paused and is rebuilt when its approval is decided
+            const decided = await this.stateManager.getDecidedApprovalSteps(run.id);
+            for (const step of decided) {
+              await this.applyApprovalDecision(step.approval_id!, run.tenant_id);
+            }
+            if (decided.length > 0) summary.recovered++;
+            else summary.paused++;
+            continue;
+          }
+          reason = 'Run was paused before a runtime-service restart and has no snapshot to resume from';
+        } else {
+          const policy = resolveRecoveryPolicy(run.foundation_metadata);
+          if (policy === 'restart' && await this.recoverRun(run)) {
+            summary.recovered++;
+            continue;
+          }
+          reason = policy === 'fail'
+            ? 'Run was interrupted by a runtime-service restart (recovery policy: fail)'
+            : 'Run was interrupted by a runtime-service restart and could not be recovered';
+        }
+      } catch (err: any) {
+        console.error(`[flow-runner] Failed to recover run ${run.id}:`, err.message);
+        reason = `Run could not be recovered after a runtime-service restart: ${err.message}`;
       }
+
+      this.activeEngines.delete(run.id);
+      await this.stateManager.failInterruptedSteps(run.id, reason);
+      await this.stateManager.updateRunStatus(run.id, 'failed', undefined, reason);
+      await this.publish(run.tenant_id, run.id, 'run.error', { error: reason });
+      summary.failed++;
     }
+
+    console.log(`[flow-runner] Reconciled ${runs.length} unfinished runs: ${summary.recovered} recovered, ${summary.paused} paused, ${summary.failed} failed`);
+    return summary;
   }
 
   getStateManager(): StateManager {
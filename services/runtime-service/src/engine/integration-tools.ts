@@ -0,0 +1,94 @@
+/**
+ * Integration Tools
+ *
+ * Agents with integrations configured in agent-service get the matching connector
+ * actions (ServiceNow incidents, Jira issues, ...) as model tools. The tool list and
+ * the calls themselves go through integration-service:
+ *
+ *   GET  /api/integrations/agent/:agentId/tools
+ *   POST /api/integrations/agent/:agentId/tools/:toolName   { arguments }
+ *
+ * Runs execute outside any user request, so calls are authenticated with a short-lived
+ * service token for the run's tenant.
+ */
+
+import jwt from 'jsonwebtoken';
+import { ToolCall, ToolDefinition } from '../providers';
+
+const INTEGRATION_SERVICE_URL = process.env.INTEGRATION_SERVICE_URL || 'http://localhost:3004';
+const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+const TOOL_LIST_TIMEOUT_MS = 5000;
+const TOOL_CALL_TIMEOUT_MS = 30000;
+
+export interface IntegrationTool extends ToolDefinition {
+  integration: string;
+}
+
+export interface ToolInvocation {
+  integration?: string;
+  result: any;
+}
+
+export class ToolCallError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ToolCallError';
+  }
+}
+
+export class IntegrationToolClient {
+  constructor(private baseUrl = INTEGRATION_SERVICE_URL) {}
+
+  /**
+   * Tools available to an agent. An unreachable integration-service yields no tools,
+   * so the agent still runs as a plain completion.
+   */
+  async listTools(tenantId: string, agentId: string): Promise<IntegrationTool[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/integrations/agent/${agentId}/tools`, {
+        headers: this.headers(tenantId),
+        signal: AbortSignal.timeout(TOOL_LIST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        if (response.status !== 404) {
+          console.error(`[integration-tools] Listing tools for agent ${agentId} failed: HTTP ${response.status}`);
+        }
+        return [];
+      }
+      const body: any = await response.json();
+      return Array.isArray(body.tools) ? body.tools : [];
+    } catch (err: any) {
+      console.error(`[integration-tools] Listing tools for agent ${agentId} failed:`, err.message);
+      return [];
+    }
+  }
+
+  async invoke(tenantId: string, agentId: string, call: ToolCall): Promise<ToolInvocation> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/integrations/agent/${agentId}/tools/${encodeURIComponent(call.name)}`, {
+        method: 'POST',
+        headers: { ...this.headers(tenantId), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ arguments: call.arguments }),
+        signal: AbortSignal.timeout(TOOL_CALL_TIMEOUT_MS),
+      });
+    } catch (err: any) {
+      throw new ToolCallError(`integration-service unreachable: ${err.message}`);
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new ToolCallError(body.message || body.error || `HTTP ${response.status}`, response.status);
+    }
+    return { integration: body.integration, result: body.result };
+  }
+
+  private headers(tenantId: string): Record<string, string> {
+    const token = jwt.sign(
+      { userId: 'runtime-service', email: 'runtime-service@flowgrid.local', tenantId, role: 'service', type: 'access' },
+      JWT_SECRET,
+      { expiresIn: '5m' }
+    );
+    return { Authorization: `Bearer ${token}` };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Loop policies — how often a task may re-execute inside a BPMN loop, and what
+ * happens once that budget is used up.
+ *
+ * Policies live in the foundation's metadata:
+ *   metadata.loopPolicy              → default for every task in the foundation
+ *   metadata.loopPolicies[taskId]    → per-task override (merged over the default)
+ */
+
+export type LoopExhaustionAction = 'fail' | 'escalate' | 'take_flow';
+
+export interface LoopPolicy {
+  maxIterations: number;
+  onExhausted: LoopExhaustionAction;
+  // Sequence flow ID or name to take when onExhausted is 'take_flow'
+  flow?: string;
+}
+
+export interface LoopPolicyConfig {
+  default?: Partial<LoopPolicy>;
+  tasks?: Record<string, Partial<LoopPolicy>>;
+}
+
+/**
+ * Outcome of applying a policy on exhaustion, stored on the task's flow_steps row.
+ */
+export interface LoopPolicyOutcome {
+  taskId: string;
+  iterations: number;
+  policy: LoopPolicy;
+  source: 'task' | 'foundation' | 'default';
+  action: LoopExhaustionAction;
+  detail: string;
+  at: string;
+}
+
+export const DEFAULT_LOOP_POLICY: LoopPolicy = {
+  maxIterations: 3,
+  onExhausted: 'fail',
+};
+
+const ACTIONS: LoopExhaustionAction[] = ['fail', 'escalate', 'take_flow'];
+
+/**
+ * Read loop policy config from a foundation's metadata column.
+ */
+export function loopPolicyConfigFromMetadata(metadata: any): LoopPolicyConfig {
+  return {
+    default: metadata?.loopPolicy || undefined,
+    tasks: metadata?.loopPolicies || undefined,
+  };
+}
+
+/**
+ * Resolve the effective policy for a task: task override → foundation default → built-in default.
+ */
+export function resolveLoopPolicy(taskId: string, config: LoopPolicyConfig): { policy: LoopPolicy; source: LoopPolicyOutcome['source'] } {
+  const taskPolicy = config.tasks?.[taskId];
+  const policy: LoopPolicy = { ...DEFAULT_LOOP_POLICY, ...config.default, ...taskPolicy };
+  const source = taskPolicy ? 'task' : config.default ? 'foundation' : 'default';
+  return { policy, source };
+}
+
+/**
+ * Validate a single policy from an API request. Returns an error message, or null if valid.
+ */
+export function validateLoopPolicy(policy: any, partial = true): string | null {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return 'Policy must be an object';
+  }
+  if (policy.maxIterations !== undefined || !partial) {
+    if (!Number.isInteger(policy.maxIterations) || policy.maxIterations < 1 || policy.maxIterations > 100) {
+      return 'maxIterations must be an integer between 1 and 100';
+    }
+  }
+  if (policy.onExhausted !== undefined || !partial) {
+    if (!ACTIONS.includes(policy.onExhausted)) {
+      return `onExhausted must be one of: ${ACTIONS.join(', ')}`;
+    }
+  }
+  if (policy.onExhausted === 'take_flow' && (typeof policy.flow !== 'string' || !policy.flow.trim())) {
+    return "flow is required when onExhausted is 'take_flow'";
+  }
+  return null;
+}
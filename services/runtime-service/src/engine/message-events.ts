@@ -0,0 +1,106 @@
+/**
+ * Message catch events — intermediate catch events with a messageEventDefinition pause
+ * the run until a message of that name is delivered (POST /api/runtime/messages, which
+ * integration-service webhooks call). The delivered payload becomes the event's output
+ * for downstream tasks.
+ *
+ *   <bpmn:message id="Message_PrMerged" name="github.pull_request.closed"/>
+ *   <bpmn:intermediateCatchEvent id="WaitForMerge" name="Wait for merge">
+ *     <bpmn:messageEventDefinition messageRef="Message_PrMerged"/>
+ *   </bpmn:intermediateCatchEvent>
+ *
+ * The message name comes from the referenced <bpmn:message>, falling back to the
+ * event's name (or ID) when there is no reference.
+ *
+ * Messages are correlated on a key: the event's `message.correlationKey` property (a
+ * literal or a ${variable} from the run's input and task outputs), else the run's business
+ * key. A message sent with a correlation key only reaches events waiting on that key.
+ *
+ *   <bpmn:extensionElements><camunda:properties>
+ *     <camunda:property name="message.correlationKey" value="${issueKey}"/>
+ *   </camunda:properties></bpmn:extensionElements>
+ */
+
+/**
+ * A message delivered to a waiting catch event.
+ */
+export interface DeliveredMessage {
+  name: string;
+  payload: Record<string, any>;
+  // Who delivered it: a user ID or `webhook:<endpointId>`
+  source: string;
+  receivedAt: string;
+}
+
+/**
+ * A message catch event: the message it waits for and how its correlation key is found.
+ */
+export interface MessageCatchEvent {
+  messageName: string;
+  // Literal or ${variable}; without it the run's business key is used
+  correlationKey?: string;
+}
+
+/**
+ * Thrown when a message matches more than one waiting catch event.
+ */
+export class MessageCorrelationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageCorrelationError';
+  }
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  return attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+/**
+ * The message catch events in `processXml`, by event ID. `bpmnXml` is the full document,
+ * where the <bpmn:message> definitions live.
+ */
+export function parseMessageCatchEvents(processXml: string, bpmnXml: string): Map<string, MessageCatchEvent> {
+  const messageNames = new Map<string, string>();
+  const messageRegex = /<bpmn:message\s+([^>]*?)\/?>/g;
+  let m;
+  while ((m = messageRegex.exec(bpmnXml)) !== null) {
+    const id = attribute(m[1], 'id');
+    if (id) messageNames.set(id, attribute(m[1], 'name') || id);
+  }
+
+  const events = new Map<string, MessageCatchEvent>();
+  const eventRegex = /<bpmn:intermediateCatchEvent\s+([^>]*?)(?<!\/)>([\s\S]*?)<\/bpmn:intermediateCatchEvent>/g;
+  while ((m = eventRegex.exec(processXml)) !== null) {
+    const definition = m[2].match(/<bpmn:messageEventDefinition\b([^>]*)>/);
+    const id = attribute(m[1], 'id');
+    if (!definition || !id) continue;
+    const messageRef = attribute(definition[1], 'messageRef');
+    const correlationKey = m[2].match(/<camunda:property\s+name="message\.correlationKey"\s+value="([^"]*)"/)?.[1];
+    events.set(id, {
+      messageName: (messageRef && messageNames.get(messageRef)) || attribute(m[1], 'name') || id,
+      ...(correlationKey ? { correlationKey } : {}),
+    });
+  }
+  return events;
+}
+
+/**
+ * The key a waiting catch event is correlated on: its correlationKey (a literal, or a
+ * ${variable} looked up in `scope`), else the run's business key. Null when neither is set.
+ */
+export function resolveCorrelationKey(event: MessageCatchEvent, scope: Record<string, any>, businessKey?: string | null): string | null {
+  if (!event.correlationKey) return businessKey || null;
+  const expression = event.correlationKey.match(/^\$\{\s*([\w.]+)\s*\}$/);
+  if (!expression) return event.correlationKey;
+  const value = expression[1].split('.').reduce((v: any, key) => (v === null || v === undefined ? undefined : v[key]), scope);
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+/**
+ * The payload as a task output: objects as they are, anything else under `value`.
+ */
+export function messageOutput(payload: unknown): Record<string, any> {
+  return payload && typeof payload === 'object' && !Array.isArray(payload)
+    ? payload as Record<string, any>
+    : { value: payload };
+}
@@ -0,0 +1,105 @@
+/**
+ * Review policies — who may decide an approval request and how many of them must agree.
+ * agent-service records each reviewer's vote and resolves the request by the policy.
+ *
+ *   mode: 'single'      the first decision resolves the request (default)
+ *   mode: 'quorum'      `required` approvals out of `reviewers` (N-of-M)
+ *   mode: 'sequential'  every reviewer in `reviewers` signs off, in order
+ *   roles               only users with one of these roles may vote
+ *   fourEyes            the requester (who started the run) may not vote
+ *
+ * Attached to a BPMN task with camunda properties, which take precedence over a policy
+ * on the task's agent (`config.reviewPolicy`):
+ *
+ *   <camunda:property name="review.mode" value="quorum"/>
+ *   <camunda:property name="review.required" value="2"/>
+ *   <camunda:property name="review.reviewers" value="userId1,userId2,userId3"/>
+ *   <camunda:property name="review.roles" value="admin"/>
+ *   <camunda:property name="review.fourEyes" value="true"/>
+ */
+
+export type ReviewMode = 'single' | 'quorum' | 'sequential';
+
+export interface ReviewPolicy {
+  mode: ReviewMode;
+  required?: number;
+  reviewers?: string[];
+  roles?: string[];
+  fourEyes?: boolean;
+}
+
+const MODES: ReviewMode[] = ['single', 'quorum', 'sequential'];
+// UserRole in shared/types
+const ROLES = ['admin', 'user', 'viewer'];
+
+/**
+ * Review policies declared on BPMN tasks, by task ID. Invalid declarations are logged and skipped.
+ */
+export function parseReviewPolicies(bpmnXml: string): Map<string, ReviewPolicy> {
+  const policies = new Map<string, ReviewPolicy>();
+  const taskRegex = /<bpmn:(userTask|serviceTask|task|sendTask|manualTask)\s+id="([^"]+)"[^>]*(?<!\/)>([\s\S]*?)<\/bpmn:\1>/g;
+  let m;
+  while ((m = taskRegex.exec(bpmnXml)) !== null) {
+    const props: Record<string, string> = {};
+    const propRegex = /<camunda:property\s+name="review\.([^"]+)"\s+value="([^"]*)"/g;
+    let p;
+    while ((p = propRegex.exec(m[3])) !== null) props[p[1]] = p[2];
+    if (Object.keys(props).length === 0) continue;
+
+    const list = (value?: string) => value?.split(',').map(v => v.trim()).filter(Boolean);
+    const policy: ReviewPolicy = {
+      mode: (props.mode || 'single') as ReviewMode,
+      ...(props.required !== undefined && { required: Number(props.required) }),
+      ...(props.reviewers !== undefined && { reviewers: list(props.reviewers) }),
+      ...(props.roles !== undefined && { roles: list(props.roles) }),
+      ...(props.fourEyes !== undefined && { fourEyes: props.fourEyes === 'true' }),
+    };
+    const error = validateReviewPolicy(policy);
+    if (error) {
+      console.warn(`[review-policy] Ignoring review policy on task "${m[2]}": ${error}`);
+      continue;
+    }
+    policies.set(m[2], policy);
+  }
+  return policies;
+}
+
+/**
+ * Validate a review policy. Returns an error message, or null if valid.
+ */
+export function validateReviewPolicy(policy: any): string | null {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return 'Review policy must be an object';
+  }
+  if (!MODES.includes(policy.mode)) {
+    return `mode must be one of: ${MODES.join(', ')}`;
+  }
+  if (policy.reviewers !== undefined) {
+    if (!Array.isArray(policy.reviewers) || policy.reviewers.some((r: any) => typeof r !== 'string' || !r)) {
+      return 'reviewers must be a list of user IDs';
+    }
+    if (new Set(policy.reviewers).size !== policy.reviewers.length) {
+      return 'reviewers must not contain duplicates';
+    }
+  }
+  if (policy.roles !== undefined) {
+    if (!Array.isArray(policy.roles) || policy.roles.length === 0 || policy.roles.some((r: any) => !ROLES.includes(r))) {
+      return `roles must be a non-empty list of: ${ROLES.join(', ')}`;
+    }
+  }
+  if (policy.fourEyes !== undefined && typeof policy.fourEyes !== 'boolean') {
+    return 'fourEyes must be a boolean';
+  }
+  if (policy.mode === 'quorum') {
+    if (!Number.isInteger(policy.required) || policy.required < 1) {
+      return 'required must be a positive integer for quorum reviews';
+    }
+    if (policy.reviewers && policy.required > policy.reviewers.length) {
+      return 'required cannot exceed the number of reviewers';
+    }
+  }
+  if (policy.mode === 'sequential' && !policy.reviewers?.length) {
+    return 'reviewers (in sign-off order) are required for sequential reviews';
+  }
+  return null;
+}
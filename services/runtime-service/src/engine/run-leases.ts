@@ -0,0 +1,104 @@
+/**
+ * Run Leases
+ *
+ * Every runtime instance shares the database, so each unfinished run records the instance
+ * that owns it (`flow_runs.owner_instance`) and until when (`lease_expires_at`). A run is
+ * owned by the instance that started it, and moves to whichever instance rebuilds it from
+ * its snapshot (to deliver an approval decision, a message or a timer).
+ *
+ * On every heartbeat the owner renews the leases of the runs it executes and of its paused
+ * runs. It then sweeps for runs whose lease has expired: their owner stopped or lost the
+ * database. Orphaned runs are claimed with a conditional update, so two instances sweeping
+ * at the same time never recover the same run (see FlowRunner.reconcileRuns).
+ *
+ * An instance that finds one of its runs owned by another instance stops its engine for
+ * that run. This happens after a takeover, e.g. when its heartbeats failed for longer
+ * than the lease.
+ */
+
+import { Pool } from 'pg';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+const HEARTBEAT_INTERVAL_MS = Number(process.env.RUN_LEASE_HEARTBEAT_MS) || 10000;
+const LEASE_MS = Number(process.env.RUN_LEASE_MS) || 30000;
+
+/**
+ * The instance claiming a run, and for how long.
+ */
+export interface RunOwner {
+  instanceId: string;
+  leaseMs: number;
+}
+
+export class RunLeases {
+  // New on every start: runs of a previous process on this host are recovered once their leases expire
+  readonly instanceId = `${hostname().substring(0, 60)}:${randomUUID()}`;
+  private timer: NodeJS.Timeout | null = null;
+  private beating = false;
+
+  /**
+   * `held` lists the runs this instance executes; `onLost` stops the ones another instance
+   * has claimed; `onSweep` claims and recovers orphaned runs.
+   */
+  constructor(
+    private pool: Pool,
+    private held: () => string[],
+    private onLost: (runIds: string[]) => void,
+    private onSweep: () => Promise<void>,
+    readonly leaseMs = LEASE_MS
+  ) {}
+
+  get owner(): RunOwner {
+    return { instanceId: this.instanceId, leaseMs: this.leaseMs };
+  }
+
+  /**
+   * Beat now (which recovers runs left by stopped instances) and then every `intervalMs`.
+   */
+  start(intervalMs = HEARTBEAT_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (intervalMs >= this.leaseMs) {
+      console.warn(`[run-leases] Heartbeat interval ${intervalMs}ms is not shorter than the ${this.leaseMs}ms lease; runs will be taken over while still executing`);
+    }
+    const beat = () => this.heartbeat().catch(err => console.error('[run-leases] Heartbeat failed:', err.message));
+    beat();
+    this.timer = setInterval(beat, intervalMs);
+    this.timer.unref();
+    console.log(`[run-leases] Instance ${this.instanceId} renews its run leases every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * One heartbeat: renew this instance's leases, stop runs it no longer owns, then sweep.
+   */
+  async heartbeat(): Promise<{ renewed: number; lost: string[] }> {
+    const summary = { renewed: 0, lost: [] as string[] };
+    if (this.beating) return summary;
+    this.beating = true;
+    try {
+      const held = this.held();
+      const result = await this.pool.query(
+        `UPDATE flow_runs SET lease_expires_at = NOW() + $3 * INTERVAL '1 millisecond'
+         WHERE owner_instance = $1 AND (id = ANY($2::uuid[]) OR status = 'paused')
+         RETURNING id`,
+        [this.instanceId, held, this.leaseMs]
+      );
+      summary.renewed = result.rows.length;
+      const renewed = new Set(result.rows.map(row => row.id));
+      summary.lost = held.filter(id => !renewed.has(id));
+      if (summary.lost.length > 0) {
+        console.warn(`[run-leases] ${summary.lost.length} runs were taken over by other instances: ${summary.lost.join(', ')}`);
+        this.onLost(summary.lost);
+      }
+      await this.onSweep();
+    } finally {
+      this.beating = false;
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Run replay — a new run of a finished run's foundation that reuses the parent run's
+ * recorded step outputs up to a chosen step, then executes live from there with the
+ * current agent configuration.
+ *
+ * Steps the engine waits at (agent and human tasks, catch events) before the chosen step
+ * are replayed from their `flow_steps` rows instead of calling the agent, requesting an
+ * approval or waiting for a message or timer again. Exclusive gateways passed before the
+ * chosen step take the recorded route. The chosen step can be given edited input.
+ *
+ * Recorded steps are matched by step key in run order, so a task re-entered through a loop
+ * replays each of its passages. Replayed rows point at the row they were copied from
+ * (`flow_steps.replayed_from_step_id`), which also lets a recovered replay pick up where it was.
+ */
+
+import { FlowStep } from './state-manager';
+
+/**
+ * Thrown when a run cannot be replayed from the requested step.
+ */
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// Step rows the engine doesn't wait at: created and completed around the waiting steps
+const UNREPLAYED_STEP_TYPES = ['start', 'end', 'gateway', 'tool'];
+const RECORDED_STATUSES = ['completed', 'failed'];
+
+/**
+ * The step a replay re-executes from: `fromStepId`, or the parent run's first failed step.
+ */
+export function replayStartStep(steps: FlowStep[], fromStepId?: string): FlowStep {
+  if (fromStepId) {
+    const step = steps.find(s => s.id === fromStepId);
+    if (!step) throw new ReplayError('Step not found in this run');
+    if (UNREPLAYED_STEP_TYPES.includes(step.step_type)) {
+      throw new ReplayError(`A replay cannot start at a ${step.step_type} step; choose a task or catch event`);
+    }
+    return step;
+  }
+  const failed = steps.find(s => s.status === 'failed' && !UNREPLAYED_STEP_TYPES.includes(s.step_type));
+  if (!failed) throw new ReplayError('Run has no failed step; pass fromStepId to choose where the replay starts');
+  return failed;
+}
+
+export class ReplayPlan {
+  // Recorded waiting steps still to replay, by step key, in run order
+  private steps = new Map<string, FlowStep[]>();
+  // Recorded gateway passages still to replay, by gateway ID, in run order
+  private gateways = new Map<string, FlowStep[]>();
+  private stepInputUsed: boolean;
+
+  /**
+   * `consumed` holds the parent rows a recovered replay has already copied; `stepInputUsed`
+   * whether it has already started the chosen step.
+   */
+  constructor(
+    readonly parentRunId: string,
+    readonly fromStep: FlowStep,
+    parentSteps: FlowStep[],
+    private stepInput?: Record<string, any> | null,
+    consumed: Set<string> = new Set(),
+    stepInputUsed = false
+  ) {
+    this.stepInputUsed = stepInputUsed;
+    const end = parentSteps.findIndex(s => s.id === fromStep.id);
+    for (const step of parentSteps.slice(0, end)) {
+      if (consumed.has(step.id) || !RECORDED_STATUSES.includes(step.status)) continue;
+      if (step.step_type === 'gateway') {
+        if (step.output_data?.routing) this.push(this.gateways, step.step_key, step);
+      } else if (!UNREPLAYED_STEP_TYPES.includes(step.step_type)) {
+        this.push(this.steps, step.step_key, step);
+      }
+    }
+  }
+
+  private push(queues: Map<string, FlowStep[]>, key: string, step: FlowStep): void {
+    const queue = queues.get(key);
+    if (queue) queue.push(step);
+    else queues.set(key, [step]);
+  }
+
+  /**
+   * The recorded row for the next passage of `stepKey`, if it comes before the chosen step.
+   */
+  takeStep(stepKey: string): FlowStep | undefined {
+    return this.steps.get(stepKey)?.shift();
+  }
+
+  /**
+   * The recorded route of the next passage of a gateway, without using it up.
+   */
+  recordedRoute(gatewayId: string): any | undefined {
+    return this.gateways.get(gatewayId)?.[0]?.output_data.routing;
+  }
+
+  /**
+   * The recorded row of a gateway being passed.
+   */
+  takeGateway(gatewayId: string): FlowStep | undefined {
+    return this.gateways.get(gatewayId)?.shift();
+  }
+
+  /**
+   * The edited input for the chosen step, once, when it is reached.
+   */
+  takeStepInput(stepKey: string): Record<string, any> | undefined {
+    if (this.stepInputUsed || stepKey !== this.fromStep.step_key || this.steps.get(stepKey)?.length) return undefined;
+    this.stepInputUsed = true;
+    return this.stepInput || undefined;
+  }
+}
+
+interface StepOutcome {
+  id: string;
+  status: string;
+  output_data: any;
+  error: string | null;
+}
+
+export interface StepComparison {
+  stepKey: string;
+  stepName: string | null;
+  parent: StepOutcome | null;
+  replay: StepOutcome | null;
+  // The replay's row was copied from the parent's
+  replayed: boolean;
+  // Status, output or error differ
+  changed: boolean;
+}
+
+/**
+ * Pair up the steps of a run and its replay by step key, passage by passage, in run order.
+ * Tool-call sub-steps are left out.
+ */
+export function compareRunSteps(parentSteps: FlowStep[], replaySteps: FlowStep[]): StepComparison[] {
+  const summary = (step: FlowStep | undefined): StepOutcome | null =>
+    step ? { id: step.id, status: step.status, output_data: step.output_data ?? null, error: step.error ?? null } : null;
+  const pending = new Map<string, FlowStep[]>();
+  for (const step of replaySteps.filter(s => s.step_type !== 'tool')) {
+    const queue = pending.get(step.step_key);
+    if (queue) queue.push(step);
+    else pending.set(step.step_key, [step]);
+  }
+
+  const comparisons: StepComparison[] = [];
+  const compare = (parent: FlowStep | undefined, replay: FlowStep | undefined) => {
+    const [a, b] = [summary(parent), summary(replay)];
+    comparisons.push({
+      stepKey: (parent || replay)!.step_key,
+      stepName: (parent || replay)!.step_name || null,
+      parent: a,
+      replay: b,
+      replayed: !!replay?.replayed_from_step_id,
+      changed: !a || !b || a.status !== b.status || a.error !== b.error || JSON.stringify(a.output_data) !== JSON.stringify(b.output_data),
+    });
+  };
+  for (const parent of parentSteps.filter(s => s.step_type !== 'tool')) {
+    compare(parent, pending.get(parent.step_key)?.shift());
+  }
+  for (const rest of pending.values()) rest.forEach(replay => compare(undefined, replay));
+  return comparisons;
+}
@@ -0,0 +1,305 @@
+/**
+ * Run Scheduler
+ *
+ * Starts foundation runs on cron schedules (`run_schedules`, see cron.ts). Each schedule
+ * has a fixed input template, a timezone its expression is evaluated in, and an overlap
+ * policy for when it comes due while its previous run is still running or paused:
+ *   - skip:  drop this occurrence
+ *   - queue: start once the previous run finishes (missed occurrences collapse into one)
+ *   - allow: start anyway
+ * Paused schedules don't fire; resuming one schedules its next occurrence from now.
+ * An occurrence missed while no runtime instance was up fires once on the next tick.
+ *
+ * Only one runtime instance schedules runs: the one holding a Postgres advisory lock on a
+ * connection of its own. When that instance stops (or its connection drops) the lock is
+ * released and another instance takes over on its next tick. Occurrences are also claimed
+ * with a conditional update, so a run is not started twice during a hand-over.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { CronExpressionError, isValidTimezone, nextCronOccurrence } from './cron';
+
+const TICK_INTERVAL_MS = Number(process.env.RUN_SCHEDULER_INTERVAL_MS) || 30000;
+const TICK_BATCH_SIZE = 100;
+const LEADER_LOCK = 'flowgrid:run-scheduler';
+
+export const OVERLAP_POLICIES = ['skip', 'queue', 'allow'] as const;
+export type OverlapPolicy = typeof OVERLAP_POLICIES[number];
+
+export interface RunSchedule {
+  id: string;
+  tenantId: string;
+  foundationId: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  input: Record<string, any>;
+  overlapPolicy: OverlapPolicy;
+  status: 'active' | 'paused';
+  nextRunAt: Date | null;
+  // Occurrence waiting for the previous run to finish (overlap policy `queue`)
+  queuedAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunId: string | null;
+  lastSkippedAt: Date | null;
+  lastError: string | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function scheduleFromRow(row: any): RunSchedule {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    foundationId: row.foundation_id,
+    name: row.name,
+    cron: row.cron_expression,
+    timezone: row.timezone,
+    input: row.input_template || {},
+    overlapPolicy: row.overlap_policy,
+    status: row.status,
+    nextRunAt: row.next_run_at,
+    queuedAt: row.queued_at,
+    lastRunAt: row.last_run_at,
+    lastRunId: row.last_run_id,
+    lastSkippedAt: row.last_skipped_at,
+    lastError: row.last_error,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validate a schedule to create (`partial` false) or the fields of an update. Returns an
+ * error message, or null when valid.
+ */
+export function validateSchedule(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Schedule must be an object';
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return 'name is required';
+  }
+  if (!partial || body.cron !== undefined) {
+    if (typeof body.cron !== 'string' || !body.cron.trim()) return 'cron is required';
+  }
+  if (body.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone))) {
+    return `Unknown timezone "${body.timezone}"`;
+  }
+  if (body.input !== undefined && (typeof body.input !== 'object' || body.input === null || Array.isArray(body.input))) {
+    return 'input must be an object';
+  }
+  if (body.overlapPolicy !== undefined && !OVERLAP_POLICIES.includes(body.overlapPolicy)) {
+    return `overlapPolicy must be one of: ${OVERLAP_POLICIES.join(', ')}`;
+  }
+  if (body.cron !== undefined) {
+    try {
+      nextCronOccurrence(body.cron, body.timezone || 'UTC');
+    } catch (err: any) {
+      return err.message;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fill `{{scheduledAt}}` and `{{date}}` (YYYY-MM-DD in the schedule's timezone) in the
+ * string values of an input template.
+ */
+export function renderInputTemplate(template: any, scheduledAt: Date, timezone: string): any {
+  if (typeof template === 'string') {
+    const date = new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(scheduledAt);
+    return template.replace(/\{\{\s*scheduledAt\s*\}\}/g, scheduledAt.toISOString()).replace(/\{\{\s*date\s*\}\}/g, date);
+  }
+  if (Array.isArray(template)) return template.map(value => renderInputTemplate(value, scheduledAt, timezone));
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderInputTemplate(value, scheduledAt, timezone)]));
+  }
+  return template;
+}
+
+export class RunScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  // Connection holding the leader lock, while this instance leads
+  private leader: PoolClient | null = null;
+
+  /**
+   * `onDue` starts a run of the schedule's foundation with the rendered input.
+   */
+  constructor(
+    private pool: Pool,
+    private onDue: (schedule: RunSchedule, input: Record<string, any>) => Promise<{ id: string }>
+  ) {}
+
+  start(intervalMs = TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error('[run-scheduler] Tick failed:', err.message));
+    }, intervalMs);
+    this.timer.unref();
+    console.log(`[run-scheduler] Checking run schedules every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    const leader = this.leader;
+    this.leader = null;
+    if (leader) {
+      leader.query('SELECT pg_advisory_unlock(hashtext($1))', [LEADER_LOCK])
+        .catch(err => console.error('[run-scheduler] Failed to release the leader lock:', err.message))
+        .finally(() => leader.release());
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader !== null;
+  }
+
+  /**
+   * One pass, on the leader only: start every schedule that is due, and queued runs whose
+   * previous run has finished.
+   */
+  async tick(): Promise<{ started: number; skipped: number; queued: number }> {
+    const summary = { started: 0, skipped: 0, queued: 0 };
+    if (this.ticking) return summary;
+    this.ticking = true;
+    try {
+      if (!(await this.lead())) return summary;
+      const result = await this.pool.query(
+        `SELECT * FROM run_schedules
+         WHERE status = 'active' AND (next_run_at <= NOW() OR queued_at IS NOT NULL)
+         ORDER BY COALESCE(queued_at, next_run_at) ASC
+         LIMIT $1`,
+        [TICK_BATCH_SIZE]
+      );
+      for (const row of result.rows) {
+        const schedule = scheduleFromRow(row);
+        try {
+          const outcome = await this.process(schedule);
+          if (outcome) summary[outcome]++;
+        } catch (err: any) {
+          console.error(`[run-scheduler] Schedule "${schedule.name}" (${schedule.id}) failed:`, err.message);
+          await this.recordError(schedule, err);
+        }
+      }
+      if (summary.started || summary.skipped || summary.queued) {
+        console.log(`[run-scheduler] Started ${summary.started}, skipped ${summary.skipped}, queued ${summary.queued} scheduled runs`);
+      }
+    } finally {
+      this.ticking = false;
+    }
+    return summary;
+  }
+
+  /**
+   * Take the leader lock, or check this instance still holds it.
+   */
+  private async lead(): Promise<boolean> {
+    if (this.leader) {
+      try {
+        await this.leader.query('SELECT 1');
+        return true;
+      } catch (err: any) {
+        console.error('[run-scheduler] Lost the leader connection:', err.message);
+        this.leader.release(err);
+        this.leader = null;
+      }
+    }
+
+    const client = await this.pool.connect();
+    let acquired = false;
+    try {
+      const result = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS acquired', [LEADER_LOCK]);
+      acquired = result.rows[0]?.acquired === true;
+    } catch (err) {
+      client.release();
+      throw err;
+    }
+    if (!acquired) {
+      client.release();
+      return false;
+    }
+    client.on('error', err => console.error('[run-scheduler] Leader connection error:', err.message));
+    this.leader = client;
+    console.log('[run-scheduler] This instance now starts scheduled runs');
+    return true;
+  }
+
+  private async process(schedule: RunSchedule): Promise<'started' | 'skipped' | 'queued' | null> {
+    const now = new Date();
+    const busy = schedule.lastRunId ? await this.isActive(schedule.lastRunId) : false;
+
+    if (schedule.nextRunAt && schedule.nextRunAt.getTime() <= now.getTime()) {
+      const scheduledAt = schedule.nextRunAt;
+      const claimed = await this.pool.query(
+        `UPDATE run_schedules SET next_run_at = $3, updated_at = NOW()
+         WHERE id = $1 AND status = 'active' AND next_run_at = $2
+         RETURNING id`,
+        [schedule.id, scheduledAt, nextCronOccurrence(schedule.cron, schedule.timezone, now)]
+      );
+      if (claimed.rows.length === 0) return null;
+
+      if (!busy || schedule.overlapPolicy === 'allow') {
+        await this.startRun(schedule, scheduledAt);
+        return 'started';
+      }
+      if (schedule.overlapPolicy === 'queue') {
+        await this.pool.query(
+          `UPDATE run_schedules SET queued_at = COALESCE(queued_at, $2) WHERE id = $1`,
+          [schedule.id, scheduledAt]
+        );
+        return 'queued';
+      }
+      console.log(`[run-scheduler] Skipped "${schedule.name}" at ${scheduledAt.toISOString()}: run ${schedule.lastRunId} is still active`);
+      await this.pool.query(`UPDATE run_schedules SET last_skipped_at = $2 WHERE id = $1`, [schedule.id, scheduledAt]);
+      return 'skipped';
+    }
+
+    if (schedule.queuedAt && !busy) {
+      const claimed = await this.pool.query(
+        `UPDATE run_schedules SET queued_at = NULL, updated_at = NOW()
+         WHERE id = $1 AND status = 'active' AND queued_at = $2
+         RETURNING id`,
+        [schedule.id, schedule.queuedAt]
+      );
+      if (claimed.rows.length === 0) return null;
+      await this.startRun(schedule, schedule.queuedAt);
+      return 'started';
+    }
+    return null;
+  }
+
+  private async isActive(runId: string): Promise<boolean> {
+    const result = await this.pool.query(`SELECT status FROM flow_runs WHERE id = $1`, [runId]);
+    return ['running', 'paused'].includes(result.rows[0]?.status);
+  }
+
+  private async startRun(schedule: RunSchedule, scheduledAt: Date): Promise<void> {
+    const input = {
+      ...renderInputTemplate(schedule.input, scheduledAt, schedule.timezone),
+      schedule: { id: schedule.id, name: schedule.name, scheduledAt: scheduledAt.toISOString() },
+    };
+    const run = await this.onDue(schedule, input);
+    await this.pool.query(
+      `UPDATE run_schedules SET last_run_id = $2, last_run_at = NOW(), last_error = NULL WHERE id = $1`,
+      [schedule.id, run.id]
+    );
+    console.log(`[run-scheduler] Started run ${run.id} for "${schedule.name}" (${scheduledAt.toISOString()})`);
+  }
+
+  /**
+   * Record why an occurrence didn't start. A schedule whose expression no longer parses is
+   * paused, as it would fail on every tick.
+   */
+  private async recordError(schedule: RunSchedule, err: Error): Promise<void> {
+    const pause = err instanceof CronExpressionError;
+    await this.pool.query(
+      `UPDATE run_schedules
+       SET last_error = $2, status = CASE WHEN $3 THEN 'paused' ELSE status END, updated_at = NOW()
+       WHERE id = $1`,
+      [schedule.id, err.message, pause]
+    ).catch(updateErr => console.error(`[run-scheduler] Failed to record the error of schedule ${schedule.id}:`, updateErr.message));
+  }
+}
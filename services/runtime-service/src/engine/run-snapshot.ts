@@ -0,0 +1,54 @@
+/**
+ * Run Snapshots & Recovery Policy
+ *
+ * After every step the FlowRunner persists the bpmn-engine state (`engine.getState()`)
+ * together with the runner's own bookkeeping (flow state, loop counters, routing
+ * decisions). After a runtime-service restart a run is rebuilt from its latest
+ * snapshot with `engine.recover()` + `engine.resume()`.
+ *
+ * What happens to a run that was still executing when the process died is decided
+ * by its recovery policy:
+ *   - restart: recover from the latest snapshot and re-execute the interrupted step(s)
+ *   - fail:    mark the run failed
+ *
+ * Paused runs (waiting for human approval) are always kept, and rebuilt when resumed.
+ *
+ * Policy resolution: foundation metadata `recoveryPolicy` → RUN_RECOVERY_POLICY env → 'restart'.
+ */
+
+import { FlowState } from './data-contracts';
+
+export type RecoveryPolicy = 'restart' | 'fail';
+
+export const RECOVERY_POLICIES: RecoveryPolicy[] = ['restart', 'fail'];
+
+/**
+ * Runner-side state that lives next to the engine state. Maps are stored as plain objects.
+ */
+export interface RunnerState {
+  lastOutput: any;
+  flowState: FlowState;
+  taskIterations: Record<string, number>;
+  countedSteps: Record<string, string>;
+  gatewayDecisions: Record<string, any>;
+}
+
+export interface RunSnapshot {
+  run_id: string;
+  tenant_id: string;
+  bpmn_xml: string;
+  // Null until the run's first step has completed
+  engine_state: any | null;
+  runner_state: RunnerState | null;
+  updated_at: Date;
+}
+
+export function isRecoveryPolicy(value: any): value is RecoveryPolicy {
+  return RECOVERY_POLICIES.includes(value);
+}
+
+export function resolveRecoveryPolicy(metadata: any): RecoveryPolicy {
+  if (isRecoveryPolicy(metadata?.recoveryPolicy)) return metadata.recoveryPolicy;
+  const envPolicy = process.env.RUN_RECOVERY_POLICY;
+  return isRecoveryPolicy(envPolicy) ? envPolicy : 'restart';
+}
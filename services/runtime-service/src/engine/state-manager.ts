@@ -1,16 +1,51 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
+import { RunSnapshot, RunnerState } from './run-snapshot';
+import { TimerType } from './timer-events';
+import { RunOwner } from './run-leases';
+import { LLMCallUsage } from '../providers';
 
 export interface FlowRun {
   id: string;
   tenant_id: string;
   foundation_id: string;
+  orchestrator_id?: string;
+  started_by?: string;
+  // Caller's identifier for what the run is about (e.g. an issue key); messages correlate on it
+  business_key?: string | null;
+  // Replays (see run-replay.ts): the run replayed, the step it re-executed from and that step's edited input
+  parent_run_id?: string | null;
+  replay_from_step_id?: string | null;
+  replay_step_input?: any;
   status: string;
   input_data: any;
   output_data: any;
   error?: string;
   started_at: Date;
   completed_at?: Date;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  llm_calls?: number;
+  llm_latency_ms?: number;
+  cost_usd?: string;
+  paused_at?: Date | null;
+  paused_ms?: number;
+  // Runtime instance executing the run, and until when (see run-leases.ts)
+  owner_instance?: string | null;
+  lease_expires_at?: Date | null;
+}
+
+/**
+ * Where an LLM call happened, for the usage ledger.
+ */
+export interface UsageContext {
+  tenantId: string;
+  runId: string;
+  foundationId: string;
+  stepId?: string;
+  elementId?: string;
+  agentId?: string;
+  agentName?: string;
 }
 
 export interface FlowStep {
@@ -26,19 +61,77 @@ export interface FlowStep {
   output_data: any;
   error?: string;
   approval_id?: string;
+  // Set on tool-call sub-steps: the agent step that made the call
+  parent_step_id?: string;
+  // Set on steps of a replay copied from the parent run: the row they were copied from
+  replayed_from_step_id?: string | null;
+  provider?: string;
+  model?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  latency_ms?: number;
+  cost_usd?: string;
   started_at?: Date;
   completed_at?: Date;
 }
 
+/**
+ * A step waiting at a message catch event (see message-events.ts).
+ */
+export interface MessageSubscription {
+  id: string;
+  tenant_id: string;
+  run_id: string;
+  step_id: string;
+  foundation_id: string;
+  element_id: string;
+  message_name: string;
+  correlation_key?: string | null;
+  status: 'waiting' | 'delivered' | 'cancelled';
+  payload?: any;
+  source?: string;
+  created_at: Date;
+  delivered_at?: Date;
+}
+
+/**
+ * A step waiting at a timer catch event (see timer-events.ts).
+ */
+export interface RunTimer {
+  id: string;
+  tenant_id: string;
+  run_id: string;
+  step_id: string;
+  element_id: string;
+  timer_type: TimerType;
+  // The ISO 8601 value, with any ${variable} resolved
+  timer_value: string;
+  due_at: Date;
+  status: 'scheduled' | 'fired' | 'cancelled' | 'failed';
+  fired_at?: Date;
+  error?: string;
+  created_at: Date;
+}
+
 export class StateManager {
   constructor(private pool: Pool) {}
 
-  async createRun(tenantId: string, foundationId: string, inputData: any, orchestratorId?: string): Promise<FlowRun> {
-    const result = await this.pool.query(
-      `INSERT INTO flow_runs (tenant_id, foundation_id, status, input_data, orchestrator_id)
-       VALUES ($1, $2, 'running', $3, $4)
+  /**
+   * Insert a running run. `db` is the budget admission transaction's connection (see budgets.ts).
+   */
+  async createRun(
+    tenantId: string, foundationId: string, inputData: any, owner: RunOwner,
+    orchestratorId?: string, startedBy?: string, businessKey?: string, db: Pool | PoolClient = this.pool
+  ): Promise<FlowRun> {
+    const result = await db.query(
+      `INSERT INTO flow_runs
+         (tenant_id, foundation_id, status, input_data, orchestrator_id, started_by, business_key, owner_instance, lease_expires_at)
+       VALUES ($1, $2, 'running', $3, $4, $5, $6, $7, NOW() + $8 * INTERVAL '1 millisecond')
        RETURNING *`,
-      [tenantId, foundationId, JSON.stringify(inputData || {}), orchestratorId || null]
+      [
+        tenantId, foundationId, JSON.stringify(inputData || {}), orchestratorId || null, startedBy || null, businessKey || null,
+        owner.instanceId, owner.leaseMs,
+      ]
     );
     return result.rows[0];
   }
@@ -46,7 +139,11 @@ export class StateManager {
   async updateRunStatus(runId: string, status: string, outputData?: any, error?: string): Promise<void> {
     const completedAt = ['completed', 'failed', 'cancelled'].includes(status) ? 'NOW()' : 'NULL';
     await this.pool.query(
-      `UPDATE flow_runs SET status = $1, output_data = COALESCE($2, output_data), error = $3, completed_at = ${completedAt} WHERE id = $4`,
+      `UPDATE flow_runs SET status = $1, output_data = COALESCE($2, output_data), error = $3, completed_at = ${completedAt},
+         paused_ms = paused_ms + CASE WHEN $1 <> 'paused' AND paused_at IS NOT NULL
+                                      THEN (EXTRACT(EPOCH FROM (NOW() - paused_at)) * 1000)::bigint ELSE 0 END,
+         paused_at = CASE WHEN $1 = 'paused' THEN COALESCE(paused_at, NOW()) ELSE NULL END
+       WHERE id = $4`,
       [status, outputData ? JSON.stringify(outputData) : null, error || null, runId]
     );
   }
@@ -59,12 +156,16 @@ export class StateManager {
     return result.rows[0] || null;
   }
 
-  async listRuns(tenantId: string, status?: string): Promise<FlowRun[]> {
+  async listRuns(tenantId: string, status?: string, businessKey?: string): Promise<FlowRun[]> {
     let query = `SELECT * FROM flow_runs WHERE tenant_id = $1`;
     const params: any[] = [tenantId];
     if (status) {
-      query += ` AND status = $2`;
       params.push(status);
+      query += ` AND status = $${params.length}`;
+    }
+    if (businessKey) {
+      params.push(businessKey);
+      query += ` AND business_key = $${params.length}`;
     }
     query += ` ORDER BY created_at DESC LIMIT 100`;
     const result = await this.pool.query(query, params);
@@ -81,6 +182,19 @@ export class StateManager {
     return result.rows[0];
   }
 
+  /**
+   * Log an agent's tool call as a running sub-step of the agent's step.
+   */
+  async createToolStep(runId: string, parentStepId: string, stepKey: string, toolName: string, input: any, agentId?: string, agentName?: string): Promise<FlowStep> {
+    const result = await this.pool.query(
+      `INSERT INTO flow_steps (run_id, parent_step_id, step_key, step_name, step_type, agent_id, agent_name, status, input_data, started_at)
+       VALUES ($1, $2, $3, $4, 'tool', $5, $6, 'running', $7, NOW())
+       RETURNING *`,
+      [runId, parentStepId, stepKey, toolName, agentId || null, agentName || null, JSON.stringify(input || {})]
+    );
+    return result.rows[0];
+  }
+
   async updateStepStatus(stepId: string, status: string, outputData?: any, error?: string): Promise<void> {
     const startedClause = status === 'running' ? ', started_at = NOW()' : '';
     const completedClause = ['completed', 'failed', 'skipped'].includes(status) ? ', completed_at = NOW()' : '';
@@ -106,6 +220,18 @@ export class StateManager {
     );
   }
 
+  /**
+   * Complete a step of a replay with the status, output and error recorded on the parent run's row.
+   */
+  async replayStep(stepId: string, recorded: FlowStep): Promise<void> {
+    await this.pool.query(
+      `UPDATE flow_steps
+       SET status = $2, output_data = $3, error = $4, replayed_from_step_id = $5, completed_at = NOW()
+       WHERE id = $1`,
+      [stepId, recorded.status, JSON.stringify(recorded.output_data ?? null), recorded.error || null, recorded.id]
+    );
+  }
+
   async updateStepInput(stepId: string, inputData: any): Promise<void> {
     await this.pool.query(
       `UPDATE flow_steps SET input_data = $1 WHERE id = $2`,
@@ -128,4 +254,235 @@ export class StateManager {
     );
     return result.rows[0] || null;
   }
+
+  /**
+   * Steps of a run still waiting on an approval request that has since been decided or expired.
+   */
+  async getDecidedApprovalSteps(runId: string): Promise<FlowStep[]> {
+    const result = await this.pool.query(
+      `SELECT s.* FROM flow_steps s JOIN approval_requests a ON a.id = s.approval_id
+       WHERE s.run_id = $1 AND s.status = 'waiting_approval' AND a.status IN ('approved', 'rejected', 'expired')
+       ORDER BY a.decided_at ASC`,
+      [runId]
+    );
+    return result.rows;
+  }
+
+  // ── Message waits ─────────────────────────────────────────────────────────
+
+  /**
+   * Record that a step is waiting for a message and mark it `waiting_message`.
+   */
+  async createMessageSubscription(
+    tenantId: string, runId: string, stepId: string, foundationId: string, elementId: string, messageName: string,
+    correlationKey?: string | null
+  ): Promise<MessageSubscription> {
+    const result = await this.pool.query(
+      `INSERT INTO run_message_subscriptions (tenant_id, run_id, step_id, foundation_id, element_id, message_name, correlation_key)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [tenantId, runId, stepId, foundationId, elementId, messageName, correlationKey || null]
+    );
+    await this.pool.query(`UPDATE flow_steps SET status = 'waiting_message' WHERE id = $1`, [stepId]);
+    return result.rows[0];
+  }
+
+  /**
+   * Waiting subscriptions for a message, oldest first, optionally narrowed to a foundation,
+   * run or correlation key.
+   */
+  async findMessageSubscriptions(
+    tenantId: string, messageName: string, target: { foundationId?: string; runId?: string; correlationKey?: string } = {}
+  ): Promise<MessageSubscription[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM run_message_subscriptions
+       WHERE tenant_id = $1 AND message_name = $2 AND status = 'waiting'
+         AND ($3::uuid IS NULL OR foundation_id = $3) AND ($4::uuid IS NULL OR run_id = $4)
+         AND ($5::text IS NULL OR correlation_key = $5)
+       ORDER BY created_at ASC`,
+      [tenantId, messageName, target.foundationId || null, target.runId || null, target.correlationKey || null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Mark a subscription delivered. Returns null when it was delivered (or cancelled) already.
+   */
+  async claimMessageSubscription(id: string, payload: any, source: string): Promise<MessageSubscription | null> {
+    const result = await this.pool.query(
+      `UPDATE run_message_subscriptions SET status = 'delivered', payload = $2, source = $3, delivered_at = NOW()
+       WHERE id = $1 AND status = 'waiting'
+       RETURNING *`,
+      [id, JSON.stringify(payload), source]
+    );
+    return result.rows[0] || null;
+  }
+
+  async cancelMessageSubscriptions(runId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE run_message_subscriptions SET status = 'cancelled' WHERE run_id = $1 AND status = 'waiting'`,
+      [runId]
+    );
+  }
+
+  // ── Timer waits ───────────────────────────────────────────────────────────
+
+  /**
+   * Schedule a step's timer and mark the step `waiting_timer`.
+   */
+  async createRunTimer(
+    tenantId: string, runId: string, stepId: string, elementId: string, timerType: TimerType, timerValue: string, dueAt: Date
+  ): Promise<RunTimer> {
+    const result = await this.pool.query(
+      `INSERT INTO run_timers (tenant_id, run_id, step_id, element_id, timer_type, timer_value, due_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [tenantId, runId, stepId, elementId, timerType, timerValue, dueAt]
+    );
+    await this.pool.query(`UPDATE flow_steps SET status = 'waiting_timer' WHERE id = $1`, [stepId]);
+    return result.rows[0];
+  }
+
+  async cancelRunTimers(runId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE run_timers SET status = 'cancelled' WHERE run_id = $1 AND status = 'scheduled'`,
+      [runId]
+    );
+  }
+
+  async setReplaySource(runId: string, parentRunId: string, fromStepId: string, stepInput?: Record<string, any> | null): Promise<void> {
+    await this.pool.query(
+      `UPDATE flow_runs SET parent_run_id = $2, replay_from_step_id = $3, replay_step_input = $4 WHERE id = $1`,
+      [runId, parentRunId, fromStepId, stepInput ? JSON.stringify(stepInput) : null]
+    );
+  }
+
+  async getRunById(runId: string): Promise<FlowRun | null> {
+    const result = await this.pool.query(`SELECT * FROM flow_runs WHERE id = $1`, [runId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Claim the unfinished runs (all tenants) whose owner's lease has expired, or that have
+   * no owner yet. The conditional update makes each run go to one instance only.
+   */
+  async claimOrphanedRuns(owner: RunOwner): Promise<(FlowRun & { foundation_metadata: any })[]> {
+    const result = await this.pool.query(
+      `WITH claimed AS (
+         UPDATE flow_runs SET owner_instance = $1, lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+         WHERE status IN ('running', 'paused') AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+         RETURNING *
+       )
+       SELECT c.*, f.metadata AS foundation_metadata
+       FROM claimed c JOIN foundations f ON f.id = c.foundation_id
+       ORDER BY c.started_at ASC`,
+      [owner.instanceId, owner.leaseMs]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Take over a run this instance is about to rebuild from its snapshot.
+   */
+  async claimRun(runId: string, owner: RunOwner): Promise<void> {
+    await this.pool.query(
+      `UPDATE flow_runs SET owner_instance = $2, lease_expires_at = NOW() + $3 * INTERVAL '1 millisecond' WHERE id = $1`,
+      [runId, owner.instanceId, owner.leaseMs]
+    );
+  }
+
+  async failInterruptedSteps(runId: string, error: string, stepType?: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE flow_steps SET status = 'failed', error = $1, completed_at = NOW()
+       WHERE run_id = $2 AND status = 'running'${stepType ? ' AND step_type = $3' : ''}`,
+      stepType ? [error, runId, stepType] : [error, runId]
+    );
+  }
+
+  /**
+   * Record LLM calls in the usage ledger and add them to the step and run totals.
+   */
+  async recordUsage(context: UsageContext, calls: LLMCallUsage[]): Promise<void> {
+    if (calls.length === 0) return;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const call of calls) {
+        await client.query(
+          `INSERT INTO llm_usage (tenant_id, run_id, step_id, foundation_id, agent_id, agent_name, element_id,
+                                  call_type, provider, model, prompt_tokens, completion_tokens, images, latency_ms, cost_usd)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+          [context.tenantId, context.runId, context.stepId || null, context.foundationId, context.agentId || null,
+           context.agentName || null, context.elementId || null, call.callType, call.provider, call.model,
+           call.promptTokens, call.completionTokens, call.images, call.latencyMs, call.costUsd]
+        );
+      }
+
+      const totals = calls.reduce((acc, c) => ({
+        promptTokens: acc.promptTokens + c.promptTokens,
+        completionTokens: acc.completionTokens + c.completionTokens,
+        latencyMs: acc.latencyMs + c.latencyMs,
+        costUsd: acc.costUsd + (c.costUsd || 0),
+      }), { promptTokens: 0, completionTokens: 0, latencyMs: 0, costUsd: 0 });
+
+      if (context.stepId) {
+        const primary = calls.find(c => c.callType === 'agent') || calls[0];
+        await client.query(
+          `UPDATE flow_steps SET
+             provider = COALESCE(provider, $1), model = COALESCE(model, $2),
+             prompt_tokens = COALESCE(prompt_tokens, 0) + $3,
+             completion_tokens = COALESCE(completion_tokens, 0) + $4,
+             latency_ms = COALESCE(latency_ms, 0) + $5,
+             cost_usd = COALESCE(cost_usd, 0) + $6
+           WHERE id = $7`,
+          [primary.provider, primary.model, totals.promptTokens, totals.completionTokens, totals.latencyMs, totals.costUsd, context.stepId]
+        );
+      }
+      await client.query(
+        `UPDATE flow_runs SET
+           prompt_tokens = COALESCE(prompt_tokens, 0) + $1,
+           completion_tokens = COALESCE(completion_tokens, 0) + $2,
+           llm_latency_ms = COALESCE(llm_latency_ms, 0) + $3,
+           cost_usd = COALESCE(cost_usd, 0) + $4,
+           llm_calls = COALESCE(llm_calls, 0) + $5
+         WHERE id = $6`,
+        [totals.promptTokens, totals.completionTokens, totals.latencyMs, totals.costUsd, calls.length, context.runId]
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ── Engine snapshots ──────────────────────────────────────────────────────
+
+  async createSnapshot(runId: string, tenantId: string, bpmnXml: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO flow_run_snapshots (run_id, tenant_id, bpmn_xml) VALUES ($1, $2, $3)
+       ON CONFLICT (run_id) DO NOTHING`,
+      [runId, tenantId, bpmnXml]
+    );
+  }
+
+  async saveSnapshot(runId: string, engineState: any, runnerState: RunnerState): Promise<void> {
+    await this.pool.query(
+      `UPDATE flow_run_snapshots SET engine_state = $1, runner_state = $2, updated_at = NOW() WHERE run_id = $3`,
+      [JSON.stringify(engineState), JSON.stringify(runnerState), runId]
+    );
+  }
+
+  async getSnapshot(runId: string): Promise<RunSnapshot | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM flow_run_snapshots WHERE run_id = $1`,
+      [runId]
+    );
+    return result.rows[0] || null;
+  }
+
+  async deleteSnapshot(runId: string): Promise<void> {
+    await this.pool.query(`DELETE FROM flow_run_snapshots WHERE run_id = $1`, [runId]);
+  }
 }
@@ -0,0 +1,192 @@
+/**
+ * Timer catch events — intermediate catch events with a timerEventDefinition pause the
+ * run until the timer is due. Timers are stored in `run_timers` and fired by the
+ * TimerScheduler, so a wait of days survives runtime-service restarts.
+ *
+ *   <bpmn:intermediateCatchEvent id="Cooldown" name="Wait 2 days">
+ *     <bpmn:timerEventDefinition>
+ *       <bpmn:timeDuration xsi:type="bpmn:tFormalExpression">P2D</bpmn:timeDuration>
+ *     </bpmn:timerEventDefinition>
+ *   </bpmn:intermediateCatchEvent>
+ *
+ * Values are ISO 8601:
+ *   - timeDuration: a duration, e.g. PT15M or P1DT12H
+ *   - timeDate: a date-time, e.g. 2026-03-01T09:00:00Z
+ *   - timeCycle: a repeating interval, R[n]/[start/]duration — the event fires at the next
+ *     occurrence (R/2026-03-02T09:00:00Z/P1D fires at the next 09:00 UTC)
+ * A value may also be a ${variable} resolved against the run's input and task outputs.
+ *
+ * bpmn-engine would keep its own in-memory timeout, so the executable process gets a plain
+ * wait in place of each timer definition and the runner signals it when the timer fires.
+ */
+
+export type TimerType = 'duration' | 'date' | 'cycle';
+
+export interface TimerDefinition {
+  type: TimerType;
+  value: string;
+}
+
+/**
+ * Thrown when a timer's value is not a valid ISO 8601 duration, date or cycle.
+ */
+export class TimerDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimerDefinitionError';
+  }
+}
+
+const TIMER_ELEMENTS: Record<string, TimerType> = {
+  timeDuration: 'duration',
+  timeDate: 'date',
+  timeCycle: 'cycle',
+};
+
+/**
+ * Timer definitions of the timer catch events in `processXml`, by event ID.
+ */
+export function parseTimerCatchEvents(processXml: string): Map<string, TimerDefinition> {
+  const events = new Map<string, TimerDefinition>();
+  const eventRegex = /<bpmn:intermediateCatchEvent\s+([^>]*?)(?<!\/)>([\s\S]*?)<\/bpmn:intermediateCatchEvent>/g;
+  let m;
+  while ((m = eventRegex.exec(processXml)) !== null) {
+    const id = m[1].match(/\bid="([^"]*)"/)?.[1];
+    const definition = m[2].match(/<bpmn:timerEventDefinition\b[^>]*>([\s\S]*?)<\/bpmn:timerEventDefinition>/);
+    if (!id || !definition) continue;
+    const timer = definition[1].match(/<bpmn:(timeDuration|timeDate|timeCycle)\b[^>]*>([\s\S]*?)<\/bpmn:\1>/);
+    if (timer) events.set(id, { type: TIMER_ELEMENTS[timer[1]], value: timer[2].trim() });
+  }
+  return events;
+}
+
+/**
+ * Resolve a ${variable} timer value against `scope` (dotted paths allowed).
+ */
+export function resolveTimerValue(value: string, scope: Record<string, any>): string {
+  const expression = value.match(/^\$\{\s*([\w.]+)\s*\}$/);
+  if (!expression) return value;
+  const resolved = expression[1].split('.').reduce((v: any, key) => (v === null || v === undefined ? undefined : v[key]), scope);
+  if (resolved === undefined || resolved === null || resolved === '') {
+    throw new TimerDefinitionError(`Timer variable "${expression[1]}" is not set`);
+  }
+  return resolved instanceof Date ? resolved.toISOString() : String(resolved);
+}
+
+interface Duration {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+function parseDuration(value: string): Duration {
+  const m = value.match(/^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!m || value.length < 3 || /T$/i.test(value)) {
+    throw new TimerDefinitionError(`"${value}" is not an ISO 8601 duration`);
+  }
+  const [years, months, weeks, days, hours, minutes, seconds] = m.slice(1).map(part => Number(part || 0));
+  return { years, months, weeks, days, hours, minutes, seconds };
+}
+
+/**
+ * `date` plus an ISO 8601 duration. Years and months are calendar units, added with
+ * Date#setUTCMonth (so P1M from January 31 rolls over into March).
+ */
+export function addDuration(date: Date, value: string): Date {
+  const d = parseDuration(value);
+  const result = new Date(date.getTime());
+  if (d.years || d.months) {
+    result.setUTCMonth(result.getUTCMonth() + Math.trunc(d.years * 12 + d.months));
+  }
+  const ms = ((((d.weeks * 7 + d.days) * 24 + d.hours) * 60 + d.minutes) * 60 + d.seconds) * 1000;
+  result.setTime(result.getTime() + ms);
+  if (result.getTime() <= date.getTime()) {
+    throw new TimerDefinitionError(`Duration "${value}" must be longer than zero`);
+  }
+  return result;
+}
+
+function parseDate(value: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new TimerDefinitionError(`"${value}" is not an ISO 8601 date-time`);
+  }
+  return new Date(value);
+}
+
+/**
+ * When a cycle fires next after `from`: R[n]/duration (one interval from now),
+ * R[n]/start/duration or R[n]/duration/end. Fires at `from` when every repetition is past.
+ */
+function nextCycle(value: string, from: Date): Date {
+  const parts = value.split('/');
+  const repeat = parts[0].match(/^R(\d*)$/i);
+  if (!repeat || parts.length < 2 || parts.length > 3) {
+    throw new TimerDefinitionError(`"${value}" is not an ISO 8601 repeating interval`);
+  }
+  const repetitions = repeat[1] ? Number(repeat[1]) : Infinity;
+  if (repetitions === 0) throw new TimerDefinitionError(`Cycle "${value}" never repeats`);
+
+  if (parts.length === 2) return addDuration(from, parts[1]);
+
+  if (/^P/i.test(parts[1])) {
+    // R/duration/end: the last occurrence is the end date
+    const end = parseDate(parts[2]);
+    const next = addDuration(from, parts[1]);
+    return next.getTime() <= end.getTime() ? next : from;
+  }
+
+  let occurrence = parseDate(parts[1]);
+  for (let i = 1; occurrence.getTime() < from.getTime(); i++) {
+    if (i >= repetitions) return from;
+    occurrence = addDuration(occurrence, parts[2]);
+  }
+  return occurrence;
+}
+
+/**
+ * When a timer reached at `from` is due.
+ */
+export function timerDueAt(timer: TimerDefinition, from = new Date()): Date {
+  switch (timer.type) {
+    case 'duration':
+      return addDuration(from, timer.value);
+    case 'date':
+      return parseDate(timer.value);
+    case 'cycle':
+      return nextCycle(timer.value, from);
+  }
+}
+
+/**
+ * Check a timer definition without scheduling it. Returns an error message, or null.
+ * Variables (${...}) can only be checked when the timer is reached.
+ */
+export function validateTimerDefinition(timer: TimerDefinition): string | null {
+  if (/^\$\{[\s\S]*\}$/.test(timer.value)) return null;
+  try {
+    timerDueAt(timer);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+/**
+ * Replace the timer definitions of the catch events in `timers` with a plain
+ * messageEventDefinition, so bpmn-engine waits for the runner to signal the event instead
+ * of keeping its own in-memory timeout.
+ */
+export function replaceTimerDefinitions(processXml: string, timers: Map<string, TimerDefinition>): string {
+  return processXml.replace(
+    /(<bpmn:intermediateCatchEvent\s+([^>]*?)(?<!\/)>(?:(?!<\/bpmn:intermediateCatchEvent>)[\s\S])*?)<bpmn:timerEventDefinition\b([^>]*?)(?<!\/)>[\s\S]*?<\/bpmn:timerEventDefinition>/g,
+    (match: string, before: string, eventAttrs: string, attrs: string) => {
+      if (!timers.has(eventAttrs.match(/\bid="([^"]*)"/)?.[1] || '')) return match;
+      const id = attrs.match(/\bid="([^"]*)"/)?.[1];
+      return `${before}<bpmn:messageEventDefinition${id ? ` id="${id}"` : ''}/>`;
+    }
+  );
+}
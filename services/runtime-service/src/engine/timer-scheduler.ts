@@ -0,0 +1,113 @@
+/**
+ * Timer Scheduler
+ *
+ * Fires the timers of runs waiting at timer catch events (see timer-events.ts). Timers
+ * live in `run_timers`, so a run waiting for days survives restarts: each tick picks up
+ * the timers that are due, including any that fell due while the service was down.
+ * Timers due before the next tick are also kept in memory so they fire on time.
+ *
+ * A timer is claimed with a conditional update before it fires, so runtime instances
+ * ticking at the same time don't fire one twice.
+ */
+
+import { Pool } from 'pg';
+import { RunTimer } from './state-manager';
+
+const TICK_INTERVAL_MS = Number(process.env.TIMER_SCHEDULER_INTERVAL_MS) || 30000;
+const TICK_BATCH_SIZE = 100;
+
+export class TimerScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private intervalMs = TICK_INTERVAL_MS;
+  // In-memory timeouts for timers due before the next tick, by timer ID
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * `onDue` releases the step waiting for a claimed timer; false means the run no longer waits.
+   */
+  constructor(
+    private pool: Pool,
+    private onDue: (timer: RunTimer) => Promise<boolean>
+  ) {}
+
+  start(intervalMs = TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.intervalMs = intervalMs;
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error('[timer-scheduler] Tick failed:', err.message));
+    }, intervalMs);
+    this.timer.unref();
+    console.log(`[timer-scheduler] Checking run timers every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const timeout of this.pending.values()) clearTimeout(timeout);
+    this.pending.clear();
+  }
+
+  /**
+   * Fire a newly scheduled timer in memory when it is due before the next tick.
+   */
+  track(timer: RunTimer): void {
+    const delay = new Date(timer.due_at).getTime() - Date.now();
+    if (delay > this.intervalMs || this.pending.has(timer.id)) return;
+    const timeout = setTimeout(() => {
+      this.pending.delete(timer.id);
+      this.fire(timer.id).catch(err => console.error(`[timer-scheduler] Failed to fire timer ${timer.id}:`, err.message));
+    }, Math.max(delay, 0));
+    timeout.unref();
+    this.pending.set(timer.id, timeout);
+  }
+
+  /**
+   * One pass: fire every timer that is due.
+   */
+  async tick(): Promise<{ fired: number }> {
+    const summary = { fired: 0 };
+    if (this.ticking) return summary;
+    this.ticking = true;
+    try {
+      const result = await this.pool.query(
+        `SELECT id FROM run_timers
+         WHERE status = 'scheduled' AND due_at <= NOW()
+         ORDER BY due_at ASC
+         LIMIT $1`,
+        [TICK_BATCH_SIZE]
+      );
+      for (const row of result.rows) {
+        if (await this.fire(row.id)) summary.fired++;
+      }
+      if (summary.fired) console.log(`[timer-scheduler] Fired ${summary.fired} run timers`);
+    } finally {
+      this.ticking = false;
+    }
+    return summary;
+  }
+
+  /**
+   * Claim a due timer and release the step waiting for it. Returns false when the timer was
+   * already claimed, or its run no longer waits for it.
+   */
+  private async fire(timerId: string): Promise<boolean> {
+    const claimed = await this.pool.query(
+      `UPDATE run_timers SET status = 'fired', fired_at = NOW()
+       WHERE id = $1 AND status = 'scheduled' AND due_at <= NOW()
+       RETURNING *`,
+      [timerId]
+    );
+    const timer: RunTimer | undefined = claimed.rows[0];
+    if (!timer) return false;
+
+    try {
+      if (await this.onDue(timer)) return true;
+      await this.pool.query(`UPDATE run_timers SET status = 'cancelled' WHERE id = $1`, [timer.id]);
+    } catch (err: any) {
+      console.error(`[timer-scheduler] Failed to release run ${timer.run_id} from timer ${timer.id}:`, err.message);
+      await this.pool.query(`UPDATE run_timers SET status = 'failed', error = $2 WHERE id = $1`, [timer.id, err.message]);
+    }
+    return false;
+  }
+}
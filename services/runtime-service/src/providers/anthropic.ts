@@ -0,0 +1,94 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, ProviderCredentials, CompletionRequest, CompletionResponse, ChatMessage } from './types';
+
+/**
+ * Adapter for the Anthropic Messages API. No image generation.
+ */
+export class AnthropicProvider implements LLMProvider {
+  name = 'anthropic' as const;
+  supportsImages = false;
+  private client: Anthropic;
+
+  constructor(credentials: ProviderCredentials, public defaultModel: string) {
+    // Retries and timeouts are handled by the provider registry, not the SDK
+    this.client = new Anthropic({
+      apiKey: credentials.apiKey,
+      baseURL: credentials.endpoint || undefined,
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: toAnthropicMessages(request.messages),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+            })),
+          }
+        : {}),
+    };
+
+    let response: Anthropic.Message;
+    if (request.onDelta) {
+      const stream = this.client.messages.stream(params, { signal: request.signal });
+      stream.on('text', delta => request.onDelta!(delta));
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(params, { signal: request.signal });
+    }
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+    const toolCalls = response.content.flatMap(block =>
+      block.type === 'tool_use' ? [{ id: block.id, name: block.name, arguments: (block.input || {}) as Record<string, any> }] : []);
+
+    return {
+      text,
+      model: response.model || request.model,
+      provider: this.name,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+      },
+      toolCalls,
+    };
+  }
+}
+
+/**
+ * Map chat messages onto Messages API turns. Tool results are user-turn `tool_result`
+ * blocks; consecutive results are merged into one turn as the API requires.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const block: Anthropic.ToolResultBlockParam = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+  return result;
+}
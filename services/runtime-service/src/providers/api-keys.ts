@@ -0,0 +1,107 @@
+/**
+ * Provider API Key Encryption
+ *
+ * Tenant LLM provider API keys are stored encrypted in llm_provider_configs, under the
+ * credential vault's master keys (the VAULT_KEY_FILE integration-service uses, shaped
+ * `{ "activeKeyId": "...", "keys": { "<id>": "<base64 32 bytes>" } }`). Each tenant gets
+ * its own key derived with HKDF, and the ciphertext is bound to `tenantId:provider`, so a
+ * key copied to another row or tenant does not decrypt. The master key ID is stored with
+ * the ciphertext, so keys encrypted before a master key rotation still decrypt.
+ *
+ * Outside production a missing key file is generated on first use.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+
+export const DEFAULT_KEY_FILE = process.env.VAULT_KEY_FILE || path.resolve('.vault', 'master.key');
+const KEY_BYTES = 32;
+
+interface KeyFile {
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+export interface EncryptedApiKey {
+  ciphertext: string;
+  keyId: string;
+}
+
+export class ApiKeyCipher {
+  private keys: Map<string, Buffer> | null = null;
+  private activeKeyId = '';
+
+  constructor(readonly keyFile = DEFAULT_KEY_FILE) {}
+
+  encrypt(tenantId: string, provider: string, apiKey: string): EncryptedApiKey {
+    this.load();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.tenantKey(tenantId, this.activeKeyId), iv);
+    cipher.setAAD(Buffer.from(`${tenantId}:${provider}`));
+    const ciphertext = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+    return {
+      // Packed as "v1.<iv>.<tag>.<ciphertext>" (base64 parts), as in the credential vault
+      ciphertext: ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64')).join('.'),
+      keyId: this.activeKeyId,
+    };
+  }
+
+  decrypt(tenantId: string, provider: string, encrypted: EncryptedApiKey): string {
+    this.load();
+    const [version, iv, tag, ciphertext] = encrypted.ciphertext.split('.');
+    if (version !== 'v1' || !ciphertext) throw new Error('Unrecognized API key ciphertext');
+    const decipher = createDecipheriv('aes-256-gcm', this.tenantKey(tenantId, encrypted.keyId), Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(`${tenantId}:${provider}`));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  private tenantKey(tenantId: string, keyId: string): Buffer {
+    const master = this.keys!.get(keyId);
+    if (!master) throw new Error(`Vault key ${keyId} is not in ${this.keyFile}`);
+    return Buffer.from(hkdfSync('sha256', master, Buffer.from(tenantId), Buffer.from('flowgrid-llm-provider-key'), KEY_BYTES));
+  }
+
+  private load(): void {
+    if (this.keys) return;
+    const contents = readKeyFile(this.keyFile);
+    const keys = new Map<string, Buffer>();
+    for (const [id, encoded] of Object.entries(contents.keys)) {
+      const key = Buffer.from(encoded, 'base64');
+      if (key.length !== KEY_BYTES) throw new Error(`Vault key ${id} in ${this.keyFile} is not ${KEY_BYTES} bytes`);
+      keys.set(id, key);
+    }
+    if (!keys.has(contents.activeKeyId)) {
+      throw new Error(`Vault key file ${this.keyFile} has no key for activeKeyId ${contents.activeKeyId}`);
+    }
+    this.keys = keys;
+    this.activeKeyId = contents.activeKeyId;
+  }
+}
+
+function readKeyFile(keyFile: string): KeyFile {
+  if (fs.existsSync(keyFile)) {
+    const parsed = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+    if (!parsed?.activeKeyId || !parsed.keys || typeof parsed.keys !== 'object') {
+      throw new Error(`Vault key file ${keyFile} must have activeKeyId and keys`);
+    }
+    return parsed;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`Vault key file ${keyFile} not found (set VAULT_KEY_FILE)`);
+  }
+
+  const keyId = `local-${new Date().toISOString().substring(0, 10)}`;
+  const generated: KeyFile = { activeKeyId: keyId, keys: { [keyId]: randomBytes(KEY_BYTES).toString('base64') } };
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+  try {
+    fs.writeFileSync(keyFile, JSON.stringify(generated, null, 2), { mode: 0o600, flag: 'wx' });
+  } catch (err: any) {
+    // Another service sharing the file generated it first
+    if (err.code === 'EEXIST') return readKeyFile(keyFile);
+    throw err;
+  }
+  console.warn(`[llm-provider] Generated a new vault master key at ${keyFile}; back it up — provider API keys cannot be decrypted without it`);
+  return generated;
+}
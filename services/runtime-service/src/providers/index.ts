@@ -0,0 +1,301 @@
+/**
+ * LLM Provider Registry
+ *
+ * Resolves which provider and model a runtime LLM call uses, and wraps every call
+ * with that provider's timeout and retry settings.
+ *
+ * Resolution order:
+ *   provider: agent config `provider` → tenant default (llm_provider_configs.is_default)
+ *             → LLM_PROVIDER env → 'openai'
+ *   model:    agent config `model` → provider config default_model → built-in default
+ *
+ * Credentials come from the tenant's llm_provider_configs row and fall back to
+ * environment variables (OPENAI_API_KEY, AZURE_OPENAI_*, ANTHROPIC_API_KEY, LOCAL_LLM_*).
+ * Stored API keys are encrypted (see api-keys.ts) and only decrypted here.
+ */
+
+import { Pool } from 'pg';
+import {
+  LLMProvider, ProviderName, PROVIDER_NAMES, ProviderCredentials, ProviderSettings,
+  CompletionRequest, CompletionResponse, ImageResponse, ProviderError,
+} from './types';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { MockProvider } from './mock';
+import { ApiKeyCipher, EncryptedApiKey } from './api-keys';
+
+export * from './types';
+export { completionUsage, imageUsage, estimateCost } from './pricing';
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  'openai': 'gpt-4o',
+  'azure-openai': 'gpt-4o',
+  'anthropic': 'claude-sonnet-4-20250514',
+  'local': 'llama3',
+  'mock': 'mock-1',
+};
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+  timeoutMs: 120000,
+  maxRetries: 3,
+};
+
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504, 529];
+const CONFIG_CACHE_TTL_MS = 60000;
+
+export function isProviderName(value: any): value is ProviderName {
+  return PROVIDER_NAMES.includes(value);
+}
+
+function envCredentials(provider: ProviderName): ProviderCredentials {
+  switch (provider) {
+    case 'openai':
+      return { apiKey: process.env.OPENAI_API_KEY, endpoint: process.env.OPENAI_BASE_URL };
+    case 'azure-openai':
+      return {
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION,
+        defaultModel: process.env.AZURE_OPENAI_DEPLOYMENT,
+      };
+    case 'anthropic':
+      return { apiKey: process.env.ANTHROPIC_API_KEY };
+    case 'local':
+      return {
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        endpoint: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        defaultModel: process.env.LOCAL_LLM_MODEL,
+      };
+    case 'mock':
+      return {};
+  }
+}
+
+function createProvider(name: ProviderName, credentials: ProviderCredentials): LLMProvider {
+  const defaultModel = credentials.defaultModel || DEFAULT_MODELS[name];
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider(name, credentials, defaultModel, true);
+    case 'azure-openai':
+      return new OpenAICompatibleProvider(name, credentials, defaultModel, true);
+    case 'local':
+      return new OpenAICompatibleProvider(name, credentials, defaultModel, false);
+    case 'anthropic':
+      return new AnthropicProvider(credentials, defaultModel);
+    case 'mock':
+      return new MockProvider();
+  }
+}
+
+function toProviderError(err: any, provider: ProviderName, timedOut: boolean, timeoutMs: number): ProviderError {
+  if (err instanceof ProviderError) return err;
+  if (timedOut) {
+    return new ProviderError(`${provider} request timed out after ${timeoutMs}ms`, provider, undefined, true);
+  }
+  const status: number | undefined = err?.status || err?.statusCode;
+  const isConnectionError = /APIConnection(Timeout)?Error/.test(err?.constructor?.name || err?.name || '');
+  const retryable = isConnectionError || (status !== undefined && RETRYABLE_STATUSES.includes(status));
+  return new ProviderError(err?.message || String(err), provider, status, retryable);
+}
+
+// ============================================================================
+// Resolved client (provider + model + settings)
+// ============================================================================
+
+export class LLMClient {
+  constructor(
+    public provider: LLMProvider,
+    public model: string,
+    public settings: ProviderSettings
+  ) {}
+
+  get providerName(): ProviderName {
+    return this.provider.name;
+  }
+
+  get supportsImages(): boolean {
+    return this.provider.supportsImages && !!this.provider.generateImage;
+  }
+
+  async complete(request: Omit<CompletionRequest, 'model' | 'signal'> & { model?: string }): Promise<CompletionResponse> {
+    const startedAt = Date.now();
+    const response = await this.withRetry(signal => this.provider.complete({ ...request, model: request.model || this.model, signal }));
+    return { ...response, latencyMs: Date.now() - startedAt };
+  }
+
+  async generateImage(prompt: string): Promise<ImageResponse | undefined> {
+    if (!this.supportsImages) return undefined;
+    const startedAt = Date.now();
+    const response = await this.withRetry(signal => this.provider.generateImage!({ prompt, signal }));
+    return response ? { ...response, latencyMs: Date.now() - startedAt } : undefined;
+  }
+
+  private async withRetry<T>(call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const { timeoutMs, maxRetries } = this.settings;
+    // The first attempt plus up to maxRetries retries
+    const attempts = Math.max(0, maxRetries) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        return await call(controller.signal);
+      } catch (err: any) {
+        const error = toProviderError(err, this.provider.name, controller.signal.aborted, timeoutMs);
+        if (error.retryable && attempt < attempts) {
+          const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
+          console.warn(`[llm-provider] ${this.provider.name} attempt ${attempt}/${attempts} failed (${error.status || error.message}) — retrying in ${delay}ms`);
+          await new Promise(r => setTimeout(r, delay));
+          continue;
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export interface ProviderSelection {
+  provider?: string;
+  model?: string;
+}
+
+interface ProviderConfigRow {
+  provider: ProviderName;
+  api_key_ciphertext?: string;
+  api_key_key_id?: string;
+  endpoint?: string;
+  api_version?: string;
+  default_model?: string;
+  is_default: boolean;
+  timeout_ms?: number;
+  max_retries?: number;
+  updated_at?: Date;
+}
+
+export class ProviderRegistry {
+  private configCache = new Map<string, { expiresAt: number; rows: ProviderConfigRow[] }>();
+  private providers = new Map<string, LLMProvider>();
+
+  constructor(private pool: Pool, private apiKeys = new ApiKeyCipher()) {}
+
+  /**
+   * Encrypt an API key for storage in a tenant's provider config.
+   */
+  encryptApiKey(tenantId: string, provider: ProviderName, apiKey: string): EncryptedApiKey {
+    return this.apiKeys.encrypt(tenantId, provider, apiKey);
+  }
+
+  /**
+   * Encrypt API keys still stored in plaintext (configs saved before keys were encrypted).
+   * Returns how many were encrypted.
+   */
+  async sealPlaintextKeys(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT id, tenant_id, provider, api_key FROM llm_provider_configs WHERE api_key IS NOT NULL AND api_key <> ''`
+    );
+    for (const row of result.rows) {
+      const { ciphertext, keyId } = this.apiKeys.encrypt(row.tenant_id, row.provider, row.api_key);
+      await this.pool.query(
+        `UPDATE llm_provider_configs SET api_key_ciphertext = $1, api_key_key_id = $2, api_key = NULL WHERE id = $3 AND api_key IS NOT NULL`,
+        [ciphertext, keyId, row.id]
+      );
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Resolve the client for an agent call. Pass the agent's config to honour its
+   * provider/model, or nothing for tenant-level calls such as gateway routing.
+   */
+  async resolve(tenantId: string, selection?: ProviderSelection): Promise<LLMClient> {
+    const rows = await this.loadTenantConfigs(tenantId);
+
+    let providerName: ProviderName;
+    if (selection?.provider) {
+      if (!isProviderName(selection.provider)) {
+        throw new ProviderError(`Unknown LLM provider "${selection.provider}"`, 'openai');
+      }
+      providerName = selection.provider;
+    } else {
+      const tenantDefault = rows.find(r => r.is_default);
+      const envDefault = process.env.LLM_PROVIDER;
+      providerName = tenantDefault?.provider || (isProviderName(envDefault) ? envDefault : 'openai');
+    }
+
+    const row = rows.find(r => r.provider === providerName);
+    let apiKey: string | undefined;
+    if (row?.api_key_ciphertext && row.api_key_key_id) {
+      try {
+        apiKey = this.apiKeys.decrypt(tenantId, providerName, { ciphertext: row.api_key_ciphertext, keyId: row.api_key_key_id });
+      } catch (err: any) {
+        throw new ProviderError(`Cannot decrypt the stored ${providerName} API key: ${err.message}`, providerName);
+      }
+    }
+    const credentials: ProviderCredentials = {
+      ...envCredentials(providerName),
+      ...(row ? {
+        apiKey,
+        endpoint: row.endpoint || undefined,
+        apiVersion: row.api_version || undefined,
+        defaultModel: row.default_model || undefined,
+      } : {}),
+    };
+    const settings: ProviderSettings = {
+      timeoutMs: row?.timeout_ms || DEFAULT_SETTINGS.timeoutMs,
+      maxRetries: row?.max_retries ?? DEFAULT_SETTINGS.maxRetries,
+    };
+
+    const cacheKey = row ? `${tenantId}:${providerName}:${row.updated_at ? new Date(row.updated_at).getTime() : ''}` : `env:${providerName}`;
+    let provider = this.providers.get(cacheKey);
+    if (!provider) {
+      try {
+        provider = createProvider(providerName, credentials);
+      } catch (err: any) {
+        throw new ProviderError(`Cannot initialise ${providerName} provider: ${err.message}`, providerName);
+      }
+      this.providers.set(cacheKey, provider);
+    }
+
+    return new LLMClient(provider, selection?.model || provider.defaultModel, settings);
+  }
+
+  /**
+   * Drop cached config for a tenant after its provider settings change.
+   */
+  invalidate(tenantId: string): void {
+    this.configCache.delete(tenantId);
+    for (const key of this.providers.keys()) {
+      if (key.startsWith(`${tenantId}:`)) this.providers.delete(key);
+    }
+  }
+
+  private async loadTenantConfigs(tenantId: string): Promise<ProviderConfigRow[]> {
+    const cached = this.configCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) return cached.rows;
+
+    let rows: ProviderConfigRow[] = [];
+    try {
+      const result = await this.pool.query(
+        `SELECT provider, api_key_ciphertext, api_key_key_id, endpoint, api_version, default_model, is_default,
+                timeout_ms, max_retries, updated_at
+         FROM llm_provider_configs WHERE tenant_id = $1`,
+        [tenantId]
+      );
+      rows = result.rows;
+    } catch (err: any) {
+      console.error('[llm-provider] Failed to load tenant provider configs, using environment defaults:', err.message);
+    }
+    this.configCache.set(tenantId, { expiresAt: Date.now() + CONFIG_CACHE_TTL_MS, rows });
+    return rows;
+  }
+}
@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { LLMProvider, CompletionRequest, CompletionResponse, ImageRequest, ImageResponse, ToolCall } from './types';
+
+/**
+ * Deterministic offline provider for testing FlowRunner runs without network access.
+ *
+ * - Same request → same response (output derived from a hash of the prompt).
+ * - If the prompt contains a ```json {...}``` template (as executeAgent's output
+ *   format section does), the mock answers with that JSON, filling "..." placeholders
+ *   with `mock-<key>` values.
+ * - Gateway routing prompts ("Reply with just the number") are answered with "1".
+ * - When tools are offered and the user message names one, the mock calls it once
+ *   (required arguments filled with `mock-<name>`), then answers normally after the result.
+ * - Token usage is approximated as characters / 4.
+ * - Streaming delivers the text in 16-character chunks.
+ */
+export class MockProvider implements LLMProvider {
+  name = 'mock' as const;
+  defaultModel = 'mock-1';
+  supportsImages = true;
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const prompt = [request.system || '', ...request.messages.map(m => m.content)].join('\n');
+    const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+    const digest = createHash('sha256').update(`${request.model}\n${prompt}`).digest('hex').substring(0, 12);
+    const usage = {
+      promptTokens: Math.ceil(prompt.length / 4),
+      completionTokens: 0,
+    };
+
+    const toolCalls = this.pickToolCalls(request, digest);
+    if (toolCalls.length > 0) {
+      return { text: '', model: request.model, provider: this.name, usage: { ...usage, completionTokens: 20 }, toolCalls };
+    }
+
+    // After tool results, answer against the original user message
+    const userMessage = [...request.messages].reverse().find(m => m.role === 'user')?.content || lastMessage;
+
+    let text: string;
+    if (/reply with just the number/i.test(lastMessage)) {
+      text = '1';
+    } else if (/DALL-E prompt engineer/i.test(request.system || '')) {
+      text = JSON.stringify([{ theme: `mock-theme-${digest.substring(0, 6)}`, prompt: `Mock image prompt ${digest}` }]);
+    } else {
+      const template = this.extractJsonTemplate(userMessage);
+      const taskMatch = userMessage.match(/CURRENT TASK:\s*(.+)/);
+      text = `Mock response ${digest}${taskMatch ? ` for task "${taskMatch[1].trim()}"` : ''}.\n\n\`\`\`json\n${JSON.stringify(template, null, 2)}\n\`\`\``;
+    }
+
+    if (request.onDelta) {
+      // Stream in fixed-size chunks so consumers see the same deltas every run
+      for (let i = 0; i < text.length; i += 16) {
+        request.onDelta(text.substring(i, i + 16));
+      }
+    }
+
+    return {
+      text,
+      model: request.model,
+      provider: this.name,
+      usage: { ...usage, completionTokens: Math.ceil(text.length / 4) },
+    };
+  }
+
+  /**
+   * Tools named in the first user message, unless the conversation already has tool results.
+   */
+  private pickToolCalls(request: CompletionRequest, digest: string): ToolCall[] {
+    if (!request.tools?.length || request.messages.some(m => m.role === 'tool')) return [];
+    const userMessage = request.messages.find(m => m.role === 'user')?.content || '';
+    return request.tools
+      .filter(tool => userMessage.includes(tool.name))
+      .map((tool, i) => ({
+        id: `mock-call-${digest.substring(0, 6)}-${i}`,
+        name: tool.name,
+        arguments: Object.fromEntries(((tool.parameters.required || []) as string[]).map(key => [key, `mock-${key}`])),
+      }));
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResponse | undefined> {
+    const digest = createHash('sha256').update(request.prompt).digest('hex').substring(0, 16);
+    return { url: `https://mock.flowgrid.local/images/${digest}.png`, model: 'mock-image-1' };
+  }
+
+  /**
+   * Use the last ```json block in the prompt as the response shape.
+   * Falls back to a neutral decision-variable block when none is present.
+   */
+  private extractJsonTemplate(prompt: string): Record<string, any> {
+    const blocks = [...prompt.matchAll(/```json\s*(\{[\s\S]*?\})\s*```/g)];
+    const last = blocks[blocks.length - 1];
+    if (last) {
+      try {
+        const parsed = JSON.parse(last[1]);
+        for (const key of Object.keys(parsed)) {
+          if (parsed[key] === '...') parsed[key] = `mock-${key}`;
+        }
+        return parsed;
+      } catch { /* fall through */ }
+    }
+    return { validationStatus: 'valid', conceptQuality: 'acceptable' };
+  }
+}
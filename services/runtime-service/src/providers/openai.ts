@@ -0,0 +1,151 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LLMProvider, ProviderName, ProviderCredentials, CompletionRequest, CompletionResponse, ImageRequest, ImageResponse, ChatMessage, ToolCall } from './types';
+
+/**
+ * Adapter for the OpenAI chat completions API. Also serves Azure OpenAI
+ * (model = deployment name) and local OpenAI-compatible servers (Ollama, vLLM, LM Studio).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    public name: ProviderName,
+    credentials: ProviderCredentials,
+    public defaultModel: string,
+    public supportsImages: boolean
+  ) {
+    // Retries and timeouts are handled by the provider registry, not the SDK
+    if (name === 'azure-openai') {
+      this.client = new AzureOpenAI({
+        apiKey: credentials.apiKey,
+        endpoint: credentials.endpoint,
+        apiVersion: credentials.apiVersion || '2024-10-21',
+        maxRetries: 0,
+      });
+    } else {
+      this.client = new OpenAI({
+        apiKey: credentials.apiKey || (name === 'local' ? 'local' : undefined),
+        baseURL: credentials.endpoint,
+        maxRetries: 0,
+      });
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.system) messages.push({ role: 'system', content: request.system });
+    messages.push(...request.messages.map(toOpenAIMessage));
+    const tools: OpenAI.Chat.ChatCompletionTool[] | undefined = request.tools?.length
+      ? request.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        }))
+      : undefined;
+
+    if (request.onDelta) {
+      return this.completeStreaming(request, messages, tools);
+    }
+
+    const response = await this.client.chat.completions.create(
+      { model: request.model, max_tokens: request.maxTokens, messages, ...(tools ? { tools } : {}) },
+      { signal: request.signal }
+    );
+
+    const toolCalls = (response.choices[0]?.message?.tool_calls || [])
+      .flatMap(call => (call.type === 'function' ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }] : []))
+      .map(parseToolCall);
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      model: response.model || request.model,
+      provider: this.name,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : undefined,
+      toolCalls,
+    };
+  }
+
+  private async completeStreaming(
+    request: CompletionRequest,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    tools?: OpenAI.Chat.ChatCompletionTool[]
+  ): Promise<CompletionResponse> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages,
+        ...(tools ? { tools } : {}),
+        stream: true,
+        // Local OpenAI-compatible servers don't all support stream_options
+        ...(this.name === 'local' ? {} : { stream_options: { include_usage: true } }),
+      },
+      { signal: request.signal }
+    );
+
+    let text = '';
+    let model = request.model;
+    let usage: CompletionResponse['usage'];
+    // Tool call names and arguments arrive in fragments, keyed by index
+    const partialCalls: { id: string; name: string; arguments: string }[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        request.onDelta!(delta);
+      }
+      for (const fragment of chunk.choices[0]?.delta?.tool_calls || []) {
+        const call = partialCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { text, model, provider: this.name, usage, toolCalls: partialCalls.filter(Boolean).map(parseToolCall) };
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResponse | undefined> {
+    if (!this.supportsImages) return undefined;
+    const response = await this.client.images.generate(
+      { model: 'dall-e-3', prompt: request.prompt, n: 1, size: request.size || '1024x1024', quality: 'standard' },
+      { signal: request.signal }
+    );
+    const url = response.data?.[0]?.url;
+    return url ? { url, model: 'dall-e-3' } : undefined;
+  }
+}
+
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function parseToolCall(call: { id: string; name: string; arguments: string }): ToolCall {
+  let args: Record<string, any> = {};
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch {
+    // Malformed arguments go to the tool as-is; the integration rejects them
+    args = { _raw: call.arguments };
+  }
+  return { id: call.id, name: call.name, arguments: args };
+}
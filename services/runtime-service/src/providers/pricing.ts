@@ -0,0 +1,94 @@
+import { CompletionResponse, ImageResponse, LLMCallType, LLMCallUsage, ProviderName } from './types';
+
+/**
+ * Estimated list prices in USD. Token prices are per 1M tokens, image prices per image.
+ * Models are matched by longest prefix, so dated versions ("gpt-4o-2024-08-06") and
+ * Azure deployments named after their model resolve to the base entry.
+ * Override or extend with LLM_PRICING_JSON, e.g. {"my-deployment": {"prompt": 2.5, "completion": 10}}.
+ */
+interface ModelPrice {
+  prompt?: number;
+  completion?: number;
+  image?: number;
+}
+
+const BUILT_IN_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'o3-mini': { prompt: 1.1, completion: 4.4 },
+  'claude-opus-4': { prompt: 15, completion: 75 },
+  'claude-sonnet-4': { prompt: 3, completion: 15 },
+  'claude-3-7-sonnet': { prompt: 3, completion: 15 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'dall-e-3': { image: 0.04 },
+};
+
+// Self-hosted and test providers don't cost anything per call
+const FREE_PROVIDERS: ProviderName[] = ['local', 'mock'];
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+function prices(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    priceTable = { ...BUILT_IN_PRICES };
+    if (process.env.LLM_PRICING_JSON) {
+      try {
+        Object.assign(priceTable, JSON.parse(process.env.LLM_PRICING_JSON));
+      } catch (err: any) {
+        console.error('[llm-pricing] Ignoring invalid LLM_PRICING_JSON:', err.message);
+      }
+    }
+  }
+  return priceTable;
+}
+
+function findPrice(model: string): ModelPrice | null {
+  const normalized = model.toLowerCase();
+  const match = Object.keys(prices())
+    .filter(key => normalized.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices()[match] : null;
+}
+
+export function estimateCost(provider: ProviderName, model: string, promptTokens: number, completionTokens: number, images = 0): number | null {
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+  const price = findPrice(model);
+  if (!price) return null;
+  const cost = (promptTokens * (price.prompt || 0) + completionTokens * (price.completion || 0)) / 1_000_000
+    + images * (price.image || 0);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function completionUsage(callType: LLMCallType, response: CompletionResponse): LLMCallUsage {
+  const promptTokens = response.usage?.promptTokens || 0;
+  const completionTokens = response.usage?.completionTokens || 0;
+  return {
+    callType,
+    provider: response.provider,
+    model: response.model,
+    promptTokens,
+    completionTokens,
+    images: 0,
+    latencyMs: response.latencyMs || 0,
+    costUsd: estimateCost(response.provider, response.model, promptTokens, completionTokens),
+  };
+}
+
+export function imageUsage(provider: ProviderName, response: ImageResponse): LLMCallUsage {
+  return {
+    callType: 'image',
+    provider,
+    model: response.model,
+    promptTokens: 0,
+    completionTokens: 0,
+    images: 1,
+    latencyMs: response.latencyMs || 0,
+    costUsd: estimateCost(provider, response.model, 0, 0, 1),
+  };
+}
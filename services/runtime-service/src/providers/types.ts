@@ -0,0 +1,128 @@
+/**
+ * Shared request/response shape for LLM providers used by runtime agent execution.
+ * Every provider adapter maps its SDK onto these types so the executor never
+ * touches a vendor client directly.
+ */
+
+export type ProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'local' | 'mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'azure-openai', 'anthropic', 'local', 'mock'];
+
+/**
+ * A tool the model may call. `parameters` is a JSON Schema object.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type ChatMessage =
+  | { role: 'user'; content: string }
+  // Assistant turns that called tools carry the calls; their results follow as `tool` messages
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface CompletionRequest {
+  model: string;
+  system?: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+  // Receives output text as it is generated; the full text is still returned at the end
+  onDelta?: (text: string) => void;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  model: string;
+  provider: ProviderName;
+  usage?: TokenUsage;
+  // Tool calls requested by the model; empty or absent when it answered with text only
+  toolCalls?: ToolCall[];
+  // Wall-clock time including retries, set by LLMClient
+  latencyMs?: number;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  size?: '1024x1024' | '1792x1024' | '1024x1792';
+  signal?: AbortSignal;
+}
+
+export interface ImageResponse {
+  url: string;
+  model: string;
+  latencyMs?: number;
+}
+
+export type LLMCallType = 'agent' | 'routing' | 'image_prompt' | 'image';
+
+/**
+ * Metered cost of one LLM call, recorded in llm_usage and rolled up to steps and runs.
+ * `costUsd` is null when the model has no known price.
+ */
+export interface LLMCallUsage {
+  callType: LLMCallType;
+  provider: ProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  latencyMs: number;
+  costUsd: number | null;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: string;
+  // Only providers with an image model (OpenAI, Azure OpenAI, mock) generate images
+  supportsImages: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  generateImage?(request: ImageRequest): Promise<ImageResponse | undefined>;
+}
+
+/**
+ * Per-tenant provider configuration (llm_provider_configs row, or env fallback).
+ */
+export interface ProviderCredentials {
+  apiKey?: string;
+  endpoint?: string;
+  apiVersion?: string;
+  defaultModel?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface ProviderSettings {
+  timeoutMs: number;
+  // Retries after the first attempt, for retryable errors only
+  maxRetries: number;
+}
+
+/**
+ * Normalized provider error. `retryable` covers rate limits, overload and timeouts.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: ProviderName,
+    public status?: number,
+    public retryable = false
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -1,6 +1,108 @@
 import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
-import { FlowRunner } from '../engine/flow-runner';
+import { FlowRunner, FoundationAgent } from '../engine/flow-runner';
+import { DEFAULT_LOOP_POLICY, loopPolicyConfigFromMetadata, validateLoopPolicy } from '../engine/loop-policy';
+import { DEFAULT_APPROVAL_POLICY, approvalPolicyFromMetadata, validateApprovalPolicy } from '../engine/approval-policy';
+import { PROVIDER_NAMES, isProviderName } from '../providers';
+import { RunEventLog, RunEvent, EventFilter, eventCursor, matchesFilter } from '../engine/event-log';
+import { MessageCorrelationError } from '../engine/message-events';
+import { ReplayError, compareRunSteps } from '../engine/run-replay';
+import { BUDGET_LIMITS, BudgetExceededError, BudgetUnavailableError, RunBudget, budgetColumns, budgetFromRow, validateBudget } from '../engine/budgets';
+import { nextCronOccurrence, nextCronOccurrences } from '../engine/cron';
+import { scheduleFromRow, validateSchedule } from '../engine/run-scheduler';
+import { requireAdmin } from '../auth';
+
+const SSE_HEARTBEAT_MS = 25000;
+
+/**
+ * Insert or replace a tenant-wide (foundationId null) or foundation budget. Omitted limits are cleared.
+ */
+async function upsertBudget(pool: Pool, tenantId: string, foundationId: string | null, budget: RunBudget, updatedBy?: string): Promise<RunBudget> {
+  const columns = budgetColumns();
+  const values = BUDGET_LIMITS.map(limit => budget[limit] ?? null);
+  const conflict = foundationId
+    ? '(tenant_id, foundation_id) WHERE foundation_id IS NOT NULL'
+    : '(tenant_id) WHERE foundation_id IS NULL';
+  const result = await pool.query(
+    `INSERT INTO run_budgets (tenant_id, foundation_id, updated_by, ${columns.join(', ')})
+     VALUES ($1, $2, $3, ${columns.map((_, i) => `$${i + 4}`).join(', ')})
+     ON CONFLICT ${conflict} DO UPDATE SET
+       ${columns.map(column => `${column} = EXCLUDED.${column}`).join(', ')},
+       updated_by = EXCLUDED.updated_by,
+       updated_at = NOW()
+     RETURNING *`,
+    [tenantId, foundationId, updatedBy || null, ...values]
+  );
+  return budgetFromRow(result.rows[0]);
+}
+
+/**
+ * Stream run events over SSE. Event ids are cursors (see eventCursor): the run's event `seq`
+ * on a run's stream, the global event id on the tenant's. Replays from `Last-Event-ID`
+ * (header, or `lastEventId` query param) when given; otherwise sends `init` first, stamped
+ * with the latest cursor. Live events arriving during replay are buffered so nothing is
+ * lost or duplicated.
+ */
+async function streamRunEvents(
+  req: Request,
+  res: Response,
+  eventLog: RunEventLog,
+  filter: EventFilter,
+  init: () => Promise<Record<string, any>>
+): Promise<void> {
+  const lastEventHeader = req.header('last-event-id') || (req.query.lastEventId as string | undefined);
+  const resumeFrom = lastEventHeader !== undefined && /^\d+$/.test(lastEventHeader) ? Number(lastEventHeader) : null;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  let lastSent = 0;
+  const send = (event: RunEvent) => {
+    const cursor = eventCursor(event, filter);
+    if (cursor <= lastSent) return;
+    lastSent = cursor;
+    res.write(`id: ${cursor}\ndata: ${JSON.stringify({
+      type: event.type, runId: event.runId, ...event.data, eventId: event.id, seq: event.seq, createdAt: event.createdAt,
+    })}\n\n`);
+  };
+
+  let buffered: RunEvent[] | null = [];
+  const onEvent = (event: RunEvent) => {
+    if (!matchesFilter(event, filter)) return;
+    if (buffered) buffered.push(event);
+    else send(event);
+  };
+  eventLog.on('event', onEvent);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    eventLog.off('event', onEvent);
+  });
+
+  try {
+    if (resumeFrom !== null) {
+      lastSent = resumeFrom;
+      for (;;) {
+        const batch = await eventLog.replay(filter, lastSent);
+        batch.forEach(send);
+        if (batch.length === 0) break;
+      }
+    } else {
+      lastSent = await eventLog.latestCursor(filter);
+      res.write(`id: ${lastSent}\ndata: ${JSON.stringify({ type: 'init', ...(await init()) })}\n\n`);
+    }
+  } catch (error: any) {
+    console.error('[runtime] Event replay error:', error.message);
+    res.write(`data: ${JSON.stringify({ type: 'error', error: 'Failed to replay events' })}\n\n`);
+  }
+
+  const pending = buffered;
+  buffered = null;
+  pending.sort((a, b) => eventCursor(a, filter) - eventCursor(b, filter)).forEach(send);
+}
 
 export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
   const router = Router();
@@ -22,38 +124,204 @@ export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
       }
 
       // Check for orchestrator with BPMN
-      const orchestrator = await pool.query(
-        `SELECT id, name FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2 AND config->>'pattern' = 'orchestrator' AND config->>'bpmnXml' IS NOT NULL`,
+      const agentsResult = await pool.query(
+        `SELECT id, name, config FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2`,
         [tenantId, id]
       );
-      if (orchestrator.rows.length === 0) {
+      const agents: FoundationAgent[] = agentsResult.rows;
+      const orchestrator = agents.find(agent => agent.config?.pattern === 'orchestrator' && agent.config?.bpmnXml);
+      if (!orchestrator) {
         return res.status(400).json({ error: 'Foundation has no orchestrator with BPMN. Cannot deploy.' });
       }
 
+      // Block deploy on BPMN errors; warnings are returned with the deployment
+      const validation = await runner.validateBpmn(orchestrator.config.bpmnXml, agents, orchestrator);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: `BPMN has ${validation.errors.length} error(s). Cannot deploy: ${validation.errors.map(issue => issue.message).join('; ')}`,
+          errors: validation.errors,
+          warnings: validation.warnings,
+        });
+      }
+
       // Mark as deployed
       await pool.query(
         `UPDATE foundations SET deployed_at = NOW() WHERE id = $1`,
         [id]
       );
 
-      res.json({ success: true, deployedAt: new Date().toISOString(), orchestratorAgent: orchestrator.rows[0].name });
+      res.json({ success: true, deployedAt: new Date().toISOString(), orchestratorAgent: orchestrator.name, warnings: validation.warnings });
     } catch (error: any) {
       console.error('[runtime] Deploy error:', error.message);
       res.status(500).json({ error: 'Failed to deploy foundation' });
     }
   });
 
+  // Validate a BPMN against a foundation's agents, or against agent names given in the body
+  // (the wizard checks generated BPMN before its agents are saved)
+  router.post('/bpmn/validate', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { bpmnXml, foundationId, agents: agentNames, orchestratorName } = req.body || {};
+      if (typeof bpmnXml !== 'string' || !bpmnXml.trim()) {
+        return res.status(400).json({ error: 'bpmnXml is required' });
+      }
+      if (agentNames !== undefined && (!Array.isArray(agentNames) || agentNames.some((name: unknown) => typeof name !== 'string'))) {
+        return res.status(400).json({ error: 'agents must be an array of agent names' });
+      }
+
+      let agents: FoundationAgent[];
+      if (foundationId) {
+        const foundation = await pool.query(
+          `SELECT id FROM foundations WHERE id = $1 AND tenant_id = $2`,
+          [foundationId, tenantId]
+        );
+        if (foundation.rows.length === 0) {
+          return res.status(404).json({ error: 'Foundation not found' });
+        }
+        const agentsResult = await pool.query(
+          `SELECT id, name, config FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2`,
+          [tenantId, foundationId]
+        );
+        agents = agentsResult.rows;
+      } else {
+        agents = (agentNames || []).map((name: string) => ({ id: '', name, config: {} }));
+      }
+
+      const orchestrator = orchestratorName
+        ? agents.find(agent => agent.name === orchestratorName) || { id: '', name: orchestratorName, config: {} }
+        : agents.find(agent => agent.config?.pattern === 'orchestrator');
+      res.json(await runner.validateBpmn(bpmnXml, agents, orchestrator));
+    } catch (error: any) {
+      console.error('[runtime] BPMN validation error:', error.message);
+      res.status(500).json({ error: 'Failed to validate BPMN' });
+    }
+  });
+
+  // Get loop policies for a foundation
+  router.get('/foundations/:id/loop-policies', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const result = await pool.query(
+        `SELECT metadata FROM foundations WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, tenantId]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Foundation not found' });
+      }
+      const config = loopPolicyConfigFromMetadata(result.rows[0].metadata);
+      res.json({ builtIn: DEFAULT_LOOP_POLICY, default: config.default || null, tasks: config.tasks || {} });
+    } catch (error: any) {
+      console.error('[runtime] Get loop policies error:', error.message);
+      res.status(500).json({ error: 'Failed to get loop policies' });
+    }
+  });
+
+  // Replace loop policies for a foundation (admin only)
+  router.put('/foundations/:id/loop-policies', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { default: defaultPolicy, tasks } = req.body || {};
+
+      if (defaultPolicy !== undefined && defaultPolicy !== null) {
+        const error = validateLoopPolicy(defaultPolicy);
+        if (error) return res.status(400).json({ error: `default: ${error}` });
+      }
+      if (tasks !== undefined && (typeof tasks !== 'object' || tasks === null || Array.isArray(tasks))) {
+        return res.status(400).json({ error: 'tasks must be an object keyed by task ID' });
+      }
+      for (const [taskId, policy] of Object.entries(tasks || {})) {
+        const error = validateLoopPolicy(policy);
+        if (error) return res.status(400).json({ error: `tasks.${taskId}: ${error}` });
+      }
+
+      const result = await pool.query(
+        `UPDATE foundations SET metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb
+         WHERE id = $2 AND tenant_id = $3
+         RETURNING metadata`,
+        [JSON.stringify({ loopPolicy: defaultPolicy || null, loopPolicies: tasks || {} }), req.params.id, tenantId]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Foundation not found' });
+      }
+      const config = loopPolicyConfigFromMetadata(result.rows[0].metadata);
+      res.json({ builtIn: DEFAULT_LOOP_POLICY, default: config.default || null, tasks: config.tasks || {} });
+    } catch (error: any) {
+      console.error('[runtime] Update loop policies error:', error.message);
+      res.status(500).json({ error: 'Failed to update loop policies' });
+    }
+  });
+
+  // Get the approval policy (SLA, escalation chain, timeout outcome) for a foundation
+  router.get('/foundations/:id/approval-policy', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const result = await pool.query(
+        `SELECT metadata FROM foundations WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, tenantId]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Foundation not found' });
+      }
+      const metadata = result.rows[0].metadata;
+      res.json({ builtIn: DEFAULT_APPROVAL_POLICY, configured: metadata?.approvalPolicy || null, effective: approvalPolicyFromMetadata(metadata) });
+    } catch (error: any) {
+      console.error('[runtime] Get approval policy error:', error.message);
+      res.status(500).json({ error: 'Failed to get approval policy' });
+    }
+  });
+
+  // Replace the approval policy for a foundation (admin only); null restores the built-in policy
+  router.put('/foundations/:id/approval-policy', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const policy = req.body?.policy ?? null;
+      if (policy !== null) {
+        const error = validateApprovalPolicy(policy);
+        if (error) return res.status(400).json({ error });
+      }
+
+      const result = await pool.query(
+        `UPDATE foundations SET metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb
+         WHERE id = $2 AND tenant_id = $3
+         RETURNING metadata`,
+        [JSON.stringify({ approvalPolicy: policy }), req.params.id, tenantId]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Foundation not found' });
+      }
+      const metadata = result.rows[0].metadata;
+      res.json({ builtIn: DEFAULT_APPROVAL_POLICY, configured: metadata?.approvalPolicy || null, effective: approvalPolicyFromMetadata(metadata) });
+    } catch (error: any) {
+      console.error('[runtime] Update approval policy error:', error.message);
+      res.status(500).json({ error: 'Failed to update approval policy' });
+    }
+  });
+
   // Start a new run
   router.post('/foundations/:id/run', async (req: Request, res: Response) => {
     try {
       const tenantId = req.tenantId!;
       const { id } = req.params;
-      const { input, orchestratorId } = req.body;
+      const { input, orchestratorId, businessKey } = req.body;
+      if (businessKey !== undefined && businessKey !== null && typeof businessKey !== 'string') {
+        return res.status(400).json({ error: 'businessKey must be a string' });
+      }
 
-      const run = await runner.startRun(tenantId, id, input || {}, orchestratorId);
+      const run = await runner.startRun(tenantId, id, input || {}, orchestratorId, req.user?.userId, businessKey || undefined);
       res.status(201).json({ runId: run.id, status: run.status, startedAt: run.started_at });
     } catch (error: any) {
       console.error('[runtime] Start run error:', error.message);
+      if (error instanceof BudgetExceededError) {
+        return res.status(429).json({
+          error: error.message,
+          code: error.code,
+          budget: { limit: error.limit, scope: error.scope, limitValue: error.limitValue, actual: error.actual },
+        });
+      }
+      if (error instanceof BudgetUnavailableError) {
+        return res.status(503).json({ error: error.message, code: error.code });
+      }
       res.status(400).json({ error: error.message });
     }
   });
@@ -63,7 +331,8 @@ export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
     try {
       const tenantId = req.tenantId!;
       const status = req.query.status as string | undefined;
-      const runs = await stateManager.listRuns(tenantId, status);
+      const businessKey = req.query.businessKey as string | undefined;
+      const runs = await stateManager.listRuns(tenantId, status, businessKey);
 
       // Enrich with foundation name
       const foundationIds = [...new Set(runs.map(r => r.foundation_id))];
@@ -103,11 +372,17 @@ export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
 
       // Get foundation name
       const fResult = await pool.query(`SELECT name FROM foundations WHERE id = $1`, [run.foundation_id]);
+      const replays = await pool.query(
+        `SELECT id, status, replay_from_step_id, started_at, completed_at FROM flow_runs
+         WHERE parent_run_id = $1 AND tenant_id = $2 ORDER BY started_at DESC`,
+        [id, tenantId]
+      );
 
       res.json({
         ...run,
         foundation_name: fResult.rows[0]?.name || 'Unknown',
-        steps
+        steps,
+        replays: replays.rows
       });
     } catch (error: any) {
       console.error('[runtime] Get run error:', error.message);
@@ -115,56 +390,249 @@ export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
     }
   });
 
-  // SSE live updates
+  // Replay a finished run from a chosen step, reusing the recorded outputs of the steps before it
+  router.post('/runs/:id/replay', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { fromStepId, stepInput } = req.body || {};
+      if (fromStepId !== undefined && typeof fromStepId !== 'string') {
+        return res.status(400).json({ error: 'fromStepId must be a string' });
+      }
+      if (stepInput !== undefined && stepInput !== null && (typeof stepInput !== 'object' || Array.isArray(stepInput))) {
+        return res.status(400).json({ error: 'stepInput must be an object' });
+      }
+
+      const run = await runner.replayRun(req.params.id, tenantId, { fromStepId, stepInput }, req.user?.userId);
+      res.status(201).json({
+        runId: run.id, status: run.status, startedAt: run.started_at,
+        parentRunId: run.parent_run_id, fromStepId: run.replay_from_step_id,
+      });
+    } catch (error: any) {
+      console.error('[runtime] Replay run error:', error.message);
+      if (error instanceof ReplayError) {
+        return res.status(error.message === 'Run not found' ? 404 : error.message.startsWith('Run is still') ? 409 : 400)
+          .json({ error: error.message });
+      }
+      if (error instanceof BudgetExceededError) {
+        return res.status(429).json({
+          error: error.message,
+          code: error.code,
+          budget: { limit: error.limit, scope: error.scope, limitValue: error.limitValue, actual: error.actual },
+        });
+      }
+      if (error instanceof BudgetUnavailableError) {
+        return res.status(503).json({ error: error.message, code: error.code });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Compare a replay's steps with its parent run's (or with ?with=<runId>)
+  router.get('/runs/:id/compare', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const run = await stateManager.getRun(req.params.id, tenantId);
+      if (!run) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+      const otherId = (req.query.with as string | undefined) || run.parent_run_id;
+      if (!otherId) {
+        return res.status(400).json({ error: 'Run is not a replay; pass ?with=<runId> to compare it with another run' });
+      }
+      const other = await stateManager.getRun(otherId, tenantId);
+      if (!other) {
+        return res.status(404).json({ error: 'Run to compare with not found' });
+      }
+
+      const steps = compareRunSteps(await stateManager.getSteps(other.id), await stateManager.getSteps(run.id));
+      res.json({
+        runId: run.id,
+        comparedWith: other.id,
+        status: { run: run.status, comparedWith: other.status },
+        changedSteps: steps.filter(s => s.changed).length,
+        steps,
+      });
+    } catch (error: any) {
+      console.error('[runtime] Compare runs error:', error.message);
+      res.status(500).json({ error: 'Failed to compare runs' });
+    }
+  });
+
+  // SSE live updates for one run (supports Last-Event-ID replay)
   router.get('/runs/:id/live', async (req: Request, res: Response) => {
     const tenantId = req.tenantId!;
     const { id } = req.params;
 
-    const run = await stateManager.getRun(id, tenantId);
+    let run;
+    try {
+      run = await stateManager.getRun(id, tenantId);
+    } catch (error: any) {
+      console.error('[runtime] Live run lookup error:', error.message);
+      return res.status(500).json({ error: 'Failed to get run' });
+    }
     if (!run) {
       return res.status(404).json({ error: 'Run not found' });
     }
 
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
+    await streamRunEvents(req, res, runner.getEventLog(), { tenantId, runId: id }, async () => {
+      const steps = await stateManager.getSteps(id);
+      const current = await stateManager.getRun(id, tenantId);
+      return { run: current || run, steps };
     });
+  });
 
-    const sendEvent = (data: any) => {
-      res.write(`data: ${JSON.stringify(data)}\n\n`);
-    };
+  // SSE live updates for every run in the tenant
+  router.get('/events/live', async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
 
-    // Send initial state
-    const steps = await stateManager.getSteps(id);
-    sendEvent({ type: 'init', run, steps });
+    await streamRunEvents(req, res, runner.getEventLog(), { tenantId }, async () => {
+      const result = await pool.query(
+        `SELECT * FROM flow_runs WHERE tenant_id = $1 AND status IN ('running', 'paused') ORDER BY started_at DESC LIMIT 100`,
+        [tenantId]
+      );
+      return { runs: result.rows };
+    });
+  });
+
+  // Persisted event log for a run (paged by the run's event seq)
+  router.get('/runs/:id/events', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { id } = req.params;
+      const after = parseInt(req.query.after as string) || 0;
+      const limit = Math.min(parseInt(req.query.limit as string) || 200, 500);
 
-    // Listen for updates
-    const onStepUpdate = (event: any) => {
-      if (event.runId === id) {
-        sendEvent({ type: 'step.update', ...event });
+      const run = await stateManager.getRun(id, tenantId);
+      if (!run) {
+        return res.status(404).json({ error: 'Run not found' });
       }
-    };
-    const onRunComplete = (event: any) => {
-      if (event.runId === id) {
-        sendEvent({ type: 'run.complete', ...event });
+
+      const events = await runner.getEventLog().replay({ tenantId, runId: id }, after, limit);
+      res.json({ data: events, lastEventId: events.length > 0 ? events[events.length - 1].seq : after });
+    } catch (error: any) {
+      console.error('[runtime] List run events error:', error.message);
+      res.status(500).json({ error: 'Failed to list run events' });
+    }
+  });
+
+  // LLM usage for one run: totals plus every metered call
+  router.get('/runs/:id/usage', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { id } = req.params;
+
+      const run = await stateManager.getRun(id, tenantId);
+      if (!run) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+
+      const calls = await pool.query(
+        `SELECT u.*, s.step_name FROM llm_usage u LEFT JOIN flow_steps s ON s.id = u.step_id
+         WHERE u.run_id = $1 AND u.tenant_id = $2 ORDER BY u.created_at ASC`,
+        [id, tenantId]
+      );
+      res.json({
+        totals: {
+          promptTokens: run.prompt_tokens || 0,
+          completionTokens: run.completion_tokens || 0,
+          llmCalls: run.llm_calls || 0,
+          llmLatencyMs: Number(run.llm_latency_ms || 0),
+          costUsd: Number(run.cost_usd || 0),
+        },
+        calls: calls.rows,
+      });
+    } catch (error: any) {
+      console.error('[runtime] Get run usage error:', error.message);
+      res.status(500).json({ error: 'Failed to get run usage' });
+    }
+  });
+
+  // Aggregated LLM usage for chargeback: ?groupBy=foundation|agent|day|model&from=&to=&foundationId=
+  router.get('/usage', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const groupBy = (req.query.groupBy as string) || 'foundation';
+      const groupings: Record<string, { select: string; group: string; order: string }> = {
+        foundation: {
+          select: `u.foundation_id, COALESCE(f.name, 'Unknown') AS foundation_name`,
+          group: `u.foundation_id, f.name`,
+          order: `cost_usd DESC`,
+        },
+        agent: {
+          select: `u.agent_id, COALESCE(u.agent_name, 'Gateway routing') AS agent_name`,
+          group: `u.agent_id, u.agent_name`,
+          order: `cost_usd DESC`,
+        },
+        day: {
+          select: `DATE(u.created_at) AS day`,
+          group: `DATE(u.created_at)`,
+          order: `day DESC`,
+        },
+        model: {
+          select: `u.provider, u.model`,
+          group: `u.provider, u.model`,
+          order: `cost_usd DESC`,
+        },
+      };
+      const grouping = groupings[groupBy];
+      if (!grouping) {
+        return res.status(400).json({ error: `groupBy must be one of: ${Object.keys(groupings).join(', ')}` });
       }
-    };
-    const onRunError = (event: any) => {
-      if (event.runId === id) {
-        sendEvent({ type: 'run.error', ...event });
+
+      // Parsed here, so a malformed date is a 400 rather than a database error
+      const bounds: { from?: Date; to?: Date } = {};
+      for (const key of ['from', 'to'] as const) {
+        const value = req.query[key];
+        if (value === undefined || value === '') continue;
+        const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({ error: `${key} must be a valid date` });
+        }
+        bounds[key] = date;
+      }
+      if (bounds.from && bounds.to && bounds.from >= bounds.to) {
+        return res.status(400).json({ error: 'from must be before to' });
       }
-    };
 
-    runner.on('step.update', onStepUpdate);
-    runner.on('run.complete', onRunComplete);
-    runner.on('run.error', onRunError);
+      const params: any[] = [tenantId];
+      let where = `u.tenant_id = $1`;
+      if (bounds.from) {
+        params.push(bounds.from.toISOString());
+        where += ` AND u.created_at >= $${params.length}`;
+      }
+      if (bounds.to) {
+        params.push(bounds.to.toISOString());
+        where += ` AND u.created_at < $${params.length}`;
+      }
+      if (req.query.foundationId) {
+        params.push(req.query.foundationId);
+        where += ` AND u.foundation_id = $${params.length}`;
+      }
 
-    req.on('close', () => {
-      runner.off('step.update', onStepUpdate);
-      runner.off('run.complete', onRunComplete);
-      runner.off('run.error', onRunError);
-    });
+      const result = await pool.query(
+        `SELECT ${grouping.select},
+                COUNT(*)::int AS calls,
+                COUNT(DISTINCT u.run_id)::int AS runs,
+                COALESCE(SUM(u.prompt_tokens), 0)::int AS prompt_tokens,
+                COALESCE(SUM(u.completion_tokens), 0)::int AS completion_tokens,
+                COALESCE(SUM(u.images), 0)::int AS images,
+                COALESCE(SUM(u.latency_ms), 0)::bigint AS latency_ms,
+                ROUND(AVG(u.latency_ms))::int AS avg_latency_ms,
+                COALESCE(SUM(u.cost_usd), 0)::float AS cost_usd,
+                COUNT(*) FILTER (WHERE u.cost_usd IS NULL)::int AS unpriced_calls
+         FROM llm_usage u
+         LEFT JOIN foundations f ON f.id = u.foundation_id
+         WHERE ${where}
+         GROUP BY ${grouping.group}
+         ORDER BY ${grouping.order}
+         LIMIT 500`,
+        params
+      );
+      res.json({ groupBy, data: result.rows });
+    } catch (error: any) {
+      console.error('[runtime] Usage summary error:', error.message);
+      res.status(500).json({ error: 'Failed to get usage summary' });
+    }
   });
 
   // Resume a paused run
@@ -181,6 +649,70 @@ export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
     }
   });
 
+  // Apply a decided approval to the run waiting on it (called by agent-service on decide)
+  router.post('/approvals/:id/decision', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { id } = req.params;
+
+      const applied = await runner.applyApprovalDecision(id, tenantId);
+      res.json({ success: true, applied });
+    } catch (error: any) {
+      console.error('[runtime] Approval decision error:', error.message);
+      res.status(error.message === 'Approval request not found' ? 404 : 400).json({ error: error.message });
+    }
+  });
+
+  // Deliver a message to a catch event of one run
+  router.post('/runs/:id/messages', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { id } = req.params;
+      const { messageName, correlationKey, payload } = req.body || {};
+      if (!messageName || typeof messageName !== 'string') {
+        return res.status(400).json({ error: 'messageName is required' });
+      }
+
+      const run = await stateManager.getRun(id, tenantId);
+      if (!run) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+
+      const delivered = await runner.deliverMessage(
+        tenantId, messageName, { runId: id, correlationKey }, payload ?? {}, req.user!.userId
+      );
+      if (!delivered) {
+        return res.status(404).json({ error: `Run is not waiting for message "${messageName}"` });
+      }
+      res.json({ delivered: true, ...delivered });
+    } catch (error: any) {
+      console.error('[runtime] Run message delivery error:', error.message);
+      res.status(error instanceof MessageCorrelationError ? 409 : 400).json({ error: error.message });
+    }
+  });
+
+  // Deliver a message to the catch event waiting for it (called by integration-service webhooks)
+  router.post('/messages', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const { messageName, foundationId, runId, correlationKey, payload, source } = req.body || {};
+      if (!messageName || typeof messageName !== 'string') {
+        return res.status(400).json({ error: 'messageName is required' });
+      }
+
+      const delivered = await runner.deliverMessage(
+        tenantId, messageName, { foundationId, runId, correlationKey }, payload ?? {}, source || req.user!.userId
+      );
+      if (!delivered) {
+        return res.status(404).json({ error: `No run is waiting for message "${messageName}"` });
+      }
+      res.json({ delivered: true, ...delivered });
+    } catch (error: any) {
+      console.error('[runtime] Message delivery error:', error.message);
+      res.status(error instanceof MessageCorrelationError ? 409 : 400).json({ error: error.message });
+    }
+  });
+
   // List deployed foundations
   // Delete a run and its steps
   router.delete('/runs/:id', async (req: Request, res: Response) => {
@@ -233,5 +765,418 @@ export function createRuntimeRouter(pool: Pool, runner: FlowRunner): Router {
     }
   });
 
+  // List LLM provider configs for the tenant (API keys are never returned)
+  router.get('/providers', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const result = await pool.query(
+        `SELECT provider, endpoint, api_version, default_model, is_default, timeout_ms, max_retries, updated_at,
+                (api_key_ciphertext IS NOT NULL) AS has_api_key
+         FROM llm_provider_configs WHERE tenant_id = $1 ORDER BY provider`,
+        [tenantId]
+      );
+      res.json({
+        available: PROVIDER_NAMES,
+        data: result.rows.map(row => ({
+          provider: row.provider,
+          endpoint: row.endpoint,
+          apiVersion: row.api_version,
+          defaultModel: row.default_model,
+          isDefault: row.is_default,
+          timeoutMs: row.timeout_ms,
+          maxRetries: row.max_retries,
+          hasApiKey: row.has_api_key,
+          updatedAt: row.updated_at,
+        })),
+      });
+    } catch (error: any) {
+      console.error('[runtime] List providers error:', error.message);
+      res.status(500).json({ error: 'Failed to list LLM providers' });
+    }
+  });
+
+  // Create or update an LLM provider config (admin only)
+  router.put('/providers/:provider', requireAdmin, async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const { provider } = req.params;
+    if (!isProviderName(provider)) {
+      return res.status(400).json({ error: `Unknown provider. Expected one of: ${PROVIDER_NAMES.join(', ')}` });
+    }
+    const { apiKey, endpoint, apiVersion, defaultModel, isDefault, timeoutMs, maxRetries } = req.body || {};
+    if (timeoutMs !== undefined && timeoutMs !== null && !(Number.isInteger(timeoutMs) && timeoutMs > 0)) {
+      return res.status(400).json({ error: 'timeoutMs must be a positive integer' });
+    }
+    if (maxRetries !== undefined && maxRetries !== null && !(Number.isInteger(maxRetries) && maxRetries >= 0)) {
+      return res.status(400).json({ error: 'maxRetries must be a non-negative integer' });
+    }
+    if (apiKey !== undefined && apiKey !== null && typeof apiKey !== 'string') {
+      return res.status(400).json({ error: 'apiKey must be a string' });
+    }
+
+    // The key is stored encrypted, never in plaintext
+    let encryptedKey: { ciphertext: string; keyId: string } | null = null;
+    try {
+      if (apiKey) encryptedKey = runner.getProviderRegistry().encryptApiKey(tenantId, provider, apiKey);
+    } catch (error: any) {
+      console.error('[runtime] Encrypt provider API key error:', error.message);
+      return res.status(500).json({ error: 'Failed to encrypt the API key' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      if (isDefault) {
+        await client.query(
+          `UPDATE llm_provider_configs SET is_default = false, updated_at = NOW() WHERE tenant_id = $1 AND provider <> $2`,
+          [tenantId, provider]
+        );
+      }
+      // Omitted apiKey keeps the stored key; send null to clear it
+      await client.query(
+        `INSERT INTO llm_provider_configs (tenant_id, provider, api_key_ciphertext, api_key_key_id, endpoint, api_version, default_model,
+                                           is_default, timeout_ms, max_retries)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (tenant_id, provider) DO UPDATE SET
+           api_key_ciphertext = CASE WHEN $11 THEN EXCLUDED.api_key_ciphertext ELSE llm_provider_configs.api_key_ciphertext END,
+           api_key_key_id = CASE WHEN $11 THEN EXCLUDED.api_key_key_id ELSE llm_provider_configs.api_key_key_id END,
+           api_key = CASE WHEN $11 THEN NULL ELSE llm_provider_configs.api_key END,
+           endpoint = EXCLUDED.endpoint,
+           api_version = EXCLUDED.api_version,
+           default_model = EXCLUDED.default_model,
+           is_default = EXCLUDED.is_default,
+           timeout_ms = EXCLUDED.timeout_ms,
+           max_retries = EXCLUDED.max_retries,
+           updated_at = NOW()`,
+        [tenantId, provider, encryptedKey?.ciphertext ?? null, encryptedKey?.keyId ?? null, endpoint ?? null, apiVersion ?? null,
+         defaultModel ?? null, !!isDefault, timeoutMs ?? null, maxRetries ?? null, apiKey !== undefined]
+      );
+      await client.query('COMMIT');
+      runner.getProviderRegistry().invalidate(tenantId);
+      res.json({ provider, isDefault: !!isDefault });
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('[runtime] Update provider error:', error.message);
+      res.status(500).json({ error: 'Failed to update LLM provider' });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Remove an LLM provider config (admin only)
+  router.delete('/providers/:provider', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const result = await pool.query(
+        `DELETE FROM llm_provider_configs WHERE tenant_id = $1 AND provider = $2 RETURNING provider`,
+        [tenantId, req.params.provider]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Provider config not found' });
+      }
+      runner.getProviderRegistry().invalidate(tenantId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[runtime] Delete provider error:', error.message);
+      res.status(500).json({ error: 'Failed to delete LLM provider' });
+    }
+  });
+
+  // Tenant budget, foundation budgets, and current spend / concurrency
+  router.get('/budgets', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const result = await pool.query(
+        `SELECT b.*, f.name AS foundation_name FROM run_budgets b
+         LEFT JOIN foundations f ON f.id = b.foundation_id
+         WHERE b.tenant_id = $1
+         ORDER BY b.foundation_id NULLS FIRST`,
+        [tenantId]
+      );
+      const tenantRow = result.rows.find(row => !row.foundation_id);
+      res.json({
+        limits: BUDGET_LIMITS,
+        tenant: tenantRow ? { ...budgetFromRow(tenantRow), updatedAt: tenantRow.updated_at } : null,
+        foundations: result.rows.filter(row => row.foundation_id).map(row => ({
+          foundationId: row.foundation_id,
+          foundationName: row.foundation_name,
+          ...budgetFromRow(row),
+          updatedAt: row.updated_at,
+        })),
+        usage: await runner.getBudgetGuard().currentUsage(tenantId),
+      });
+    } catch (error: any) {
+      console.error('[runtime] Get budgets error:', error.message);
+      res.status(500).json({ error: 'Failed to get run budgets' });
+    }
+  });
+
+  // Replace the tenant-wide budget (admin only)
+  router.put('/budgets', requireAdmin, async (req: Request, res: Response) => {
+    const error = validateBudget(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+      const tenantId = req.tenantId!;
+      const budget = await upsertBudget(pool, tenantId, null, req.body, req.user?.userId);
+      runner.getBudgetGuard().invalidate(tenantId);
+      res.json(budget);
+    } catch (error: any) {
+      console.error('[runtime] Update tenant budget error:', error.message);
+      res.status(500).json({ error: 'Failed to update run budget' });
+    }
+  });
+
+  // Remove the tenant-wide budget (admin only)
+  router.delete('/budgets', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      await pool.query(`DELETE FROM run_budgets WHERE tenant_id = $1 AND foundation_id IS NULL`, [tenantId]);
+      runner.getBudgetGuard().invalidate(tenantId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[runtime] Delete tenant budget error:', error.message);
+      res.status(500).json({ error: 'Failed to delete run budget' });
+    }
+  });
+
+  // Get a foundation's budget
+  router.get('/foundations/:id/budget', async (req: Request, res: Response) => {
+    try {
+      const result = await pool.query(
+        `SELECT * FROM run_budgets WHERE tenant_id = $1 AND foundation_id = $2`,
+        [req.tenantId!, req.params.id]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'No budget set for this foundation' });
+      }
+      res.json({ ...budgetFromRow(result.rows[0]), updatedAt: result.rows[0].updated_at });
+    } catch (error: any) {
+      console.error('[runtime] Get foundation budget error:', error.message);
+      res.status(500).json({ error: 'Failed to get run budget' });
+    }
+  });
+
+  // Replace a foundation's budget (admin only)
+  router.put('/foundations/:id/budget', requireAdmin, async (req: Request, res: Response) => {
+    const error = validateBudget(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+      const tenantId = req.tenantId!;
+      const foundation = await pool.query(
+        `SELECT id FROM foundations WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, tenantId]
+      );
+      if (foundation.rows.length === 0) {
+        return res.status(404).json({ error: 'Foundation not found' });
+      }
+      const budget = await upsertBudget(pool, tenantId, req.params.id, req.body, req.user?.userId);
+      runner.getBudgetGuard().invalidate(tenantId);
+      res.json(budget);
+    } catch (error: any) {
+      console.error('[runtime] Update foundation budget error:', error.message);
+      res.status(500).json({ error: 'Failed to update run budget' });
+    }
+  });
+
+  // Remove a foundation's budget (admin only)
+  router.delete('/foundations/:id/budget', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const result = await pool.query(
+        `DELETE FROM run_budgets WHERE tenant_id = $1 AND foundation_id = $2 RETURNING id`,
+        [tenantId, req.params.id]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'No budget set for this foundation' });
+      }
+      runner.getBudgetGuard().invalidate(tenantId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[runtime] Delete foundation budget error:', error.message);
+      res.status(500).json({ error: 'Failed to delete run budget' });
+    }
+  });
+
+  // List run schedules, optionally for one foundation
+  router.get('/schedules', async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const foundationId = req.query.foundationId as string | undefined;
+      const result = await pool.query(
+        `SELECT s.*, f.name AS foundation_name FROM run_schedules s
+         JOIN foundations f ON f.id = s.foundation_id
+         WHERE s.tenant_id = $1 AND ($2::uuid IS NULL OR s.foundation_id = $2)
+         ORDER BY s.created_at DESC`,
+        [tenantId, foundationId || null]
+      );
+      res.json({ data: result.rows.map(row => ({ ...scheduleFromRow(row), foundationName: row.foundation_name })) });
+    } catch (error: any) {
+      console.error('[runtime] List schedules error:', error.message);
+      res.status(500).json({ error: 'Failed to list run schedules' });
+    }
+  });
+
+  // Get a run schedule and its next occurrences
+  router.get('/schedules/:id', async (req: Request, res: Response) => {
+    try {
+      const result = await pool.query(
+        `SELECT * FROM run_schedules WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, req.tenantId!]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      const schedule = scheduleFromRow(result.rows[0]);
+      const upcoming = schedule.status === 'active' ? nextCronOccurrences(schedule.cron, schedule.timezone) : [];
+      res.json({ ...schedule, upcoming });
+    } catch (error: any) {
+      console.error('[runtime] Get schedule error:', error.message);
+      res.status(500).json({ error: 'Failed to get run schedule' });
+    }
+  });
+
+  // Schedule recurring runs of a foundation (admin only)
+  router.post('/foundations/:id/schedules', requireAdmin, async (req: Request, res: Response) => {
+    const error = validateSchedule(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+      const tenantId = req.tenantId!;
+      const foundation = await pool.query(
+        `SELECT id FROM foundations WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, tenantId]
+      );
+      if (foundation.rows.length === 0) {
+        return res.status(404).json({ error: 'Foundation not found' });
+      }
+
+      const { name, cron, timezone = 'UTC', input = {}, overlapPolicy = 'skip' } = req.body;
+      const result = await pool.query(
+        `INSERT INTO run_schedules
+           (tenant_id, foundation_id, name, cron_expression, timezone, input_template, overlap_policy, next_run_at, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          tenantId, req.params.id, name.trim(), cron.trim(), timezone, JSON.stringify(input), overlapPolicy,
+          nextCronOccurrence(cron, timezone), req.user!.userId,
+        ]
+      );
+      res.status(201).json(scheduleFromRow(result.rows[0]));
+    } catch (error: any) {
+      console.error('[runtime] Create schedule error:', error.message);
+      res.status(500).json({ error: 'Failed to create run schedule' });
+    }
+  });
+
+  // Update a run schedule (admin only); a new expression or timezone reschedules the next run
+  router.put('/schedules/:id', requireAdmin, async (req: Request, res: Response) => {
+    const error = validateSchedule(req.body, true);
+    if (error) return res.status(400).json({ error });
+    try {
+      const tenantId = req.tenantId!;
+      const existing = await pool.query(
+        `SELECT * FROM run_schedules WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, tenantId]
+      );
+      if (existing.rows.length === 0) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      const current = scheduleFromRow(existing.rows[0]);
+      const cron = req.body.cron?.trim() ?? current.cron;
+      const timezone = req.body.timezone ?? current.timezone;
+      const rescheduled = cron !== current.cron || timezone !== current.timezone;
+      let nextRunAt = current.nextRunAt;
+      if (rescheduled) {
+        try {
+          nextRunAt = current.status === 'active' ? nextCronOccurrence(cron, timezone) : null;
+        } catch (err: any) {
+          return res.status(400).json({ error: err.message });
+        }
+      }
+
+      const result = await pool.query(
+        `UPDATE run_schedules SET
+           name = $3, cron_expression = $4, timezone = $5, input_template = $6, overlap_policy = $7,
+           next_run_at = $8, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING *`,
+        [
+          req.params.id, tenantId, req.body.name?.trim() ?? current.name, cron, timezone,
+          JSON.stringify(req.body.input ?? current.input), req.body.overlapPolicy ?? current.overlapPolicy, nextRunAt,
+        ]
+      );
+      res.json(scheduleFromRow(result.rows[0]));
+    } catch (error: any) {
+      console.error('[runtime] Update schedule error:', error.message);
+      res.status(500).json({ error: 'Failed to update run schedule' });
+    }
+  });
+
+  // Pause a run schedule (admin only); a queued run is dropped
+  router.post('/schedules/:id/pause', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const result = await pool.query(
+        `UPDATE run_schedules SET status = 'paused', next_run_at = NULL, queued_at = NULL, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING *`,
+        [req.params.id, req.tenantId!]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      res.json(scheduleFromRow(result.rows[0]));
+    } catch (error: any) {
+      console.error('[runtime] Pause schedule error:', error.message);
+      res.status(500).json({ error: 'Failed to pause run schedule' });
+    }
+  });
+
+  // Resume a paused run schedule (admin only); occurrences missed while paused are not run
+  router.post('/schedules/:id/resume', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const tenantId = req.tenantId!;
+      const existing = await pool.query(
+        `SELECT * FROM run_schedules WHERE id = $1 AND tenant_id = $2`,
+        [req.params.id, tenantId]
+      );
+      if (existing.rows.length === 0) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      const current = scheduleFromRow(existing.rows[0]);
+      let nextRunAt: Date;
+      try {
+        nextRunAt = nextCronOccurrence(current.cron, current.timezone);
+      } catch (err: any) {
+        return res.status(400).json({ error: err.message });
+      }
+
+      const result = await pool.query(
+        `UPDATE run_schedules SET status = 'active', next_run_at = $3, last_error = NULL, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING *`,
+        [req.params.id, tenantId, nextRunAt]
+      );
+      res.json(scheduleFromRow(result.rows[0]));
+    } catch (error: any) {
+      console.error('[runtime] Resume schedule error:', error.message);
+      res.status(500).json({ error: 'Failed to resume run schedule' });
+    }
+  });
+
+  // Delete a run schedule (admin only); runs it started are kept
+  router.delete('/schedules/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const result = await pool.query(
+        `DELETE FROM run_schedules WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+        [req.params.id, req.tenantId!]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[runtime] Delete schedule error:', error.message);
+      res.status(500).json({ error: 'Failed to delete run schedule' });
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,249 @@
+/**
+ * Approval Decision Tests
+ *
+ * Reviewers' decisions on approval requests driving the paused run: approvals continue it,
+ * rejections route the gateway after the task back to rework or fail the run, values filled
+ * into the task's form feed the tasks after it, and decisions that are not final or not for a
+ * waiting step are not applied.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { FlowRun } from '../src/engine/state-manager';
+import { createTestRuntime, orchestratorAgent, workerAgent, TENANT_ID } from './support/test-runtime';
+
+const DEFINITIONS = 'xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" id="Defs" targetNamespace="http://flowgrid.test"';
+
+// Drafting, then a human review whose rejection goes back to drafting
+const REWORK_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions ${DEFINITIONS}>
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Writer" name="Writer Agent"><bpmn:flowNodeRef>Task_Draft</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Draft" name="Draft Post" />
+    <bpmn:userTask id="Task_Review" name="Review Draft" />
+    <bpmn:exclusiveGateway id="Gateway_Decision" name="Approved?" default="Flow_Publish" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Task_Draft" />
+    <bpmn:sequenceFlow id="Flow_Draft" sourceRef="Task_Draft" targetRef="Task_Review" />
+    <bpmn:sequenceFlow id="Flow_Review" sourceRef="Task_Review" targetRef="Gateway_Decision" />
+    <bpmn:sequenceFlow id="Flow_Rework" name="rework" sourceRef="Gateway_Decision" targetRef="Task_Draft">
+      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">\${approvalDecision == 'rejected'}</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="Flow_Publish" name="publish" sourceRef="Gateway_Decision" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+// A human review with nowhere to send a rejection
+const SIGN_OFF_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions ${DEFINITIONS}>
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:startEvent id="Start" />
+    <bpmn:userTask id="Task_SignOff" name="Sign Off" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Task_SignOff" />
+    <bpmn:sequenceFlow id="Flow_End" sourceRef="Task_SignOff" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+// A human task whose reviewer supplies data for the order placed after it
+const FORM_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions ${DEFINITIONS}>
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Writer" name="Writer Agent"><bpmn:flowNodeRef>Task_Order</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:userTask id="Task_Quote" name="Confirm Quote">
+      <bpmn:documentation>Form: { budget: number, vendor: &quot;Acme&quot; | &quot;Globex&quot;, rushOrder?: boolean }</bpmn:documentation>
+    </bpmn:userTask>
+    <bpmn:serviceTask id="Task_Order" name="Place Order">
+      <bpmn:documentation>Input: { budget: number, vendor: string }
+Output: { orderId: string }</bpmn:documentation>
+    </bpmn:serviceTask>
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Task_Quote" />
+    <bpmn:sequenceFlow id="Flow_Quote" sourceRef="Task_Quote" targetRef="Task_Order" />
+    <bpmn:sequenceFlow id="Flow_Order" sourceRef="Task_Order" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+/**
+ * A test runtime whose approval requests are kept in memory, with a helper that decides
+ * a request the way agent-service does and hands it to the runner.
+ */
+function approvalRuntime(bpmn: string) {
+  const approvals: Record<string, any>[] = [];
+  const runtime = createTestRuntime([orchestratorAgent(bpmn), workerAgent('agent-writer', 'Writer Agent')], {
+    rows: [
+      [/INSERT INTO approval_requests/, params => {
+        const approval = {
+          id: `approval-${approvals.length + 1}`, tenant_id: params[0], title: params[1], urgency: params[4],
+          form_schema: params[6] && JSON.parse(params[6]), status: 'pending',
+        };
+        approvals.push(approval);
+        return [approval];
+      }],
+      [/SELECT \* FROM approval_requests WHERE id = \$1 AND tenant_id = \$2/, ([id, tenantId]) =>
+        approvals.filter(a => a.id === id && a.tenant_id === tenantId)],
+    ],
+  });
+  Object.assign(runtime.runner.getStateManager(), {
+    setStepApproval: async (stepId: string, approvalId: string) => {
+      Object.assign(runtime.steps.find(s => s.id === stepId)!, { approval_id: approvalId, status: 'waiting_approval' });
+    },
+    getStepByApproval: async (approvalId: string) => runtime.steps.find(s => s.approval_id === approvalId) || null,
+  });
+
+  const decide = (approvalId: string, status: string, fields: Record<string, any> = {}) => {
+    Object.assign(approvals.find(a => a.id === approvalId)!, {
+      status, decided_by: 'reviewer@flowgrid.test', decided_at: new Date(), ...fields,
+    });
+    return runtime.runner.applyApprovalDecision(approvalId, TENANT_ID);
+  };
+
+  return { ...runtime, approvals, decide };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the run');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function pausedOn(runtime: ReturnType<typeof approvalRuntime>, count: number): () => boolean {
+  return () => runtime.approvals.length >= count && [...runtime.runs.values()].some((run: FlowRun) => run.status === 'paused');
+}
+
+describe('approval decisions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('pauses on a human task and continues once the request is approved', async () => {
+    const runtime = approvalRuntime(REWORK_BPMN);
+    const finished = runtime.run({ request: 'Write a launch post' });
+    await waitFor(pausedOn(runtime, 1));
+
+    const review = runtime.steps.find(s => s.step_key === 'Task_Review')!;
+    expect(review).toEqual(expect.objectContaining({ status: 'waiting_approval', approval_id: 'approval-1' }));
+
+    expect(await runtime.decide('approval-1', 'approved', { decision_comment: 'Ship it' })).toBe(true);
+    const run = await finished;
+
+    expect(run.status).toBe('completed');
+    expect(review.status).toBe('completed');
+    expect(review.output_data.approval).toEqual(expect.objectContaining({
+      approvalId: 'approval-1', decision: 'approved', approved: true, comment: 'Ship it', decidedBy: 'reviewer@flowgrid.test',
+    }));
+    expect(runtime.steps.filter(s => s.step_key === 'Task_Draft')).toHaveLength(1);
+  });
+
+  it('sends a rejection down the rework path with the reviewer\'s comment', async () => {
+    const runtime = approvalRuntime(REWORK_BPMN);
+    const finished = runtime.run({ request: 'Write a launch post' });
+    await waitFor(pausedOn(runtime, 1));
+
+    await runtime.decide('approval-1', 'rejected', { decision_comment: 'Too long' });
+    await waitFor(pausedOn(runtime, 2));
+
+    const drafts = runtime.steps.filter(s => s.step_key === 'Task_Draft');
+    expect(drafts).toHaveLength(2);
+    expect(drafts[1].input_data._approval).toEqual(expect.objectContaining({ decision: 'rejected', approved: false, comment: 'Too long' }));
+    const gateway = runtime.steps.find(s => s.step_key === 'Gateway_Decision')!;
+    expect(gateway.output_data.routing).toEqual(expect.objectContaining({ flowId: 'Flow_Rework', mode: 'condition' }));
+
+    await runtime.decide('approval-2', 'approved');
+    expect((await finished).status).toBe('completed');
+  });
+
+  it('fails the run when a rejected task has no gateway to route the rework', async () => {
+    const runtime = approvalRuntime(SIGN_OFF_BPMN);
+    const finished = runtime.run({ request: 'Sign off the budget' });
+    await waitFor(pausedOn(runtime, 1));
+
+    await runtime.decide('approval-1', 'rejected', { decision_comment: 'Over budget' });
+    const run = await finished;
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('"Sign Off" was rejected: Over budget');
+    expect(runtime.steps.find(s => s.step_key === 'Task_SignOff')!.status).toBe('failed');
+  });
+
+  it('fails the run without rebuilding the engine when a request expires under the fail policy', async () => {
+    const runtime = approvalRuntime(SIGN_OFF_BPMN);
+    const finished = runtime.run({ request: 'Sign off the budget' });
+    await waitFor(pausedOn(runtime, 1));
+
+    await runtime.decide('approval-1', 'expired', { timeout_outcome: 'failed', decided_by: null, decided_at: null });
+    const run = await finished;
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Approval "Review needed: Sign Off" expired without a decision');
+    expect(runtime.steps.find(s => s.step_key === 'Task_SignOff')!.output_data.approval).toEqual(expect.objectContaining({
+      decision: 'failed', expired: true, decidedBy: null,
+    }));
+  });
+
+  it('applies nothing while the request is pending or once its step has moved on', async () => {
+    const runtime = approvalRuntime(SIGN_OFF_BPMN);
+    const finished = runtime.run({ request: 'Sign off the budget' });
+    await waitFor(pausedOn(runtime, 1));
+
+    expect(await runtime.runner.applyApprovalDecision('approval-1', TENANT_ID)).toBe(false);
+    expect(await runtime.decide('approval-1', 'approved')).toBe(true);
+    expect((await finished).status).toBe('completed');
+    expect(await runtime.runner.applyApprovalDecision('approval-1', TENANT_ID)).toBe(false);
+  });
+
+  it('rejects requests of other tenants as not found', async () => {
+    const runtime = approvalRuntime(SIGN_OFF_BPMN);
+    const finished = runtime.run({ request: 'Sign off the budget' });
+    await waitFor(pausedOn(runtime, 1));
+
+    await expect(runtime.runner.applyApprovalDecision('approval-1', 'other-tenant')).rejects.toThrow('Approval request not found');
+    await runtime.decide('approval-1', 'approved');
+    await finished;
+  });
+
+  it('asks the reviewer for the task\'s form, prefilled from the run, and passes the values on', async () => {
+    const runtime = approvalRuntime(FORM_BPMN);
+    const finished = runtime.run({ request: 'Order laptops', budget: '1200' });
+    await waitFor(pausedOn(runtime, 1));
+
+    expect(runtime.approvals[0].form_schema.properties).toEqual({
+      budget: { type: 'number', title: 'Budget', default: 1200 },
+      vendor: { type: 'string', enum: ['Acme', 'Globex'], title: 'Vendor' },
+      rushOrder: { type: 'boolean', title: 'Rush order' },
+    });
+
+    await runtime.decide('approval-1', 'approved', { form_data: { budget: '1500', vendor: 'Globex', note: 'not on the form' } });
+    expect((await finished).status).toBe('completed');
+
+    const quote = runtime.steps.find(s => s.step_key === 'Task_Quote')!;
+    expect(quote.output_data.formData).toEqual({ budget: 1500, vendor: 'Globex' });
+    const order = runtime.steps.find(s => s.step_key === 'Task_Order')!;
+    expect(order.input_data).toEqual(expect.objectContaining({ budget: 1500, vendor: 'Globex' }));
+    expect(order.input_data._inputErrors).toBeUndefined();
+  });
+
+  it('ignores form values on a rejection', async () => {
+    const runtime = approvalRuntime(FORM_BPMN);
+    const finished = runtime.run({ request: 'Order laptops' });
+    await waitFor(pausedOn(runtime, 1));
+
+    await runtime.decide('approval-1', 'rejected', { form_data: { budget: 1, vendor: 'Acme' } });
+
+    expect((await finished).status).toBe('failed');
+    expect(runtime.steps.find(s => s.step_key === 'Task_Quote')!.output_data.formData).toBeUndefined();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Approval SLA Tests
+ *
+ * Approval policies from foundation metadata, and the scheduler assigning, escalating and
+ * expiring pending requests, passing over out-of-office users for their delegates.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import {
+  DEFAULT_APPROVAL_POLICY, approvalDeadline, approvalPolicyFromMetadata, dueEscalationLevel, timeoutOutcome, validateApprovalPolicy,
+} from '../src/engine/approval-policy';
+import { ApprovalScheduler } from '../src/engine/approval-scheduler';
+
+const HOUR = 60 * 60000;
+const REQUESTED_AT = new Date('2026-03-02T09:00:00Z');
+
+const ESCALATING_POLICY = {
+  escalation: [
+    { type: 'user', userId: 'alice' },
+    { type: 'role', role: 'finance-lead', afterMinutes: 60 },
+    { type: 'admin', afterMinutes: 240 },
+  ],
+  onTimeout: 'approve',
+};
+
+/**
+ * A pool answering the scheduler's queries from `requests`, with out-of-office delegations
+ * as user → delegate. Requests in `conflicting` were already moved on by another instance.
+ */
+function schedulerPool(requests: any[], delegations: Record<string, string> = {}, conflicting = new Set<string>()) {
+  const queries: { sql: string; params: any[] }[] = [];
+  const pending = () => requests.filter(a => (a.status || 'pending') === 'pending');
+  const pool = {
+    query: async (sql: string, params: any[] = []) => {
+      queries.push({ sql, params });
+      if (/FROM approval_requests a/.test(sql)) {
+        return {
+          rows: /expires_at <= NOW\(\)/.test(sql)
+            ? pending().filter(a => a.expires_at <= new Date())
+            : pending().filter(a => (a.foundation_metadata?.approvalPolicy?.escalation || []).length > a.escalation_level + 1),
+        };
+      }
+      if (/FROM approval_delegations/.test(sql)) {
+        return { rows: delegations[params[1]] ? [{ delegate_id: delegations[params[1]] }] : [] };
+      }
+      if (/^\s*UPDATE approval_requests/.test(sql) && /RETURNING id/.test(sql)) {
+        if (conflicting.has(params[0])) return { rows: [] };
+        if (/SET status = 'expired'/.test(sql)) requests.find(a => a.id === params[0]).status = 'expired';
+        return { rows: [{ id: params[0] }] };
+      }
+      return { rows: [] };
+    },
+  } as unknown as Pool;
+  const history = () => queries
+    .filter(q => /INSERT INTO approval_request_history/.test(q.sql))
+    .map(q => ({ approvalId: q.params[0], action: q.params[2], assignedTo: q.params[3], assignedRole: q.params[4], details: JSON.parse(q.params[5]) }));
+  return { pool, queries, history };
+}
+
+describe('approval policies', () => {
+  it('fills what the foundation leaves out from the default policy', () => {
+    expect(approvalPolicyFromMetadata(null)).toEqual(DEFAULT_APPROVAL_POLICY);
+    expect(approvalPolicyFromMetadata({ approvalPolicy: { slaMinutes: { high: 30 }, onTimeout: 'fail' } })).toEqual({
+      slaMinutes: { ...DEFAULT_APPROVAL_POLICY.slaMinutes, high: 30 },
+      escalation: [],
+      onTimeout: 'fail',
+    });
+  });
+
+  it('sets the deadline by urgency, treating unknown urgencies as normal', () => {
+    const policy = approvalPolicyFromMetadata({ approvalPolicy: { slaMinutes: { critical: 30, normal: 120 } } });
+    expect(approvalDeadline(policy, 'critical', REQUESTED_AT)).toEqual(new Date('2026-03-02T09:30:00Z'));
+    expect(approvalDeadline(policy, 'whenever', REQUESTED_AT)).toEqual(new Date('2026-03-02T11:00:00Z'));
+  });
+
+  it('escalates to the last level whose wait has passed', () => {
+    const policy = approvalPolicyFromMetadata({ approvalPolicy: ESCALATING_POLICY });
+    const after = (ms: number) => new Date(REQUESTED_AT.getTime() + ms);
+    expect(dueEscalationLevel(policy, REQUESTED_AT, after(59 * 60000))).toBe(0);
+    expect(dueEscalationLevel(policy, REQUESTED_AT, after(HOUR))).toBe(1);
+    expect(dueEscalationLevel(policy, REQUESTED_AT, after(5 * HOUR))).toBe(2);
+    expect(dueEscalationLevel(DEFAULT_APPROVAL_POLICY, REQUESTED_AT, after(100 * HOUR))).toBe(0);
+  });
+
+  it('maps timeout actions to the outcome recorded on the request', () => {
+    expect(['approve', 'reject', 'fail'].map(action => timeoutOutcome(action as any))).toEqual(['approved', 'rejected', 'failed']);
+  });
+
+  describe('validateApprovalPolicy', () => {
+    it('accepts complete and partial policies', () => {
+      expect(validateApprovalPolicy(ESCALATING_POLICY)).toBeNull();
+      expect(validateApprovalPolicy({ slaMinutes: { low: 600 } })).toBeNull();
+    });
+
+    it('rejects unknown urgencies and non-positive SLAs', () => {
+      expect(validateApprovalPolicy({ slaMinutes: { urgent: 10 } })).toMatch(/unknown urgency "urgent"/);
+      expect(validateApprovalPolicy({ slaMinutes: { high: 0 } })).toBe('slaMinutes.high must be a positive integer');
+    });
+
+    it('rejects escalation levels without a target or with waits out of order', () => {
+      expect(validateApprovalPolicy({ escalation: [{ type: 'user' }] })).toBe("escalation[0].userId is required for type 'user'");
+      expect(validateApprovalPolicy({ escalation: [{ type: 'team' }] })).toMatch(/type must be one of: user, role, admin/);
+      expect(validateApprovalPolicy({
+        escalation: [{ type: 'admin' }, { type: 'role', role: 'a', afterMinutes: 60 }, { type: 'role', role: 'b', afterMinutes: 60 }],
+      })).toBe("escalation[2].afterMinutes must be an integer greater than the previous level's");
+    });
+
+    it('rejects unknown timeout actions', () => {
+      expect(validateApprovalPolicy({ onTimeout: 'ignore' })).toBe('onTimeout must be one of: approve, reject, fail');
+      expect(validateApprovalPolicy('strict')).toBe('Policy must be an object');
+    });
+  });
+});
+
+describe('ApprovalScheduler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sets a new request\'s deadline and assigns it to the first level of the chain', async () => {
+    const { pool, queries, history } = schedulerPool([]);
+    const scheduler = new ApprovalScheduler(pool, jest.fn(async () => true));
+    const approval: any = { id: 'approval-1', tenant_id: 'tenant-1', urgency: 'critical', requested_at: REQUESTED_AT };
+
+    await scheduler.onRequested(approval, approvalPolicyFromMetadata({ approvalPolicy: ESCALATING_POLICY }));
+
+    const expiresAt = new Date(REQUESTED_AT.getTime() + 4 * HOUR);
+    expect(approval.expires_at).toEqual(expiresAt);
+    expect(queries[1].params).toEqual(['approval-1', expiresAt, 'alice', null, null]);
+    expect(history()).toEqual([{
+      approvalId: 'approval-1', action: 'requested', assignedTo: 'alice', assignedRole: null,
+      details: { urgency: 'critical', expiresAt: expiresAt.toISOString() },
+    }]);
+  });
+
+  it('assigns a request meant for an out-of-office user to their delegate, following chains', async () => {
+    const { pool, history } = schedulerPool([], { alice: 'bob', bob: 'carol', carol: 'alice' });
+    const scheduler = new ApprovalScheduler(pool, jest.fn(async () => true));
+
+    await scheduler.onRequested({ id: 'approval-1', tenant_id: 'tenant-1', urgency: 'normal' }, approvalPolicyFromMetadata({ approvalPolicy: ESCALATING_POLICY }));
+
+    expect(history().map(h => [h.action, h.assignedTo])).toEqual([['requested', 'carol'], ['delegated', 'carol']]);
+    expect(history()[1].details).toEqual({ from: 'alice', reason: 'out_of_office' });
+  });
+
+  it('expires overdue requests and hands their timeout outcome to the run', async () => {
+    const overdue = {
+      id: 'approval-1', tenant_id: 'tenant-1', flow_instance_id: 'run-1', assigned_to: 'alice', escalation_level: 0,
+      requested_at: new Date(), expires_at: new Date(Date.now() - 1000), foundation_metadata: { approvalPolicy: ESCALATING_POLICY },
+    };
+    const unlinked = { ...overdue, id: 'approval-2', flow_instance_id: null };
+    const { pool, queries, history } = schedulerPool([overdue, unlinked, { ...overdue, id: 'approval-3', expires_at: new Date(Date.now() + HOUR) }]);
+    const onExpired = jest.fn(async () => true);
+    const scheduler = new ApprovalScheduler(pool, onExpired);
+
+    expect(await scheduler.tick()).toEqual({ expired: 2, escalated: 0 });
+
+    const expire = queries.find(q => /SET status = 'expired'/.test(q.sql))!;
+    expect(expire.params.slice(0, 2)).toEqual(['approval-1', 'approved']);
+    expect(history().filter(h => h.action === 'expired').map(h => [h.approvalId, h.assignedTo, h.details.outcome]))
+      .toEqual([['approval-1', 'alice', 'approved'], ['approval-2', 'alice', 'approved']]);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onExpired).toHaveBeenCalledWith('approval-1', 'tenant-1');
+  });
+
+  it('leaves requests another instance expired or decided first alone', async () => {
+    const overdue = { id: 'approval-1', tenant_id: 'tenant-1', flow_instance_id: 'run-1', escalation_level: 0, expires_at: new Date(Date.now() - 1000), foundation_metadata: {} };
+    const { pool, history } = schedulerPool([overdue], {}, new Set(['approval-1']));
+    const onExpired = jest.fn(async () => true);
+
+    expect(await new ApprovalScheduler(pool, onExpired).tick()).toEqual({ expired: 0, escalated: 0 });
+    expect(history()).toEqual([]);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it('keeps expiring the batch when applying one timeout to its run fails', async () => {
+    const overdue = { tenant_id: 'tenant-1', flow_instance_id: 'run-1', escalation_level: 0, expires_at: new Date(Date.now() - 1000), foundation_metadata: {} };
+    const { pool } = schedulerPool([{ ...overdue, id: 'approval-1' }, { ...overdue, id: 'approval-2' }]);
+    const onExpired = jest.fn(async (approvalId: string) => {
+      if (approvalId === 'approval-1') throw new Error('run not found');
+      return true;
+    });
+
+    expect((await new ApprovalScheduler(pool, onExpired).tick()).expired).toBe(2);
+    expect(onExpired).toHaveBeenCalledTimes(2);
+  });
+
+  it('escalates waiting requests to the level that is due', async () => {
+    const waiting = {
+      id: 'approval-1', tenant_id: 'tenant-1', escalation_level: 0, assigned_to: 'alice',
+      requested_at: new Date(Date.now() - 5 * HOUR), expires_at: new Date(Date.now() + HOUR),
+      foundation_metadata: { approvalPolicy: ESCALATING_POLICY },
+    };
+    const recent = { ...waiting, id: 'approval-2', requested_at: new Date(Date.now() - 10 * 60000) };
+    const { pool, queries, history } = schedulerPool([waiting, recent]);
+
+    expect(await new ApprovalScheduler(pool, jest.fn(async () => true)).tick()).toEqual({ expired: 0, escalated: 1 });
+
+    const escalate = queries.find(q => /SET escalation_level = \$2/.test(q.sql))!;
+    expect(escalate.params).toEqual(['approval-1', 2, null, 'admin', null]);
+    expect(history()).toEqual([{
+      approvalId: 'approval-1', action: 'escalated', assignedTo: null, assignedRole: 'admin',
+      details: {
+        fromLevel: 0, toLevel: 2, target: { type: 'admin', afterMinutes: 240 },
+        previous: { assignedTo: 'alice', assignedRole: null, delegatedFrom: null },
+      },
+    }]);
+  });
+
+  it('skips a tick while the previous one is still running', async () => {
+    let release!: () => void;
+    const pool = {
+      query: jest.fn(() => new Promise(resolve => { release = () => resolve({ rows: [] }); })),
+    } as unknown as Pool;
+    const scheduler = new ApprovalScheduler(pool, jest.fn(async () => true));
+
+    const first = scheduler.tick();
+    expect(await scheduler.tick()).toEqual({ expired: 0, escalated: 0 });
+    release();
+    await new Promise(resolve => setImmediate(resolve));
+    release();
+    await first;
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Auth Tests
+ *
+ * Access tokens on the runtime API, including the service tokens integration-service
+ * signs to start runs and deliver messages for webhooks.
+ */
+
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { requireAuth } from '../src/auth';
+import { createRuntimeRouter } from '../src/routes/runtime';
+import { FOUNDATION_ID, TENANT_ID, TestRuntime, createTestRuntime, orchestratorAgent, workerAgent } from './support/test-runtime';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+
+const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Defs" targetNamespace="http://flowgrid.test">
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Triage" name="Triage Agent"><bpmn:flowNodeRef>Task_Triage</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Triage" name="Triage the pull request" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_Triage" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Triage" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+// As integration-service signs it for a webhook endpoint created by user-1
+function serviceToken(fields: Record<string, any> = {}): string {
+  return jwt.sign(
+    { userId: 'user-1', email: 'webhook-endpoint-1@flowgrid.local', tenantId: TENANT_ID, role: 'service', type: 'access', ...fields },
+    JWT_SECRET,
+    { expiresIn: '5m' }
+  );
+}
+
+describe('runtime API auth', () => {
+  let runtime: TestRuntime;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    runtime = createTestRuntime([orchestratorAgent(bpmn), workerAgent('agent-triage', 'Triage Agent')]);
+    const app = express();
+    app.use(express.json());
+    app.use('/api', requireAuth);
+    app.use('/api/runtime', createRuntimeRouter(runtime.pool, runtime.runner));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/runtime`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const post = (path: string, token: string, body: any) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+  it('starts a run for a webhook\'s service token', async () => {
+    const finished = new Promise<{ runId: string }>(resolve => runtime.runner.once('run.complete', resolve));
+
+    const response = await post(`/foundations/${FOUNDATION_ID}/run`, serviceToken(), {
+      input: { title: 'Fix it', webhook: { endpointId: 'endpoint-1', event: 'pull_request.opened' } },
+    });
+
+    expect(response.status).toBe(201);
+    const { runId } = await response.json() as { runId: string };
+    expect(await finished).toEqual(expect.objectContaining({ runId }));
+    expect(runtime.runs.get(runId)).toEqual(expect.objectContaining({ status: 'completed', tenant_id: TENANT_ID }));
+  });
+
+  it('lets a service token deliver messages', async () => {
+    const response = await post('/messages', serviceToken(), { messageName: 'github.pull_request.closed', correlationKey: '7' });
+
+    // Past auth: the runner looked for a waiting run
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No run is waiting for message "github.pull_request.closed"' });
+  });
+
+  it('keeps admin routes from service tokens', async () => {
+    const response = await fetch(`${baseUrl}/budgets`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${serviceToken()}` },
+      body: JSON.stringify({ maxConcurrentRuns: 100 }),
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('refuses tokens without a known role, a tenant or the access type', async () => {
+    for (const token of [serviceToken({ role: 'robot' }), serviceToken({ tenantId: undefined }), serviceToken({ type: 'refresh' })]) {
+      const response = await post(`/foundations/${FOUNDATION_ID}/run`, token, { input: {} });
+      expect(response.status).toBe(401);
+    }
+    expect(runtime.runs.size).toBe(1);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * BPMN Validator Tests
+ *
+ * Static checks run before deploy: structure, reachability, gateways and task→agent
+ * mapping, and FlowRunner.validateBpmn checking a BPMN the way the runner would run it.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { BpmnValidationContext, validateBpmn } from '../src/engine/bpmn-validator';
+import { createTestRuntime, orchestratorAgent, workerAgent } from './support/test-runtime';
+
+const CONTRACT = '<bpmn:documentation>Output: { summary: string }</bpmn:documentation>';
+
+/**
+ * A BPMN document with an orchestrator participant running Process_Main.
+ */
+function bpmn(processBody: string, extra = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Defs">
+  <bpmn:collaboration id="Collab">
+    <bpmn:participant id="Participant_Orch" name="Orchestrator" processRef="Process_Main" />${extra}
+  </bpmn:collaboration>
+  <bpmn:process id="Process_Main" isExecutable="true">
+${processBody}
+  </bpmn:process>
+</bpmn:definitions>`;
+}
+
+function context(fields: Partial<BpmnValidationContext> = {}): BpmnValidationContext {
+  return {
+    agentNames: ['Writer Agent'],
+    taskAgents: { Task_Write: 'Writer Agent' },
+    processId: 'Process_Main',
+    orchestratorName: 'Orchestrator',
+    contractTaskIds: new Set(['Task_Write']),
+    ...fields,
+  };
+}
+
+const LINEAR = `    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Write" name="Write">${CONTRACT}</bpmn:serviceTask>
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_Write" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Write" targetRef="End" />`;
+
+const codes = (issues: Array<{ code: string; elementId?: string }>) => issues.map(issue => [issue.code, issue.elementId]);
+
+describe('bpmn validator', () => {
+  describe('validateBpmn', () => {
+    it('accepts a connected process whose tasks all have an agent and a data contract', () => {
+      expect(validateBpmn(bpmn(LINEAR), context())).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('rejects documents without bpmn: prefixed definitions', () => {
+      const result = validateBpmn('<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL" />', context());
+
+      expect(result.valid).toBe(false);
+      expect(codes(result.errors)).toEqual([['not_bpmn', undefined]]);
+    });
+
+    it('reports duplicate IDs, missing processes and dangling message flows', () => {
+      const xml = bpmn(`${LINEAR}\n    <bpmn:task id="Task_Write" />`, `
+    <bpmn:participant id="Participant_Human" name="Reviewer" processRef="Process_Gone" />
+    <bpmn:messageFlow id="Message_1" sourceRef="Task_Write" targetRef="Task_Missing" />`);
+
+      const result = validateBpmn(xml, context());
+
+      expect(codes(result.errors)).toEqual(expect.arrayContaining([
+        ['duplicate_id', 'Task_Write'],
+        ['missing_process', 'Participant_Human'],
+        ['missing_message_flow_ref', 'Message_1'],
+      ]));
+      expect(result.errors.find(e => e.code === 'missing_message_flow_ref')!.message)
+        .toBe('Message flow Message_1 has targetRef "Task_Missing", which does not exist');
+    });
+
+    it('needs a process to execute', () => {
+      const result = validateBpmn(bpmn(LINEAR), context({ processId: null }));
+
+      expect(codes(result.errors)).toEqual([['no_executable_process', undefined]]);
+    });
+
+    it('finds unreachable nodes, dead ends and missing start or end events', () => {
+      const xml = bpmn(`${LINEAR}
+    <bpmn:serviceTask id="Task_Orphan" name="Orphan" />
+    <bpmn:serviceTask id="Task_Stuck" name="Stuck" />
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Task_Write" targetRef="Task_Stuck" />`);
+      const taskAgents = { Task_Write: 'Writer Agent', Task_Orphan: 'Writer Agent', Task_Stuck: 'Writer Agent' };
+
+      const result = validateBpmn(xml, context({ taskAgents, contractTaskIds: new Set(Object.keys(taskAgents)) }));
+
+      expect(codes(result.errors)).toEqual([['unreachable_node', 'Task_Orphan']]);
+      expect(result.errors[0].message).toBe('"Orphan" (Task_Orphan) can\'t be reached from a start event');
+      expect(codes(result.warnings)).toEqual([['dead_end', 'Task_Orphan'], ['dead_end', 'Task_Stuck']]);
+
+      const noEvents = validateBpmn(bpmn(`    <bpmn:serviceTask id="Task_Write" name="Write">${CONTRACT}</bpmn:serviceTask>`), context());
+      expect(codes(noEvents.errors)).toEqual([['no_start_event', undefined]]);
+      expect(codes(noEvents.warnings)).toEqual([['no_end_event', undefined], ['dead_end', 'Task_Write']]);
+    });
+
+    it('reaches subprocess contents, boundary events and event subprocesses', () => {
+      const xml = bpmn(`    <bpmn:startEvent id="Start" />
+    <bpmn:subProcess id="Sub">
+      <bpmn:startEvent id="Sub_Start" />
+      <bpmn:serviceTask id="Task_Write" name="Write">${CONTRACT}</bpmn:serviceTask>
+      <bpmn:sequenceFlow id="Flow_S1" sourceRef="Sub_Start" targetRef="Task_Write" />
+    </bpmn:subProcess>
+    <bpmn:boundaryEvent id="Timeout" attachedToRef="Sub" />
+    <bpmn:endEvent id="End" />
+    <bpmn:endEvent id="End_Timeout" />
+    <bpmn:subProcess id="On_Cancel" triggeredByEvent="true">
+      <bpmn:startEvent id="Cancel_Start" />
+    </bpmn:subProcess>
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Sub" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Sub" targetRef="End" />
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Timeout" targetRef="End_Timeout" />`);
+
+      expect(validateBpmn(xml, context())).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('checks gateways have paths to decide between and something to route on', () => {
+      const xml = bpmn(`    <bpmn:startEvent id="Start" />
+    <bpmn:exclusiveGateway id="Gateway_Single" name="Only way" />
+    <bpmn:parallelGateway id="Gateway_Split" />
+    <bpmn:exclusiveGateway id="Gateway_Route" default="Flow_Default" />
+    <bpmn:inclusiveGateway id="Gateway_Stuck" />
+    <bpmn:serviceTask id="Task_Write" name="Write">${CONTRACT}</bpmn:serviceTask>
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Gateway_Single" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Gateway_Single" targetRef="Gateway_Split" />
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Gateway_Split" targetRef="Gateway_Route" />
+    <bpmn:sequenceFlow id="Flow_Named" name="approved" sourceRef="Gateway_Route" targetRef="Task_Write" />
+    <bpmn:sequenceFlow id="Flow_Cond" sourceRef="Gateway_Route" targetRef="End">
+      <bpmn:conditionExpression>\${score &gt; 5}</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="Flow_Default" sourceRef="Gateway_Route" targetRef="End" />
+    <bpmn:sequenceFlow id="Flow_Blank" sourceRef="Gateway_Route" targetRef="Gateway_Stuck" />
+    <bpmn:sequenceFlow id="Flow_4" sourceRef="Task_Write" targetRef="End" />`);
+
+      const result = validateBpmn(xml, context());
+
+      expect(codes(result.errors)).toEqual([['single_outgoing_gateway', 'Gateway_Single'], ['gateway_without_outgoing', 'Gateway_Stuck']]);
+      expect(result.errors[0].message).toBe('Gateway "Only way" (Gateway_Single) has only one outgoing flow; there is no path to decide between');
+      expect(codes(result.warnings)).toEqual([['single_outgoing_gateway', 'Gateway_Split'], ['unlabelled_gateway_flow', 'Flow_Blank']]);
+    });
+
+    it('requires an agent for every agent task and warns about missing data contracts', () => {
+      const xml = bpmn(`    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Write" name="Write" />
+    <bpmn:sendTask id="Task_Send" name="Send" />
+    <bpmn:userTask id="Task_Review" name="Review" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_Write" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Write" targetRef="Task_Send" />
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Task_Send" targetRef="Task_Review" />
+    <bpmn:sequenceFlow id="Flow_4" sourceRef="Task_Review" targetRef="End" />`);
+
+      const result = validateBpmn(xml, context({ contractTaskIds: new Set() }));
+
+      expect(codes(result.errors)).toEqual([['unmapped_task', 'Task_Send']]);
+      // The orchestrator's pool is named after no worker agent, and now holds a task without one
+      expect(codes(result.warnings)).toEqual([['unmatched_participant', 'Participant_Orch'], ['missing_data_contract', 'Task_Write']]);
+    });
+
+    it('warns about pools named after no agent and a missing orchestrator participant', () => {
+      const xml = `<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Defs">
+  <bpmn:collaboration id="Collab">
+    <bpmn:participant id="Participant_Main" name="Main Flow" processRef="Process_Main" />
+    <bpmn:participant id="Participant_Legal" name="Legal" processRef="Process_Legal" />
+    <bpmn:participant id="Participant_Client" name="Client" processRef="Process_Client" />
+  </bpmn:collaboration>
+  <bpmn:process id="Process_Main">
+${LINEAR}
+  </bpmn:process>
+  <bpmn:process id="Process_Legal"><bpmn:serviceTask id="Task_Check" /></bpmn:process>
+  <bpmn:process id="Process_Client"><bpmn:serviceTask id="Task_Sign" /></bpmn:process>
+</bpmn:definitions>`;
+
+      const result = validateBpmn(xml, context());
+
+      expect(result.valid).toBe(true);
+      expect(codes(result.warnings)).toEqual([['unmatched_participant', 'Participant_Legal'], ['orchestrator_participant_missing', undefined]]);
+    });
+  });
+
+  describe('FlowRunner.validateBpmn', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const laned = (tasks: string) => bpmn(`    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Writer" name="Writer Agent"><bpmn:flowNodeRef>Task_Write</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+${tasks}`);
+
+    it('validates against the process and agents the runner would use', async () => {
+      const xml = laned(LINEAR);
+      const runtime = createTestRuntime([]);
+
+      const result = await runtime.runner.validateBpmn(xml, [workerAgent('agent-writer', 'Writer Agent')], orchestratorAgent(xml));
+
+      expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('reports tasks in lanes of no agent', async () => {
+      const xml = laned(LINEAR);
+      const runtime = createTestRuntime([]);
+
+      const result = await runtime.runner.validateBpmn(xml, [workerAgent('agent-editor', 'Editor Agent')], orchestratorAgent(xml));
+
+      expect(result.valid).toBe(false);
+      expect(codes(result.errors)).toEqual([['unmapped_task', 'Task_Write']]);
+    });
+  });
+});
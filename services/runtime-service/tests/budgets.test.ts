@@ -0,0 +1,379 @@
+/**
+ * Run Budget Tests
+ *
+ * Admission of new runs under concurrency limits, per-run and monthly limits counting a
+ * step's unrecorded calls, agents stopping before the provider call that would go over,
+ * limits that can't be read, and the wall-clock limit of runs making no provider calls.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { BudgetExceededError, BudgetGuard, BudgetUnavailableError } from '../src/engine/budgets';
+import { executeAgent, routeGateway, SpendCheck } from '../src/engine/agent-executor';
+import { parseTaskDataContracts } from '../src/engine/data-contracts';
+import { IntegrationTool } from '../src/engine/integration-tools';
+import { CompletionResponse, LLMCallUsage, LLMClient, LLMProvider } from '../src/providers';
+import { createTestRuntime, orchestratorAgent, workerAgent, FOUNDATION_ID, TENANT_ID } from './support/test-runtime';
+
+const RUN_ID = 'run-1';
+
+interface BudgetRow {
+  foundation_id?: string | null;
+  max_tokens_per_run?: number;
+  max_cost_per_run_usd?: number;
+  max_wall_clock_seconds?: number;
+  max_concurrent_runs?: number;
+  max_monthly_cost_usd?: number;
+}
+
+/**
+ * A pool answering budget queries. `client` records the admission transaction's queries;
+ * while `database.down` is set, reading run_budgets fails.
+ */
+function budgetPool(
+  budgets: BudgetRow[],
+  usage: { running?: number; tokens?: number; cost?: number; activeSeconds?: number; monthlyCost?: number } = {}
+) {
+  const poolQueries: string[] = [];
+  const clientQueries: string[] = [];
+  const database = { down: false };
+  const answer = (sql: string) => {
+    if (/FROM run_budgets/.test(sql)) {
+      if (database.down) throw new Error('Connection terminated unexpectedly');
+      return { rows: budgets.map(b => ({ foundation_id: null, ...b })) };
+    }
+    if (/COUNT\(\*\)::int AS count FROM flow_runs/.test(sql)) return { rows: [{ count: usage.running || 0 }] };
+    if (/AS active_seconds/.test(sql)) {
+      return { rows: [{ tokens: usage.tokens || 0, cost: usage.cost || 0, active_seconds: usage.activeSeconds ?? 1 }] };
+    }
+    if (/FROM llm_usage/.test(sql)) return { rows: [{ cost: usage.monthlyCost || 0 }] };
+    return { rows: [] };
+  };
+  const client = {
+    query: async (sql: string) => {
+      clientQueries.push(sql.trim());
+      return answer(sql);
+    },
+    release: jest.fn(),
+  };
+  const pool = {
+    query: async (sql: string) => {
+      poolQueries.push(sql.trim());
+      return answer(sql);
+    },
+    connect: async () => client,
+  } as unknown as Pool;
+  return { pool, client, poolQueries, clientQueries, database };
+}
+
+function call(promptTokens: number, completionTokens: number, costUsd: number | null = null): LLMCallUsage {
+  return { callType: 'agent', provider: 'openai', model: 'gpt-4o', promptTokens, completionTokens, images: 0, latencyMs: 1, costUsd };
+}
+
+/**
+ * A provider answering with the given responses in turn, each using 100 tokens.
+ */
+function scriptedClient(responses: Partial<CompletionResponse>[]): LLMClient & { requests: number } {
+  let requests = 0;
+  const provider: LLMProvider = {
+    name: 'openai',
+    defaultModel: 'gpt-4o',
+    supportsImages: false,
+    async complete() {
+      const response = responses[Math.min(requests++, responses.length - 1)];
+      return { text: '', model: 'gpt-4o', provider: 'openai', usage: { promptTokens: 60, completionTokens: 40 }, ...response };
+    },
+  };
+  const client = new LLMClient(provider, 'gpt-4o', { timeoutMs: 60000, maxRetries: 0 });
+  return Object.defineProperty(client, 'requests', { get: () => requests }) as LLMClient & { requests: number };
+}
+
+/**
+ * Allows `limit` tokens across the calls made so far.
+ */
+function tokenLimit(limit: number): SpendCheck & { checks: number } {
+  const check = Object.assign(async (pending: LLMCallUsage[]) => {
+    check.checks++;
+    const tokens = pending.reduce((sum, c) => sum + c.promptTokens + c.completionTokens, 0);
+    if (tokens >= limit) throw new BudgetExceededError('maxTokensPerRun', 'foundation', limit, tokens);
+  }, { checks: 0 });
+  return check;
+}
+
+describe('run budgets', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('BudgetGuard.admitRun', () => {
+    it('counts running runs and creates the run in one transaction under the tenant lock', async () => {
+      const { pool, client, clientQueries } = budgetPool([{ max_concurrent_runs: 3 }], { running: 2 });
+      const guard = new BudgetGuard(pool);
+      const create = jest.fn(async () => ({ id: RUN_ID }));
+
+      expect(await guard.admitRun(TENANT_ID, FOUNDATION_ID, create)).toEqual({ id: RUN_ID });
+      expect(create).toHaveBeenCalledWith(client);
+      expect(clientQueries[0]).toBe('BEGIN');
+      expect(clientQueries[1]).toMatch(/pg_advisory_xact_lock/);
+      expect(clientQueries[2]).toMatch(/COUNT\(\*\)::int AS count FROM flow_runs/);
+      expect(clientQueries[clientQueries.length - 1]).toBe('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('refuses the run at the limit and rolls back without creating it', async () => {
+      const { pool, client, clientQueries } = budgetPool([{ foundation_id: FOUNDATION_ID, max_concurrent_runs: 2 }], { running: 2 });
+      const guard = new BudgetGuard(pool);
+      const create = jest.fn(async () => ({ id: RUN_ID }));
+
+      const refusal = await guard.admitRun(TENANT_ID, FOUNDATION_ID, create).catch(err => err);
+
+      expect(refusal).toBeInstanceOf(BudgetExceededError);
+      expect(refusal).toEqual(expect.objectContaining({ limit: 'maxConcurrentRuns', scope: 'foundation', limitValue: 2, actual: 2 }));
+      expect(create).not.toHaveBeenCalled();
+      expect(clientQueries).toContain('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('takes no lock when no concurrency limit is set', async () => {
+      const { pool, clientQueries } = budgetPool([{ max_tokens_per_run: 1000 }]);
+      const guard = new BudgetGuard(pool);
+
+      await guard.admitRun(TENANT_ID, FOUNDATION_ID, async () => ({ id: RUN_ID }));
+
+      expect(clientQueries).toEqual(['BEGIN', 'COMMIT']);
+    });
+
+    it('refuses the run once the month\'s spend reaches the cap, before opening a transaction', async () => {
+      const { pool, clientQueries } = budgetPool([{ max_monthly_cost_usd: 50 }], { monthlyCost: 50 });
+      const guard = new BudgetGuard(pool);
+
+      await expect(guard.admitRun(TENANT_ID, FOUNDATION_ID, async () => ({ id: RUN_ID }))).rejects.toThrow(/monthly cost/);
+      expect(clientQueries).toEqual([]);
+    });
+  });
+
+  describe('BudgetGuard.checkRun', () => {
+    it('adds the step\'s unrecorded calls to the run\'s recorded usage', async () => {
+      const { pool } = budgetPool([{ max_tokens_per_run: 1000 }], { tokens: 800 });
+      const guard = new BudgetGuard(pool);
+
+      await expect(guard.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID, [call(100, 50)])).resolves.toBeUndefined();
+      await expect(guard.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID, [call(100, 50), call(30, 20)]))
+        .rejects.toEqual(expect.objectContaining({ limit: 'maxTokensPerRun', actual: 1000 }));
+    });
+
+    it('adds their cost to the run\'s cost and the month\'s spend', async () => {
+      const perRun = new BudgetGuard(budgetPool([{ max_cost_per_run_usd: 1 }], { cost: 0.75 }).pool);
+      await expect(perRun.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID, [call(1, 1, 0.25)]))
+        .rejects.toEqual(expect.objectContaining({ limit: 'maxCostPerRunUsd' }));
+
+      const monthly = new BudgetGuard(budgetPool([{ max_monthly_cost_usd: 10 }], { monthlyCost: 9.9 }).pool);
+      await expect(monthly.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID, [call(1, 1, 0.05)])).resolves.toBeUndefined();
+      await expect(monthly.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID, [call(1, 1, 0.1)]))
+        .rejects.toEqual(expect.objectContaining({ limit: 'maxMonthlyCostUsd', scope: 'tenant' }));
+    });
+
+    it('skips the usage queries when no limit applies', async () => {
+      const { pool, poolQueries } = budgetPool([]);
+      await new BudgetGuard(pool).checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID, [call(1e6, 1e6, 100)]);
+      expect(poolQueries.filter(sql => !/FROM run_budgets/.test(sql))).toEqual([]);
+    });
+  });
+
+  describe('unreadable budgets', () => {
+    it('refuses new runs when the limits can\'t be read', async () => {
+      const { pool, clientQueries, database } = budgetPool([{ max_concurrent_runs: 3 }]);
+      database.down = true;
+      const create = jest.fn(async () => ({ id: RUN_ID }));
+
+      const refusal = await new BudgetGuard(pool).admitRun(TENANT_ID, FOUNDATION_ID, create).catch(err => err);
+
+      expect(refusal).toBeInstanceOf(BudgetUnavailableError);
+      expect(refusal).toEqual(expect.objectContaining({
+        code: 'budget_unavailable', message: 'Run budgets could not be read: Connection terminated unexpectedly',
+      }));
+      expect(create).not.toHaveBeenCalled();
+      expect(clientQueries).toEqual([]);
+    });
+
+    it('keeps enforcing the last limits read', async () => {
+      const { pool, database } = budgetPool([{ max_tokens_per_run: 1000 }], { tokens: 1000 });
+      const guard = new BudgetGuard(pool);
+      await expect(guard.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID)).rejects.toBeInstanceOf(BudgetExceededError);
+
+      database.down = true;
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+
+      await expect(guard.checkRun(RUN_ID, TENANT_ID, FOUNDATION_ID))
+        .rejects.toEqual(expect.objectContaining({ limit: 'maxTokensPerRun', limitValue: 1000 }));
+      expect(console.error).toHaveBeenCalledWith(
+        '[budgets] Failed to load run budgets, enforcing the last ones read:', 'Connection terminated unexpectedly'
+      );
+    });
+  });
+
+  describe('BudgetGuard.wallClockRemaining', () => {
+    it('returns the active seconds left, and raises once they are used up', async () => {
+      const usage = { activeSeconds: 45 };
+      const guard = new BudgetGuard(budgetPool([{ max_wall_clock_seconds: 60 }], usage).pool);
+
+      await expect(guard.wallClockRemaining(RUN_ID, TENANT_ID, FOUNDATION_ID)).resolves.toBe(15);
+      usage.activeSeconds = 60;
+      await expect(guard.wallClockRemaining(RUN_ID, TENANT_ID, FOUNDATION_ID))
+        .rejects.toEqual(expect.objectContaining({ limit: 'maxWallClockSeconds', scope: 'tenant', limitValue: 60, actual: 60 }));
+    });
+
+    it('has nothing to watch without a limit', async () => {
+      const { pool, poolQueries } = budgetPool([{ max_tokens_per_run: 1000 }]);
+
+      await expect(new BudgetGuard(pool).wallClockRemaining(RUN_ID, TENANT_ID, FOUNDATION_ID)).resolves.toBeNull();
+      expect(poolQueries.filter(sql => !/FROM run_budgets/.test(sql))).toEqual([]);
+    });
+  });
+
+  describe('agent spend checks', () => {
+    const tools = {
+      definitions: [{ name: 'lookup', description: 'Look something up', parameters: { type: 'object', properties: {} } }],
+      invoke: async () => 'found it',
+    };
+
+    it('checks the budget before every provider call, with the calls made so far', async () => {
+      const llm = scriptedClient([
+        { toolCalls: [{ id: 'call-1', name: 'lookup', arguments: {} }] },
+        { text: 'Done' },
+      ]);
+      const pending: number[] = [];
+      const result = await executeAgent(llm, { name: 'Researcher' }, { topic: 'x' }, undefined, undefined, tools, async calls => {
+        pending.push(calls.length);
+      });
+
+      expect(result.success).toBe(true);
+      expect(pending).toEqual([0, 1]);
+    });
+
+    it('stops a tool loop before the round that would go over', async () => {
+      const llm = scriptedClient([{ toolCalls: [{ id: 'call-1', name: 'lookup', arguments: {} }] }]);
+      const check = tokenLimit(100);
+
+      const result = await executeAgent(llm, { name: 'Researcher' }, { topic: 'x' }, undefined, undefined, tools, check);
+
+      expect(result.success).toBe(false);
+      expect(result.budgetExceeded).toBeInstanceOf(BudgetExceededError);
+      expect(result.error).toMatch(/max tokens per run/);
+      expect(llm.requests).toBe(1);
+      // The call already made is still reported, so it gets recorded
+      expect(result.usage).toHaveLength(1);
+    });
+
+    it('stops contract repair attempts before the call that would go over', async () => {
+      const [contract] = [...parseTaskDataContracts(`
+        <bpmn:serviceTask id="Task_Score" name="Score">
+          <bpmn:documentation>Output: { score: number }</bpmn:documentation>
+        </bpmn:serviceTask>`).values()];
+      const llm = scriptedClient([{ text: '```json\n{"score": "high"}\n```' }]);
+
+      const result = await executeAgent(llm, { name: 'Scorer' }, undefined, {
+        taskName: 'Score', scopedInput: {}, flowSummary: '', originalRequest: 'Score it', outputKeys: ['score'], contract,
+      }, undefined, undefined, tokenLimit(200));
+
+      expect(result.budgetExceeded).toBeDefined();
+      expect(llm.requests).toBe(2);
+    });
+
+    it('stops gateway routing before its call', async () => {
+      const llm = scriptedClient([{ text: '1' }]);
+      const refuse: SpendCheck = async () => { throw new BudgetExceededError('maxCostPerRunUsd', 'tenant', 1, 1); };
+
+      await expect(routeGateway(llm, 'Approved?', [{ id: 'Flow_Yes', name: 'yes' }, { id: 'Flow_No', name: 'no' }], '', refuse))
+        .rejects.toBeInstanceOf(BudgetExceededError);
+      expect(llm.requests).toBe(0);
+    });
+  });
+
+  describe('FlowRunner', () => {
+    it('fails the run at the first task after its budget is used up', async () => {
+      const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Definitions_1" targetNamespace="http://bpmn.io/schema/bpmn">
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet_1">
+      <bpmn:lane id="Lane_Worker" name="Worker Agent">
+        <bpmn:flowNodeRef>Task_First</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Task_Second</bpmn:flowNodeRef>
+      </bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_First" name="First" />
+    <bpmn:serviceTask id="Task_Second" name="Second" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_First" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_First" targetRef="Task_Second" />
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Task_Second" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), workerAgent('agent-worker', 'Worker Agent')], {
+        rows: [
+          [/FROM run_budgets/, () => [{ foundation_id: FOUNDATION_ID, max_tokens_per_run: 1 }]],
+          [/AS active_seconds/, () => [{
+            tokens: runtime.usage.flatMap(u => u.calls).reduce((sum, c) => sum + c.promptTokens + c.completionTokens, 0),
+            cost: 0,
+            active_seconds: 1,
+          }]],
+        ],
+      });
+
+      const run = await runtime.run({ request: 'Do two things' });
+
+      expect(run.status).toBe('failed');
+      expect(run.error).toMatch(/foundation max tokens per run is 1/);
+      expect(runtime.steps.find(s => s.step_key === 'Task_First')!.status).toBe('completed');
+      const second = runtime.steps.find(s => s.step_key === 'Task_Second')!;
+      expect(second.status).toBe('failed');
+      expect(second.output_data.budget).toEqual(expect.objectContaining({ limit: 'maxTokensPerRun', scope: 'foundation' }));
+    });
+
+    it('fails a run stuck in a tool call once its wall-clock time is up', async () => {
+      const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Definitions_1" targetNamespace="http://bpmn.io/schema/bpmn">
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet_1">
+      <bpmn:lane id="Lane_Worker" name="Worker Agent"><bpmn:flowNodeRef>Task_Export</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Export" name="Export with warehouse_export" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_Export" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Export" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+      const exportTool: IntegrationTool = {
+        name: 'warehouse_export', description: 'Export to the warehouse', parameters: { type: 'object', properties: {} }, integration: 'warehouse',
+      };
+      const startedAt = Date.now();
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), workerAgent('agent-worker', 'Worker Agent')], {
+        rows: [
+          [/FROM run_budgets/, () => [{ foundation_id: FOUNDATION_ID, max_wall_clock_seconds: 1 }]],
+          [/AS active_seconds/, () => [{ tokens: 0, cost: 0, active_seconds: (Date.now() - startedAt) / 1000 }]],
+        ],
+        tools: {
+          listTools: async (tenantId, agentId) => agentId === 'agent-worker' ? [exportTool] : [],
+          // Never answers
+          invoke: () => new Promise(() => undefined),
+        },
+      });
+
+      const run = await runtime.run({ request: 'Export everything' });
+
+      expect(run.status).toBe('failed');
+      expect(run.error).toMatch(/foundation max wall-clock seconds per run is 1/);
+      expect(runtime.steps.filter(s => ['Task_Export', 'Task_Export/warehouse_export'].includes(s.step_key)).map(s => s.status))
+        .toEqual(['failed', 'failed']);
+      expect(runtime.steps.some(s => s.status === 'running')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Catch Event Tests
+ *
+ * Timer and message intermediate catch events: parsing their definitions, when timers are
+ * due, the TimerScheduler firing them, and runs pausing until a timer fires or a message
+ * correlated on its key is delivered.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import {
+  addDuration, parseTimerCatchEvents, replaceTimerDefinitions, resolveTimerValue, timerDueAt, validateTimerDefinition,
+} from '../src/engine/timer-events';
+import { TimerScheduler } from '../src/engine/timer-scheduler';
+import { MessageCorrelationError, messageOutput, parseMessageCatchEvents, resolveCorrelationKey } from '../src/engine/message-events';
+import { MessageSubscription, RunTimer } from '../src/engine/state-manager';
+import { FlowRunner } from '../src/engine/flow-runner';
+import { RunSnapshot } from '../src/engine/run-snapshot';
+import { createTestRuntime, orchestratorAgent, workerAgent, TENANT_ID, FOUNDATION_ID } from './support/test-runtime';
+
+const FROM = new Date('2026-03-02T10:00:00Z');
+
+const DEFINITIONS = 'xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:camunda="http://camunda.org/schema/1.0/bpmn" id="Defs" targetNamespace="http://flowgrid.test"';
+
+describe('timer catch events', () => {
+  it('parses duration, date and cycle timers, skipping other catch events', () => {
+    const timers = parseTimerCatchEvents(`
+      <bpmn:intermediateCatchEvent id="Wait_Cooldown" name="Wait 2 days">
+        <bpmn:timerEventDefinition id="Def_1"><bpmn:timeDuration xsi:type="bpmn:tFormalExpression"> P2D </bpmn:timeDuration></bpmn:timerEventDefinition>
+      </bpmn:intermediateCatchEvent>
+      <bpmn:intermediateCatchEvent id="Wait_Launch"><bpmn:timerEventDefinition><bpmn:timeDate>\${launchAt}</bpmn:timeDate></bpmn:timerEventDefinition></bpmn:intermediateCatchEvent>
+      <bpmn:intermediateCatchEvent id="Wait_Daily"><bpmn:timerEventDefinition><bpmn:timeCycle>R/2026-03-02T09:00:00Z/P1D</bpmn:timeCycle></bpmn:timerEventDefinition></bpmn:intermediateCatchEvent>
+      <bpmn:intermediateCatchEvent id="Wait_Message"><bpmn:messageEventDefinition /></bpmn:intermediateCatchEvent>
+      <bpmn:intermediateCatchEvent id="Wait_Empty" />`);
+
+    expect([...timers]).toEqual([
+      ['Wait_Cooldown', { type: 'duration', value: 'P2D' }],
+      ['Wait_Launch', { type: 'date', value: '${launchAt}' }],
+      ['Wait_Daily', { type: 'cycle', value: 'R/2026-03-02T09:00:00Z/P1D' }],
+    ]);
+  });
+
+  it('resolves ${variable} values against the run', () => {
+    expect(resolveTimerValue('PT5M', {})).toBe('PT5M');
+    expect(resolveTimerValue('${launch.at}', { launch: { at: new Date('2026-04-01T00:00:00Z') } })).toBe('2026-04-01T00:00:00.000Z');
+    expect(() => resolveTimerValue('${cooldown}', { cooldown: '' })).toThrow('Timer variable "cooldown" is not set');
+  });
+
+  it('adds durations, with years and months as calendar units', () => {
+    expect(addDuration(FROM, 'PT1H30M')).toEqual(new Date('2026-03-02T11:30:00Z'));
+    expect(addDuration(FROM, 'P1W2DT0.5S')).toEqual(new Date('2026-03-11T10:00:00.500Z'));
+    expect(addDuration(new Date('2026-01-31T00:00:00Z'), 'P1M')).toEqual(new Date('2026-03-03T00:00:00Z'));
+    expect(() => addDuration(FROM, 'PT')).toThrow('"PT" is not an ISO 8601 duration');
+    expect(() => addDuration(FROM, 'P0D')).toThrow('Duration "P0D" must be longer than zero');
+  });
+
+  it('fires cycles at their next occurrence', () => {
+    expect(timerDueAt({ type: 'cycle', value: 'R/2026-03-02T09:00:00Z/P1D' }, FROM)).toEqual(new Date('2026-03-03T09:00:00Z'));
+    expect(timerDueAt({ type: 'cycle', value: 'R3/PT10M' }, FROM)).toEqual(new Date('2026-03-02T10:10:00Z'));
+    expect(timerDueAt({ type: 'cycle', value: 'R/PT1H/2026-03-02T10:30:00Z' }, FROM)).toEqual(FROM);
+    // Every repetition is past: fire right away
+    expect(timerDueAt({ type: 'cycle', value: 'R2/2026-03-01T00:00:00Z/PT1H' }, FROM)).toEqual(FROM);
+  });
+
+  it('validates definitions, leaving variables to be checked when reached', () => {
+    expect(validateTimerDefinition({ type: 'date', value: '2026-05-01T09:00:00Z' })).toBeNull();
+    expect(validateTimerDefinition({ type: 'date', value: '${launchAt}' })).toBeNull();
+    expect(validateTimerDefinition({ type: 'date', value: 'tomorrow' })).toBe('"tomorrow" is not an ISO 8601 date-time');
+    expect(validateTimerDefinition({ type: 'cycle', value: 'R0/PT1H' })).toBe('Cycle "R0/PT1H" never repeats');
+    expect(validateTimerDefinition({ type: 'cycle', value: 'every hour' })).toBe('"every hour" is not an ISO 8601 repeating interval');
+  });
+
+  it('swaps timer definitions for a plain wait in the executable process', () => {
+    const xml = `<bpmn:intermediateCatchEvent id="Wait_A"><bpmn:timerEventDefinition id="Def_A"><bpmn:timeDuration>PT1M</bpmn:timeDuration></bpmn:timerEventDefinition></bpmn:intermediateCatchEvent>
+<bpmn:intermediateCatchEvent id="Wait_B"><bpmn:timerEventDefinition><bpmn:timeDuration>PT1M</bpmn:timeDuration></bpmn:timerEventDefinition></bpmn:intermediateCatchEvent>`;
+    const replaced = replaceTimerDefinitions(xml, new Map([['Wait_A', { type: 'duration', value: 'PT1M' }]]));
+    expect(replaced).toContain('<bpmn:intermediateCatchEvent id="Wait_A"><bpmn:messageEventDefinition id="Def_A"/></bpmn:intermediateCatchEvent>');
+    expect(replaced).toContain('<bpmn:intermediateCatchEvent id="Wait_B"><bpmn:timerEventDefinition>');
+  });
+});
+
+describe('message catch events', () => {
+  it('names messages by their definition, else by the event', () => {
+    const xml = `<bpmn:definitions>
+      <bpmn:message id="Message_Merged" name="github.pull_request.closed" />
+      <bpmn:process id="P">
+        <bpmn:intermediateCatchEvent id="Wait_Merge">
+          <bpmn:extensionElements><camunda:properties><camunda:property name="message.correlationKey" value="\${prNumber}" /></camunda:properties></bpmn:extensionElements>
+          <bpmn:messageEventDefinition messageRef="Message_Merged" />
+        </bpmn:intermediateCatchEvent>
+        <bpmn:intermediateCatchEvent id="Wait_Signed" name="contract.signed"><bpmn:messageEventDefinition /></bpmn:intermediateCatchEvent>
+        <bpmn:intermediateCatchEvent id="Wait_Timer"><bpmn:timerEventDefinition /></bpmn:intermediateCatchEvent>
+      </bpmn:process>
+    </bpmn:definitions>`;
+
+    expect([...parseMessageCatchEvents(xml, xml)]).toEqual([
+      ['Wait_Merge', { messageName: 'github.pull_request.closed', correlationKey: '${prNumber}' }],
+      ['Wait_Signed', { messageName: 'contract.signed' }],
+    ]);
+  });
+
+  it('correlates on the event\'s key, falling back to the run\'s business key', () => {
+    expect(resolveCorrelationKey({ messageName: 'm', correlationKey: '${order.id}' }, { order: { id: 42 } }, 'BK-1')).toBe('42');
+    expect(resolveCorrelationKey({ messageName: 'm', correlationKey: '${order.id}' }, {}, 'BK-1')).toBeNull();
+    expect(resolveCorrelationKey({ messageName: 'm', correlationKey: 'fixed' }, {})).toBe('fixed');
+    expect(resolveCorrelationKey({ messageName: 'm' }, {}, 'BK-1')).toBe('BK-1');
+    expect(resolveCorrelationKey({ messageName: 'm' }, {})).toBeNull();
+  });
+
+  it('passes object payloads on as they are, and anything else under value', () => {
+    expect(messageOutput({ merged: true })).toEqual({ merged: true });
+    expect(messageOutput([1, 2])).toEqual({ value: [1, 2] });
+    expect(messageOutput('ok')).toEqual({ value: 'ok' });
+  });
+});
+
+describe('TimerScheduler', () => {
+  function timerRow(id: string): RunTimer {
+    return {
+      id, tenant_id: TENANT_ID, run_id: 'run-1', step_id: `step-${id}`, element_id: 'Wait', timer_type: 'duration',
+      timer_value: 'PT1M', due_at: new Date(Date.now() - 1000), status: 'fired', created_at: new Date(),
+    };
+  }
+
+  /**
+   * A pool with `due` timers; claims fail for timers in `claimed` (fired by another instance).
+   */
+  function timerPool(due: string[], claimed = new Set<string>()) {
+    const queries: { sql: string; params: any[] }[] = [];
+    const pool = {
+      query: async (sql: string, params: any[] = []) => {
+        queries.push({ sql, params });
+        if (/SELECT id FROM run_timers/.test(sql)) return { rows: due.map(id => ({ id })) };
+        if (/SET status = 'fired'/.test(sql)) return { rows: claimed.has(params[0]) ? [] : [timerRow(params[0])] };
+        return { rows: [] };
+      },
+    } as unknown as Pool;
+    const statuses = () => queries
+      .filter(q => /^UPDATE run_timers SET status = '(cancelled|failed)'/.test(q.sql))
+      .map(q => [q.params[0], q.sql.match(/status = '(\w+)'/)![1]]);
+    return { pool, queries, statuses };
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('claims due timers and releases the steps waiting for them', async () => {
+    const { pool, statuses } = timerPool(['t1', 't2', 't3'], new Set(['t2']));
+    const onDue = jest.fn(async (_timer: RunTimer) => true);
+
+    expect(await new TimerScheduler(pool, onDue).tick()).toEqual({ fired: 2 });
+    expect(onDue.mock.calls.map(([timer]) => timer.id)).toEqual(['t1', 't3']);
+    expect(statuses()).toEqual([]);
+  });
+
+  it('cancels timers whose run no longer waits, and fails those that cannot be released', async () => {
+    const { pool, statuses } = timerPool(['t1', 't2']);
+    const onDue = jest.fn(async (timer: RunTimer) => {
+      if (timer.id === 't2') throw new Error('engine gone');
+      return false;
+    });
+
+    expect(await new TimerScheduler(pool, onDue).tick()).toEqual({ fired: 0 });
+    expect(statuses()).toEqual([['t1', 'cancelled'], ['t2', 'failed']]);
+  });
+
+  it('fires timers due before the next tick in memory', async () => {
+    jest.useFakeTimers();
+    const { pool } = timerPool([]);
+    const onDue = jest.fn(async (_timer: RunTimer) => true);
+    const scheduler = new TimerScheduler(pool, onDue);
+    scheduler.start(30000);
+
+    scheduler.track({ ...timerRow('soon'), due_at: new Date(Date.now() + 5000) });
+    scheduler.track({ ...timerRow('later'), due_at: new Date(Date.now() + 60000) });
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(onDue.mock.calls.map(([timer]) => timer.id)).toEqual(['soon']);
+    scheduler.stop();
+  });
+});
+
+describe('runs waiting at catch events', () => {
+  const bpmn = (catchEvent: string, messages = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions ${DEFINITIONS}>
+  ${messages}
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Writer" name="Writer Agent"><bpmn:flowNodeRef>Task_Notify</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    ${catchEvent}
+    <bpmn:serviceTask id="Task_Notify" name="Notify Customer" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Wait" />
+    <bpmn:sequenceFlow id="Flow_Wait" sourceRef="Wait" targetRef="Task_Notify" />
+    <bpmn:sequenceFlow id="Flow_Notify" sourceRef="Task_Notify" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+  const MESSAGE_BPMN = bpmn(`
+    <bpmn:intermediateCatchEvent id="Wait" name="Wait for shipment">
+      <bpmn:extensionElements><camunda:properties><camunda:property name="message.correlationKey" value="\${orderId}" /></camunda:properties></bpmn:extensionElements>
+      <bpmn:messageEventDefinition messageRef="Message_Shipped" />
+    </bpmn:intermediateCatchEvent>`, '<bpmn:message id="Message_Shipped" name="order.shipped" />');
+
+  const TIMER_BPMN = bpmn(`
+    <bpmn:intermediateCatchEvent id="Wait" name="Cool down">
+      <bpmn:timerEventDefinition><bpmn:timeDuration>\${cooldown}</bpmn:timeDuration></bpmn:timerEventDefinition>
+    </bpmn:intermediateCatchEvent>`);
+
+  /**
+   * A test runtime keeping message subscriptions and timers in memory.
+   */
+  function waitingRuntime(xml: string) {
+    const runtime = createTestRuntime([orchestratorAgent(xml), workerAgent('agent-writer', 'Writer Agent')]);
+    const subscriptions: MessageSubscription[] = [];
+    const timers: RunTimer[] = [];
+    const setStatus = (stepId: string, status: string) => {
+      runtime.steps.find(s => s.id === stepId)!.status = status;
+    };
+    Object.assign(runtime.runner.getStateManager(), {
+      createMessageSubscription: async (tenantId: string, runId: string, stepId: string, foundationId: string, elementId: string, messageName: string, correlationKey?: string | null) => {
+        const subscription = {
+          id: `sub-${subscriptions.length + 1}`, tenant_id: tenantId, run_id: runId, step_id: stepId, foundation_id: foundationId,
+          element_id: elementId, message_name: messageName, correlation_key: correlationKey || null, status: 'waiting', created_at: new Date(),
+        } as MessageSubscription;
+        subscriptions.push(subscription);
+        setStatus(stepId, 'waiting_message');
+        return subscription;
+      },
+      findMessageSubscriptions: async (tenantId: string, messageName: string, target: { correlationKey?: string } = {}) =>
+        subscriptions.filter(s => s.tenant_id === tenantId && s.message_name === messageName && s.status === 'waiting'
+          && (!target.correlationKey || s.correlation_key === target.correlationKey)),
+      claimMessageSubscription: async (id: string) => {
+        const subscription = subscriptions.find(s => s.id === id && s.status === 'waiting');
+        if (subscription) subscription.status = 'delivered';
+        return subscription || null;
+      },
+      createRunTimer: async (tenantId: string, runId: string, stepId: string, elementId: string, timerType: any, timerValue: string, dueAt: Date) => {
+        const timer = {
+          id: `timer-${timers.length + 1}`, tenant_id: tenantId, run_id: runId, step_id: stepId, element_id: elementId,
+          timer_type: timerType, timer_value: timerValue, due_at: dueAt, status: 'scheduled', created_at: new Date(),
+        } as RunTimer;
+        timers.push(timer);
+        setStatus(stepId, 'waiting_timer');
+        return timer;
+      },
+      cancelMessageSubscriptions: async (runId: string) => {
+        subscriptions.filter(s => s.run_id === runId && s.status === 'waiting').forEach(s => { s.status = 'cancelled'; });
+      },
+      cancelRunTimers: async (runId: string) => {
+        timers.filter(t => t.run_id === runId && t.status === 'scheduled').forEach(t => { t.status = 'cancelled'; });
+      },
+    });
+    return { ...runtime, subscriptions, timers };
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for the run');
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('waits for a message correlated on its key and hands the payload to later tasks', async () => {
+    const runtime = waitingRuntime(MESSAGE_BPMN);
+    const finished = runtime.run({ request: 'Tell the customer when it ships', orderId: 'A-1001' });
+    await waitFor(() => runtime.subscriptions.length === 1);
+
+    expect(runtime.subscriptions[0]).toEqual(expect.objectContaining({ message_name: 'order.shipped', correlation_key: 'A-1001', foundation_id: FOUNDATION_ID }));
+    expect([...runtime.runs.values()][0].status).toBe('paused');
+
+    expect(await runtime.runner.deliverMessage(TENANT_ID, 'order.shipped', { correlationKey: 'A-9999' }, {}, 'user-1')).toBeNull();
+    const delivered = await runtime.runner.deliverMessage(TENANT_ID, 'order.shipped', { correlationKey: 'A-1001' }, { carrier: 'DHL' }, 'webhook:ep-1');
+    expect(delivered).toEqual({ runId: 'run-1', stepId: runtime.subscriptions[0].step_id, elementId: 'Wait' });
+    expect((await finished).status).toBe('completed');
+
+    const wait = runtime.steps.find(s => s.step_key === 'Wait')!;
+    expect(wait.output_data.message).toEqual(expect.objectContaining({ name: 'order.shipped', payload: { carrier: 'DHL' }, source: 'webhook:ep-1' }));
+    const notify = runtime.steps.find(s => s.step_key === 'Task_Notify')!;
+    expect(notify.input_data._message).toEqual({ name: 'order.shipped', payload: { carrier: 'DHL' } });
+
+    // Delivered once: the subscription is no longer waiting
+    expect(await runtime.runner.deliverMessage(TENANT_ID, 'order.shipped', { correlationKey: 'A-1001' }, {}, 'user-1')).toBeNull();
+  });
+
+  it('refuses a message that matches more than one waiting event', async () => {
+    const runtime = waitingRuntime(MESSAGE_BPMN);
+    const first = runtime.run({ request: 'First order', orderId: 'A-1' });
+    const second = runtime.run({ request: 'Second order', orderId: 'A-2' });
+    await waitFor(() => runtime.subscriptions.length === 2);
+
+    await expect(runtime.runner.deliverMessage(TENANT_ID, 'order.shipped', {}, {}, 'user-1')).rejects.toThrow(MessageCorrelationError);
+
+    await runtime.runner.deliverMessage(TENANT_ID, 'order.shipped', { correlationKey: 'A-1' }, {}, 'user-1');
+    await runtime.runner.deliverMessage(TENANT_ID, 'order.shipped', { correlationKey: 'A-2' }, {}, 'user-1');
+    await Promise.all([first, second]);
+  });
+
+  it('pauses on a timer until it fires', async () => {
+    const runtime = waitingRuntime(TIMER_BPMN);
+    const startedAt = Date.now();
+    const finished = runtime.run({ request: 'Follow up later', cooldown: 'P2D' });
+    await waitFor(() => runtime.timers.length === 1);
+
+    const [timer] = runtime.timers;
+    expect(timer).toEqual(expect.objectContaining({ element_id: 'Wait', timer_type: 'duration', timer_value: 'P2D' }));
+    expect(timer.due_at.getTime() - startedAt).toBeGreaterThanOrEqual(2 * 24 * 60 * 60000);
+    expect(runtime.steps.find(s => s.step_key === 'Task_Notify')).toBeUndefined();
+
+    expect(await runtime.runner.fireTimer(timer)).toBe(true);
+    expect((await finished).status).toBe('completed');
+    expect(runtime.steps.find(s => s.step_key === 'Wait')!.status).toBe('completed');
+    expect(await runtime.runner.fireTimer(timer)).toBe(false);
+  });
+
+  it('fires a timer on another instance by recovering the run', async () => {
+    const runtime = waitingRuntime(TIMER_BPMN);
+    let snapshot: RunSnapshot | null = null;
+    Object.assign(runtime.runner.getStateManager(), {
+      claimRun: async () => undefined,
+      saveSnapshot: async (runId: string, engineState: any, runnerState: any) => {
+        if (runtime.timers.length === 0) return;
+        snapshot = { run_id: runId, tenant_id: TENANT_ID, bpmn_xml: TIMER_BPMN, engine_state: engineState, runner_state: runnerState, updated_at: new Date() };
+      },
+      getSnapshot: async () => snapshot,
+    });
+    await runtime.runner.startRun(TENANT_ID, FOUNDATION_ID, { request: 'Follow up later', cooldown: 'P2D' });
+    await waitFor(() => snapshot !== null);
+
+    // The instance running it is gone: the timer fires on one with no engine for the run, which
+    // recovers it from the snapshot and releases the catch event its engine is waiting at again
+    const restarted = new FlowRunner(runtime.pool, { listTools: async () => [], invoke: async () => { throw new Error('No tools'); } });
+    Object.assign(restarted.getStateManager(), runtime.runner.getStateManager());
+    const finished = new Promise(resolve => restarted.once('run.complete', resolve));
+
+    expect(await restarted.fireTimer(runtime.timers[0])).toBe(true);
+    await finished;
+    expect(runtime.runs.get('run-1')!.status).toBe('completed');
+    expect(runtime.steps.find(s => s.step_key === 'Wait')!.status).toBe('completed');
+    expect(runtime.steps.find(s => s.step_key === 'Task_Notify')!.status).toBe('completed');
+  });
+
+  it('fails the run when its timer value is invalid', async () => {
+    const runtime = waitingRuntime(TIMER_BPMN);
+
+    const run = await runtime.run({ request: 'Follow up later', cooldown: 'two days' });
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Could not schedule the timer of "Cool down": "two days" is not an ISO 8601 duration');
+    expect(runtime.timers).toEqual([]);
+  });
+
+  it('stops waiting when the engine fails the run', async () => {
+    // One branch waits on the timer; the other fails the engine on its unsupported script
+    const runtime = waitingRuntime(`<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions ${DEFINITIONS}>
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Writer" name="Writer Agent"><bpmn:flowNodeRef>Task_Notify</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:parallelGateway id="Fork" />
+    <bpmn:intermediateCatchEvent id="Wait" name="Cool down">
+      <bpmn:timerEventDefinition><bpmn:timeDuration>P2D</bpmn:timeDuration></bpmn:timerEventDefinition>
+    </bpmn:intermediateCatchEvent>
+    <bpmn:serviceTask id="Task_Notify" name="Notify Customer" />
+    <bpmn:scriptTask id="Script" name="Tally" scriptFormat="python"><bpmn:script>print(1)</bpmn:script></bpmn:scriptTask>
+    <bpmn:endEvent id="End_Wait" />
+    <bpmn:endEvent id="End_Script" />
+    <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Fork" />
+    <bpmn:sequenceFlow id="Flow_Wait" sourceRef="Fork" targetRef="Wait" />
+    <bpmn:sequenceFlow id="Flow_Notify" sourceRef="Fork" targetRef="Task_Notify" />
+    <bpmn:sequenceFlow id="Flow_WaitDone" sourceRef="Wait" targetRef="End_Wait" />
+    <bpmn:sequenceFlow id="Flow_Script" sourceRef="Task_Notify" targetRef="Script" />
+    <bpmn:sequenceFlow id="Flow_ScriptDone" sourceRef="Script" targetRef="End_Script" />
+  </bpmn:process>
+</bpmn:definitions>`);
+
+    const run = await runtime.run({ request: 'Tally up later' });
+
+    expect(run.status).toBe('failed');
+    expect(runtime.steps.find(s => s.step_key === 'Task_Notify')!.status).toBe('completed');
+    expect(runtime.timers.map(t => t.status)).toEqual(['cancelled']);
+    expect(await runtime.runner.fireTimer(runtime.timers[0])).toBe(false);
+  });
+});
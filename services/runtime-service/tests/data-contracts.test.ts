@@ -0,0 +1,283 @@
+/**
+ * Data Contract Tests
+ *
+ * Compiling the Input/Output field syntax in task documentation to JSON Schema, validating
+ * and coercing values against it, scoping task inputs and extracting task outputs, and the
+ * forms reviewers fill in at human tasks.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  ContractSyntaxError, compileFieldBlock, describeSchemaFields, exampleFromSchema, extractFieldBlock, validateAgainstSchema,
+} from '../src/engine/contract-schema';
+import {
+  FlowState, TaskDataContract, buildConditionScope, buildScopedInput, buildTaskForm, extractStructuredOutput, mergeBranchOutputs,
+  parseTaskDataContracts, validateFormSubmission, validateStructuredOutput,
+} from '../src/engine/data-contracts';
+
+function contract(inputBlock: string, outputBlock: string): TaskDataContract {
+  const inputSchema = compileFieldBlock(inputBlock);
+  const outputSchema = compileFieldBlock(outputBlock);
+  return {
+    inputKeys: Object.keys(inputSchema.properties!), outputKeys: Object.keys(outputSchema.properties!),
+    inputSchema, outputSchema, agentName: '', skillName: '',
+  };
+}
+
+describe('data contracts', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('compileFieldBlock', () => {
+    it('compiles types, optional fields, arrays, nested objects and enums', () => {
+      expect(compileFieldBlock(`{
+        name: string, age?: int; tags: string[], scores: array<number>,
+        budget: { amount: number, currency?: text },
+        status: "approved" | 'rejected'
+      }`)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'integer' },
+          tags: { type: 'array', items: { type: 'string' } },
+          scores: { type: 'array', items: { type: 'number' } },
+          budget: { type: 'object', properties: { amount: { type: 'number' }, currency: { type: 'string' } }, required: ['amount'] },
+          status: { type: 'string', enum: ['approved', 'rejected'] },
+        },
+        required: ['name', 'tags', 'scores', 'budget', 'status'],
+      });
+    });
+
+    it('keeps string formats, accepts anything for any, and describes unknown types', () => {
+      expect(compileFieldBlock('{ due: date, site: url, quote: file, extra: any, thing: Widget, grid: int[][] }').properties).toEqual({
+        due: { type: 'string', format: 'date' },
+        site: { type: 'string', format: 'uri' },
+        quote: { type: 'string', format: 'file' },
+        extra: {},
+        thing: { description: 'widget' },
+        grid: { type: 'array', items: { type: 'array', items: { type: 'integer' } } },
+      });
+    });
+
+    it('reports syntax errors with their position', () => {
+      expect(() => compileFieldBlock('{ name string }')).toThrow(new ContractSyntaxError('Expected ":"', 7));
+      expect(() => compileFieldBlock('{ a: string b: number }')).toThrow(/Expected "," or "}" after field "a"/);
+      expect(() => compileFieldBlock('{ status: "open | closed }')).toThrow(/Unterminated string/);
+      expect(() => compileFieldBlock('{ a: string } trailing')).toThrow(/Unexpected text after "}"/);
+    });
+  });
+
+  describe('extractFieldBlock', () => {
+    it('takes the balanced block after the label, ignoring braces in quotes', () => {
+      const doc = 'Agent: Writer\nInput: { brief: { topic: string }, mark: "}" }\nOutput: { draft: string }';
+      expect(extractFieldBlock(doc, 'Input')).toBe('{ brief: { topic: string }, mark: "}" }');
+      expect(extractFieldBlock(doc, 'output')).toBe('{ draft: string }');
+      expect(extractFieldBlock(doc, 'Form')).toBeNull();
+      expect(extractFieldBlock('Input: { unclosed: string', 'Input')).toBeNull();
+    });
+  });
+
+  describe('validateAgainstSchema', () => {
+    const schema = compileFieldBlock('{ name: string, count: integer, ok?: boolean, tags?: string[], budget?: { amount: number }, status?: "open" | "closed" }');
+
+    it('coerces unambiguous scalar strings to their declared types', () => {
+      const { value, errors } = validateAgainstSchema({ name: 'A', count: ' 42 ', ok: 'TRUE', budget: { amount: '9.5' } }, schema);
+      expect(errors).toEqual([]);
+      expect(value).toEqual({ name: 'A', count: 42, ok: true, budget: { amount: 9.5 } });
+    });
+
+    it('lists missing, mistyped and out-of-enum fields by path', () => {
+      const { errors } = validateAgainstSchema({ count: 1.5, tags: ['a', 3], budget: { amount: 'lots' }, status: 'pending' }, schema);
+      expect(errors).toEqual([
+        { path: 'name', code: 'missing', message: 'name is required' },
+        { path: 'count', code: 'type', message: 'count must be an integer, got number 1.5' },
+        { path: 'tags[1]', code: 'type', message: 'tags[1] must be a string, got number 3' },
+        { path: 'budget.amount', code: 'type', message: 'budget.amount must be a number, got string "lots"' },
+        { path: 'status', code: 'enum', message: 'status must be one of: "open", "closed"' },
+      ]);
+    });
+
+    it('treats null as missing and rejects a value of the wrong shape outright', () => {
+      expect(validateAgainstSchema({ name: null, count: 1 }, schema).errors.map(e => e.code)).toEqual(['missing']);
+      expect(validateAgainstSchema([], schema).errors).toEqual([
+        { path: 'value', code: 'type', message: 'value must be an object, got an array' },
+      ]);
+    });
+  });
+
+  describe('prompt helpers', () => {
+    const schema = compileFieldBlock('{ title: string, score?: number, done: boolean, tags: string[], tone: "formal" | "casual", meta: { author: string } }');
+
+    it('builds an example value shaped like the schema', () => {
+      expect(exampleFromSchema(schema)).toEqual({ title: '...', score: 0, done: false, tags: [], tone: 'formal', meta: { author: '...' } });
+    });
+
+    it('describes each field, including nested ones', () => {
+      expect(describeSchemaFields(schema)).toEqual([
+        '- title (string, required)',
+        '- score (number, optional)',
+        '- done (boolean, required)',
+        '- tags (array of string, required)',
+        '- tone (one of "formal" | "casual", required)',
+        '- meta (object, required)',
+        '- meta.author (string, required)',
+      ]);
+    });
+  });
+
+  describe('parseTaskDataContracts', () => {
+    it('compiles the contracts in task documentation, unescaping XML', () => {
+      const contracts = parseTaskDataContracts(`
+        <bpmn:serviceTask id="Task_Review" name="Review">
+          <bpmn:documentation>Agent: Review Agent
+Skill: review
+Input: { draft: string }
+Output: { verdict: &quot;accept&quot; | &quot;revise&quot;, notes?: string }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:task id="Task_Plain" />
+        <bpmn:task id="Task_Undocumented"></bpmn:task>`);
+
+      expect([...contracts.keys()]).toEqual(['Task_Review']);
+      expect(contracts.get('Task_Review')).toEqual(expect.objectContaining({
+        agentName: 'Review Agent', skillName: 'review', inputKeys: ['draft'], outputKeys: ['verdict', 'notes'],
+      }));
+      expect(contracts.get('Task_Review')!.outputSchema.properties!.verdict).toEqual({ type: 'string', enum: ['accept', 'revise'] });
+    });
+
+    it('does not give a self-closing task the documentation of the next one', () => {
+      const contracts = parseTaskDataContracts(`
+        <bpmn:serviceTask id="Task_A" name="A" />
+        <bpmn:serviceTask id="Task_B" name="B"><bpmn:documentation>Output: { b: string }</bpmn:documentation></bpmn:serviceTask>`);
+      expect([...contracts.keys()]).toEqual(['Task_B']);
+    });
+
+    it('falls back to required field names when a block does not compile', () => {
+      const contracts = parseTaskDataContracts(`
+        <bpmn:serviceTask id="Task_A" name="A"><bpmn:documentation>Input: { a: string, b: number! }</bpmn:documentation></bpmn:serviceTask>`);
+
+      expect(contracts.get('Task_A')!.inputSchema).toEqual({ type: 'object', properties: { a: {}, b: {} }, required: ['a', 'b'] });
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Task Task_A: Input contract'));
+    });
+  });
+
+  describe('buildScopedInput', () => {
+    const flowState: FlowState = {
+      originalRequest: 'Write a post',
+      flowSummary: 'Research: topic=AI. ',
+      taskOutputs: { Task_Other: { topic: 'superseded', tone: 'casual' }, Task_Research: { topic: 'AI', words: '800', _raw: 'raw' } },
+    };
+
+    it('passes everything when the task has no input contract', () => {
+      expect(buildScopedInput('Task_Write', 'Write', undefined, flowState)).toEqual({
+        ...flowState.taskOutputs, _currentTask: 'Write', _flowSummary: 'Research: topic=AI. ', originalRequest: 'Write a post',
+      });
+    });
+
+    it('passes only declared inputs, taking each from the latest task that produced it', () => {
+      const input = buildScopedInput('Task_Write', 'Write', contract('{ topic: string, words: integer }', '{ post: string }'), flowState);
+      expect(input).toEqual({ topic: 'AI', words: '800', _currentTask: 'Write', _flowSummary: 'Research: topic=AI. ', originalRequest: 'Write a post' });
+    });
+
+    it('lists missing or mistyped inputs as structured errors', () => {
+      const input = buildScopedInput('Task_Write', 'Write', contract('{ topic: number, audience: string }', '{ post: string }'), flowState);
+      expect(input._inputErrors).toEqual([
+        { path: 'audience', code: 'missing', message: 'audience is required' },
+        { path: 'topic', code: 'type', message: 'topic must be a number, got string "AI"' },
+      ]);
+    });
+
+    it('lets a multi-instance item supply and override inputs', () => {
+      const input = buildScopedInput('Task_Write', 'Write', contract('{ topic: string, audience: string }', '{ post: string }'), flowState, { audience: 'devs', topic: 'ML' });
+      expect(input._inputErrors).toBeUndefined();
+      expect(input).toEqual(expect.objectContaining({ topic: 'ML', audience: 'devs' }));
+    });
+  });
+
+  describe('parallel joins', () => {
+    it('orders branch outputs by branch, so the later branch wins for inputs and conditions alike', () => {
+      // Branch B finished first
+      const flowState: FlowState = {
+        originalRequest: 'Assess', flowSummary: '',
+        taskOutputs: { Task_Start: { region: 'emea' }, Task_B: { note: 'from B', risks: 'low' }, Task_A: { note: 'from A', market: 'big' } },
+      };
+
+      expect(mergeBranchOutputs(flowState, [['Task_A'], ['Task_B', 'Task_Missing']])).toEqual(['Task_A', 'Task_B']);
+
+      expect(Object.keys(flowState.taskOutputs)).toEqual(['Task_Start', 'Task_A', 'Task_B']);
+      expect(buildScopedInput('Task_Report', 'Report', contract('{ note: string, market: string }', '{ report: string }'), flowState))
+        .toEqual(expect.objectContaining({ note: 'from B', market: 'big' }));
+      expect(buildConditionScope(flowState)).toEqual({ region: 'emea', note: 'from B', market: 'big', risks: 'low' });
+    });
+  });
+
+  describe('task outputs', () => {
+    const review = contract('{ draft: string }', '{ verdict: "accept" | "revise", score: number }');
+
+    it('extracts JSON blocks, bare JSON objects and key-value lines, keeping the raw text', () => {
+      const text = 'Looks good.\n```json\n{ "verdict": "accept" }\n```\n{"notes": "tidy"}\nscore: 8';
+      expect(extractStructuredOutput(text, review)).toEqual({ verdict: 'accept', notes: 'tidy', score: '8', _raw: text });
+    });
+
+    it('only matches key-value lines for declared output keys', () => {
+      expect(extractStructuredOutput('score: 8', undefined)).toEqual({ _raw: 'score: 8' });
+    });
+
+    it('validates extracted output, coercing scalars to their declared types', () => {
+      expect(validateStructuredOutput({ verdict: 'accept', score: '8' }, review)).toEqual({ output: { verdict: 'accept', score: 8 }, errors: [] });
+      expect(validateStructuredOutput({ verdict: 'maybe' }, review).errors.map(e => `${e.path}:${e.code}`)).toEqual(['score:missing', 'verdict:enum']);
+    });
+
+    it('accepts any output without an output contract', () => {
+      expect(validateStructuredOutput({ anything: 1 }, undefined)).toEqual({ output: { anything: 1 }, errors: [] });
+    });
+  });
+
+  describe('task forms', () => {
+    let quote: TaskDataContract;
+
+    beforeEach(() => {
+      quote = parseTaskDataContracts(`
+        <bpmn:userTask id="Task_Quote" name="Confirm Quote"><bpmn:documentation>Form: { vendor_name: "Acme" | "Globex", budgetLimit: number, quote?: file }</bpmn:documentation></bpmn:userTask>`).get('Task_Quote')!;
+    });
+
+    it('compiles a Form block on a task without inputs or outputs', () => {
+      expect(quote.inputKeys).toEqual([]);
+      expect(quote.formSchema!.required).toEqual(['vendor_name', 'budgetLimit']);
+    });
+
+    it('titles each field and prefills it from the first source with a valid value', () => {
+      const form = buildTaskForm(quote, [{ vendor_name: 'Initech', budgetLimit: 'soon' }, { vendor_name: 'Globex', budgetLimit: '2500' }, { budgetLimit: 10 }]);
+      expect(form).toEqual({
+        type: 'object',
+        properties: {
+          vendor_name: { type: 'string', enum: ['Acme', 'Globex'], title: 'Vendor name', default: 'Globex' },
+          budgetLimit: { type: 'number', title: 'Budget limit', default: 2500 },
+          quote: { type: 'string', format: 'file', title: 'Quote' },
+        },
+        required: ['vendor_name', 'budgetLimit'],
+      });
+    });
+
+    it('has no form for tasks that do not declare one', () => {
+      expect(buildTaskForm(undefined, [])).toBeNull();
+      expect(buildTaskForm(contract('{ a: string }', '{ b: string }'), [{ a: 'x' }])).toBeNull();
+    });
+
+    it('keeps only declared fields of a submission, coerced to their types', () => {
+      expect(validateFormSubmission({ vendor_name: 'Acme', budgetLimit: '900', admin: true }, quote.formSchema!)).toEqual({
+        values: { vendor_name: 'Acme', budgetLimit: 900 }, errors: [],
+      });
+    });
+
+    it('reports missing and invalid submitted values', () => {
+      const { errors } = validateFormSubmission({ vendor_name: 'Initech' }, quote.formSchema!);
+      expect(errors.map(e => e.message)).toEqual(['budgetLimit is required', 'vendor_name must be one of: "Acme", "Globex"']);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Run Event Log Tests
+ *
+ * Per-run event sequence numbers, replay cursors for run and tenant streams, and
+ * notifications from other runtime instances.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { RunEvent, RunEventLog, eventCursor } from '../src/engine/event-log';
+
+const TENANT_ID = '5b8c2f10-0000-4000-8000-000000000001';
+const RUN_ID = '5b8c2f10-0000-4000-8000-000000000002';
+
+interface StoredEvent {
+  id: number;
+  seq: number;
+  tenant_id: string;
+  run_id: string;
+  event_type: string;
+  data: any;
+  created_at: Date;
+}
+
+/**
+ * A pool over an in-memory flow_run_events table: inserts take the run's next seq.
+ */
+function eventPool() {
+  const events: StoredEvent[] = [];
+  const lastSeq = new Map<string, number>();
+  const queries: { sql: string; params: any[] }[] = [];
+  const pool = {
+    query: async (sql: string, params: any[] = []) => {
+      queries.push({ sql, params });
+      if (/INSERT INTO flow_run_events/.test(sql)) {
+        const [tenantId, runId, type, data] = params;
+        if (runId === 'missing') return { rows: [] };
+        const seq = (lastSeq.get(runId) || 0) + 1;
+        lastSeq.set(runId, seq);
+        const row = { id: events.length + 1, seq, tenant_id: tenantId, run_id: runId, event_type: type, data: JSON.parse(data), created_at: new Date() };
+        events.push(row);
+        return { rows: [row] };
+      }
+      if (/SELECT \* FROM flow_run_events WHERE id = \$1/.test(sql)) {
+        return { rows: events.filter(e => e.id === params[0]) };
+      }
+      if (/AND run_id = \$2 AND seq > \$3/.test(sql)) {
+        const [tenantId, runId, after, limit] = params;
+        return { rows: events.filter(e => e.tenant_id === tenantId && e.run_id === runId && e.seq > after).slice(0, limit) };
+      }
+      if (/AND id > \$2/.test(sql)) {
+        const [tenantId, after, limit] = params;
+        return { rows: events.filter(e => e.tenant_id === tenantId && e.id > after).slice(0, limit) };
+      }
+      if (/MAX\(seq\)/.test(sql)) {
+        return { rows: [{ cursor: Math.max(0, ...events.filter(e => e.run_id === params[1]).map(e => e.seq)) }] };
+      }
+      if (/MAX\(id\)/.test(sql)) {
+        return { rows: [{ cursor: Math.max(0, ...events.filter(e => e.tenant_id === params[0]).map(e => e.id)) }] };
+      }
+      return { rows: [] };
+    },
+  } as unknown as Pool;
+  return { pool, events, queries };
+}
+
+describe('RunEventLog', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes the next seq of the run under its row lock, in the insert statement', async () => {
+    const { pool, queries } = eventPool();
+    const log = new RunEventLog(pool);
+
+    const first = await log.append(TENANT_ID, RUN_ID, 'run.started', { foundationId: 'f' });
+    const second = await log.append(TENANT_ID, RUN_ID, 'step.update', { status: 'running' });
+
+    expect(first).toEqual(expect.objectContaining({ seq: 1, runId: RUN_ID, type: 'run.started', data: { foundationId: 'f' } }));
+    expect(second?.seq).toBe(2);
+    const insert = queries.find(q => /INSERT INTO flow_run_events/.test(q.sql))!;
+    expect(insert.sql).toMatch(/UPDATE flow_runs SET last_event_seq = last_event_seq \+ 1 WHERE id = \$2 RETURNING last_event_seq/);
+  });
+
+  it('numbers each run\'s events separately', async () => {
+    const { pool } = eventPool();
+    const log = new RunEventLog(pool);
+
+    await log.append(TENANT_ID, RUN_ID, 'run.started');
+    const other = await log.append(TENANT_ID, 'other-run', 'run.started');
+    const next = await log.append(TENANT_ID, RUN_ID, 'run.complete');
+
+    expect(other).toEqual(expect.objectContaining({ id: 2, seq: 1 }));
+    expect(next).toEqual(expect.objectContaining({ id: 3, seq: 2 }));
+  });
+
+  it('emits stored events locally and notifies other instances', async () => {
+    const { pool, queries } = eventPool();
+    const log = new RunEventLog(pool);
+    const received: RunEvent[] = [];
+    log.on('event', event => received.push(event));
+
+    const event = await log.append(TENANT_ID, RUN_ID, 'run.started');
+
+    expect(received).toEqual([event]);
+    const notify = queries.find(q => /pg_notify/.test(q.sql))!;
+    expect(JSON.parse(notify.params[1]).event).toEqual(event);
+  });
+
+  it('yields null instead of throwing when the event cannot be stored', async () => {
+    const { pool } = eventPool();
+    const log = new RunEventLog(pool);
+    const received: RunEvent[] = [];
+    log.on('event', event => received.push(event));
+
+    expect(await log.append(TENANT_ID, 'missing', 'run.started')).toBeNull();
+    expect(received).toEqual([]);
+  });
+
+  it('replays a run by seq and the tenant by event id', async () => {
+    const { pool } = eventPool();
+    const log = new RunEventLog(pool);
+    await log.append(TENANT_ID, RUN_ID, 'run.started');
+    await log.append(TENANT_ID, 'other-run', 'run.started');
+    await log.append(TENANT_ID, RUN_ID, 'step.update');
+    await log.append(TENANT_ID, RUN_ID, 'run.complete');
+
+    const run = { tenantId: TENANT_ID, runId: RUN_ID };
+    const tenant = { tenantId: TENANT_ID };
+    expect((await log.replay(run, 1)).map(e => [e.seq, e.type])).toEqual([[2, 'step.update'], [3, 'run.complete']]);
+    expect((await log.replay(tenant, 2)).map(e => e.id)).toEqual([3, 4]);
+    expect(await log.latestCursor(run)).toBe(3);
+    expect(await log.latestCursor(tenant)).toBe(4);
+
+    const last = (await log.replay(run, 2))[0];
+    expect(eventCursor(last, run)).toBe(3);
+    expect(eventCursor(last, tenant)).toBe(4);
+  });
+
+  it('emits events other instances notify about, fetching oversized ones by id', async () => {
+    const { pool, events } = eventPool();
+    const log = new RunEventLog(pool);
+    const stored = (await new RunEventLog(pool).append(TENANT_ID, RUN_ID, 'agent.output', { delta: 'x'.repeat(10) }))!;
+    const received: RunEvent[] = [];
+    log.on('event', event => received.push(event));
+
+    await (log as any).handleNotification(JSON.stringify({ origin: 'other', event: stored }));
+    await (log as any).handleNotification(JSON.stringify({ origin: 'other', ref: events[0].id }));
+
+    expect(received).toHaveLength(2);
+    expect(received[1]).toEqual(expect.objectContaining({ id: stored.id, seq: 1, type: 'agent.output', data: stored.data }));
+  });
+});
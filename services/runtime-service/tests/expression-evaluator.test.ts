@@ -0,0 +1,112 @@
+/**
+ * Condition Expression Tests
+ *
+ * Precedence, short-circuiting, null handling and negative numbers in the sandboxed
+ * gateway condition evaluator.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluateCondition, unwrapExpression } from '../src/engine/expression-evaluator';
+
+function evaluate(expression: string, scope: Record<string, any> = {}): boolean | string {
+  const result = evaluateCondition(expression, scope);
+  return result.ok ? result.value : `error: ${result.error}`;
+}
+
+describe('expression evaluator', () => {
+  describe('unwrapping', () => {
+    it('strips ${...}, #{...}, CDATA and XML escaping', () => {
+      expect(unwrapExpression('${a == 1}')).toBe('a == 1');
+      expect(unwrapExpression('#{a}')).toBe('a');
+      expect(unwrapExpression('<![CDATA[${a &lt; 2 &amp;&amp; b}]]>')).toBe('a < 2 && b');
+    });
+  });
+
+  describe('precedence', () => {
+    it('binds && tighter than ||', () => {
+      expect(evaluate('true || false && false')).toBe(true);
+      expect(evaluate('(true || false) && false')).toBe(false);
+    });
+
+    it('binds ! tighter than && and comparisons tighter than !', () => {
+      expect(evaluate('!false && false')).toBe(false);
+      expect(evaluate('!(score > 5)', { score: 7 })).toBe(false);
+      expect(evaluate('not score > 5', { score: 3 })).toBe(true);
+    });
+
+    it('accepts JUEL word operators', () => {
+      expect(evaluate("status eq 'ok' and score ge 7", { status: 'OK', score: 7 })).toBe(true);
+      expect(evaluate('score lt 3 or score gt 9', { score: 5 })).toBe(false);
+    });
+  });
+
+  describe('short-circuiting', () => {
+    it('does not evaluate the right side of && when the left is false', () => {
+      expect(evaluate('order != null && order.total > 100', { order: null })).toBe(false);
+      expect(evaluate('false && missing == 1')).toBe(false);
+    });
+
+    it('does not evaluate the right side of || when the left is true', () => {
+      expect(evaluate("true || missing.value == 'x'")).toBe(true);
+      expect(evaluate("skip || label > 3", { skip: true, label: 'n/a' })).toBe(true);
+    });
+
+    it('still evaluates the right side when it decides the result', () => {
+      expect(evaluate('true && missing == 1')).toBe('error: unknown variable "missing"');
+      expect(evaluate('false || missing == 1')).toBe('error: unknown variable "missing"');
+    });
+
+    it('still reports syntax errors in the skipped side', () => {
+      expect(evaluate('false && (a ==')).toMatch(/^error: /);
+    });
+  });
+
+  describe('null handling', () => {
+    it('treats null and undefined as equal to each other only', () => {
+      expect(evaluate('value == null', { value: null })).toBe(true);
+      expect(evaluate('value.missing == null', { value: {} })).toBe(true);
+      expect(evaluate('value == null', { value: 0 })).toBe(false);
+      expect(evaluate("value != ''", { value: null })).toBe(true);
+    });
+
+    it('treats null, empty strings, arrays and objects as empty', () => {
+      expect(evaluate('empty a && empty b && empty c && empty d', { a: null, b: '', c: [], d: {} })).toBe(true);
+      expect(evaluate('empty items', { items: [1] })).toBe(false);
+    });
+
+    it('refuses to order null against a number', () => {
+      expect(evaluate('value > 1', { value: null })).toBe('error: cannot compare non-numeric values with ">"');
+    });
+  });
+
+  describe('negative numbers', () => {
+    it('compares against negative literals', () => {
+      expect(evaluate('amount > -5', { amount: -3 })).toBe(true);
+      expect(evaluate('amount > -5', { amount: -7 })).toBe(false);
+      expect(evaluate('amount == -2.5', { amount: '-2.5' })).toBe(true);
+    });
+
+    it('negates variables and parenthesised operands', () => {
+      expect(evaluate('-delta < 0', { delta: 4 })).toBe(true);
+      expect(evaluate('-(delta) == -4', { delta: '4' })).toBe(true);
+      expect(evaluate('--delta == 4', { delta: 4 })).toBe(true);
+    });
+
+    it('rejects negating non-numeric values', () => {
+      expect(evaluate("-status == 1", { status: 'ok' })).toBe('error: unary "-" needs a numeric operand');
+    });
+  });
+
+  describe('results', () => {
+    it('reads dotted and bracket paths, but only own properties', () => {
+      expect(evaluate("review['score'] >= 7 && review.tags[0] == 'urgent'", { review: { score: 8, tags: ['urgent'] } })).toBe(true);
+      expect(evaluate('review.constructor == null', { review: {} })).toBe(true);
+    });
+
+    it('accepts "true"/"false" strings and rejects other non-boolean results', () => {
+      expect(evaluate('flag', { flag: 'TRUE' })).toBe(true);
+      expect(evaluate('count', { count: 3 })).toBe('error: expression did not evaluate to a boolean (got 3)');
+      expect(evaluate('   ')).toBe('error: empty expression');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * FlowRunner Run Tests
+ *
+ * Whole runs through bpmn-engine against the in-memory runtime, with agents answered by
+ * the offline mock provider.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { MockProvider } from '../src/providers/mock';
+import { createTestRuntime, orchestratorAgent, workerAgent } from './support/test-runtime';
+
+const AGENTS = [workerAgent('agent-research', 'Research Agent'), workerAgent('agent-writer', 'Writer Agent')];
+
+/**
+ * An orchestrator process whose tasks are assigned to agents through lanes.
+ */
+function orchestration(lanes: Record<string, string[]>, body: string): string {
+  const laneXml = Object.entries(lanes)
+    .map(([name, refs], i) => `<bpmn:lane id="Lane_${i}" name="${name}">${refs.map(ref => `<bpmn:flowNodeRef>${ref}</bpmn:flowNodeRef>`).join('')}</bpmn:lane>`)
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:camunda="http://camunda.org/schema/1.0/bpmn" id="Defs" targetNamespace="http://flowgrid.test">
+  <bpmn:collaboration id="Collab">
+    <bpmn:participant id="P_Orch" name="Orchestrator" processRef="Process_Orch" />
+  </bpmn:collaboration>
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">${laneXml}</bpmn:laneSet>
+    ${body}
+  </bpmn:process>
+</bpmn:definitions>`;
+}
+
+function sequence(...ids: string[]): string {
+  return ids.slice(1).map((id, i) => `<bpmn:sequenceFlow id="Flow_${i}" sourceRef="${ids[i]}" targetRef="${id}" />`).join('\n');
+}
+
+describe('FlowRunner runs', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('agent tasks', () => {
+    it('runs each task through the tenant\'s provider and records its usage', async () => {
+      const bpmn = orchestration({ 'Research Agent': ['Task_Research'], 'Writer Agent': ['Task_Write'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:serviceTask id="Task_Research" name="Research Topic">
+          <bpmn:documentation>Output: { findings: string, confidence: number }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:serviceTask id="Task_Write" name="Write Summary">
+          <bpmn:documentation>Input: { findings: string }
+Output: { summary: string }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:endEvent id="End" />
+        ${sequence('Start', 'Task_Research', 'Task_Write', 'End')}`);
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS]);
+
+      const run = await runtime.run({ request: 'Summarise the market' });
+
+      expect(run.status).toBe('completed');
+      const research = runtime.steps.find(s => s.step_key === 'Task_Research')!;
+      expect(research.status).toBe('completed');
+      expect(research.output_data.response).toMatch(/^Mock response [0-9a-f]{12} for task "Research Topic"/);
+      const write = runtime.steps.find(s => s.step_key === 'Task_Write')!;
+      expect(write.status).toBe('completed');
+      expect(write.output_data.response).toContain('"summary": "mock-summary"');
+
+      expect(runtime.usage.map(u => u.context.elementId)).toEqual(['Task_Research', 'Task_Write']);
+      for (const { calls } of runtime.usage) {
+        expect(calls).toEqual([expect.objectContaining({ callType: 'agent', provider: 'mock', model: 'mock-1', costUsd: 0 })]);
+      }
+    });
+
+    it('routes a gateway by its condition on a task\'s output', async () => {
+      const bpmn = orchestration({ 'Research Agent': ['Task_Check'], 'Writer Agent': ['Task_Approve', 'Task_Reject'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:serviceTask id="Task_Check" name="Check Request">
+          <bpmn:documentation>Output: { status: "accepted" | "declined" }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:exclusiveGateway id="Gateway_Status" name="Accepted?" />
+        <bpmn:serviceTask id="Task_Approve" name="Approve" />
+        <bpmn:serviceTask id="Task_Reject" name="Reject" />
+        <bpmn:endEvent id="End" />
+        <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Task_Check" />
+        <bpmn:sequenceFlow id="Flow_Check" sourceRef="Task_Check" targetRef="Gateway_Status" />
+        <bpmn:sequenceFlow id="Flow_Yes" name="accepted" sourceRef="Gateway_Status" targetRef="Task_Approve">
+          <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">\${status == 'accepted'}</bpmn:conditionExpression>
+        </bpmn:sequenceFlow>
+        <bpmn:sequenceFlow id="Flow_No" name="declined" sourceRef="Gateway_Status" targetRef="Task_Reject">
+          <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">\${status == 'declined'}</bpmn:conditionExpression>
+        </bpmn:sequenceFlow>
+        <bpmn:sequenceFlow id="Flow_Approved" sourceRef="Task_Approve" targetRef="End" />
+        <bpmn:sequenceFlow id="Flow_Rejected" sourceRef="Task_Reject" targetRef="End" />`);
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS]);
+
+      // The mock fills an enum field with its first value
+      const run = await runtime.run({ request: 'Check this request' });
+
+      expect(run.status).toBe('completed');
+      const gateway = runtime.steps.find(s => s.step_key === 'Gateway_Status')!;
+      expect(gateway.output_data.routing).toEqual(expect.objectContaining({ flowId: 'Flow_Yes', mode: 'condition' }));
+      expect(runtime.steps.map(s => s.step_key)).toContain('Task_Approve');
+      expect(runtime.steps.map(s => s.step_key)).not.toContain('Task_Reject');
+    });
+  });
+
+  describe('parallel gateways', () => {
+    it('runs both branches of a fork and merges them at the join', async () => {
+      const bpmn = orchestration({ 'Research Agent': ['Task_Market', 'Task_Risks'], 'Writer Agent': ['Task_Report'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:parallelGateway id="Fork" />
+        <bpmn:serviceTask id="Task_Market" name="Size Market">
+          <bpmn:documentation>Output: { market: string }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:serviceTask id="Task_Risks" name="List Risks">
+          <bpmn:documentation>Output: { risks: string }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:parallelGateway id="Join" />
+        <bpmn:serviceTask id="Task_Report" name="Write Report">
+          <bpmn:documentation>Input: { market: string, risks: string }
+Output: { report: string }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:endEvent id="End" />
+        <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Fork" />
+        <bpmn:sequenceFlow id="Flow_Market" sourceRef="Fork" targetRef="Task_Market" />
+        <bpmn:sequenceFlow id="Flow_Risks" sourceRef="Fork" targetRef="Task_Risks" />
+        <bpmn:sequenceFlow id="Flow_MarketDone" sourceRef="Task_Market" targetRef="Join" />
+        <bpmn:sequenceFlow id="Flow_RisksDone" sourceRef="Task_Risks" targetRef="Join" />
+        <bpmn:sequenceFlow id="Flow_Report" sourceRef="Join" targetRef="Task_Report" />
+        <bpmn:sequenceFlow id="Flow_End" sourceRef="Task_Report" targetRef="End" />`);
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS]);
+      const complete = jest.spyOn(MockProvider.prototype, 'complete');
+
+      const run = await runtime.run({ request: 'Assess the market' });
+
+      expect(run.status).toBe('completed');
+      const join = runtime.steps.find(s => s.step_key === 'Join')!;
+      expect(join.output_data).toEqual(expect.objectContaining({ mergedTasks: ['Task_Market', 'Task_Risks'] }));
+      // The report task is prompted with both branches' outputs
+      const prompts = complete.mock.calls.map(([request]) => request.messages[0].content);
+      const reportPrompt = prompts.find(prompt => prompt.startsWith('CURRENT TASK: Write Report'))!;
+      expect(reportPrompt).toContain('"market": "mock-market"');
+      expect(reportPrompt).toContain('"risks": "mock-risks"');
+      expect(runtime.steps.map(s => [s.step_key, s.status])).toEqual(expect.arrayContaining([
+        ['Start', 'completed'], ['Fork', 'completed'], ['Task_Market', 'completed'], ['Task_Risks', 'completed'],
+        ['Join', 'completed'], ['Task_Report', 'completed'], ['End', 'completed'],
+      ]));
+      expect(runtime.steps.filter(s => !['completed', 'skipped'].includes(s.status))).toEqual([]);
+    });
+  });
+
+  describe('multi-instance tasks', () => {
+    it('fans out over an array in the run input', async () => {
+      const bpmn = orchestration({ 'Research Agent': ['Task_Research'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:serviceTask id="Task_Research" name="Research Region">
+          <bpmn:multiInstanceLoopCharacteristics camunda:collection="\${regions}" camunda:elementVariable="region" />
+        </bpmn:serviceTask>
+        <bpmn:endEvent id="End" />
+        ${sequence('Start', 'Task_Research', 'End')}`);
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS]);
+
+      const run = await runtime.run({ request: 'Compare the markets', regions: ['emea', 'apac', 'amer'] });
+
+      expect(run.status).toBe('completed');
+      const instances = runtime.steps.filter(s => s.step_key.startsWith('Task_Research#'));
+      expect(instances.map(s => s.step_key)).toEqual(['Task_Research#0', 'Task_Research#1', 'Task_Research#2']);
+      expect(instances.map(s => s.input_data.region)).toEqual(['emea', 'apac', 'amer']);
+      expect(instances.every(s => s.status === 'completed' && s.agent_name === 'Research Agent')).toBe(true);
+      const activation = runtime.steps.filter(s => s.step_key === 'Task_Research');
+      expect(activation).toHaveLength(1);
+      expect(activation[0].output_data).toEqual({ instances: 3 });
+    });
+
+    it('fans out over a path into the run input', async () => {
+      const bpmn = orchestration({ 'Research Agent': ['Task_Line'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:serviceTask id="Task_Line" name="Check Line">
+          <bpmn:multiInstanceLoopCharacteristics isSequential="true" camunda:collection="\${order.lines}" />
+        </bpmn:serviceTask>
+        <bpmn:endEvent id="End" />
+        ${sequence('Start', 'Task_Line', 'End')}`);
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS]);
+
+      const run = await runtime.run({ request: 'Check the order', order: { lines: [{ sku: 'A' }, { sku: 'B' }] } });
+
+      expect(run.status).toBe('completed');
+      const instances = runtime.steps.filter(s => s.step_key.startsWith('Task_Line#'));
+      expect(instances.map(s => s.input_data.item)).toEqual([{ sku: 'A' }, { sku: 'B' }]);
+    });
+
+    it('fans out over an array another task returned', async () => {
+      // The mock answers with the last JSON template in its prompt, so the request
+      // supplies the list the planning task returns
+      const bpmn = orchestration({ 'Research Agent': ['Task_Plan'], 'Writer Agent': ['Task_Write'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:serviceTask id="Task_Plan" name="Plan Sections">
+          <bpmn:documentation>Output: { sections: string[] }</bpmn:documentation>
+        </bpmn:serviceTask>
+        <bpmn:serviceTask id="Task_Write" name="Write Section">
+          <bpmn:multiInstanceLoopCharacteristics camunda:collection="\${sections}" camunda:elementVariable="section" />
+        </bpmn:serviceTask>
+        <bpmn:endEvent id="End" />
+        ${sequence('Start', 'Task_Plan', 'Task_Write', 'End')}`);
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS]);
+
+      const run = await runtime.run({
+        request: 'Write a report.\n```json\n{"sections": ["intro", "findings"]}\n```',
+      });
+
+      expect(run.status).toBe('completed');
+      const plan = runtime.steps.find(s => s.step_key === 'Task_Plan');
+      expect(plan?.status).toBe('completed');
+      const instances = runtime.steps.filter(s => s.step_key.startsWith('Task_Write#'));
+      expect(instances.map(s => s.input_data.section)).toEqual(['intro', 'findings']);
+      expect(instances.every(s => s.agent_name === 'Writer Agent')).toBe(true);
+    });
+
+    it('counts a multi-instance activation as one loop iteration', async () => {
+      const bpmn = orchestration({ 'Research Agent': ['Task_Research'] }, `
+        <bpmn:startEvent id="Start" />
+        <bpmn:serviceTask id="Task_Research" name="Research Region">
+          <bpmn:multiInstanceLoopCharacteristics camunda:collection="\${regions}" />
+        </bpmn:serviceTask>
+        <bpmn:endEvent id="End" />
+        ${sequence('Start', 'Task_Research', 'End')}`);
+      // One iteration allowed: counting the first instance (index 0) again would exhaust it
+      const runtime = createTestRuntime([orchestratorAgent(bpmn), ...AGENTS], {
+        foundationMetadata: { loopPolicy: { maxIterations: 1, onExhausted: 'fail' } },
+      });
+
+      const run = await runtime.run({ request: 'Research', regions: ['emea', 'apac'] });
+
+      expect(run.status).toBe('completed');
+      expect(runtime.steps.filter(s => s.step_key.startsWith('Task_Research#') && s.status === 'completed')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Integration Tools Tests
+ *
+ * The integration-service tool client against a local HTTP stand-in, and agent steps
+ * that call tools: the `tool` sub-steps they log and the results fed back to the model.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { IntegrationTool, IntegrationToolClient, ToolCallError } from '../src/engine/integration-tools';
+import { MockProvider } from '../src/providers/mock';
+import { CompletionRequest, ToolCall } from '../src/providers';
+import { TENANT_ID, createTestRuntime, orchestratorAgent, workerAgent } from './support/test-runtime';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'flowgrid_jwt_secret_dev_CHANGE_IN_PRODUCTION';
+
+const CREATE_INCIDENT: IntegrationTool = {
+  name: 'servicenow_create_incident',
+  description: 'Open a ServiceNow incident',
+  parameters: { type: 'object', properties: { shortDescription: { type: 'string' } }, required: ['shortDescription'] },
+  integration: 'servicenow',
+};
+
+describe('IntegrationToolClient', () => {
+  let server: http.Server;
+  let client: IntegrationToolClient;
+  const requests: { method: string; url: string; authorization?: string; body: string }[] = [];
+  // Response for the next request: status and JSON body
+  let reply: { status: number; body: any };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, authorization: req.headers.authorization, body });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    client = new IntegrationToolClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists an agent\'s tools with a service token for the tenant', async () => {
+    reply = { status: 200, body: { tools: [CREATE_INCIDENT] } };
+
+    await expect(client.listTools(TENANT_ID, 'agent-ops')).resolves.toEqual([CREATE_INCIDENT]);
+
+    expect(requests[0]).toEqual(expect.objectContaining({ method: 'GET', url: '/api/integrations/agent/agent-ops/tools' }));
+    const token = jwt.verify(requests[0].authorization!.replace('Bearer ', ''), JWT_SECRET) as any;
+    expect(token).toEqual(expect.objectContaining({ tenantId: TENANT_ID, role: 'service', type: 'access' }));
+  });
+
+  it('treats agents without integrations and failed lookups as having no tools', async () => {
+    reply = { status: 404, body: { error: 'Not Found' } };
+    await expect(client.listTools(TENANT_ID, 'agent-plain')).resolves.toEqual([]);
+    expect(console.error).not.toHaveBeenCalled();
+
+    reply = { status: 500, body: {} };
+    await expect(client.listTools(TENANT_ID, 'agent-ops')).resolves.toEqual([]);
+    expect(console.error).toHaveBeenCalledWith('[integration-tools] Listing tools for agent agent-ops failed: HTTP 500');
+
+    const unreachable = new IntegrationToolClient('http://127.0.0.1:1');
+    await expect(unreachable.listTools(TENANT_ID, 'agent-ops')).resolves.toEqual([]);
+  });
+
+  it('invokes a tool with the model\'s arguments', async () => {
+    reply = { status: 200, body: { integration: 'servicenow', result: { number: 'INC0010001' } } };
+    const call: ToolCall = { id: 'call-1', name: 'servicenow_create_incident', arguments: { shortDescription: 'Disk full' } };
+
+    await expect(client.invoke(TENANT_ID, 'agent-ops', call)).resolves.toEqual({ integration: 'servicenow', result: { number: 'INC0010001' } });
+
+    expect(requests[0]).toEqual(expect.objectContaining({
+      method: 'POST', url: '/api/integrations/agent/agent-ops/tools/servicenow_create_incident',
+      body: JSON.stringify({ arguments: { shortDescription: 'Disk full' } }),
+    }));
+  });
+
+  it('raises the integration\'s error message with its status', async () => {
+    reply = { status: 502, body: { error: 'Integration Error', message: 'ServiceNow rejected the credentials' } };
+
+    const error = await client.invoke(TENANT_ID, 'agent-ops', { id: 'call-1', name: 'servicenow_create_incident', arguments: {} })
+      .then(() => null, (err: unknown) => err);
+
+    expect(error).toEqual(new ToolCallError('ServiceNow rejected the credentials', 502));
+    expect((error as ToolCallError).status).toBe(502);
+  });
+});
+
+describe('agent tool calls', () => {
+  const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Defs" targetNamespace="http://flowgrid.test">
+  <bpmn:collaboration id="Collab">
+    <bpmn:participant id="P_Orch" name="Orchestrator" processRef="Process_Orch" />
+  </bpmn:collaboration>
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Ops" name="Ops Agent"><bpmn:flowNodeRef>Task_Open</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Open" name="Report with servicenow_create_incident" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_Open" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Open" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+  const agents = [orchestratorAgent(bpmn), workerAgent('agent-ops', 'Ops Agent')];
+  let requests: CompletionRequest[];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    requests = [];
+    const complete = MockProvider.prototype.complete;
+    jest.spyOn(MockProvider.prototype, 'complete').mockImplementation(function (this: MockProvider, request: CompletionRequest) {
+      requests.push({ ...request, messages: [...request.messages] });
+      return complete.call(this, request);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function toolClient(invoke: (call: ToolCall) => Promise<{ integration?: string; result: any }>) {
+    return {
+      listTools: jest.fn(async (tenantId: string, agentId: string) => agentId === 'agent-ops' ? [CREATE_INCIDENT] : []),
+      invoke: jest.fn(async (tenantId: string, agentId: string, call: ToolCall) => invoke(call)),
+    };
+  }
+
+  it('logs the call as a tool sub-step and hands the result to the model', async () => {
+    const tools = toolClient(async () => ({ integration: 'servicenow', result: { number: 'INC0010001' } }));
+    const runtime = createTestRuntime(agents, { tools });
+
+    const run = await runtime.run({ request: 'The disk is full' });
+
+    expect(run.status).toBe('completed');
+    expect(tools.listTools.mock.calls).toEqual([[TENANT_ID, 'agent-ops']]);
+    const call = { id: expect.any(String), name: 'servicenow_create_incident', arguments: { shortDescription: 'mock-shortDescription' } };
+    expect(tools.invoke).toHaveBeenCalledWith(TENANT_ID, 'agent-ops', call);
+
+    const task = runtime.steps.find(s => s.step_key === 'Task_Open')!;
+    expect(task.status).toBe('completed');
+    const toolSteps = runtime.steps.filter(s => s.step_type === 'tool');
+    expect(toolSteps).toEqual([expect.objectContaining({
+      parent_step_id: task.id,
+      step_key: 'Task_Open/servicenow_create_incident',
+      step_name: 'servicenow_create_incident',
+      agent_id: 'agent-ops',
+      status: 'completed',
+      input_data: { shortDescription: 'mock-shortDescription' },
+      output_data: { integration: 'servicenow', result: { number: 'INC0010001' } },
+    })]);
+
+    // The task's model sees its tool, calls it, then answers after the result
+    const taskRequests = requests.filter(r => r.tools?.length);
+    expect(taskRequests).toHaveLength(2);
+    expect(taskRequests[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '', toolCalls: [call] },
+      { role: 'tool', toolCallId: expect.any(String), content: '{"number":"INC0010001"}' },
+    ]);
+  });
+
+  it('records a failed call on the sub-step and lets the model answer from the error', async () => {
+    const tools = toolClient(async () => { throw new ToolCallError('ServiceNow rejected the credentials', 502); });
+    const runtime = createTestRuntime(agents, { tools });
+
+    const run = await runtime.run({ request: 'The disk is full' });
+
+    expect(run.status).toBe('completed');
+    expect(runtime.steps.find(s => s.step_key === 'Task_Open')!.status).toBe('completed');
+    expect(runtime.steps.find(s => s.step_type === 'tool')).toEqual(expect.objectContaining({
+      status: 'failed', error: 'ServiceNow rejected the credentials',
+    }));
+    const lastRequest = requests.filter(r => r.tools?.length).pop()!;
+    expect(lastRequest.messages[lastRequest.messages.length - 1])
+      .toEqual({ role: 'tool', toolCallId: expect.any(String), content: 'Error: ServiceNow rejected the credentials' });
+  });
+
+  it('runs agents as plain completions without tools', async () => {
+    const runtime = createTestRuntime(agents);
+
+    const run = await runtime.run({ request: 'The disk is full' });
+
+    expect(run.status).toBe('completed');
+    expect(runtime.steps.some(s => s.step_type === 'tool')).toBe(false);
+    expect(requests.every(r => !r.tools)).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Loop Policy Tests
+ *
+ * Resolving a task's policy from foundation metadata, validating policies from the API,
+ * and what a run does when a task exhausts its iterations.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  DEFAULT_LOOP_POLICY, loopPolicyConfigFromMetadata, resolveLoopPolicy, validateLoopPolicy,
+} from '../src/engine/loop-policy';
+import { createTestRuntime, orchestratorAgent, workerAgent } from './support/test-runtime';
+
+describe('loop policies', () => {
+  describe('resolveLoopPolicy', () => {
+    it('uses the built-in default without configuration', () => {
+      expect(resolveLoopPolicy('Task_A', {})).toEqual({ policy: DEFAULT_LOOP_POLICY, source: 'default' });
+      expect(resolveLoopPolicy('Task_A', loopPolicyConfigFromMetadata(null))).toEqual({ policy: DEFAULT_LOOP_POLICY, source: 'default' });
+    });
+
+    it('merges the foundation default over the built-in one', () => {
+      const config = loopPolicyConfigFromMetadata({ loopPolicy: { maxIterations: 5 } });
+      expect(resolveLoopPolicy('Task_A', config)).toEqual({ policy: { maxIterations: 5, onExhausted: 'fail' }, source: 'foundation' });
+    });
+
+    it('merges a task override over the foundation default', () => {
+      const config = loopPolicyConfigFromMetadata({
+        loopPolicy: { maxIterations: 5, onExhausted: 'escalate' },
+        loopPolicies: { Task_A: { onExhausted: 'take_flow', flow: 'Give up' } },
+      });
+      expect(resolveLoopPolicy('Task_A', config)).toEqual({
+        policy: { maxIterations: 5, onExhausted: 'take_flow', flow: 'Give up' },
+        source: 'task',
+      });
+      expect(resolveLoopPolicy('Task_B', config).source).toBe('foundation');
+    });
+  });
+
+  describe('validateLoopPolicy', () => {
+    it('accepts partial policies unless a full one is required', () => {
+      expect(validateLoopPolicy({ maxIterations: 4 })).toBeNull();
+      expect(validateLoopPolicy({ maxIterations: 4 }, false)).toMatch(/onExhausted must be one of/);
+      expect(validateLoopPolicy({ maxIterations: 4, onExhausted: 'escalate' }, false)).toBeNull();
+    });
+
+    it('rejects out-of-range iterations and unknown actions', () => {
+      expect(validateLoopPolicy([])).toBe('Policy must be an object');
+      expect(validateLoopPolicy({ maxIterations: 0 })).toMatch(/between 1 and 100/);
+      expect(validateLoopPolicy({ maxIterations: 101 })).toMatch(/between 1 and 100/);
+      expect(validateLoopPolicy({ maxIterations: 2.5 })).toMatch(/between 1 and 100/);
+      expect(validateLoopPolicy({ onExhausted: 'retry' })).toMatch(/fail, escalate, take_flow/);
+    });
+
+    it('requires a flow for take_flow', () => {
+      expect(validateLoopPolicy({ onExhausted: 'take_flow' })).toMatch(/flow is required/);
+      expect(validateLoopPolicy({ onExhausted: 'take_flow', flow: '  ' })).toMatch(/flow is required/);
+      expect(validateLoopPolicy({ onExhausted: 'take_flow', flow: 'Flow_Out' })).toBeNull();
+    });
+  });
+
+  describe('exhausted loops in a run', () => {
+    // The reviewer always asks for a revision (the mock fills an enum with its first value),
+    // so only the loop policy gets the run out of the loop
+    const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" id="Defs" targetNamespace="http://flowgrid.test">
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Review" name="Review Agent"><bpmn:flowNodeRef>Task_Review</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Review" name="Review Draft">
+      <bpmn:documentation>Output: { verdict: "revise" | "accept" }</bpmn:documentation>
+    </bpmn:serviceTask>
+    <bpmn:exclusiveGateway id="Gateway_Verdict" name="Accepted?" default="Flow_Accept" />
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_Start" sourceRef="Start" targetRef="Task_Review" />
+    <bpmn:sequenceFlow id="Flow_Review" sourceRef="Task_Review" targetRef="Gateway_Verdict" />
+    <bpmn:sequenceFlow id="Flow_Revise" name="revise" sourceRef="Gateway_Verdict" targetRef="Task_Review">
+      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">\${verdict == 'revise'}</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="Flow_Accept" name="Give up" sourceRef="Gateway_Verdict" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+    const agents = [orchestratorAgent(bpmn), workerAgent('agent-review', 'Review Agent')];
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('fails the run once the task has run maxIterations times', async () => {
+      const runtime = createTestRuntime(agents, { foundationMetadata: { loopPolicy: { maxIterations: 2, onExhausted: 'fail' } } });
+
+      const run = await runtime.run({ request: 'Review the draft' });
+
+      expect(run.status).toBe('failed');
+      expect(run.error).toBe('Loop limit reached: "Review Draft" ran 2 times (max 2)');
+      const reviews = runtime.steps.filter(s => s.step_key === 'Task_Review');
+      expect(reviews.map(s => s.status)).toEqual(['completed', 'completed', 'failed']);
+      expect(reviews[2].output_data.loopPolicy).toEqual(expect.objectContaining({
+        taskId: 'Task_Review', iterations: 2, source: 'foundation', action: 'fail', detail: 'Run failed',
+      }));
+    });
+
+    it('takes the configured flow out of the loop', async () => {
+      const runtime = createTestRuntime(agents, {
+        foundationMetadata: { loopPolicies: { Task_Review: { maxIterations: 1, onExhausted: 'take_flow', flow: 'Give up' } } },
+      });
+
+      const run = await runtime.run({ request: 'Review the draft' });
+
+      expect(run.status).toBe('completed');
+      const reviews = runtime.steps.filter(s => s.step_key === 'Task_Review');
+      expect(reviews).toHaveLength(2);
+      expect(reviews[1].output_data.loopPolicy).toEqual(expect.objectContaining({
+        source: 'task', action: 'take_flow', detail: 'Routed gateway "Gateway_Verdict" to flow "Give up"',
+      }));
+    });
+
+    it('fails the run when the take_flow flow is not on any gateway', async () => {
+      const runtime = createTestRuntime(agents, {
+        foundationMetadata: { loopPolicy: { maxIterations: 1, onExhausted: 'take_flow', flow: 'Flow_Missing' } },
+      });
+
+      const run = await runtime.run({ request: 'Review the draft' });
+
+      expect(run.status).toBe('failed');
+      const last = runtime.steps.filter(s => s.step_key === 'Task_Review').pop()!;
+      expect(last.output_data.loopPolicy.detail).toBe('Flow "Flow_Missing" not found on any gateway; run failed instead');
+    });
+  });
+});
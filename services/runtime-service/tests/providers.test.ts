@@ -0,0 +1,208 @@
+/**
+ * LLM Provider Tests
+ *
+ * Retries, provider resolution with encrypted API keys, and the offline mock provider.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { LLMClient, LLMProvider, ProviderError, ProviderRegistry, CompletionRequest } from '../src/providers';
+import { ApiKeyCipher } from '../src/providers/api-keys';
+import { MockProvider } from '../src/providers/mock';
+
+const TENANT_ID = 'a2d7d1c4-0000-4000-8000-000000000001';
+const OTHER_TENANT_ID = 'a2d7d1c4-0000-4000-8000-000000000002';
+
+function failingProvider(error: ProviderError): LLMProvider & { calls: number } {
+  return {
+    name: 'openai',
+    defaultModel: 'gpt-4o',
+    supportsImages: false,
+    calls: 0,
+    async complete() {
+      this.calls++;
+      throw error;
+    },
+  };
+}
+
+function request(content: string, extra: Partial<CompletionRequest> = {}): Omit<CompletionRequest, 'model'> {
+  return { messages: [{ role: 'user', content }], maxTokens: 100, ...extra };
+}
+
+describe('LLM providers', () => {
+  let keyDir: string;
+
+  beforeAll(() => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowgrid-keys-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    fs.rmSync(keyDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    async function attemptsWith(maxRetries: number, error: ProviderError): Promise<number> {
+      jest.useFakeTimers();
+      const provider = failingProvider(error);
+      const client = new LLMClient(provider, 'gpt-4o', { timeoutMs: 60000, maxRetries });
+      const outcome = client.complete(request('hello')).catch(err => err);
+      await jest.runAllTimersAsync();
+      expect(await outcome).toBe(error);
+      return provider.calls;
+    }
+
+    it('makes the first attempt plus maxRetries retries on retryable errors', async () => {
+      const rateLimited = new ProviderError('rate limited', 'openai', 429, true);
+      expect(await attemptsWith(0, rateLimited)).toBe(1);
+      expect(await attemptsWith(1, rateLimited)).toBe(2);
+      expect(await attemptsWith(3, rateLimited)).toBe(4);
+    });
+
+    it('does not retry other errors', async () => {
+      expect(await attemptsWith(3, new ProviderError('bad request', 'openai', 400, false))).toBe(1);
+    });
+  });
+
+  describe('API key encryption', () => {
+    it('generates a key file and round-trips keys', () => {
+      const keyFile = path.join(keyDir, 'roundtrip', 'master.key');
+      const cipher = new ApiKeyCipher(keyFile);
+      const encrypted = cipher.encrypt(TENANT_ID, 'openai', 'sk-test-123');
+
+      expect(fs.existsSync(keyFile)).toBe(true);
+      expect(encrypted.ciphertext).toMatch(/^v1\./);
+      expect(encrypted.ciphertext).not.toContain('sk-test-123');
+      expect(new ApiKeyCipher(keyFile).decrypt(TENANT_ID, 'openai', encrypted)).toBe('sk-test-123');
+    });
+
+    it('binds the ciphertext to its tenant and provider', () => {
+      const cipher = new ApiKeyCipher(path.join(keyDir, 'binding.key'));
+      const encrypted = cipher.encrypt(TENANT_ID, 'openai', 'sk-test-123');
+
+      expect(() => cipher.decrypt(OTHER_TENANT_ID, 'openai', encrypted)).toThrow();
+      expect(() => cipher.decrypt(TENANT_ID, 'anthropic', encrypted)).toThrow();
+    });
+
+    it('decrypts keys encrypted under an older master key after rotation', () => {
+      const keyFile = path.join(keyDir, 'rotation.key');
+      const old = new ApiKeyCipher(keyFile).encrypt(TENANT_ID, 'openai', 'sk-old');
+      const contents = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+      contents.keys['next'] = Buffer.alloc(32, 7).toString('base64');
+      contents.activeKeyId = 'next';
+      fs.writeFileSync(keyFile, JSON.stringify(contents));
+
+      const rotated = new ApiKeyCipher(keyFile);
+      expect(rotated.encrypt(TENANT_ID, 'openai', 'sk-new').keyId).toBe('next');
+      expect(rotated.decrypt(TENANT_ID, 'openai', old)).toBe('sk-old');
+    });
+  });
+
+  describe('registry', () => {
+    function registryWith(rows: any[], cipher: ApiKeyCipher) {
+      const queries: { sql: string; params: any[] }[] = [];
+      const pool = {
+        query: async (sql: string, params: any[] = []) => {
+          queries.push({ sql, params });
+          return { rows: sql.startsWith('SELECT') ? rows : [] };
+        },
+      } as unknown as Pool;
+      return { registry: new ProviderRegistry(pool, cipher), queries };
+    }
+
+    it('decrypts the tenant\'s stored API key and applies its retry settings', async () => {
+      const cipher = new ApiKeyCipher(path.join(keyDir, 'registry.key'));
+      const { ciphertext, keyId } = cipher.encrypt(TENANT_ID, 'anthropic', 'sk-ant-test');
+      const { registry, queries } = registryWith([
+        { provider: 'anthropic', api_key_ciphertext: ciphertext, api_key_key_id: keyId, is_default: true, max_retries: 0 },
+      ], cipher);
+      const decrypt = jest.spyOn(cipher, 'decrypt');
+
+      const client = await registry.resolve(TENANT_ID);
+
+      expect(client.providerName).toBe('anthropic');
+      expect(client.settings.maxRetries).toBe(0);
+      expect(decrypt).toHaveReturnedWith('sk-ant-test');
+      expect(queries[0].sql).not.toMatch(/\bapi_key\b/);
+    });
+
+    it('reports a stored key that does not decrypt', async () => {
+      const cipher = new ApiKeyCipher(path.join(keyDir, 'registry.key'));
+      const { ciphertext, keyId } = cipher.encrypt(OTHER_TENANT_ID, 'openai', 'sk-other');
+      const { registry } = registryWith([
+        { provider: 'openai', api_key_ciphertext: ciphertext, api_key_key_id: keyId, is_default: true },
+      ], cipher);
+
+      await expect(registry.resolve(TENANT_ID)).rejects.toThrow('Cannot decrypt the stored openai API key');
+    });
+
+    it('encrypts plaintext keys left from before encryption', async () => {
+      const cipher = new ApiKeyCipher(path.join(keyDir, 'seal.key'));
+      const { registry, queries } = registryWith([
+        { id: 'config-1', tenant_id: TENANT_ID, provider: 'openai', api_key: 'sk-plain' },
+      ], cipher);
+
+      expect(await registry.sealPlaintextKeys()).toBe(1);
+      const update = queries.find(q => q.sql.startsWith('UPDATE llm_provider_configs'))!;
+      expect(update.sql).toContain('api_key = NULL');
+      expect(update.params).not.toContain('sk-plain');
+      expect(cipher.decrypt(TENANT_ID, 'openai', { ciphertext: update.params[0], keyId: update.params[1] })).toBe('sk-plain');
+    });
+  });
+
+  describe('mock provider', () => {
+    const mock = new MockProvider();
+
+    it('answers the same request the same way', async () => {
+      const first = await mock.complete({ model: 'mock-1', ...request('CURRENT TASK: Summarise') });
+      const second = await mock.complete({ model: 'mock-1', ...request('CURRENT TASK: Summarise') });
+      expect(first.text).toBe(second.text);
+      expect(first.text).toContain('for task "Summarise"');
+    });
+
+    it('fills the JSON template in the prompt', async () => {
+      const response = await mock.complete({ model: 'mock-1', ...request('Reply with:\n```json\n{"summary": "...", "score": 0}\n```') });
+      const json = JSON.parse(response.text.match(/```json\n([\s\S]*?)\n```/)![1]);
+      expect(json).toEqual({ summary: 'mock-summary', score: 0 });
+    });
+
+    it('answers routing prompts with the first option', async () => {
+      expect((await mock.complete({ model: 'mock-1', ...request('Which path? Reply with just the number.') })).text).toBe('1');
+    });
+
+    it('calls the tools named in the prompt once, then answers', async () => {
+      const tools = [{ name: 'create_incident', description: 'Create', parameters: { type: 'object', required: ['title'] } }];
+      const call = await mock.complete({ model: 'mock-1', ...request('Use create_incident', { tools }) });
+      expect(call.toolCalls).toEqual([expect.objectContaining({ name: 'create_incident', arguments: { title: 'mock-title' } })]);
+
+      const answer = await mock.complete({
+        model: 'mock-1',
+        messages: [
+          { role: 'user', content: 'Use create_incident' },
+          { role: 'assistant', content: '', toolCalls: call.toolCalls },
+          { role: 'tool', toolCallId: call.toolCalls![0].id, content: '{"number":"INC1"}' },
+        ],
+        maxTokens: 100,
+        tools,
+      });
+      expect(answer.toolCalls).toBeUndefined();
+      expect(answer.text).toContain('Mock response');
+    });
+
+    it('streams the text in fixed chunks', async () => {
+      const deltas: string[] = [];
+      const response = await mock.complete({ model: 'mock-1', ...request('hello'), onDelta: text => deltas.push(text) });
+      expect(deltas.join('')).toBe(response.text);
+      expect(deltas.slice(0, -1).every(delta => delta.length === 16)).toBe(true);
+    });
+  });
+});
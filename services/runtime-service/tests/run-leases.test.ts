@@ -0,0 +1,144 @@
+/**
+ * Run Lease Tests
+ *
+ * Heartbeats renewing an instance's runs, runs taken over by other instances, and the
+ * reconciler only recovering runs whose owner's lease has expired.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { RunLeases } from '../src/engine/run-leases';
+import { FlowRun } from '../src/engine/state-manager';
+import { createTestRuntime, orchestratorAgent, TENANT_ID, FOUNDATION_ID } from './support/test-runtime';
+
+function leasePool(renewedIds: () => string[]) {
+  const queries: { sql: string; params: any[] }[] = [];
+  const pool = {
+    query: async (sql: string, params: any[] = []) => {
+      queries.push({ sql, params });
+      return { rows: renewedIds().map(id => ({ id })) };
+    },
+  } as unknown as Pool;
+  return { pool, queries };
+}
+
+describe('RunLeases', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('renews the leases of held and paused runs owned by this instance, then sweeps', async () => {
+    const { pool, queries } = leasePool(() => ['run-1', 'run-2']);
+    const onLost = jest.fn();
+    const onSweep = jest.fn(async () => undefined);
+    const leases = new RunLeases(pool, () => ['run-1', 'run-2'], onLost, onSweep, 30000);
+
+    const summary = await leases.heartbeat();
+
+    expect(summary).toEqual({ renewed: 2, lost: [] });
+    expect(queries).toHaveLength(1);
+    expect(queries[0].sql).toMatch(/WHERE owner_instance = \$1 AND \(id = ANY\(\$2::uuid\[\]\) OR status = 'paused'\)/);
+    expect(queries[0].params).toEqual([leases.instanceId, ['run-1', 'run-2'], 30000]);
+    expect(onLost).not.toHaveBeenCalled();
+    expect(onSweep).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands runs another instance has claimed to onLost', async () => {
+    const { pool } = leasePool(() => ['run-1']);
+    const onLost = jest.fn();
+    const leases = new RunLeases(pool, () => ['run-1', 'run-2', 'run-3'], onLost, async () => undefined);
+
+    const summary = await leases.heartbeat();
+
+    expect(summary.lost).toEqual(['run-2', 'run-3']);
+    expect(onLost).toHaveBeenCalledWith(['run-2', 'run-3']);
+  });
+
+  it('skips a heartbeat while the previous one is still running', async () => {
+    let finishSweep!: () => void;
+    const onSweep = jest.fn(() => new Promise<void>(resolve => { finishSweep = resolve; }));
+    const { pool } = leasePool(() => []);
+    const leases = new RunLeases(pool, () => [], jest.fn(), onSweep);
+
+    const first = leases.heartbeat();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(await leases.heartbeat()).toEqual({ renewed: 0, lost: [] });
+    finishSweep();
+    await first;
+
+    expect(onSweep).toHaveBeenCalledTimes(1);
+  });
+
+  it('beats on start and then on every interval until stopped', async () => {
+    jest.useFakeTimers();
+    const onSweep = jest.fn(async () => undefined);
+    const { pool } = leasePool(() => []);
+    const leases = new RunLeases(pool, () => [], jest.fn(), onSweep, 30000);
+
+    leases.start(10000);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onSweep).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(onSweep).toHaveBeenCalledTimes(3);
+
+    leases.stop();
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(onSweep).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives every instance its own ID', () => {
+    const { pool } = leasePool(() => []);
+    const make = () => new RunLeases(pool, () => [], jest.fn(), async () => undefined);
+    expect(make().instanceId).not.toBe(make().instanceId);
+    expect(make().instanceId.length).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('FlowRunner.reconcileRuns', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function orphan(status: string): FlowRun & { foundation_metadata: any } {
+    return {
+      id: `run-${status}`, tenant_id: TENANT_ID, foundation_id: FOUNDATION_ID, status,
+      input_data: {}, output_data: null, started_at: new Date(), foundation_metadata: {},
+    };
+  }
+
+  it('claims orphaned runs as this instance before recovering them', async () => {
+    const runtime = createTestRuntime([orchestratorAgent('<bpmn:definitions />')]);
+    const stateManager = runtime.runner.getStateManager();
+    const claim = jest.spyOn(stateManager, 'claimOrphanedRuns').mockResolvedValue([]);
+
+    expect(await runtime.runner.reconcileRuns()).toEqual({ recovered: 0, paused: 0, failed: 0 });
+    expect(claim).toHaveBeenCalledWith(runtime.runner.getRunLeases().owner);
+  });
+
+  it('fails claimed runs that have no snapshot to recover from', async () => {
+    const runtime = createTestRuntime([orchestratorAgent('<bpmn:definitions />')]);
+    const stateManager = runtime.runner.getStateManager();
+    const running = orphan('running');
+    const paused = orphan('paused');
+    runtime.runs.set(running.id, running);
+    runtime.runs.set(paused.id, paused);
+    jest.spyOn(stateManager, 'claimOrphanedRuns').mockResolvedValue([running, paused]);
+
+    expect(await runtime.runner.reconcileRuns()).toEqual({ recovered: 0, paused: 0, failed: 2 });
+    expect(running.status).toBe('failed');
+    expect(paused.status).toBe('failed');
+    expect(paused.error).toMatch(/no snapshot/);
+  });
+});
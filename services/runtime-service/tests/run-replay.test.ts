@@ -0,0 +1,228 @@
+/**
+ * Run Replay Tests
+ *
+ * Choosing where a replay starts, the plan of recorded steps and gateway routes it reuses,
+ * comparing a run with its replay, and whole replays reusing the parent's outputs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { FlowRun, FlowStep } from '../src/engine/state-manager';
+import { ReplayError, ReplayPlan, compareRunSteps, replayStartStep } from '../src/engine/run-replay';
+import { createTestRuntime, orchestratorAgent, workerAgent, TENANT_ID } from './support/test-runtime';
+
+function step(id: string, stepKey: string, fields: Partial<FlowStep> = {}): FlowStep {
+  return {
+    id, run_id: 'run-parent', step_key: stepKey, step_name: stepKey.replace('Task_', ''), step_type: 'agent', status: 'completed',
+    input_data: null, output_data: { response: `${stepKey} output` }, ...fields,
+  } as FlowStep;
+}
+
+// Start → Draft → Review → (gateway) → Draft → Review → (gateway) → Publish, failed at Publish
+const PARENT_STEPS = [
+  step('s1', 'Start', { step_type: 'start' }),
+  step('s2', 'Task_Draft'),
+  step('s3', 'Task_Review', { output_data: { verdict: 'revise' } }),
+  step('s4', 'Gateway_Verdict', { step_type: 'gateway', output_data: { routing: { flowId: 'Flow_Revise', mode: 'condition' } } }),
+  step('s5', 'Task_Draft', { output_data: { response: 'second draft' } }),
+  step('s6', 'Task_Review', { output_data: { verdict: 'accept' } }),
+  step('s7', 'Gateway_Verdict', { step_type: 'gateway', output_data: { routing: { flowId: 'Flow_Accept', mode: 'condition' } } }),
+  step('s8', 'Task_Publish', { status: 'failed', error: 'CMS unavailable', output_data: null }),
+];
+
+describe('run replay', () => {
+  describe('replayStartStep', () => {
+    it('starts from the chosen step, or the first failed one', () => {
+      expect(replayStartStep(PARENT_STEPS, 's5').id).toBe('s5');
+      expect(replayStartStep(PARENT_STEPS).id).toBe('s8');
+    });
+
+    it('refuses unknown steps, steps the engine does not wait at, and runs without a failure', () => {
+      expect(() => replayStartStep(PARENT_STEPS, 'missing')).toThrow(new ReplayError('Step not found in this run'));
+      expect(() => replayStartStep(PARENT_STEPS, 's4')).toThrow('A replay cannot start at a gateway step; choose a task or catch event');
+      expect(() => replayStartStep(PARENT_STEPS.slice(0, 7))).toThrow(/Run has no failed step/);
+    });
+  });
+
+  describe('ReplayPlan', () => {
+    it('replays each passage of a looped task and gateway in run order, up to the chosen step', () => {
+      const plan = new ReplayPlan('run-parent', PARENT_STEPS[5], PARENT_STEPS);
+
+      expect(plan.takeStep('Task_Draft')?.id).toBe('s2');
+      expect(plan.recordedRoute('Gateway_Verdict')).toEqual({ flowId: 'Flow_Revise', mode: 'condition' });
+      expect(plan.takeGateway('Gateway_Verdict')?.id).toBe('s4');
+      expect(plan.takeStep('Task_Draft')?.id).toBe('s5');
+      // The chosen step runs live, and nothing after it is replayed
+      expect(plan.takeStep('Task_Review')?.id).toBe('s3');
+      expect(plan.takeStep('Task_Review')).toBeUndefined();
+      expect(plan.recordedRoute('Gateway_Verdict')).toBeUndefined();
+      expect(plan.takeStep('Task_Publish')).toBeUndefined();
+    });
+
+    it('hands out the edited input once, when the chosen step\'s own passage comes up', () => {
+      const plan = new ReplayPlan('run-parent', PARENT_STEPS[4], PARENT_STEPS, { tone: 'formal' });
+
+      expect(plan.takeStepInput('Task_Review')).toBeUndefined();
+      // The first Task_Draft passage is still to be replayed
+      expect(plan.takeStepInput('Task_Draft')).toBeUndefined();
+      plan.takeStep('Task_Draft');
+      expect(plan.takeStepInput('Task_Draft')).toEqual({ tone: 'formal' });
+      expect(plan.takeStepInput('Task_Draft')).toBeUndefined();
+    });
+
+    it('skips rows a recovered replay already copied', () => {
+      const plan = new ReplayPlan('run-parent', PARENT_STEPS[7], PARENT_STEPS, { tone: 'formal' }, new Set(['s2', 's3', 's4']), true);
+
+      expect(plan.takeStep('Task_Draft')?.id).toBe('s5');
+      expect(plan.takeGateway('Gateway_Verdict')?.id).toBe('s7');
+      expect(plan.takeStepInput('Task_Publish')).toBeUndefined();
+    });
+  });
+
+  describe('compareRunSteps', () => {
+    it('pairs passages by step key, marking replayed and changed steps', () => {
+      const replaySteps = [
+        step('r1', 'Start', { step_type: 'start', run_id: 'run-replay' }),
+        step('r2', 'Task_Draft', { replayed_from_step_id: 's2' } as Partial<FlowStep>),
+        step('r3', 'Task_Draft', { output_data: { response: 'third draft' } }),
+        step('r4', 'Task_Search', { step_type: 'tool' }),
+        step('r5', 'Task_Extra'),
+      ];
+      const comparison = compareRunSteps(PARENT_STEPS.slice(0, 2).concat(PARENT_STEPS[4]), replaySteps);
+
+      expect(comparison.map(c => [c.stepKey, c.parent?.id ?? null, c.replay?.id ?? null, c.replayed, c.changed])).toEqual([
+        ['Start', 's1', 'r1', false, false],
+        ['Task_Draft', 's2', 'r2', true, false],
+        ['Task_Draft', 's5', 'r3', false, true],
+        ['Task_Extra', null, 'r5', false, true],
+      ]);
+    });
+  });
+
+  describe('replaying a run', () => {
+    const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Defs" targetNamespace="http://flowgrid.test">
+  <bpmn:process id="Process_Orch" isExecutable="true">
+    <bpmn:laneSet id="LaneSet">
+      <bpmn:lane id="Lane_Research" name="Research Agent"><bpmn:flowNodeRef>Task_Research</bpmn:flowNodeRef></bpmn:lane>
+      <bpmn:lane id="Lane_Writer" name="Writer Agent"><bpmn:flowNodeRef>Task_Write</bpmn:flowNodeRef></bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" />
+    <bpmn:serviceTask id="Task_Research" name="Research Topic">
+      <bpmn:documentation>Output: { findings: string }</bpmn:documentation>
+    </bpmn:serviceTask>
+    <bpmn:serviceTask id="Task_Write" name="Write Summary">
+      <bpmn:documentation>Input: { findings: string }
+Output: { summary: string }</bpmn:documentation>
+    </bpmn:serviceTask>
+    <bpmn:endEvent id="End" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Task_Research" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Research" targetRef="Task_Write" />
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Task_Write" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+    /**
+     * A test runtime that records replayed steps and replay sources in memory.
+     */
+    function replayRuntime() {
+      const runtime = createTestRuntime([
+        orchestratorAgent(bpmn), workerAgent('agent-research', 'Research Agent'), workerAgent('agent-writer', 'Writer Agent'),
+      ]);
+      Object.assign(runtime.runner.getStateManager(), {
+        replayStep: async (stepId: string, recorded: FlowStep) => {
+          Object.assign(runtime.steps.find(s => s.id === stepId)!, {
+            status: recorded.status, output_data: recorded.output_data, error: recorded.error, replayed_from_step_id: recorded.id,
+          });
+        },
+        setReplaySource: async (runId: string, parentRunId: string, fromStepId: string, stepInput?: Record<string, any> | null) => {
+          Object.assign(runtime.runs.get(runId)!, { parent_run_id: parentRunId, replay_from_step_id: fromStepId, replay_step_input: stepInput || null });
+        },
+      });
+
+      // Replay a run and wait until the replay completes or fails
+      const replay = (runId: string, options: { fromStepId?: string; stepInput?: Record<string, any> } = {}): Promise<FlowRun> =>
+        new Promise((resolve, reject) => {
+          const finished = new Set<string>();
+          let replayId: string | undefined;
+          const settle = () => {
+            if (!replayId || !finished.has(replayId)) return;
+            runtime.runner.off('run.complete', finish);
+            runtime.runner.off('run.error', finish);
+            resolve(runtime.runs.get(replayId)!);
+          };
+          const finish = (event: { runId: string }) => {
+            finished.add(event.runId);
+            settle();
+          };
+          runtime.runner.on('run.complete', finish);
+          runtime.runner.on('run.error', finish);
+          runtime.runner.replayRun(runId, TENANT_ID, options, 'user-1')
+            .then(run => {
+              replayId = run.id;
+              settle();
+            })
+            .catch(reject);
+        });
+
+      return { ...runtime, replay };
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('reuses recorded outputs before the chosen step and re-executes it with edited input', async () => {
+      const runtime = replayRuntime();
+      const parent = await runtime.run({ request: 'Summarise the market' });
+      const parentSteps = runtime.steps.filter(s => s.run_id === parent.id);
+      const parentWrite = parentSteps.find(s => s.step_key === 'Task_Write')!;
+      runtime.usage.length = 0;
+
+      const replay = await runtime.replay(parent.id, { fromStepId: parentWrite.id, stepInput: { tone: 'formal' } });
+
+      expect(replay.status).toBe('completed');
+      expect(replay).toEqual(expect.objectContaining({ parent_run_id: parent.id, replay_from_step_id: parentWrite.id }));
+      const replaySteps = runtime.steps.filter(s => s.run_id === replay.id);
+      const research = replaySteps.find(s => s.step_key === 'Task_Research')!;
+      const parentResearch = parentSteps.find(s => s.step_key === 'Task_Research')!;
+      expect(research.replayed_from_step_id).toBe(parentResearch.id);
+      expect(research.output_data).toEqual(parentResearch.output_data);
+      expect(replaySteps.find(s => s.step_key === 'Task_Write')!.input_data).toEqual(expect.objectContaining({ tone: 'formal' }));
+
+      // Only the re-executed step called its agent
+      expect(runtime.usage.map(u => u.context.elementId)).toEqual(['Task_Write']);
+
+      const comparison = compareRunSteps(parentSteps, replaySteps);
+      expect(comparison.find(c => c.stepKey === 'Task_Research')).toEqual(expect.objectContaining({ replayed: true, changed: false }));
+      expect(comparison.find(c => c.stepKey === 'Task_Write')!.replayed).toBe(false);
+    });
+
+    it('starts from the parent\'s failed step by default', async () => {
+      const runtime = replayRuntime();
+      const parent = await runtime.run({ request: 'Summarise the market' });
+      const write = runtime.steps.find(s => s.run_id === parent.id && s.step_key === 'Task_Write')!;
+      Object.assign(write, { status: 'failed', error: 'Provider timeout' });
+      Object.assign(parent, { status: 'failed' });
+
+      const replay = await runtime.replay(parent.id);
+
+      expect(replay.status).toBe('completed');
+      expect(replay.replay_from_step_id).toBe(write.id);
+    });
+
+    it('only replays finished runs of the tenant', async () => {
+      const runtime = replayRuntime();
+      const parent = await runtime.run({ request: 'Summarise the market' });
+      Object.assign(parent, { status: 'paused' });
+
+      await expect(runtime.runner.replayRun(parent.id, TENANT_ID)).rejects.toThrow('Run is still paused; only finished runs can be replayed');
+      await expect(runtime.runner.replayRun('run-missing', TENANT_ID)).rejects.toThrow(new ReplayError('Run not found'));
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Run Schedule Tests
+ *
+ * Cron expressions evaluated in a schedule's timezone, validating schedules and rendering
+ * their input, and the leader-elected scheduler applying overlap policies to due runs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { CronExpressionError, nextCronOccurrence, nextCronOccurrences, parseCron } from '../src/engine/cron';
+import { RunScheduler, RunSchedule, renderInputTemplate, validateSchedule } from '../src/engine/run-scheduler';
+
+describe('cron expressions', () => {
+  it('finds the next matching minute, skipping days that cannot match', () => {
+    // Friday evening, after the last slot of the working day
+    expect(nextCronOccurrence('*/15 9-17 * * MON-FRI', 'UTC', new Date('2026-03-06T17:50:00Z'))).toEqual(new Date('2026-03-09T09:00:00Z'));
+    expect(nextCronOccurrence('*/15 9-17 * * MON-FRI', 'UTC', new Date('2026-03-09T09:00:00Z'))).toEqual(new Date('2026-03-09T09:15:00Z'));
+  });
+
+  it('matches either day field when both are restricted, and takes 7 as Sunday', () => {
+    expect(nextCronOccurrence('0 0 13 * FRI', 'UTC', new Date('2026-03-01T00:00:00Z'))).toEqual(new Date('2026-03-06T00:00:00Z'));
+    expect(nextCronOccurrence('0 12 * * 7', 'UTC', new Date('2026-03-02T00:00:00Z'))).toEqual(new Date('2026-03-08T12:00:00Z'));
+    expect(parseCron('0 0 * * 5-7').daysOfWeek).toEqual(new Set([5, 6, 0]));
+  });
+
+  it('accepts macros and looks years ahead for rare dates', () => {
+    expect(nextCronOccurrence('@monthly', 'UTC', new Date('2026-03-02T00:00:00Z'))).toEqual(new Date('2026-04-01T00:00:00Z'));
+    expect(nextCronOccurrence('0 0 29 FEB *', 'UTC', new Date('2026-03-01T00:00:00Z'))).toEqual(new Date('2028-02-29T00:00:00Z'));
+  });
+
+  it('evaluates the expression on the timezone\'s wall clock', () => {
+    // Berlin is UTC+1 until the end of March
+    expect(nextCronOccurrence('0 9 * * *', 'Europe/Berlin', new Date('2026-03-02T10:00:00Z'))).toEqual(new Date('2026-03-03T08:00:00Z'));
+  });
+
+  it('skips a time daylight saving jumps over, and fires a repeated time once', () => {
+    // New York springs forward from 02:00 to 03:00 on 8 March, and falls back from 02:00 to 01:00 on 1 November
+    expect(nextCronOccurrences('30 2 * * *', 'America/New_York', 2, new Date('2026-03-07T12:00:00Z')))
+      .toEqual([new Date('2026-03-09T06:30:00Z'), new Date('2026-03-10T06:30:00Z')]);
+    expect(nextCronOccurrences('30 1 * * *', 'America/New_York', 2, new Date('2026-11-01T04:00:00Z')))
+      .toEqual([new Date('2026-11-01T05:30:00Z'), new Date('2026-11-02T06:30:00Z')]);
+  });
+
+  it('rejects malformed expressions, impossible dates and unknown timezones', () => {
+    expect(() => parseCron('* * *')).toThrow('"* * *" must have five fields: minute hour day-of-month month day-of-week');
+    expect(() => parseCron('60 * * * *')).toThrow('minute field "60" must be within 0-59');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step in minute field "*/0"');
+    expect(() => parseCron('0 0 * * FUNDAY')).toThrow('Invalid day-of-week "FUNDAY"');
+    expect(() => nextCronOccurrence('0 0 31 2 *')).toThrow('"0 0 31 2 *" does not fire in the next 5 years');
+    expect(() => nextCronOccurrence('@daily', 'Mars/Olympus')).toThrow(CronExpressionError);
+  });
+});
+
+describe('run schedules', () => {
+  it('validates new schedules and updates', () => {
+    expect(validateSchedule({ name: 'Morning report', cron: '0 7 * * MON-FRI', timezone: 'Europe/London', overlapPolicy: 'queue' })).toBeNull();
+    expect(validateSchedule({ cron: '0 7 * * *' })).toBe('name is required');
+    expect(validateSchedule({ overlapPolicy: 'skip' }, true)).toBeNull();
+    expect(validateSchedule({ overlapPolicy: 'replace' }, true)).toBe('overlapPolicy must be one of: skip, queue, allow');
+    expect(validateSchedule({ timezone: 'Nowhere/City' }, true)).toBe('Unknown timezone "Nowhere/City"');
+    expect(validateSchedule({ input: ['a'] }, true)).toBe('input must be an object');
+    expect(validateSchedule({ cron: '0 25 * * *' }, true)).toBe('hour field "25" must be within 0-23');
+  });
+
+  it('fills the scheduled time and local date into the input template', () => {
+    const scheduledAt = new Date('2026-03-01T20:00:00Z');
+    expect(renderInputTemplate(
+      { request: 'Report for {{ date }}', at: '{{scheduledAt}}', tags: ['{{date}}', 3], nested: { limit: 10 } },
+      scheduledAt, 'Asia/Tokyo'
+    )).toEqual({
+      request: 'Report for 2026-03-02', at: '2026-03-01T20:00:00.000Z', tags: ['2026-03-02', 3], nested: { limit: 10 },
+    });
+  });
+});
+
+describe('RunScheduler', () => {
+  const PAST = new Date(Date.now() - 60000);
+
+  function scheduleRow(overrides: Record<string, any> = {}): Record<string, any> {
+    return {
+      id: 'schedule-1', tenant_id: 'tenant-1', foundation_id: 'foundation-1', name: 'Morning report',
+      cron_expression: '0 7 * * *', timezone: 'UTC', input_template: { request: 'Report for {{date}}' },
+      overlap_policy: 'skip', status: 'active', next_run_at: PAST, queued_at: null,
+      last_run_at: null, last_run_id: null, last_skipped_at: null, last_error: null, created_by: 'user-1', ...overrides,
+    };
+  }
+
+  /**
+   * A pool serving `rows` as the due schedules and `runStatuses` for flow_runs. The leader
+   * lock is free unless `leaderTaken`; claims fail for schedules in `claimedElsewhere`.
+   */
+  function schedulerPool(rows: Record<string, any>[], options: { runStatuses?: Record<string, string>; leaderTaken?: boolean; claimedElsewhere?: boolean } = {}) {
+    const queries: { sql: string; params: any[] }[] = [];
+    const client = {
+      query: jest.fn(async (sql: string) => {
+        queries.push({ sql, params: [] });
+        if (/pg_try_advisory_lock/.test(sql)) return { rows: [{ acquired: !options.leaderTaken }] };
+        return { rows: [] };
+      }),
+      on: jest.fn(),
+      release: jest.fn(),
+    };
+    const pool = {
+      connect: jest.fn(async () => client),
+      query: async (sql: string, params: any[] = []) => {
+        queries.push({ sql, params });
+        if (/SELECT \* FROM run_schedules/.test(sql)) return { rows };
+        if (/SELECT status FROM flow_runs/.test(sql)) {
+          const status = options.runStatuses?.[params[0]];
+          return { rows: status ? [{ status }] : [] };
+        }
+        if (/RETURNING id/.test(sql)) return { rows: options.claimedElsewhere ? [] : [{ id: params[0] }] };
+        return { rows: [] };
+      },
+    } as unknown as Pool;
+    const updates = (pattern: RegExp) => queries.filter(q => pattern.test(q.sql));
+    return { pool, client, queries, updates };
+  }
+
+  let onDue: jest.Mock<(schedule: RunSchedule, input: Record<string, any>) => Promise<{ id: string }>>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    onDue = jest.fn(async () => ({ id: 'run-new' }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does nothing on instances that are not the leader', async () => {
+    const { pool, client, updates } = schedulerPool([scheduleRow()], { leaderTaken: true });
+    const scheduler = new RunScheduler(pool, onDue);
+
+    expect(await scheduler.tick()).toEqual({ started: 0, skipped: 0, queued: 0 });
+    expect(scheduler.isLeader()).toBe(false);
+    expect(client.release).toHaveBeenCalled();
+    expect(updates(/FROM run_schedules/)).toEqual([]);
+  });
+
+  it('starts a due schedule with its rendered input and claims its next occurrence', async () => {
+    const { pool, updates } = schedulerPool([scheduleRow()]);
+    const scheduler = new RunScheduler(pool, onDue);
+
+    expect(await scheduler.tick()).toEqual({ started: 1, skipped: 0, queued: 0 });
+
+    expect(scheduler.isLeader()).toBe(true);
+    const claim = updates(/SET next_run_at = \$3/)[0];
+    expect(claim.params.slice(0, 2)).toEqual(['schedule-1', PAST]);
+    expect(claim.params[2].getTime()).toBeGreaterThan(Date.now());
+    const [schedule, input] = onDue.mock.calls[0];
+    expect(schedule.foundationId).toBe('foundation-1');
+    expect(input).toEqual({
+      request: `Report for ${PAST.toISOString().substring(0, 10)}`,
+      schedule: { id: 'schedule-1', name: 'Morning report', scheduledAt: PAST.toISOString() },
+    });
+    expect(updates(/SET last_run_id = \$2/)[0].params).toEqual(['schedule-1', 'run-new']);
+  });
+
+  it('skips an occurrence while the previous run is active under the skip policy', async () => {
+    const { pool, updates } = schedulerPool([scheduleRow({ last_run_id: 'run-1' })], { runStatuses: { 'run-1': 'paused' } });
+
+    expect(await new RunScheduler(pool, onDue).tick()).toEqual({ started: 0, skipped: 1, queued: 0 });
+    expect(onDue).not.toHaveBeenCalled();
+    expect(updates(/SET last_skipped_at/)[0].params).toEqual(['schedule-1', PAST]);
+  });
+
+  it('queues an occurrence while the previous run is active under the queue policy', async () => {
+    const { pool, updates } = schedulerPool([scheduleRow({ last_run_id: 'run-1', overlap_policy: 'queue' })], { runStatuses: { 'run-1': 'running' } });
+
+    expect(await new RunScheduler(pool, onDue).tick()).toEqual({ started: 0, skipped: 0, queued: 1 });
+    expect(onDue).not.toHaveBeenCalled();
+    expect(updates(/SET queued_at = COALESCE\(queued_at, \$2\)/)[0].params).toEqual(['schedule-1', PAST]);
+  });
+
+  it('starts alongside the previous run under the allow policy', async () => {
+    const { pool } = schedulerPool([scheduleRow({ last_run_id: 'run-1', overlap_policy: 'allow' })], { runStatuses: { 'run-1': 'running' } });
+
+    expect(await new RunScheduler(pool, onDue).tick()).toEqual({ started: 1, skipped: 0, queued: 0 });
+  });
+
+  it('starts a queued occurrence once the previous run has finished', async () => {
+    const queuedAt = new Date(Date.now() - 3600000);
+    const row = scheduleRow({ last_run_id: 'run-1', overlap_policy: 'queue', next_run_at: new Date(Date.now() + 3600000), queued_at: queuedAt });
+    const { pool, updates } = schedulerPool([row], { runStatuses: { 'run-1': 'completed' } });
+
+    expect(await new RunScheduler(pool, onDue).tick()).toEqual({ started: 1, skipped: 0, queued: 0 });
+    expect(updates(/SET queued_at = NULL/)[0].params).toEqual(['schedule-1', queuedAt]);
+    expect(onDue.mock.calls[0][1].schedule.scheduledAt).toBe(queuedAt.toISOString());
+  });
+
+  it('leaves an occurrence another instance claimed first', async () => {
+    const { pool } = schedulerPool([scheduleRow()], { claimedElsewhere: true });
+
+    expect(await new RunScheduler(pool, onDue).tick()).toEqual({ started: 0, skipped: 0, queued: 0 });
+    expect(onDue).not.toHaveBeenCalled();
+  });
+
+  it('pauses a schedule whose expression no longer parses, and records other failures', async () => {
+    const { pool, updates } = schedulerPool([
+      scheduleRow({ id: 'schedule-bad', cron_expression: 'every morning' }),
+      scheduleRow({ id: 'schedule-2' }),
+    ]);
+    onDue.mockRejectedValue(new Error('Foundation not found'));
+
+    expect(await new RunScheduler(pool, onDue).tick()).toEqual({ started: 0, skipped: 0, queued: 0 });
+    expect(updates(/SET last_error = \$2, status = CASE/).map(q => q.params)).toEqual([
+      ['schedule-bad', '"every morning" must have five fields: minute hour day-of-month month day-of-week', true],
+      ['schedule-2', 'Foundation not found', false],
+    ]);
+  });
+
+  it('keeps leading while its connection is alive, and gives up the lock when stopped', async () => {
+    const { pool, client } = schedulerPool([]);
+    const scheduler = new RunScheduler(pool, onDue);
+
+    await scheduler.tick();
+    await scheduler.tick();
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+
+    scheduler.stop();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(client.query).toHaveBeenLastCalledWith('SELECT pg_advisory_unlock(hashtext($1))', ['flowgrid:run-scheduler']);
+    expect(client.release).toHaveBeenCalled();
+    expect(scheduler.isLeader()).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * In-memory runtime for FlowRunner tests.
+ *
+ * Runs and steps are kept in memory in place of flow_runs / flow_steps, the foundation's
+ * agents are served from the given list, and the tenant's default LLM provider is the
+ * offline mock (providers/mock.ts). Agents have no integration tools unless a tool client
+ * is passed. Every other query gets no rows.
+ */
+
+import { Pool } from 'pg';
+import { FlowRunner, FoundationAgent } from '../../src/engine/flow-runner';
+import { FlowRun, FlowStep, UsageContext } from '../../src/engine/state-manager';
+import { RunOwner } from '../../src/engine/run-leases';
+import { IntegrationToolClient, ToolCallError } from '../../src/engine/integration-tools';
+import { LLMCallUsage } from '../../src/providers';
+
+export const TENANT_ID = '7c0e1a52-0000-4000-8000-000000000001';
+export const FOUNDATION_ID = '7c0e1a52-0000-4000-8000-000000000002';
+
+export interface RecordedQuery {
+  sql: string;
+  params: any[];
+}
+
+export interface TestRuntime {
+  runner: FlowRunner;
+  pool: Pool;
+  runs: Map<string, FlowRun>;
+  steps: FlowStep[];
+  usage: { context: UsageContext; calls: LLMCallUsage[] }[];
+  queries: RecordedQuery[];
+  // Start a run and wait until it completes or fails
+  run(input: any): Promise<FlowRun>;
+}
+
+export interface TestRuntimeOptions {
+  foundationMetadata?: Record<string, any>;
+  // Rows for other queries, by a pattern their SQL matches
+  rows?: [RegExp, (params: any[]) => any[]][];
+  // In place of integration-service
+  tools?: Pick<IntegrationToolClient, 'listTools' | 'invoke'>;
+}
+
+const NO_TOOLS: Pick<IntegrationToolClient, 'listTools' | 'invoke'> = {
+  listTools: async () => [],
+  invoke: async (tenantId, agentId, call) => { throw new ToolCallError(`Agent ${agentId} has no tool ${call.name}`, 404); },
+};
+
+/**
+ * A foundation's orchestrator agent: its BPMN is what the runner executes.
+ */
+export function orchestratorAgent(bpmnXml: string): FoundationAgent {
+  return { id: 'agent-orchestrator', name: 'Orchestrator', config: { foundationId: FOUNDATION_ID, pattern: 'orchestrator', bpmnXml } };
+}
+
+export function workerAgent(id: string, name: string): FoundationAgent {
+  return { id, name, config: { foundationId: FOUNDATION_ID, purpose: `${name} for tests` } };
+}
+
+export function createTestRuntime(agents: FoundationAgent[], options: TestRuntimeOptions = {}): TestRuntime {
+  const queries: RecordedQuery[] = [];
+  let eventId = 0;
+
+  const query = async (sql: string, params: any[] = []) => {
+    queries.push({ sql, params });
+    for (const [pattern, rows] of options.rows || []) {
+      if (pattern.test(sql)) return { rows: rows(params), rowCount: 1 };
+    }
+    if (/FROM foundations/.test(sql)) {
+      return { rows: [{ id: FOUNDATION_ID, tenant_id: TENANT_ID, metadata: options.foundationMetadata || {} }] };
+    }
+    if (/FROM agents/.test(sql)) return { rows: agents };
+    if (/FROM llm_provider_configs/.test(sql)) return { rows: [{ provider: 'mock', is_default: true }] };
+    if (/INSERT INTO flow_run_events/.test(sql)) return { rows: [{ id: ++eventId, seq: eventId, created_at: new Date() }] };
+    return { rows: [], rowCount: 0 };
+  };
+  const pool = {
+    query,
+    connect: async () => ({ query, release: () => undefined }),
+  } as unknown as Pool;
+
+  const runner = new FlowRunner(pool, options.tools || NO_TOOLS);
+  const runs = new Map<string, FlowRun>();
+  const steps: FlowStep[] = [];
+  const usage: TestRuntime['usage'] = [];
+
+  const stateManager = runner.getStateManager();
+  Object.assign(stateManager, {
+    createRun: async (tenantId: string, foundationId: string, inputData: any, owner: RunOwner, orchestratorId?: string) => {
+      const run = {
+        id: `run-${runs.size + 1}`, tenant_id: tenantId, foundation_id: foundationId, orchestrator_id: orchestratorId,
+        owner_instance: owner.instanceId, status: 'running', input_data: inputData || {}, output_data: null, started_at: new Date(),
+      } as FlowRun;
+      runs.set(run.id, run);
+      return { ...run };
+    },
+    updateRunStatus: async (runId: string, status: string, outputData?: any, error?: string) => {
+      const run = runs.get(runId);
+      if (!run) return;
+      Object.assign(run, { status, ...(outputData && { output_data: outputData }), error });
+    },
+    getRun: async (runId: string) => runs.get(runId) || null,
+    getRunById: async (runId: string) => runs.get(runId) || null,
+    createStep: async (runId: string, stepKey: string, stepName: string, stepType: string, agentId?: string, agentName?: string) => {
+      const step = {
+        id: `step-${steps.length + 1}`, run_id: runId, step_key: stepKey, step_name: stepName, step_type: stepType,
+        agent_id: agentId, agent_name: agentName, status: 'pending', input_data: null, output_data: null,
+      } as FlowStep;
+      steps.push(step);
+      return { ...step };
+    },
+    createToolStep: async (runId: string, parentStepId: string, stepKey: string, toolName: string, input: any, agentId?: string, agentName?: string) => {
+      const step = {
+        id: `step-${steps.length + 1}`, run_id: runId, parent_step_id: parentStepId, step_key: stepKey, step_name: toolName, step_type: 'tool',
+        agent_id: agentId, agent_name: agentName, status: 'running', input_data: input || {}, output_data: null,
+      } as FlowStep;
+      steps.push(step);
+      return { ...step };
+    },
+    updateStepStatus: async (stepId: string, status: string, outputData?: any, error?: string) => {
+      const step = steps.find(s => s.id === stepId);
+      if (!step) return;
+      Object.assign(step, { status, ...(outputData && { output_data: outputData }), ...(error && { error }) });
+    },
+    failInterruptedSteps: async (runId: string, error: string, stepType?: string) => {
+      steps.filter(s => s.run_id === runId && s.status === 'running' && (!stepType || s.step_type === stepType))
+        .forEach(s => Object.assign(s, { status: 'failed', error }));
+    },
+    updateStepInput: async (stepId: string, inputData: any) => {
+      const step = steps.find(s => s.id === stepId);
+      if (step) step.input_data = inputData;
+    },
+    getSteps: async (runId: string) => steps.filter(s => s.run_id === runId),
+    recordUsage: async (context: UsageContext, calls: LLMCallUsage[]) => {
+      if (calls.length > 0) usage.push({ context, calls });
+    },
+  });
+
+  const run = (input: any): Promise<FlowRun> => new Promise((resolve, reject) => {
+    let runId: string | undefined;
+    const finished = new Set<string>();
+    const settle = () => {
+      if (!runId || !finished.has(runId)) return;
+      runner.off('run.complete', finish);
+      runner.off('run.error', finish);
+      resolve(runs.get(runId)!);
+    };
+    const finish = (event: { runId: string }) => {
+      finished.add(event.runId);
+      settle();
+    };
+    runner.on('run.complete', finish);
+    runner.on('run.error', finish);
+    runner.startRun(TENANT_ID, FOUNDATION_ID, input)
+      .then(started => {
+        runId = started.id;
+        settle();
+      })
+      .catch(reject);
+  });
+
+  return { runner, pool, runs, steps, usage, queries, run };
+}
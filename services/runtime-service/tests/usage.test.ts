@@ -0,0 +1,215 @@
+/**
+ * LLM Usage Tests
+ *
+ * Cost estimates from the price table, usage entries for completions and images,
+ * recording a step's calls in the usage ledger and the step and run totals, and the
+ * usage summary API.
+ */
+
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { completionUsage, estimateCost, imageUsage, LLMCallUsage } from '../src/providers';
+import { StateManager, UsageContext } from '../src/engine/state-manager';
+import { createRuntimeRouter } from '../src/routes/runtime';
+import { TENANT_ID, TestRuntime, createTestRuntime } from './support/test-runtime';
+
+const CONTEXT: UsageContext = {
+  tenantId: 'tenant-1', runId: 'run-1', foundationId: 'foundation-1', stepId: 'step-1',
+  elementId: 'Task_Write', agentId: 'agent-1', agentName: 'Writer',
+};
+
+function usage(overrides: Partial<LLMCallUsage>): LLMCallUsage {
+  return {
+    callType: 'agent', provider: 'openai', model: 'gpt-4o', promptTokens: 0, completionTokens: 0,
+    images: 0, latencyMs: 0, costUsd: 0, ...overrides,
+  };
+}
+
+describe('LLM usage', () => {
+  afterEach(() => {
+    delete process.env.LLM_PRICING_JSON;
+    jest.restoreAllMocks();
+  });
+
+  describe('estimateCost', () => {
+    it('prices prompt and completion tokens per million', () => {
+      expect(estimateCost('openai', 'gpt-4o', 1_000_000, 0)).toBe(2.5);
+      expect(estimateCost('openai', 'gpt-4o', 1000, 500)).toBe(0.0075);
+      expect(estimateCost('anthropic', 'claude-3-5-haiku', 2000, 1000)).toBe(0.0056);
+    });
+
+    it('matches dated versions and deployments by the longest model prefix', () => {
+      expect(estimateCost('openai', 'gpt-4o-2024-08-06', 1_000_000, 0)).toBe(2.5);
+      expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBe(0.15);
+      expect(estimateCost('azure-openai', 'GPT-4.1-nano-prod', 0, 1_000_000)).toBe(0.4);
+    });
+
+    it('prices images per image', () => {
+      expect(estimateCost('openai', 'dall-e-3', 0, 0, 3)).toBe(0.12);
+    });
+
+    it('is free for local and mock providers, and unknown for unpriced models', () => {
+      expect(estimateCost('local', 'llama3', 1_000_000, 1_000_000)).toBe(0);
+      expect(estimateCost('mock', 'mock-1', 1_000_000, 1_000_000)).toBe(0);
+      expect(estimateCost('openai', 'davinci-002', 1000, 1000)).toBeNull();
+    });
+
+    it('takes extra and overriding prices from LLM_PRICING_JSON', () => {
+      process.env.LLM_PRICING_JSON = JSON.stringify({ 'my-deployment': { prompt: 1, completion: 2 }, 'gpt-4o': { prompt: 5, completion: 20 } });
+      jest.isolateModules(() => {
+        const pricing = require('../src/providers/pricing');
+        expect(pricing.estimateCost('azure-openai', 'my-deployment', 1_000_000, 1_000_000)).toBe(3);
+        expect(pricing.estimateCost('openai', 'gpt-4o', 1_000_000, 0)).toBe(5);
+      });
+    });
+
+    it('ignores an invalid LLM_PRICING_JSON', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      process.env.LLM_PRICING_JSON = '{not json';
+      jest.isolateModules(() => {
+        const pricing = require('../src/providers/pricing');
+        expect(pricing.estimateCost('openai', 'gpt-4o', 1_000_000, 0)).toBe(2.5);
+      });
+      expect(console.error).toHaveBeenCalledWith('[llm-pricing] Ignoring invalid LLM_PRICING_JSON:', expect.any(String));
+    });
+  });
+
+  describe('usage entries', () => {
+    it('records a completion\'s tokens, latency and cost', () => {
+      expect(completionUsage('routing', {
+        text: '1', model: 'gpt-4o-mini', provider: 'openai', usage: { promptTokens: 1000, completionTokens: 10 }, latencyMs: 320,
+      })).toEqual({
+        callType: 'routing', provider: 'openai', model: 'gpt-4o-mini', promptTokens: 1000, completionTokens: 10,
+        images: 0, latencyMs: 320, costUsd: 0.000156,
+      });
+    });
+
+    it('counts a completion without reported usage as zero tokens', () => {
+      expect(completionUsage('agent', { text: 'hi', model: 'gpt-4o', provider: 'openai' }))
+        .toEqual(expect.objectContaining({ promptTokens: 0, completionTokens: 0, latencyMs: 0, costUsd: 0 }));
+    });
+
+    it('records an image as one image of its model', () => {
+      expect(imageUsage('openai', { url: 'https://images.test/1.png', model: 'dall-e-3', latencyMs: 9000 })).toEqual({
+        callType: 'image', provider: 'openai', model: 'dall-e-3', promptTokens: 0, completionTokens: 0,
+        images: 1, latencyMs: 9000, costUsd: 0.04,
+      });
+    });
+  });
+
+  describe('StateManager.recordUsage', () => {
+    function ledgerPool(failOn?: RegExp) {
+      const queries: { sql: string; params: any[] }[] = [];
+      const client = {
+        query: async (sql: string, params: any[] = []) => {
+          queries.push({ sql: sql.trim(), params });
+          if (failOn?.test(sql)) throw new Error('connection lost');
+          return { rows: [] };
+        },
+        release: jest.fn(),
+      };
+      const pool = { connect: async () => client } as unknown as Pool;
+      return { pool, client, queries };
+    }
+
+    it('adds every call to the ledger and the totals to the step and run, in one transaction', async () => {
+      const { pool, client, queries } = ledgerPool();
+      await new StateManager(pool).recordUsage(CONTEXT, [
+        usage({ callType: 'image_prompt', model: 'gpt-4o-mini', promptTokens: 300, completionTokens: 100, latencyMs: 800, costUsd: 0.0001 }),
+        usage({ promptTokens: 1000, completionTokens: 500, latencyMs: 2000, costUsd: 0.0075 }),
+        usage({ callType: 'image', model: 'dall-e-3', images: 1, latencyMs: 9000, costUsd: null }),
+      ]);
+
+      expect(queries[0].sql).toBe('BEGIN');
+      const inserts = queries.filter(q => q.sql.startsWith('INSERT INTO llm_usage'));
+      expect(inserts.map(q => q.params.slice(7, 10))).toEqual([
+        ['image_prompt', 'openai', 'gpt-4o-mini'], ['agent', 'openai', 'gpt-4o'], ['image', 'openai', 'dall-e-3'],
+      ]);
+      expect(inserts[0].params.slice(0, 7)).toEqual(['tenant-1', 'run-1', 'step-1', 'foundation-1', 'agent-1', 'Writer', 'Task_Write']);
+
+      // The step is attributed to its agent call, whatever came first
+      const step = queries.find(q => q.sql.startsWith('UPDATE flow_steps'))!;
+      expect(step.params).toEqual(['openai', 'gpt-4o', 1300, 600, 11800, 0.0076, 'step-1']);
+      const run = queries.find(q => q.sql.startsWith('UPDATE flow_runs'))!;
+      expect(run.params).toEqual([1300, 600, 11800, 0.0076, 3, 'run-1']);
+      expect(queries[queries.length - 1].sql).toBe('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('skips the step totals for calls outside a step', async () => {
+      const { pool, queries } = ledgerPool();
+      await new StateManager(pool).recordUsage({ ...CONTEXT, stepId: undefined }, [usage({ callType: 'routing', promptTokens: 50 })]);
+
+      expect(queries.some(q => q.sql.startsWith('UPDATE flow_steps'))).toBe(false);
+      expect(queries.find(q => q.sql.startsWith('UPDATE flow_runs'))!.params).toEqual([50, 0, 0, 0, 1, 'run-1']);
+    });
+
+    it('rolls back and rethrows when a write fails', async () => {
+      const { pool, client, queries } = ledgerPool(/UPDATE flow_runs/);
+      await expect(new StateManager(pool).recordUsage(CONTEXT, [usage({ promptTokens: 1 })])).rejects.toThrow('connection lost');
+
+      expect(queries[queries.length - 1].sql).toBe('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('does nothing without calls', async () => {
+      const { pool, queries } = ledgerPool();
+      await new StateManager(pool).recordUsage(CONTEXT, []);
+      expect(queries).toEqual([]);
+    });
+  });
+
+  describe('GET /usage', () => {
+    let runtime: TestRuntime;
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      runtime = createTestRuntime([]);
+      const app = express();
+      app.use((req, res, next) => {
+        req.tenantId = TENANT_ID;
+        next();
+      });
+      app.use('/api/runtime', createRuntimeRouter(runtime.pool, runtime.runner));
+      server = app.listen(0, '127.0.0.1');
+      await new Promise(resolve => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/runtime`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const usageQueries = () => runtime.queries.filter(q => /FROM llm_usage/.test(q.sql));
+
+    it('filters on the parsed date range', async () => {
+      const response = await fetch(`${baseUrl}/usage?groupBy=day&from=2026-03-01&to=2026-04-01T00:00:00Z`);
+
+      expect(response.status).toBe(200);
+      const query = usageQueries().pop()!;
+      expect(query.sql).toMatch(/u\.created_at >= \$2 AND u\.created_at < \$3/);
+      expect(query.params).toEqual([TENANT_ID, '2026-03-01T00:00:00.000Z', '2026-04-01T00:00:00.000Z']);
+    });
+
+    it('refuses malformed and reversed ranges with 400 without querying', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const before = usageQueries().length;
+
+      const invalid = await fetch(`${baseUrl}/usage?from=abc`);
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toEqual({ error: 'from must be a valid date' });
+
+      expect((await fetch(`${baseUrl}/usage?to=2026-13-45`)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/usage?from=2026-03-01&from=2026-03-02`)).status).toBe(400);
+      const reversed = await fetch(`${baseUrl}/usage?from=2026-04-01&to=2026-03-01`);
+      expect(await reversed.json()).toEqual({ error: 'from must be before to' });
+
+      expect(usageQueries()).toHaveLength(before);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+  });
+});
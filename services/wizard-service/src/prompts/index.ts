@@ -329,6 +329,8 @@ export async function executePromptChain<TInitial, TFinal>(
 // Step 1: Extract & Classify
 import './step1/extract';
 import './step1/classify';
+import './step1/extract-document';
+export { ExtractDocumentChunkInput } from './step1/extract-document';
 
 // Step 3: Agent Design
 import './step3/propose-agents';
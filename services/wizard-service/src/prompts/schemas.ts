@@ -57,6 +57,28 @@ export const ExtractCapabilitiesOutputSchema = z.object({
 });
 export type ExtractCapabilitiesOutput = z.infer<typeof ExtractCapabilitiesOutputSchema>;
 
+/** 1a (documents): Capability extraction from one chunk of an uploaded document */
+export const ExtractDocumentChunkOutputSchema = z.object({
+  capabilities: z.array(z.object({
+    name: z.string().max(100),
+    level: z.union([z.literal(0), z.literal(1), z.literal(2)]),
+    parentName: z.string().nullable().optional(),
+    description: z.string(),
+    automationPotential: z.enum(['low', 'medium', 'high']),
+    /** Section markers ("Sheet: …", "Page n") the capability was found in */
+    sources: z.array(z.string()).optional(),
+  })),
+  dataObjects: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+  })).optional(),
+  processes: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+  })).optional(),
+});
+export type ExtractDocumentChunkOutput = z.infer<typeof ExtractDocumentChunkOutputSchema>;
+
 /** 1b: Element classification */
 export const ClassifyElementsOutputSchema = z.object({
   elements: z.array(z.object({
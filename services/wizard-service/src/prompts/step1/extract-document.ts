@@ -0,0 +1,111 @@
+/**
+ * Prompt 1a (documents): Extract Capabilities from a Document Chunk
+ *
+ * The "map" step of document analysis: extracts capabilities, data objects and
+ * processes from one chunk of an uploaded spreadsheet, PDF or Word document.
+ * Each capability names the sections (sheet/page markers) it was found in.
+ */
+
+import { registerPrompt } from '../index';
+import { ExtractDocumentChunkOutputSchema, ExtractDocumentChunkOutput } from '../schemas';
+
+// ============================================================================
+// Input Type
+// ============================================================================
+
+export interface ExtractDocumentChunkInput {
+  fileName: string;
+  chunkText: string;
+  chunkIndex: number;
+  chunkCount: number;
+  customContext?: string;
+}
+
+// ============================================================================
+// Prompt Definition
+// ============================================================================
+
+const SYSTEM_PROMPT = `You are an Enterprise Architecture expert specializing in capability modeling and IT4IT principles.
+
+Your task is to extract business capabilities, data objects and processes from part of a document:
+a capability map spreadsheet, process documentation or a similar source. You only see one part of
+the document; other parts are analysed separately and merged afterwards.
+
+## Capability Definition
+A capability is a "WHAT" - something the organization needs to be able to do, independent of HOW it's done.
+- Good: "Customer Onboarding", "Payment Processing", "Inventory Management"
+- Bad: "Use Salesforce", "Run weekly reports" (these are implementations, not capabilities)
+
+## Reading the Document
+- Spreadsheet rows are written as "Column: value; Column: value". Capability maps often have a
+  column per level (e.g. "Level 1", "Level 2") - keep that hierarchy with level and parentName.
+- Lines like "[Sheet: Name]" or "[Page 4]" mark where a sheet or page starts.
+- Use the document's own names for capabilities; don't invent ones it doesn't support.
+
+## Output Requirements
+1. Extract ALL capabilities in this part (0 = top-level domain, 1 = major capability, 2 = sub-capability)
+2. For each capability, list the markers of the sections it appears in (e.g. ["Sheet: Level 2"] or ["Page 4", "Page 5"]), or [] if there are none
+3. List data objects (key entities, records, data stores) and processes (workflows, procedures)
+
+## JSON Output Format
+Return ONLY valid JSON matching this structure:
+{
+  "capabilities": [
+    {
+      "name": "Incident Management",
+      "level": 1,
+      "parentName": "Service Operations",
+      "description": "Restore normal service operation after disruptions",
+      "automationPotential": "high",
+      "sources": ["Sheet: Capabilities"]
+    }
+  ],
+  "dataObjects": [
+    { "name": "Incident Record", "description": "Registered disruption with its priority and status" }
+  ],
+  "processes": [
+    { "name": "Major Incident Procedure", "description": "Escalation and communication for P1 incidents" }
+  ]
+}`;
+
+const buildUserMessage = (input: ExtractDocumentChunkInput): string => {
+  let message = `## Document\n${input.fileName} (part ${input.chunkIndex + 1} of ${input.chunkCount})`;
+
+  if (input.customContext) {
+    message += `\n\n## Additional Context\n${input.customContext}`;
+  }
+
+  message += `\n\n## Content\n\n${input.chunkText}`;
+
+  message += `\n\n## Instructions
+1. Extract ALL capabilities, data objects and processes from the content above
+2. Keep the hierarchy the document shows (level and parentName)
+3. Record the section markers each capability was found in
+4. Return ONLY the JSON object, no additional text`;
+
+  return message;
+};
+
+// ============================================================================
+// Register Prompt
+// ============================================================================
+
+registerPrompt<ExtractDocumentChunkInput, ExtractDocumentChunkOutput>({
+  id: 'step1.extract-document-chunk',
+  version: '1.0.0',
+  description: 'Extract capabilities from one chunk of an uploaded document',
+  systemPrompt: SYSTEM_PROMPT,
+  buildUserMessage,
+  outputSchema: ExtractDocumentChunkOutputSchema,
+  modelPreferences: {
+    preferredModel: 'claude-sonnet-4-20250514',
+    temperature: 0.2,
+    maxTokens: 8192,
+  },
+});
+
+// ============================================================================
+// Export for direct usage
+// ============================================================================
+
+export { ExtractDocumentChunkOutput };
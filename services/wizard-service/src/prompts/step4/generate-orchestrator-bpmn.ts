@@ -198,10 +198,14 @@ Example:
     Agent: Analysis Agent
     Skill: analyze-impact
     Input: { changeRequest: object }
-    Output: { risk: string, impact: array, recommendation: string }
+    Output: { risk: "low" | "medium" | "high", impact: string[], recommendation: string, notes?: string }
   </bpmn:documentation>
 </bpmn:serviceTask>
 
+Input/Output are typed data contracts, validated at run time. Field types: string, number,
+integer, boolean, object, array, \`type[]\` for arrays, \`{ ... }\` for nested objects, and
+\`"a" | "b"\` for a fixed set of values. Fields are required unless marked with \`?\`.
+
 ### B) User Tasks (Human-in-the-Loop)
 
 Use bpmn:userTask when human approval, review, or judgment is needed.
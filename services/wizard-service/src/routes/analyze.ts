@@ -16,6 +16,9 @@ import {
 } from '../services/ai';
 import { executeA2AChain, executeQuickAnalysis } from '../services/ai-chain';
 import { createWizardSession } from '../services/database';
+import { parseArchiMateXml, ParsedArchiMate } from '../services/archimate';
+import { parseDocument, sourceLabel, DocumentParseError, SUPPORTED_DOCUMENT_EXTENSIONS } from '../services/document-parser';
+import { analyzeDocument, DocumentTooLargeError } from '../services/document-analysis';
 import { AnalyzeTextRequest, AnalyzeTextResponse, UploadImageResponse, AnalysisResult, ElementType, AgenticPattern } from '../types/wizard';
 
 const router = Router();
@@ -57,12 +60,11 @@ const uploadData = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 20 * 1024 * 1024 }, // 20MB max for data files
   fileFilter: (req, file, cb) => {
-    const allowedExtensions = ['.csv', '.xlsx', '.xls'];
     const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
-    if (allowedExtensions.includes(ext)) {
+    if (SUPPORTED_DOCUMENT_EXTENSIONS.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error('Only CSV and Excel files are allowed'));
+      cb(new Error('Only CSV, Excel, PDF and Word (.docx) files are allowed'));
     }
   }
 });
@@ -328,7 +330,9 @@ router.post('/upload-xml', uploadXml.single('file'), async (req: Request, res: R
 
 // ============================================================================
 // POST /api/wizard/upload-data
-// Upload and analyze CSV or Excel files
+// Upload and analyze CSV, Excel (every sheet), PDF or Word (.docx) files.
+// Large files are analysed chunk by chunk (map-reduce); each extracted capability
+// records the file, sheet or page it came from.
 // ============================================================================
 
 router.post('/upload-data', uploadData.single('file'), async (req: Request, res: Response) => {
@@ -344,46 +348,25 @@ router.post('/upload-data', uploadData.single('file'), async (req: Request, res:
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const fileName = req.file.originalname.toLowerCase();
+    const fileName = req.file.originalname;
     const context = req.body.context || '';
-    let textContent = '';
-
-    if (fileName.endsWith('.csv')) {
-      // Parse CSV
-      textContent = req.file.buffer.toString('utf-8');
-    } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
-      return res.status(400).json({
-        error: 'Excel files (.xlsx/.xls) are not supported. Please convert to CSV first.',
-        details: 'Excel binary formats require specialized parsing. Export your spreadsheet as CSV (File → Save As → CSV) and re-upload.',
-        suggestion: 'csv',
-      });
-    }
-
-    console.log(`[${SERVICE_NAME}] Processing data file: ${fileName} (${textContent.length} chars)`);
-
-    // Build prompt for AI analysis
-    const prompt = `Analyze this data file and extract IT/business capabilities and processes.
 
-File: ${req.file.originalname}
-${context ? `\nContext: ${context}` : ''}
+    const document = await parseDocument(fileName, req.file.buffer);
+    console.log(`[${SERVICE_NAME}] Processing data file: ${fileName} (${document.format}, ${document.sections.length} sections, ${document.totalChars} chars)`);
 
-Data Content:
-${textContent.slice(0, 15000)}
-
-Extract:
-1. Business capabilities (what functions/services are represented)
-2. Data objects (key entities and data types)
-3. Processes (workflows and procedures implied by the data)
-
-Focus on IT service management, technology, and operational aspects.`;
-
-    // Use text analysis
-    const analysis = await analyzeTextDescription(prompt);
+    const { analysis, chunkCount } = await analyzeDocument(document, context || undefined);
 
     // Create wizard session
-    const sessionId = await createWizardSession(tid, 'data-upload', 'text', { 
-      fileName: req.file.originalname, 
-      context 
+    const sessionId = await createWizardSession(tid, 'data-upload', 'text', {
+      fileName,
+      context,
+      format: document.format,
+      sections: document.sections.map(section => ({
+        ...section.source,
+        label: sourceLabel(section.source),
+        chars: section.text.length,
+      })),
+      chunks: chunkCount,
     }, analysis);
 
     res.json({
@@ -391,10 +374,25 @@ Focus on IT service management, technology, and operational aspects.`;
       sessionId,
       analysis,
       source: 'data',
-      fileName: req.file.originalname,
+      fileName,
+      stats: {
+        format: document.format,
+        sections: document.sections.length,
+        characters: document.totalChars,
+        chunks: chunkCount,
+      },
     });
 
   } catch (error: any) {
+    if (error instanceof DocumentParseError) {
+      return res.status(400).json({ error: error.message, details: 'Failed to read data file' });
+    }
+    if (error instanceof DocumentTooLargeError) {
+      return res.status(413).json({
+        error: error.message,
+        details: 'Split the document into smaller files and upload them separately',
+      });
+    }
     console.error(`[${SERVICE_NAME}] Data file processing error:`, error);
     res.status(500).json({ 
       error: error.message,
@@ -553,164 +551,9 @@ Focus on IT service management, technology, and operational processes where visi
 });
 
 // ============================================================================
-// ArchiMate XML Parser
+// ArchiMate Capability Extraction
 // ============================================================================
 
-/**
- * Sanitize string for safe JSON serialization
- * Removes/escapes control characters that could break JSON
- */
-function sanitizeForJson(str: string): string {
-  if (!str) return str;
-  return str
-    // Remove null bytes
-    .replace(/\0/g, '')
-    // Escape backslashes first
-    .replace(/\\/g, '\\\\')
-    // Remove control characters except common whitespace
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-    // Normalize newlines
-    .replace(/\r\n/g, '\n')
-    .replace(/\r/g, '\n')
-    // Limit consecutive newlines
-    .replace(/\n{3,}/g, '\n\n')
-    // Trim excessive whitespace
-    .trim();
-}
-
-interface ArchiMateElement {
-  id: string;
-  name: string;
-  type: string;
-  documentation?: string;
-}
-
-interface ArchiMateRelationship {
-  id: string;
-  type: string;
-  sourceId: string;
-  targetId: string;
-  name?: string;
-}
-
-interface ParsedArchiMate {
-  modelName?: string;
-  elements: ArchiMateElement[];
-  relationships: ArchiMateRelationship[];
-}
-
-function parseArchiMateXml(xmlContent: string): ParsedArchiMate {
-  const elements: ArchiMateElement[] = [];
-  const relationships: ArchiMateRelationship[] = [];
-  let modelName: string | undefined;
-
-  // Extract model name - try multiple formats
-  // Format 1: <name xml:lang="...">Model Name</name>
-  const modelNameMatch = xmlContent.match(/<model[^>]*>[\s\S]*?<name[^>]*>([^<]+)<\/name>/i);
-  if (modelNameMatch) {
-    modelName = modelNameMatch[1].trim();
-  }
-  // Format 2: name attribute
-  if (!modelName) {
-    const modelAttrMatch = xmlContent.match(/<(?:archimate:)?model[^>]*name="([^"]+)"/i);
-    if (modelAttrMatch) modelName = modelAttrMatch[1];
-  }
-
-  console.log(`[XML Parser] Detected model name: ${modelName || 'unknown'}`);
-
-  // ===== OpenGroup ArchiMate 3.0 Format =====
-  // <element identifier="id-cap-root" xsi:type="Capability">
-  //   <name xml:lang="nl">Name Here</name>
-  //   <documentation>...</documentation>
-  // </element>
-  const openGroupRegex = /<element\s+identifier="([^"]+)"\s+xsi:type="([^"]+)"[^>]*>([\s\S]*?)<\/element>/gi;
-  let match: RegExpExecArray | null;
-  
-  while ((match = openGroupRegex.exec(xmlContent)) !== null) {
-    const id = match[1];
-    const type = match[2];
-    const innerContent = match[3];
-    
-    // Extract name from <name> child element
-    const nameMatch = innerContent.match(/<name[^>]*>([^<]+)<\/name>/i);
-    const name = nameMatch ? sanitizeForJson(nameMatch[1].trim()) : `Unnamed ${type}`;
-    
-    // Extract documentation (handle multi-line and special chars)
-    const docMatch = innerContent.match(/<documentation[^>]*>([\s\S]*?)<\/documentation>/i);
-    const documentation = docMatch ? sanitizeForJson(docMatch[1].trim()) : undefined;
-
-    // Skip junction/connector elements
-    if (type.toLowerCase().includes('junction')) continue;
-
-    elements.push({
-      id,
-      name,
-      type: normalizeArchiMateType(type),
-      documentation,
-    });
-  }
-
-  console.log(`[XML Parser] Found ${elements.length} elements via OpenGroup format`);
-
-  // ===== Archi Tool Format =====
-  // <element xsi:type="archimate:ApplicationFunction" id="..." name="...">
-  if (elements.length === 0) {
-    const archiRegex = /<element[^>]*xsi:type="(?:archimate:)?([^"]+)"[^>]*id="([^"]+)"[^>]*name="([^"]*)"[^>]*>/gi;
-    while ((match = archiRegex.exec(xmlContent)) !== null) {
-      const type = match[1];
-      const id = match[2];
-      const name = sanitizeForJson(match[3]) || `Unnamed ${type}`;
-
-      if (type.toLowerCase().includes('junction')) continue;
-
-      elements.push({
-        id,
-        name,
-        type: normalizeArchiMateType(type),
-      });
-    }
-    console.log(`[XML Parser] Found ${elements.length} elements via Archi format`);
-  }
-
-  // ===== OpenGroup Relationships =====
-  // Flexible regex - attributes can be in any order
-  // <relationship identifier="..." xsi:type="..." source="..." target="...">
-  const relationshipTagRegex = /<relationship\s+([^>]+)>/gi;
-  while ((match = relationshipTagRegex.exec(xmlContent)) !== null) {
-    const attrs = match[1];
-    const idMatch = attrs.match(/identifier="([^"]+)"/);
-    const typeMatch = attrs.match(/xsi:type="([^"]+)"/);
-    const sourceMatch = attrs.match(/source="([^"]+)"/);
-    const targetMatch = attrs.match(/target="([^"]+)"/);
-    
-    if (idMatch && sourceMatch && targetMatch) {
-      relationships.push({
-        id: idMatch[1],
-        type: normalizeRelationType(typeMatch?.[1] || 'Association'),
-        sourceId: sourceMatch[1],
-        targetId: targetMatch[1],
-      });
-    }
-  }
-
-  // ===== Archi Tool Relationships =====
-  if (relationships.length === 0) {
-    const archiRelRegex = /<(?:relationship|element)[^>]*xsi:type="(?:archimate:)?([^"]*[Rr]elationship)"[^>]*id="([^"]+)"[^>]*source="([^"]+)"[^>]*target="([^"]+)"[^>]*/gi;
-    while ((match = archiRelRegex.exec(xmlContent)) !== null) {
-      relationships.push({
-        id: match[2],
-        type: normalizeRelationType(match[1]),
-        sourceId: match[3],
-        targetId: match[4],
-      });
-    }
-  }
-
-  console.log(`[XML Parser] Found ${relationships.length} relationships`);
-
-  return { modelName, elements, relationships };
-}
-
 /**
  * Extract top-level capabilities from parsed ArchiMate model
  * Filters to Capability-type elements and identifies hierarchy via composition relationships
@@ -766,52 +609,6 @@ function extractTopLevelCapabilities(parsed: ParsedArchiMate) {
   return result;
 }
 
-function normalizeArchiMateType(type: string): string {
-  // Map ArchiMate types to FlowGrid element types
-  const typeMap: Record<string, string> = {
-    'applicationfunction': 'ApplicationFunction',
-    'applicationservice': 'ApplicationService',
-    'applicationcomponent': 'Agent',
-    'applicationprocess': 'Process',
-    'businessfunction': 'Capability',
-    'businessprocess': 'Process',
-    'businessservice': 'BusinessService',
-    'businessobject': 'DataObject',
-    'dataobject': 'DataObject',
-    'artifact': 'DataObject',
-    'requirement': 'Requirement',
-    'constraint': 'Requirement',
-    'goal': 'Requirement',
-    'resource': 'Resource',
-    'capability': 'Capability',
-    'valuestream': 'Process',
-    'grouping': 'Grouping',
-    'plateau': 'Plateau',
-  };
-  
-  const normalized = type.toLowerCase().replace(/relationship$/, '');
-  return typeMap[normalized] || type;
-}
-
-function normalizeRelationType(type: string): string {
-  const typeMap: Record<string, string> = {
-    'compositionrelationship': 'Composition',
-    'aggregationrelationship': 'Composition',
-    'assignmentrelationship': 'Association',
-    'realizationrelationship': 'Realization',
-    'servingrelationship': 'Serving',
-    'accessrelationship': 'Access',
-    'flowrelationship': 'Flow',
-    'triggeringrelationship': 'Flow',
-    'associationrelationship': 'Association',
-    'specializationrelationship': 'Association',
-    'influencerelationship': 'Association',
-  };
-  
-  const normalized = type.toLowerCase();
-  return typeMap[normalized] || type.replace(/Relationship$/i, '');
-}
-
 // ============================================================================
 // PER-STEP WIZARD ENDPOINTS
 // ============================================================================
@@ -826,6 +623,7 @@ import {
   WizardStepData,
 } from '../services/step-executor';
 import { pool } from '../services/database';
+import { RevisionStep, saveStepData } from '../services/session-revisions';
 
 /**
  * Helper: Get session step data with current step
@@ -868,23 +666,16 @@ function validateStepOrder(currentStep: number, requiredStep: number, stepName:
 }
 
 /**
- * Helper: Update session step data
+ * Helper: Update session step data (the previous result stays available as a revision)
  */
 async function updateSessionStepData(
   sessionId: string,
   tenantId: string,
-  stepKey: string,
+  stepKey: RevisionStep,
   data: any,
   currentStep: number
 ): Promise<void> {
-  await pool.query(
-    `UPDATE wizard_sessions 
-     SET step_data = jsonb_set(COALESCE(step_data, '{}'), $3, $4::jsonb),
-         current_step = $5,
-         updated_at = NOW()
-     WHERE id = $1 AND tenant_id = $2`,
-    [sessionId, tenantId, `{${stepKey}}`, JSON.stringify(data), currentStep]
-  );
+  await saveStepData(pool, tenantId, sessionId, stepKey, data, currentStep);
 }
 
 // ----------------------------------------------------------------------------
@@ -7,10 +7,46 @@
  */
 
 import { Router, Request, Response } from 'express';
+import multer from 'multer';
 import { Pool } from 'pg';
+import {
+  loadFoundationModel,
+  buildArchiMateExchange,
+  importArchiMateExchange,
+  ArchiMateImportError,
+} from '../services/archimate';
+import { previewBpmnImport, importBpmnModel, BpmnImportError } from '../services/bpmn-import';
 
 const router = Router();
 
+const uploadXml = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB max for XML
+  fileFilter: (req, file, cb) => {
+    const allowedExtensions = ['.xml', '.archimate'];
+    const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
+    if (allowedExtensions.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only XML/ArchiMate files are allowed'));
+    }
+  }
+});
+
+const uploadBpmn = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 }, // 20MB max for BPMN
+  fileFilter: (req, file, cb) => {
+    const allowedExtensions = ['.bpmn', '.xml'];
+    const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
+    if (allowedExtensions.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only BPMN/XML files are allowed'));
+    }
+  }
+});
+
 // Database pool (injected via app.locals or imported)
 const getPool = (req: Request): Pool => {
   return req.app.locals.pool;
@@ -274,4 +310,153 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/wizard/foundations/:id/archimate
+ * Export a foundation and its agent network as ArchiMate Open Exchange Format XML
+ */
+router.get('/:id/archimate', async (req: Request, res: Response) => {
+  try {
+    const pool = getPool(req);
+    const tenantId = getTenantId(req);
+    const { id } = req.params;
+
+    const model = await loadFoundationModel(pool, tenantId, id);
+    if (!model) {
+      return res.status(404).json({
+        success: false,
+        error: 'Foundation not found'
+      });
+    }
+
+    const fileName = `${model.foundation.name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'foundation'}.xml`;
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(buildArchiMateExchange(model));
+  } catch (error) {
+    console.error('[Foundations] ArchiMate export error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export foundation'
+    });
+  }
+});
+
+/**
+ * POST /api/wizard/foundations/:id/archimate
+ * Update a foundation from an ArchiMate Open Exchange file (multipart field "file"),
+ * typically one exported from it and edited in an architecture tool
+ */
+router.post('/:id/archimate', uploadXml.single('file'), async (req: Request, res: Response) => {
+  try {
+    const pool = getPool(req);
+    const tenantId = getTenantId(req);
+    const { id } = req.params;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No XML file uploaded'
+      });
+    }
+
+    const imported = await importArchiMateExchange(pool, tenantId, id, req.file.buffer.toString('utf-8'));
+
+    res.json({
+      success: true,
+      imported
+    });
+  } catch (error) {
+    if (error instanceof ArchiMateImportError) {
+      return res.status(error.message === 'Foundation not found' ? 404 : 400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('[Foundations] ArchiMate import error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import ArchiMate model'
+    });
+  }
+});
+
+/**
+ * POST /api/wizard/foundations/:id/bpmn/preview
+ * Propose agents, human roles and task data contracts for a BPMN 2.0 model
+ * (multipart field "file"; optional field "processId" picks the process to run)
+ */
+router.post('/:id/bpmn/preview', uploadBpmn.single('file'), async (req: Request, res: Response) => {
+  try {
+    const pool = getPool(req);
+    const tenantId = getTenantId(req);
+    const { id } = req.params;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No BPMN file uploaded'
+      });
+    }
+
+    const proposal = await previewBpmnImport(pool, tenantId, id, req.file.buffer.toString('utf-8'), req.body.processId || undefined);
+
+    res.json({
+      success: true,
+      proposal
+    });
+  } catch (error) {
+    if (error instanceof BpmnImportError) {
+      return res.status(error.message === 'Foundation not found' ? 404 : 400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('[Foundations] BPMN preview error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read BPMN model'
+    });
+  }
+});
+
+/**
+ * POST /api/wizard/foundations/:id/bpmn
+ * Import a BPMN 2.0 model (multipart field "file") as the foundation's agents and an
+ * orchestrator that runs it; same fields as the preview
+ */
+router.post('/:id/bpmn', uploadBpmn.single('file'), async (req: Request, res: Response) => {
+  try {
+    const pool = getPool(req);
+    const tenantId = getTenantId(req);
+    const { id } = req.params;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No BPMN file uploaded'
+      });
+    }
+
+    const { proposal, imported } = await importBpmnModel(pool, tenantId, id, req.file.buffer.toString('utf-8'), req.body.processId || undefined);
+
+    res.json({
+      success: true,
+      proposal,
+      imported
+    });
+  } catch (error) {
+    if (error instanceof BpmnImportError) {
+      return res.status(error.message === 'Foundation not found' ? 404 : 400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('[Foundations] BPMN import error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import BPMN model'
+    });
+  }
+});
+
 export default router;
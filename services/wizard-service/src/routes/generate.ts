@@ -83,7 +83,7 @@ router.post('/generate-network', async (req: Request, res: Response) => {
       agents: filteredAgents,
     };
 
-    await updateWizardSession(sessionId, tenantId, updatedAnalysis);
+    await updateWizardSession(sessionId, tenantId, updatedAnalysis, 'generate-network');
 
     const response: GenerateNetworkResponse = {
       success: true,
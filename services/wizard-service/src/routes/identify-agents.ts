@@ -5,6 +5,9 @@
  * 
  * Given a process and sub-process description, uses AI to propose
  * an optimal agent swarm. Part of the 8-step Design Wizard flow.
+ *
+ * With a `sessionId`, every proposal (and every optimize-agents result) is kept as a
+ * step 3 revision of that wizard session, so proposals can be compared later.
  */
 
 import { Router, Request, Response } from 'express';
@@ -12,7 +15,8 @@ import { executePrompt } from '../prompts/index';
 import { AgentIdentificationInput, AgentIdentificationOutput } from '../prompts/agent-identification';
 import { OptimizeAgentsInput } from '../prompts/step3/optimize-agents';
 import { OptimizeAgentsOutput } from '../prompts/schemas';
-import { logAuditEvent } from '../services/database';
+import { logAuditEvent, getWizardSession, pool } from '../services/database';
+import { addRevision } from '../services/session-revisions';
 
 const router = Router();
 
@@ -27,7 +31,7 @@ router.post('/identify-agents', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized', message: 'Authenticated tenant context required' });
     }
 
-    const { process, subProcess, foundationCapabilities, foundationIntegrations } = req.body;
+    const { process, subProcess, foundationCapabilities, foundationIntegrations, sessionId } = req.body;
 
     // Validate required fields
     if (!process?.name || !process?.description) {
@@ -39,6 +43,10 @@ router.post('/identify-agents', async (req: Request, res: Response) => {
       });
     }
 
+    if (sessionId && !(await getWizardSession(sessionId, tenantId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
     // Build prompt input
     const promptInput: AgentIdentificationInput = {
       process: {
@@ -83,9 +91,14 @@ router.post('/identify-agents', async (req: Request, res: Response) => {
       console.warn('[identify-agents] Audit log failed:', auditErr);
     }
 
+    const revision = sessionId
+      ? await addRevision(pool, tenantId, sessionId, 'step3', { proposedAgents: result.data }, 'identify-agents')
+      : null;
+
     return res.json({
       success: true,
       data: result.data,
+      revisionId: revision?.id,
       meta: {
         model: result.model,
         promptVersion: result.promptVersion,
@@ -113,7 +126,7 @@ router.post('/optimize-agents', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized', message: 'Authenticated tenant context required' });
     }
 
-    const { proposedAgents, processContext } = req.body;
+    const { proposedAgents, processContext, sessionId } = req.body;
 
     // Validate required fields
     if (!proposedAgents?.orchestrator || !Array.isArray(proposedAgents?.specialists)) {
@@ -122,6 +135,10 @@ router.post('/optimize-agents', async (req: Request, res: Response) => {
       });
     }
 
+    if (sessionId && !(await getWizardSession(sessionId, tenantId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
     // Map AgentIdentificationOutput format → OptimizeAgentsInput format (ProposeAgentsOutput)
     const orch = proposedAgents.orchestrator;
     const mappedAgents = [
@@ -292,23 +309,29 @@ router.post('/optimize-agents', async (req: Request, res: Response) => {
       console.warn('[optimize-agents] Audit log failed:', auditErr);
     }
 
+    const optimization = {
+      originalCount,
+      optimizedCount: keptAgents.length,
+      demotedToTools: data.demotedToTools,
+      movedToAsync: data.movedToAsync,
+      mergedAgents: data.mergedAgents,
+      addedHitlPoints: data.addedHitlPoints,
+      summary: data.optimizationSummary,
+    };
+    const revision = sessionId
+      ? await addRevision(pool, tenantId, sessionId, 'step3', { proposedAgents: optimizedData, optimization }, 'optimize-agents')
+      : null;
+
     return res.json({
       success: true,
       data: optimizedData,
+      revisionId: revision?.id,
       meta: {
         model: result.model,
         promptVersion: result.promptVersion,
         executionTimeMs: result.executionTimeMs,
         usage: result.usage,
-        optimization: {
-          originalCount,
-          optimizedCount: keptAgents.length,
-          demotedToTools: data.demotedToTools,
-          movedToAsync: data.movedToAsync,
-          mergedAgents: data.mergedAgents,
-          addedHitlPoints: data.addedHitlPoints,
-          summary: data.optimizationSummary,
-        },
+        optimization,
       },
     });
   } catch (error) {
@@ -10,8 +10,18 @@ import {
   getWizardSession,
   listWizardSessions,
   deleteWizardSession,
+  pool,
 } from '../services/database';
 import { getStoredPatterns } from '../services/database';
+import {
+  SessionRevisionError,
+  branchSession,
+  diffRevisions,
+  getRevision,
+  isRevisionStep,
+  listRevisions,
+  REVISION_STEPS,
+} from '../services/session-revisions';
 
 const router = Router();
 const SERVICE_NAME = 'wizard-service';
@@ -76,6 +86,139 @@ router.get('/sessions/:id', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// GET /api/wizard/sessions/:id/revisions
+// List the revisions of a session's steps, newest first (?step=step3 for one step)
+// ============================================================================
+
+router.get('/sessions/:id/revisions', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Authenticated tenant context required' });
+    }
+
+    const step = req.query.step;
+    if (step !== undefined && !isRevisionStep(step)) {
+      return res.status(400).json({ error: `step must be one of: ${REVISION_STEPS.join(', ')}` });
+    }
+
+    const revisions = await listRevisions(pool, tenantId, req.params.id, step);
+    res.json({ revisions });
+  } catch (error) {
+    if (error instanceof SessionRevisionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error(`[${SERVICE_NAME}] List revisions error:`, error);
+    res.status(500).json({ error: 'Failed to list revisions' });
+  }
+});
+
+// ============================================================================
+// GET /api/wizard/sessions/:id/diff
+// Structural diff of the agent proposals in two revisions (?from=<id>&to=<id>, which
+// may belong to a branch), or of the two latest revisions of a step (?step=step3)
+// ============================================================================
+
+router.get('/sessions/:id/diff', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Authenticated tenant context required' });
+    }
+
+    const { from, to, step } = req.query;
+    let fromId: string;
+    let toId: string;
+    if (typeof from === 'string' && typeof to === 'string') {
+      fromId = from;
+      toId = to;
+    } else if (isRevisionStep(step)) {
+      const revisions = await listRevisions(pool, tenantId, req.params.id, step);
+      if (revisions.length < 2) {
+        return res.status(400).json({ error: `Session has ${revisions.length} revision(s) of ${step}; at least 2 are needed` });
+      }
+      fromId = revisions[1].id;
+      toId = revisions[0].id;
+    } else {
+      return res.status(400).json({ error: 'Either from and to revision IDs, or a step, are required' });
+    }
+
+    const fromRevision = await getRevision(pool, tenantId, fromId);
+    const toRevision = await getRevision(pool, tenantId, toId);
+    if (fromRevision.sessionId !== req.params.id && toRevision.sessionId !== req.params.id) {
+      return res.status(400).json({ error: 'At least one of the revisions must belong to this session' });
+    }
+
+    res.json({ diff: diffRevisions(fromRevision, toRevision) });
+  } catch (error) {
+    if (error instanceof SessionRevisionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error(`[${SERVICE_NAME}] Diff revisions error:`, error);
+    res.status(500).json({ error: 'Failed to diff revisions' });
+  }
+});
+
+// ============================================================================
+// GET /api/wizard/sessions/:id/revisions/:revisionId
+// Get one revision with its data
+// ============================================================================
+
+router.get('/sessions/:id/revisions/:revisionId', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Authenticated tenant context required' });
+    }
+
+    const revision = await getRevision(pool, tenantId, req.params.revisionId);
+    if (revision.sessionId !== req.params.id) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+    res.json({ revision });
+  } catch (error) {
+    if (error instanceof SessionRevisionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error(`[${SERVICE_NAME}] Get revision error:`, error);
+    res.status(500).json({ error: 'Failed to get revision' });
+  }
+});
+
+// ============================================================================
+// POST /api/wizard/sessions/:id/branch
+// Copy a session up to a step into a new session, e.g. to re-run the next steps
+// with a different custom prompt
+// ============================================================================
+
+router.post('/sessions/:id/branch', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Authenticated tenant context required' });
+    }
+
+    const { throughStep, customPrompt, sessionName } = req.body || {};
+    if (customPrompt !== undefined && typeof customPrompt !== 'string') {
+      return res.status(400).json({ error: 'customPrompt must be a string' });
+    }
+
+    const branch = await branchSession(pool, tenantId, req.params.id, {
+      throughStep: throughStep !== undefined ? Number(throughStep) : undefined,
+      customPrompt,
+      sessionName,
+    });
+    res.status(201).json({ success: true, ...branch });
+  } catch (error) {
+    if (error instanceof SessionRevisionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error(`[${SERVICE_NAME}] Branch session error:`, error);
+    res.status(500).json({ error: 'Failed to branch session' });
+  }
+});
+
 // ============================================================================
 // DELETE /api/wizard/sessions/:id
 // Delete a wizard session
@@ -0,0 +1,784 @@
+/**
+ * ArchiMate Service - Open Exchange Format Import and Export
+ *
+ * Reads ArchiMate models (Open Group exchange format or Archi files) for the wizard, and
+ * round-trips foundations with Archi, BiZZdesign and other architecture repositories:
+ * - Export: a foundation's capabilities, data objects and processes, its agents (as
+ *   ApplicationComponents) and their agent_interactions become an Open Exchange model
+ *   with a "Capability Map" and an "Agent Network" view
+ * - Import: re-importing that file (after editing it in the architecture tool) updates the
+ *   foundation's elements and agents instead of creating duplicates
+ *
+ * Identifiers are stable: they are derived from foundation item IDs and agent/interaction
+ * UUIDs, and elements created in the architecture tool keep their identifier
+ * (`archimateId`) once imported. Elements removed in the tool are not deleted here.
+ */
+
+import { createHash } from 'crypto';
+import { Pool } from 'pg';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ArchiMateElement {
+  id: string;
+  name: string;
+  type: string;
+  documentation?: string;
+}
+
+export interface ArchiMateRelationship {
+  id: string;
+  type: string;
+  sourceId: string;
+  targetId: string;
+  name?: string;
+}
+
+export interface ParsedArchiMate {
+  modelIdentifier?: string;
+  modelName?: string;
+  elements: ArchiMateElement[];
+  relationships: ArchiMateRelationship[];
+}
+
+/** A capability, data object or process stored on a foundation */
+export interface FoundationItem {
+  id?: string;
+  name: string;
+  description?: string;
+  parentName?: string | null;
+  /** Identifier of an element created in an architecture tool */
+  archimateId?: string;
+  [key: string]: unknown;
+}
+
+export interface FoundationModel {
+  foundation: {
+    id: string;
+    name: string;
+    description: string | null;
+    capabilities: FoundationItem[];
+    data_objects: FoundationItem[];
+    processes: FoundationItem[];
+  };
+  agents: Array<{ id: string; name: string; description: string | null; config: any; capabilities?: string[] | null }>;
+  interactions: Array<{ id: string; source_agent_id: string; target_agent_id: string; message_type: string; description: string | null; config: any }>;
+}
+
+export interface ArchiMateImportSummary {
+  capabilities: { created: number; updated: number };
+  dataObjects: { created: number; updated: number };
+  processes: { created: number; updated: number };
+  agents: { created: number; updated: number };
+  interactions: { created: number; updated: number };
+  /** Elements and relationships of types a foundation has no place for */
+  skipped: number;
+}
+
+export class ArchiMateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiMateImportError';
+  }
+}
+
+export type ItemKind = 'capability' | 'data-object' | 'process';
+
+// Item ID prefixes used by the Discovery Wizard
+const ITEM_ID_PREFIXES: Record<ItemKind, string> = {
+  capability: 'cap',
+  'data-object': 'data',
+  process: 'proc',
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function decodeXml(str: string): string {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Sanitize string for safe JSON serialization
+ * Removes control characters that could break JSON
+ */
+function sanitizeForJson(str: string): string {
+  if (!str) return str;
+  return str
+    // Remove null bytes
+    .replace(/\0/g, '')
+    // Remove control characters except common whitespace
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+    // Normalize newlines
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    // Limit consecutive newlines
+    .replace(/\n{3,}/g, '\n\n')
+    // Trim excessive whitespace
+    .trim();
+}
+
+const readText = (str: string) => sanitizeForJson(decodeXml(str.trim()));
+
+export function parseArchiMateXml(xmlContent: string): ParsedArchiMate {
+  const elements: ArchiMateElement[] = [];
+  const relationships: ArchiMateRelationship[] = [];
+  let modelName: string | undefined;
+
+  const modelIdentifier = xmlContent.match(/<(?:archimate:)?model[^>]*\sidentifier="([^"]+)"/i)?.[1];
+
+  // Extract model name - try multiple formats
+  // Format 1: <name xml:lang="...">Model Name</name>
+  const modelNameMatch = xmlContent.match(/<model[^>]*>[\s\S]*?<name[^>]*>([^<]+)<\/name>/i);
+  if (modelNameMatch) {
+    modelName = readText(modelNameMatch[1]);
+  }
+  // Format 2: name attribute
+  if (!modelName) {
+    const modelAttrMatch = xmlContent.match(/<(?:archimate:)?model[^>]*name="([^"]+)"/i);
+    if (modelAttrMatch) modelName = readText(modelAttrMatch[1]);
+  }
+
+  console.log(`[XML Parser] Detected model name: ${modelName || 'unknown'}`);
+
+  // ===== OpenGroup ArchiMate 3.0 Format =====
+  // <element identifier="id-cap-root" xsi:type="Capability">
+  //   <name xml:lang="nl">Name Here</name>
+  //   <documentation>...</documentation>
+  // </element>
+  const openGroupRegex = /<element\s+identifier="([^"]+)"\s+xsi:type="([^"]+)"[^>]*>([\s\S]*?)<\/element>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = openGroupRegex.exec(xmlContent)) !== null) {
+    const id = match[1];
+    const type = match[2];
+    const innerContent = match[3];
+
+    // Extract name from <name> child element
+    const nameMatch = innerContent.match(/<name[^>]*>([^<]+)<\/name>/i);
+    const name = nameMatch ? readText(nameMatch[1]) : `Unnamed ${type}`;
+
+    // Extract documentation (handle multi-line and special chars)
+    const docMatch = innerContent.match(/<documentation[^>]*>([\s\S]*?)<\/documentation>/i);
+    const documentation = docMatch ? readText(docMatch[1]) : undefined;
+
+    // Skip junction/connector elements
+    if (type.toLowerCase().includes('junction')) continue;
+
+    elements.push({
+      id,
+      name,
+      type: normalizeArchiMateType(type),
+      documentation,
+    });
+  }
+
+  console.log(`[XML Parser] Found ${elements.length} elements via OpenGroup format`);
+
+  // ===== Archi Tool Format =====
+  // <element xsi:type="archimate:ApplicationFunction" id="..." name="...">
+  if (elements.length === 0) {
+    const archiRegex = /<element[^>]*xsi:type="(?:archimate:)?([^"]+)"[^>]*id="([^"]+)"[^>]*name="([^"]*)"[^>]*>/gi;
+    while ((match = archiRegex.exec(xmlContent)) !== null) {
+      const type = match[1];
+      const id = match[2];
+      const name = readText(match[3]) || `Unnamed ${type}`;
+
+      // Archi stores relationships as elements too; they are read below
+      if (type.toLowerCase().includes('junction') || /relationship$/i.test(type)) continue;
+
+      elements.push({
+        id,
+        name,
+        type: normalizeArchiMateType(type),
+      });
+    }
+    console.log(`[XML Parser] Found ${elements.length} elements via Archi format`);
+  }
+
+  // ===== OpenGroup Relationships =====
+  // Flexible regex - attributes can be in any order
+  // <relationship identifier="..." xsi:type="..." source="..." target="...">
+  const relationshipTagRegex = /<relationship\s+([^>]+)>/gi;
+  while ((match = relationshipTagRegex.exec(xmlContent)) !== null) {
+    const attrs = match[1];
+    const idMatch = attrs.match(/identifier="([^"]+)"/);
+    const typeMatch = attrs.match(/xsi:type="([^"]+)"/);
+    const sourceMatch = attrs.match(/source="([^"]+)"/);
+    const targetMatch = attrs.match(/target="([^"]+)"/);
+
+    // <name> child of a relationship that isn't self-closing
+    let name: string | undefined;
+    if (!attrs.trim().endsWith('/')) {
+      const end = xmlContent.indexOf('</relationship>', relationshipTagRegex.lastIndex);
+      const inner = end === -1 ? '' : xmlContent.slice(relationshipTagRegex.lastIndex, end);
+      const nameMatch = inner.match(/<name[^>]*>([^<]+)<\/name>/i);
+      if (nameMatch) name = readText(nameMatch[1]);
+    }
+
+    if (idMatch && sourceMatch && targetMatch) {
+      relationships.push({
+        id: idMatch[1],
+        type: normalizeRelationType(typeMatch?.[1] || 'Association'),
+        sourceId: sourceMatch[1],
+        targetId: targetMatch[1],
+        name,
+      });
+    }
+  }
+
+  // ===== Archi Tool Relationships =====
+  if (relationships.length === 0) {
+    const archiRelRegex = /<(?:relationship|element)[^>]*xsi:type="(?:archimate:)?([^"]*[Rr]elationship)"[^>]*id="([^"]+)"[^>]*source="([^"]+)"[^>]*target="([^"]+)"[^>]*/gi;
+    while ((match = archiRelRegex.exec(xmlContent)) !== null) {
+      const name = match[0].match(/\sname="([^"]*)"/)?.[1];
+      relationships.push({
+        id: match[2],
+        type: normalizeRelationType(match[1]),
+        sourceId: match[3],
+        targetId: match[4],
+        name: name ? readText(name) : undefined,
+      });
+    }
+  }
+
+  console.log(`[XML Parser] Found ${relationships.length} relationships`);
+
+  return { modelIdentifier, modelName, elements, relationships };
+}
+
+function normalizeArchiMateType(type: string): string {
+  // Map ArchiMate types to FlowGrid element types
+  const typeMap: Record<string, string> = {
+    'applicationfunction': 'ApplicationFunction',
+    'applicationservice': 'ApplicationService',
+    'applicationcomponent': 'Agent',
+    'applicationprocess': 'Process',
+    'businessfunction': 'Capability',
+    'businessprocess': 'Process',
+    'businessservice': 'BusinessService',
+    'businessobject': 'DataObject',
+    'dataobject': 'DataObject',
+    'artifact': 'DataObject',
+    'requirement': 'Requirement',
+    'constraint': 'Requirement',
+    'goal': 'Requirement',
+    'resource': 'Resource',
+    'capability': 'Capability',
+    'valuestream': 'Process',
+    'grouping': 'Grouping',
+    'plateau': 'Plateau',
+  };
+
+  const normalized = type.toLowerCase().replace(/relationship$/, '');
+  return typeMap[normalized] || type;
+}
+
+function normalizeRelationType(type: string): string {
+  const typeMap: Record<string, string> = {
+    'compositionrelationship': 'Composition',
+    'aggregationrelationship': 'Composition',
+    'assignmentrelationship': 'Association',
+    'realizationrelationship': 'Realization',
+    'servingrelationship': 'Serving',
+    'accessrelationship': 'Access',
+    'flowrelationship': 'Flow',
+    'triggeringrelationship': 'Flow',
+    'associationrelationship': 'Association',
+    'specializationrelationship': 'Association',
+    'influencerelationship': 'Association',
+  };
+
+  // Open Exchange files use the bare type ("Triggering"), Archi files the suffixed one
+  const normalized = type.toLowerCase().replace(/(relationship)?$/, 'relationship');
+  return typeMap[normalized] || type.replace(/Relationship$/i, '');
+}
+
+// ============================================================================
+// Stable Identifiers
+// ============================================================================
+
+const shortHash = (...parts: string[]) => createHash('sha1').update(parts.join('|')).digest('hex').slice(0, 16);
+
+// Identifiers are xs:ID values: no leading digit, no spaces or colons
+const ncName = (str: string) => str.replace(/[^A-Za-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase();
+
+export const foundationIdentifier = (foundationId: string) => `id-fg-foundation-${foundationId}`;
+
+function itemIdentifier(foundationId: string, kind: ItemKind, item: FoundationItem): string {
+  if (item.archimateId) return item.archimateId;
+  const key = item.id ? ncName(String(item.id)) : `name-${shortHash(item.name.trim().toLowerCase())}`;
+  return `id-fg-${kind}-${foundationId}-${key}`;
+}
+
+const agentIdentifier = (agent: FoundationModel['agents'][number]) => agent.config?.archimateId || `id-fg-agent-${agent.id}`;
+
+const interactionIdentifier = (interaction: FoundationModel['interactions'][number]) =>
+  interaction.config?.archimateId || `id-fg-interaction-${interaction.id}`;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const ARCHIMATE_NS = 'http://www.opengroup.org/xsd/archimate/3.0/';
+const SCHEMA_LOCATION = `${ARCHIMATE_NS} http://www.opengroup.org/xsd/archimate/3.1/archimate3_Diagram.xsd`;
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 60;
+const NODE_GAP = 20;
+const NODES_PER_ROW = 6;
+
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+}
+
+interface ExportElement {
+  identifier: string;
+  type: string;
+  name: string;
+  documentation?: string | null;
+}
+
+interface ExportRelationship {
+  identifier: string;
+  type: string;
+  source: string;
+  target: string;
+  name?: string | null;
+  documentation?: string | null;
+}
+
+interface ExportView {
+  identifier: string;
+  name: string;
+  // Rows of element identifiers, top to bottom
+  rows: string[][];
+}
+
+/**
+ * Load a foundation with its agents and their interactions, or null if the tenant has
+ * no such foundation.
+ */
+export async function loadFoundationModel(pool: Pool, tenantId: string, foundationId: string): Promise<FoundationModel | null> {
+  const foundationResult = await pool.query(
+    `SELECT id, name, description, capabilities, data_objects, processes FROM foundations WHERE id = $1 AND tenant_id = $2`,
+    [foundationId, tenantId]
+  );
+  if (foundationResult.rows.length === 0) return null;
+
+  const agentsResult = await pool.query(
+    `SELECT * FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2 ORDER BY name`,
+    [tenantId, foundationId]
+  );
+  const agentIds = agentsResult.rows.map(agent => agent.id);
+  const interactionsResult = agentIds.length
+    ? await pool.query(
+        `SELECT id, source_agent_id, target_agent_id, message_type, description, config
+         FROM agent_interactions
+         WHERE source_agent_id = ANY($1::uuid[]) AND target_agent_id = ANY($1::uuid[])
+         ORDER BY created_at`,
+        [agentIds]
+      )
+    : { rows: [] };
+
+  const row = foundationResult.rows[0];
+  return {
+    foundation: {
+      ...row,
+      capabilities: row.capabilities || [],
+      data_objects: row.data_objects || [],
+      processes: row.processes || [],
+    },
+    agents: agentsResult.rows,
+    interactions: interactionsResult.rows,
+  };
+}
+
+/**
+ * Capability names an agent is linked to: the `capabilities` column (wizard apply) or
+ * `config.capabilities`.
+ */
+function agentCapabilityNames(agent: FoundationModel['agents'][number]): string[] {
+  const names = Array.isArray(agent.capabilities) && agent.capabilities.length
+    ? agent.capabilities
+    : Array.isArray(agent.config?.capabilities) ? agent.config.capabilities : [];
+  return names.map((name: unknown) => (typeof name === 'string' ? name : (name as any)?.name)).filter(Boolean);
+}
+
+/**
+ * Build the Open Exchange Format XML of a foundation and its agent network.
+ */
+export function buildArchiMateExchange(model: FoundationModel): string {
+  const { foundation } = model;
+  const elements: ExportElement[] = [];
+  const relationships: ExportRelationship[] = [];
+  const byName = new Map<string, string>();
+  const key = (kind: string, name: string) => `${kind}:${name.trim().toLowerCase()}`;
+
+  const addItems = (kind: ItemKind, type: string, items: FoundationItem[]) => {
+    for (const item of items) {
+      if (!item?.name) continue;
+      const identifier = itemIdentifier(foundation.id, kind, item);
+      elements.push({ identifier, type, name: item.name, documentation: item.description });
+      byName.set(key(kind, item.name), identifier);
+    }
+  };
+  addItems('capability', 'Capability', foundation.capabilities);
+  addItems('data-object', 'DataObject', foundation.data_objects);
+  addItems('process', 'BusinessProcess', foundation.processes);
+
+  const addRelationship = (type: string, source: string, target: string, name?: string | null) => {
+    if (source === target || relationships.some(r => r.type === type && r.source === source && r.target === target)) return;
+    relationships.push({ identifier: `id-fg-rel-${shortHash(type, source, target)}`, type, source, target, name });
+  };
+
+  // Capability hierarchy
+  for (const capability of foundation.capabilities) {
+    const parent = capability?.parentName && byName.get(key('capability', capability.parentName));
+    if (parent) addRelationship('Composition', parent, byName.get(key('capability', capability.name))!);
+  }
+
+  const agentIdentifiers = new Map<string, string>();
+  for (const agent of model.agents) {
+    const identifier = agentIdentifier(agent);
+    agentIdentifiers.set(agent.id, identifier);
+    elements.push({ identifier, type: 'ApplicationComponent', name: agent.name, documentation: agent.description || agent.config?.purpose });
+
+    for (const capabilityName of agentCapabilityNames(agent)) {
+      const capability = byName.get(key('capability', capabilityName));
+      if (capability) addRelationship('Realization', identifier, capability);
+    }
+    const process = agent.config?.processName && byName.get(key('process', agent.config.processName));
+    if (process) addRelationship('Serving', identifier, process);
+  }
+
+  for (const interaction of model.interactions) {
+    const source = agentIdentifiers.get(interaction.source_agent_id);
+    const target = agentIdentifiers.get(interaction.target_agent_id);
+    if (!source || !target) continue;
+    relationships.push({
+      identifier: interactionIdentifier(interaction),
+      type: 'Flow',
+      source,
+      target,
+      name: interaction.message_type,
+      documentation: interaction.description,
+    });
+  }
+
+  const ofType = (...types: string[]) => elements.filter(e => types.includes(e.type)).map(e => e.identifier);
+  const capabilityLevels = new Map<string, number>();
+  for (const capability of foundation.capabilities) {
+    if (capability?.name) capabilityLevels.set(byName.get(key('capability', capability.name))!, Number(capability.level) || 0);
+  }
+  const levels = Array.from(new Set(capabilityLevels.values())).sort((a, b) => a - b);
+
+  const views: ExportView[] = [
+    {
+      identifier: `id-fg-view-${foundation.id}-capability-map`,
+      name: 'Capability Map',
+      rows: [
+        ...levels.map(level => ofType('Capability').filter(id => capabilityLevels.get(id) === level)),
+        ofType('ApplicationComponent'),
+      ],
+    },
+    {
+      identifier: `id-fg-view-${foundation.id}-agent-network`,
+      name: 'Agent Network',
+      rows: [ofType('ApplicationComponent'), ofType('BusinessProcess'), ofType('DataObject')],
+    },
+  ];
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model xmlns="${ARCHIMATE_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${SCHEMA_LOCATION}" identifier="${foundationIdentifier(foundation.id)}">`,
+    `  <name xml:lang="en">${escapeXml(foundation.name)}</name>`,
+  ];
+  if (foundation.description) lines.push(`  <documentation xml:lang="en">${escapeXml(foundation.description)}</documentation>`);
+
+  if (elements.length) {
+    lines.push('  <elements>');
+    for (const element of elements) {
+      lines.push(`    <element identifier="${escapeXml(element.identifier)}" xsi:type="${element.type}">`);
+      lines.push(`      <name xml:lang="en">${escapeXml(element.name)}</name>`);
+      if (element.documentation) lines.push(`      <documentation xml:lang="en">${escapeXml(element.documentation)}</documentation>`);
+      lines.push('    </element>');
+    }
+    lines.push('  </elements>');
+  }
+
+  if (relationships.length) {
+    lines.push('  <relationships>');
+    for (const rel of relationships) {
+      const open = `    <relationship identifier="${escapeXml(rel.identifier)}" xsi:type="${rel.type}" source="${escapeXml(rel.source)}" target="${escapeXml(rel.target)}"`;
+      if (!rel.name && !rel.documentation) {
+        lines.push(`${open}/>`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      if (rel.name) lines.push(`      <name xml:lang="en">${escapeXml(rel.name)}</name>`);
+      if (rel.documentation) lines.push(`      <documentation xml:lang="en">${escapeXml(rel.documentation)}</documentation>`);
+      lines.push('    </relationship>');
+    }
+    lines.push('  </relationships>');
+  }
+
+  lines.push('  <views>', '    <diagrams>');
+  for (const view of views) {
+    lines.push(`      <view identifier="${view.identifier}" xsi:type="Diagram">`);
+    lines.push(`        <name xml:lang="en">${escapeXml(view.name)}</name>`);
+
+    // Lay rows out as grids, wrapping after NODES_PER_ROW nodes
+    const nodes = new Map<string, string>();
+    let y = 40;
+    for (const row of view.rows.filter(r => r.length)) {
+      row.forEach((elementId, i) => {
+        const nodeId = `id-fg-node-${shortHash(view.identifier, elementId)}`;
+        nodes.set(elementId, nodeId);
+        const x = 40 + (i % NODES_PER_ROW) * (NODE_WIDTH + NODE_GAP);
+        const nodeY = y + Math.floor(i / NODES_PER_ROW) * (NODE_HEIGHT + NODE_GAP);
+        lines.push(`        <node identifier="${nodeId}" elementRef="${escapeXml(elementId)}" xsi:type="Element" x="${x}" y="${nodeY}" w="${NODE_WIDTH}" h="${NODE_HEIGHT}"/>`);
+      });
+      y += Math.ceil(row.length / NODES_PER_ROW) * (NODE_HEIGHT + NODE_GAP) + 40;
+    }
+    for (const rel of relationships) {
+      const source = nodes.get(rel.source);
+      const target = nodes.get(rel.target);
+      if (!source || !target) continue;
+      lines.push(`        <connection identifier="id-fg-conn-${shortHash(view.identifier, rel.identifier)}" relationshipRef="${escapeXml(rel.identifier)}" xsi:type="Relationship" source="${source}" target="${target}"/>`);
+    }
+    lines.push('      </view>');
+  }
+  lines.push('    </diagrams>', '  </views>', '</model>', '');
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const ITEM_KINDS_BY_TYPE: Record<string, ItemKind> = {
+  Capability: 'capability',
+  DataObject: 'data-object',
+  Process: 'process',
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function nextItemId(kind: ItemKind, items: FoundationItem[]): string {
+  const prefix = ITEM_ID_PREFIXES[kind];
+  const used = items
+    .map(item => String(item.id || '').match(new RegExp(`^${prefix}-(\\d+)$`))?.[1])
+    .filter(Boolean)
+    .map(Number);
+  return `${prefix}-${used.length ? Math.max(...used) + 1 : items.length}`;
+}
+
+/**
+ * Update a foundation from an Open Exchange model: elements exported from it (matched by
+ * identifier, then by name) are updated, new ones are added. Capabilities, data objects
+ * and processes go to the foundation; ApplicationComponents are the foundation's agents
+ * and Flow/Triggering relationships between them its agent interactions.
+ */
+export async function importArchiMateExchange(
+  pool: Pool,
+  tenantId: string,
+  foundationId: string,
+  xmlContent: string
+): Promise<ArchiMateImportSummary> {
+  const parsed = parseArchiMateXml(xmlContent);
+  if (!parsed.elements.length) {
+    throw new ArchiMateImportError('No elements found in XML file');
+  }
+  const exportedFrom = parsed.modelIdentifier?.match(/^id-fg-foundation-(.+)$/)?.[1];
+  if (exportedFrom && exportedFrom !== foundationId) {
+    throw new ArchiMateImportError(`This model was exported from another foundation (${exportedFrom})`);
+  }
+
+  const summary: ArchiMateImportSummary = {
+    capabilities: { created: 0, updated: 0 },
+    dataObjects: { created: 0, updated: 0 },
+    processes: { created: 0, updated: 0 },
+    agents: { created: 0, updated: 0 },
+    interactions: { created: 0, updated: 0 },
+    skipped: 0,
+  };
+  const itemCounts: Record<ItemKind, { created: number; updated: number }> = {
+    capability: summary.capabilities,
+    'data-object': summary.dataObjects,
+    process: summary.processes,
+  };
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const foundationResult = await client.query(
+      `SELECT capabilities, data_objects, processes FROM foundations WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+      [foundationId, tenantId]
+    );
+    if (foundationResult.rows.length === 0) {
+      throw new ArchiMateImportError('Foundation not found');
+    }
+    const items: Record<ItemKind, FoundationItem[]> = {
+      capability: [...(foundationResult.rows[0].capabilities || [])],
+      'data-object': [...(foundationResult.rows[0].data_objects || [])],
+      process: [...(foundationResult.rows[0].processes || [])],
+    };
+
+    const agentsResult = await client.query(
+      `SELECT * FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2`,
+      [tenantId, foundationId]
+    );
+    const agents: FoundationModel['agents'] = agentsResult.rows;
+
+    // Element identifier in the file → what it was imported as
+    const itemsByElement = new Map<string, FoundationItem>();
+    const agentsByElement = new Map<string, string>();
+
+    for (const element of parsed.elements) {
+      const kind = ITEM_KINDS_BY_TYPE[element.type];
+      if (kind) {
+        const list = items[kind];
+        let item = list.find(i => i?.name && itemIdentifier(foundationId, kind, i) === element.id)
+          || list.find(i => i?.name && sameName(i.name, element.name));
+        if (item) {
+          if (item.name !== element.name || (element.documentation !== undefined && item.description !== element.documentation)) {
+            item.name = element.name;
+            if (element.documentation !== undefined) item.description = element.documentation;
+            itemCounts[kind].updated++;
+          }
+        } else {
+          item = { id: nextItemId(kind, list), name: element.name, description: element.documentation || '' };
+          list.push(item);
+          itemCounts[kind].created++;
+        }
+        // Keep the identifier of elements created in the architecture tool
+        if (itemIdentifier(foundationId, kind, item) !== element.id) item.archimateId = element.id;
+        itemsByElement.set(element.id, item);
+        continue;
+      }
+
+      if (element.type === 'Agent') {
+        const agent = agents.find(a => agentIdentifier(a) === element.id) || agents.find(a => sameName(a.name, element.name));
+        if (agent) {
+          const config = agentIdentifier(agent) === element.id ? agent.config : { ...agent.config, archimateId: element.id };
+          // Agents without a description are exported with their purpose as documentation
+          const exportedPurpose = !agent.description && element.documentation === agent.config?.purpose;
+          const description = exportedPurpose ? agent.description : element.documentation ?? agent.description;
+          if (agent.name !== element.name || agent.description !== description || config !== agent.config) {
+            await client.query(
+              `UPDATE agents SET name = $1, description = $2, config = $3, updated_at = NOW() WHERE id = $4 AND tenant_id = $5`,
+              [element.name, description, config, agent.id, tenantId]
+            );
+            summary.agents.updated++;
+          }
+          agentsByElement.set(element.id, agent.id);
+        } else {
+          const inserted = await client.query(
+            `INSERT INTO agents (tenant_id, name, type, description, config, status)
+             VALUES ($1, $2, 'Agent', $3, $4, 'draft')
+             RETURNING id`,
+            [
+              tenantId,
+              element.name,
+              element.documentation || null,
+              { foundationId, archimateId: element.id, purpose: element.documentation || '', pattern: 'specialist' },
+            ]
+          );
+          summary.agents.created++;
+          agentsByElement.set(element.id, inserted.rows[0].id);
+        }
+        continue;
+      }
+
+      summary.skipped++;
+    }
+
+    const interactionsResult = agents.length
+      ? await client.query(
+          `SELECT id, source_agent_id, target_agent_id, message_type, description, config
+           FROM agent_interactions
+           WHERE source_agent_id = ANY($1::uuid[]) AND target_agent_id = ANY($1::uuid[])`,
+          [agents.map(a => a.id)]
+        )
+      : { rows: [] };
+    const interactions: FoundationModel['interactions'] = interactionsResult.rows;
+
+    for (const rel of parsed.relationships) {
+      if (rel.type === 'Composition') {
+        const parent = itemsByElement.get(rel.sourceId);
+        const child = itemsByElement.get(rel.targetId);
+        if (parent && child && items.capability.includes(parent) && items.capability.includes(child)) {
+          child.parentName = parent.name;
+          continue;
+        }
+      }
+
+      if (rel.type === 'Flow') {
+        const source = agentsByElement.get(rel.sourceId);
+        const target = agentsByElement.get(rel.targetId);
+        if (source && target && source !== target) {
+          const messageType = rel.name || 'message';
+          const existing = interactions.find(i => interactionIdentifier(i) === rel.id)
+            || interactions.find(i => i.source_agent_id === source && i.target_agent_id === target && i.message_type === messageType);
+          if (existing) {
+            if (existing.message_type !== messageType || existing.source_agent_id !== source || existing.target_agent_id !== target) {
+              await client.query(
+                `UPDATE agent_interactions SET source_agent_id = $1, target_agent_id = $2, message_type = $3, updated_at = NOW() WHERE id = $4`,
+                [source, target, messageType, existing.id]
+              );
+              summary.interactions.updated++;
+            }
+          } else {
+            await client.query(
+              `INSERT INTO agent_interactions (source_agent_id, target_agent_id, message_type, config)
+               VALUES ($1, $2, $3, $4)`,
+              [source, target, messageType, { archimateId: rel.id }]
+            );
+            summary.interactions.created++;
+          }
+          continue;
+        }
+      }
+
+      // Realization/Serving links are derived from agent data on export
+      if (!['Realization', 'Serving'].includes(rel.type)) summary.skipped++;
+    }
+
+    await client.query(
+      `UPDATE foundations SET capabilities = $1, data_objects = $2, processes = $3 WHERE id = $4 AND tenant_id = $5`,
+      [
+        JSON.stringify(items.capability),
+        JSON.stringify(items['data-object']),
+        JSON.stringify(items.process),
+        foundationId,
+        tenantId,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return summary;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
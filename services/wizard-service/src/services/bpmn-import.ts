@@ -0,0 +1,815 @@
+/**
+ * BPMN Import Service - Existing Process Models as Agent Networks
+ *
+ * Takes BPMN 2.0 models drawn in Camunda Modeler, Signavio or another modeler and turns
+ * them into a foundation's agents and orchestrator:
+ * - One agent is proposed per lane, or per participant (pool) for processes without lanes.
+ *   Lanes and pools with only user and manual tasks are human roles, not agents
+ * - The data objects and data stores a task reads and writes (data associations) become the
+ *   task's data contract: the Input/Output documentation the runtime validates against
+ * - The model is rewritten into the form the runtime executes: `bpmn:` prefixed elements,
+ *   agent tasks as service tasks in a lane named after their agent, human tasks as user
+ *   tasks, and the main process in a participant named after the orchestrator
+ *
+ * Element IDs and the diagram are kept, so the rewritten model still opens in a modeler.
+ * Only the main process runs; the tasks of other pools are kept for reference.
+ */
+
+import { Pool } from 'pg';
+import { FoundationItem, decodeXml, escapeXml, nextItemId } from './archimate';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PerformerSource = 'lane' | 'participant' | 'process';
+
+export interface ProposedAgent {
+  name: string;
+  /** Lane, participant or process the agent was proposed for */
+  performer: string;
+  source: PerformerSource;
+  taskIds: string[];
+  /** Agent of the foundation with this name, used instead of a new one */
+  existingAgentId?: string;
+}
+
+export interface HumanRole {
+  name: string;
+  source: PerformerSource;
+  taskIds: string[];
+}
+
+export interface ImportedTask {
+  id: string;
+  name: string;
+  /** Element type in the uploaded model, e.g. "scriptTask" */
+  type: string;
+  processId: string;
+  /** Agent name, or null for user and manual tasks */
+  agent: string | null;
+  performer: string;
+  /** Data objects read and written, by name */
+  inputs: string[];
+  outputs: string[];
+  /** Documentation of the task in the rewritten model */
+  documentation: string;
+}
+
+export interface ImportedDataObject {
+  id: string;
+  name: string;
+  key: string;
+  collection: boolean;
+  store: boolean;
+  description: string;
+}
+
+export interface ImportedProcess {
+  id: string;
+  name: string;
+  participant: string | null;
+  /** The process the orchestrator runs */
+  main: boolean;
+  taskCount: number;
+}
+
+export interface BpmnImportProposal {
+  processId: string;
+  processName: string;
+  orchestrator: { name: string; existingAgentId?: string };
+  processes: ImportedProcess[];
+  agents: ProposedAgent[];
+  humanRoles: HumanRole[];
+  tasks: ImportedTask[];
+  dataObjects: ImportedDataObject[];
+  /** The rewritten model, stored as the orchestrator's config.bpmnXml */
+  bpmnXml: string;
+  warnings: string[];
+}
+
+export interface BpmnImportOptions {
+  /** Process to run, when the model has several; defaults to the one with the most tasks */
+  processId?: string;
+  /** Agents of the foundation, reused when a proposed agent has the same name */
+  existingAgents?: Array<{ id: string; name: string }>;
+}
+
+export interface BpmnImportSummary {
+  orchestrator: { id: string; created: boolean };
+  agents: { created: number; reused: number };
+  processes: { created: number; existing: number };
+  dataObjects: { created: number; existing: number };
+}
+
+export class BpmnImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BpmnImportError';
+  }
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+const BPMN_NS = 'http://www.omg.org/spec/BPMN/20100524/MODEL';
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+
+// Namespaces kept in the rewritten model, with the prefixes the runtime expects. Elements
+// and attributes of other namespaces (modeler metadata, Zeebe extensions) are dropped.
+const NAMESPACE_PREFIXES: Record<string, string> = {
+  [BPMN_NS]: 'bpmn',
+  'http://www.omg.org/spec/BPMN/20100524/DI': 'bpmndi',
+  'http://www.omg.org/spec/DD/20100524/DC': 'dc',
+  'http://www.omg.org/spec/DD/20100524/DI': 'di',
+  [XSI_NS]: 'xsi',
+  'http://camunda.org/schema/1.0/bpmn': 'camunda',
+};
+
+// The runtime reads these attributes with fixed-order patterns, so they are written first
+const LEADING_ATTRIBUTES = ['id', 'name', 'processRef', 'sourceRef', 'targetRef'];
+
+interface XmlAttribute {
+  ns: string;
+  name: string;
+  value: string;
+}
+
+interface XmlNode {
+  ns: string;
+  name: string;
+  attrs: XmlAttribute[];
+  children: XmlNode[];
+  text: string;
+}
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y;
+
+const splitName = (qname: string): [string, string] => {
+  const colon = qname.indexOf(':');
+  return colon === -1 ? ['', qname] : [qname.slice(0, colon), qname.slice(colon + 1)];
+};
+
+function parseXml(xml: string): XmlNode {
+  const stack: Array<{ node: XmlNode; qname: string; namespaces: Map<string, string> }> = [];
+  let root: XmlNode | null = null;
+  let position = 0;
+
+  while (position < xml.length) {
+    XML_TOKEN.lastIndex = position;
+    const m = XML_TOKEN.exec(xml);
+    if (!m) throw new BpmnImportError(`Not a well-formed XML file (at character ${position})`);
+    position = XML_TOKEN.lastIndex;
+
+    const [, cdata, closing, opening, attrText, selfClosing, text] = m;
+    const parent = stack[stack.length - 1];
+    if (cdata !== undefined || text !== undefined) {
+      if (parent) parent.node.text += cdata ?? decodeXml(text);
+      continue;
+    }
+    if (closing) {
+      if (!parent || parent.qname !== closing) {
+        throw new BpmnImportError(`Not a well-formed XML file: unexpected </${closing}>`);
+      }
+      stack.pop();
+      continue;
+    }
+    // Comments, processing instructions and doctypes
+    if (!opening) continue;
+
+    const namespaces = new Map(parent?.namespaces);
+    const rawAttrs: Array<[string, string]> = [];
+    for (const a of attrText.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      const value = decodeXml(a[2] ?? a[3]);
+      if (a[1] === 'xmlns') namespaces.set('', value);
+      else if (a[1].startsWith('xmlns:')) namespaces.set(a[1].slice(6), value);
+      else rawAttrs.push([a[1], value]);
+    }
+
+    const [prefix, name] = splitName(opening);
+    const node: XmlNode = {
+      ns: namespaces.get(prefix) ?? '',
+      name,
+      attrs: rawAttrs.map(([qname, value]) => {
+        const [attrPrefix, attrName] = splitName(qname);
+        // Unprefixed attributes are in no namespace
+        const ns = attrPrefix ? namespaces.get(attrPrefix) ?? '' : '';
+        if (ns === XSI_NS && attrName === 'type') {
+          // e.g. xsi:type="bpmn2:tFormalExpression" → bpmn:tFormalExpression
+          const [typePrefix, typeName] = splitName(value);
+          const typePrefixOut = NAMESPACE_PREFIXES[namespaces.get(typePrefix) ?? ''];
+          return { ns, name: attrName, value: typePrefixOut ? `${typePrefixOut}:${typeName}` : value };
+        }
+        return { ns, name: attrName, value };
+      }),
+      children: [],
+      text: '',
+    };
+
+    if (parent) parent.node.children.push(node);
+    else if (root) throw new BpmnImportError('Not a well-formed XML file: more than one root element');
+    else root = node;
+    if (!selfClosing) stack.push({ node, qname: opening, namespaces });
+  }
+
+  if (!root || stack.length) throw new BpmnImportError('Not a well-formed XML file: unexpected end of file');
+  return root;
+}
+
+function serializeXml(node: XmlNode, indent = ''): string {
+  const prefix = NAMESPACE_PREFIXES[node.ns];
+  if (!prefix) return '';
+  const leading = LEADING_ATTRIBUTES.flatMap(name => node.attrs.filter(a => !a.ns && a.name === name));
+  const attrs = [...leading, ...node.attrs.filter(a => !leading.includes(a))]
+    .filter(a => !a.ns || NAMESPACE_PREFIXES[a.ns])
+    .map(a => ` ${a.ns ? `${NAMESPACE_PREFIXES[a.ns]}:` : ''}${a.name}="${escapeXml(a.value).replace(/\n/g, '&#10;').replace(/\t/g, '&#9;')}"`)
+    .join('');
+  const children = node.children.map(child => serializeXml(child, `${indent}  `)).filter(Boolean);
+  const text = node.text.trim();
+  // Nothing left of extensions in dropped namespaces
+  if (node.ns === BPMN_NS && node.name === 'extensionElements' && !children.length) return '';
+  const tag = `${prefix}:${node.name}`;
+
+  if (!children.length) return text ? `${indent}<${tag}${attrs}>${escapeXml(text)}</${tag}>` : `${indent}<${tag}${attrs} />`;
+  return `${indent}<${tag}${attrs}>${text ? escapeXml(text) : ''}\n${children.join('\n')}\n${indent}</${tag}>`;
+}
+
+const attr = (node: XmlNode, name: string) => node.attrs.find(a => !a.ns && a.name === name)?.value;
+
+function setAttr(node: XmlNode, name: string, value: string): void {
+  const existing = node.attrs.find(a => !a.ns && a.name === name);
+  if (existing) existing.value = value;
+  else node.attrs.push({ ns: '', name, value });
+}
+
+const bpmnChildren = (node: XmlNode, name: string) => node.children.filter(c => c.ns === BPMN_NS && c.name === name);
+
+const bpmnNode = (name: string, attrs: Record<string, string>, children: XmlNode[] = [], text = ''): XmlNode => ({
+  ns: BPMN_NS,
+  name,
+  attrs: Object.entries(attrs).map(([attrName, value]) => ({ ns: '', name: attrName, value })),
+  children,
+  text,
+});
+
+// ============================================================================
+// Reading the Model
+// ============================================================================
+
+const AGENT_TASK_TYPES = ['task', 'serviceTask', 'scriptTask', 'businessRuleTask', 'sendTask', 'receiveTask', 'callActivity'];
+const HUMAN_TASK_TYPES = ['userTask', 'manualTask'];
+const SUBPROCESS_TYPES = ['subProcess', 'adHocSubProcess', 'transaction'];
+// Attributes an agent task keeps when it becomes a service task
+const SERVICE_TASK_ATTRIBUTES = ['id', 'name', 'default', 'isForCompensation'];
+
+interface TaskEntry {
+  node: XmlNode;
+  type: string;
+  processId: string;
+  performer: string;
+  source: PerformerSource;
+  lane: XmlNode | null;
+  human: boolean;
+  inputs: string[];
+  outputs: string[];
+}
+
+interface DataEntry {
+  name: string;
+  /** Named in the model, rather than only by its reference */
+  named: boolean;
+  collection: boolean;
+  store: boolean;
+  documentation: string;
+}
+
+const isFlowNode = (node: XmlNode) =>
+  node.ns === BPMN_NS && !!attr(node, 'id') && (/(Task|Event|Gateway)$/.test(node.name) || [...AGENT_TASK_TYPES, ...SUBPROCESS_TYPES].includes(node.name));
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const withAgentSuffix = (name: string) => (/\bagent$/i.test(name.trim()) ? name.trim() : `${name.trim()} Agent`);
+
+const documentationOf = (node: XmlNode) => bpmnChildren(node, 'documentation').map(d => d.text.trim()).filter(Boolean).join('\n\n');
+
+/**
+ * Data object name without a Signavio-style state suffix ("Invoice [approved]").
+ */
+const dataObjectName = (name: string) => name.replace(/\s*\[[^\]]*\]\s*$/, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Field name of a data object in a data contract: "Claim Form" → claimForm.
+ */
+export function dataObjectKey(name: string): string {
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  if (!words.length) return 'data';
+  const key = words
+    .map((word, i) => (i === 0 ? word.charAt(0).toLowerCase() : word.charAt(0).toUpperCase()) + word.slice(1))
+    .join('');
+  return /^\d/.test(key) ? `_${key}` : key;
+}
+
+/**
+ * Leaf lane of every flow node a lane references, and the name of each lane. Lanes
+ * without a name take their parent's.
+ */
+function readLanes(process: XmlNode): { laneOf: Map<string, XmlNode>; laneNames: Map<XmlNode, string>; leaves: XmlNode[] } {
+  const laneOf = new Map<string, XmlNode>();
+  const laneNames = new Map<XmlNode, string>();
+  const leaves: XmlNode[] = [];
+
+  const visit = (laneSet: XmlNode, parentName: string | null) => {
+    for (const lane of bpmnChildren(laneSet, 'lane')) {
+      const name = attr(lane, 'name')?.trim() || parentName || attr(lane, 'id') || 'Lane';
+      laneNames.set(lane, name);
+      // Deeper lanes are visited later and win
+      for (const ref of bpmnChildren(lane, 'flowNodeRef')) laneOf.set(ref.text.trim(), lane);
+      const childSets = bpmnChildren(lane, 'childLaneSet');
+      if (childSets.some(set => bpmnChildren(set, 'lane').length)) childSets.forEach(set => visit(set, name));
+      else leaves.push(lane);
+    }
+  };
+  bpmnChildren(process, 'laneSet').forEach(set => visit(set, null));
+  return { laneOf, laneNames, leaves };
+}
+
+/**
+ * Data objects, data object references and data stores of a process, by the ID
+ * associations point at.
+ */
+function readDataObjects(root: XmlNode, process: XmlNode): Map<string, DataEntry> {
+  const data = new Map<string, DataEntry>();
+  const stores = new Map(bpmnChildren(root, 'dataStore').map(store => [attr(store, 'id') || '', store]));
+
+  const visit = (container: XmlNode) => {
+    const objects = new Map(bpmnChildren(container, 'dataObject').map(object => [attr(object, 'id') || '', object]));
+    for (const [id, object] of objects) {
+      data.set(id, {
+        name: dataObjectName(attr(object, 'name') || id),
+        named: !!attr(object, 'name')?.trim(),
+        collection: attr(object, 'isCollection') === 'true',
+        store: false,
+        documentation: documentationOf(object),
+      });
+    }
+    for (const ref of bpmnChildren(container, 'dataObjectReference')) {
+      const object = objects.get(attr(ref, 'dataObjectRef') || '');
+      data.set(attr(ref, 'id') || '', {
+        name: dataObjectName(attr(ref, 'name') || (object && attr(object, 'name')) || attr(ref, 'id') || ''),
+        named: !!(attr(ref, 'name') || (object && attr(object, 'name')))?.trim(),
+        collection: object ? attr(object, 'isCollection') === 'true' : false,
+        store: false,
+        documentation: documentationOf(ref) || (object ? documentationOf(object) : ''),
+      });
+    }
+    for (const ref of bpmnChildren(container, 'dataStoreReference')) {
+      const store = stores.get(attr(ref, 'dataStoreRef') || '');
+      data.set(attr(ref, 'id') || '', {
+        name: dataObjectName(attr(ref, 'name') || (store && attr(store, 'name')) || attr(ref, 'id') || ''),
+        named: !!(attr(ref, 'name') || (store && attr(store, 'name')))?.trim(),
+        collection: false,
+        store: true,
+        documentation: documentationOf(ref) || (store ? documentationOf(store) : ''),
+      });
+    }
+    container.children.filter(c => c.ns === BPMN_NS && SUBPROCESS_TYPES.includes(c.name)).forEach(visit);
+  };
+  visit(process);
+  return data;
+}
+
+/**
+ * The tasks of a process (including those of its subprocesses) with their performer and
+ * the data objects they read and write.
+ */
+function readTasks(process: XmlNode, poolName: string, poolSource: PerformerSource, data: Map<string, DataEntry>): TaskEntry[] {
+  const processId = attr(process, 'id') || '';
+  const { laneOf, laneNames } = readLanes(process);
+  const tasks: TaskEntry[] = [];
+  const tasksById = new Map<string, TaskEntry>();
+  const associations: XmlNode[] = [];
+
+  const visit = (container: XmlNode, inheritedLane: XmlNode | null) => {
+    for (const child of container.children) {
+      if (child.ns !== BPMN_NS) continue;
+      if (child.name === 'association') associations.push(child);
+      const lane = laneOf.get(attr(child, 'id') || '') || inheritedLane;
+
+      if (AGENT_TASK_TYPES.includes(child.name) || HUMAN_TASK_TYPES.includes(child.name)) {
+        const refs = (name: string, ref: string) => bpmnChildren(child, name)
+          .flatMap(association => bpmnChildren(association, ref).map(r => r.text.trim()))
+          .filter(id => data.has(id));
+        const task: TaskEntry = {
+          node: child,
+          type: child.name,
+          processId,
+          performer: lane ? laneNames.get(lane)! : poolName,
+          source: lane ? 'lane' : poolSource,
+          lane,
+          human: HUMAN_TASK_TYPES.includes(child.name),
+          inputs: refs('dataInputAssociation', 'sourceRef'),
+          outputs: refs('dataOutputAssociation', 'targetRef'),
+        };
+        tasks.push(task);
+        tasksById.set(attr(child, 'id') || '', task);
+      } else if (SUBPROCESS_TYPES.includes(child.name)) {
+        visit(child, lane);
+      }
+    }
+  };
+  visit(process, null);
+
+  // Modelers like Signavio connect data objects with plain associations
+  for (const association of associations) {
+    const source = attr(association, 'sourceRef') || '';
+    const target = attr(association, 'targetRef') || '';
+    if (data.has(source) && tasksById.has(target)) tasksById.get(target)!.inputs.push(source);
+    else if (tasksById.has(source) && data.has(target)) tasksById.get(source)!.outputs.push(target);
+  }
+  return tasks;
+}
+
+/**
+ * Documentation of an agent task: who runs it and its data contract, then the task's
+ * original documentation.
+ */
+function contractDocumentation(agentName: string, taskName: string, inputs: DataEntry[], outputs: DataEntry[], original: string): string {
+  const fields = (entries: DataEntry[]) => {
+    const types = new Map<string, string>();
+    for (const entry of entries) {
+      const key = dataObjectKey(entry.name);
+      if (!types.has(key)) types.set(key, entry.collection ? 'object[]' : 'object');
+    }
+    return Array.from(types, ([key, type]) => `${key}: ${type}`).join(', ');
+  };
+  const lines = [`Agent: ${agentName}`, `Skill: ${taskName}`];
+  if (inputs.length) lines.push(`Input: { ${fields(inputs)} }`);
+  if (outputs.length) lines.push(`Output: { ${fields(outputs)} }`);
+  if (original) lines.push('', original);
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Proposal
+// ============================================================================
+
+/**
+ * Read a BPMN model and propose the agents, human roles and data contracts it implies,
+ * with the model rewritten for the orchestrator.
+ */
+export function proposeBpmnImport(xml: string, options: BpmnImportOptions = {}): BpmnImportProposal {
+  const root = parseXml(xml.replace(/^\uFEFF/, ''));
+  if (root.ns !== BPMN_NS || root.name !== 'definitions') {
+    throw new BpmnImportError('Not a BPMN 2.0 model: expected a <definitions> element in the BPMN namespace');
+  }
+
+  const processNodes = bpmnChildren(root, 'process');
+  if (!processNodes.length) throw new BpmnImportError('No process found in the BPMN model');
+
+  let collaboration = bpmnChildren(root, 'collaboration')[0];
+  const participantOf = new Map<string, XmlNode>();
+  for (const participant of collaboration ? bpmnChildren(collaboration, 'participant') : []) {
+    const processRef = attr(participant, 'processRef');
+    if (processRef) participantOf.set(processRef, participant);
+  }
+
+  // Read every process
+  const warnings: string[] = [];
+  const data = new Map<string, DataEntry>();
+  const tasks: TaskEntry[] = [];
+  const processes: ImportedProcess[] = [];
+  for (const process of processNodes) {
+    const id = attr(process, 'id') || '';
+    const participantName = participantOf.get(id) ? attr(participantOf.get(id)!, 'name')?.trim() || null : null;
+    const name = attr(process, 'name')?.trim() || participantName || id;
+    const processData = readDataObjects(root, process);
+    processData.forEach((entry, dataId) => data.set(dataId, entry));
+    const processTasks = readTasks(process, participantName || name, participantName ? 'participant' : 'process', processData);
+    tasks.push(...processTasks);
+    processes.push({ id, name, participant: participantName, main: false, taskCount: processTasks.length });
+  }
+  if (!tasks.length) throw new BpmnImportError('No tasks found in the BPMN model');
+
+  // The main process: the one asked for, or the one with the most tasks
+  let main = processes[0];
+  if (options.processId) {
+    const requested = processes.find(p => p.id === options.processId);
+    if (!requested) throw new BpmnImportError(`Process ${options.processId} not found in the BPMN model`);
+    main = requested;
+  } else {
+    main = processes.reduce((best, p) => (p.taskCount > best.taskCount ? p : best), main);
+  }
+  main.main = true;
+  for (const p of processes) {
+    if (!p.main && p.taskCount) warnings.push(`Only "${main.name}" runs; the ${p.taskCount} task(s) of "${p.name}" are kept for reference`);
+  }
+
+  // One agent per performer with agent tasks; performers with only human tasks are human roles
+  const existing = options.existingAgents || [];
+  const findExisting = (name: string) =>
+    existing.find(a => normalizeName(a.name) === normalizeName(name))
+    || existing.find(a => normalizeName(withAgentSuffix(a.name)) === normalizeName(withAgentSuffix(name)));
+
+  const performers = new Map<string, TaskEntry[]>();
+  for (const task of tasks) {
+    const key = normalizeName(task.performer);
+    performers.set(key, [...(performers.get(key) || []), task]);
+  }
+  const agents: ProposedAgent[] = [];
+  const humanRoles: HumanRole[] = [];
+  const agentOf = new Map<string, ProposedAgent>();
+  for (const [key, performerTasks] of performers) {
+    const { performer, source } = performerTasks[0];
+    const taskIds = performerTasks.map(t => attr(t.node, 'id') || '');
+    if (performerTasks.every(t => t.human)) {
+      humanRoles.push({ name: performer, source, taskIds });
+      continue;
+    }
+    const match = findExisting(performer);
+    const agent: ProposedAgent = {
+      name: match ? match.name : withAgentSuffix(performer),
+      performer,
+      source,
+      taskIds,
+      ...(match && { existingAgentId: match.id }),
+    };
+    agents.push(agent);
+    agentOf.set(key, agent);
+  }
+
+  const orchestratorName = `${main.name} Orchestrator`;
+  const orchestratorMatch = findExisting(orchestratorName);
+  const orchestrator = {
+    name: orchestratorMatch ? orchestratorMatch.name : orchestratorName,
+    ...(orchestratorMatch && { existingAgentId: orchestratorMatch.id }),
+  };
+
+  // Rewrite the tasks: agent tasks become documented service tasks, manual tasks user tasks
+  const importedTasks: ImportedTask[] = [];
+  for (const task of tasks) {
+    const node = task.node;
+    const id = attr(node, 'id') || '';
+    const name = attr(node, 'name')?.trim() || id;
+    const agent = task.human ? null : agentOf.get(normalizeName(task.performer))!;
+    const inputs = [...new Set(task.inputs)].map(ref => data.get(ref)!);
+    const outputs = [...new Set(task.outputs)].map(ref => data.get(ref)!);
+    let documentation = documentationOf(node);
+
+    if (agent) {
+      if (task.type === 'callActivity') {
+        warnings.push(`Call activity "${name}" runs as a task of ${agent.name}; the process it calls is not imported`);
+      }
+      documentation = contractDocumentation(agent.name, name, inputs, outputs, documentation);
+      node.name = 'serviceTask';
+      node.attrs = node.attrs.filter(a => a.ns ? NAMESPACE_PREFIXES[a.ns] === 'camunda' : SERVICE_TASK_ATTRIBUTES.includes(a.name));
+      node.children = [
+        bpmnNode('documentation', {}, [], documentation),
+        ...node.children.filter(c => !(c.ns === BPMN_NS && ['documentation', 'script'].includes(c.name))),
+      ];
+    } else if (task.type === 'manualTask') {
+      node.name = 'userTask';
+    }
+    setAttr(node, 'name', name);
+
+    importedTasks.push({
+      id,
+      name,
+      type: task.type,
+      processId: task.processId,
+      agent: agent ? agent.name : null,
+      performer: task.performer,
+      inputs: inputs.map(entry => entry.name),
+      outputs: outputs.map(entry => entry.name),
+      documentation,
+    });
+  }
+
+  // Lanes carry the agents: leaf lanes are renamed to their agent, and agent tasks outside
+  // any lane get a lane of their pool's agent (the pool itself is the orchestrator's)
+  for (const process of processNodes) {
+    const processId = attr(process, 'id') || '';
+    const { laneOf, laneNames, leaves } = readLanes(process);
+    const processTasks = tasks.filter(t => t.processId === processId);
+
+    for (const lane of leaves) {
+      const agent = agentOf.get(normalizeName(laneNames.get(lane)!));
+      if (!agent) continue;
+      setAttr(lane, 'name', agent.name);
+      // Tasks of subprocesses in the lane are listed too, so the runtime finds their agent
+      const refs = new Set(bpmnChildren(lane, 'flowNodeRef').map(ref => ref.text.trim()));
+      for (const task of processTasks) {
+        const id = attr(task.node, 'id') || '';
+        if (task.lane === lane && !task.human && !refs.has(id)) lane.children.push(bpmnNode('flowNodeRef', {}, [], id));
+      }
+    }
+
+    const unlaned = processTasks.filter(t => !t.human && t.source !== 'lane');
+    if (unlaned.length) {
+      const agent = agentOf.get(normalizeName(unlaned[0].performer))!;
+      const refs = [
+        ...process.children.filter(c => isFlowNode(c) && !laneOf.has(attr(c, 'id') || '')).map(c => attr(c, 'id') || ''),
+        ...unlaned.map(t => attr(t.node, 'id') || ''),
+      ];
+      let laneSet = bpmnChildren(process, 'laneSet')[0];
+      if (!laneSet) {
+        laneSet = bpmnNode('laneSet', { id: `LaneSet_${processId}` });
+        process.children.unshift(laneSet);
+      }
+      laneSet.children.push(bpmnNode('lane', { id: `Lane_${processId}_Import`, name: agent.name },
+        [...new Set(refs)].map(ref => bpmnNode('flowNodeRef', {}, [], ref))));
+    }
+
+    setAttr(process, 'isExecutable', processId === main.id ? 'true' : 'false');
+  }
+
+  // The main process runs in the orchestrator's participant, ahead of the other processes
+  if (!collaboration) {
+    collaboration = bpmnNode('collaboration', { id: `Collaboration_${main.id}` });
+    root.children.unshift(collaboration);
+  }
+  let mainParticipant = participantOf.get(main.id);
+  if (!mainParticipant) {
+    mainParticipant = bpmnNode('participant', { id: `Participant_${main.id}`, name: orchestrator.name, processRef: main.id });
+    collaboration.children.unshift(mainParticipant);
+  }
+  setAttr(mainParticipant, 'name', orchestrator.name);
+  const mainNode = processNodes.find(p => attr(p, 'id') === main.id)!;
+  if (processNodes[0] !== mainNode) {
+    root.children.splice(root.children.indexOf(mainNode), 1);
+    root.children.splice(root.children.indexOf(processNodes[0]), 0, mainNode);
+  }
+
+  const dataObjects = new Map<string, ImportedDataObject>();
+  data.forEach((entry, id) => {
+    const key = normalizeName(entry.name);
+    if (!entry.named || !key || dataObjects.has(key)) return;
+    dataObjects.set(key, {
+      id,
+      name: entry.name,
+      key: dataObjectKey(entry.name),
+      collection: entry.collection,
+      store: entry.store,
+      description: entry.documentation,
+    });
+  });
+
+  return {
+    processId: main.id,
+    processName: main.name,
+    orchestrator,
+    processes,
+    agents,
+    humanRoles,
+    tasks: importedTasks,
+    dataObjects: Array.from(dataObjects.values()),
+    bpmnXml: serializeDefinitions(root),
+    warnings,
+  };
+}
+
+function serializeDefinitions(root: XmlNode): string {
+  const namespaces = Object.entries(NAMESPACE_PREFIXES)
+    .map(([uri, prefix]) => `\n    xmlns:${prefix}="${uri}"`)
+    .join('');
+  const body = serializeXml(root);
+  // Namespace declarations go on the root element
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body.replace(/^<bpmn:definitions/, `<bpmn:definitions${namespaces}`)}\n`;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Propose the import of a BPMN model into a foundation, reusing its agents by name.
+ */
+export async function previewBpmnImport(
+  pool: Pool,
+  tenantId: string,
+  foundationId: string,
+  xml: string,
+  processId?: string
+): Promise<BpmnImportProposal> {
+  const foundationResult = await pool.query(
+    `SELECT id FROM foundations WHERE id = $1 AND tenant_id = $2`,
+    [foundationId, tenantId]
+  );
+  if (foundationResult.rows.length === 0) {
+    throw new BpmnImportError('Foundation not found');
+  }
+  const agentsResult = await pool.query(
+    `SELECT id, name FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2`,
+    [tenantId, foundationId]
+  );
+  return proposeBpmnImport(xml, { processId, existingAgents: agentsResult.rows });
+}
+
+/**
+ * Import a BPMN model into a foundation: the proposed agents are created as drafts (or
+ * reused by name), the orchestrator gets the rewritten model as its BPMN, and the model's
+ * processes and data objects are added to the foundation.
+ */
+export async function importBpmnModel(
+  pool: Pool,
+  tenantId: string,
+  foundationId: string,
+  xml: string,
+  processId?: string
+): Promise<{ proposal: BpmnImportProposal; imported: BpmnImportSummary }> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const foundationResult = await client.query(
+      `SELECT data_objects, processes FROM foundations WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+      [foundationId, tenantId]
+    );
+    if (foundationResult.rows.length === 0) {
+      throw new BpmnImportError('Foundation not found');
+    }
+    const agentsResult = await client.query(
+      `SELECT * FROM agents WHERE tenant_id = $1 AND config->>'foundationId' = $2`,
+      [tenantId, foundationId]
+    );
+    const proposal = proposeBpmnImport(xml, { processId, existingAgents: agentsResult.rows });
+
+    const imported: BpmnImportSummary = {
+      orchestrator: { id: '', created: false },
+      agents: { created: 0, reused: 0 },
+      processes: { created: 0, existing: 0 },
+      dataObjects: { created: 0, existing: 0 },
+    };
+
+    for (const agent of proposal.agents) {
+      if (agent.existingAgentId) {
+        imported.agents.reused++;
+        continue;
+      }
+      const taskNames = proposal.tasks.filter(t => agent.taskIds.includes(t.id)).map(t => t.name);
+      const purpose = `Performs the "${agent.performer}" tasks of the ${proposal.processName} process: ${taskNames.join(', ')}`;
+      await client.query(
+        `INSERT INTO agents (tenant_id, name, type, description, config, status)
+         VALUES ($1, $2, 'Agent', $3, $4, 'draft')`,
+        [tenantId, agent.name, purpose, { foundationId, purpose, pattern: 'specialist' }]
+      );
+      imported.agents.created++;
+    }
+
+    const orchestrator = agentsResult.rows.find(a => a.id === proposal.orchestrator.existingAgentId);
+    if (orchestrator) {
+      await client.query(
+        `UPDATE agents SET config = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3`,
+        [{ ...orchestrator.config, pattern: 'orchestrator', bpmnXml: proposal.bpmnXml }, orchestrator.id, tenantId]
+      );
+      imported.orchestrator = { id: orchestrator.id, created: false };
+    } else {
+      const purpose = `Coordinates the ${proposal.processName} process`;
+      const inserted = await client.query(
+        `INSERT INTO agents (tenant_id, name, type, description, config, status)
+         VALUES ($1, $2, 'Agent', $3, $4, 'draft')
+         RETURNING id`,
+        [tenantId, proposal.orchestrator.name, purpose, { foundationId, purpose, pattern: 'orchestrator', bpmnXml: proposal.bpmnXml }]
+      );
+      imported.orchestrator = { id: inserted.rows[0].id, created: true };
+    }
+
+    // Processes with tasks and the data objects go to the foundation, by name
+    const processes: FoundationItem[] = [...(foundationResult.rows[0].processes || [])];
+    for (const process of proposal.processes.filter(p => p.taskCount)) {
+      if (processes.some(item => item?.name && normalizeName(item.name) === normalizeName(process.name))) {
+        imported.processes.existing++;
+        continue;
+      }
+      const taskNames = proposal.tasks.filter(t => t.processId === process.id).map(t => t.name);
+      processes.push({ id: nextItemId('process', processes), name: process.name, description: `Imported from BPMN: ${taskNames.join(', ')}` });
+      imported.processes.created++;
+    }
+    const dataObjects: FoundationItem[] = [...(foundationResult.rows[0].data_objects || [])];
+    for (const object of proposal.dataObjects) {
+      if (dataObjects.some(item => item?.name && normalizeName(item.name) === normalizeName(object.name))) {
+        imported.dataObjects.existing++;
+        continue;
+      }
+      dataObjects.push({ id: nextItemId('data-object', dataObjects), name: object.name, description: object.description });
+      imported.dataObjects.created++;
+    }
+
+    await client.query(
+      `UPDATE foundations SET data_objects = $1, processes = $2 WHERE id = $3 AND tenant_id = $4`,
+      [JSON.stringify(dataObjects), JSON.stringify(processes), foundationId, tenantId]
+    );
+
+    await client.query('COMMIT');
+    return { proposal, imported };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
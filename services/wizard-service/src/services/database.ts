@@ -16,6 +16,7 @@ import {
   AgenticPattern,
 } from '../types/wizard';
 import { generateProcessFlow } from './ai';
+import { isRevisionStep, recordRevision } from './session-revisions';
 
 // ============================================================================
 // Database Pool (Singleton)
@@ -59,13 +60,29 @@ export async function createWizardSession(
   currentStep?: number
 ): Promise<string> {
   const sessionId = uuidv4();
-  
-  await pool.query(
-    `INSERT INTO wizard_sessions 
-     (id, tenant_id, session_name, source_type, source_data, analysis_result, custom_prompt, status, step_data, current_step)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-    [sessionId, tenantId, sessionName, sourceType, sourceData, analysisResult, customPrompt, 'analyzed', stepData || null, currentStep || 0]
-  );
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `INSERT INTO wizard_sessions 
+       (id, tenant_id, session_name, source_type, source_data, analysis_result, custom_prompt, status, step_data, current_step)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [sessionId, tenantId, sessionName, sourceType, sourceData, analysisResult, customPrompt, 'analyzed', stepData || null, currentStep || 0]
+    );
+
+    // The initial results are revision 1 of their steps
+    await recordRevision(client, tenantId, sessionId, 'analysis', analysisResult, sourceType);
+    for (const [step, data] of Object.entries(stepData || {})) {
+      if (isRevisionStep(step)) await recordRevision(client, tenantId, sessionId, step, data, sourceType);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
 
   return sessionId;
 }
@@ -90,6 +107,8 @@ export async function getWizardSession(sessionId: string, tenantId: string): Pro
     status: row.status,
     step_data: row.step_data,
     current_step: row.current_step,
+    parentSessionId: row.parent_session_id,
+    branchedAtStep: row.branched_at_step,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     appliedAt: row.applied_at,
@@ -119,6 +138,8 @@ export async function getWizardSessionByTenant(
     status: row.status,
     step_data: row.step_data, // Per-step wizard data
     current_step: row.current_step,
+    parentSessionId: row.parent_session_id,
+    branchedAtStep: row.branched_at_step,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     appliedAt: row.applied_at,
@@ -127,7 +148,7 @@ export async function getWizardSessionByTenant(
 
 export async function listWizardSessions(tenantId: string, limit = 50, offset = 0): Promise<WizardSession[]> {
   const result = await pool.query(
-    `SELECT id, session_name, source_type, status, created_at, updated_at, applied_at
+    `SELECT id, session_name, source_type, status, parent_session_id, branched_at_step, created_at, updated_at, applied_at
      FROM wizard_sessions 
      WHERE tenant_id = $1 
      ORDER BY created_at DESC 
@@ -143,22 +164,43 @@ export async function listWizardSessions(tenantId: string, limit = 50, offset =
     sourceData: {},
     analysisResult: null,
     status: row.status,
+    parentSessionId: row.parent_session_id,
+    branchedAtStep: row.branched_at_step,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     appliedAt: row.applied_at,
   }));
 }
 
+/**
+ * Replace the session's analysis result. The previous one stays available as a revision.
+ */
 export async function updateWizardSession(
   sessionId: string,
   tenantId: string,
-  analysisResult: AnalysisResult
+  analysisResult: AnalysisResult,
+  source = 'analysis'
 ): Promise<boolean> {
-  const result = await pool.query(
-    'UPDATE wizard_sessions SET analysis_result = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3',
-    [analysisResult, sessionId, tenantId]
-  );
-  return (result.rowCount ?? 0) > 0;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      'UPDATE wizard_sessions SET analysis_result = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3',
+      [analysisResult, sessionId, tenantId]
+    );
+    if ((result.rowCount ?? 0) === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+    await recordRevision(client, tenantId, sessionId, 'analysis', analysisResult, source);
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
 export async function markSessionApplied(sessionId: string, tenantId: string): Promise<boolean> {
@@ -0,0 +1,199 @@
+/**
+ * Document Analysis Service - Map-Reduce Analysis of Uploaded Documents
+ *
+ * Large spreadsheets and documents don't fit a single prompt, so they are analysed in
+ * chunks (see document-parser.ts) instead of being cut off:
+ * - Map: extract capabilities, data objects and processes from every chunk
+ * - Reduce: merge what the chunks found (same name = same capability) and design the
+ *   agent model from the merged capability list
+ *
+ * Every merged capability keeps the file, sheet or page, and chunk it was found in.
+ */
+
+import { executePrompt, ExtractDocumentChunkInput } from '../prompts';
+import { ExtractDocumentChunkOutput } from '../prompts/schemas';
+import { analyzeTextDescription } from './ai';
+import { ParsedDocument, DocumentChunk, chunkDocument, sourceLabel } from './document-parser';
+import { AnalysisResult, ExtractedCapability, CapabilitySource } from '../types/wizard';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MAX_CHUNKS = Number(process.env.DOCUMENT_MAX_CHUNKS) || 60;
+const MAP_CONCURRENCY = Number(process.env.DOCUMENT_ANALYSIS_CONCURRENCY) || 3;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class DocumentTooLargeError extends Error {
+  constructor(readonly chunkCount: number, readonly maxChunks: number) {
+    super(`Document is too large to analyse: ${chunkCount} chunks (max ${maxChunks})`);
+    this.name = 'DocumentTooLargeError';
+  }
+}
+
+export interface DocumentAnalysis {
+  analysis: AnalysisResult;
+  chunkCount: number;
+}
+
+interface NamedElement {
+  name: string;
+  description: string;
+}
+
+// ============================================================================
+// Map-Reduce
+// ============================================================================
+
+export async function analyzeDocument(document: ParsedDocument, context?: string): Promise<DocumentAnalysis> {
+  const chunks = chunkDocument(document);
+  if (chunks.length > MAX_CHUNKS) {
+    throw new DocumentTooLargeError(chunks.length, MAX_CHUNKS);
+  }
+  console.log(`[DocumentAnalysis] ${document.fileName}: ${document.totalChars} chars in ${chunks.length} chunks`);
+
+  // Map
+  const results = await mapWithConcurrency(chunks, MAP_CONCURRENCY, chunk => extractChunk(document, chunk, chunks.length, context));
+
+  // Reduce
+  const capabilities = mergeCapabilities(chunks, results);
+  const dataObjects = mergeElements(results.flatMap(result => result.dataObjects || []));
+  const processes = mergeElements(results.flatMap(result => result.processes || []));
+  console.log(`[DocumentAnalysis] ${document.fileName}: merged ${capabilities.length} capabilities, ${dataObjects.length} data objects, ${processes.length} processes`);
+
+  const analysis = await analyzeTextDescription(
+    describeExtraction(document, capabilities, dataObjects, processes),
+    context ? [context] : undefined
+  );
+
+  // The merged extraction is what the document says; keep it (with sources) over the
+  // capability list the design step returns
+  analysis.extractedCapabilities = capabilities;
+  analysis.summary = { ...analysis.summary, totalCapabilities: capabilities.length };
+
+  return { analysis, chunkCount: chunks.length };
+}
+
+async function extractChunk(
+  document: ParsedDocument,
+  chunk: DocumentChunk,
+  chunkCount: number,
+  context?: string
+): Promise<ExtractDocumentChunkOutput> {
+  const result = await executePrompt<ExtractDocumentChunkInput, ExtractDocumentChunkOutput>(
+    'step1.extract-document-chunk',
+    {
+      fileName: document.fileName,
+      chunkText: chunk.text,
+      chunkIndex: chunk.index,
+      chunkCount,
+      customContext: context,
+    }
+  );
+  if (!result.success || !result.data) {
+    throw new Error(`Analysis of part ${chunk.index + 1} of ${chunkCount} failed: ${result.error}`);
+  }
+  return result.data;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Merge the capabilities of all chunks by name. The first chunk to mention a capability
+ * decides its level and parent; a longer description from a later chunk wins.
+ */
+export function mergeCapabilities(chunks: DocumentChunk[], results: ExtractDocumentChunkOutput[]): ExtractedCapability[] {
+  const merged = new Map<string, ExtractedCapability & { sources: CapabilitySource[] }>();
+
+  results.forEach((result, i) => {
+    const chunk = chunks[i];
+    for (const capability of result.capabilities) {
+      const key = normalizeName(capability.name);
+      if (!key) continue;
+      const sources = capabilitySources(chunk, capability.sources || []);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, {
+          name: capability.name.trim(),
+          level: capability.level,
+          parentName: capability.parentName || null,
+          description: capability.description,
+          automationPotential: capability.automationPotential,
+          sources,
+        });
+        continue;
+      }
+      if (!existing.parentName && capability.parentName) existing.parentName = capability.parentName;
+      if (capability.description.length > existing.description.length) existing.description = capability.description;
+      for (const source of sources) {
+        if (!existing.sources.some(s => s.file === source.file && s.sheet === source.sheet && s.page === source.page && s.chunk === source.chunk)) {
+          existing.sources.push(source);
+        }
+      }
+    }
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * The chunk sections a capability names by marker, or every section of the chunk when
+ * it names none (or none that the chunk has).
+ */
+function capabilitySources(chunk: DocumentChunk, labels: string[]): CapabilitySource[] {
+  const wanted = new Set(labels.map(label => label.replace(/^\[|\]$/g, '').trim().toLowerCase()));
+  const named = chunk.sources.filter(source => wanted.has((sourceLabel(source) || '').toLowerCase()));
+  return (named.length ? named : chunk.sources).map(source => ({ ...source, chunk: chunk.index }));
+}
+
+function mergeElements(elements: Array<{ name: string; description?: string }>): NamedElement[] {
+  const merged = new Map<string, NamedElement>();
+  for (const element of elements) {
+    const key = normalizeName(element.name);
+    if (!key) continue;
+    const existing = merged.get(key);
+    if (!existing) merged.set(key, { name: element.name.trim(), description: element.description || '' });
+    else if ((element.description || '').length > existing.description.length) existing.description = element.description!;
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Description of the merged extraction for the design step (analyzeTextDescription).
+ */
+function describeExtraction(
+  document: ParsedDocument,
+  capabilities: ExtractedCapability[],
+  dataObjects: NamedElement[],
+  processes: NamedElement[]
+): string {
+  const list = (elements: NamedElement[]) =>
+    elements.map(element => `- ${element.name}${element.description ? `: ${element.description}` : ''}`).join('\n');
+
+  const capabilityLines = capabilities.map(capability =>
+    `- ${capability.name} (level ${capability.level}${capability.parentName ? `, parent: ${capability.parentName}` : ''}): ${capability.description}`
+  );
+
+  return `Capabilities, data objects and processes extracted from the document "${document.fileName}" (${document.format.toUpperCase()}).
+
+### Capabilities
+${capabilityLines.join('\n')}
+${dataObjects.length ? `\n### Data objects\n${list(dataObjects)}\n` : ''}${processes.length ? `\n### Processes\n${list(processes)}\n` : ''}
+Use these capabilities as the extractedCapabilities, with the same names.`;
+}
@@ -0,0 +1,266 @@
+/**
+ * Document Parser Service - Text Extraction for Data Uploads
+ *
+ * Turns uploaded spreadsheets (CSV, XLSX, XLS), PDFs and Word documents (DOCX) into
+ * text sections that remember where they came from (sheet or page), and splits those
+ * sections into chunks small enough for a single analysis prompt.
+ *
+ * Spreadsheet rows are written as "Header: value" pairs when a header row is found, so
+ * every line still makes sense on its own once a sheet is split across chunks.
+ */
+
+import * as XLSX from 'xlsx';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DocumentFormat = 'csv' | 'xlsx' | 'xls' | 'pdf' | 'docx';
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.pdf', '.docx'];
+
+/** Where a piece of extracted text came from */
+export interface DocumentSource {
+  file: string;
+  /** Worksheet name (XLSX/XLS) */
+  sheet?: string;
+  /** 1-based page number (PDF) */
+  page?: number;
+}
+
+export interface DocumentSection {
+  source: DocumentSource;
+  text: string;
+}
+
+export interface ParsedDocument {
+  fileName: string;
+  format: DocumentFormat;
+  sections: DocumentSection[];
+  totalChars: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  /** Sections (sheets/pages) this chunk has text from */
+  sources: DocumentSource[];
+}
+
+export class DocumentParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_CHUNK_CHARS = Number(process.env.DOCUMENT_CHUNK_CHARS) || 12000;
+// Rows inspected when looking for a sheet's header row
+const HEADER_SCAN_ROWS = 10;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function documentFormat(fileName: string): DocumentFormat | null {
+  const ext = fileName.toLowerCase().slice(fileName.lastIndexOf('.'));
+  return SUPPORTED_DOCUMENT_EXTENSIONS.includes(ext) ? ext.slice(1) as DocumentFormat : null;
+}
+
+/**
+ * Extract the text of an uploaded document, section by section.
+ */
+export async function parseDocument(fileName: string, buffer: Buffer): Promise<ParsedDocument> {
+  const format = documentFormat(fileName);
+  if (!format) {
+    throw new DocumentParseError(`Unsupported file type: ${fileName}. Supported: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}`);
+  }
+
+  let sections: DocumentSection[] = [];
+  try {
+    switch (format) {
+      case 'csv':
+        // Parsed as a one-sheet workbook to get the same header detection as Excel files
+        sections = parseWorkbook(fileName, XLSX.read(buffer.toString('utf-8'), { type: 'string' }))
+          .map(section => ({ ...section, source: { file: fileName } }));
+        break;
+      case 'xlsx':
+      case 'xls':
+        sections = parseWorkbook(fileName, XLSX.read(buffer, { type: 'buffer' }));
+        break;
+      case 'pdf':
+        sections = await parsePdf(fileName, buffer);
+        break;
+      case 'docx':
+        sections = await parseDocx(fileName, buffer);
+        break;
+    }
+  } catch (error: any) {
+    throw new DocumentParseError(`Could not read ${fileName}: ${error.message}`);
+  }
+
+  sections = sections.filter(section => section.text.trim().length > 0);
+  if (!sections.length) {
+    throw new DocumentParseError(
+      format === 'pdf'
+        ? `No text found in ${fileName}. Scanned PDFs without a text layer are not supported.`
+        : `No text found in ${fileName}`
+    );
+  }
+
+  return {
+    fileName,
+    format,
+    sections,
+    totalChars: sections.reduce((sum, section) => sum + section.text.length, 0),
+  };
+}
+
+/**
+ * Every non-empty sheet of a workbook, one section per sheet.
+ */
+function parseWorkbook(fileName: string, workbook: XLSX.WorkBook): DocumentSection[] {
+  return workbook.SheetNames.map(sheetName => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+      header: 1,
+      blankrows: false,
+      defval: '',
+      raw: false,
+    }).map(row => row.map(cell => String(cell ?? '').trim()));
+
+    return { source: { file: fileName, sheet: sheetName }, text: renderRows(rows) };
+  });
+}
+
+/**
+ * Index of the row that holds a sheet's column headers, or -1 if there is none.
+ *
+ * A header row is the first of the top rows whose filled cells are all distinct,
+ * non-numeric labels, covering at least half the columns of the row below it.
+ * Title rows above the table (a single filled cell) are skipped.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  const filled = (row: string[]) => row.filter(cell => cell !== '');
+  for (let i = 0; i < Math.min(rows.length - 1, HEADER_SCAN_ROWS); i++) {
+    const cells = filled(rows[i]);
+    if (cells.length < 2) continue;
+    const labels = cells.every(cell => isNaN(Number(cell.replace(/[,%]/g, ''))));
+    const distinct = new Set(cells.map(cell => cell.toLowerCase())).size === cells.length;
+    const nextWidth = filled(rows[i + 1]).length;
+    if (labels && distinct && cells.length * 2 >= nextWidth) return i;
+  }
+  return -1;
+}
+
+function renderRows(rows: string[][]): string {
+  const headerIndex = detectHeaderRow(rows);
+  if (headerIndex === -1) {
+    return rows.map(row => row.filter(cell => cell !== '').join(' | ')).filter(Boolean).join('\n');
+  }
+
+  const headers = rows[headerIndex];
+  const preamble = rows.slice(0, headerIndex).map(row => row.filter(cell => cell !== '').join(' | '));
+  const records = rows.slice(headerIndex + 1).map(row =>
+    row
+      .map((cell, col) => cell === '' ? '' : `${headers[col] || `Column ${col + 1}`}: ${cell}`)
+      .filter(Boolean)
+      .join('; ')
+  );
+  return [...preamble, ...records].filter(Boolean).join('\n');
+}
+
+/**
+ * One section per page, keeping the line breaks of the page's text layer.
+ */
+async function parsePdf(fileName: string, buffer: Buffer): Promise<DocumentSection[]> {
+  const pages: DocumentSection[] = [];
+  await pdfParse(buffer, {
+    // pdf-parse renders pages one after another, in page order
+    pagerender: (pageData: any) =>
+      pageData.getTextContent({ normalizeWhitespace: true, disableCombineTextItems: false }).then((content: any) => {
+        let text = '';
+        let lastY: number | undefined;
+        for (const item of content.items) {
+          const y = item.transform[5];
+          text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+          lastY = y;
+        }
+        pages.push({ source: { file: fileName, page: pages.length + 1 }, text });
+        return text;
+      }),
+  });
+  return pages;
+}
+
+/**
+ * DOCX files carry no page layout, so the whole document is one section.
+ */
+async function parseDocx(fileName: string, buffer: Buffer): Promise<DocumentSection[]> {
+  const result = await mammoth.extractRawText({ buffer });
+  return [{ source: { file: fileName }, text: result.value.replace(/\n{3,}/g, '\n\n') }];
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Label used for a section in chunk text and in capability sources, e.g. "Sheet: Level 1"
+ * or "Page 4". Null for sections that are the whole file.
+ */
+export function sourceLabel(source: DocumentSource): string | null {
+  if (source.sheet !== undefined) return `Sheet: ${source.sheet}`;
+  if (source.page !== undefined) return `Page ${source.page}`;
+  return null;
+}
+
+/**
+ * Split a document into chunks of at most `maxChars`, breaking between lines (or inside a
+ * line that is longer than a chunk). Each section starts with a "[Sheet: …]" / "[Page n]"
+ * marker, repeated when the section continues in the next chunk.
+ */
+export function chunkDocument(document: ParsedDocument, maxChars = DEFAULT_CHUNK_CHARS): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let lines: string[] = [];
+  let length = 0;
+  let sources: DocumentSource[] = [];
+
+  const flush = () => {
+    if (!lines.length) return;
+    chunks.push({ index: chunks.length, text: lines.join('\n'), sources });
+    lines = [];
+    length = 0;
+    sources = [];
+  };
+
+  for (const section of document.sections) {
+    const label = sourceLabel(section.source);
+    const marker = label ? `[${label}]` : null;
+    const budget = maxChars - (marker ? marker.length + 1 : 0);
+    const markerLength = () => (marker && !sources.includes(section.source) ? marker.length + 1 : 0);
+
+    for (const line of section.text.split('\n')) {
+      for (let offset = 0; offset < Math.max(line.length, 1); offset += budget) {
+        const piece = line.slice(offset, offset + budget);
+        if (length + markerLength() + piece.length + 1 > maxChars) flush();
+        if (!sources.includes(section.source)) {
+          sources.push(section.source);
+          if (marker) {
+            lines.push(marker);
+            length += marker.length + 1;
+          }
+        }
+        lines.push(piece);
+        length += piece.length + 1;
+      }
+    }
+  }
+  flush();
+  return chunks;
+}
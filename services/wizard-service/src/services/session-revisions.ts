@@ -0,0 +1,497 @@
+/**
+ * Session Revisions Service - Wizard Step History, Branches and Proposal Diffs
+ *
+ * A session's step_data and analysis_result only hold the latest result of each step.
+ * Every result is also kept as an immutable revision of its step, so re-running step 3
+ * or optimize-agents doesn't lose the proposal it replaces:
+ * - Revisions: numbered per session and step, with the custom prompt in effect
+ * - Branches: a new session with the parent's steps up to a chosen step and its own
+ *   custom prompt, to try a different prompt without touching the original
+ * - Diffs: agents added, removed or renamed, changed patterns and changed relationships
+ *   between any two revisions (of the same session or of a branch)
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const REVISION_STEPS = ['analysis', 'step1', 'step2', 'step3', 'step4', 'step5', 'step6'] as const;
+export type RevisionStep = typeof REVISION_STEPS[number];
+
+export interface SessionRevision {
+  id: string;
+  sessionId: string;
+  step: RevisionStep;
+  revision: number;
+  source: string;
+  data: any;
+  customPrompt: string | null;
+  parentRevisionId: string | null;
+  createdAt: Date;
+}
+
+export type RevisionSummary = Omit<SessionRevision, 'data'>;
+
+export interface BranchOptions {
+  // Last step copied from the parent (1-6); defaults to the parent's current step
+  throughStep?: number;
+  // Custom prompt of the branch; defaults to the parent's
+  customPrompt?: string;
+  sessionName?: string;
+}
+
+export interface BranchResult {
+  sessionId: string;
+  parentSessionId: string;
+  branchedAtStep: number;
+  revisions: RevisionSummary[];
+}
+
+export interface DiffAgent {
+  name: string;
+  pattern: string | null;
+}
+
+export interface DiffRelationship {
+  source: string;
+  target: string;
+  type: string;
+}
+
+export interface ProposalDiff {
+  from: RevisionSummary;
+  to: RevisionSummary;
+  agents: {
+    added: DiffAgent[];
+    removed: DiffAgent[];
+    // Matched by ID (with a related purpose), or else by a mostly identical purpose
+    renamed: Array<{ from: string; to: string; matchedBy: 'id' | 'purpose' }>;
+    patternChanged: Array<{ name: string; from: string | null; to: string | null }>;
+    unchanged: number;
+  };
+  relationships: {
+    added: DiffRelationship[];
+    removed: DiffRelationship[];
+    // Same source and target, different type
+    changed: Array<{ source: string; target: string; from: string; to: string }>;
+  };
+}
+
+export class SessionRevisionError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = 'SessionRevisionError';
+  }
+}
+
+type Queryable = Pool | PoolClient;
+
+// Purposes sharing at least this share of their words make a removed and an added agent a rename
+const RENAME_PURPOSE_SIMILARITY = 0.6;
+// Proposal IDs are positional ('agent-1', ...), so a shared ID only makes a rename when the
+// purposes are at least this similar
+const RENAME_ID_PURPOSE_SIMILARITY = 0.3;
+
+// ============================================================================
+// Revisions
+// ============================================================================
+
+export function isRevisionStep(step: unknown): step is RevisionStep {
+  return REVISION_STEPS.includes(step as RevisionStep);
+}
+
+function revisionFromRow(row: any): SessionRevision {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    step: row.step,
+    revision: row.revision,
+    source: row.source,
+    data: row.data,
+    customPrompt: row.custom_prompt,
+    parentRevisionId: row.parent_revision_id,
+    createdAt: row.created_at,
+  };
+}
+
+function summary(revision: SessionRevision): RevisionSummary {
+  const { data, ...rest } = revision;
+  return rest;
+}
+
+/**
+ * Add the next revision of a session step. Callers run this in the transaction that
+ * updates the session, after locking its row (FOR UPDATE), so revision numbers don't race.
+ */
+export async function recordRevision(
+  db: Queryable,
+  tenantId: string,
+  sessionId: string,
+  step: RevisionStep,
+  data: unknown,
+  source: string = step,
+  parentRevisionId?: string
+): Promise<SessionRevision> {
+  const result = await db.query(
+    `INSERT INTO wizard_session_revisions
+       (id, tenant_id, session_id, step, revision, source, data, custom_prompt, parent_revision_id)
+     SELECT $1, s.tenant_id, s.id, $4,
+            COALESCE((SELECT MAX(revision) FROM wizard_session_revisions WHERE session_id = s.id AND step = $4), 0) + 1,
+            $5, $6, s.custom_prompt, $7
+     FROM wizard_sessions s
+     WHERE s.id = $2 AND s.tenant_id = $3
+     RETURNING *`,
+    [uuidv4(), sessionId, tenantId, step, source, JSON.stringify(data ?? null), parentRevisionId || null]
+  );
+  if (result.rows.length === 0) {
+    throw new SessionRevisionError('Session not found', 404);
+  }
+  return revisionFromRow(result.rows[0]);
+}
+
+/**
+ * Replace one step's entry in the session's step_data and keep it as a revision.
+ * Null when the session doesn't exist.
+ */
+export async function saveStepData(
+  pool: Pool,
+  tenantId: string,
+  sessionId: string,
+  step: RevisionStep,
+  data: unknown,
+  currentStep: number,
+  source: string = step
+): Promise<SessionRevision | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const updated = await client.query(
+      `UPDATE wizard_sessions
+       SET step_data = jsonb_set(COALESCE(step_data, '{}'), $3, $4::jsonb),
+           current_step = $5,
+           updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2`,
+      [sessionId, tenantId, `{${step}}`, JSON.stringify(data), currentStep]
+    );
+    if ((updated.rowCount ?? 0) === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    // The UPDATE holds the session's row lock until COMMIT
+    const revision = await recordRevision(client, tenantId, sessionId, step, data, source);
+    await client.query('COMMIT');
+    return revision;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Keep a step result that doesn't replace the session's step data (e.g. an
+ * optimize-agents proposal the user hasn't accepted yet).
+ */
+export async function addRevision(
+  pool: Pool,
+  tenantId: string,
+  sessionId: string,
+  step: RevisionStep,
+  data: unknown,
+  source: string
+): Promise<SessionRevision> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const locked = await client.query(
+      'SELECT id FROM wizard_sessions WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+      [sessionId, tenantId]
+    );
+    if (locked.rows.length === 0) {
+      throw new SessionRevisionError('Session not found', 404);
+    }
+    const revision = await recordRevision(client, tenantId, sessionId, step, data, source);
+    await client.query('COMMIT');
+    return revision;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listRevisions(
+  pool: Pool,
+  tenantId: string,
+  sessionId: string,
+  step?: RevisionStep
+): Promise<RevisionSummary[]> {
+  const session = await pool.query(
+    'SELECT id FROM wizard_sessions WHERE id = $1 AND tenant_id = $2',
+    [sessionId, tenantId]
+  );
+  if (session.rows.length === 0) {
+    throw new SessionRevisionError('Session not found', 404);
+  }
+
+  const result = await pool.query(
+    `SELECT id, session_id, step, revision, source, custom_prompt, parent_revision_id, created_at
+     FROM wizard_session_revisions
+     WHERE session_id = $1 AND tenant_id = $2 AND ($3::text IS NULL OR step = $3)
+     ORDER BY step, revision DESC`,
+    [sessionId, tenantId, step || null]
+  );
+  return result.rows.map(row => summary(revisionFromRow(row)));
+}
+
+export async function getRevision(pool: Pool, tenantId: string, revisionId: string): Promise<SessionRevision> {
+  const result = await pool.query(
+    'SELECT * FROM wizard_session_revisions WHERE id = $1 AND tenant_id = $2',
+    [revisionId, tenantId]
+  );
+  if (result.rows.length === 0) {
+    throw new SessionRevisionError('Revision not found', 404);
+  }
+  return revisionFromRow(result.rows[0]);
+}
+
+// ============================================================================
+// Branches
+// ============================================================================
+
+/**
+ * Copy a session, with its analysis and steps 1..throughStep, into a new session. The
+ * copied steps become revision 1 of the branch, pointing at the parent's latest revision.
+ */
+export async function branchSession(
+  pool: Pool,
+  tenantId: string,
+  sessionId: string,
+  options: BranchOptions = {}
+): Promise<BranchResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const parentResult = await client.query(
+      'SELECT * FROM wizard_sessions WHERE id = $1 AND tenant_id = $2 FOR SHARE',
+      [sessionId, tenantId]
+    );
+    const parent = parentResult.rows[0];
+    if (!parent) {
+      throw new SessionRevisionError('Session not found', 404);
+    }
+
+    const throughStep = options.throughStep ?? (parent.current_step || 0);
+    if (!Number.isInteger(throughStep) || throughStep < 0 || throughStep > 6) {
+      throw new SessionRevisionError('throughStep must be a step number from 0 to 6');
+    }
+    if (throughStep > (parent.current_step || 0)) {
+      throw new SessionRevisionError(`Session has only completed step ${parent.current_step || 0}`);
+    }
+
+    const stepData: Record<string, unknown> = {};
+    for (let step = 1; step <= throughStep; step++) {
+      if (parent.step_data?.[`step${step}`] !== undefined) stepData[`step${step}`] = parent.step_data[`step${step}`];
+    }
+
+    const branchId = uuidv4();
+    await client.query(
+      `INSERT INTO wizard_sessions
+       (id, tenant_id, user_id, session_name, source_type, source_data, analysis_result, custom_prompt, status,
+        step_data, current_step, parent_session_id, branched_at_step)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        branchId,
+        tenantId,
+        parent.user_id,
+        options.sessionName || `${parent.session_name || 'Session'} (branch)`,
+        parent.source_type,
+        parent.source_data,
+        parent.analysis_result,
+        options.customPrompt !== undefined ? options.customPrompt : parent.custom_prompt,
+        'analyzed',
+        Object.keys(stepData).length ? stepData : null,
+        throughStep,
+        sessionId,
+        throughStep,
+      ]
+    );
+
+    // Latest revision of every copied step, so the branch's history links back to it
+    const latest = await client.query(
+      `SELECT DISTINCT ON (step) id, step FROM wizard_session_revisions
+       WHERE session_id = $1 ORDER BY step, revision DESC`,
+      [sessionId]
+    );
+    const parentRevisions = new Map<string, string>(latest.rows.map(row => [row.step, row.id]));
+
+    const revisions: RevisionSummary[] = [];
+    const copied: Array<[RevisionStep, unknown]> = [
+      ...(parent.analysis_result ? [['analysis', parent.analysis_result] as [RevisionStep, unknown]] : []),
+      ...Object.entries(stepData) as Array<[RevisionStep, unknown]>,
+    ];
+    for (const [step, data] of copied) {
+      const revision = await recordRevision(client, tenantId, branchId, step, data, 'branch', parentRevisions.get(step));
+      revisions.push(summary(revision));
+    }
+
+    await client.query('COMMIT');
+    return { sessionId: branchId, parentSessionId: sessionId, branchedAtStep: throughStep, revisions };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+interface ProposalAgent {
+  id: string | null;
+  name: string;
+  pattern: string | null;
+  purpose: string;
+}
+
+/**
+ * The agents and relationships of a revision, whichever step produced it:
+ * - analysis: agents + agentRelationships
+ * - step3: proposedAgents.agents, or proposedAgents.orchestrator + specialists
+ *   (identify-agents / optimize-agents)
+ * - step4: patterns.agentPatterns (by agent ID)
+ * - step6: relationships.relationships
+ */
+function proposalOf(data: any): { agents: ProposalAgent[]; relationships: DiffRelationship[] } {
+  let rawAgents: any[] = [];
+  if (Array.isArray(data?.agents)) rawAgents = data.agents;
+  else if (Array.isArray(data?.proposedAgents?.agents)) rawAgents = data.proposedAgents.agents;
+  else if (data?.proposedAgents?.orchestrator || data?.orchestrator) {
+    const proposal = data.proposedAgents || data;
+    rawAgents = [{ ...proposal.orchestrator, isOrchestrator: true }, ...(proposal.specialists || [])];
+  } else if (Array.isArray(data?.patterns?.agentPatterns)) rawAgents = data.patterns.agentPatterns;
+
+  const agents: ProposalAgent[] = rawAgents
+    .filter(agent => agent && (agent.name || agent.id || agent.agentId))
+    .map(agent => ({
+      id: agent.id || agent.agentId || null,
+      name: String(agent.name || agent.id || agent.agentId).trim(),
+      pattern: agent.suggestedPattern || agent.pattern || null,
+      purpose: agent.purpose || agent.description || '',
+    }));
+
+  const nameById = new Map(agents.filter(agent => agent.id).map(agent => [agent.id!, agent.name]));
+  const rawRelationships: any[] = Array.isArray(data?.agentRelationships) ? data.agentRelationships
+    : Array.isArray(data?.relationships?.relationships) ? data.relationships.relationships
+    : Array.isArray(data?.relationships) ? data.relationships
+    : [];
+  const relationships = rawRelationships
+    .filter(rel => rel?.sourceAgentId && rel?.targetAgentId)
+    .map(rel => ({
+      source: nameById.get(rel.sourceAgentId) || rel.sourceAgentId,
+      target: nameById.get(rel.targetAgentId) || rel.targetAgentId,
+      type: rel.relationshipType || rel.messageType || 'message',
+    }));
+
+  return { agents, relationships };
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2));
+}
+
+function similarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (!wordsA.size || !wordsB.size) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Structural diff of the agent proposals in two revisions. Agents are matched by name,
+ * then unmatched ones by ID or by purpose (renames). Relationships are compared by their
+ * endpoints' names, with renamed agents under their new name.
+ */
+export function diffRevisions(from: SessionRevision, to: SessionRevision): ProposalDiff {
+  const before = proposalOf(from.data);
+  const after = proposalOf(to.data);
+
+  const afterByName = new Map(after.agents.map(agent => [normalizeName(agent.name), agent]));
+  const pairs: Array<[ProposalAgent, ProposalAgent]> = [];
+  let removed = before.agents.filter(agent => {
+    const match = afterByName.get(normalizeName(agent.name));
+    if (match) pairs.push([agent, match]);
+    return !match;
+  });
+  let added = after.agents.filter(agent => !before.agents.some(b => normalizeName(b.name) === normalizeName(agent.name)));
+
+  // Renames: a shared ID first, then the most similar purpose
+  const renamed: ProposalDiff['agents']['renamed'] = [];
+  const rename = (oldAgent: ProposalAgent, newAgent: ProposalAgent, matchedBy: 'id' | 'purpose') => {
+    renamed.push({ from: oldAgent.name, to: newAgent.name, matchedBy });
+    pairs.push([oldAgent, newAgent]);
+    removed = removed.filter(agent => agent !== oldAgent);
+    added = added.filter(agent => agent !== newAgent);
+  };
+  for (const oldAgent of [...removed]) {
+    const match = oldAgent.id ? added.find(agent => agent.id === oldAgent.id) : undefined;
+    if (!match) continue;
+    if (!oldAgent.purpose || !match.purpose || similarity(oldAgent.purpose, match.purpose) >= RENAME_ID_PURPOSE_SIMILARITY) {
+      rename(oldAgent, match, 'id');
+    }
+  }
+  const candidates = removed
+    .flatMap(oldAgent => added.map(newAgent => ({ oldAgent, newAgent, score: similarity(oldAgent.purpose, newAgent.purpose) })))
+    .filter(candidate => candidate.score >= RENAME_PURPOSE_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+  for (const { oldAgent, newAgent } of candidates) {
+    if (removed.includes(oldAgent) && added.includes(newAgent)) rename(oldAgent, newAgent, 'purpose');
+  }
+
+  const samePattern = ([oldAgent, newAgent]: [ProposalAgent, ProposalAgent]) =>
+    (oldAgent.pattern || '').toLowerCase() === (newAgent.pattern || '').toLowerCase();
+  const patternChanged = pairs
+    .filter(pair => !samePattern(pair))
+    .map(([oldAgent, newAgent]) => ({ name: newAgent.name, from: oldAgent.pattern, to: newAgent.pattern }));
+  const renamedTo = new Set(renamed.map(r => r.to));
+  const unchanged = pairs.filter(pair => samePattern(pair) && !renamedTo.has(pair[1].name)).length;
+
+  // Relationships, with renamed endpoints under their new name
+  const newNames = new Map(renamed.map(r => [normalizeName(r.from), r.to]));
+  const endpoint = (name: string) => newNames.get(normalizeName(name)) || name;
+  const pairKey = (rel: DiffRelationship) => `${normalizeName(rel.source)}→${normalizeName(rel.target)}`;
+  const relKey = (rel: DiffRelationship) => `${pairKey(rel)}:${rel.type.toLowerCase()}`;
+
+  const beforeRels = before.relationships.map(rel => ({ ...rel, source: endpoint(rel.source), target: endpoint(rel.target) }));
+  const afterKeys = new Set(after.relationships.map(relKey));
+  const beforeKeys = new Set(beforeRels.map(relKey));
+  let removedRels = beforeRels.filter(rel => !afterKeys.has(relKey(rel)));
+  let addedRels = after.relationships.filter(rel => !beforeKeys.has(relKey(rel)));
+
+  const changed: ProposalDiff['relationships']['changed'] = [];
+  for (const oldRel of [...removedRels]) {
+    const newRel = addedRels.find(rel => pairKey(rel) === pairKey(oldRel));
+    if (!newRel) continue;
+    changed.push({ source: newRel.source, target: newRel.target, from: oldRel.type, to: newRel.type });
+    removedRels = removedRels.filter(rel => rel !== oldRel);
+    addedRels = addedRels.filter(rel => rel !== newRel);
+  }
+
+  const agent = ({ name, pattern }: ProposalAgent): DiffAgent => ({ name, pattern });
+  return {
+    from: summary(from),
+    to: summary(to),
+    agents: { added: added.map(agent), removed: removed.map(agent), renamed, patternChanged, unchanged },
+    relationships: { added: addedRels, removed: removedRels, changed },
+  };
+}
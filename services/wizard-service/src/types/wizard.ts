@@ -21,6 +21,9 @@ export interface WizardSession {
   status: 'created' | 'analyzing' | 'analyzed' | 'applied' | 'failed';
   step_data?: Record<string, unknown>; // Per-step wizard data
   current_step?: number;
+  // Set on sessions branched from another session (see services/session-revisions.ts)
+  parentSessionId?: string | null;
+  branchedAtStep?: number | null;
   createdAt: Date;
   updatedAt: Date;
   appliedAt?: Date;
@@ -59,6 +62,16 @@ export interface ExtractedCapability {
   parentName?: string | null;
   description: string;
   automationPotential: 'low' | 'medium' | 'high';
+  /** Where in an uploaded document the capability was found (data uploads only) */
+  sources?: CapabilitySource[];
+}
+
+export interface CapabilitySource {
+  file: string;
+  sheet?: string;
+  page?: number;
+  /** 0-based chunk the document was analysed in */
+  chunk: number;
 }
 
 // ============================================================================
@@ -0,0 +1,276 @@
+/**
+ * ArchiMate Tests
+ *
+ * Parsing Open Group and Archi exchange files, exporting a foundation and its agent
+ * network to Open Exchange XML, and re-importing an edited export in place.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import {
+  ArchiMateImportError,
+  FoundationModel,
+  buildArchiMateExchange,
+  decodeXml,
+  escapeXml,
+  importArchiMateExchange,
+  nextItemId,
+  parseArchiMateXml,
+} from '../src/services/archimate';
+
+const TENANT_ID = 'tenant-1';
+const FOUNDATION_ID = 'f-1';
+const INTAKE_AGENT = '11111111-1111-1111-1111-111111111111';
+const BILLING_AGENT = '22222222-2222-2222-2222-222222222222';
+
+function foundationModel(): FoundationModel {
+  return {
+    foundation: {
+      id: FOUNDATION_ID,
+      name: 'Order to Cash',
+      description: 'Orders & invoices',
+      capabilities: [
+        { id: 'cap-0', name: 'Order Management', level: 0, description: 'Everything about orders' },
+        { id: 'cap-1', name: 'Order Intake', level: 1, parentName: 'Order Management', description: 'Take orders' },
+        { id: 'cap-2', name: 'Invoicing', level: 1, parentName: 'Order Management', description: 'Bill customers' },
+      ],
+      data_objects: [{ id: 'data-0', name: 'Order', description: 'A customer order' }],
+      processes: [{ id: 'proc-0', name: 'Fulfil Order', description: '' }],
+    },
+    agents: [
+      { id: INTAKE_AGENT, name: 'Intake Agent', description: 'Captures orders', config: { processName: 'Fulfil Order' }, capabilities: ['Order Intake'] },
+      { id: BILLING_AGENT, name: 'Billing Agent', description: null, config: { purpose: 'Sends invoices', capabilities: [{ name: 'Invoicing' }] } },
+    ],
+    interactions: [
+      { id: 'int-1', source_agent_id: INTAKE_AGENT, target_agent_id: BILLING_AGENT, message_type: 'order_accepted', description: 'Bill the order', config: {} },
+    ],
+  };
+}
+
+/**
+ * A pool whose client answers the import's queries from an in-memory foundation, and
+ * records every query it was sent.
+ */
+function importPool(model: FoundationModel) {
+  const queries: Array<{ sql: string; params: any[] }> = [];
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      queries.push({ sql, params });
+      if (/FROM foundations/.test(sql)) {
+        return { rows: params[0] === model.foundation.id ? [model.foundation] : [] };
+      }
+      if (/SELECT \* FROM agents/.test(sql)) return { rows: model.agents };
+      if (/FROM agent_interactions/.test(sql)) return { rows: model.interactions };
+      if (/INSERT INTO agents/.test(sql)) return { rows: [{ id: `agent-new-${queries.length}` }] };
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  const pool = { connect: async () => client } as unknown as Pool;
+  const ran = (pattern: RegExp) => queries.filter(q => pattern.test(q.sql));
+  return { pool, client, queries, ran };
+}
+
+describe('archimate', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('xml text', () => {
+    it('escapes and decodes entities, dropping control characters', () => {
+      expect(escapeXml('R&D <"core">\x07')).toBe('R&amp;D &lt;&quot;core&quot;&gt;');
+      expect(decodeXml('R&amp;D &lt;core&gt; &#233;&#x00E9; &amp;lt;')).toBe('R&D <core> éé &lt;');
+    });
+  });
+
+  describe('parseArchiMateXml', () => {
+    it('reads Open Group elements and relationships, skipping junctions', () => {
+      const parsed = parseArchiMateXml(`<?xml version="1.0"?>
+<model xmlns="http://www.opengroup.org/xsd/archimate/3.0/" identifier="id-model">
+  <name xml:lang="en">Retail &amp; Trade</name>
+  <elements>
+    <element identifier="id-a" xsi:type="BusinessFunction"><name xml:lang="en">Sales</name><documentation>Sell &lt;things&gt;</documentation></element>
+    <element identifier="id-b" xsi:type="ApplicationComponent"><name>CRM</name></element>
+    <element identifier="id-j" xsi:type="AndJunction"><name>J</name></element>
+  </elements>
+  <relationships>
+    <relationship identifier="id-r1" xsi:type="Triggering" source="id-b" target="id-a"><name>lead</name></relationship>
+    <relationship source="id-a" target="id-b" identifier="id-r2" xsi:type="Aggregation"/>
+  </relationships>
+</model>`);
+
+      expect(parsed.modelIdentifier).toBe('id-model');
+      expect(parsed.modelName).toBe('Retail & Trade');
+      expect(parsed.elements).toEqual([
+        { id: 'id-a', name: 'Sales', type: 'Capability', documentation: 'Sell <things>' },
+        { id: 'id-b', name: 'CRM', type: 'Agent', documentation: undefined },
+      ]);
+      expect(parsed.relationships).toEqual([
+        { id: 'id-r1', type: 'Flow', sourceId: 'id-b', targetId: 'id-a', name: 'lead' },
+        { id: 'id-r2', type: 'Composition', sourceId: 'id-a', targetId: 'id-b', name: undefined },
+      ]);
+    });
+
+    it('falls back to the Archi tool format', () => {
+      const parsed = parseArchiMateXml(`<archimate:model name="Archi Model" id="m1">
+  <folder type="business">
+    <element xsi:type="archimate:BusinessObject" id="e1" name="Invoice"/>
+    <element xsi:type="archimate:BusinessProcess" id="e2" name="Billing"/>
+  </folder>
+  <folder type="relations">
+    <element xsi:type="archimate:AccessRelationship" id="r1" source="e2" target="e1" name="writes"/>
+  </folder>
+</archimate:model>`);
+
+      expect(parsed.modelName).toBe('Archi Model');
+      expect(parsed.elements.map(e => [e.id, e.type, e.name])).toEqual([
+        ['e1', 'DataObject', 'Invoice'],
+        ['e2', 'Process', 'Billing'],
+      ]);
+      expect(parsed.relationships).toEqual([{ id: 'r1', type: 'Access', sourceId: 'e2', targetId: 'e1', name: 'writes' }]);
+    });
+  });
+
+  describe('buildArchiMateExchange', () => {
+    it('exports foundation items, agents and interactions with stable identifiers', () => {
+      const xml = buildArchiMateExchange(foundationModel());
+      const parsed = parseArchiMateXml(xml);
+
+      expect(xml).toBe(buildArchiMateExchange(foundationModel()));
+      expect(parsed.modelIdentifier).toBe('id-fg-foundation-f-1');
+      expect(parsed.modelName).toBe('Order to Cash');
+      expect(parsed.elements.map(e => [e.id, e.type, e.name])).toEqual([
+        ['id-fg-capability-f-1-cap-0', 'Capability', 'Order Management'],
+        ['id-fg-capability-f-1-cap-1', 'Capability', 'Order Intake'],
+        ['id-fg-capability-f-1-cap-2', 'Capability', 'Invoicing'],
+        ['id-fg-data-object-f-1-data-0', 'DataObject', 'Order'],
+        ['id-fg-process-f-1-proc-0', 'Process', 'Fulfil Order'],
+        [`id-fg-agent-${INTAKE_AGENT}`, 'Agent', 'Intake Agent'],
+        [`id-fg-agent-${BILLING_AGENT}`, 'Agent', 'Billing Agent'],
+      ]);
+      expect(parsed.elements.find(e => e.name === 'Billing Agent')!.documentation).toBe('Sends invoices');
+
+      const links = parsed.relationships.map(r => [r.type, r.sourceId.replace(/^id-fg-/, ''), r.targetId.replace(/^id-fg-/, ''), r.name]);
+      expect(links).toEqual([
+        ['Composition', 'capability-f-1-cap-0', 'capability-f-1-cap-1', undefined],
+        ['Composition', 'capability-f-1-cap-0', 'capability-f-1-cap-2', undefined],
+        ['Realization', `agent-${INTAKE_AGENT}`, 'capability-f-1-cap-1', undefined],
+        ['Serving', `agent-${INTAKE_AGENT}`, 'process-f-1-proc-0', undefined],
+        ['Realization', `agent-${BILLING_AGENT}`, 'capability-f-1-cap-2', undefined],
+        ['Flow', `agent-${INTAKE_AGENT}`, `agent-${BILLING_AGENT}`, 'order_accepted'],
+      ]);
+      expect(parsed.relationships[5].id).toBe('id-fg-interaction-int-1');
+    });
+
+    it('draws a capability map by level and an agent network view', () => {
+      const xml = buildArchiMateExchange(foundationModel());
+
+      expect(xml.match(/<view identifier="([^"]+)"/g)).toEqual([
+        '<view identifier="id-fg-view-f-1-capability-map"',
+        '<view identifier="id-fg-view-f-1-agent-network"',
+      ]);
+      expect(xml).toMatch(/elementRef="id-fg-capability-f-1-cap-0" xsi:type="Element" x="40" y="40"/);
+      expect(xml).toMatch(/elementRef="id-fg-capability-f-1-cap-2" xsi:type="Element" x="220" y="160"/);
+      expect(xml).toContain('<documentation xml:lang="en">Orders &amp; invoices</documentation>');
+    });
+
+    it('keeps identifiers of elements created in an architecture tool, and hashes items without an id', () => {
+      const model = foundationModel();
+      model.foundation.capabilities = [{ name: 'Pricing', archimateId: 'id-archi-pricing' }, { name: 'Returns' }];
+
+      const ids = parseArchiMateXml(buildArchiMateExchange(model)).elements.map(e => e.id);
+
+      expect(ids[0]).toBe('id-archi-pricing');
+      expect(ids[1]).toMatch(/^id-fg-capability-f-1-name-[0-9a-f]{16}$/);
+    });
+  });
+
+  describe('nextItemId', () => {
+    it('continues the highest wizard id of the kind', () => {
+      expect(nextItemId('capability', [{ id: 'cap-3', name: 'A' }, { id: 'cap-10', name: 'B' }, { id: 'custom', name: 'C' }])).toBe('cap-11');
+      expect(nextItemId('process', [{ name: 'A' }])).toBe('proc-1');
+    });
+  });
+
+  describe('importArchiMateExchange', () => {
+    it('updates exported elements in place and adds the ones created in the tool', async () => {
+      const model = foundationModel();
+      const xml = buildArchiMateExchange(model)
+        .replace('<name xml:lang="en">Order Intake</name>', '<name xml:lang="en">Order Capture</name>')
+        .replace('  </elements>', `    <element identifier="id-archi-returns" xsi:type="Capability"><name xml:lang="en">Returns</name></element>
+    <element identifier="id-archi-support" xsi:type="ApplicationComponent"><name xml:lang="en">Support Agent</name></element>
+    <element identifier="id-archi-goal" xsi:type="Goal"><name xml:lang="en">Happy customers</name></element>
+  </elements>`)
+        .replace('  </relationships>', `    <relationship identifier="id-archi-rel-1" xsi:type="Composition" source="id-fg-capability-f-1-cap-0" target="id-archi-returns"/>
+    <relationship identifier="id-archi-rel-2" xsi:type="Triggering" source="id-fg-agent-${BILLING_AGENT}" target="id-archi-support"><name>invoice_disputed</name></relationship>
+  </relationships>`);
+      const { pool, client, ran } = importPool(model);
+
+      const summary = await importArchiMateExchange(pool, TENANT_ID, FOUNDATION_ID, xml);
+
+      expect(summary).toEqual({
+        capabilities: { created: 1, updated: 1 },
+        dataObjects: { created: 0, updated: 0 },
+        processes: { created: 0, updated: 0 },
+        agents: { created: 1, updated: 0 },
+        interactions: { created: 1, updated: 0 },
+        skipped: 1,
+      });
+
+      const [capabilities] = ran(/UPDATE foundations/)[0].params;
+      expect(JSON.parse(capabilities)).toEqual([
+        { id: 'cap-0', name: 'Order Management', level: 0, description: 'Everything about orders' },
+        { id: 'cap-1', name: 'Order Capture', level: 1, parentName: 'Order Management', description: 'Take orders' },
+        { id: 'cap-2', name: 'Invoicing', level: 1, parentName: 'Order Management', description: 'Bill customers' },
+        { id: 'cap-3', name: 'Returns', description: '', archimateId: 'id-archi-returns', parentName: 'Order Management' },
+      ]);
+      expect(ran(/INSERT INTO agents/)[0].params).toEqual([
+        TENANT_ID, 'Support Agent', null,
+        { foundationId: FOUNDATION_ID, archimateId: 'id-archi-support', purpose: '', pattern: 'specialist' },
+      ]);
+      expect(ran(/INSERT INTO agent_interactions/)[0].params).toEqual([
+        BILLING_AGENT, expect.stringMatching(/^agent-new-/), 'invoice_disputed', { archimateId: 'id-archi-rel-2' },
+      ]);
+      // The unchanged interaction is matched by its identifier and left alone
+      expect(ran(/UPDATE agent_interactions/)).toHaveLength(0);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('matches agents by name and records their identifier from the tool', async () => {
+      const model = foundationModel();
+      const xml = `<model identifier="id-archi-model"><name>Imported</name>
+  <element identifier="id-archi-intake" xsi:type="ApplicationComponent"><name>intake agent</name></element>
+</model>`;
+      const { pool, ran } = importPool(model);
+
+      const summary = await importArchiMateExchange(pool, TENANT_ID, FOUNDATION_ID, xml);
+
+      expect(summary.agents).toEqual({ created: 0, updated: 1 });
+      expect(ran(/UPDATE agents/)[0].params).toEqual([
+        'intake agent', 'Captures orders', { processName: 'Fulfil Order', archimateId: 'id-archi-intake' }, INTAKE_AGENT, TENANT_ID,
+      ]);
+    });
+
+    it('refuses empty models, other foundations\' exports and unknown foundations', async () => {
+      const model = foundationModel();
+      const { pool, client } = importPool(model);
+
+      await expect(importArchiMateExchange(pool, TENANT_ID, FOUNDATION_ID, '<model><name>Empty</name></model>'))
+        .rejects.toThrow(new ArchiMateImportError('No elements found in XML file'));
+      await expect(importArchiMateExchange(pool, TENANT_ID, 'f-2', buildArchiMateExchange(model)))
+        .rejects.toThrow('This model was exported from another foundation (f-1)');
+      expect(client.query).not.toHaveBeenCalled();
+
+      model.foundation.id = 'f-3';
+      await expect(importArchiMateExchange(pool, TENANT_ID, FOUNDATION_ID, '<element identifier="e1" xsi:type="Capability"><name>A</name></element>'))
+        .rejects.toThrow('Foundation not found');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalledTimes(1);
+    });
+  });
+});
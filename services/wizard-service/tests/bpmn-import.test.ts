@@ -0,0 +1,268 @@
+/**
+ * BPMN Import Tests
+ *
+ * Proposing agents, human roles and data contracts from BPMN 2.0 models, rewriting the
+ * model for the orchestrator, and importing it into a foundation.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { BpmnImportError, dataObjectKey, importBpmnModel, proposeBpmnImport } from '../src/services/bpmn-import';
+
+const TENANT_ID = 'tenant-1';
+const FOUNDATION_ID = 'f-1';
+
+// A Camunda 8 model: default-namespace BPMN, Zeebe extensions, one pool with three lanes
+const CLAIMS_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:zeebe="http://camunda.org/schema/zeebe/1.0" xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" id="Defs_Claims">
+  <dataStore id="Store_Customers" name="Customer DB" />
+  <collaboration id="Collab_Claims">
+    <participant id="Participant_Insurer" name="Insurer" processRef="Process_Claims" />
+  </collaboration>
+  <process id="Process_Claims" name="Handle Claim" isExecutable="true">
+    <laneSet id="LaneSet_Claims">
+      <lane id="Lane_Intake" name="Claims Intake">
+        <flowNodeRef>Start</flowNodeRef>
+        <flowNodeRef>Task_Register</flowNodeRef>
+        <flowNodeRef>Task_Score</flowNodeRef>
+      </lane>
+      <lane id="Lane_Review" name="Claims Reviewer">
+        <flowNodeRef>Task_Review</flowNodeRef>
+        <flowNodeRef>Task_Call</flowNodeRef>
+      </lane>
+      <lane id="Lane_Payout" name="Payout Agent">
+        <flowNodeRef>Task_Pay</flowNodeRef>
+        <flowNodeRef>End</flowNodeRef>
+      </lane>
+    </laneSet>
+    <dataObject id="DO_Claim" name="Claim Form" />
+    <dataObjectReference id="Ref_Claim_Received" name="Claim Form [received]" dataObjectRef="DO_Claim" />
+    <dataObject id="DO_Scores" isCollection="true" />
+    <dataObjectReference id="Ref_Scores" name="Risk Scores" dataObjectRef="DO_Scores" />
+    <dataStoreReference id="Ref_Customers" dataStoreRef="Store_Customers" />
+    <startEvent id="Start" />
+    <serviceTask id="Task_Register" name="Register Claim">
+      <documentation>Record the claim &amp; its policy</documentation>
+      <extensionElements><zeebe:taskDefinition type="register" /></extensionElements>
+      <dataInputAssociation id="In_1"><sourceRef>Ref_Claim_Received</sourceRef></dataInputAssociation>
+      <dataInputAssociation id="In_2"><sourceRef>Ref_Customers</sourceRef></dataInputAssociation>
+    </serviceTask>
+    <scriptTask id="Task_Score" name="Score Risk" scriptFormat="javascript">
+      <script>score()</script>
+      <dataOutputAssociation id="Out_1"><targetRef>Ref_Scores</targetRef></dataOutputAssociation>
+    </scriptTask>
+    <userTask id="Task_Review" name="Review Claim" />
+    <manualTask id="Task_Call" name="Call Customer" />
+    <sendTask id="Task_Pay" name="Pay Out" />
+    <endEvent id="End" />
+    <sequenceFlow id="F1" sourceRef="Start" targetRef="Task_Register" />
+    <sequenceFlow id="F2" sourceRef="Task_Register" targetRef="Task_Score" />
+    <sequenceFlow id="F3" sourceRef="Task_Score" targetRef="Task_Review" />
+    <sequenceFlow id="F4" sourceRef="Task_Review" targetRef="Task_Call" />
+    <sequenceFlow id="F5" sourceRef="Task_Call" targetRef="Task_Pay" />
+    <sequenceFlow id="F6" sourceRef="Task_Pay" targetRef="End" />
+  </process>
+  <bpmndi:BPMNDiagram id="Diagram_Claims">
+    <bpmndi:BPMNPlane id="Plane_Claims" bpmnElement="Collab_Claims">
+      <bpmndi:BPMNShape id="Shape_Register" bpmnElement="Task_Register"><dc:Bounds x="100" y="80" width="100" height="80" /></bpmndi:BPMNShape>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</definitions>`;
+
+// Two processes without lanes or a collaboration; the second has more tasks
+const TWO_PROCESS_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn2:definitions xmlns:bpmn2="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Defs_Two">
+  <bpmn2:process id="Process_Notify" name="Notify">
+    <bpmn2:task id="Task_Notify" name="Send Notice" />
+  </bpmn2:process>
+  <bpmn2:process id="Process_Order" name="Order Handling">
+    <bpmn2:startEvent id="Start_Order" />
+    <bpmn2:task id="Task_Check" name="Check Order" />
+    <bpmn2:callActivity id="Task_Ship" name="Ship Order" />
+    <bpmn2:sequenceFlow id="F1" sourceRef="Start_Order" targetRef="Task_Check" />
+    <bpmn2:sequenceFlow id="F2" sourceRef="Task_Check" targetRef="Task_Ship" />
+  </bpmn2:process>
+</bpmn2:definitions>`;
+
+/**
+ * A pool whose client answers the import's queries from an in-memory foundation and its
+ * agents, and records every query it was sent.
+ */
+function importPool(agents: Array<{ id: string; name: string; config: any }> = [], found = true) {
+  const queries: Array<{ sql: string; params: any[] }> = [];
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      queries.push({ sql, params });
+      if (/FROM foundations/.test(sql)) {
+        return { rows: found ? [{ data_objects: [{ id: 'data-0', name: 'claim form' }], processes: [] }] : [] };
+      }
+      if (/SELECT \* FROM agents/.test(sql)) return { rows: agents };
+      if (/INSERT INTO agents/.test(sql)) return { rows: [{ id: 'agent-orchestrator' }] };
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  const pool = { connect: async () => client } as unknown as Pool;
+  const ran = (pattern: RegExp) => queries.filter(q => pattern.test(q.sql));
+  return { pool, client, ran };
+}
+
+describe('bpmn import', () => {
+  describe('dataObjectKey', () => {
+    it('turns data object names into camelCase field names', () => {
+      expect(dataObjectKey('Claim Form')).toBe('claimForm');
+      expect(dataObjectKey('Crédit-check result')).toBe('creditCheckResult');
+      expect(dataObjectKey('2024 Budget')).toBe('_2024Budget');
+      expect(dataObjectKey('---')).toBe('data');
+    });
+  });
+
+  describe('proposeBpmnImport', () => {
+    it('proposes an agent per lane with agent tasks, and human roles for the rest', () => {
+      const proposal = proposeBpmnImport(CLAIMS_BPMN);
+
+      expect(proposal.processId).toBe('Process_Claims');
+      expect(proposal.orchestrator).toEqual({ name: 'Handle Claim Orchestrator' });
+      expect(proposal.agents).toEqual([
+        { name: 'Claims Intake Agent', performer: 'Claims Intake', source: 'lane', taskIds: ['Task_Register', 'Task_Score'] },
+        { name: 'Payout Agent', performer: 'Payout Agent', source: 'lane', taskIds: ['Task_Pay'] },
+      ]);
+      expect(proposal.humanRoles).toEqual([{ name: 'Claims Reviewer', source: 'lane', taskIds: ['Task_Review', 'Task_Call'] }]);
+      expect(proposal.warnings).toEqual([]);
+    });
+
+    it('turns data associations into data contracts', () => {
+      const proposal = proposeBpmnImport(CLAIMS_BPMN);
+      const task = (id: string) => proposal.tasks.find(t => t.id === id)!;
+
+      expect(task('Task_Register')).toEqual(expect.objectContaining({
+        agent: 'Claims Intake Agent',
+        inputs: ['Claim Form', 'Customer DB'],
+        outputs: [],
+        documentation: 'Agent: Claims Intake Agent\nSkill: Register Claim\nInput: { claimForm: object, customerDB: object }\n\nRecord the claim & its policy',
+      }));
+      expect(task('Task_Score').documentation).toBe('Agent: Claims Intake Agent\nSkill: Score Risk\nOutput: { riskScores: object[] }');
+      expect(task('Task_Review')).toEqual(expect.objectContaining({ agent: null, performer: 'Claims Reviewer', documentation: '' }));
+
+      // Data objects are listed once by name, without their state
+      expect(proposal.dataObjects.map(d => [d.name, d.key, d.collection, d.store])).toEqual([
+        ['Claim Form', 'claimForm', false, false],
+        ['Risk Scores', 'riskScores', true, false],
+        ['Customer DB', 'customerDB', false, true],
+      ]);
+    });
+
+    it('rewrites the model into the form the runtime executes', () => {
+      const { bpmnXml } = proposeBpmnImport(CLAIMS_BPMN);
+
+      expect(bpmnXml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<bpmn:definitions\n    xmlns:bpmn="http:\/\/www.omg.org\/spec\/BPMN\/20100524\/MODEL"/);
+      expect(bpmnXml).toContain('<bpmn:participant id="Participant_Insurer" name="Handle Claim Orchestrator" processRef="Process_Claims" />');
+      expect(bpmnXml).toContain('<bpmn:lane id="Lane_Intake" name="Claims Intake Agent">');
+      expect(bpmnXml).toContain('<bpmn:lane id="Lane_Review" name="Claims Reviewer">');
+      expect(bpmnXml).toContain('<bpmn:serviceTask id="Task_Score" name="Score Risk">');
+      expect(bpmnXml).toContain('<bpmn:serviceTask id="Task_Pay" name="Pay Out">');
+      expect(bpmnXml).toContain('<bpmn:userTask id="Task_Call" name="Call Customer" />');
+      expect(bpmnXml).toContain('<bpmn:documentation>Agent: Claims Intake Agent\nSkill: Register Claim');
+      expect(bpmnXml).toContain('<bpmndi:BPMNShape id="Shape_Register" bpmnElement="Task_Register">');
+      expect(bpmnXml).not.toMatch(/zeebe|extensionElements|<bpmn:script>|scriptFormat/);
+
+      // The rewritten model reads back the same way
+      expect(proposeBpmnImport(bpmnXml).agents.map(a => a.name)).toEqual(['Claims Intake Agent', 'Payout Agent']);
+    });
+
+    it('runs the process with the most tasks, in a lane and participant it creates', () => {
+      const proposal = proposeBpmnImport(TWO_PROCESS_BPMN);
+
+      expect(proposal.processes).toEqual([
+        { id: 'Process_Notify', name: 'Notify', participant: null, main: false, taskCount: 1 },
+        { id: 'Process_Order', name: 'Order Handling', participant: null, main: true, taskCount: 2 },
+      ]);
+      expect(proposal.agents.map(a => [a.name, a.source])).toEqual([['Notify Agent', 'process'], ['Order Handling Agent', 'process']]);
+      expect(proposal.warnings).toEqual([
+        'Only "Order Handling" runs; the 1 task(s) of "Notify" are kept for reference',
+        'Call activity "Ship Order" runs as a task of Order Handling Agent; the process it calls is not imported',
+      ]);
+
+      const xml = proposal.bpmnXml;
+      expect(xml).toContain('<bpmn:participant id="Participant_Process_Order" name="Order Handling Orchestrator" processRef="Process_Order" />');
+      expect(xml).toMatch(/<bpmn:lane id="Lane_Process_Order_Import" name="Order Handling Agent">\s*<bpmn:flowNodeRef>Start_Order<\/bpmn:flowNodeRef>\s*<bpmn:flowNodeRef>Task_Check<\/bpmn:flowNodeRef>\s*<bpmn:flowNodeRef>Task_Ship<\/bpmn:flowNodeRef>/);
+      expect(xml.indexOf('id="Process_Order"')).toBeLessThan(xml.indexOf('id="Process_Notify"'));
+      expect(xml).toContain('<bpmn:process id="Process_Notify" name="Notify" isExecutable="false">');
+    });
+
+    it('runs the requested process and reuses agents of the foundation by name', () => {
+      const proposal = proposeBpmnImport(TWO_PROCESS_BPMN, {
+        processId: 'Process_Notify',
+        existingAgents: [{ id: 'a-1', name: 'notify agent' }, { id: 'a-2', name: 'Notify Orchestrator' }],
+      });
+
+      expect(proposal.processName).toBe('Notify');
+      expect(proposal.orchestrator).toEqual({ name: 'Notify Orchestrator', existingAgentId: 'a-2' });
+      expect(proposal.agents[0]).toEqual(expect.objectContaining({ name: 'notify agent', existingAgentId: 'a-1' }));
+      expect(() => proposeBpmnImport(TWO_PROCESS_BPMN, { processId: 'Process_Missing' }))
+        .toThrow(new BpmnImportError('Process Process_Missing not found in the BPMN model'));
+    });
+
+    it('refuses files that are not BPMN models with tasks', () => {
+      expect(() => proposeBpmnImport('<definitions><process></definitions>')).toThrow('Not a well-formed XML file: unexpected </definitions>');
+      expect(() => proposeBpmnImport('<model xmlns="http://www.opengroup.org/xsd/archimate/3.0/" />'))
+        .toThrow('Not a BPMN 2.0 model: expected a <definitions> element in the BPMN namespace');
+      expect(() => proposeBpmnImport('<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL"><process id="P"><startEvent id="S" /></process></definitions>'))
+        .toThrow('No tasks found in the BPMN model');
+    });
+  });
+
+  describe('importBpmnModel', () => {
+    it('creates draft agents and the orchestrator, and adds processes and data objects to the foundation', async () => {
+      const { pool, client, ran } = importPool([{ id: 'a-payout', name: 'Payout Agent', config: {} }]);
+
+      const { proposal, imported } = await importBpmnModel(pool, TENANT_ID, FOUNDATION_ID, CLAIMS_BPMN);
+
+      expect(imported).toEqual({
+        orchestrator: { id: 'agent-orchestrator', created: true },
+        agents: { created: 1, reused: 1 },
+        processes: { created: 1, existing: 0 },
+        dataObjects: { created: 2, existing: 1 },
+      });
+      const [intake, orchestrator] = ran(/INSERT INTO agents/).map(q => q.params);
+      expect(intake[1]).toBe('Claims Intake Agent');
+      expect(intake[3]).toEqual({
+        foundationId: FOUNDATION_ID,
+        purpose: 'Performs the "Claims Intake" tasks of the Handle Claim process: Register Claim, Score Risk',
+        pattern: 'specialist',
+      });
+      expect(orchestrator[3]).toEqual(expect.objectContaining({ pattern: 'orchestrator', bpmnXml: proposal.bpmnXml }));
+
+      const [dataObjects, processes] = ran(/UPDATE foundations/)[0].params;
+      expect(JSON.parse(dataObjects).map((d: any) => [d.id, d.name])).toEqual([
+        ['data-0', 'claim form'], ['data-1', 'Risk Scores'], ['data-2', 'Customer DB'],
+      ]);
+      expect(JSON.parse(processes)).toEqual([{
+        id: 'proc-0',
+        name: 'Handle Claim',
+        description: 'Imported from BPMN: Register Claim, Score Risk, Review Claim, Call Customer, Pay Out',
+      }]);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('gives an existing orchestrator the imported model', async () => {
+      const { pool, ran } = importPool([{ id: 'a-orch', name: 'Handle Claim Orchestrator', config: { pattern: 'orchestrator', model: 'x' } }]);
+
+      const { imported } = await importBpmnModel(pool, TENANT_ID, FOUNDATION_ID, CLAIMS_BPMN);
+
+      expect(imported.orchestrator).toEqual({ id: 'a-orch', created: false });
+      expect(ran(/UPDATE agents/)[0].params[0]).toEqual(expect.objectContaining({ model: 'x', bpmnXml: expect.stringContaining('Process_Claims') }));
+    });
+
+    it('rolls back when the foundation is missing or the model is invalid', async () => {
+      const missing = importPool([], false);
+      await expect(importBpmnModel(missing.pool, TENANT_ID, FOUNDATION_ID, CLAIMS_BPMN)).rejects.toThrow('Foundation not found');
+      expect(missing.client.query).toHaveBeenLastCalledWith('ROLLBACK');
+
+      const invalid = importPool();
+      await expect(importBpmnModel(invalid.pool, TENANT_ID, FOUNDATION_ID, '<notes />')).rejects.toThrow(BpmnImportError);
+      expect(invalid.client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(invalid.client.release).toHaveBeenCalled();
+    });
+  });
+});
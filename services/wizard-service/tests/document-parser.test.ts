@@ -0,0 +1,241 @@
+/**
+ * Document Parser Tests
+ *
+ * Text extraction from CSV, Excel, PDF and Word uploads, header row detection, chunking
+ * with section markers, and merging the capabilities found in each chunk.
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import * as XLSX from 'xlsx';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import {
+  DocumentParseError,
+  ParsedDocument,
+  chunkDocument,
+  detectHeaderRow,
+  documentFormat,
+  parseDocument,
+  sourceLabel,
+} from '../src/services/document-parser';
+import { mergeCapabilities } from '../src/services/document-analysis';
+
+// Instead of building PDF files, the tests hand pdf-parse's page renderer fake pdf.js pages
+jest.mock('pdf-parse', () => jest.fn());
+
+/**
+ * A fake pdf.js page whose text items sit on the given lines.
+ */
+function pdfPage(lines: string[][]) {
+  const items = lines.flatMap((line, i) => line.map(str => ({ str, transform: [1, 0, 0, 1, 72, 720 - i * 14] })));
+  return { getTextContent: async () => ({ items }) };
+}
+
+function xlsxBuffer(sheets: Record<string, string[][]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+describe('document parser', () => {
+  describe('documentFormat', () => {
+    it('maps supported extensions regardless of case', () => {
+      expect(documentFormat('capabilities.XLSX')).toBe('xlsx');
+      expect(documentFormat('notes.v2.docx')).toBe('docx');
+      expect(documentFormat('model.bpmn')).toBeNull();
+      expect(documentFormat('README')).toBeNull();
+    });
+  });
+
+  describe('detectHeaderRow', () => {
+    it('skips title rows above the table', () => {
+      expect(detectHeaderRow([
+        ['Capability map 2026', '', ''],
+        ['Capability', 'Level', 'Owner'],
+        ['Order intake', '1', 'Sales'],
+      ])).toBe(1);
+    });
+
+    it('finds no header when the top rows are numbers or repeat labels', () => {
+      expect(detectHeaderRow([['2024', '2025'], ['1,200', '1,450']])).toBe(-1);
+      expect(detectHeaderRow([['Name', 'name'], ['Order intake', 'Sales']])).toBe(-1);
+    });
+  });
+
+  describe('parseDocument', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('writes spreadsheet rows as header/value pairs, keeping the title above the table', async () => {
+      const csv = 'Capability map\nCapability,Level,Owner\nOrder intake,1,Sales\nCredit check,2,\n';
+
+      const parsed = await parseDocument('map.csv', Buffer.from(csv));
+
+      expect(parsed.format).toBe('csv');
+      expect(parsed.sections).toEqual([{
+        source: { file: 'map.csv' },
+        text: 'Capability map\nCapability: Order intake; Level: 1; Owner: Sales\nCapability: Credit check; Level: 2',
+      }]);
+      expect(parsed.totalChars).toBe(parsed.sections[0].text.length);
+    });
+
+    it('reads every non-empty worksheet as its own section', async () => {
+      const buffer = xlsxBuffer({
+        'Level 1': [['Capability', 'Owner'], ['Order management', 'Sales']],
+        Notes: [],
+        'Level 2': [['Order intake'], ['Credit check']],
+      });
+
+      const parsed = await parseDocument('map.xlsx', buffer);
+
+      expect(parsed.sections).toEqual([
+        { source: { file: 'map.xlsx', sheet: 'Level 1' }, text: 'Capability: Order management; Owner: Sales' },
+        { source: { file: 'map.xlsx', sheet: 'Level 2' }, text: 'Order intake\nCredit check' },
+      ]);
+    });
+
+    it('splits PDFs into pages, breaking lines where the text moves down the page', async () => {
+      jest.mocked(pdfParse).mockImplementation(async (_buffer, options) => {
+        for (const page of [pdfPage([['Order ', 'intake'], ['Credit check']]), pdfPage([]), pdfPage([['Invoicing']])]) {
+          await options!.pagerender!(page);
+        }
+        return {} as Awaited<ReturnType<typeof pdfParse>>;
+      });
+
+      const parsed = await parseDocument('process.pdf', Buffer.from('%PDF-1.4'));
+
+      // The blank second page is dropped but keeps its number
+      expect(parsed.sections).toEqual([
+        { source: { file: 'process.pdf', page: 1 }, text: 'Order intake\nCredit check' },
+        { source: { file: 'process.pdf', page: 3 }, text: 'Invoicing' },
+      ]);
+    });
+
+    it('tells scanned PDFs apart from other files without text', async () => {
+      jest.mocked(pdfParse).mockImplementation(async (_buffer, options) => {
+        await options!.pagerender!(pdfPage([]));
+        return {} as Awaited<ReturnType<typeof pdfParse>>;
+      });
+
+      await expect(parseDocument('scan.pdf', Buffer.from('%PDF-1.4'))).rejects.toThrow(
+        'No text found in scan.pdf. Scanned PDFs without a text layer are not supported.'
+      );
+      await expect(parseDocument('empty.csv', Buffer.from('\n\n'))).rejects.toThrow('No text found in empty.csv');
+    });
+
+    it('reads Word documents as one section, collapsing runs of blank lines', async () => {
+      jest.spyOn(mammoth, 'extractRawText').mockResolvedValue({ value: 'Order intake\n\n\n\nCredit check', messages: [] });
+
+      const parsed = await parseDocument('notes.docx', Buffer.from('PK'));
+
+      expect(parsed.sections).toEqual([{ source: { file: 'notes.docx' }, text: 'Order intake\n\nCredit check' }]);
+    });
+
+    it('reports unsupported and unreadable files as parse errors', async () => {
+      jest.spyOn(mammoth, 'extractRawText').mockRejectedValue(new Error('End of data reached'));
+
+      await expect(parseDocument('model.bpmn', Buffer.from('<xml/>'))).rejects.toThrow(
+        new DocumentParseError('Unsupported file type: model.bpmn. Supported: .csv, .xlsx, .xls, .pdf, .docx')
+      );
+      await expect(parseDocument('broken.docx', Buffer.from('PK'))).rejects.toThrow(
+        new DocumentParseError('Could not read broken.docx: End of data reached')
+      );
+    });
+  });
+
+  describe('chunkDocument', () => {
+    const document: ParsedDocument = {
+      fileName: 'map.xlsx',
+      format: 'xlsx',
+      sections: [
+        { source: { file: 'map.xlsx', sheet: 'Level 1' }, text: 'Order management\nFinance' },
+        { source: { file: 'map.xlsx', sheet: 'Level 2' }, text: 'Order intake\nCredit check\nInvoicing' },
+      ],
+      totalChars: 56,
+    };
+
+    it('labels sections and keeps whole documents unlabelled', () => {
+      expect(sourceLabel({ file: 'map.xlsx', sheet: 'Level 1' })).toBe('Sheet: Level 1');
+      expect(sourceLabel({ file: 'process.pdf', page: 4 })).toBe('Page 4');
+      expect(sourceLabel({ file: 'notes.docx' })).toBeNull();
+    });
+
+    it('keeps a small document in one chunk with a marker per section', () => {
+      const chunks = chunkDocument(document);
+
+      expect(chunks).toEqual([{
+        index: 0,
+        text: '[Sheet: Level 1]\nOrder management\nFinance\n[Sheet: Level 2]\nOrder intake\nCredit check\nInvoicing',
+        sources: [document.sections[0].source, document.sections[1].source],
+      }]);
+    });
+
+    it('breaks between lines and repeats the marker when a section continues', () => {
+      const chunks = chunkDocument(document, 45);
+
+      expect(chunks.map(chunk => chunk.text)).toEqual([
+        '[Sheet: Level 1]\nOrder management\nFinance',
+        '[Sheet: Level 2]\nOrder intake\nCredit check',
+        '[Sheet: Level 2]\nInvoicing',
+      ]);
+      expect(chunks.every(chunk => chunk.text.length <= 45)).toBe(true);
+      expect(chunks[2].sources).toEqual([document.sections[1].source]);
+    });
+
+    it('splits lines longer than a chunk', () => {
+      const longLine: ParsedDocument = {
+        fileName: 'notes.docx', format: 'docx', sections: [{ source: { file: 'notes.docx' }, text: 'x'.repeat(25) }], totalChars: 25,
+      };
+
+      expect(chunkDocument(longLine, 10).map(chunk => chunk.text.length)).toEqual([10, 10, 5]);
+    });
+  });
+
+  describe('mergeCapabilities', () => {
+    const level1 = { file: 'map.xlsx', sheet: 'Level 1' };
+    const level2 = { file: 'map.xlsx', sheet: 'Level 2' };
+    const chunks = [
+      { index: 0, text: '', sources: [level1, level2] },
+      { index: 1, text: '', sources: [level2] },
+    ];
+
+    it('merges capabilities by name, keeping the longest description and every source', () => {
+      const merged = mergeCapabilities(chunks, [
+        {
+          capabilities: [
+            { name: 'Order  Intake ', level: 2, description: 'Take orders', automationPotential: 'high', sources: ['[Sheet: Level 2]'] },
+            { name: 'Finance', level: 1, description: 'Money', automationPotential: 'low', sources: ['Sheet: Unknown'] },
+          ],
+        },
+        {
+          capabilities: [
+            { name: 'order intake', level: 1, parentName: 'Order management', description: 'Take and check customer orders', automationPotential: 'low' },
+          ],
+        },
+      ]);
+
+      expect(merged).toEqual([
+        {
+          name: 'Order  Intake',
+          level: 2,
+          parentName: 'Order management',
+          description: 'Take and check customer orders',
+          automationPotential: 'high',
+          sources: [{ ...level2, chunk: 0 }, { ...level2, chunk: 1 }],
+        },
+        {
+          name: 'Finance',
+          level: 1,
+          parentName: null,
+          description: 'Money',
+          automationPotential: 'low',
+          // No marker the chunk has, so every section of the chunk
+          sources: [{ ...level1, chunk: 0 }, { ...level2, chunk: 0 }],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Session Revisions Tests
+ *
+ * Keeping wizard step results as revisions, branching a session at a step, and diffing
+ * the agent proposals of two revisions.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import {
+  SessionRevision,
+  SessionRevisionError,
+  branchSession,
+  diffRevisions,
+  getRevision,
+  isRevisionStep,
+  saveStepData,
+} from '../src/services/session-revisions';
+
+const TENANT_ID = 'tenant-1';
+const SESSION_ID = 'session-1';
+
+function revision(data: unknown, fields: Partial<SessionRevision> = {}): SessionRevision {
+  return {
+    id: 'rev-1', sessionId: SESSION_ID, step: 'step3', revision: 1, source: 'step3', data,
+    customPrompt: null, parentRevisionId: null, createdAt: new Date('2026-10-01T10:00:00Z'), ...fields,
+  };
+}
+
+/**
+ * A pool whose client records queries and keeps revisions in memory, numbering them per
+ * session and step the way the INSERT … SELECT MAX(revision) does.
+ */
+function revisionPool(session: Record<string, any> | null, parentRevisions: Array<{ id: string; step: string }> = []) {
+  const queries: Array<{ sql: string; params: any[] }> = [];
+  const revisions: any[] = [];
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      queries.push({ sql, params });
+      if (/^UPDATE wizard_sessions/.test(sql.trim())) return { rows: [], rowCount: session ? 1 : 0 };
+      if (/FROM wizard_sessions WHERE id = \$1/.test(sql)) return { rows: session ? [session] : [] };
+      if (/DISTINCT ON \(step\)/.test(sql)) return { rows: parentRevisions };
+      if (/INSERT INTO wizard_session_revisions/.test(sql)) {
+        const [id, sessionId, , step, source, data, parentRevisionId] = params;
+        const number = revisions.filter(r => r.session_id === sessionId && r.step === step).length + 1;
+        const row = {
+          id, session_id: sessionId, step, revision: number, source, data: JSON.parse(data),
+          custom_prompt: session?.custom_prompt ?? null, parent_revision_id: parentRevisionId, created_at: new Date(),
+        };
+        revisions.push(row);
+        return { rows: [row] };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  const pool = { connect: async () => client, query: client.query } as unknown as Pool;
+  const ran = (pattern: RegExp) => queries.filter(q => pattern.test(q.sql));
+  return { pool, client, revisions, ran };
+}
+
+describe('session revisions', () => {
+  it('knows the steps that keep revisions', () => {
+    expect(isRevisionStep('analysis')).toBe(true);
+    expect(isRevisionStep('step6')).toBe(true);
+    expect(isRevisionStep('step7')).toBe(false);
+    expect(isRevisionStep(3)).toBe(false);
+  });
+
+  describe('saveStepData', () => {
+    it('replaces the step\'s data and adds the next revision in the same transaction', async () => {
+      const { pool, client, ran } = revisionPool({ id: SESSION_ID, custom_prompt: 'Focus on billing' });
+
+      const first = await saveStepData(pool, TENANT_ID, SESSION_ID, 'step3', { agents: [] }, 3);
+      const second = await saveStepData(pool, TENANT_ID, SESSION_ID, 'step3', { agents: [{ name: 'Billing Agent' }] }, 3, 'optimize-agents');
+
+      expect(ran(/UPDATE wizard_sessions/)[0].params).toEqual([SESSION_ID, TENANT_ID, '{step3}', '{"agents":[]}', 3]);
+      expect(first).toEqual(expect.objectContaining({ step: 'step3', revision: 1, source: 'step3', customPrompt: 'Focus on billing' }));
+      expect(second).toEqual(expect.objectContaining({ revision: 2, source: 'optimize-agents', data: { agents: [{ name: 'Billing Agent' }] } }));
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('returns null for a session of another tenant', async () => {
+      const { pool, client, revisions } = revisionPool(null);
+
+      await expect(saveStepData(pool, 'tenant-2', SESSION_ID, 'step1', {}, 1)).resolves.toBeNull();
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(revisions).toHaveLength(0);
+    });
+  });
+
+  it('reports missing revisions with a 404', async () => {
+    const { pool } = revisionPool(null);
+
+    await expect(getRevision(pool, TENANT_ID, 'rev-missing')).rejects.toEqual(new SessionRevisionError('Revision not found', 404));
+  });
+
+  describe('branchSession', () => {
+    const parent = {
+      id: SESSION_ID,
+      user_id: 'user-1',
+      session_name: 'Claims',
+      source_type: 'text',
+      source_data: { text: 'Claims handling' },
+      analysis_result: { agents: [] },
+      custom_prompt: 'Keep it small',
+      current_step: 3,
+      step_data: { step1: { a: 1 }, step2: { b: 2 }, step3: { c: 3 } },
+    };
+
+    it('copies the analysis and the steps up to the chosen one, linking revisions to the parent\'s', async () => {
+      const { pool, ran } = revisionPool(parent, [{ id: 'parent-analysis', step: 'analysis' }, { id: 'parent-step2', step: 'step2' }]);
+
+      const branch = await branchSession(pool, TENANT_ID, SESSION_ID, { throughStep: 2, customPrompt: 'Split billing out' });
+
+      const insert = ran(/INSERT INTO wizard_sessions/)[0].params;
+      expect(insert[0]).toBe(branch.sessionId);
+      expect(insert.slice(3)).toEqual([
+        'Claims (branch)', 'text', parent.source_data, parent.analysis_result, 'Split billing out', 'analyzed',
+        { step1: { a: 1 }, step2: { b: 2 } }, 2, SESSION_ID, 2,
+      ]);
+      expect(branch.parentSessionId).toBe(SESSION_ID);
+      expect(branch.branchedAtStep).toBe(2);
+      expect(branch.revisions.map(r => [r.sessionId, r.step, r.revision, r.source, r.parentRevisionId])).toEqual([
+        [branch.sessionId, 'analysis', 1, 'branch', 'parent-analysis'],
+        [branch.sessionId, 'step1', 1, 'branch', null],
+        [branch.sessionId, 'step2', 1, 'branch', 'parent-step2'],
+      ]);
+    });
+
+    it('only branches at steps the session has completed', async () => {
+      const { pool, client } = revisionPool(parent);
+
+      await expect(branchSession(pool, TENANT_ID, SESSION_ID, { throughStep: 4 }))
+        .rejects.toEqual(new SessionRevisionError('Session has only completed step 3'));
+      await expect(branchSession(pool, TENANT_ID, SESSION_ID, { throughStep: 1.5 }))
+        .rejects.toThrow('throughStep must be a step number from 0 to 6');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('diffRevisions', () => {
+    it('finds added, removed, renamed and re-patterned agents', () => {
+      const from = revision({
+        proposedAgents: {
+          agents: [
+            { id: 'agent-1', name: 'Intake Agent', suggestedPattern: 'specialist', purpose: 'Registers incoming insurance claims' },
+            { id: 'agent-2', name: 'Fraud Agent', suggestedPattern: 'specialist', purpose: 'Detects fraudulent claims using risk signals' },
+            { id: 'agent-3', name: 'Payout Agent', suggestedPattern: 'specialist', purpose: 'Pays approved claims' },
+            { id: 'agent-4', name: 'Letters Agent', suggestedPattern: 'specialist', purpose: 'Writes customer letters' },
+          ],
+        },
+      });
+      const to = revision({
+        proposedAgents: {
+          agents: [
+            { id: 'agent-1', name: 'Claims Intake Agent', suggestedPattern: 'specialist', purpose: 'Registers incoming insurance claims and policies' },
+            { id: 'agent-9', name: 'Risk Agent', suggestedPattern: 'specialist', purpose: 'Detects fraudulent claims using risk signals and history' },
+            { id: 'agent-3', name: 'payout agent', suggestedPattern: 'coordinator', purpose: 'Pays approved claims' },
+            { id: 'agent-4', name: 'Notification Agent', suggestedPattern: 'specialist', purpose: 'Sends SMS messages' },
+          ],
+        },
+      }, { id: 'rev-2', revision: 2 });
+
+      const diff = diffRevisions(from, to);
+
+      expect(diff.from.id).toBe('rev-1');
+      expect(diff.to).not.toHaveProperty('data');
+      expect(diff.agents).toEqual({
+        added: [{ name: 'Notification Agent', pattern: 'specialist' }],
+        removed: [{ name: 'Letters Agent', pattern: 'specialist' }],
+        renamed: [
+          { from: 'Intake Agent', to: 'Claims Intake Agent', matchedBy: 'id' },
+          { from: 'Fraud Agent', to: 'Risk Agent', matchedBy: 'purpose' },
+        ],
+        patternChanged: [{ name: 'payout agent', from: 'specialist', to: 'coordinator' }],
+        unchanged: 0,
+      });
+    });
+
+    it('compares relationships by endpoint name, following renames', () => {
+      // An analysis result before, an optimize-agents proposal after
+      const from = revision({
+        agents: [
+          { id: 'a1', name: 'Orchestrator', pattern: 'orchestrator' },
+          { id: 'a2', name: 'Intake Agent', pattern: 'specialist', purpose: 'Registers incoming insurance claims' },
+          { id: 'a3', name: 'Payout Agent', pattern: 'specialist' },
+        ],
+        agentRelationships: [
+          { sourceAgentId: 'a1', targetAgentId: 'a2', relationshipType: 'delegates' },
+          { sourceAgentId: 'a1', targetAgentId: 'a3', relationshipType: 'delegates' },
+          { sourceAgentId: 'a2', targetAgentId: 'a3', relationshipType: 'notifies' },
+        ],
+      }, { step: 'analysis' });
+      const to = revision({
+        proposedAgents: {
+          orchestrator: { id: 'o1', name: 'Orchestrator', pattern: 'orchestrator' },
+          specialists: [
+            { id: 's1', name: 'Registration Agent', pattern: 'specialist', purpose: 'Registers incoming insurance claims' },
+            { id: 's2', name: 'Payout Agent', pattern: 'specialist' },
+          ],
+        },
+        relationships: [
+          { sourceAgentId: 'o1', targetAgentId: 's1', relationshipType: 'delegates' },
+          { sourceAgentId: 'o1', targetAgentId: 's2', messageType: 'payout_request' },
+          { sourceAgentId: 's2', targetAgentId: 'o1', relationshipType: 'reports' },
+        ],
+      }, { id: 'rev-2' });
+
+      const diff = diffRevisions(from, to);
+
+      expect(diff.agents.renamed).toEqual([{ from: 'Intake Agent', to: 'Registration Agent', matchedBy: 'purpose' }]);
+      expect(diff.agents.unchanged).toBe(2);
+      expect(diff.relationships).toEqual({
+        added: [{ source: 'Payout Agent', target: 'Orchestrator', type: 'reports' }],
+        removed: [{ source: 'Registration Agent', target: 'Payout Agent', type: 'notifies' }],
+        changed: [{ source: 'Orchestrator', target: 'Payout Agent', from: 'delegates', to: 'payout_request' }],
+      });
+    });
+
+    it('does not treat a positional ID as a rename when the purposes differ', () => {
+      const from = revision({ agents: [{ id: 'agent-1', name: 'Intake Agent', purpose: 'Registers incoming insurance claims' }] });
+      const to = revision({ agents: [{ id: 'agent-1', name: 'Reporting Agent', purpose: 'Builds monthly dashboards' }] });
+
+      const diff = diffRevisions(from, to);
+
+      expect(diff.agents.renamed).toEqual([]);
+      expect(diff.agents.added.map(a => a.name)).toEqual(['Reporting Agent']);
+      expect(diff.agents.removed.map(a => a.name)).toEqual(['Intake Agent']);
+    });
+  });
+});